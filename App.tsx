@@ -1,124 +1,431 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { AnalysisStatus, AnalysisResult, ChatMessage } from './types';
-import { analyzeFile, createChatSession } from './services/geminiService';
-import { analyzeFileHardcoded } from './services/analyzer';
-import { formatBytes, fileToBase64, getSafeMimeType } from './utils/fileUtils';
+import { AnalysisStage, AnalysisStatus, AnalysisResult, BatchItem, ChatMessage, LocalizedText, PickedFile } from './types';
+import { AiSettings, ChatSession, DEFAULT_MODELS, getAiSettings, saveAiSettings } from './services/aiProvider';
+import { getActiveProvider, isProviderConfigured } from './services/providers';
+import { getApiKey, hasVault } from './services/keyVault';
+import { analyzeLocally } from './services/localAnalysis';
+import { blendResults } from './services/blend';
+import { oversizedCoverage } from './services/payload';
+import { suggestedQuestions } from './services/chatSuggestions';
+import { createLocalChatSession, localSuggestedQuestions } from './services/localChat';
+import { BATCH_CONCURRENCY, runQueue } from './services/batch';
+import { HistoryEntry, saveScan, updateScanMessages } from './services/history';
+import { findingText, getLocale, Locale, LOCALES, MessageKey, resultText, setLocale, t as translate } from './services/i18n';
+import { formatBytes, pickedFromDataTransfer, pickedFromFileList } from './utils/fileUtils';
+import ApiKeySettings from './components/ApiKeySettings';
+import RulesSettings from './components/RulesSettings';
+import HashListSettings from './components/HashListSettings';
+import PolicySettings from './components/PolicySettings';
+import ArchiveContents from './components/ArchiveContents';
+import EmailDetails from './components/EmailDetails';
+import ExecutableDetails from './components/ExecutableDetails';
+import BatchResults from './components/BatchResults';
+import ReportExport from './components/ReportExport';
+import HistorySidebar from './components/HistorySidebar';
+import VerdictOpinions from './components/VerdictOpinions';
+import AiCoverageNote from './components/AiCoverageNote';
+import TechnicalPanel from './components/TechnicalPanel';
+import FilePreview from './components/FilePreview';
+import Markdown from './components/Markdown';
+import PasteTextPanel from './components/PasteTextPanel';
 import { 
   FileSearch, Upload, AlertCircle, FileText, CheckCircle2,
   ShieldCheck, Info, MessageSquare, Send, User, Bot,
-  AlertTriangle, ShieldAlert, ArrowRight, RefreshCcw, KeyRound,
-  Settings, Zap, Shield, Sparkles, Linkedin, Mail
+  AlertTriangle, ShieldAlert, ArrowRight, RefreshCcw, Lock,
+  Settings, Zap, Shield, Sparkles, Linkedin, Mail, FolderOpen, ChevronLeft, History, X, Square, ClipboardPaste, Globe
 } from 'lucide-react';
 
+const SCAN_STAGES: [AnalysisStage, MessageKey][] = [
+  ['reading', 'app.stage.reading'],
+  ['rules', 'app.stage.rules'],
+  ['hashing', 'app.stage.hashing'],
+  ['parsing', 'app.stage.parsing'],
+  ['ai', 'app.stage.ai']
+];
+
 export default function App() {
   const [file, setFile] = useState<File | null>(null);
   const [status, setStatus] = useState<AnalysisStatus>(AnalysisStatus.IDLE);
   const [result, setResult] = useState<AnalysisResult | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [stage, setStage] = useState<AnalysisStage | null>(null);
+  const [resultTab, setResultTab] = useState<'overview' | 'preview' | 'technical'>('overview');
+  // Aborting stops the local worker and any in-flight AI request of the current scan
+  const scanAbortRef = useRef<AbortController | null>(null);
+
+  // Batch State - bumping the run id makes an in-flight queue stop and discard its results
+  const [batch, setBatch] = useState<BatchItem[]>([]);
+  const batchRunRef = useRef(0);
+
+  // History State - a re-opened scan may have no file, only its name and size
+  const [showHistory, setShowHistory] = useState(false);
+  const [historyId, setHistoryId] = useState<number | null>(null);
+  const [pastFile, setPastFile] = useState<{ name: string; size: number } | null>(null);
   
-  // API Key Management - Default to empty unless explicitly provided
-  const [userApiKey, setUserApiKey] = useState<string>(localStorage.getItem('omni_api_key') || '');
+  // Input State - drag events fire for every child crossed, so count enters against leaves
+  const [isDragging, setIsDragging] = useState(false);
+  const dragDepthRef = useRef(0);
+  const [pasteText, setPasteText] = useState<string | null>(null);
+
+  // AI Settings - the Gemini key itself lives in the key vault, never in component state
+  const [aiSettings, setAiSettings] = useState<AiSettings>(getAiSettings);
   const [showSettings, setShowSettings] = useState(false);
-  const [isProMode, setIsProMode] = useState(false);
+  const [isProMode, setIsProMode] = useState(() => isProviderConfigured());
+
+  // Locale - the AI prompts read the saved choice, so it is stored before re-rendering
+  const [locale, setLocaleState] = useState<Locale>(getLocale);
+  const t = (key: MessageKey, params?: LocalizedText['params']) => translate(key, params, locale);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const changeLocale = (next: Locale) => {
+    setLocale(next);
+    setLocaleState(next);
+  };
 
   // Chat State
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [inputMessage, setInputMessage] = useState('');
   const [isChatting, setIsChatting] = useState(false);
-  const chatSessionRef = useRef<any>(null);
+  const [chatReady, setChatReady] = useState(false);
+  const chatSessionRef = useRef<ChatSession | null>(null);
+  const chatAbortRef = useRef<AbortController | null>(null);
   const chatEndRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
-    // Check if any key exists (Local Storage or Vercel Environment)
-    const envKey = (window as any).process?.env?.API_KEY;
-    if ((envKey && envKey !== 'undefined' && envKey !== '') || (userApiKey && userApiKey.trim() !== '')) {
-      setIsProMode(true);
-    } else {
-      setIsProMode(false);
-    }
-  }, [userApiKey]);
+    // Streaming rewrites the last message many times a second; save once the reply is complete.
+    if (historyId === null || messages.length === 0 || isChatting) return;
+    updateScanMessages(historyId, messages).catch(err => console.warn("Could not save chat to history:", err));
+  }, [historyId, messages, isChatting]);
+
+  useEffect(() => {
+    chatEndRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [messages]);
 
-  const handleSaveKey = (e: React.FormEvent) => {
+  const handleSaveSettings = (e: React.FormEvent) => {
     e.preventDefault();
-    localStorage.setItem('omni_api_key', userApiKey.trim());
+    saveAiSettings(aiSettings);
     setShowSettings(false);
-    const hasKeyNow = userApiKey.trim() !== '';
-    setIsProMode(hasKeyNow);
+    setIsProMode(isProviderConfigured(aiSettings));
+  };
+
+  const startScanRun = (): AbortSignal => {
+    scanAbortRef.current?.abort();
+    scanAbortRef.current = new AbortController();
+    return scanAbortRef.current.signal;
+  };
+
+  const analyzeOne = async (selectedFile: File, signal: AbortSignal, onProgress?: (stage: AnalysisStage) => void): Promise<AnalysisResult> => {
+    const local = await analyzeLocally(selectedFile, { signal, onProgress });
+    if (!isProMode) return local;
+    const skipped = oversizedCoverage(selectedFile);
+    if (skipped) return { ...local, aiCoverage: skipped };
+    onProgress?.('ai');
+    try {
+      return blendResults(local, await getActiveProvider().analyzeFile(selectedFile, signal));
+    } catch (aiErr) {
+      if (signal.aborted) throw aiErr;
+      console.warn("AI Analysis failed, falling back to signature analysis:", aiErr);
+      return local;
+    }
   };
 
-  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const selectedFile = e.target.files?.[0];
-    if (!selectedFile) return;
+  // Free mode answers from the result alone; Pro mode needs the file and an AI that was allowed to see it
+  const openChat = async (selectedFile: File | null, analysis: AnalysisResult) => {
+    if (!isProMode) {
+      chatSessionRef.current = createLocalChatSession(analysis);
+    } else if (selectedFile && analysis.aiCoverage?.strategy !== 'skipped') {
+      chatSessionRef.current = await getActiveProvider().createChatSession(selectedFile, analysis);
+    } else {
+      return;
+    }
+    setChatReady(true);
+  };
+
+  const closeChat = () => {
+    chatAbortRef.current?.abort();
+    chatSessionRef.current = null;
+    setChatReady(false);
+  };
+
+  const record = (scanned: File, analysis: AnalysisResult): Promise<number | null> => {
+    return saveScan(scanned, analysis).catch(err => {
+      console.warn("Could not save scan to history:", err);
+      return null;
+    });
+  };
 
+  const scanSingle = async (selectedFile: File) => {
+    const signal = startScanRun();
+    batchRunRef.current++;
+    setBatch([]);
     setFile(selectedFile);
+    setPastFile(null);
+    setHistoryId(null);
     setStatus(AnalysisStatus.LOADING);
+    setStage(null);
     setError(null);
     setMessages([]);
+    closeChat();
 
     try {
-      if (isProMode) {
-        try {
-          const analysis = await analyzeFile(selectedFile);
-          const base64 = await fileToBase64(selectedFile);
-          const mime = getSafeMimeType(selectedFile);
-          chatSessionRef.current = createChatSession(base64, mime, selectedFile.name);
-          setResult(analysis);
-        } catch (aiErr) {
-          console.warn("AI Analysis failed, falling back to signature analysis:", aiErr);
-          const fallback = await analyzeFileHardcoded(selectedFile);
-          setResult(fallback);
-        }
-      } else {
-        const analysis = await analyzeFileHardcoded(selectedFile);
-        setResult(analysis);
-      }
+      const analysis = await analyzeOne(selectedFile, signal, setStage);
+      if (signal.aborted) return;
+      await openChat(selectedFile, analysis).catch(err => console.warn("Could not start a chat session for this file:", err));
+      setResult(analysis);
       setStatus(AnalysisStatus.SUCCESS);
+      setHistoryId(await record(selectedFile, analysis));
     } catch (err: any) {
+      if (signal.aborted) return;
       console.error(err);
-      setError("Something went wrong during analysis. Please try again.");
+      setError(t('app.error.analysis'));
       setStatus(AnalysisStatus.ERROR);
     }
   };
 
-  const handleSendMessage = async (e?: React.FormEvent) => {
-    e?.preventDefault();
-    if (!inputMessage.trim() || !chatSessionRef.current || isChatting) return;
+  const scanBatch = async (picked: PickedFile[]) => {
+    const signal = startScanRun();
+    const run = ++batchRunRef.current;
+    const items: BatchItem[] = picked.map((p, i) => ({ ...p, id: i, status: 'queued' }));
+    const update = (id: number, patch: Partial<BatchItem>) => {
+      if (run !== batchRunRef.current) return;
+      setBatch(prev => prev.map(item => (item.id === id ? { ...item, ...patch } : item)));
+    };
+
+    setBatch(items);
+    setFile(null);
+    setPastFile(null);
+    setHistoryId(null);
+    setResult(null);
+    setError(null);
+    setMessages([]);
+    closeChat();
+    setStatus(AnalysisStatus.BATCH);
+
+    await runQueue(items, BATCH_CONCURRENCY, async item => {
+      update(item.id, { status: 'scanning' });
+      try {
+        const analysis = await analyzeOne(item.file, signal);
+        update(item.id, { status: 'done', result: analysis, historyId: (await record(item.file, analysis)) ?? undefined });
+      } catch (err: any) {
+        console.error(err);
+        update(item.id, { status: 'error', error: err?.message || t('app.error.batchItem') });
+      }
+    }, () => run !== batchRunRef.current);
+  };
+
+  const startScan = (picked: PickedFile[]) => {
+    if (picked.length === 0) return;
+    if (picked.length === 1) scanSingle(picked[0].file);
+    else scanBatch(picked);
+  };
 
-    const userText = inputMessage.trim();
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const picked = pickedFromFileList(e.target.files);
+    e.target.value = '';
+    startScan(picked);
+  };
+
+  const carriesFiles = (e: React.DragEvent) => e.dataTransfer.types.includes('Files');
+
+  const handleDragEnter = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!carriesFiles(e)) return;
+    e.preventDefault();
+    dragDepthRef.current++;
+    setIsDragging(true);
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!carriesFiles(e)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+  };
+
+  const handleDragLeave = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!carriesFiles(e)) return;
+    dragDepthRef.current = Math.max(0, dragDepthRef.current - 1);
+    if (dragDepthRef.current === 0) setIsDragging(false);
+  };
+
+  const handleDrop = async (e: React.DragEvent<HTMLDivElement>) => {
+    if (!carriesFiles(e)) return;
+    // Without this the browser navigates away to open the dropped file itself.
+    e.preventDefault();
+    dragDepthRef.current = 0;
+    setIsDragging(false);
+    startScan(await pickedFromDataTransfer(e.dataTransfer));
+  };
+
+  const scanPastedText = (pasted: File) => {
+    setPasteText(null);
+    scanSingle(pasted);
+  };
+
+  // Paste reaches the document, not the React root, when nothing is focused; the ref keeps the listener current
+  const handlePasteRef = useRef<(e: ClipboardEvent) => void>(() => {});
+  handlePasteRef.current = (e: ClipboardEvent) => {
+    const target = e.target as HTMLElement | null;
+    if (target?.closest('input, textarea, [contenteditable="true"]') || pasteText !== null || !e.clipboardData) return;
+    const files = Array.from(e.clipboardData.files);
+    if (files.length > 0) {
+      e.preventDefault();
+      startScan(files.map(f => ({ file: f, path: f.name })));
+      return;
+    }
+    const text = e.clipboardData.getData('text/plain');
+    if (text.trim()) {
+      e.preventDefault();
+      setPasteText(text);
+    }
+  };
+  useEffect(() => {
+    const onPaste = (e: ClipboardEvent) => handlePasteRef.current(e);
+    document.addEventListener('paste', onPaste);
+    return () => document.removeEventListener('paste', onPaste);
+  }, []);
+
+  const openBatchItem = async (item: BatchItem) => {
+    setFile(item.file);
+    setResult(item.result!);
+    setHistoryId(item.historyId ?? null);
+    setMessages([]);
+    closeChat();
+    setStatus(AnalysisStatus.SUCCESS);
+    try {
+      await openChat(item.file, item.result!);
+    } catch (err) {
+      console.warn("Could not start a chat session for this file:", err);
+    }
+  };
+
+  const backToBatch = () => {
+    setFile(null);
+    setResult(null);
+    setHistoryId(null);
+    setMessages([]);
+    closeChat();
+    setStatus(AnalysisStatus.BATCH);
+  };
+
+  const openHistoryEntry = async (entry: HistoryEntry) => {
+    scanAbortRef.current?.abort();
+    batchRunRef.current++;
+    setBatch([]);
+    const kept = entry.file ? new File([entry.file], entry.fileName, { type: entry.file.type }) : null;
+    setFile(kept);
+    setPastFile({ name: entry.fileName, size: entry.fileSize });
+    setResult(entry.result);
+    setHistoryId(entry.id ?? null);
+    setMessages(entry.messages);
+    setError(null);
+    closeChat();
+    setShowHistory(false);
+    setStatus(AnalysisStatus.SUCCESS);
+    try {
+      await openChat(kept, entry.result);
+    } catch (err) {
+      console.warn("Could not start a chat session for this file:", err);
+    }
+  };
+
+  const sendChatMessage = async (text: string) => {
+    const userText = text.trim();
+    const session = chatSessionRef.current;
+    if (!userText || !session || isChatting) return;
+
+    const controller = new AbortController();
+    chatAbortRef.current = controller;
+    const setReply = (reply: string) => {
+      // A new scan or closed chat replaced the conversation; drop the late reply.
+      if (chatSessionRef.current !== session) return;
+      setMessages(prev => [...prev.slice(0, -1), { role: 'model', text: reply }]);
+    };
     setInputMessage('');
-    setMessages(prev => [...prev, { role: 'user', text: userText }]);
+    setMessages(prev => [...prev, { role: 'user', text: userText }, { role: 'model', text: '' }]);
     setIsChatting(true);
 
+    let reply = '';
     try {
-      const response = await chatSessionRef.current.sendMessage({ message: userText });
-      setMessages(prev => [...prev, { role: 'model', text: response.text || "I've analyzed that, but I have no specific commentary." }]);
+      for await (const chunk of session.sendMessageStream(userText, controller.signal)) {
+        reply += chunk;
+        setReply(reply);
+      }
+      if (!reply) setReply(t('app.chat.noCommentary'));
     } catch (err) {
-      setMessages(prev => [...prev, { role: 'model', text: "The AI session expired or the API key is invalid. Please check your settings." }]);
+      if (controller.signal.aborted) setReply(reply ? `${reply}\n\n${t('app.chat.stopped')}` : t('app.chat.stopped'));
+      else setReply(reply ? `${reply}\n\n${t('app.chat.cutOff')}` : t('app.chat.failed'));
     } finally {
+      if (chatAbortRef.current === controller) chatAbortRef.current = null;
       setIsChatting(false);
     }
   };
 
+  const handleSendMessage = (e: React.FormEvent) => {
+    e.preventDefault();
+    sendChatMessage(inputMessage);
+  };
+
+  const stopChat = () => chatAbortRef.current?.abort();
+
   const reset = () => {
+    scanAbortRef.current?.abort();
+    batchRunRef.current++;
+    setBatch([]);
     setFile(null);
+    setPastFile(null);
+    setHistoryId(null);
     setStatus(AnalysisStatus.IDLE);
     setResult(null);
     setError(null);
     setMessages([]);
-    chatSessionRef.current = null;
+    closeChat();
   };
 
+  const shownFile = file ?? pastFile;
+  const asked = new Set(messages.filter(m => m.role === 'user').map(m => m.text));
+  const shownText = result ? resultText(result, locale) : null;
+  const suggestions = result ? (isProMode ? suggestedQuestions : localSuggestedQuestions)(result).filter(q => !asked.has(q)) : [];
+
   const getVerdictStyle = (verdict: string) => {
     switch (verdict) {
-      case 'SAFE': return { bg: 'bg-emerald-50', text: 'text-emerald-700', border: 'border-emerald-200', icon: <ShieldCheck size={40} />, label: 'Safe' };
-      case 'CAUTION': return { bg: 'bg-amber-50', text: 'text-amber-700', border: 'border-amber-200', icon: <AlertTriangle size={40} />, label: 'Caution' };
-      case 'DANGER': return { bg: 'bg-red-50', text: 'text-red-700', border: 'border-red-200', icon: <ShieldAlert size={40} />, label: 'Danger' };
-      default: return { bg: 'bg-slate-50', text: 'text-slate-700', border: 'border-slate-200', icon: <Info size={40} />, label: 'Analyzed' };
+      case 'SAFE': return { bg: 'bg-emerald-50', text: 'text-emerald-700', border: 'border-emerald-200', icon: <ShieldCheck size={40} />, label: t('verdict.SAFE') };
+      case 'CAUTION': return { bg: 'bg-amber-50', text: 'text-amber-700', border: 'border-amber-200', icon: <AlertTriangle size={40} />, label: t('verdict.CAUTION') };
+      case 'DANGER': return { bg: 'bg-red-50', text: 'text-red-700', border: 'border-red-200', icon: <ShieldAlert size={40} />, label: t('verdict.DANGER') };
+      default: return { bg: 'bg-slate-50', text: 'text-slate-700', border: 'border-slate-200', icon: <Info size={40} />, label: t('verdict.unknown') };
+    }
+  };
+
+  const getSeverityStyle = (severity: string) => {
+    switch (severity) {
+      case 'DANGER': return 'bg-red-50 text-red-700 border-red-200';
+      case 'CAUTION': return 'bg-amber-50 text-amber-700 border-amber-200';
+      default: return 'bg-slate-50 text-slate-500 border-slate-200';
     }
   };
 
   return (
-    <div className="min-h-screen bg-[#fcfdfe] text-slate-900 flex flex-col font-sans">
+    <div
+      className="min-h-screen bg-[#fcfdfe] text-slate-900 flex flex-col font-sans"
+      onDragEnter={handleDragEnter}
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
+      {isDragging && (
+        <div className="fixed inset-0 z-[110] pointer-events-none flex items-center justify-center p-6 bg-indigo-600/10 backdrop-blur-sm animate-in fade-in duration-150">
+          <div className="w-full h-full border-4 border-dashed border-indigo-500 rounded-[3rem] flex flex-col items-center justify-center">
+            <div className="w-20 h-20 bg-white rounded-3xl flex items-center justify-center mb-6 shadow-xl">
+              <Upload size={32} className="text-indigo-600" />
+            </div>
+            <p className="text-2xl font-black text-indigo-700">{t('app.drop.title')}</p>
+            <p className="text-xs font-black uppercase tracking-[0.2em] text-indigo-400 mt-2">{t('app.drop.subtitle')}</p>
+          </div>
+        </div>
+      )}
+
+      {pasteText !== null && <PasteTextPanel initialText={pasteText} onScan={scanPastedText} onClose={() => setPasteText(null)} locale={locale} />}
       <nav className="sticky top-0 z-50 bg-white/80 backdrop-blur-xl border-b border-slate-100 px-4">
         <div className="max-w-6xl mx-auto h-16 md:h-20 flex items-center justify-between">
           <div className="flex items-center gap-3 cursor-pointer" onClick={reset}>
@@ -130,12 +437,39 @@ export default function App() {
           <div className="flex items-center gap-4">
             <div className={`hidden md:flex items-center gap-2 px-3 py-1.5 rounded-full border text-[10px] font-black tracking-widest transition-all ${isProMode ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-slate-100 border-slate-200 text-slate-500'}`}>
               {isProMode ? <Sparkles size={12} fill="white" /> : <Shield size={12} />}
-              {isProMode ? 'PRO AI ACTIVE' : 'FREE SIGNATURE MODE'}
+              {t(isProMode ? 'app.nav.pro' : 'app.nav.free')}
             </div>
+            {!isProMode && aiSettings.provider === 'gemini' && hasVault() && !getApiKey() && (
+              <button
+                onClick={() => setShowSettings(true)}
+                className="flex items-center gap-2 px-3 py-1.5 rounded-full border border-amber-200 bg-amber-50 text-amber-700 text-[10px] font-black tracking-widest hover:bg-amber-100 transition-all"
+                title={t('app.nav.keyLocked')}
+              >
+                <Lock size={12} /> {t('app.nav.unlockKey')}
+              </button>
+            )}
+            <label className="flex items-center gap-1.5 px-2.5 py-2 rounded-2xl border border-slate-100 text-slate-500 hover:bg-slate-100 transition-all" title={t('app.language')}>
+              <Globe size={18} />
+              <select
+                value={locale}
+                onChange={(e) => changeLocale(e.target.value as Locale)}
+                aria-label={t('app.language')}
+                className="bg-transparent text-xs font-black uppercase tracking-widest outline-none cursor-pointer"
+              >
+                {LOCALES.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+              </select>
+            </label>
+            <button
+              onClick={() => setShowHistory(true)}
+              className="p-2.5 hover:bg-slate-100 rounded-2xl transition-all active:scale-90 border border-slate-100"
+              title={t('app.nav.history')}
+            >
+              <History size={20} className="text-slate-500" />
+            </button>
             <button 
               onClick={() => setShowSettings(!showSettings)}
               className="p-2.5 hover:bg-slate-100 rounded-2xl transition-all active:scale-90 border border-slate-100"
-              title="Settings & API Key"
+              title={t('app.nav.settings')}
             >
               <Settings size={20} className="text-slate-500" />
             </button>
@@ -143,42 +477,120 @@ export default function App() {
         </div>
       </nav>
 
+      {showHistory && <HistorySidebar onClose={() => setShowHistory(false)} onOpen={openHistoryEntry} locale={locale} />}
+
       {showSettings && (
         <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-md animate-in fade-in duration-300">
-          <div className="bg-white rounded-[2.5rem] p-8 md:p-10 max-w-md w-full shadow-2xl border border-slate-100">
+          <div className="bg-white rounded-[2.5rem] p-8 md:p-10 max-w-md w-full shadow-2xl border border-slate-100 max-h-[90vh] overflow-y-auto">
             <div className="flex justify-between items-center mb-6">
               <div className="flex items-center gap-3">
                 <div className="p-2 bg-indigo-50 rounded-xl"><Zap className="text-indigo-600" size={20} /></div>
-                <h2 className="text-xl font-black text-slate-900">AI Configuration</h2>
+                <h2 className="text-xl font-black text-slate-900">{t('app.settings.title')}</h2>
               </div>
               <button onClick={() => setShowSettings(false)} className="text-slate-400 hover:text-slate-600 p-2">✕</button>
             </div>
             <p className="text-sm text-slate-500 mb-8 font-medium leading-relaxed">
-              OmniAnalyze works for <span className="text-slate-900 font-bold">free</span> using local signatures. For deep content analysis and AI chat, please provide your own Gemini API Key.
+              {t('app.settings.intro').split('{free}').map((part, i) => (
+                <React.Fragment key={i}>
+                  {i > 0 && <span className="text-slate-900 font-bold">{t('app.settings.free')}</span>}
+                  {part}
+                </React.Fragment>
+              ))}
             </p>
-            <form onSubmit={handleSaveKey} className="space-y-6">
-              <div className="space-y-2">
-                <label className="text-xs font-black uppercase tracking-widest text-slate-400 ml-1">Your Google Gemini Key</label>
-                <div className="relative">
-                  <KeyRound className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400" size={18} />
-                  <input 
-                    type="password"
-                    value={userApiKey}
-                    onChange={(e) => setUserApiKey(e.target.value)}
-                    placeholder="Enter API Key..."
-                    className="w-full pl-12 pr-4 py-4 bg-slate-50 border-2 border-transparent rounded-2xl focus:border-indigo-600 focus:bg-white outline-none transition-all font-mono text-sm text-slate-900"
+            <form onSubmit={handleSaveSettings} className="space-y-6">
+              <div className="grid grid-cols-2 gap-2 p-1 bg-slate-50 rounded-2xl">
+                {([['gemini', 'app.settings.gemini'], ['openai', 'app.settings.selfHosted']] as const).map(([id, label]) => (
+                  <button
+                    key={id}
+                    type="button"
+                    onClick={() => setAiSettings({ ...aiSettings, provider: id })}
+                    className={`py-2.5 rounded-xl text-xs font-black uppercase tracking-widest transition-all ${aiSettings.provider === id ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400 hover:text-slate-600'}`}
+                  >
+                    {t(label)}
+                  </button>
+                ))}
+              </div>
+              {aiSettings.provider === 'gemini' && (
+                <div className="space-y-2">
+                  <label className="text-xs font-black uppercase tracking-widest text-slate-400 ml-1">{t('app.settings.proxyUrl')}</label>
+                  <input
+                    type="text"
+                    value={aiSettings.geminiProxyUrl}
+                    onChange={(e) => setAiSettings({ ...aiSettings, geminiProxyUrl: e.target.value })}
+                    placeholder="/api/gemini"
+                    className="w-full px-4 py-4 bg-slate-50 border-2 border-transparent rounded-2xl focus:border-indigo-600 focus:bg-white outline-none transition-all font-mono text-sm text-slate-900"
                   />
+                  <p className="text-xs text-slate-400 ml-1">{t('app.settings.proxyHelp')}</p>
                 </div>
+              )}
+              {aiSettings.provider === 'openai' && (
+                <>
+                  <div className="space-y-2">
+                    <label className="text-xs font-black uppercase tracking-widest text-slate-400 ml-1">{t('app.settings.baseUrl')}</label>
+                    <input
+                      type="url"
+                      value={aiSettings.baseUrl}
+                      onChange={(e) => setAiSettings({ ...aiSettings, baseUrl: e.target.value })}
+                      placeholder="http://localhost:11434/v1"
+                      className="w-full px-4 py-4 bg-slate-50 border-2 border-transparent rounded-2xl focus:border-indigo-600 focus:bg-white outline-none transition-all font-mono text-sm text-slate-900"
+                    />
+                    <p className="text-xs text-slate-400 ml-1">{t('app.settings.baseUrlHelp')}</p>
+                  </div>
+                  <div className="space-y-2">
+                    <label className="text-xs font-black uppercase tracking-widest text-slate-400 ml-1">{t('app.settings.serverKey')}</label>
+                    <input
+                      type="password"
+                      value={aiSettings.openAiKey}
+                      onChange={(e) => setAiSettings({ ...aiSettings, openAiKey: e.target.value })}
+                      placeholder={t('app.settings.serverKeyPlaceholder')}
+                      className="w-full px-4 py-4 bg-slate-50 border-2 border-transparent rounded-2xl focus:border-indigo-600 focus:bg-white outline-none transition-all font-mono text-sm text-slate-900"
+                    />
+                  </div>
+                </>
+              )}
+              <div className="space-y-2">
+                <label className="text-xs font-black uppercase tracking-widest text-slate-400 ml-1">{t('app.settings.model')}</label>
+                <input
+                  type="text"
+                  value={aiSettings.model}
+                  onChange={(e) => setAiSettings({ ...aiSettings, model: e.target.value })}
+                  placeholder={DEFAULT_MODELS[aiSettings.provider]}
+                  className="w-full px-4 py-4 bg-slate-50 border-2 border-transparent rounded-2xl focus:border-indigo-600 focus:bg-white outline-none transition-all font-mono text-sm text-slate-900"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                {([['inlineLimitMb', 'app.settings.inlineLimit'], ['uploadLimitMb', 'app.settings.uploadLimit']] as const).map(([field, label]) => (
+                  <div key={field} className="space-y-2">
+                    <label className="text-xs font-black uppercase tracking-widest text-slate-400 ml-1">{t(label)}</label>
+                    <input
+                      type="number"
+                      min={1}
+                      value={aiSettings[field]}
+                      onChange={(e) => setAiSettings({ ...aiSettings, [field]: Math.max(1, +e.target.value || 1) })}
+                      className="w-full px-4 py-4 bg-slate-50 border-2 border-transparent rounded-2xl focus:border-indigo-600 focus:bg-white outline-none transition-all font-mono text-sm text-slate-900"
+                    />
+                  </div>
+                ))}
+                <p className="col-span-2 text-xs text-slate-400 ml-1">{t('app.settings.limitsHelp')}</p>
               </div>
               <div className="flex flex-col gap-3">
                 <button type="submit" className="w-full py-4 bg-slate-900 text-white rounded-2xl font-bold hover:bg-slate-800 transition-all active:scale-95 shadow-xl">
-                  {userApiKey ? 'Activate Pro Mode' : 'Switch to Free Mode'}
+                  {t(isProviderConfigured(aiSettings) ? 'app.settings.activatePro' : 'app.settings.switchFree')}
                 </button>
-                <a href="https://aistudio.google.com/app/apikey" target="_blank" className="text-center text-xs text-indigo-600 font-black uppercase tracking-widest hover:underline py-2">
-                  Get Free API Key from Google →
-                </a>
               </div>
             </form>
+            {aiSettings.provider === 'gemini' && (
+              <>
+                <div className="h-px bg-slate-100 my-8"></div>
+                <ApiKeySettings settings={aiSettings} onChange={() => setIsProMode(isProviderConfigured())} locale={locale} />
+              </>
+            )}
+            <div className="h-px bg-slate-100 my-8"></div>
+            <PolicySettings locale={locale} />
+            <div className="h-px bg-slate-100 my-8"></div>
+            <RulesSettings locale={locale} />
+            <div className="h-px bg-slate-100 my-8"></div>
+            <HashListSettings locale={locale} />
           </div>
         </div>
       )}
@@ -188,27 +600,40 @@ export default function App() {
           <div className="text-center py-12 animate-in fade-in slide-in-from-bottom-8 duration-700">
             <div className="mb-6 flex justify-center">
                <span className="px-4 py-1.5 bg-indigo-50 text-indigo-600 rounded-full text-[10px] font-black uppercase tracking-[0.2em] border border-indigo-100">
-                 Universal File Inspector
+                 {t('app.idle.badge')}
                </span>
             </div>
             <h1 className="text-5xl md:text-7xl font-black text-slate-900 mb-8 tracking-tight leading-tight">
-              Safety check <br />
-              <span className="text-transparent bg-clip-text bg-gradient-to-r from-indigo-600 to-blue-600">anything instantly.</span>
+              {t('app.idle.title')} <br />
+              <span className="text-transparent bg-clip-text bg-gradient-to-r from-indigo-600 to-blue-600">{t('app.idle.titleAccent')}</span>
             </h1>
             <p className="text-lg md:text-xl text-slate-500 max-w-xl mx-auto font-medium mb-12 leading-relaxed">
-              Upload any file and I'll tell you if it's dangerous or what's inside. 
-              Works with or without AI.
+              {t('app.idle.subtitle')}
             </p>
             <div className="relative group max-w-xl mx-auto">
-              <input type="file" onChange={handleFileChange} className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10" />
-              <div className="bg-white border-4 border-dashed border-slate-200 rounded-[3rem] p-16 flex flex-col items-center justify-center transition-all group-hover:border-indigo-400 group-hover:bg-indigo-50/10 shadow-xl shadow-slate-100">
-                <div className="w-20 h-20 bg-indigo-50 rounded-3xl flex items-center justify-center mb-6 group-hover:scale-110 group-hover:rotate-3 transition-transform shadow-inner">
+              <input type="file" multiple onChange={handleFileChange} className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10" />
+              <div className={`border-4 border-dashed rounded-[3rem] p-16 flex flex-col items-center justify-center transition-all shadow-xl shadow-slate-100 group-hover:border-indigo-400 group-hover:bg-indigo-50/10 group-focus-within:border-indigo-400 ${isDragging ? 'border-indigo-500 bg-indigo-50 scale-[1.02]' : 'border-slate-200 bg-white'}`}>
+                <div className={`w-20 h-20 bg-indigo-50 rounded-3xl flex items-center justify-center mb-6 group-hover:scale-110 group-hover:rotate-3 transition-transform shadow-inner ${isDragging ? 'scale-110 rotate-3' : ''}`}>
                   <Upload size={32} className="text-indigo-600" />
                 </div>
-                <p className="text-2xl font-black text-slate-900">Choose File</p>
-                <p className="text-slate-400 text-xs font-black mt-2 uppercase tracking-[0.2em]">PDF • HTML • EXE • JS • ZIP</p>
+                <p className="text-2xl font-black text-slate-900">{t(isDragging ? 'app.idle.dropToScan' : 'app.idle.choose')}</p>
+                <p className="text-slate-400 text-xs font-black mt-2 uppercase tracking-[0.2em]">{t('app.idle.hint')}</p>
               </div>
             </div>
+            <div className="flex flex-wrap justify-center gap-3 mt-6">
+              <label className="relative inline-flex items-center gap-2 px-5 py-3 bg-white border border-slate-200 rounded-2xl font-black text-xs uppercase tracking-widest text-slate-600 hover:border-indigo-400 hover:text-indigo-600 focus-within:border-indigo-400 transition-all cursor-pointer shadow-sm">
+                <FolderOpen size={16} />
+                {t('app.idle.folder')}
+                <input type="file" multiple {...{ webkitdirectory: '' }} onChange={handleFileChange} className="sr-only" />
+              </label>
+              <button
+                onClick={() => setPasteText('')}
+                className="inline-flex items-center gap-2 px-5 py-3 bg-white border border-slate-200 rounded-2xl font-black text-xs uppercase tracking-widest text-slate-600 hover:border-indigo-400 hover:text-indigo-600 transition-all shadow-sm"
+              >
+                <ClipboardPaste size={16} />
+                {t('app.idle.paste')}
+              </button>
+            </div>
           </div>
         )}
 
@@ -220,8 +645,24 @@ export default function App() {
                 <div className="w-2 h-2 bg-indigo-600 rounded-full animate-ping"></div>
               </div>
             </div>
-            <h3 className="text-2xl font-black text-slate-800">Reading file signatures...</h3>
-            <p className="text-slate-500 font-medium mt-2">Performing deep inspection {isProMode ? 'with AI' : 'locally'}.</p>
+            <h3 className="text-2xl font-black text-slate-800">{t(SCAN_STAGES.find(([id]) => id === stage)?.[1] ?? 'app.stage.starting')}...</h3>
+            <p className="text-slate-500 font-medium mt-2">{t(isProMode ? 'app.loading.withAi' : 'app.loading.locally')}</p>
+            <ol className="flex flex-wrap justify-center gap-2 mt-8">
+              {SCAN_STAGES.filter(([id]) => id !== 'ai' || isProMode).map(([id, label], i) => {
+                const current = SCAN_STAGES.findIndex(([s]) => s === stage);
+                const state = i < current ? 'done' : i === current ? 'active' : 'pending';
+                return (
+                  <li key={id} className={`flex items-center gap-1.5 px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-[0.2em] border ${
+                    state === 'done' ? 'bg-emerald-50 text-emerald-700 border-emerald-200' : state === 'active' ? 'bg-indigo-50 text-indigo-600 border-indigo-200' : 'bg-white text-slate-300 border-slate-100'
+                  }`}>
+                    {state === 'done' && <CheckCircle2 size={12} />}{t(label)}
+                  </li>
+                );
+              })}
+            </ol>
+            <button onClick={reset} className="mt-10 flex items-center gap-2 px-6 py-3 bg-white text-slate-600 rounded-2xl font-bold border border-slate-200 hover:border-red-200 hover:text-red-600 transition-all active:scale-95">
+              <X size={16} /> {t('app.cancel')}
+            </button>
           </div>
         )}
 
@@ -230,14 +671,30 @@ export default function App() {
             <div className="w-16 h-16 bg-red-50 rounded-2xl flex items-center justify-center mx-auto mb-6">
               <AlertCircle size={32} className="text-red-500" />
             </div>
-            <h3 className="text-xl font-black text-slate-900 mb-2">Analysis Interrupted</h3>
+            <h3 className="text-xl font-black text-slate-900 mb-2">{t('app.error.title')}</h3>
             <p className="text-slate-500 text-sm font-medium mb-8 leading-relaxed">{error}</p>
-            <button onClick={reset} className="w-full py-4 bg-slate-900 text-white rounded-2xl font-bold active:scale-95 transition-all">Try Again</button>
+            <button onClick={reset} className="w-full py-4 bg-slate-900 text-white rounded-2xl font-bold active:scale-95 transition-all">{t('app.error.retry')}</button>
+          </div>
+        )}
+
+        {status === AnalysisStatus.BATCH && (
+          <div className="space-y-8 animate-in fade-in duration-500 pb-20">
+            <BatchResults items={batch} onOpen={openBatchItem} locale={locale} />
+            <div className="flex justify-center">
+              <button onClick={reset} className="flex items-center gap-2 px-8 py-4 bg-slate-900 text-white rounded-2xl font-bold active:scale-95 transition-all shadow-xl">
+                <RefreshCcw size={18} /> {t('app.batch.again')}
+              </button>
+            </div>
           </div>
         )}
 
         {status === AnalysisStatus.SUCCESS && result && (
           <div className="space-y-8 animate-in fade-in zoom-in-95 duration-500 pb-20">
+            {batch.length > 0 && (
+              <button onClick={backToBatch} className="flex items-center gap-2 text-sm font-black uppercase tracking-widest text-indigo-600 hover:underline">
+                <ChevronLeft size={18} /> {t('app.result.backToBatch')}
+              </button>
+            )}
             <div className={`rounded-[3rem] p-8 md:p-12 border-2 ${getVerdictStyle(result.verdict).bg} ${getVerdictStyle(result.verdict).border} shadow-2xl flex flex-col md:flex-row items-center gap-10`}>
               <div className="w-28 h-28 rounded-[2rem] flex items-center justify-center shrink-0 bg-white shadow-xl border-4 border-white/50">
                 {React.cloneElement(getVerdictStyle(result.verdict).icon as React.ReactElement<any>, { className: getVerdictStyle(result.verdict).text })}
@@ -248,44 +705,133 @@ export default function App() {
                      {getVerdictStyle(result.verdict).label}
                    </span>
                    <span className="text-[10px] font-black uppercase tracking-[0.2em] px-3 py-1 rounded-full bg-white/50 text-slate-500 border border-slate-200">
-                     {isProMode ? 'Deep AI' : 'Signature Scan'}
+                     {t(result.mode === 'ai' ? 'app.result.modeAi' : 'app.result.modeLocal')}
                    </span>
+                   {result.policy && (
+                     <span className="text-[10px] font-black uppercase tracking-[0.2em] px-3 py-1 rounded-full bg-white/50 text-slate-500 border border-slate-200" title={result.policy.applied.join('\n') || t('app.result.policyUnchanged')}>
+                       {t('app.result.policy', { name: result.policy.name })}
+                     </span>
+                   )}
                 </div>
-                <h2 className="text-3xl md:text-5xl font-black text-slate-900 mb-4 tracking-tight">{result.humanVerdict}</h2>
+                <h2 className="text-3xl md:text-5xl font-black text-slate-900 mb-4 tracking-tight">{shownText!.humanVerdict}</h2>
                 <div className="flex flex-wrap items-center gap-3 justify-center md:justify-start text-slate-500 font-bold text-sm">
-                  <div className="flex items-center gap-1.5 bg-white/40 px-3 py-1 rounded-lg border border-slate-200/50"><FileText size={16} /> {file?.name}</div>
-                  <div className="flex items-center gap-1.5 bg-white/40 px-3 py-1 rounded-lg border border-slate-200/50">{formatBytes(file?.size || 0)}</div>
+                  <div className="flex items-center gap-1.5 bg-white/40 px-3 py-1 rounded-lg border border-slate-200/50"><FileText size={16} /> {shownFile?.name}</div>
+                  <div className="flex items-center gap-1.5 bg-white/40 px-3 py-1 rounded-lg border border-slate-200/50">{formatBytes(shownFile?.size || 0)}</div>
+                  <div className="flex items-center gap-1.5 bg-white/40 px-3 py-1 rounded-lg border border-slate-200/50">{result.fileType}</div>
                 </div>
               </div>
             </div>
 
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
-              <div className="bg-white rounded-[2.5rem] p-10 border border-slate-100 shadow-xl group hover:border-indigo-100 transition-all">
-                <h3 className="text-xl font-black text-slate-900 mb-6 flex items-center gap-3">
-                  <div className="p-2.5 bg-indigo-50 rounded-2xl group-hover:scale-110 transition-transform"><Info className="text-indigo-600" size={24} /></div>
-                  Analysis Summary
-                </h3>
-                <p className="text-slate-600 leading-relaxed font-medium text-lg">{result.simpleExplanation}</p>
-              </div>
-              <div className="bg-white rounded-[2.5rem] p-10 border border-slate-100 shadow-xl group hover:border-indigo-100 transition-all">
-                <h3 className="text-xl font-black text-slate-900 mb-6 flex items-center gap-3">
-                  <div className="p-2.5 bg-emerald-50 rounded-2xl group-hover:scale-110 transition-transform"><CheckCircle2 className="text-emerald-600" size={24} /></div>
-                  Recommendations
-                </h3>
-                <ul className="space-y-4">
-                  {result.solutions.map((s, i) => (
-                    <li key={i} className="flex gap-4 text-slate-700 font-bold text-base md:text-lg">
-                      <div className="w-6 h-6 bg-slate-100 rounded-full flex items-center justify-center shrink-0 mt-1">
-                        <ArrowRight size={14} className="text-slate-400" />
-                      </div>
-                      {s}
-                    </li>
+            {shownFile && <ReportExport source={{ name: shownFile.name, size: shownFile.size, blob: file ?? undefined }} result={result} messages={messages} locale={locale} />}
+
+            <div className="flex gap-2 p-1 bg-slate-100 rounded-2xl w-fit">
+              {([['overview', 'app.tab.overview'], ['preview', 'app.tab.preview'], ['technical', 'app.tab.technical']] as const).map(([id, label]) => (
+                <button
+                  key={id}
+                  onClick={() => setResultTab(id)}
+                  className={`px-6 py-2.5 rounded-xl text-xs font-black uppercase tracking-widest transition-all ${resultTab === id ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400 hover:text-slate-600'}`}
+                >
+                  {t(label)}
+                </button>
+              ))}
+            </div>
+
+            {resultTab === 'technical' ? (
+              <TechnicalPanel result={result} file={file} locale={locale} />
+            ) : resultTab === 'preview' ? (
+              <FilePreview result={result} file={file} fileName={shownFile?.name ?? 'file'} locale={locale} />
+            ) : (
+              <>
+              {result.metadata.hashes && (
+                <dl className="bg-white rounded-[2rem] px-8 py-6 border border-slate-100 shadow-sm space-y-2">
+                  {([['MD5', result.metadata.hashes.md5], ['SHA-1', result.metadata.hashes.sha1], ['SHA-256', result.metadata.hashes.sha256]] as const).map(([label, value]) => (
+                    <div key={label} className="flex flex-col sm:flex-row sm:items-center gap-1 sm:gap-4">
+                      <dt className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-400 w-20 shrink-0">{label}</dt>
+                      <dd className="font-mono text-xs text-slate-600 break-all select-all">{value}</dd>
+                    </div>
                   ))}
-                </ul>
+                </dl>
+              )}
+
+              {result.blend && <VerdictOpinions blend={result.blend} verdict={result.verdict} locale={locale} />}
+              {result.aiCoverage && <AiCoverageNote coverage={result.aiCoverage} locale={locale} />}
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+                <div className="bg-white rounded-[2.5rem] p-10 border border-slate-100 shadow-xl group hover:border-indigo-100 transition-all">
+                  <h3 className="text-xl font-black text-slate-900 mb-6 flex items-center gap-3">
+                    <div className="p-2.5 bg-indigo-50 rounded-2xl group-hover:scale-110 transition-transform"><Info className="text-indigo-600" size={24} /></div>
+                    {t('app.result.summary')}
+                  </h3>
+                  <p className="text-slate-600 leading-relaxed font-medium text-lg">{shownText!.simpleExplanation}</p>
+                </div>
+                <div className="bg-white rounded-[2.5rem] p-10 border border-slate-100 shadow-xl group hover:border-indigo-100 transition-all">
+                  <h3 className="text-xl font-black text-slate-900 mb-6 flex items-center gap-3">
+                    <div className="p-2.5 bg-emerald-50 rounded-2xl group-hover:scale-110 transition-transform"><CheckCircle2 className="text-emerald-600" size={24} /></div>
+                    {t('app.result.recommendations')}
+                  </h3>
+                  <ul className="space-y-4">
+                    {shownText!.solutions.map((s, i) => (
+                      <li key={i} className="flex gap-4 text-slate-700 font-bold text-base md:text-lg">
+                        <div className="w-6 h-6 bg-slate-100 rounded-full flex items-center justify-center shrink-0 mt-1">
+                          <ArrowRight size={14} className="text-slate-400" />
+                        </div>
+                        {s}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
               </div>
-            </div>
 
-            {isProMode ? (
+              {result.findings && result.findings.length > 0 && (
+                <div className="bg-white rounded-[2.5rem] p-10 border border-slate-100 shadow-xl">
+                  <h3 className="text-xl font-black text-slate-900 mb-6 flex items-center gap-3">
+                    <div className="p-2.5 bg-red-50 rounded-2xl"><ShieldAlert className="text-red-600" size={24} /></div>
+                    {t('app.result.findings')}
+                  </h3>
+                  <ul className="space-y-4">
+                    {result.findings.map((f, i) => {
+                      const text = findingText(f, locale);
+                      return (
+                        <li key={`${f.id}-${i}`} className="flex gap-4 items-start">
+                          <div className="flex flex-col items-start gap-1.5 shrink-0 mt-0.5">
+                            <span className={`text-[10px] font-black uppercase tracking-[0.2em] px-3 py-1 rounded-full border ${getSeverityStyle(f.severity)}`}>
+                              {t(f.severity === 'INFO' ? 'severity.INFO' : f.severity === 'DANGER' ? 'verdict.DANGER' : 'verdict.CAUTION')}
+                            </span>
+                            {f.category === 'privacy' && (
+                              <span className="text-[10px] font-black uppercase tracking-[0.2em] px-3 py-1 rounded-full border bg-violet-50 text-violet-700 border-violet-200">{t('app.result.privacy')}</span>
+                            )}
+                          </div>
+                          <div className="min-w-0">
+                            <p className="text-slate-900 font-bold text-base md:text-lg">{text.title}</p>
+                            <p className="text-slate-500 font-medium text-sm leading-relaxed">{text.description}</p>
+                            {f.snippet && (
+                              <div className="mt-2 flex items-start gap-2">
+                                {f.line !== undefined && <span className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-400 pt-1.5 shrink-0">{t('app.result.line', { line: f.line })}</span>}
+                                <code className="block font-mono text-xs text-slate-600 bg-slate-50 border border-slate-100 rounded-lg px-3 py-1.5 break-all">{f.snippet}</code>
+                              </div>
+                            )}
+                          </div>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                  {result.ruleMatches && result.ruleMatches.length > 0 && (
+                    <div className="flex flex-wrap items-center gap-2 mt-8 pt-6 border-t border-slate-100">
+                      <span className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-400 mr-1">{t('app.result.matchedRules')}</span>
+                      {result.ruleMatches.map(m => (
+                        <span key={m.rule} className="font-mono text-xs font-bold px-2.5 py-1 rounded-lg bg-slate-50 text-slate-600 border border-slate-100">{m.rule}</span>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {result.archive && <ArchiveContents archive={result.archive} locale={locale} />}
+
+              {result.email && <EmailDetails email={result.email} locale={locale} />}
+
+              {result.metadata.executable && <ExecutableDetails info={result.metadata.executable} locale={locale} />}
+
               <div className="bg-white rounded-[3rem] border border-slate-100 shadow-2xl overflow-hidden flex flex-col h-[700px]">
                 <div className="p-8 border-b border-slate-50 flex items-center justify-between bg-slate-50/30">
                   <div className="flex items-center gap-4 text-slate-900">
@@ -293,8 +839,8 @@ export default function App() {
                       <MessageSquare size={24} className="text-white" />
                     </div>
                     <div>
-                      <h4 className="font-black text-lg">OmniAI File Assistant</h4>
-                      <p className="text-[10px] font-black uppercase tracking-[0.2em] text-indigo-500">Pro Context Insight</p>
+                      <h4 className="font-black text-lg">{t('app.chat.title')}</h4>
+                      <p className="text-[10px] font-black uppercase tracking-[0.2em] text-indigo-500">{t(isProMode ? 'app.chat.pro' : 'app.chat.local')}</p>
                     </div>
                   </div>
                 </div>
@@ -302,72 +848,106 @@ export default function App() {
                   {messages.length === 0 && (
                     <div className="h-full flex flex-col items-center justify-center text-center p-6 text-slate-300">
                       <Bot size={64} className="mb-6 opacity-20 text-slate-900" />
-                      <p className="text-xl font-black text-slate-400">Ask me anything about the content of this file.</p>
+                      <p className="text-xl font-black text-slate-400">
+                        {t(!isProMode
+                          ? 'app.chat.emptyLocal'
+                          : result.aiCoverage?.strategy === 'skipped'
+                          ? 'app.chat.emptyTooLarge'
+                          : chatReady || !pastFile ? 'app.chat.emptyPro' : 'app.chat.emptyNoFile')}
+                      </p>
                     </div>
                   )}
-                  {messages.map((msg, idx) => (
+                  {messages.map((msg, idx) => msg.text && (
                     <div key={idx} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
                       <div className={`flex gap-4 max-w-[85%] ${msg.role === 'user' ? 'flex-row-reverse' : ''}`}>
                          <div className={`w-10 h-10 rounded-xl flex items-center justify-center shrink-0 ${msg.role === 'user' ? 'bg-slate-900 text-white' : 'bg-white border text-indigo-600 shadow-sm'}`}>
                            {msg.role === 'user' ? <User size={18} /> : <Bot size={18} />}
                          </div>
-                         <div className={`p-5 rounded-3xl text-base md:text-lg font-medium shadow-sm leading-relaxed ${msg.role === 'user' ? 'bg-slate-900 text-white' : 'bg-white text-slate-800 border border-slate-100'}`}>
-                          {msg.text}
+                         <div className={`p-5 rounded-3xl text-base md:text-lg font-medium shadow-sm leading-relaxed min-w-0 ${msg.role === 'user' ? 'bg-slate-900 text-white' : 'bg-white text-slate-800 border border-slate-100'}`}>
+                          {msg.role === 'user' ? msg.text : <Markdown text={msg.text} />}
                         </div>
                       </div>
                     </div>
                   ))}
-                  {isChatting && (
+                  {isChatting && !messages[messages.length - 1]?.text && (
                     <div className="flex justify-start items-center gap-3 p-4">
                       <div className="w-8 h-8 bg-indigo-50 rounded-lg flex items-center justify-center animate-bounce">
                         <Bot size={16} className="text-indigo-400" />
                       </div>
-                      <span className="text-xs font-black uppercase tracking-widest text-indigo-400">Thinking...</span>
+                      <span className="text-xs font-black uppercase tracking-widest text-indigo-400">{t('app.chat.thinking')}</span>
                     </div>
                   )}
                   <div ref={chatEndRef} />
                 </div>
                 <form onSubmit={handleSendMessage} className="p-8 border-t border-slate-50 bg-white">
+                  {chatReady && !isChatting && suggestions.length > 0 && (
+                    <div className="flex flex-wrap gap-2 mb-4">
+                      {suggestions.map(q => (
+                        <button
+                          key={q}
+                          type="button"
+                          onClick={() => sendChatMessage(q)}
+                          className="px-4 py-2 bg-indigo-50 text-indigo-700 rounded-xl text-sm font-bold border border-indigo-100 hover:bg-indigo-100 transition-all text-left"
+                        >
+                          {q}
+                        </button>
+                      ))}
+                    </div>
+                  )}
                   <div className="relative group">
                     <input
                       type="text"
                       value={inputMessage}
                       onChange={(e) => setInputMessage(e.target.value)}
-                      placeholder="Ask a question about this file..."
-                      disabled={isChatting}
+                      placeholder={t(chatReady ? 'app.chat.placeholder' : 'app.chat.needsFile')}
+                      disabled={isChatting || !chatReady}
                       className="w-full bg-slate-50 border-2 border-transparent rounded-[2rem] pl-8 pr-20 py-6 text-lg font-bold outline-none focus:bg-white focus:border-indigo-600 text-slate-900 transition-all"
                     />
-                    <button 
-                      type="submit" 
-                      disabled={!inputMessage.trim() || isChatting} 
-                      className="absolute right-3 top-1/2 -translate-y-1/2 bg-indigo-600 text-white p-4 rounded-2xl hover:bg-indigo-700 disabled:opacity-20 transition-all shadow-lg"
-                    >
-                      <Send size={20} />
-                    </button>
+                    {isChatting ? (
+                      <button
+                        type="button"
+                        onClick={stopChat}
+                        title={t('app.chat.stop')}
+                        className="absolute right-3 top-1/2 -translate-y-1/2 bg-slate-900 text-white p-4 rounded-2xl hover:bg-slate-700 transition-all shadow-lg"
+                      >
+                        <Square size={20} fill="white" />
+                      </button>
+                    ) : (
+                      <button 
+                        type="submit" 
+                        disabled={!inputMessage.trim() || !chatReady} 
+                        className="absolute right-3 top-1/2 -translate-y-1/2 bg-indigo-600 text-white p-4 rounded-2xl hover:bg-indigo-700 disabled:opacity-20 transition-all shadow-lg"
+                      >
+                        <Send size={20} />
+                      </button>
+                    )}
                   </div>
                 </form>
               </div>
-            ) : (
-              <div className="bg-gradient-to-br from-indigo-600 to-blue-700 rounded-[3rem] p-12 text-white text-center shadow-2xl relative overflow-hidden group">
-                 <div className="absolute top-0 right-0 p-8 opacity-10 group-hover:scale-150 transition-transform duration-700">
-                    <Zap size={120} fill="white" />
-                 </div>
-                 <div className="relative z-10">
-                   <div className="w-16 h-16 bg-white/20 rounded-2xl flex items-center justify-center mx-auto mb-6">
-                      <Sparkles size={32} fill="white" />
+
+              {!isProMode && (
+                <div className="bg-gradient-to-br from-indigo-600 to-blue-700 rounded-[3rem] p-12 text-white text-center shadow-2xl relative overflow-hidden group">
+                   <div className="absolute top-0 right-0 p-8 opacity-10 group-hover:scale-150 transition-transform duration-700">
+                      <Zap size={120} fill="white" />
                    </div>
-                   <h3 className="text-3xl font-black mb-4">Unlock AI Deep Analysis</h3>
-                   <p className="text-white/80 font-bold text-lg max-w-lg mx-auto mb-10 leading-relaxed">
-                     Switch to Pro Mode to use Google Gemini for deep content inspection, suspicious code detection, and interactive chat.
-                   </p>
-                   <button 
-                    onClick={() => setShowSettings(true)}
-                    className="bg-white text-indigo-600 px-10 py-5 rounded-2xl font-black uppercase tracking-widest text-sm hover:bg-slate-50 transition-all active:scale-95 shadow-xl"
-                   >
-                     Setup My API Key
-                   </button>
-                 </div>
-              </div>
+                   <div className="relative z-10">
+                     <div className="w-16 h-16 bg-white/20 rounded-2xl flex items-center justify-center mx-auto mb-6">
+                        <Sparkles size={32} fill="white" />
+                     </div>
+                     <h3 className="text-3xl font-black mb-4">{t('app.upsell.title')}</h3>
+                     <p className="text-white/80 font-bold text-lg max-w-lg mx-auto mb-10 leading-relaxed">
+                       {t('app.upsell.body')}
+                     </p>
+                     <button 
+                      onClick={() => setShowSettings(true)}
+                      className="bg-white text-indigo-600 px-10 py-5 rounded-2xl font-black uppercase tracking-widest text-sm hover:bg-slate-50 transition-all active:scale-95 shadow-xl"
+                     >
+                       {t('app.upsell.button')}
+                     </button>
+                   </div>
+                </div>
+              )}
+              </>
             )}
           </div>
         )}
@@ -387,7 +967,7 @@ export default function App() {
                 className="flex items-center gap-2 px-4 py-2 bg-slate-50 hover:bg-indigo-50 hover:text-indigo-600 rounded-xl transition-all font-bold text-xs border border-slate-100"
               >
                 <Linkedin size={14} />
-                LinkedIn Profile
+                {t('app.footer.linkedin')}
               </a>
               <a 
                 href="mailto:tarunjitbiswas24@gmail.com"
@@ -404,10 +984,10 @@ export default function App() {
           <div className="flex flex-col items-center gap-4 opacity-70">
             <div className="flex items-center gap-2 text-slate-400">
                <Shield size={14} />
-               <span className="text-[10px] font-black uppercase tracking-[0.3em]">Privacy-First Signature Engine</span>
+               <span className="text-[10px] font-black uppercase tracking-[0.3em]">{t('app.footer.engine')}</span>
             </div>
             <p className="text-slate-400 text-[10px] font-bold uppercase tracking-[0.2em]">
-              OmniAnalyze • Built in 2026 • Safeguarding Digital Assets
+              {t('app.footer.tagline')}
             </p>
           </div>
         </div>
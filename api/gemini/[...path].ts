@@ -0,0 +1,49 @@
+/**
+ * Optional Gemini proxy for deployed builds. The browser calls
+ * /api/gemini/v1beta/models/...; this route forwards the request to Google
+ * with GEMINI_API_KEY from the server environment, so the key never reaches
+ * the client. Build the app with GEMINI_PROXY_URL=/api/gemini to use it.
+ */
+export const config = { runtime: 'edge' };
+
+const UPSTREAM = 'https://generativelanguage.googleapis.com';
+const PREFIX = '/api/gemini';
+/** Model lookups (GET) and content generation (POST); nothing else is forwarded. */
+const MODEL_PATH = /^\/v1beta\/models\/[\w.-]+$/;
+const CALL_PATH = /^\/v1beta\/models\/[\w.-]+:(generateContent|streamGenerateContent|countTokens)$/;
+
+const fail = (status: number, message: string) => Response.json({ error: { code: status, message } }, { status });
+
+export default async function handler(request: Request): Promise<Response> {
+  const key = process.env.GEMINI_API_KEY;
+  if (!key) return fail(500, "GEMINI_API_KEY is not set on the server.");
+
+  const url = new URL(request.url);
+  // Browsers label every fetch with Sec-Fetch-Site, and send Origin on POSTs and cross-site calls.
+  // Requests must carry one of them showing this deployment's own origin; ones with neither, such as
+  // plain curl, are refused. A script can still forge both headers, so this only keeps other sites'
+  // pages and casual clients off the key. It is not a rate limit.
+  const origin = request.headers.get('origin');
+  const site = request.headers.get('sec-fetch-site');
+  if (site && site !== 'same-origin') return fail(403, "Cross-origin requests are not allowed.");
+  if (origin ? origin !== url.origin : site !== 'same-origin') return fail(403, "Only this site's own pages may use the proxy.");
+
+  const path = url.pathname.slice(PREFIX.length);
+  const allowed = request.method === 'GET' ? MODEL_PATH.test(path) : request.method === 'POST' && CALL_PATH.test(path);
+  if (!allowed) return fail(404, "Not a supported Gemini endpoint.");
+
+  const search = new URLSearchParams(url.search);
+  search.delete('key');
+  const query = search.toString();
+  const upstream = await fetch(`${UPSTREAM}${path}${query ? `?${query}` : ''}`, {
+    method: request.method,
+    headers: { 'content-type': 'application/json', 'x-goog-api-key': key },
+    body: request.method === 'POST' ? await request.text() : undefined
+  });
+
+  // Streamed replies (alt=sse) pass straight through.
+  return new Response(upstream.body, {
+    status: upstream.status,
+    headers: { 'content-type': upstream.headers.get('content-type') ?? 'application/json' }
+  });
+}
@@ -0,0 +1,175 @@
+#!/usr/bin/env node
+import { readdir, readFile, stat } from 'node:fs/promises';
+import { basename, join } from 'node:path';
+import { parseArgs } from 'node:util';
+import {
+  analyzeBytes, AnalysisReport, buildReport, BUILT_IN_PROFILES, DetectionRule, getBundledRules, parsePolicyProfiles, parseRuleset,
+  PolicyProfile, topFinding, Verdict, VERDICT_RANK
+} from '../lib';
+
+const USAGE = `Usage: omnianalyze [options] <file or directory>...
+
+Scans files with the local analyzer. Directories are walked recursively;
+symbolic links inside them are skipped.
+
+Options:
+  -f, --format <table|json>   Output format (default: table)
+      --fail-on <level>       Exit with 1 if any file is rated <level> (CAUTION or
+                              DANGER) or worse
+  -r, --rules <file>          Add detection rules (JSON or YARA-style); repeatable
+  -p, --profile <name|file>   Policy profile: standard, developer, finance, strict,
+                              or a profile JSON file (default: standard)
+  -h, --help                  Show this help
+
+Exit codes: 0 clean, 1 --fail-on threshold reached, 2 usage error or a file
+could not be scanned.`;
+
+const EXIT_CLEAN = 0;
+const EXIT_THRESHOLD = 1;
+const EXIT_ERROR = 2;
+
+type Outcome =
+  | { path: string; report: AnalysisReport; topFinding: string }
+  | { path: string; error: string };
+
+const fail = (message: string): never => {
+  throw new Error(message);
+};
+
+/** Files under `path` in a stable order; explicit arguments may be links, directory entries may not. */
+const collect = async (path: string, out: string[]) => {
+  const info = await stat(path);
+  if (!info.isDirectory()) {
+    out.push(path);
+    return;
+  }
+  const entries = (await readdir(path, { withFileTypes: true })).sort((a, b) => a.name.localeCompare(b.name));
+  for (const entry of entries) {
+    const child = join(path, entry.name);
+    if (entry.isDirectory()) await collect(child, out);
+    else if (entry.isFile()) out.push(child);
+  }
+};
+
+/** A built-in profile by id or name, otherwise the first profile in a JSON file. */
+const loadProfile = async (spec: string): Promise<PolicyProfile> => {
+  const builtIn = BUILT_IN_PROFILES.find(p => p.id === spec.toLowerCase() || p.name.toLowerCase() === spec.toLowerCase());
+  if (builtIn) return builtIn;
+  let profiles: PolicyProfile[];
+  try {
+    profiles = parsePolicyProfiles(await readFile(spec, 'utf8'));
+  } catch (err: any) {
+    return fail(err?.code === 'ENOENT'
+      ? `Unknown profile "${spec}"; use ${BUILT_IN_PROFILES.map(p => p.id).join(', ')} or a JSON file.`
+      : `Could not load the profile from ${spec}: ${err?.message || err}`);
+  }
+  return profiles[0] ?? fail(`${spec} contains no profiles.`);
+};
+
+const scan = async (path: string, rules: DetectionRule[], policy: PolicyProfile): Promise<Outcome> => {
+  try {
+    const bytes = await readFile(path);
+    const result = await analyzeBytes(bytes, basename(path), { rules, policy });
+    return { path, report: await buildReport({ name: basename(path), size: bytes.length }, result, []), topFinding: topFinding(result) };
+  } catch (err: any) {
+    return { path, error: err?.message || String(err) };
+  }
+};
+
+const COLORS: Record<Verdict | 'ERROR', string> = { SAFE: '32', CAUTION: '33', DANGER: '31', ERROR: '35' };
+
+const printTable = (outcomes: Outcome[]) => {
+  const color = process.stdout.isTTY && !process.env.NO_COLOR;
+  const rows = outcomes.map(o => 'report' in o
+    ? { status: o.report.verdict as Verdict | 'ERROR', type: o.report.fileType, path: o.path, note: o.topFinding }
+    : { status: 'ERROR' as const, type: '-', path: o.path, note: o.error });
+  const clip = (text: string, width: number) => (text.length > width ? `${text.slice(0, width - 1)}…` : text);
+  const typeWidth = Math.min(28, Math.max(4, ...rows.map(r => r.type.length)));
+  const pathWidth = Math.min(60, Math.max(4, ...rows.map(r => r.path.length)));
+  const line = (status: string, type: string, path: string, note: string, code?: string) => {
+    const cell = status.padEnd(8);
+    return `${code ? `\x1b[${code}m${cell}\x1b[0m` : cell} ${clip(type, typeWidth).padEnd(typeWidth)}  ${clip(path, pathWidth).padEnd(pathWidth)}  ${note}`;
+  };
+  console.log(line('VERDICT', 'TYPE', 'PATH', 'TOP FINDING'));
+  for (const r of rows) console.log(line(r.status, r.type, r.path, r.note, color ? COLORS[r.status] : undefined));
+};
+
+const summarize = (outcomes: Outcome[]) => {
+  const summary = { files: outcomes.length, SAFE: 0, CAUTION: 0, DANGER: 0, errors: 0 };
+  for (const o of outcomes) {
+    if ('report' in o) summary[o.report.verdict]++;
+    else summary.errors++;
+  }
+  return summary;
+};
+
+const main = async (argv: string[]): Promise<number> => {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      format: { type: 'string', short: 'f', default: 'table' },
+      'fail-on': { type: 'string' },
+      rules: { type: 'string', short: 'r', multiple: true },
+      profile: { type: 'string', short: 'p', default: 'standard' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  });
+  if (values.help) {
+    console.log(USAGE);
+    return EXIT_CLEAN;
+  }
+  if (positionals.length === 0) fail("No files or directories given.");
+  const format = values.format;
+  if (format !== 'table' && format !== 'json') fail(`Unknown format "${format}"; use table or json.`);
+  const failOn = values['fail-on']?.toUpperCase() as Verdict | undefined;
+  if (failOn !== undefined && failOn !== 'CAUTION' && failOn !== 'DANGER') fail(`--fail-on must be CAUTION or DANGER, not "${values['fail-on']}".`);
+
+  const rules = [...getBundledRules()];
+  for (const file of values.rules ?? []) {
+    try {
+      rules.push(...parseRuleset(await readFile(file, 'utf8')));
+    } catch (err: any) {
+      fail(`Could not load rules from ${file}: ${err?.message || err}`);
+    }
+  }
+
+  const policy = await loadProfile(values.profile);
+
+  const outcomes: Outcome[] = [];
+  const paths: string[] = [];
+  for (const path of positionals) {
+    try {
+      await collect(path, paths);
+    } catch (err: any) {
+      outcomes.push({ path, error: err?.code === 'ENOENT' ? "No such file or directory" : err?.message || String(err) });
+    }
+  }
+  const progress = process.stderr.isTTY && paths.length > 1;
+  for (const [i, path] of paths.entries()) {
+    if (progress) process.stderr.write(`\rScanning ${i + 1}/${paths.length}…`);
+    outcomes.push(await scan(path, rules, policy));
+  }
+  if (progress) process.stderr.write('\r\x1b[K');
+
+  const summary = summarize(outcomes);
+  if (format === 'json') {
+    console.log(JSON.stringify({ failOn: failOn ?? null, profile: policy.id, summary, files: outcomes }, null, 2));
+  } else {
+    printTable(outcomes);
+    console.log(`\n${summary.files} scanned: ${summary.DANGER} DANGER, ${summary.CAUTION} CAUTION, ${summary.SAFE} SAFE, ${summary.errors} errors`);
+  }
+
+  const reached = failOn !== undefined && outcomes.some(o => 'report' in o && VERDICT_RANK[o.report.verdict] >= VERDICT_RANK[failOn]);
+  if (reached) return EXIT_THRESHOLD;
+  return summary.errors > 0 ? EXIT_ERROR : EXIT_CLEAN;
+};
+
+main(process.argv.slice(2)).then(
+  code => { process.exitCode = code; },
+  // Scan failures are reported per file, so anything reaching here is a usage problem.
+  err => {
+    console.error(`omnianalyze: ${err?.message || err}\nRun omnianalyze --help for usage.`);
+    process.exitCode = EXIT_ERROR;
+  }
+);
@@ -0,0 +1,45 @@
+import React, { useState } from 'react';
+import { ChevronDown, Eye } from 'lucide-react';
+import { AiCoverage } from '../types';
+import { formatBytes } from '../utils/fileUtils';
+import { keyedText, Locale, translator } from '../services/i18n';
+
+interface AiCoverageNoteProps {
+  coverage: AiCoverage;
+  locale: Locale;
+}
+
+/**
+ * One-line note on what the AI was shown, expandable to the exact byte
+ * ranges when it only received excerpts.
+ */
+export default function AiCoverageNote({ coverage, locale }: AiCoverageNoteProps) {
+  const t = translator(locale);
+  const [open, setOpen] = useState(false);
+  const partial = coverage.strategy !== 'full';
+
+  return (
+    <div className={`rounded-[2rem] px-8 py-5 border shadow-sm ${partial ? 'bg-amber-50/50 border-amber-100' : 'bg-white border-slate-100'}`}>
+      <button
+        onClick={() => setOpen(!open)}
+        disabled={coverage.portions.length <= 1}
+        className="w-full flex items-center gap-3 text-left disabled:cursor-default"
+      >
+        <Eye size={18} className={partial ? 'text-amber-600 shrink-0' : 'text-slate-400 shrink-0'} />
+        <span className="flex-grow text-sm font-bold text-slate-700">
+          {t(`coverage.headline.${coverage.strategy}`)}
+          {coverage.strategy === 'extracted' && (
+            <span className="text-slate-400 font-medium"> {t('coverage.read', { sent: formatBytes(coverage.sentBytes), total: formatBytes(coverage.totalBytes) })}</span>
+          )}
+        </span>
+        {coverage.portions.length > 1 && <ChevronDown size={16} className={`text-slate-400 transition-transform ${open ? 'rotate-180' : ''}`} />}
+      </button>
+      {coverage.reason && <p className="text-xs text-slate-500 font-medium mt-2 ml-8">{keyedText(coverage.reason, coverage.messages?.reason, locale)}</p>}
+      {open && (
+        <ul className="mt-3 ml-8 space-y-1 font-mono text-xs text-slate-500">
+          {coverage.portions.map((portion, i) => <li key={i}>{portion}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,230 @@
+import React, { useState } from 'react';
+import { KeyRound, Lock, PlugZap, Trash2 } from 'lucide-react';
+import { AiSettings } from '../services/aiProvider';
+import { testGeminiConnection } from '../services/geminiService';
+import { forgetKey, getApiKey, getKeyStatus, hasVault, keepKeyForSession, lockKey, saveKeyToVault, unlockVault } from '../services/keyVault';
+import { Locale, translator } from '../services/i18n';
+
+type Storage = 'vault' | 'session';
+
+interface ApiKeySettingsProps {
+  /** The settings being edited, so Test checks the model that will be used. */
+  settings: AiSettings;
+  /** Called after the key is saved, unlocked, locked or removed. */
+  onChange: () => void;
+  locale: Locale;
+}
+
+/**
+ * Settings section for the Gemini key. The key is either encrypted under a
+ * passphrase (PBKDF2 + AES-GCM) or kept in memory for this session; it is
+ * never stored in plain text and only ever shown masked.
+ */
+export default function ApiKeySettings({ settings, onChange, locale }: ApiKeySettingsProps) {
+  const t = translator(locale);
+  const [, setVersion] = useState(0);
+  const [editing, setEditing] = useState(false);
+  const [keyInput, setKeyInput] = useState('');
+  const [storage, setStorage] = useState<Storage>('vault');
+  const [passphrase, setPassphrase] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<{ ok: boolean; text: string } | null>(null);
+
+  const status = getKeyStatus();
+  const locked = !status && hasVault();
+  const showForm = editing || (!status && !locked);
+
+  const changed = (text: string) => {
+    setMessage({ ok: true, text });
+    setEditing(false);
+    setKeyInput('');
+    setPassphrase('');
+    setConfirm('');
+    setVersion(v => v + 1);
+    onChange();
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      await action();
+    } catch (err: any) {
+      setMessage({ ok: false, text: err.message || t('apiKey.failed') });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  /** Without a key this tests the proxy. */
+  const handleTest = (key?: string) => run(async () => {
+    const model = await testGeminiConnection(settings, key);
+    setMessage({ ok: true, text: t(key ? 'apiKey.keyWorks' : 'apiKey.proxyWorks', { model }) });
+  });
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      const key = keyInput.trim();
+      if (!key) throw new Error(t('apiKey.missing'));
+      if (storage === 'session') {
+        keepKeyForSession(key);
+        changed(t('apiKey.keptForSession'));
+        return;
+      }
+      if (passphrase !== confirm) throw new Error(t('apiKey.mismatch'));
+      await saveKeyToVault(key, passphrase);
+      changed(t('apiKey.saved'));
+    });
+  };
+
+  const handleUnlock = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      await unlockVault(passphrase);
+      changed(t('apiKey.unlocked'));
+    });
+  };
+
+  const handleLock = () => {
+    lockKey();
+    changed(t('apiKey.locked'));
+  };
+
+  const handleRemove = () => {
+    forgetKey();
+    changed(t('apiKey.removed'));
+  };
+
+  // Re-saving a legacy key encrypts it without the user having to paste it again.
+  const startEditing = (prefill = '') => {
+    setKeyInput(prefill);
+    setMessage(null);
+    setEditing(true);
+  };
+
+  const inputClass = "w-full px-4 py-4 bg-slate-50 border-2 border-transparent rounded-2xl focus:border-indigo-600 focus:bg-white outline-none transition-all font-mono text-sm text-slate-900";
+  const secondaryButton = "flex-grow flex items-center justify-center gap-2 py-3 bg-slate-50 hover:bg-indigo-50 hover:text-indigo-600 rounded-2xl font-bold text-sm border border-slate-100 transition-all disabled:opacity-40";
+  const removeButton = (
+    <button
+      type="button"
+      onClick={handleRemove}
+      className="px-4 py-3 bg-slate-50 hover:bg-red-50 hover:text-red-600 rounded-2xl font-bold text-sm border border-slate-100 transition-all"
+      title={t('apiKey.remove')}
+    >
+      <Trash2 size={16} />
+    </button>
+  );
+
+  const [proxyBefore, proxyAfter] = t('apiKey.proxy').split('{url}');
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-3">
+        <div className="p-2 bg-indigo-50 rounded-xl"><KeyRound className="text-indigo-600" size={20} /></div>
+        <h3 className="text-lg font-black text-slate-900">{t('apiKey.title')}</h3>
+      </div>
+
+      {settings.geminiProxyUrl.trim() ? (
+        <>
+          <p className="text-sm text-slate-500 font-medium leading-relaxed">
+            {proxyBefore}<span className="font-mono text-slate-900">{settings.geminiProxyUrl.trim()}</span>{proxyAfter}
+          </p>
+          <button type="button" disabled={busy} onClick={() => handleTest()} className={`${secondaryButton} w-full`}>
+            <PlugZap size={16} /> {t('apiKey.testProxy')}
+          </button>
+        </>
+      ) : status && !editing ? (
+        <>
+          <div className="px-4 py-4 bg-slate-50 rounded-2xl border border-slate-100">
+            <p className="font-mono text-sm text-slate-900">{status.masked}</p>
+            <p className={`text-xs font-bold mt-1 ${status.source === 'legacy' ? 'text-amber-600' : 'text-slate-400'}`}>{t(`apiKey.source.${status.source}`)}</p>
+          </div>
+          {status.source === 'legacy' && (
+            <button type="button" onClick={() => startEditing(getApiKey())} className="w-full py-3 bg-amber-50 text-amber-700 rounded-2xl font-bold text-sm border border-amber-100 hover:bg-amber-100 transition-all">
+              {t('apiKey.encryptLegacy')}
+            </button>
+          )}
+          <div className="flex gap-3">
+            <button type="button" disabled={busy} onClick={() => handleTest(getApiKey())} className={secondaryButton}>
+              <PlugZap size={16} /> {t('apiKey.test')}
+            </button>
+            {status.source === 'vault' && (
+              <button type="button" onClick={handleLock} className={secondaryButton}>
+                <Lock size={16} /> {t('apiKey.lock')}
+              </button>
+            )}
+            <button type="button" onClick={() => startEditing()} className={secondaryButton}>{t('apiKey.replace')}</button>
+            {removeButton}
+          </div>
+        </>
+      ) : locked && !editing ? (
+        <form onSubmit={handleUnlock} className="space-y-3">
+          <p className="text-sm text-slate-500 font-medium leading-relaxed">{t('apiKey.lockedIntro')}</p>
+          <input type="password" value={passphrase} onChange={(e) => setPassphrase(e.target.value)} placeholder={t('apiKey.passphrase')} autoComplete="current-password" className={inputClass} />
+          <div className="flex gap-3">
+            <button type="submit" disabled={busy || !passphrase} className="flex-grow py-3 bg-slate-900 text-white rounded-2xl font-bold text-sm hover:bg-slate-800 transition-all disabled:opacity-40">
+              {t(busy ? 'apiKey.unlocking' : 'apiKey.unlock')}
+            </button>
+            <button type="button" onClick={() => startEditing()} className={secondaryButton}>{t('apiKey.useAnother')}</button>
+            {removeButton}
+          </div>
+        </form>
+      ) : showForm && (
+        <form onSubmit={handleSave} className="space-y-3">
+          <div className="relative">
+            <KeyRound className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400" size={18} />
+            <input
+              type="password"
+              value={keyInput}
+              onChange={(e) => setKeyInput(e.target.value)}
+              placeholder={t('apiKey.placeholder')}
+              autoComplete="off"
+              className={`${inputClass} pl-12`}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-2 p-1 bg-slate-50 rounded-2xl">
+            {(['vault', 'session'] as const).map(id => (
+              <button
+                key={id}
+                type="button"
+                onClick={() => setStorage(id)}
+                className={`py-2.5 rounded-xl text-xs font-black uppercase tracking-widest transition-all ${storage === id ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400 hover:text-slate-600'}`}
+              >
+                {t(`apiKey.storage.${id}`)}
+              </button>
+            ))}
+          </div>
+          {storage === 'vault' ? (
+            <>
+              <input type="password" value={passphrase} onChange={(e) => setPassphrase(e.target.value)} placeholder={t('apiKey.newPassphrase')} autoComplete="new-password" className={inputClass} />
+              <input type="password" value={confirm} onChange={(e) => setConfirm(e.target.value)} placeholder={t('apiKey.repeatPassphrase')} autoComplete="new-password" className={inputClass} />
+              <p className="text-xs text-slate-400 ml-1">{t('apiKey.vaultHint')}</p>
+            </>
+          ) : (
+            <p className="text-xs text-slate-400 ml-1">{t('apiKey.sessionHint')}</p>
+          )}
+          <div className="flex gap-3">
+            <button type="submit" disabled={busy || !keyInput.trim()} className="flex-grow py-3 bg-slate-900 text-white rounded-2xl font-bold text-sm hover:bg-slate-800 transition-all disabled:opacity-40">
+              {t(busy ? 'apiKey.saving' : 'apiKey.save')}
+            </button>
+            <button type="button" disabled={busy || !keyInput.trim()} onClick={() => handleTest(keyInput)} className={secondaryButton}>
+              <PlugZap size={16} /> {t('apiKey.test')}
+            </button>
+            {editing && (
+              <button type="button" onClick={() => setEditing(false)} className={secondaryButton}>{t('apiKey.cancel')}</button>
+            )}
+          </div>
+          <a href="https://aistudio.google.com/app/apikey" target="_blank" rel="noopener noreferrer" className="block text-center text-xs text-indigo-600 font-black uppercase tracking-widest hover:underline py-2">
+            {t('apiKey.getKey')}
+          </a>
+        </form>
+      )}
+
+      {message && (
+        <p className={`text-xs font-bold ${message.ok ? 'text-emerald-600' : 'text-red-600'}`}>{message.text}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+import React from 'react';
+import { Archive, Lock } from 'lucide-react';
+import { ArchiveSummary } from '../types';
+import { formatBytes } from '../utils/fileUtils';
+import { keyedText, Locale, translator } from '../services/i18n';
+
+const VERDICT_BADGE: Record<string, string> = {
+  SAFE: 'bg-emerald-50 text-emerald-700 border-emerald-200',
+  CAUTION: 'bg-amber-50 text-amber-700 border-amber-200',
+  DANGER: 'bg-red-50 text-red-700 border-red-200'
+};
+
+/**
+ * Lists every entry of an inspected archive with its own verdict.
+ */
+export default function ArchiveContents({ archive, locale }: { archive: ArchiveSummary; locale: Locale }) {
+  const t = translator(locale);
+  const files = archive.entries.filter(e => !e.path.endsWith('/'));
+
+  return (
+    <div className="bg-white rounded-[2.5rem] p-10 border border-slate-100 shadow-xl">
+      <h3 className="text-xl font-black text-slate-900 mb-2 flex items-center gap-3">
+        <div className="p-2.5 bg-indigo-50 rounded-2xl"><Archive className="text-indigo-600" size={24} /></div>
+        {t('archive.title')}
+      </h3>
+      <p className="text-sm text-slate-500 font-medium mb-6">
+        {t('archive.summary', { count: archive.entryCount, packed: formatBytes(archive.totalCompressedSize), unpacked: formatBytes(archive.totalSize) })}
+        {archive.truncated && ` • ${t('archive.truncated')}`}
+      </p>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-[10px] font-black uppercase tracking-[0.2em] text-slate-400 border-b border-slate-100">
+              <th className="py-3 pr-4">{t('archive.column.name')}</th>
+              <th className="py-3 pr-4 text-right">{t('archive.column.size')}</th>
+              <th className="py-3 pr-4 text-right">{t('archive.column.ratio')}</th>
+              <th className="py-3 pr-4">{t('archive.column.verdict')}</th>
+              <th className="py-3">{t('archive.column.notes')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {files.map((entry, i) => (
+              <tr key={`${entry.path}-${i}`} className="border-b border-slate-50 last:border-0">
+                <td className="py-3 pr-4 font-mono text-xs text-slate-700 break-all" style={{ paddingLeft: `${entry.depth}rem` }}>
+                  <span className="inline-flex items-center gap-1.5">
+                    {entry.encrypted && <Lock size={12} className="text-amber-500 shrink-0" />}
+                    {entry.path}
+                  </span>
+                </td>
+                <td className="py-3 pr-4 text-right text-slate-500 font-medium whitespace-nowrap">{formatBytes(entry.size)}</td>
+                <td className={`py-3 pr-4 text-right font-medium whitespace-nowrap ${entry.ratio > 100 ? 'text-red-600 font-black' : 'text-slate-500'}`}>
+                  {entry.ratio ? `${entry.ratio.toFixed(1)}x` : '—'}
+                </td>
+                <td className="py-3 pr-4">
+                  {entry.verdict ? (
+                    <span className={`text-[10px] font-black uppercase tracking-[0.2em] px-2.5 py-1 rounded-full border ${VERDICT_BADGE[entry.verdict]}`}>{t(`verdict.${entry.verdict}`)}</span>
+                  ) : (
+                    <span className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-400">{t('archive.unchecked')}</span>
+                  )}
+                </td>
+                <td className="py-3 text-slate-500 font-medium">{entry.note ? keyedText(entry.note, entry.messages?.note, locale) : entry.fileType}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowUpDown, Files, Loader2, ShieldAlert } from 'lucide-react';
+import { BatchItem } from '../types';
+import { BatchSortKey, countVerdicts, sortBatch, topFinding } from '../services/batch';
+import { formatBytes } from '../utils/fileUtils';
+import { Locale, translator } from '../services/i18n';
+
+const VERDICT_BADGE: Record<string, string> = {
+  SAFE: 'bg-emerald-50 text-emerald-700 border-emerald-200',
+  CAUTION: 'bg-amber-50 text-amber-700 border-amber-200',
+  DANGER: 'bg-red-50 text-red-700 border-red-200'
+};
+
+const COLUMNS: { key: BatchSortKey; align?: string }[] = [
+  { key: 'name' },
+  { key: 'size', align: 'text-right' },
+  { key: 'type' },
+  { key: 'verdict' },
+  { key: 'finding' }
+];
+
+interface BatchResultsProps {
+  items: BatchItem[];
+  onOpen: (item: BatchItem) => void;
+  locale: Locale;
+}
+
+/**
+ * Sortable results table for a multi-file or folder scan, with per-verdict totals.
+ */
+export default function BatchResults({ items, onOpen, locale }: BatchResultsProps) {
+  const t = translator(locale);
+  const [sortKey, setSortKey] = useState<BatchSortKey>('verdict');
+  const [descending, setDescending] = useState(true);
+
+  const sorted: BatchItem[] = useMemo(() => sortBatch(items, sortKey, descending, locale), [items, sortKey, descending, locale]);
+  const counts = countVerdicts(items);
+  const finished = items.filter(i => i.status === 'done' || i.status === 'error').length;
+  const failed = items.filter(i => i.status === 'error').length;
+
+  const toggleSort = (key: BatchSortKey) => {
+    if (key === sortKey) {
+      setDescending(!descending);
+    } else {
+      setSortKey(key);
+      setDescending(key === 'verdict' || key === 'size');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-[2.5rem] p-10 border border-slate-100 shadow-xl">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+        <h3 className="text-xl font-black text-slate-900 flex items-center gap-3">
+          <div className="p-2.5 bg-indigo-50 rounded-2xl"><Files className="text-indigo-600" size={24} /></div>
+          {t('batch.title')}
+        </h3>
+        <button
+          type="button"
+          onClick={() => { setSortKey('verdict'); setDescending(true); }}
+          className="flex items-center gap-2 px-4 py-2 bg-red-50 text-red-700 border border-red-200 rounded-xl font-black text-xs uppercase tracking-widest hover:bg-red-100 transition-all"
+        >
+          <ShieldAlert size={14} /> {t('batch.dangerFirst')}
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 mb-6">
+        {(['DANGER', 'CAUTION', 'SAFE'] as const).map(v => (
+          <span key={v} className={`text-[10px] font-black uppercase tracking-[0.2em] px-3 py-1 rounded-full border ${VERDICT_BADGE[v]}`}>
+            {counts[v]} {t(`verdict.${v}`)}
+          </span>
+        ))}
+        {failed > 0 && (
+          <span className="text-[10px] font-black uppercase tracking-[0.2em] px-3 py-1 rounded-full border bg-slate-50 text-slate-500 border-slate-200">{t('batch.failedCount', { count: failed })}</span>
+        )}
+        <span className="text-sm text-slate-500 font-medium ml-auto">
+          {finished < items.length ? t('batch.progress', { finished, total: items.length }) : t('batch.done', { count: items.length })}
+        </span>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-[10px] font-black uppercase tracking-[0.2em] text-slate-400 border-b border-slate-100">
+              {COLUMNS.map(col => (
+                <th key={col.key} className={`py-3 pr-4 ${col.align || ''}`}>
+                  <button type="button" onClick={() => toggleSort(col.key)} className={`inline-flex items-center gap-1 uppercase tracking-[0.2em] hover:text-slate-600 ${sortKey === col.key ? 'text-indigo-600' : ''}`}>
+                    {t(`batch.column.${col.key}`)}
+                    <ArrowUpDown size={10} />
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {sorted.map(item => (
+              <tr
+                key={item.id}
+                onClick={() => item.result && onOpen(item)}
+                className={`border-b border-slate-50 last:border-0 ${item.result ? 'cursor-pointer hover:bg-slate-50' : ''}`}
+              >
+                <td className="py-3 pr-4 font-mono text-xs text-slate-700 break-all">{item.path}</td>
+                <td className="py-3 pr-4 text-right text-slate-500 font-medium whitespace-nowrap">{formatBytes(item.file.size)}</td>
+                <td className="py-3 pr-4 text-slate-500 font-medium">{item.result?.fileType || '—'}</td>
+                <td className="py-3 pr-4">
+                  {item.result ? (
+                    <span className={`text-[10px] font-black uppercase tracking-[0.2em] px-2.5 py-1 rounded-full border ${VERDICT_BADGE[item.result.verdict]}`}>{t(`verdict.${item.result.verdict}`)}</span>
+                  ) : item.status === 'error' ? (
+                    <span className="text-[10px] font-black uppercase tracking-[0.2em] text-red-500">{t('batch.failed')}</span>
+                  ) : (
+                    <span className="inline-flex items-center gap-1.5 text-[10px] font-black uppercase tracking-[0.2em] text-slate-400">
+                      {item.status === 'scanning' && <Loader2 size={12} className="animate-spin" />}
+                      {t(item.status === 'scanning' ? 'batch.scanning' : 'batch.queued')}
+                    </span>
+                  )}
+                </td>
+                <td className="py-3 text-slate-500 font-medium">{item.result ? topFinding(item.result, locale) : item.error}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
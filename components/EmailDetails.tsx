@@ -0,0 +1,112 @@
+import React from 'react';
+import { Mail, Paperclip } from 'lucide-react';
+import { EmailAuthResult, EmailSummary } from '../types';
+import { formatBytes } from '../utils/fileUtils';
+import { keyedText, Locale, translator } from '../services/i18n';
+
+const VERDICT_BADGE: Record<string, string> = {
+  SAFE: 'bg-emerald-50 text-emerald-700 border-emerald-200',
+  CAUTION: 'bg-amber-50 text-amber-700 border-amber-200',
+  DANGER: 'bg-red-50 text-red-700 border-red-200'
+};
+
+const authBadge = (result: EmailAuthResult) => {
+  if (result.result === 'pass') return VERDICT_BADGE.SAFE;
+  if (/^(fail|softfail|permerror)$/.test(result.result)) return result.method === 'dmarc' ? VERDICT_BADGE.DANGER : VERDICT_BADGE.CAUTION;
+  return 'bg-slate-50 text-slate-500 border-slate-200';
+};
+
+/**
+ * Sender headers, authentication results, body links and attachments of a
+ * parsed email, each attachment with its own verdict.
+ */
+export default function EmailDetails({ email, locale }: { email: EmailSummary; locale: Locale }) {
+  const t = translator(locale);
+  const facts: [string, string | undefined][] = [
+    [t('email.from'), email.from],
+    [t('email.replyTo'), email.replyTo],
+    [t('email.returnPath'), email.returnPath],
+    [t('email.to'), email.to],
+    [t('email.subject'), email.subject],
+    [t('email.date'), email.date]
+  ];
+  const links = [...email.links.filter(l => l.mismatch), ...email.links.filter(l => !l.mismatch)];
+
+  return (
+    <div className="bg-white rounded-[2.5rem] p-10 border border-slate-100 shadow-xl space-y-10">
+      <h3 className="text-xl font-black text-slate-900 flex items-center gap-3">
+        <div className="p-2.5 bg-indigo-50 rounded-2xl"><Mail className="text-indigo-600" size={24} /></div>
+        {t('email.title')}
+      </h3>
+
+      <dl className="grid grid-cols-1 gap-y-3">
+        {facts.filter(([, value]) => value).map(([label, value]) => (
+          <div key={label} className="flex flex-col sm:flex-row sm:gap-4">
+            <dt className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-400 sm:w-28 shrink-0 sm:pt-0.5">{label}</dt>
+            <dd className="text-sm font-medium text-slate-700 break-all">{value}</dd>
+          </div>
+        ))}
+      </dl>
+
+      <div>
+        <h4 className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-400 mb-3">{t('email.auth')}</h4>
+        {email.auth.length > 0 ? (
+          <div className="flex flex-wrap gap-2">
+            {email.auth.map((r, i) => (
+              <span key={`${r.method}-${i}`} className={`text-xs font-bold px-3 py-1.5 rounded-full border ${authBadge(r)}`} title={r.detail}>
+                {r.method.toUpperCase()}: {r.result}
+              </span>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-slate-500 font-medium">{t('email.noAuth')}</p>
+        )}
+      </div>
+
+      {links.length > 0 && (
+        <div>
+          <h4 className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-400 mb-3">{t('email.links')}</h4>
+          <ul className="space-y-2">
+            {links.map((link, i) => (
+              <li key={`${link.href}-${i}`} className={`rounded-2xl px-4 py-3 border text-sm ${link.mismatch ? 'bg-red-50 border-red-200' : 'bg-slate-50 border-slate-100'}`}>
+                <span className="block font-bold text-slate-800 break-all">{link.text || t('email.noLinkText')}</span>
+                <span className={`block font-mono text-xs break-all ${link.mismatch ? 'text-red-700' : 'text-slate-500'}`}>
+                  {link.mismatch ? t('email.actuallyGoesTo', { href: link.href }) : link.href}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {email.attachments.length > 0 && (
+        <div className="overflow-x-auto">
+          <h4 className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-400 mb-3">{t('email.attachments')}</h4>
+          <table className="w-full text-sm">
+            <tbody>
+              {email.attachments.map((attachment, i) => (
+                <tr key={`${attachment.name}-${i}`} className="border-b border-slate-50 last:border-0">
+                  <td className="py-3 pr-4 font-mono text-xs text-slate-700 break-all">
+                    <span className="inline-flex items-center gap-1.5">
+                      <Paperclip size={12} className="text-slate-400 shrink-0" />
+                      {attachment.name}
+                    </span>
+                  </td>
+                  <td className="py-3 pr-4 text-right text-slate-500 font-medium whitespace-nowrap">{formatBytes(attachment.size)}</td>
+                  <td className="py-3 pr-4">
+                    {attachment.verdict ? (
+                      <span className={`text-[10px] font-black uppercase tracking-[0.2em] px-2.5 py-1 rounded-full border ${VERDICT_BADGE[attachment.verdict]}`}>{t(`verdict.${attachment.verdict}`)}</span>
+                    ) : (
+                      <span className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-400">{t('email.unchecked')}</span>
+                    )}
+                  </td>
+                  <td className="py-3 text-slate-500 font-medium">{attachment.note ? keyedText(attachment.note, attachment.messages?.note, locale) : attachment.fileType || attachment.contentType}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
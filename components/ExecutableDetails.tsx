@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { Cpu } from 'lucide-react';
+import { ExecutableInfo } from '../types';
+import { formatBytes } from '../utils/fileUtils';
+import { Locale, translator } from '../services/i18n';
+
+const hex = (value: number) => `0x${value.toString(16).toUpperCase()}`;
+
+const entropyColor = (entropy: number) => {
+  if (entropy > 7.2) return 'bg-red-500';
+  if (entropy > 6.5) return 'bg-amber-400';
+  return 'bg-emerald-400';
+};
+
+/**
+ * Header, section, import and export tables for a parsed PE or ELF file.
+ */
+export default function ExecutableDetails({ info, locale }: { info: ExecutableInfo; locale: Locale }) {
+  const t = translator(locale);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [showAllExports, setShowAllExports] = useState(false);
+
+  const facts: [string, string | undefined][] = [
+    [t('executable.format'), `${info.format} ${info.kind}`],
+    [t('executable.machine'), t('executable.machineBits', { machine: info.machine, bits: info.bits })],
+    [t('executable.subsystem'), info.subsystem],
+    [t('executable.entryPoint'), hex(info.entryPoint)],
+    [t('executable.compiled'), info.compiledAt ? new Date(info.compiledAt).toLocaleString(locale) : undefined],
+    [t('executable.interpreter'), info.interpreter],
+    [t('executable.signature'), info.format === 'PE' ? t(info.hasSignature ? 'executable.signed' : 'executable.unsigned') : undefined]
+  ];
+  const exportsShown = showAllExports ? info.exports : info.exports.slice(0, 50);
+
+  return (
+    <div className="bg-white rounded-[2.5rem] p-10 border border-slate-100 shadow-xl space-y-10">
+      <h3 className="text-xl font-black text-slate-900 flex items-center gap-3">
+        <div className="p-2.5 bg-indigo-50 rounded-2xl"><Cpu className="text-indigo-600" size={24} /></div>
+        {t('executable.title')}
+      </h3>
+
+      <dl className="grid grid-cols-1 sm:grid-cols-2 gap-x-8 gap-y-3">
+        {facts.filter(([, value]) => value).map(([label, value]) => (
+          <div key={label} className="flex justify-between gap-4 border-b border-slate-50 pb-2">
+            <dt className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-400 pt-1">{label}</dt>
+            <dd className="text-sm font-bold text-slate-700 text-right break-all">{value}</dd>
+          </div>
+        ))}
+      </dl>
+
+      <div>
+        <h4 className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-400 mb-3">{t('executable.sections', { count: info.sections.length })}</h4>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-[10px] font-black uppercase tracking-[0.2em] text-slate-400 border-b border-slate-100">
+                <th className="py-2 pr-4">{t('executable.column.name')}</th>
+                <th className="py-2 pr-4 text-right">{t('executable.column.address')}</th>
+                <th className="py-2 pr-4 text-right">{t('executable.column.virtual')}</th>
+                <th className="py-2 pr-4 text-right">{t('executable.column.onDisk')}</th>
+                <th className="py-2 pr-4">{t('executable.column.access')}</th>
+                <th className="py-2">{t('executable.column.entropy')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {info.sections.map((s, i) => (
+                <tr key={`${s.name}-${i}`} className="border-b border-slate-50 last:border-0">
+                  <td className="py-2 pr-4 font-mono text-xs text-slate-700">{s.name || t('finding.exe.unnamedSection')}</td>
+                  <td className="py-2 pr-4 text-right font-mono text-xs text-slate-500">{hex(s.virtualAddress)}</td>
+                  <td className="py-2 pr-4 text-right text-slate-500 whitespace-nowrap">{formatBytes(s.virtualSize)}</td>
+                  <td className="py-2 pr-4 text-right text-slate-500 whitespace-nowrap">{formatBytes(s.rawSize)}</td>
+                  <td className={`py-2 pr-4 font-mono text-xs font-bold ${s.permissions.includes('W') && s.permissions.includes('X') ? 'text-red-600' : 'text-slate-500'}`}>{s.permissions || '—'}</td>
+                  <td className="py-2">
+                    {s.entropy === undefined ? <span className="text-slate-300">—</span> : (
+                      <div className="flex items-center gap-2">
+                        <div className="w-20 h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                          <div className={`h-full ${entropyColor(s.entropy)}`} style={{ width: `${(s.entropy / 8) * 100}%` }} />
+                        </div>
+                        <span className="font-mono text-xs text-slate-500">{s.entropy.toFixed(2)}</span>
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div>
+        <h4 className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-400 mb-3">{t('executable.imports', { count: info.imports.length })}</h4>
+        {info.imports.length === 0 ? (
+          <p className="text-sm text-slate-400 font-medium">{t('executable.noImports')}</p>
+        ) : (
+          <ul className="divide-y divide-slate-50">
+            {info.imports.map(lib => (
+              <li key={lib.library} className="py-2">
+                <button
+                  type="button"
+                  onClick={() => setExpanded(expanded === lib.library ? null : lib.library)}
+                  disabled={lib.functions.length === 0}
+                  className="w-full flex justify-between items-center text-left font-mono text-xs font-bold text-slate-700 disabled:cursor-default"
+                >
+                  {lib.library}
+                  <span className="text-slate-400 font-sans">{lib.functions.length > 0 ? t('executable.functions', { count: lib.functions.length }) : ''}</span>
+                </button>
+                {expanded === lib.library && (
+                  <p className="mt-2 font-mono text-xs text-slate-500 leading-relaxed break-words">{lib.functions.join(', ')}</p>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {info.exports.length > 0 && (
+        <div>
+          <h4 className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-400 mb-3">{t('executable.exports', { count: info.exports.length })}</h4>
+          <p className="font-mono text-xs text-slate-500 leading-relaxed break-words">{exportsShown.join(', ')}</p>
+          {info.exports.length > exportsShown.length && (
+            <button type="button" onClick={() => setShowAllExports(true)} className="mt-2 text-xs text-indigo-600 font-black uppercase tracking-widest hover:underline">
+              {t('executable.showAll', { count: info.exports.length })}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
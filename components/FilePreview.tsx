@@ -0,0 +1,233 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Code, Download, Eye, FileText, Image as ImageIcon, MapPin, ShieldCheck } from 'lucide-react';
+import { AnalysisResult, ImageMetadata, LocalizedText } from '../types';
+import { highlight, languageFor, TokenKind } from '../services/highlight';
+import { readImageMetadata, stripImageMetadata } from '../services/imageMetadata';
+import { extractPdfText, MAX_PDF_PAGES, PdfPageText } from '../services/pdfText';
+import { sanitizeForPreview, SanitizedPreview } from '../services/safePreview';
+import { listOf, Locale, localize, msg, translator } from '../services/i18n';
+
+type PreviewKind = 'image' | 'svg' | 'html' | 'pdf' | 'text' | 'none';
+
+/** Images and PDFs above this are not previewed. */
+const MAX_PREVIEW_BYTES = 50 * 1024 * 1024;
+/** Text, HTML and SVG are previewed from this much of the start of the file. */
+const MAX_TEXT_BYTES = 512 * 1024;
+
+const IMAGE_TYPES = ['png', 'jpeg', 'gif', 'webp', 'bmp', 'ico'];
+const TEXT_TYPES = ['text', 'xml', 'shebang', 'rtf'];
+
+const TOKEN_STYLE: Record<TokenKind, string> = {
+  plain: '',
+  comment: 'text-slate-400 italic',
+  string: 'text-emerald-700',
+  keyword: 'text-indigo-700 font-bold',
+  number: 'text-amber-700',
+  tag: 'text-rose-700',
+  attribute: 'text-sky-700'
+};
+
+const previewKind = (result: AnalysisResult): PreviewKind => {
+  const type = result.metadata.detectedType ?? '';
+  if (IMAGE_TYPES.includes(type)) return 'image';
+  if (type === 'svg') return 'svg';
+  if (type === 'html') return 'html';
+  if (type === 'pdf') return 'pdf';
+  if (TEXT_TYPES.includes(type)) return 'text';
+  return 'none';
+};
+
+type Loaded =
+  | { kind: 'image'; url: string; meta: ImageMetadata | null; stripped: boolean }
+  | { kind: 'markup'; sanitized: SanitizedPreview; source: string }
+  | { kind: 'pdf'; pages: PdfPageText[] }
+  | { kind: 'text'; text: string };
+
+const Source = ({ text, language }: { text: string; language: string | null }) => {
+  const tokens = useMemo(() => highlight(text, language), [text, language]);
+  return (
+    <pre className="max-h-[36rem] overflow-auto bg-slate-50 rounded-2xl border border-slate-100 p-6 font-mono text-xs text-slate-700 leading-5 whitespace-pre-wrap break-all">
+      {tokens.map((t, i) => (t.kind === 'plain' ? t.text : <span key={i} className={TOKEN_STYLE[t.kind]}>{t.text}</span>))}
+    </pre>
+  );
+};
+
+const MetadataTable = ({ rows }: { rows: [string, string][] }) => (
+  <dl className="space-y-1">
+    {rows.map(([name, value], i) => (
+      <div key={i} className="flex gap-4 text-sm">
+        <dt className="w-40 shrink-0 text-slate-400 font-bold">{name}</dt>
+        <dd className="text-slate-800 font-medium break-all">{value}</dd>
+      </div>
+    ))}
+  </dl>
+);
+
+interface FilePreviewProps {
+  result: AnalysisResult;
+  /** Null for history entries that didn't keep their file. */
+  file: Blob | null;
+  fileName: string;
+  locale: Locale;
+}
+
+/**
+ * Shows what a file looks like without opening it in a native app. Nothing
+ * in the file gets to run or reach the network: images are shown with their
+ * metadata stripped, HTML and SVG are sanitized and rendered in a sandboxed,
+ * CSP-locked iframe, PDFs are reduced to their text, and code is coloured
+ * as plain text.
+ */
+export default function FilePreview({ result, file, fileName, locale }: FilePreviewProps) {
+  const t = translator(locale);
+  const kind = previewKind(result);
+  const [loaded, setLoaded] = useState<Loaded | null>(null);
+  const [error, setError] = useState<LocalizedText | null>(null);
+  const [showSource, setShowSource] = useState(false);
+  const language = languageFor(result.metadata.declaredExtension ?? '', result.metadata.detectedType);
+
+  useEffect(() => {
+    setLoaded(null);
+    setError(null);
+    setShowSource(false);
+    if (!file || kind === 'none') return;
+    if ((kind === 'image' || kind === 'pdf') && file.size > MAX_PREVIEW_BYTES) {
+      setError(msg('preview.tooLarge', { size: MAX_PREVIEW_BYTES / 1024 / 1024 }));
+      return;
+    }
+    let stale = false;
+    let url: string | null = null;
+    const load = async (): Promise<Loaded> => {
+      if (kind === 'image') {
+        const bytes = new Uint8Array(await file.arrayBuffer());
+        const stripped = stripImageMetadata(bytes);
+        url = URL.createObjectURL(new Blob([stripped ?? bytes], { type: result.metadata.detectedMimeType ?? '' }));
+        return { kind: 'image', url, meta: readImageMetadata(bytes), stripped: stripped !== null };
+      }
+      if (kind === 'pdf') return { kind: 'pdf', pages: await extractPdfText(new Uint8Array(await file.arrayBuffer())) };
+      const text = await file.slice(0, MAX_TEXT_BYTES).text();
+      if (kind === 'text') return { kind: 'text', text };
+      return { kind: 'markup', sanitized: sanitizeForPreview(text, kind), source: text };
+    };
+    load()
+      .then(next => { if (!stale) setLoaded(next); })
+      .catch(err => {
+        console.warn("Preview failed:", err);
+        if (!stale) setError(msg('preview.failed'));
+      });
+    return () => {
+      stale = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [file, kind, result.metadata.detectedMimeType]);
+
+  const truncated = !!file && file.size > MAX_TEXT_BYTES && (kind === 'text' || kind === 'svg' || kind === 'html');
+
+  const body = (() => {
+    if (kind === 'none') {
+      return <p className="text-sm text-slate-400 font-medium">{t('preview.unsupported')}</p>;
+    }
+    if (!file) return <p className="text-sm text-slate-400 font-medium">{t('preview.noFile')}</p>;
+    if (error) return <p className="text-sm text-red-600 font-bold">{localize(error, locale)}</p>;
+    if (!loaded) return <p className="text-sm text-slate-400 font-medium">{t('preview.loading')}</p>;
+
+    switch (loaded.kind) {
+      case 'image': {
+        const meta = loaded.meta;
+        const rows: [string, string][] = [];
+        if (meta?.width && meta.height) rows.push([t('preview.dimensions'), `${meta.width} × ${meta.height}`]);
+        meta?.exif.forEach(t => rows.push([t.name, t.value]));
+        meta?.xmp.filter(t => !meta.exif.some(e => e.name === t.name)).forEach(t => rows.push([t.name, t.value]));
+        meta?.iptc.forEach(t => rows.push([t.name, t.value]));
+        meta?.text.forEach(t => rows.push([t.name, t.value.length > 300 ? `${t.value.slice(0, 300)}…` : t.value]));
+        return (
+          <div className="space-y-6">
+            <div className="bg-[repeating-conic-gradient(#f1f5f9_0%_25%,#fff_0%_50%)] bg-[length:20px_20px] rounded-2xl border border-slate-100 p-4 flex justify-center">
+              <img src={loaded.url} alt={fileName} referrerPolicy="no-referrer" className="max-h-[32rem] max-w-full object-contain" />
+            </div>
+            {meta?.gps && (
+              <div className="flex items-start gap-3 p-4 bg-amber-50 border border-amber-200 rounded-2xl text-amber-800">
+                <MapPin size={20} className="shrink-0 mt-0.5" />
+                <p className="text-sm font-bold">
+                  {t(meta.gps.altitude !== undefined ? 'preview.gpsAltitude' : 'preview.gps', {
+                    position: `${meta.gps.latitude.toFixed(5)}, ${meta.gps.longitude.toFixed(5)}`,
+                    altitude: Math.round(meta.gps.altitude ?? 0)
+                  })}
+                </p>
+              </div>
+            )}
+            {rows.length > 0 ? <MetadataTable rows={rows} /> : <p className="text-sm text-slate-400 font-medium">{t('preview.noMetadata')}</p>}
+            {loaded.stripped && (
+              <a href={loaded.url} download={fileName.replace(/(\.[^.]+)?$/, '-clean$1')} className="inline-flex items-center gap-2 px-4 py-2 bg-slate-50 hover:bg-indigo-50 hover:text-indigo-600 rounded-xl text-xs font-black uppercase tracking-widest border border-slate-100 transition-all">
+                <Download size={14} /> {t('preview.downloadClean')}
+              </a>
+            )}
+          </div>
+        );
+      }
+      case 'markup':
+        return (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-3">
+              <button onClick={() => setShowSource(!showSource)} className="flex items-center gap-2 px-4 py-2 bg-slate-50 hover:bg-indigo-50 hover:text-indigo-600 rounded-xl text-xs font-black uppercase tracking-widest border border-slate-100 transition-all">
+                {showSource ? <Eye size={14} /> : <Code size={14} />} {t(showSource ? 'preview.rendered' : 'preview.source')}
+              </button>
+              <span className="flex items-center gap-2 text-xs font-bold text-emerald-700">
+                <ShieldCheck size={14} /> {loaded.sanitized.removed.length > 0
+                  ? t('preview.blockedRemoved', { removed: listOf(loaded.sanitized.removed) })
+                  : t('preview.blocked')}
+              </span>
+            </div>
+            {showSource ? <Source text={loaded.source} language="markup" /> : (
+              <iframe
+                title={t('preview.frameTitle', { name: fileName })}
+                sandbox=""
+                referrerPolicy="no-referrer"
+                srcDoc={loaded.sanitized.html}
+                className="w-full h-[36rem] bg-white rounded-2xl border border-slate-200"
+              />
+            )}
+          </div>
+        );
+      case 'pdf':
+        if (loaded.pages.every(p => !p.text)) {
+          return <p className="text-sm text-slate-400 font-medium">{t('preview.noPdfText')}</p>;
+        }
+        return (
+          <div className="space-y-6 max-h-[40rem] overflow-y-auto pr-2">
+            {loaded.pages.map(p => (
+              <div key={p.page}>
+                <h4 className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-400 mb-2">{t('preview.page', { page: p.page })}</h4>
+                <p className="text-sm text-slate-700 whitespace-pre-wrap leading-relaxed">{p.text || <span className="text-slate-300 italic">{t('preview.emptyPage')}</span>}</p>
+              </div>
+            ))}
+            {loaded.pages.length >= MAX_PDF_PAGES && <p className="text-xs text-slate-400 font-medium">{t('preview.pageLimit', { count: MAX_PDF_PAGES })}</p>}
+          </div>
+        );
+      case 'text':
+        return <Source text={loaded.text} language={language} />;
+    }
+  })();
+
+  const icon = kind === 'image' ? <ImageIcon className="text-indigo-600" size={24} /> : kind === 'text' ? <Code className="text-indigo-600" size={24} /> : <FileText className="text-indigo-600" size={24} />;
+  const subtitle: Record<PreviewKind, string> = {
+    image: t('preview.subtitle.image'),
+    svg: t('preview.subtitle.markup'),
+    html: t('preview.subtitle.markup'),
+    pdf: t('preview.subtitle.pdf'),
+    text: language ? t('preview.subtitle.source', { language }) : t('preview.subtitle.text'),
+    none: t('preview.subtitle.none')
+  };
+
+  return (
+    <div className="bg-white rounded-[2.5rem] p-10 border border-slate-100 shadow-xl">
+      <h3 className="text-xl font-black text-slate-900 mb-1 flex items-center gap-3">
+        <div className="p-2.5 bg-indigo-50 rounded-2xl">{icon}</div>
+        {t('preview.title')}
+      </h3>
+      <p className="text-xs font-black uppercase tracking-[0.2em] text-slate-400 mb-6 ml-[3.75rem]">{subtitle[kind]}</p>
+      {body}
+      {truncated && <p className="text-xs text-slate-400 font-medium mt-3">{t('preview.truncated', { size: MAX_TEXT_BYTES / 1024 })}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+import React, { useEffect, useState } from 'react';
+import { Fingerprint, Trash2, Upload } from 'lucide-react';
+import { clearHashList, countHashList, HashListKind, importHashList } from '../services/hashList';
+import { Locale, translator } from '../services/i18n';
+
+/**
+ * Settings section for importing known-bad and known-good hash lists (plain
+ * text or CSV). Lists live in IndexedDB and apply to the next scan.
+ */
+export default function HashListSettings({ locale }: { locale: Locale }) {
+  const t = translator(locale);
+  const [counts, setCounts] = useState<Record<HashListKind, number>>({ block: 0, allow: 0 });
+  const [message, setMessage] = useState<{ ok: boolean; text: string } | null>(null);
+
+  useEffect(() => {
+    countHashList().then(setCounts).catch(err => console.warn("Could not read hash lists:", err));
+  }, []);
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>, list: HashListKind) => {
+    const listFile = e.target.files?.[0];
+    e.target.value = '';
+    if (!listFile) return;
+    try {
+      const added = await importHashList(await listFile.text(), list, listFile.name);
+      setCounts(await countHashList());
+      setMessage({ ok: true, text: t(`hashList.${list}.added`, { count: added, file: listFile.name }) });
+    } catch (err: any) {
+      setMessage({ ok: false, text: err.message || t('hashList.unreadable') });
+    }
+  };
+
+  const handleClear = async (list: HashListKind) => {
+    await clearHashList(list);
+    setCounts(await countHashList());
+    setMessage({ ok: true, text: t(`hashList.${list}.cleared`) });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-3">
+        <div className="p-2 bg-indigo-50 rounded-xl"><Fingerprint className="text-indigo-600" size={20} /></div>
+        <h3 className="text-lg font-black text-slate-900">{t('hashList.title')}</h3>
+      </div>
+      <p className="text-sm text-slate-500 font-medium leading-relaxed">
+        {t('hashList.intro')}
+      </p>
+      {(['block', 'allow'] as const).map(list => (
+        <div key={list} className="flex gap-3">
+          <label className="flex-grow flex items-center justify-center gap-2 py-3 bg-slate-50 hover:bg-indigo-50 hover:text-indigo-600 rounded-2xl font-bold text-sm border border-slate-100 cursor-pointer transition-all">
+            <Upload size={16} />
+            {t(`hashList.${list}.import`, { count: counts[list] })}
+            <input type="file" accept=".txt,.csv,.tsv,.sha256,.md5" onChange={(e) => handleImport(e, list)} className="hidden" />
+          </label>
+          {counts[list] > 0 && (
+            <button
+              type="button"
+              onClick={() => handleClear(list)}
+              className="px-4 py-3 bg-slate-50 hover:bg-red-50 hover:text-red-600 rounded-2xl font-bold text-sm border border-slate-100 transition-all"
+              title={t(`hashList.${list}.clear`)}
+            >
+              <Trash2 size={16} />
+            </button>
+          )}
+        </div>
+      ))}
+      {message && (
+        <p className={`text-xs font-bold ${message.ok ? 'text-emerald-600' : 'text-red-600'}`}>{message.text}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+const ROW_BYTES = 16;
+const ROW_HEIGHT = 20;
+const VISIBLE_ROWS = 24;
+const OVERSCAN_ROWS = 16;
+/** Browsers cap element height (~33M px in Chrome), so huge files scroll a scaled-down track. */
+const MAX_SCROLL_HEIGHT = 10_000_000;
+
+export interface HexRange {
+  offset: number;
+  length: number;
+}
+
+interface HexViewerProps {
+  file: Blob;
+  /** Scrolled into view and highlighted whenever it changes. */
+  highlight?: HexRange | null;
+}
+
+const offsetLabel = (offset: number) => offset.toString(16).toUpperCase().padStart(8, '0');
+
+/**
+ * Offset / hex / ASCII dump that only reads and renders the rows on screen,
+ * so it opens multi-gigabyte files instantly.
+ */
+export default function HexViewer({ file, highlight }: HexViewerProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [chunk, setChunk] = useState<{ start: number; bytes: Uint8Array }>({ start: 0, bytes: new Uint8Array(0) });
+
+  const rowCount = Math.ceil(file.size / ROW_BYTES);
+  const viewport = VISIBLE_ROWS * ROW_HEIGHT;
+  const fullHeight = rowCount * ROW_HEIGHT;
+  const trackHeight = Math.min(fullHeight, MAX_SCROLL_HEIGHT);
+  const scale = trackHeight > viewport ? (fullHeight - viewport) / (trackHeight - viewport) : 1;
+  const virtualTop = scrollTop * scale;
+  const firstRow = Math.max(0, Math.floor(virtualTop / ROW_HEIGHT) - OVERSCAN_ROWS);
+  const lastRow = Math.min(rowCount, firstRow + VISIBLE_ROWS + OVERSCAN_ROWS * 2);
+
+  useEffect(() => {
+    let stale = false;
+    const start = firstRow * ROW_BYTES;
+    file.slice(start, lastRow * ROW_BYTES).arrayBuffer().then(buffer => {
+      if (!stale) setChunk({ start, bytes: new Uint8Array(buffer) });
+    });
+    return () => { stale = true; };
+  }, [file, firstRow, lastRow]);
+
+  useEffect(() => {
+    if (!highlight || !containerRef.current) return;
+    const target = Math.max(0, Math.floor(highlight.offset / ROW_BYTES) * ROW_HEIGHT - ROW_HEIGHT * 4);
+    containerRef.current.scrollTop = target / scale;
+  }, [highlight, scale]);
+
+  const isHighlighted = (offset: number) => !!highlight && offset >= highlight.offset && offset < highlight.offset + highlight.length;
+
+  const rows: React.ReactNode[] = [];
+  for (let row = firstRow; row < lastRow; row++) {
+    const rowStart = row * ROW_BYTES;
+    const hexCells: React.ReactNode[] = [];
+    const asciiCells: React.ReactNode[] = [];
+    for (let i = 0; i < ROW_BYTES; i++) {
+      const offset = rowStart + i;
+      const index = offset - chunk.start;
+      const loaded = offset < file.size && index >= 0 && index < chunk.bytes.length;
+      const b = loaded ? chunk.bytes[index] : -1;
+      const mark = isHighlighted(offset) ? 'bg-amber-200 text-slate-900' : '';
+      hexCells.push(
+        <span key={i} className={`${mark} ${i === 8 ? 'ml-2' : ''} ${b === 0 ? 'text-slate-300' : ''}`}>
+          {b < 0 ? '  ' : b.toString(16).toUpperCase().padStart(2, '0')}
+        </span>
+      );
+      asciiCells.push(<span key={i} className={mark}>{b < 0 ? ' ' : b >= 0x20 && b < 0x7f ? String.fromCharCode(b) : '.'}</span>);
+    }
+    rows.push(
+      <div key={row} className="absolute left-0 right-0 flex gap-6 px-4 whitespace-pre" style={{ top: row * ROW_HEIGHT - virtualTop + scrollTop, height: ROW_HEIGHT }}>
+        <span className="text-slate-400">{offsetLabel(rowStart)}</span>
+        <span className="flex gap-[0.6ch]">{hexCells}</span>
+        <span className="text-slate-500">{asciiCells}</span>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      ref={containerRef}
+      onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+      className="overflow-auto bg-slate-50 rounded-2xl border border-slate-100 font-mono text-xs text-slate-700 leading-5"
+      style={{ height: viewport }}
+    >
+      <div className="relative min-w-[44rem]" style={{ height: trackHeight }}>{rows}</div>
+    </div>
+  );
+}
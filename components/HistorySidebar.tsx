@@ -0,0 +1,151 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { History, Search, Trash2, X } from 'lucide-react';
+import { Verdict } from '../types';
+import {
+  applyRetention, clearHistory, deleteScan, filterHistory, getHistorySettings,
+  HistoryEntry, HistoryQuery, HistorySettings, listHistory, saveHistorySettings
+} from '../services/history';
+import { formatBytes } from '../utils/fileUtils';
+import { Locale, translator } from '../services/i18n';
+
+const VERDICT_BADGE: Record<string, string> = {
+  SAFE: 'bg-emerald-50 text-emerald-700 border-emerald-200',
+  CAUTION: 'bg-amber-50 text-amber-700 border-amber-200',
+  DANGER: 'bg-red-50 text-red-700 border-red-200'
+};
+
+interface HistorySidebarProps {
+  onClose: () => void;
+  onOpen: (entry: HistoryEntry) => void;
+  locale: Locale;
+}
+
+/**
+ * Slide-over list of past scans with search, retention settings and a
+ * "clear history" control. Reloads from IndexedDB every time it opens.
+ */
+export default function HistorySidebar({ onClose, onOpen, locale }: HistorySidebarProps) {
+  const t = translator(locale);
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [query, setQuery] = useState<HistoryQuery>({ text: '', verdict: '', from: '', to: '' });
+  const [settings, setSettings] = useState<HistorySettings>(getHistorySettings);
+  const [confirmClear, setConfirmClear] = useState(false);
+
+  const reload = () => listHistory().then(setEntries).catch(err => console.warn("Could not read scan history:", err));
+
+  useEffect(() => { reload(); }, []);
+
+  const shown: HistoryEntry[] = useMemo(() => filterHistory(entries, query), [entries, query]);
+
+  const updateSettings = async (patch: Partial<HistorySettings>) => {
+    const next = { ...settings, ...patch };
+    setSettings(next);
+    saveHistorySettings(next);
+    if (patch.maxEntries !== undefined || patch.maxAgeDays !== undefined) {
+      await applyRetention(next);
+      reload();
+    }
+  };
+
+  const handleDelete = async (e: React.MouseEvent, id: number) => {
+    e.stopPropagation();
+    await deleteScan(id);
+    reload();
+  };
+
+  const handleClear = async () => {
+    await clearHistory();
+    setConfirmClear(false);
+    reload();
+  };
+
+  const inputClass = "w-full px-3 py-2 bg-slate-50 border-2 border-transparent rounded-xl focus:border-indigo-600 focus:bg-white outline-none transition-all text-sm text-slate-900";
+
+  return (
+    <div className="fixed inset-0 z-[90] flex bg-slate-900/40 backdrop-blur-sm animate-in fade-in duration-200" onClick={onClose}>
+      <aside className="bg-white w-full max-w-md h-full shadow-2xl flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="p-6 border-b border-slate-100 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-indigo-50 rounded-xl"><History className="text-indigo-600" size={20} /></div>
+            <h2 className="text-xl font-black text-slate-900">{t('history.title')}</h2>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 p-2"><X size={20} /></button>
+        </div>
+
+        <div className="p-6 space-y-3 border-b border-slate-100">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" size={16} />
+            <input
+              type="search"
+              value={query.text}
+              onChange={(e) => setQuery({ ...query, text: e.target.value })}
+              placeholder={t('history.search')}
+              className={`${inputClass} pl-9`}
+            />
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            <select value={query.verdict} onChange={(e) => setQuery({ ...query, verdict: e.target.value as Verdict | '' })} className={inputClass}>
+              <option value="">{t('history.anyVerdict')}</option>
+              <option value="DANGER">{t('verdict.DANGER')}</option>
+              <option value="CAUTION">{t('verdict.CAUTION')}</option>
+              <option value="SAFE">{t('verdict.SAFE')}</option>
+            </select>
+            <input type="date" value={query.from} onChange={(e) => setQuery({ ...query, from: e.target.value })} className={inputClass} title={t('history.from')} />
+            <input type="date" value={query.to} onChange={(e) => setQuery({ ...query, to: e.target.value })} className={inputClass} title={t('history.to')} />
+          </div>
+        </div>
+
+        <ul className="flex-grow overflow-y-auto divide-y divide-slate-50">
+          {shown.length === 0 && (
+            <li className="p-10 text-center text-sm text-slate-400 font-medium">
+              {t(entries.length === 0 ? (settings.enabled ? 'history.empty' : 'history.off') : 'history.noMatch')}
+            </li>
+          )}
+          {shown.map(entry => (
+            <li key={entry.id} onClick={() => onOpen(entry)} className="px-6 py-4 flex items-center gap-3 cursor-pointer hover:bg-slate-50 group">
+              <span className={`text-[10px] font-black uppercase tracking-[0.2em] px-2 py-0.5 rounded-full border shrink-0 ${VERDICT_BADGE[entry.result.verdict]}`}>{t(`verdict.${entry.result.verdict}`)}</span>
+              <div className="min-w-0 flex-grow">
+                <p className="font-bold text-sm text-slate-900 truncate">{entry.fileName}</p>
+                <p className="text-xs text-slate-400 font-medium">
+                  {new Date(entry.scannedAt).toLocaleString(locale)} • {formatBytes(entry.fileSize)}{entry.messages.length > 0 ? ` • ${t('history.messages', { count: entry.messages.length })}` : ''}
+                </p>
+              </div>
+              <button onClick={(e) => handleDelete(e, entry.id!)} className="p-2 text-slate-300 hover:text-red-600 opacity-0 group-hover:opacity-100 transition-all" title={t('history.delete')}>
+                <Trash2 size={14} />
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        <div className="p-6 border-t border-slate-100 space-y-3 text-sm">
+          <label className="flex items-center gap-3 font-bold text-slate-700">
+            <input type="checkbox" checked={settings.enabled} onChange={(e) => updateSettings({ enabled: e.target.checked })} />
+            {t('history.enabled')}
+          </label>
+          <label className="flex items-center gap-3 font-bold text-slate-700">
+            <input type="checkbox" checked={settings.keepFiles} disabled={!settings.enabled} onChange={(e) => updateSettings({ keepFiles: e.target.checked })} />
+            {t('history.keepFiles')}
+          </label>
+          <div className="flex items-center gap-2 text-slate-500 font-medium">
+            {t('history.keepAtMost')}
+            <input type="number" min={1} value={settings.maxEntries} onChange={(e) => updateSettings({ maxEntries: Math.max(1, +e.target.value || 1) })} className="w-20 px-2 py-1 bg-slate-50 rounded-lg border border-slate-100" />
+            {t('history.scansFor')}
+            <input type="number" min={0} value={settings.maxAgeDays} onChange={(e) => updateSettings({ maxAgeDays: Math.max(0, +e.target.value || 0) })} className="w-16 px-2 py-1 bg-slate-50 rounded-lg border border-slate-100" />
+            {t('history.days')}
+          </div>
+          <p className="text-xs text-slate-400">{t('history.retentionHint')}</p>
+          {confirmClear ? (
+            <div className="flex gap-2">
+              <button onClick={handleClear} className="flex-grow py-3 bg-red-600 text-white rounded-2xl font-bold">{t('history.deleteAll', { count: entries.length })}</button>
+              <button onClick={() => setConfirmClear(false)} className="px-4 py-3 bg-slate-50 rounded-2xl font-bold border border-slate-100">{t('history.cancel')}</button>
+            </div>
+          ) : (
+            <button onClick={() => setConfirmClear(true)} disabled={entries.length === 0} className="w-full flex items-center justify-center gap-2 py-3 bg-slate-50 hover:bg-red-50 hover:text-red-600 rounded-2xl font-bold border border-slate-100 transition-all disabled:opacity-40">
+              <Trash2 size={16} /> {t('history.clear')}
+            </button>
+          )}
+        </div>
+      </aside>
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+import React from 'react';
+
+type Block =
+  | { type: 'code'; lang: string; text: string }
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'list'; ordered: boolean; items: string[] }
+  | { type: 'paragraph'; text: string };
+
+const LIST_ITEM = /^\s*(?:([-*+])|(\d+)[.)])\s+(.*)$/;
+const INLINE = /(`[^`]+`)|(\*\*[^*]+\*\*|__[^_]+__)|(\*[^*\s][^*]*\*|_[^_\s][^_]*_)|(\[[^\]]+\]\([^)\s]+\))/g;
+
+/**
+ * Splits Markdown into blocks. An unclosed code fence runs to the end, which
+ * is what a half-streamed reply looks like.
+ */
+const parseBlocks = (markdown: string): Block[] => {
+  const blocks: Block[] = [];
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  let paragraph: string[] = [];
+  const flush = () => {
+    if (paragraph.length > 0) blocks.push({ type: 'paragraph', text: paragraph.join('\n') });
+    paragraph = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const fence = line.match(/^\s*```\s*([\w+-]*)/);
+    if (fence) {
+      flush();
+      const code: string[] = [];
+      while (++i < lines.length && !/^\s*```\s*$/.test(lines[i])) code.push(lines[i]);
+      blocks.push({ type: 'code', lang: fence[1], text: code.join('\n').replace(/\n+$/, '') });
+      continue;
+    }
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    if (heading) {
+      flush();
+      blocks.push({ type: 'heading', level: heading[1].length, text: heading[2] });
+      continue;
+    }
+    const item = line.match(LIST_ITEM);
+    if (item) {
+      flush();
+      const ordered = !!item[2];
+      const last = blocks[blocks.length - 1];
+      if (last?.type === 'list' && last.ordered === ordered) last.items.push(item[3]);
+      else blocks.push({ type: 'list', ordered, items: [item[3]] });
+      continue;
+    }
+    if (!line.trim()) {
+      flush();
+      continue;
+    }
+    paragraph.push(line);
+  }
+  flush();
+  return blocks;
+};
+
+/** Inline code, bold, italics and http(s) links. Everything else stays literal text. */
+const renderInline = (text: string): React.ReactNode[] => {
+  const out: React.ReactNode[] = [];
+  let at = 0;
+  for (const match of text.matchAll(INLINE)) {
+    const index = match.index!;
+    if (index > at) out.push(text.slice(at, index));
+    const [token, code, bold, italic] = match;
+    if (code) {
+      out.push(<code key={index} className="font-mono text-[0.85em] bg-slate-100 text-slate-800 rounded px-1.5 py-0.5 break-all">{code.slice(1, -1)}</code>);
+    } else if (bold) {
+      out.push(<strong key={index} className="font-black">{renderInline(bold.slice(2, -2))}</strong>);
+    } else if (italic) {
+      out.push(<em key={index}>{renderInline(italic.slice(1, -1))}</em>);
+    } else {
+      const [, label, href] = token.match(/^\[([^\]]+)\]\(([^)\s]+)\)$/)!;
+      out.push(/^https?:\/\//i.test(href)
+        ? <a key={index} href={href} target="_blank" rel="noopener noreferrer nofollow" className="text-indigo-600 underline break-all">{label}</a>
+        : token);
+    }
+    at = index + token.length;
+  }
+  if (at < text.length) out.push(text.slice(at));
+  return out;
+};
+
+/**
+ * Renders model output as Markdown without ever producing raw HTML: every
+ * piece becomes a React element or escaped text, so a reply can't inject
+ * markup or script, and only http(s) links are made clickable.
+ */
+export default function Markdown({ text }: { text: string }) {
+  return (
+    <div className="space-y-3">
+      {parseBlocks(text).map((block, i) => {
+        switch (block.type) {
+          case 'code':
+            return (
+              <div key={i} className="rounded-2xl bg-slate-900 text-slate-100 overflow-hidden">
+                {block.lang && <div className="px-4 pt-2 text-[10px] font-black uppercase tracking-[0.2em] text-slate-400">{block.lang}</div>}
+                <pre className="px-4 py-3 overflow-x-auto font-mono text-sm leading-relaxed"><code>{block.text}</code></pre>
+              </div>
+            );
+          case 'heading':
+            return <p key={i} className={`font-black text-slate-900 ${block.level <= 2 ? 'text-xl' : 'text-lg'}`}>{renderInline(block.text)}</p>;
+          case 'list': {
+            const List = block.ordered ? 'ol' : 'ul';
+            return (
+              <List key={i} className={`pl-6 space-y-1 ${block.ordered ? 'list-decimal' : 'list-disc'}`}>
+                {block.items.map((item, j) => <li key={j}>{renderInline(item)}</li>)}
+              </List>
+            );
+          }
+          default:
+            return <p key={i} className="whitespace-pre-wrap">{renderInline(block.text)}</p>;
+        }
+      })}
+    </div>
+  );
+}
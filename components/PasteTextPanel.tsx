@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { ClipboardPaste, ScanSearch } from 'lucide-react';
+import { fileFromText, guessTextKind, PastedTextKind } from '../utils/fileUtils';
+import { Locale, translator } from '../services/i18n';
+
+const KINDS: (PastedTextKind | 'auto')[] = ['auto', 'text', 'email', 'html', 'js', 'ps1', 'sh'];
+
+interface PasteTextPanelProps {
+  /** Text already pasted onto the page, if that is what opened the panel. */
+  initialText: string;
+  onScan: (file: File) => void;
+  onClose: () => void;
+  locale: Locale;
+}
+
+/**
+ * Scans a snippet, such as an email, a script or a link, without saving it
+ * to a file first. The text is wrapped as a file in memory and never fetched
+ * or run; links are checked by their address alone.
+ */
+export default function PasteTextPanel({ initialText, onScan, onClose, locale }: PasteTextPanelProps) {
+  const t = translator(locale);
+  const [text, setText] = useState(initialText);
+  const [kind, setKind] = useState<PastedTextKind | 'auto'>('auto');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!text.trim()) return;
+    onScan(fileFromText(text, kind === 'auto' ? undefined : kind));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-md animate-in fade-in duration-300">
+      <form onSubmit={handleSubmit} className="bg-white rounded-[2.5rem] p-8 md:p-10 max-w-2xl w-full shadow-2xl border border-slate-100 max-h-[90vh] overflow-y-auto space-y-6">
+        <div className="flex justify-between items-center">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-indigo-50 rounded-xl"><ClipboardPaste className="text-indigo-600" size={20} /></div>
+            <h2 className="text-xl font-black text-slate-900">{t('paste.title')}</h2>
+          </div>
+          <button type="button" onClick={onClose} className="text-slate-400 hover:text-slate-600 p-2">✕</button>
+        </div>
+        <p className="text-sm text-slate-500 font-medium leading-relaxed">
+          {t('paste.intro')}
+        </p>
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          autoFocus
+          spellCheck={false}
+          rows={12}
+          placeholder={t('paste.placeholder')}
+          className="w-full px-4 py-4 bg-slate-50 border-2 border-transparent rounded-2xl focus:border-indigo-600 focus:bg-white outline-none transition-all font-mono text-sm text-slate-900 resize-y"
+        />
+        <div className="flex flex-col sm:flex-row gap-3 sm:items-center">
+          <select
+            value={kind}
+            onChange={(e) => setKind(e.target.value as PastedTextKind | 'auto')}
+            className="flex-grow px-4 py-3 bg-slate-50 border-2 border-transparent rounded-2xl focus:border-indigo-600 outline-none text-sm font-bold text-slate-700"
+          >
+            {KINDS.map(id => (
+              <option key={id} value={id}>
+                {id === 'auto' && text.trim() ? t('paste.kind.detected', { kind: t(`paste.kind.${guessTextKind(text)}`) }) : t(`paste.kind.${id}`)}
+              </option>
+            ))}
+          </select>
+          <button
+            type="submit"
+            disabled={!text.trim()}
+            className="flex items-center justify-center gap-2 px-8 py-3 bg-slate-900 text-white rounded-2xl font-bold hover:bg-slate-800 transition-all active:scale-95 shadow-xl disabled:opacity-40 disabled:active:scale-100"
+          >
+            <ScanSearch size={18} /> {t('paste.scan')}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { Download, Scale, Trash2, Upload } from 'lucide-react';
+import {
+  BUILT_IN_PROFILES, deleteCustomProfile, getActiveProfileId, getProfiles, importPolicyProfiles, profileToJson, setActiveProfile
+} from '../services/policy';
+import { downloadText } from '../utils/fileUtils';
+import { listOf, Locale, translator } from '../services/i18n';
+
+/**
+ * Settings section for choosing the policy profile that tunes verdicts, and
+ * for importing and exporting profiles as JSON. Applies to the next scan.
+ */
+export default function PolicySettings({ locale }: { locale: Locale }) {
+  const t = translator(locale);
+  const [profiles, setProfiles] = useState(getProfiles);
+  const [activeId, setActiveId] = useState(getActiveProfileId);
+  const [message, setMessage] = useState<{ ok: boolean; text: string } | null>(null);
+  const active = profiles.find(p => p.id === activeId) ?? BUILT_IN_PROFILES[0];
+
+  const select = (id: string) => {
+    setActiveProfile(id);
+    setActiveId(id);
+    setMessage(null);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const profileFile = e.target.files?.[0];
+    e.target.value = '';
+    if (!profileFile) return;
+    try {
+      const imported = importPolicyProfiles(await profileFile.text());
+      setProfiles(getProfiles());
+      setMessage({ ok: true, text: t('policy.imported', { profiles: listOf(imported.map(p => p.name)), file: profileFile.name }) });
+    } catch (err: any) {
+      setMessage({ ok: false, text: err.message || t('policy.unreadable') });
+    }
+  };
+
+  const handleDelete = (id: string) => {
+    deleteCustomProfile(id);
+    setProfiles(getProfiles());
+    setActiveId(getActiveProfileId());
+    setMessage({ ok: true, text: t('policy.removed') });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-3">
+        <div className="p-2 bg-indigo-50 rounded-xl"><Scale className="text-indigo-600" size={20} /></div>
+        <h3 className="text-lg font-black text-slate-900">{t('policy.title')}</h3>
+      </div>
+      <p className="text-sm text-slate-500 font-medium leading-relaxed">
+        {t('policy.intro')}
+      </p>
+      <div className="space-y-2">
+        {profiles.map(profile => {
+          const custom = !BUILT_IN_PROFILES.some(b => b.id === profile.id);
+          return (
+            <div key={profile.id} className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => select(profile.id)}
+                className={`flex-grow text-left px-4 py-3 rounded-2xl border-2 transition-all ${profile.id === active.id ? 'border-indigo-600 bg-indigo-50/50' : 'border-slate-100 bg-slate-50 hover:border-indigo-200'}`}
+              >
+                <span className="block text-sm font-bold text-slate-900">{custom ? t('policy.imported.name', { name: profile.name }) : profile.name}</span>
+                {profile.description && <span className="block text-xs text-slate-500 font-medium">{profile.description}</span>}
+              </button>
+              {custom && (
+                <button
+                  type="button"
+                  onClick={() => handleDelete(profile.id)}
+                  className="px-4 bg-slate-50 hover:bg-red-50 hover:text-red-600 rounded-2xl border border-slate-100 transition-all"
+                  title={t('policy.remove', { name: profile.name })}
+                >
+                  <Trash2 size={16} />
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      <div className="flex gap-3">
+        <label className="flex-grow flex items-center justify-center gap-2 py-3 bg-slate-50 hover:bg-indigo-50 hover:text-indigo-600 rounded-2xl font-bold text-sm border border-slate-100 cursor-pointer transition-all">
+          <Upload size={16} />
+          {t('policy.import')}
+          <input type="file" accept=".json" onChange={handleImport} className="hidden" />
+        </label>
+        <button
+          type="button"
+          onClick={() => downloadText(`${active.id}.policy.json`, profileToJson(active), 'application/json')}
+          className="flex-grow flex items-center justify-center gap-2 py-3 bg-slate-50 hover:bg-indigo-50 hover:text-indigo-600 rounded-2xl font-bold text-sm border border-slate-100 transition-all"
+        >
+          <Download size={16} />
+          {t('policy.export', { name: active.name })}
+        </button>
+      </div>
+      {message && (
+        <p className={`text-xs font-bold ${message.ok ? 'text-emerald-600' : 'text-red-600'}`}>{message.text}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { Download, Printer } from 'lucide-react';
+import { AnalysisResult, ChatMessage } from '../types';
+import { buildReport, reportToHtml, reportToJson, reportToSarif, ReportSource } from '../services/report';
+import { downloadText } from '../utils/fileUtils';
+import { Locale, translator } from '../services/i18n';
+
+interface ReportExportProps {
+  source: ReportSource;
+  result: AnalysisResult;
+  messages: ChatMessage[];
+  locale: Locale;
+}
+
+type ExportFormat = 'json' | 'html' | 'sarif' | 'print';
+
+const baseName = (name: string) => name.replace(/\.[^.]+$/, '') || name;
+
+/**
+ * Download buttons for the JSON, HTML and SARIF reports, plus print-to-PDF.
+ */
+export default function ReportExport({ source, result, messages, locale }: ReportExportProps) {
+  const t = translator(locale);
+  const [busy, setBusy] = useState<ExportFormat | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async (format: ExportFormat) => {
+    // Open the print window before any await so popup blockers still see a user click.
+    const printWindow = format === 'print' ? window.open('', '_blank') : null;
+    setBusy(format);
+    setError(null);
+    try {
+      const report = await buildReport(source, result, messages);
+      const name = baseName(source.name);
+      if (format === 'json') downloadText(`${name}.omnianalyze.json`, reportToJson(report), 'application/json');
+      if (format === 'sarif') downloadText(`${name}.sarif`, reportToSarif(report), 'application/sarif+json');
+      if (format === 'html') downloadText(`${name}.report.html`, reportToHtml(report), 'text/html');
+      if (printWindow) {
+        printWindow.document.write(reportToHtml(report));
+        printWindow.document.close();
+        printWindow.focus();
+        printWindow.print();
+      }
+    } catch (err: any) {
+      console.error(err);
+      printWindow?.close();
+      setError(err?.message || t('report.failed'));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const buttonClass = "flex items-center gap-2 px-4 py-2 bg-white border border-slate-200 rounded-xl font-black text-xs uppercase tracking-widest text-slate-600 hover:border-indigo-400 hover:text-indigo-600 transition-all disabled:opacity-40";
+
+  return (
+    <div className="flex flex-wrap items-center gap-3">
+      <span className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-400 mr-1">{t('report.export')}</span>
+      {(['json', 'html', 'sarif'] as const).map(format => (
+        <button key={format} type="button" onClick={() => handleExport(format)} disabled={busy !== null} className={buttonClass}>
+          <Download size={14} /> {format.toUpperCase()}
+        </button>
+      ))}
+      <button type="button" onClick={() => handleExport('print')} disabled={busy !== null} className={buttonClass}>
+        <Printer size={14} /> {t('report.print')}
+      </button>
+      {error && <span className="text-xs font-bold text-red-600">{error}</span>}
+    </div>
+  );
+}
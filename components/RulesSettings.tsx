@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { FileCode2, Trash2, Upload } from 'lucide-react';
+import { clearCustomRuleset, getBundledRules, getCustomRulesetError, getCustomRulesetSource, parseRuleset, saveCustomRuleset } from '../services/rules';
+import { Locale, translator } from '../services/i18n';
+
+const countCustomRules = (): number => {
+  const source = getCustomRulesetSource();
+  if (!source) return 0;
+  try {
+    return parseRuleset(source).length;
+  } catch {
+    return 0;
+  }
+};
+
+/**
+ * Settings section for importing custom detection rules (JSON or YARA-style text).
+ * Rules are validated before saving and apply to the next scan.
+ */
+export default function RulesSettings({ locale }: { locale: Locale }) {
+  const t = translator(locale);
+  const [customCount, setCustomCount] = useState(countCustomRules);
+  const [hasSaved, setHasSaved] = useState(() => !!getCustomRulesetSource());
+  // A saved ruleset that stopped parsing is skipped during scans; say so here rather than failing silently.
+  const [message, setMessage] = useState<{ ok: boolean; text: string } | null>(() => {
+    const error = getCustomRulesetError();
+    return error ? { ok: false, text: t('rules.invalidSaved', { error }) } : null;
+  });
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const ruleFile = e.target.files?.[0];
+    e.target.value = '';
+    if (!ruleFile) return;
+    try {
+      const rules = saveCustomRuleset(await ruleFile.text());
+      setCustomCount(rules.length);
+      setHasSaved(true);
+      setMessage({ ok: true, text: t('rules.imported', { count: rules.length, file: ruleFile.name }) });
+    } catch (err: any) {
+      setMessage({ ok: false, text: err.message || t('rules.unreadable') });
+    }
+  };
+
+  const handleClear = () => {
+    clearCustomRuleset();
+    setCustomCount(0);
+    setHasSaved(false);
+    setMessage({ ok: true, text: t('rules.removed') });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-3">
+        <div className="p-2 bg-indigo-50 rounded-xl"><FileCode2 className="text-indigo-600" size={20} /></div>
+        <h3 className="text-lg font-black text-slate-900">{t('rules.title')}</h3>
+      </div>
+      <p className="text-sm text-slate-500 font-medium leading-relaxed">
+        {t(customCount > 0 ? 'rules.summaryCustom' : 'rules.summary', { count: getBundledRules().length, custom: customCount })}
+      </p>
+      <div className="flex gap-3">
+        <label className="flex-grow flex items-center justify-center gap-2 py-3 bg-slate-50 hover:bg-indigo-50 hover:text-indigo-600 rounded-2xl font-bold text-sm border border-slate-100 cursor-pointer transition-all">
+          <Upload size={16} />
+          {t('rules.import')}
+          <input type="file" accept=".json,.yar,.yara,.txt" onChange={handleImport} className="hidden" />
+        </label>
+        {hasSaved && (
+          <button
+            type="button"
+            onClick={handleClear}
+            className="px-4 py-3 bg-slate-50 hover:bg-red-50 hover:text-red-600 rounded-2xl font-bold text-sm border border-slate-100 transition-all"
+            title={t('rules.remove')}
+          >
+            <Trash2 size={16} />
+          </button>
+        )}
+      </div>
+      {message && (
+        <p className={`text-xs font-bold ${message.ok ? 'text-emerald-600' : 'text-red-600'}`}>{message.text}</p>
+      )}
+    </div>
+  );
+}
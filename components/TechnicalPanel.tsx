@@ -0,0 +1,235 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Activity, Binary, Check, Copy, Crosshair, FileCode, Type } from 'lucide-react';
+import { AnalysisResult, Ioc, IocKind } from '../types';
+import { DEFAULT_MIN_STRING_LENGTH, ExtractedString, extractStrings, iocSpans, StringEncoding } from '../services/strings';
+import { EntropyPoint, entropyProfile } from '../utils/binaryUtils';
+import { Locale, translator } from '../services/i18n';
+import HexViewer, { HexRange } from './HexViewer';
+
+/** The strings view reads this much of the file; the hex viewer covers the rest. */
+const MAX_STRINGS_SCAN_BYTES = 8 * 1024 * 1024;
+const MAX_STRINGS_SHOWN = 500;
+
+const IOC_STYLE: Record<IocKind, string> = {
+  url: 'bg-red-100 text-red-800',
+  ip: 'bg-orange-100 text-orange-800',
+  domain: 'bg-amber-100 text-amber-800',
+  email: 'bg-sky-100 text-sky-800',
+  registry: 'bg-violet-100 text-violet-800',
+  bitcoin: 'bg-emerald-100 text-emerald-800'
+};
+
+const entropyColor = (entropy: number) => {
+  if (entropy > 7.2) return '#ef4444';
+  if (entropy > 6.5) return '#fbbf24';
+  return '#34d399';
+};
+
+const hexOffset = (offset: number) => `0x${offset.toString(16).toUpperCase()}`;
+
+const parseOffset = (text: string): number | null => {
+  const value = text.trim().toLowerCase();
+  const n = value.startsWith('0x') ? parseInt(value.slice(2), 16) : parseInt(value, 10);
+  return Number.isFinite(n) && n >= 0 ? n : null;
+};
+
+const Section = ({ icon, title, children }: { icon: React.ReactNode; title: string; children: React.ReactNode }) => (
+  <div className="bg-white rounded-[2.5rem] p-10 border border-slate-100 shadow-xl">
+    <h3 className="text-xl font-black text-slate-900 mb-6 flex items-center gap-3">
+      <div className="p-2.5 bg-indigo-50 rounded-2xl">{icon}</div>
+      {title}
+    </h3>
+    {children}
+  </div>
+);
+
+const Highlighted = ({ text, locale }: { text: string; locale: Locale }) => {
+  const spans = iocSpans(text);
+  if (spans.length === 0) return <>{text}</>;
+  const parts: React.ReactNode[] = [];
+  let at = 0;
+  spans.forEach((span, i) => {
+    if (span.start > at) parts.push(text.slice(at, span.start));
+    parts.push(<mark key={i} className={`rounded px-0.5 ${IOC_STYLE[span.kind]}`} title={translator(locale)(`technical.ioc.${span.kind}`)}>{text.slice(span.start, span.end)}</mark>);
+    at = span.end;
+  });
+  parts.push(text.slice(at));
+  return <>{parts}</>;
+};
+
+interface TechnicalPanelProps {
+  result: AnalysisResult;
+  /** Null for history entries that didn't keep their file. */
+  file: Blob | null;
+  locale: Locale;
+}
+
+/**
+ * The analyst's view of a file: raw technical details, an entropy graph,
+ * extracted IOCs, a filterable strings list and a hex dump. Clicking an
+ * offset anywhere jumps the hex viewer to it.
+ */
+export default function TechnicalPanel({ result, file, locale }: TechnicalPanelProps) {
+  const t = translator(locale);
+  const [entropy, setEntropy] = useState<EntropyPoint[]>([]);
+  const [strings, setStrings] = useState<ExtractedString[]>([]);
+  const [minLength, setMinLength] = useState(6);
+  const [encoding, setEncoding] = useState<StringEncoding | ''>('');
+  const [search, setSearch] = useState('');
+  const [jump, setJump] = useState<HexRange | null>(null);
+  const [gotoText, setGotoText] = useState('');
+  const [copied, setCopied] = useState<string | null>(null);
+
+  useEffect(() => {
+    setEntropy([]);
+    setStrings([]);
+    if (!file) return;
+    let stale = false;
+    entropyProfile(file).then(points => { if (!stale) setEntropy(points); });
+    file.slice(0, MAX_STRINGS_SCAN_BYTES).arrayBuffer().then(buffer => {
+      if (!stale) setStrings(extractStrings(new Uint8Array(buffer), DEFAULT_MIN_STRING_LENGTH));
+    });
+    return () => { stale = true; };
+  }, [file]);
+
+  const shownStrings = useMemo(() => {
+    const needle = search.trim().toLowerCase();
+    return strings.filter(s => s.value.length >= minLength
+      && (!encoding || s.encoding === encoding)
+      && (!needle || s.value.toLowerCase().includes(needle)));
+  }, [strings, minLength, encoding, search]);
+
+  const iocGroups: [IocKind, Ioc[]][] = useMemo(() => {
+    const groups = new Map<IocKind, Ioc[]>();
+    for (const ioc of result.iocs ?? []) groups.set(ioc.kind, [...(groups.get(ioc.kind) ?? []), ioc]);
+    return [...groups.entries()];
+  }, [result.iocs]);
+
+  const copy = async (key: string, text: string) => {
+    await navigator.clipboard.writeText(text);
+    setCopied(key);
+    setTimeout(() => setCopied(current => (current === key ? null : current)), 1500);
+  };
+
+  const jumpTo = (offset: number, length = 1) => setJump({ offset, length });
+
+  const handleGoto = (e: React.FormEvent) => {
+    e.preventDefault();
+    const offset = parseOffset(gotoText);
+    if (offset !== null && file && offset < file.size) jumpTo(offset);
+  };
+
+  const inputClass = "px-3 py-2 bg-slate-50 border-2 border-transparent rounded-xl focus:border-indigo-600 focus:bg-white outline-none transition-all text-sm text-slate-900";
+  const offsetButton = (offset: number, length?: number) => (
+    <button onClick={() => jumpTo(offset, length)} disabled={!file} className="font-mono text-xs text-slate-400 hover:text-indigo-600 disabled:hover:text-slate-400 shrink-0">
+      {hexOffset(offset)}
+    </button>
+  );
+
+  return (
+    <div className="space-y-8">
+      <Section icon={<FileCode className="text-indigo-600" size={24} />} title={t('technical.details')}>
+        <pre className="font-mono text-xs text-slate-600 bg-slate-50 border border-slate-100 rounded-2xl p-6 whitespace-pre-wrap break-all">{result.technicalDetails || t('technical.noDetails')}</pre>
+      </Section>
+
+      <Section icon={<Crosshair className="text-indigo-600" size={24} />} title={t('technical.iocs')}>
+        {iocGroups.length === 0 ? (
+          <p className="text-sm text-slate-400 font-medium">{t('technical.noIocs')}</p>
+        ) : (
+          <div className="space-y-6">
+            <button
+              onClick={() => copy('all', (result.iocs ?? []).map(i => `${i.kind}\t${i.value}`).join('\n'))}
+              className="flex items-center gap-2 px-4 py-2 bg-slate-50 hover:bg-indigo-50 hover:text-indigo-600 rounded-xl text-xs font-black uppercase tracking-widest border border-slate-100 transition-all"
+            >
+              {copied === 'all' ? <Check size={14} /> : <Copy size={14} />} {t('technical.copyAll', { count: result.iocs!.length })}
+            </button>
+            {iocGroups.map(([kind, iocs]) => (
+              <div key={kind}>
+                <h4 className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-400 mb-2">{t(`technical.ioc.${kind}`)} ({iocs.length})</h4>
+                <ul className="space-y-1">
+                  {iocs.map(ioc => {
+                    const key = `${ioc.kind}:${ioc.value}`;
+                    return (
+                      <li key={key} className="flex items-center gap-3 group">
+                        {offsetButton(ioc.offset)}
+                        <code className={`font-mono text-xs rounded px-1.5 py-0.5 break-all ${IOC_STYLE[kind]}`}>{ioc.value}</code>
+                        <button onClick={() => copy(key, ioc.value)} className="p-1 text-slate-300 hover:text-indigo-600 opacity-0 group-hover:opacity-100 transition-all" title={t('technical.copy')}>
+                          {copied === key ? <Check size={14} /> : <Copy size={14} />}
+                        </button>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
+            ))}
+          </div>
+        )}
+      </Section>
+
+      {!file ? (
+        <p className="text-center text-sm text-slate-400 font-medium">{t('technical.noFile')}</p>
+      ) : (
+        <>
+          <Section icon={<Activity className="text-indigo-600" size={24} />} title={t('technical.entropy')}>
+            <svg viewBox={`0 0 ${Math.max(entropy.length, 1)} 8`} preserveAspectRatio="none" className="w-full h-32 bg-slate-50 rounded-2xl">
+              {entropy.map((point, i) => (
+                <rect
+                  key={i}
+                  x={i}
+                  y={8 - point.entropy}
+                  width={0.9}
+                  height={point.entropy}
+                  fill={entropyColor(point.entropy)}
+                  className="cursor-pointer"
+                  onClick={() => jumpTo(point.offset)}
+                >
+                  <title>{t('technical.entropy.point', { offset: hexOffset(point.offset), bits: point.entropy.toFixed(2) })}</title>
+                </rect>
+              ))}
+            </svg>
+            <p className="text-xs text-slate-400 font-medium mt-3">
+              {t('technical.entropy.hint')}
+            </p>
+          </Section>
+
+          <Section icon={<Type className="text-indigo-600" size={24} />} title={t('technical.strings')}>
+            <div className="flex flex-wrap gap-2 mb-4">
+              <input type="search" value={search} onChange={(e) => setSearch(e.target.value)} placeholder={t('technical.strings.filter')} className={`${inputClass} flex-grow`} />
+              <label className="flex items-center gap-2 text-xs font-black uppercase tracking-widest text-slate-400">
+                {t('technical.strings.minLength')}
+                <input type="number" min={DEFAULT_MIN_STRING_LENGTH} value={minLength} onChange={(e) => setMinLength(Math.max(DEFAULT_MIN_STRING_LENGTH, +e.target.value || DEFAULT_MIN_STRING_LENGTH))} className={`${inputClass} w-20`} />
+              </label>
+              <select value={encoding} onChange={(e) => setEncoding(e.target.value as StringEncoding | '')} className={inputClass}>
+                <option value="">ASCII + UTF-16</option>
+                <option value="ascii">ASCII</option>
+                <option value="utf16le">UTF-16LE</option>
+              </select>
+            </div>
+            <p className="text-xs text-slate-400 font-medium mb-3">
+              {t('technical.strings.count', { count: shownStrings.length, shown: shownStrings.length.toLocaleString(locale) })}
+              {shownStrings.length > MAX_STRINGS_SHOWN ? t('technical.strings.showing', { limit: MAX_STRINGS_SHOWN }) : ''}
+              {file.size > MAX_STRINGS_SCAN_BYTES ? t('technical.strings.scanned', { size: MAX_STRINGS_SCAN_BYTES / 1024 / 1024 }) : ''}.
+            </p>
+            <ul className="max-h-96 overflow-y-auto bg-slate-50 rounded-2xl border border-slate-100 p-4 space-y-1">
+              {shownStrings.slice(0, MAX_STRINGS_SHOWN).map(s => (
+                <li key={`${s.encoding}-${s.offset}`} className="flex items-start gap-3">
+                  {offsetButton(s.offset, s.encoding === 'utf16le' ? s.value.length * 2 : s.value.length)}
+                  {s.encoding === 'utf16le' && <span className="text-[9px] font-black uppercase tracking-widest text-slate-400 pt-0.5 shrink-0">U16</span>}
+                  <span className="font-mono text-xs text-slate-700 break-all"><Highlighted text={s.value} locale={locale} /></span>
+                </li>
+              ))}
+            </ul>
+          </Section>
+
+          <Section icon={<Binary className="text-indigo-600" size={24} />} title={t('technical.hex')}>
+            <form onSubmit={handleGoto} className="flex gap-2 mb-4">
+              <input value={gotoText} onChange={(e) => setGotoText(e.target.value)} placeholder={t('technical.hex.goto')} className={`${inputClass} flex-grow font-mono`} />
+              <button type="submit" className="px-4 py-2 bg-slate-900 text-white rounded-xl text-sm font-bold">{t('technical.hex.go')}</button>
+            </form>
+            <HexViewer file={file} highlight={jump} />
+          </Section>
+        </>
+      )}
+    </div>
+  );
+}
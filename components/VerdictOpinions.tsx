@@ -0,0 +1,62 @@
+import React from 'react';
+import { Bot, Scale, ShieldCheck, Wrench } from 'lucide-react';
+import { Verdict, VerdictBlend, VerdictOpinion } from '../types';
+import { keyedText, Locale, localizeMessages, translator } from '../services/i18n';
+
+const VERDICT_BADGE: Record<string, string> = {
+  SAFE: 'bg-emerald-50 text-emerald-700 border-emerald-200',
+  CAUTION: 'bg-amber-50 text-amber-700 border-amber-200',
+  DANGER: 'bg-red-50 text-red-700 border-red-200'
+};
+
+interface VerdictOpinionsProps {
+  blend: VerdictBlend;
+  verdict: Verdict;
+  locale: Locale;
+}
+
+const Opinion = ({ label, icon, opinion, chosen, locale }: { label: string; icon: React.ReactNode; opinion: VerdictOpinion; chosen: boolean; locale: Locale }) => {
+  const text = opinion.messages
+    ? localizeMessages(opinion.messages, locale)
+    : { humanVerdict: opinion.humanVerdict, simpleExplanation: opinion.explanation };
+  return (
+    <div className={`rounded-[2rem] p-6 border ${chosen ? 'border-indigo-200 bg-indigo-50/40' : 'border-slate-100 bg-slate-50/50'}`}>
+      <div className="flex items-center justify-between gap-3 mb-3">
+        <span className="flex items-center gap-2 text-[10px] font-black uppercase tracking-[0.2em] text-slate-400">{icon} {label}</span>
+        <span className={`text-[10px] font-black uppercase tracking-[0.2em] px-2 py-0.5 rounded-full border ${VERDICT_BADGE[opinion.verdict]}`}>{translator(locale)(`verdict.${opinion.verdict}`)}</span>
+      </div>
+      <p className="font-bold text-slate-900 mb-1">{text.humanVerdict}</p>
+      <p className="text-sm text-slate-500 font-medium leading-relaxed">{text.simpleExplanation}</p>
+    </div>
+  );
+};
+
+/**
+ * Side-by-side local and AI opinions for a Pro scan, with the reason the
+ * final verdict went the way it did and any repairs made to the AI reply.
+ */
+export default function VerdictOpinions({ blend, verdict, locale }: VerdictOpinionsProps) {
+  const t = translator(locale);
+  return (
+    <div className="bg-white rounded-[2.5rem] p-10 border border-slate-100 shadow-xl">
+      <h3 className="text-xl font-black text-slate-900 mb-6 flex items-center gap-3">
+        <div className="p-2.5 bg-indigo-50 rounded-2xl"><Scale className="text-indigo-600" size={24} /></div>
+        {t('opinions.title')}
+      </h3>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+        <Opinion label={t('opinions.local')} icon={<ShieldCheck size={14} />} opinion={blend.local} chosen={blend.local.verdict === verdict} locale={locale} />
+        <Opinion label={t('opinions.ai')} icon={<Bot size={14} />} opinion={blend.ai} chosen={blend.ai.verdict === verdict} locale={locale} />
+      </div>
+      <p className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-400 mb-2">{t('opinions.reason')}</p>
+      <p className="text-slate-600 font-medium leading-relaxed">{keyedText(blend.reason, blend.messages?.reason, locale)}</p>
+      {blend.aiRepairs.length > 0 && (
+        <div className="mt-6 pt-6 border-t border-slate-100">
+          <p className="flex items-center gap-2 text-[10px] font-black uppercase tracking-[0.2em] text-slate-400 mb-2"><Wrench size={12} /> {t('opinions.repaired')}</p>
+          <ul className="text-sm text-slate-500 font-medium list-disc pl-5 space-y-1">
+            {blend.aiRepairs.map((note, i) => <li key={i}>{note}</li>)}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,21 @@
+/**
+ * The local analyzer as a library, for Node (18+) and other non-React
+ * callers such as CI jobs and mail gateways. Nothing here touches the DOM,
+ * localStorage or the network; custom rules and policy profiles are passed
+ * in as options.
+ *
+ *   import { analyzeBytes } from 'omnianalyzer-ai';
+ *   const result = await analyzeBytes(await readFile(path), 'invoice.pdf');
+ */
+export type * from '../types';
+export { analyzeBytes, getExtension, VERDICT_RANK, verdictFromFindings } from '../services/analyzer';
+export type { LocalAnalysisOptions } from '../services/analyzer';
+export { getBundledRules, parseRuleset } from '../services/rules';
+export type { DetectionRule } from '../services/rules';
+export { BUILT_IN_PROFILES, parsePolicyProfiles, profileToJson } from '../services/policy';
+export type { PolicyProfile, PolicyRule } from '../services/policy';
+export { findUrls, inspectUrl } from '../services/urlAnalysis';
+export type { UrlInspection, UrlProblem, UrlProblemKind } from '../services/urlAnalysis';
+export { topFinding } from '../services/batch';
+export { buildReport, reportToJson, reportToSarif, reportToHtml } from '../services/report';
+export type { AnalysisReport, ReportSource } from '../services/report';
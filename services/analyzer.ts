@@ -1,46 +1,451 @@
-import { AnalysisResult } from '../types';
+import { AnalysisResult, AnalysisStage, EmailSummary, ExecutableInfo, Finding, ImageMetadata, LocalizedText, ResultMessages, Verdict } from '../types';
+import { detectSignature, extensionMatchesSignature, SIGNATURE_HEADER_SIZE, SignatureMatch } from './signatures';
+import { DetectionRule, evaluateRules, getActiveRules, MAX_RULE_SCAN_BYTES, ruleMatchToFinding } from './rules';
+import { ArchiveBudget, ArchiveInspection, createArchiveBudget, inspectZipArchive, readZipDirectory } from './archive';
+import { executableFindings, MAX_EXECUTABLE_BYTES, parseExecutable, unparsedExecutableFinding } from './executable';
+import { analyzeWebContent, MAX_WEB_TEXT_BYTES, webContentKind } from './webContent';
+import { analyzeOle2, analyzeOoxml, analyzePdf } from './documents';
+import { imageFindings, MAX_IMAGE_BYTES, readImageMetadata } from './imageMetadata';
+import { EmailInspection, inspectEmail, MAX_EMAIL_BYTES, parseEml, parseMsg } from './email';
+import { applyPolicy, PolicyProfile } from './policy';
+import { findUrls, inspectUrl, urlFindings } from './urlAnalysis';
+import { hashFile } from './hashing';
+import { lookupHashes } from './hashList';
+import { extractStrings, findIocs } from './strings';
+import { findingMessages, literal, localizeMessages, msg } from './i18n';
 
-export const analyzeFileHardcoded = async (file: File): Promise<AnalysisResult> => {
-  const ext = file.name.split('.').pop()?.toLowerCase();
+export interface LocalAnalysisOptions {
+  rules?: DetectionRule[];
+  /** Archive nesting level; 0 for the file the user picked. */
+  depth?: number;
+  /** Shared by every file analyzed within one top-level scan. */
+  archiveBudget?: ArchiveBudget;
+  /** Called as each stage of the top-level scan starts. */
+  onProgress?: (stage: AnalysisStage) => void;
+  /** Aborts the scan at the next stage boundary, including inside archives. */
+  signal?: AbortSignal;
+  /** Tunes verdicts for an organization; also applies inside archives. */
+  policy?: PolicyProfile;
+}
+
+/** Zip-based formats that are documents rather than archives to be browsed. */
+const DOCUMENT_CONTAINER_EXTENSIONS = ['docx', 'xlsx', 'pptx', 'docm', 'xlsm', 'pptm', 'odt', 'ods', 'odp', 'epub'];
+
+export const VERDICT_RANK: Record<Verdict, number> = { SAFE: 0, CAUTION: 1, DANGER: 2 };
+
+/**
+ * Raises a baseline verdict to the most severe finding. Findings never lower it.
+ */
+export const verdictFromFindings = (base: Verdict, findings: Finding[]): Verdict => {
+  return findings.reduce<Verdict>((worst, f) => {
+    if (f.severity === 'INFO') return worst;
+    return VERDICT_RANK[f.severity] > VERDICT_RANK[worst] ? f.severity : worst;
+  }, base);
+};
+
+export const getExtension = (name: string): string => {
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? name.slice(dot + 1).toLowerCase() : '';
+};
+
+const readHead = async (file: Blob, length: number): Promise<Uint8Array> => {
+  return new Uint8Array(await file.slice(0, length).arrayBuffer());
+};
+
+const mismatchFinding = (ext: string, signature: SignatureMatch): Finding => ({
+  id: 'signature-mismatch',
+  severity: signature.category === 'executable' ? 'DANGER' : 'CAUTION',
+  ...findingMessages(
+    msg(signature.category === 'executable' ? 'finding.signature-mismatch.executable' : 'finding.signature-mismatch.title'),
+    msg('finding.signature-mismatch.description', {
+      declared: ext ? `.${ext}` : msg('finding.signature-mismatch.noExtension'),
+      type: signature.label,
+      evidence: signature.evidence
+    })
+  ),
+  source: 'signature'
+});
+
+/** A parser's error message, for findings about files it could not read. */
+const failure = (err: any): LocalizedText => (err?.message ? literal(err.message) : msg('finding.unknownError'));
+
+/**
+ * Analyzes a file from its contents and the name it arrived under. A Blob
+ * is read in slices as each check needs it, so large files are never held
+ * in memory whole; bytes are wrapped in one. Runs anywhere with Blob and
+ * DecompressionStream: the page, a worker, or Node 18+.
+ */
+export const analyzeBytes = async (content: Uint8Array | Blob, fileName: string, options: LocalAnalysisOptions = {}): Promise<AnalysisResult> => {
+  const file = content instanceof Blob ? content : new Blob([content]);
+  const rules = options.rules ?? getActiveRules();
+  const depth = options.depth ?? 0;
+  const archiveBudget = options.archiveBudget ?? createArchiveBudget();
+  const { signal, policy } = options;
+  const stage = (next: AnalysisStage) => {
+    signal?.throwIfAborted();
+    if (depth === 0) options.onProgress?.(next);
+  };
+  const ext = getExtension(fileName);
   const size = file.size;
-  
+  stage('reading');
+  const bytes = await readHead(file, Math.max(SIGNATURE_HEADER_SIZE, MAX_RULE_SCAN_BYTES));
+  const signature = detectSignature(bytes.subarray(0, SIGNATURE_HEADER_SIZE));
+  const contentMatches = !signature || !ext || extensionMatchesSignature(ext, signature);
+  stage('rules');
+  const ruleMatches = evaluateRules(rules, bytes, size);
+  stage('hashing');
+  const hashes = await hashFile(file);
+  let lookupError: LocalizedText | null = null;
+  const listed = await lookupHashes(hashes).catch(err => {
+    lookupError = failure(err);
+    return null;
+  });
+  stage('parsing');
+  // Archive entries are summarized by their own verdicts; only the top-level file lists its indicators.
+  const iocs = depth === 0 ? findIocs(extractStrings(bytes)) : undefined;
+  const findings: Finding[] = [
+    ...(contentMatches ? [] : [mismatchFinding(ext, signature!)]),
+    ...ruleMatches.map(ruleMatchToFinding)
+  ];
+  if (lookupError) {
+    findings.push({
+      id: 'hash-lookup-failed',
+      severity: 'INFO',
+      ...findingMessages(msg('finding.hash-lookup-failed.title'), msg('finding.hash-lookup-failed.description', { error: lookupError })),
+      source: 'hashlist'
+    });
+  }
+
+  let executable: ExecutableInfo | null = null;
+  if (signature?.id === 'pe' || signature?.id === 'elf') {
+    const image = size > bytes.length ? await readHead(file, MAX_EXECUTABLE_BYTES) : bytes;
+    executable = parseExecutable(image);
+    findings.push(...(executable ? executableFindings(executable) : [unparsedExecutableFinding()]));
+  }
+
+  let image: ImageMetadata | null = null;
+  if (signature?.category === 'image') {
+    const imageBytes = size > bytes.length ? await readHead(file, MAX_IMAGE_BYTES) : bytes;
+    image = readImageMetadata(imageBytes);
+    // A ZIP's directory sits at the end of the file, so an image with a ZIP appended opens as both.
+    const zipEntries = await readZipDirectory(file).then(entries => entries.map(e => e.path), () => null);
+    findings.push(...imageFindings(imageBytes, image, { complete: size <= imageBytes.length, zipEntries }));
+  }
+
+  const webKind = webContentKind(ext, signature?.id);
+  if (webKind && signature?.category !== 'executable') {
+    const text = new TextDecoder('utf-8').decode(bytes.subarray(0, MAX_WEB_TEXT_BYTES));
+    findings.push(...analyzeWebContent(text, webKind));
+  }
+
+  let email: EmailInspection | null = null;
+  const emailFormat: EmailSummary['format'] | null = ext === 'eml' && (!signature || signature.category === 'text') ? 'eml'
+    : ext === 'msg' && signature?.id === 'ole2' ? 'msg'
+    : null;
+  if (emailFormat) {
+    const message = size > bytes.length ? await readHead(file, MAX_EMAIL_BYTES) : bytes;
+    try {
+      email = await inspectEmail(emailFormat === 'eml' ? parseEml(message) : parseMsg(message), emailFormat, depth, archiveBudget,
+        (entry, name, entryDepth) => analyzeBytes(entry, name, { rules, depth: entryDepth, archiveBudget, signal, policy }));
+      findings.push(...email.findings);
+      if (size > message.length) email.complete = false;
+    } catch (err: any) {
+      findings.push({
+        id: 'email-unreadable',
+        severity: 'CAUTION',
+        ...findingMessages(msg('finding.email-unreadable.title'), msg('finding.email-unreadable.description', { error: failure(err) })),
+        source: 'email'
+      });
+    }
+    // Attachment errors are recorded rather than thrown, so an abort mid-message surfaces here.
+    signal?.throwIfAborted();
+  }
+
+  // Read as text too: the ASCII strings scan splits Unicode lookalike domains apart.
+  const textContent = !signature || signature.category === 'text' || signature.category === 'web'
+    ? new TextDecoder('utf-8').decode(bytes.subarray(0, MAX_WEB_TEXT_BYTES))
+    : null;
+  // An email's links are taken from its decoded bodies; in the raw source they are split and encoded.
+  const urls = depth > 0 ? []
+    : email ? email.urls
+    : Array.from(new Set([...(textContent ? findUrls(textContent) : []), ...iocs!.filter(i => i.kind === 'url').map(i => i.value)]));
+  findings.push(...urlFindings(urls));
+  // A file that is nothing but one address, such as a pasted link, is reported as that link.
+  const link = !email && textContent !== null && urls.length === 1 && textContent.trim() === urls[0] ? inspectUrl(urls[0]) : null;
+
+  let documentKind: 'PDF' | 'Office' | null = null;
+  const documentStart = findings.length;
+  try {
+    if (signature?.id === 'pdf') {
+      documentKind = 'PDF';
+      findings.push(...await analyzePdf(bytes));
+    } else if (signature?.id === 'zip' && DOCUMENT_CONTAINER_EXTENSIONS.includes(ext)) {
+      documentKind = 'Office';
+      findings.push(...await analyzeOoxml(file, ext));
+    } else if (signature?.id === 'ole2' && !emailFormat) {
+      documentKind = 'Office';
+      findings.push(...analyzeOle2(bytes));
+    }
+  } catch (err: any) {
+    findings.push({
+      id: 'document-unreadable',
+      severity: 'CAUTION',
+      ...findingMessages(msg('finding.document-unreadable.title'), msg('finding.document-unreadable.description', { error: failure(err) })),
+      source: 'document'
+    });
+  }
+  const activeContent = findings.slice(documentStart).filter(f => f.severity !== 'INFO');
+
+  let archive: ArchiveInspection | null = null;
+  if (signature?.id === 'zip' && !DOCUMENT_CONTAINER_EXTENSIONS.includes(ext)) {
+    try {
+      archive = await inspectZipArchive(file, depth, archiveBudget, (entry, name, entryDepth) =>
+        analyzeBytes(entry, name, { rules, depth: entryDepth, archiveBudget, signal, policy }));
+      findings.push(...archive.findings);
+    } catch (err: any) {
+      findings.push({
+        id: 'archive-unreadable',
+        severity: 'CAUTION',
+        ...findingMessages(msg('finding.archive-unreadable.title'), msg('finding.archive-unreadable.description', { error: failure(err) })),
+        source: 'archive'
+      });
+    }
+    // Entry errors are recorded rather than thrown, so an abort mid-archive surfaces here.
+    signal?.throwIfAborted();
+  }
+
+  const isExecutable = ['exe', 'msi', 'bat', 'sh', 'cmd', 'vbs'].includes(ext)
+    || signature?.category === 'executable' || signature?.category === 'script';
+  const isArchive = ['zip', 'rar', '7z'].includes(ext)
+    || (signature?.category === 'archive' && !contentMatches)
+    || (signature?.id === 'zip' && !DOCUMENT_CONTAINER_EXTENSIONS.includes(ext));
+  const isWebContent = webKind !== null;
+
   // Basic heuristic analysis
-  let verdict: 'SAFE' | 'CAUTION' | 'DANGER' = 'SAFE';
-  let humanVerdict = "This file looks safe to open.";
-  let simpleExplanation = "I've checked the file format and it matches standard patterns.";
-  let solutions = ["You can open this file with any compatible viewer.", "Always keep your software updated."];
-  let technicalDetails = `Format: ${ext?.toUpperCase()}\nSize: ${(size / 1024).toFixed(2)} KB`;
-
-  // Extension based warnings
-  if (['exe', 'msi', 'bat', 'sh', 'cmd', 'vbs'].includes(ext || '')) {
+  let verdict: Verdict = 'SAFE';
+  let humanVerdict: LocalizedText = msg('analysis.default.verdict');
+  let simpleExplanation: LocalizedText[] = [msg('analysis.default.explanation')];
+  let solutions: LocalizedText[] = [msg('advice.openWithViewer'), msg('advice.keepUpdated')];
+  let technicalDetails = `Format: ${ext ? ext.toUpperCase() : 'NONE'}\nSize: ${(size / 1024).toFixed(2)} KB`;
+  technicalDetails += `\nMD5: ${hashes.md5}\nSHA-1: ${hashes.sha1}\nSHA-256: ${hashes.sha256}`;
+  if (signature) {
+    technicalDetails += `\nDetected: ${signature.label} (${signature.evidence})`;
+  }
+  if (executable) {
+    technicalDetails += `\n${executable.format} ${executable.kind}, ${executable.machine}, ${executable.bits}-bit`;
+    if (executable.compiledAt) technicalDetails += `\nCompiled: ${executable.compiledAt}`;
+    technicalDetails += `\nSections: ${executable.sections.length}, Imported libraries: ${executable.imports.length}, Exports: ${executable.exports.length}`;
+    if (executable.format === 'PE') technicalDetails += `\nAuthenticode signature: ${executable.hasSignature ? 'present' : 'absent'}`;
+  }
+  if (image) {
+    technicalDetails += `\n${image.format} image${image.width && image.height ? `, ${image.width} × ${image.height}` : ''}`;
+    const kinds = [image.exif.length > 0 && 'EXIF', image.gps && 'GPS', image.xmp.length > 0 && 'XMP', image.iptc.length > 0 && 'IPTC', image.text.length > 0 && 'text'].filter(Boolean);
+    technicalDetails += `\nMetadata: ${kinds.length > 0 ? kinds.join(', ') : 'none'}`;
+    technicalDetails += `\nStructure: ${image.blocks.map(b => (b.count > 1 ? `${b.type} ×${b.count}` : b.type)).join(', ')}`;
+    if (image.endOffset !== undefined && image.endOffset < size) technicalDetails += `\nBytes after end marker: ${size - image.endOffset}`;
+  }
+  if (ruleMatches.length > 0) {
+    technicalDetails += `\nRules matched: ${ruleMatches.map(m => m.rule).join(', ')}`;
+  }
+  if (size > bytes.length) {
+    technicalDetails += `\nRules scanned the first ${(bytes.length / 1024 / 1024).toFixed(0)} MB`;
+  }
+  if (iocs && iocs.length > 0) {
+    technicalDetails += `\nIndicators in strings: ${iocs.length}`;
+  }
+  if (urls.length > 0) {
+    technicalDetails += `\nLinks checked: ${urls.length}`;
+  }
+
+  // Content/extension based warnings
+  if (isExecutable) {
     verdict = 'DANGER';
-    humanVerdict = "High Risk: Executable File detected.";
-    simpleExplanation = "This is a program that can run code on your computer. Unless you trust the source 100%, do not open it.";
-    solutions = ["Scan this file with a dedicated Antivirus.", "Do not run as Administrator.", "Check the digital signature if possible."];
-  } else if (['zip', 'rar', '7z'].includes(ext || '')) {
+    humanVerdict = msg('analysis.executable.verdict');
+    simpleExplanation = [msg('analysis.executable.explanation')];
+    solutions = [msg('advice.antivirus'), msg('advice.notAsAdmin'), msg('advice.checkSignature')];
+  } else if (archive) {
+    const fileCount = archive.summary.entries.filter(e => e.depth === depth && !e.path.endsWith('/')).length;
+    verdict = archive.complete ? 'SAFE' : 'CAUTION';
+    humanVerdict = msg(archive.complete ? 'analysis.archive.verdict' : 'analysis.archive.incomplete.verdict');
+    simpleExplanation = [archive.complete
+      ? msg('analysis.archive.explanation', { count: fileCount })
+      : msg('analysis.archive.incomplete.explanation')];
+    solutions = [msg('advice.reviewFileList'), msg('advice.extractOnlyNeeded'), msg('advice.updateZipTool')];
+    technicalDetails += `\nArchive: ${archive.summary.entryCount} entries, ${(archive.summary.totalSize / 1024).toFixed(2)} KB uncompressed`;
+  } else if (isArchive) {
     verdict = 'CAUTION';
-    humanVerdict = "Proceed with Caution: Compressed Archive.";
-    simpleExplanation = "Archives can hide dangerous files inside them. It's safe to look, but be careful what you extract.";
-    solutions = ["Open the archive to see what's inside before extracting.", "Ensure your zip tool is up to date."];
-  } else if (['html', 'htm', 'js', 'svg'].includes(ext || '')) {
-    verdict = 'CAUTION';
-    humanVerdict = "Caution: Web Content.";
-    simpleExplanation = "This file contains code that runs in your browser. It could potentially redirect you to phishing sites.";
-    solutions = ["Open in a private/incognito window.", "Check for suspicious scripts if you are a developer."];
+    humanVerdict = msg('analysis.unopenedArchive.verdict');
+    simpleExplanation = [msg('analysis.unopenedArchive.explanation')];
+    solutions = [msg('advice.openArchiveFirst'), msg('advice.updateZipTool')];
+  } else if (email) {
+    const { summary } = email;
+    verdict = email.complete ? 'SAFE' : 'CAUTION';
+    humanVerdict = msg(email.complete ? 'analysis.email.verdict' : 'analysis.email.incomplete.verdict');
+    simpleExplanation = [msg('analysis.email.explanation', {
+      links: msg('analysis.count.link', { count: summary.links.length }),
+      attachments: msg('analysis.count.attachment', { count: summary.attachments.length })
+    })];
+    if (summary.auth.length === 0) simpleExplanation.push(msg('analysis.email.noAuth'));
+    if (!email.complete) simpleExplanation.push(msg('analysis.email.incomplete.explanation'));
+    solutions = [msg('advice.confirmSender'), msg('advice.typeLinks'), msg('advice.expectedAttachments')];
+  } else if (link) {
+    humanVerdict = msg('analysis.link.verdict');
+    simpleExplanation = [msg('analysis.link.explanation', { host: link.host })];
+    solutions = [msg('advice.typeAddress'), msg('advice.checkAddressBar')];
+    technicalDetails += `\nLink host: ${link.host}`;
+  } else if (isWebContent) {
+    humanVerdict = msg('analysis.web.verdict');
+    simpleExplanation = [msg('analysis.web.explanation')];
+    solutions = [msg('advice.privateWindow'), msg('advice.noPasswordsInAttachments')];
+    technicalDetails += `\nWeb content: scanned as ${webKind!.toUpperCase()}`;
+  } else if (image) {
+    humanVerdict = msg('analysis.image.verdict');
+    simpleExplanation = [msg('analysis.image.explanation', { format: image.format })];
+    solutions = [msg('advice.anyImageViewer'), msg('advice.keepUpdated')];
+  } else if (documentKind) {
+    humanVerdict = msg('analysis.document.verdict');
+    simpleExplanation = [msg('analysis.document.explanation', { kind: documentKind })];
+    solutions = [msg('advice.keepMacrosDisabled'), msg('advice.keepUpdated')];
+  }
+  if (email) {
+    const { summary } = email;
+    technicalDetails += `\nEmail: ${summary.format.toUpperCase()}${summary.subject ? `, "${summary.subject}"` : ''}`;
+    technicalDetails += `\nAuthentication: ${summary.auth.length > 0 ? summary.auth.map(r => `${r.method}=${r.result}`).join(', ') : 'none recorded'}`;
+    technicalDetails += `\nBody links: ${summary.links.length} (${summary.links.filter(l => l.mismatch).length} mismatched), Attachments: ${summary.attachments.length}`;
+    if (size > MAX_EMAIL_BYTES) technicalDetails += `\nParsed the first ${MAX_EMAIL_BYTES / 1024 / 1024} MB`;
+  }
+  if (documentKind) {
+    technicalDetails += `\nActive content: ${activeContent.length > 0 ? activeContent.map(f => f.title).join(', ') : 'none found'}`;
   }
 
+  // A policy profile can move the starting verdict either way; findings then raise it as usual.
+  const outcome = policy
+    ? applyPolicy(policy, { extension: ext, type: signature?.id, category: signature?.category, size }, findings)
+    : null;
+  if (outcome) {
+    outcome.findings.forEach((f, i) => { findings[i] = f; });
+    const rule = outcome.baseline;
+    if (rule && rule.verdict !== verdict) {
+      verdict = rule.verdict;
+      humanVerdict = verdict === 'SAFE'
+        ? msg('analysis.policy.allowed', { policy: policy!.name })
+        : msg(`analysis.policy.restricted.${verdict}`, { policy: policy!.name });
+      simpleExplanation = [rule.reason
+        ? literal(rule.reason)
+        : msg('analysis.policy.explanation', { policy: policy!.name, verdict: msg(`verdict.${verdict}`) })];
+    } else if (rule?.reason) {
+      simpleExplanation = [literal(rule.reason)];
+    }
+    if (rule?.solutions) solutions = rule.solutions.map(literal);
+    technicalDetails += `\nPolicy: ${policy!.name}${outcome.applied.applied.length > 0 ? ` (${outcome.applied.applied.join('; ')})` : ''}`;
+  }
+
+  if (!contentMatches) {
+    humanVerdict = isExecutable ? msg('analysis.mismatch.disguised')
+      : msg(findings[0].severity === 'DANGER' ? 'analysis.mismatch.DANGER' : 'analysis.mismatch.CAUTION');
+    simpleExplanation = [msg('analysis.mismatch.explanation', {
+      name: ext ? `.${ext}` : msg('analysis.mismatch.plain'),
+      type: signature!.label
+    })];
+    solutions = [msg('advice.noDoubleClick'), msg('advice.askSender'), ...solutions];
+  }
+
+  const baseVerdict = verdict;
+  verdict = verdictFromFindings(verdict, findings);
+  if (verdict !== baseVerdict && contentMatches) {
+    const worst = findings.find(f => f.severity === verdict)!;
+    const rule = ruleMatches.find(m => `rule:${m.rule}` === worst.id);
+    humanVerdict = msg(verdict === 'DANGER' ? 'analysis.finding.DANGER' : 'analysis.finding.CAUTION', { title: worst.messages?.title ?? literal(worst.title) });
+    simpleExplanation = [rule
+      ? rule.description ? literal(rule.description) : msg('analysis.rule.explanation')
+      : worst.messages?.description ?? literal(worst.description)];
+    solutions = worst.category === 'privacy'
+      ? [msg('advice.stripMetadata'), ...solutions]
+      : [
+        msg('advice.onlyIfTrusted'),
+        msg('advice.antivirus'),
+        ...(baseVerdict === 'SAFE' ? [] : solutions)
+      ];
+  }
+
+  if (listed) {
+    const algorithm = listed.hash === hashes.sha256 ? 'SHA-256' : listed.hash === hashes.sha1 ? 'SHA-1' : 'MD5';
+    const origin = `${listed.label ? ` as "${listed.label}"` : ''} (imported from ${listed.source})`;
+    technicalDetails += `\nHash list: ${algorithm} on the ${listed.list}list${origin}`;
+    const listing = { algorithm, label: listed.label ?? '', source: listed.source };
+    const description = (list: 'blocklist' | 'allowlist') =>
+      msg(listed.label ? `finding.hash-${list}.descriptionLabelled` : `finding.hash-${list}.description`, listing);
+    if (listed.list === 'block') {
+      findings.unshift({
+        id: 'hash-blocklist',
+        severity: 'DANGER',
+        ...findingMessages(msg('finding.hash-blocklist.title'), description('blocklist')),
+        source: 'hashlist'
+      });
+      verdict = 'DANGER';
+      humanVerdict = msg('analysis.blocklist.verdict');
+      simpleExplanation = [listed.label
+        ? msg('analysis.blocklist.explanationLabelled', { label: listed.label })
+        : msg('analysis.blocklist.explanation')];
+      solutions = [msg('advice.doNotOpen'), msg('advice.deleteIt'), msg('advice.tellSecurityTeam')];
+    } else {
+      const wouldBe = verdict;
+      findings.push({
+        id: 'hash-allowlist',
+        severity: 'INFO',
+        ...findingMessages(msg('finding.hash-allowlist.title'), description('allowlist')),
+        source: 'hashlist'
+      });
+      verdict = 'SAFE';
+      if (wouldBe !== 'SAFE') {
+        const params = { verdict: msg(`verdict.${wouldBe}`), previous: humanVerdict };
+        simpleExplanation = [listed.label
+          ? msg('analysis.allowlist.explanationLabelled', { ...params, label: listed.label })
+          : msg('analysis.allowlist.explanation', params)];
+        humanVerdict = msg('analysis.allowlist.verdict');
+        solutions = [msg('advice.findingsKept'), msg('advice.removeFromAllowlist')];
+      } else {
+        simpleExplanation.push(msg('analysis.allowlist.also'));
+      }
+    }
+  }
+
+  // Kept as keys so the app can show them in the reader's language; the plain fields stay English.
+  const messages: ResultMessages = { humanVerdict, simpleExplanation, solutions };
+  const text = localizeMessages(messages, 'en');
+
   return {
     verdict,
-    humanVerdict,
-    summary: `Basic analysis of ${file.name}`,
-    simpleExplanation,
+    humanVerdict: text.humanVerdict,
+    summary: `Basic analysis of ${fileName}`,
+    simpleExplanation: text.simpleExplanation,
     isDangerous: verdict === 'DANGER',
-    solutions,
+    solutions: text.solutions,
     technicalDetails,
-    fileType: ext || 'unknown',
+    fileType: signature?.label || ext || 'unknown',
     metadata: {
       suggestedApp: "Standard system viewer",
-      securityLevel: verdict === 'SAFE' ? 'Low Risk' : 'High Risk'
-    }
+      securityLevel: verdict === 'SAFE' ? 'Low Risk' : 'High Risk',
+      declaredExtension: ext || null,
+      detectedType: signature?.id || 'unknown',
+      detectedMimeType: signature?.mimeType || null,
+      signatureEvidence: signature?.evidence || null,
+      extensionMatchesContent: contentMatches,
+      isExecutable,
+      executable: executable ?? undefined,
+      image: image ?? undefined,
+      hashes
+    },
+    findings,
+    ruleMatches,
+    archive: archive?.summary,
+    email: email?.summary,
+    iocs,
+    mode: 'signature',
+    policy: outcome?.applied,
+    messages
   };
-};
\ No newline at end of file
+};
+
+export const analyzeFileHardcoded = (file: File, options: LocalAnalysisOptions = {}): Promise<AnalysisResult> =>
+  analyzeBytes(file, file.name, options);
@@ -0,0 +1,32 @@
+import { AnalysisResult, AnalysisStage } from '../types';
+import { analyzeFileHardcoded } from './analyzer';
+import { PolicyProfile } from './policy';
+import { DetectionRule } from './rules';
+
+export interface AnalyzerWorkerRequest {
+  file: File;
+  /** Passed in because workers can't read the custom ruleset from localStorage. */
+  rules: DetectionRule[];
+  /** Likewise the active policy profile. */
+  policy: PolicyProfile;
+}
+
+export type AnalyzerWorkerMessage =
+  | { type: 'progress'; stage: AnalysisStage }
+  | { type: 'result'; result: AnalysisResult }
+  | { type: 'error'; message: string };
+
+const post = (message: AnalyzerWorkerMessage) => self.postMessage(message);
+
+self.onmessage = async (e: MessageEvent<AnalyzerWorkerRequest>) => {
+  try {
+    const result = await analyzeFileHardcoded(e.data.file, {
+      rules: e.data.rules,
+      policy: e.data.policy,
+      onProgress: stage => post({ type: 'progress', stage })
+    });
+    post({ type: 'result', result });
+  } catch (err: any) {
+    post({ type: 'error', message: err?.message || "Local analysis failed" });
+  }
+};
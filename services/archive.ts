@@ -0,0 +1,297 @@
+import { AnalysisResult, ArchiveEntry, ArchiveSummary, Finding, LocalizedText } from '../types';
+import { ReadLimitExceeded, readStreamWithLimit } from '../utils/binaryUtils';
+import { findingMessages, literal, localize, msg } from './i18n';
+
+/** Archives nested deeper than this are listed but not opened. */
+export const MAX_ARCHIVE_DEPTH = 3;
+/** Entries larger than this (uncompressed) are listed but not analyzed. */
+export const MAX_ENTRY_BYTES = 32 * 1024 * 1024;
+const DEFAULT_BUDGET_BYTES = 256 * 1024 * 1024;
+const DEFAULT_BUDGET_ENTRIES = 1000;
+/** Uncompressed/compressed ratio above which an entry looks like a decompression bomb. */
+const BOMB_RATIO = 100;
+const BOMB_MIN_SIZE = 10 * 1024 * 1024;
+const BOMB_TOTAL_SIZE = 1024 * 1024 * 1024;
+/** Flagged entries beyond this are summarized in a single finding. */
+const MAX_ENTRY_FINDINGS = 10;
+
+const EXECUTABLE_EXTENSIONS = ['exe', 'scr', 'com', 'pif', 'bat', 'cmd', 'vbs', 'vbe', 'js', 'jse', 'wsf', 'wsh', 'hta', 'ps1', 'msi', 'lnk', 'jar', 'dll', 'cpl', 'sh', 'app', 'elf'];
+const DECOY_EXTENSIONS = ['pdf', 'doc', 'docx', 'xls', 'xlsx', 'ppt', 'pptx', 'txt', 'rtf', 'jpg', 'jpeg', 'png', 'gif', 'mp3', 'mp4', 'zip', 'html', 'csv'];
+
+/**
+ * Shared across one top-level scan so nested archives cannot multiply the work.
+ */
+export interface ArchiveBudget {
+  remainingBytes: number;
+  remainingEntries: number;
+}
+
+export const createArchiveBudget = (): ArchiveBudget => ({
+  remainingBytes: DEFAULT_BUDGET_BYTES,
+  remainingEntries: DEFAULT_BUDGET_ENTRIES
+});
+
+export interface ZipDirectoryEntry {
+  path: string;
+  method: number;
+  flags: number;
+  compressedSize: number;
+  size: number;
+  localHeaderOffset: number;
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const ZIP64_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_EOCD_SIGNATURE = 0x06064b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+
+const readSlice = async (blob: Blob, start: number, end: number): Promise<DataView> => {
+  return new DataView(await blob.slice(start, end).arrayBuffer());
+};
+
+const u64 = (view: DataView, offset: number) => Number(view.getBigUint64(offset, true));
+
+/**
+ * Reads the ZIP central directory from the end of the blob, without touching entry data.
+ * Supports ZIP64. Throws if no end-of-central-directory record is found.
+ */
+export const readZipDirectory = async (blob: Blob): Promise<ZipDirectoryEntry[]> => {
+  // EOCD is 22 bytes plus an optional comment of up to 64 KB.
+  const tailStart = Math.max(0, blob.size - (22 + 0xffff));
+  const tail = await readSlice(blob, tailStart, blob.size);
+  let eocd = -1;
+  for (let i = tail.byteLength - 22; i >= 0; i--) {
+    if (tail.getUint32(i, true) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error("No ZIP central directory found");
+
+  let entryCount = tail.getUint16(eocd + 10, true);
+  let directorySize = tail.getUint32(eocd + 12, true);
+  let directoryOffset = tail.getUint32(eocd + 16, true);
+
+  if (entryCount === 0xffff || directorySize === 0xffffffff || directoryOffset === 0xffffffff) {
+    const locator = eocd - 20;
+    if (locator < 0 || tail.getUint32(locator, true) !== ZIP64_LOCATOR_SIGNATURE) throw new Error("Missing ZIP64 locator");
+    const zip64Offset = u64(tail, locator + 8);
+    const zip64 = await readSlice(blob, zip64Offset, zip64Offset + 56);
+    if (zip64.getUint32(0, true) !== ZIP64_EOCD_SIGNATURE) throw new Error("Corrupt ZIP64 directory");
+    entryCount = u64(zip64, 32);
+    directorySize = u64(zip64, 40);
+    directoryOffset = u64(zip64, 48);
+  }
+
+  const dir = await readSlice(blob, directoryOffset, directoryOffset + directorySize);
+  const decoder = new TextDecoder('utf-8');
+  const entries: ZipDirectoryEntry[] = [];
+  let pos = 0;
+  for (let n = 0; n < entryCount && pos + 46 <= dir.byteLength; n++) {
+    if (dir.getUint32(pos, true) !== CENTRAL_SIGNATURE) throw new Error(`Corrupt central directory at entry ${n}`);
+    const nameLength = dir.getUint16(pos + 28, true);
+    const extraLength = dir.getUint16(pos + 30, true);
+    const commentLength = dir.getUint16(pos + 32, true);
+    const entry: ZipDirectoryEntry = {
+      flags: dir.getUint16(pos + 8, true),
+      method: dir.getUint16(pos + 10, true),
+      compressedSize: dir.getUint32(pos + 20, true),
+      size: dir.getUint32(pos + 24, true),
+      localHeaderOffset: dir.getUint32(pos + 42, true),
+      path: decoder.decode(new Uint8Array(dir.buffer, dir.byteOffset + pos + 46, nameLength))
+    };
+
+    // ZIP64 extra field (0x0001) holds the real values for any field saturated at 0xFFFFFFFF.
+    let extra = pos + 46 + nameLength;
+    const extraEnd = extra + extraLength;
+    while (extra + 4 <= extraEnd) {
+      const id = dir.getUint16(extra, true);
+      const length = dir.getUint16(extra + 2, true);
+      if (id === 0x0001) {
+        let field = extra + 4;
+        if (entry.size === 0xffffffff) { entry.size = u64(dir, field); field += 8; }
+        if (entry.compressedSize === 0xffffffff) { entry.compressedSize = u64(dir, field); field += 8; }
+        if (entry.localHeaderOffset === 0xffffffff) { entry.localHeaderOffset = u64(dir, field); }
+      }
+      extra += 4 + length;
+    }
+
+    entries.push(entry);
+    pos = extraEnd + commentLength;
+  }
+  return entries;
+};
+
+/**
+ * Decompresses one entry, refusing to produce more than `limit` bytes
+ * regardless of what the directory claims.
+ */
+export const readZipEntry = async (blob: Blob, entry: ZipDirectoryEntry, limit: number): Promise<Uint8Array> => {
+  const header = await readSlice(blob, entry.localHeaderOffset, entry.localHeaderOffset + 30);
+  if (header.getUint32(0, true) !== LOCAL_SIGNATURE) throw new Error("Corrupt local header");
+  const dataStart = entry.localHeaderOffset + 30 + header.getUint16(26, true) + header.getUint16(28, true);
+  const compressed = blob.slice(dataStart, dataStart + entry.compressedSize);
+
+  if (entry.method === 0) {
+    return new Uint8Array(await compressed.slice(0, limit).arrayBuffer());
+  }
+  if (entry.method !== 8) throw new Error(`Unsupported compression method ${entry.method}`);
+
+  return readStreamWithLimit(compressed.stream().pipeThrough(new DecompressionStream('deflate-raw')), limit);
+};
+
+const baseName = (path: string) => path.split(/[\\/]/).filter(Boolean).pop() || path;
+
+const hasDoubleExtension = (name: string): boolean => {
+  const parts = baseName(name).toLowerCase().split('.');
+  if (parts.length < 3) return false;
+  return EXECUTABLE_EXTENSIONS.includes(parts[parts.length - 1]) && DECOY_EXTENSIONS.includes(parts[parts.length - 2]);
+};
+
+const isTraversalPath = (path: string): boolean => {
+  return /(^|[\\/])\.\.([\\/]|$)/.test(path) || /^([\\/]|[a-zA-Z]:)/.test(path);
+};
+
+export type EntryAnalyzer = (data: Uint8Array, name: string, depth: number) => Promise<AnalysisResult>;
+
+export interface ArchiveInspection {
+  summary: ArchiveSummary;
+  findings: Finding[];
+  /** True when every entry was opened and analyzed. */
+  complete: boolean;
+}
+
+/**
+ * Lists a ZIP archive and runs each entry back through `analyze`, within
+ * the depth limit and the shared budget. Entry verdicts become findings
+ * on the archive itself.
+ */
+export const inspectZipArchive = async (
+  blob: Blob,
+  depth: number,
+  budget: ArchiveBudget,
+  analyze: EntryAnalyzer
+): Promise<ArchiveInspection> => {
+  const directory = await readZipDirectory(blob);
+  const findings: Finding[] = [];
+  const entries: ArchiveEntry[] = [];
+  let complete = true;
+  let truncated = false;
+  let flaggedEntries = 0;
+
+  const flag = (id: string, severity: Finding['severity'], title: LocalizedText, description: LocalizedText) => {
+    findings.push({ id, severity, ...findingMessages(title, description), source: 'archive' });
+  };
+  const note = (entry: ArchiveEntry, text: LocalizedText) => {
+    entry.note = localize(text, 'en');
+    entry.messages = { note: text };
+  };
+
+  const totalSize = directory.reduce((sum, e) => sum + e.size, 0);
+  const totalCompressedSize = directory.reduce((sum, e) => sum + e.compressedSize, 0);
+  if (totalSize > BOMB_TOTAL_SIZE && totalSize / Math.max(1, totalCompressedSize) > BOMB_RATIO / 2) {
+    flag('archive-bomb', 'DANGER', msg('finding.archive-bomb.title'),
+      msg('finding.archive-bomb.description', { packed: totalCompressedSize, unpacked: totalSize }));
+  }
+
+  for (const item of directory) {
+    const isDirectory = item.path.endsWith('/');
+    const encrypted = (item.flags & 0x1) !== 0 || item.method === 99;
+    const ratio = item.compressedSize > 0 ? item.size / item.compressedSize : 0;
+    const entry: ArchiveEntry = { path: item.path, size: item.size, compressedSize: item.compressedSize, ratio, encrypted, depth };
+    entries.push(entry);
+
+    if (isTraversalPath(item.path)) {
+      flag('archive-path-traversal', 'DANGER', msg('finding.archive-path-traversal.title'),
+        msg('finding.archive-path-traversal.description', { path: item.path }));
+    }
+    if (hasDoubleExtension(item.path)) {
+      flag('archive-double-extension', 'DANGER', msg('finding.archive-double-extension.title'), msg('finding.archive-double-extension.description', {
+        name: baseName(item.path),
+        type: baseName(item.path).split('.').slice(-2, -1)[0].toUpperCase()
+      }));
+    }
+    if (ratio > BOMB_RATIO && item.size > BOMB_MIN_SIZE) {
+      flag('archive-bomb', 'DANGER', msg('finding.archive-bomb.title'),
+        msg('finding.archive-bomb.descriptionEntry', { path: item.path, ratio: Math.round(ratio), size: item.size }));
+    }
+    if (isDirectory) continue;
+
+    if (encrypted) {
+      note(entry, msg('note.passwordProtected'));
+      complete = false;
+      continue;
+    }
+    if (depth >= MAX_ARCHIVE_DEPTH) {
+      note(entry, msg('note.tooDeep'));
+      complete = false;
+      continue;
+    }
+    if (item.size > MAX_ENTRY_BYTES || item.size > budget.remainingBytes || budget.remainingEntries <= 0) {
+      note(entry, msg('note.limitReached'));
+      complete = false;
+      truncated = true;
+      continue;
+    }
+
+    try {
+      const data = await readZipEntry(blob, item, Math.min(MAX_ENTRY_BYTES, budget.remainingBytes));
+      budget.remainingBytes -= data.length;
+      budget.remainingEntries -= 1;
+      const result = await analyze(data, baseName(item.path), depth + 1);
+      entry.verdict = result.verdict;
+      entry.fileType = result.fileType;
+      const top = result.findings?.find(f => f.severity === result.verdict);
+      if (top) note(entry, top.messages?.title ?? literal(top.title));
+      else if (result.verdict !== 'SAFE') note(entry, result.messages?.humanVerdict ?? literal(result.humanVerdict));
+
+      if (result.archive) {
+        entries.push(...result.archive.entries.map(child => ({ ...child, path: `${item.path}/${child.path}` })));
+        truncated = truncated || result.archive.truncated;
+      }
+      if (result.verdict !== 'SAFE' && ++flaggedEntries > MAX_ENTRY_FINDINGS) {
+        continue;
+      }
+      if (result.verdict !== 'SAFE') {
+        const isProgram = result.metadata?.isExecutable === true;
+        flag(isProgram ? 'archive-executable' : 'archive-entry', result.verdict,
+          msg(isProgram ? 'finding.archive-executable.title' : 'finding.archive-entry.title', { name: baseName(item.path) }),
+          msg('finding.archive-entry.description', { path: item.path, verdict: result.messages?.humanVerdict ?? literal(result.humanVerdict) }));
+      }
+    } catch (err: any) {
+      const overrun = err instanceof ReadLimitExceeded;
+      note(entry, overrun ? msg('note.expandsPastLimit', { size: Math.round(err.limit / 1024 / 1024) })
+        : err?.message ? literal(err.message) : msg('note.unreadable'));
+      complete = false;
+      if (overrun && !findings.some(f => f.id === 'archive-bomb')) {
+        flag('archive-bomb', 'DANGER', msg('finding.archive-bomb.title'),
+          msg('finding.archive-bomb.descriptionOverrun', { path: item.path, size: item.size }));
+      }
+    }
+  }
+
+  if (flaggedEntries > MAX_ENTRY_FINDINGS) {
+    const worst = entries.some(e => e.depth === depth && e.verdict === 'DANGER') ? 'DANGER' : 'CAUTION';
+    flag('archive-entry', worst, msg('finding.archive-entry.more.title', { count: flaggedEntries - MAX_ENTRY_FINDINGS }),
+      msg('finding.archive-entry.more.description'));
+  }
+
+  const encryptedCount = entries.filter(e => e.encrypted && e.depth === depth).length;
+  if (encryptedCount > 0) {
+    flag('archive-encrypted', 'CAUTION', msg('finding.archive-encrypted.title'), msg('finding.archive-encrypted.description', { count: encryptedCount }));
+  }
+
+  return {
+    summary: {
+      format: 'zip',
+      entryCount: directory.length,
+      totalSize,
+      totalCompressedSize,
+      entries,
+      truncated
+    },
+    findings,
+    complete
+  };
+};
@@ -0,0 +1,59 @@
+import { AnalysisResult, BatchItem, Verdict } from '../types';
+import { VERDICT_RANK } from './analyzer';
+import { findingText, Locale, resultText } from './i18n';
+
+/** Files analyzed at the same time in a batch scan. */
+export const BATCH_CONCURRENCY = 3;
+
+export type BatchSortKey = 'name' | 'size' | 'type' | 'verdict' | 'finding';
+
+/**
+ * Runs `worker` over every item with at most `limit` in flight. Stops picking
+ * up new items once `cancelled` returns true; running ones finish normally.
+ */
+export const runQueue = async <T>(
+  items: T[],
+  limit: number,
+  worker: (item: T) => Promise<void>,
+  cancelled: () => boolean = () => false
+): Promise<void> => {
+  let next = 0;
+  const lane = async () => {
+    while (next < items.length && !cancelled()) {
+      await worker(items[next++]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, lane));
+};
+
+/** The most severe finding's title, or the verdict headline when nothing was flagged. English unless a locale is given. */
+export const topFinding = (result: AnalysisResult, locale: Locale = 'en'): string => {
+  const flagged = (result.findings || []).filter(f => f.severity !== 'INFO');
+  const worst = flagged.find(f => f.severity === 'DANGER') || flagged[0];
+  return worst ? findingText(worst, locale).title : resultText(result, locale).humanVerdict;
+};
+
+export const countVerdicts = (items: BatchItem[]): Record<Verdict, number> => {
+  const counts: Record<Verdict, number> = { SAFE: 0, CAUTION: 0, DANGER: 0 };
+  for (const item of items) {
+    if (item.result) counts[item.result.verdict]++;
+  }
+  return counts;
+};
+
+/** Unfinished and failed items rank below SAFE so they sort together. */
+const verdictRank = (item: BatchItem): number => (item.result ? VERDICT_RANK[item.result.verdict] : -1);
+
+export const sortBatch = (items: BatchItem[], key: BatchSortKey, descending: boolean, locale: Locale = 'en'): BatchItem[] => {
+  const compare = (a: BatchItem, b: BatchItem): number => {
+    switch (key) {
+      case 'size': return a.file.size - b.file.size;
+      case 'type': return (a.result?.fileType || '').localeCompare(b.result?.fileType || '');
+      case 'verdict': return verdictRank(a) - verdictRank(b);
+      case 'finding': return (a.result ? topFinding(a.result, locale) : '').localeCompare(b.result ? topFinding(b.result, locale) : '', locale);
+      default: return a.path.localeCompare(b.path);
+    }
+  };
+  // Ties fall back to path order so the table doesn't jump around while scanning.
+  return [...items].sort((a, b) => (descending ? -compare(a, b) : compare(a, b)) || a.path.localeCompare(b.path));
+};
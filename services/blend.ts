@@ -0,0 +1,86 @@
+import { AnalysisResult, LocalizedText, VerdictBlend, VerdictOpinion } from '../types';
+import { VERDICT_RANK } from './analyzer';
+import { literal, localize, msg } from './i18n';
+
+const opinion = (result: AnalysisResult): VerdictOpinion => ({
+  verdict: result.verdict,
+  humanVerdict: result.humanVerdict,
+  explanation: result.simpleExplanation,
+  messages: result.messages
+});
+
+/**
+ * Combines the local scan with a validated AI result. The stricter verdict
+ * wins, so the AI can raise a verdict but never lower one the local scan
+ * reached on its own evidence. Hash list hits are the user's explicit call
+ * and override both.
+ */
+export const blendResults = (local: AnalysisResult, ai: AnalysisResult): AnalysisResult => {
+  const listed = local.findings?.find(f => f.id === 'hash-blocklist' || f.id === 'hash-allowlist');
+  const localRank = VERDICT_RANK[local.verdict];
+  const aiRank = VERDICT_RANK[ai.verdict];
+
+  let decidedBy: VerdictBlend['decidedBy'];
+  const verdicts = { local: msg(`verdict.${local.verdict}`), ai: msg(`verdict.${ai.verdict}`) };
+  let reason: LocalizedText;
+  if (listed) {
+    decidedBy = 'hashlist';
+    reason = msg('blend.hashlist', { finding: listed.messages?.description ?? literal(listed.description) });
+  } else if (localRank === aiRank) {
+    decidedBy = 'both';
+    reason = msg('blend.both', verdicts);
+  } else if (localRank > aiRank) {
+    decidedBy = 'local';
+    const worst = local.findings?.find(f => f.severity === local.verdict);
+    reason = worst
+      ? msg('blend.localFinding', { ...verdicts, title: worst.messages?.title ?? literal(worst.title) })
+      : msg('blend.local', verdicts);
+  } else {
+    decidedBy = 'ai';
+    reason = msg('blend.ai', verdicts);
+  }
+
+  const useLocal = decidedBy === 'local' || decidedBy === 'hashlist';
+  const text = useLocal ? local : ai;
+  const verdict = useLocal ? local.verdict : ai.verdict;
+  const solutions = Array.from(new Set([...text.solutions, ...(useLocal ? ai.solutions : local.solutions)]));
+  // The AI already answers in the reader's language, so only local wording stays localizable.
+  const localized = (s: string) => {
+    const i = local.solutions.indexOf(s);
+    return i >= 0 && local.messages ? local.messages.solutions[i] : literal(s);
+  };
+
+  return {
+    ...local,
+    verdict,
+    humanVerdict: text.humanVerdict,
+    summary: ai.summary,
+    simpleExplanation: text.simpleExplanation,
+    isDangerous: verdict === 'DANGER',
+    whyItsDangerous: ai.whyItsDangerous,
+    solutions,
+    technicalDetails: [local.technicalDetails, ai.technicalDetails].filter(Boolean).join('\n\n'),
+    // The magic-byte type is evidence; the AI's label only fills in when no signature matched.
+    fileType: local.metadata.detectedType === 'unknown' && ai.fileType !== 'unknown' ? ai.fileType : local.fileType,
+    metadata: {
+      ...local.metadata,
+      suggestedApp: ai.metadata.suggestedApp,
+      securityLevel: verdict === 'SAFE' ? 'Low Risk' : 'High Risk'
+    },
+    mode: 'ai',
+    messages: local.messages && {
+      humanVerdict: useLocal ? local.messages.humanVerdict : literal(ai.humanVerdict),
+      simpleExplanation: useLocal ? local.messages.simpleExplanation : [literal(ai.simpleExplanation)],
+      solutions: solutions.map(localized)
+    },
+    aiCoverage: ai.aiCoverage,
+    blend: {
+      local: opinion(local),
+      ai: opinion(ai),
+      decidedBy,
+      reason: localize(reason, 'en'),
+      messages: { reason },
+      aiRepairs: ai.validationNotes ?? []
+    }
+  };
+};
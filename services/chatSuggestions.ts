@@ -0,0 +1,35 @@
+import { AnalysisResult } from '../types';
+
+const MAX_SUGGESTIONS = 4;
+
+/**
+ * Follow-up questions worth asking about this particular file, most
+ * specific first: what the scan flagged, then what kind of file it is.
+ */
+export const suggestedQuestions = (result: AnalysisResult): string[] => {
+  const out: string[] = [];
+  const meta = result.metadata;
+  const worst = result.findings?.find(f => f.severity === 'DANGER') ?? result.findings?.find(f => f.severity === 'CAUTION');
+
+  if (worst) out.push(`Why is "${worst.title}" a problem?`);
+  if (result.iocs?.some(i => i.kind === 'url' || i.kind === 'domain' || i.kind === 'ip')) out.push("Which network addresses does this file contact, and are any known bad?");
+  if (result.iocs?.some(i => i.kind === 'registry')) out.push("What do the registry keys in this file do?");
+
+  if (meta.executable) {
+    out.push("What does this program do when it runs?", "Which imported functions are the most suspicious?");
+  } else if (meta.isExecutable) {
+    out.push("Walk me through what this script does, step by step.");
+  } else if (result.archive) {
+    out.push("Which files in this archive should I be careful with?");
+  } else if (meta.detectedType === 'pdf' || /document|office|pdf/i.test(result.fileType)) {
+    out.push("Does this document run anything when opened?", "Summarize what this document is asking me to do.");
+  } else if (/image/i.test(meta.detectedMimeType ?? '')) {
+    out.push("Is anything hidden in this image?");
+  } else if (/html|svg|javascript/i.test(meta.detectedMimeType ?? '')) {
+    out.push("Does this page try to collect passwords or redirect me?");
+  }
+
+  if (result.verdict !== 'SAFE') out.push("What should I do if I already opened it?");
+  out.push("Explain the verdict in plain language.");
+  return Array.from(new Set(out)).slice(0, MAX_SUGGESTIONS);
+};
@@ -0,0 +1,52 @@
+const DB_NAME = 'omnianalyze';
+const DB_VERSION = 2;
+
+export const HASH_STORE = 'hashes';
+export const HISTORY_STORE = 'history';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/** True where IndexedDB exists: browsers, not Node, where the CLI and tests run. */
+export const hasIndexedDb = (): boolean => typeof indexedDB !== 'undefined';
+
+/**
+ * Opens (and on first use creates or upgrades) the app database. The
+ * connection is shared for the lifetime of the page.
+ */
+export const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(HASH_STORE)) {
+          db.createObjectStore(HASH_STORE, { keyPath: 'hash' }).createIndex('list', 'list');
+        }
+        if (!db.objectStoreNames.contains(HISTORY_STORE)) {
+          db.createObjectStore(HISTORY_STORE, { keyPath: 'id', autoIncrement: true }).createIndex('scannedAt', 'scannedAt');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const transactionDone = (tx: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
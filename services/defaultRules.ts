@@ -0,0 +1,146 @@
+/**
+ * Detection rules bundled with the app, in the same YARA-style syntax users
+ * can import from Settings. Kept deliberately conservative: every rule here
+ * should be rare in benign files.
+ */
+export const DEFAULT_RULESET = String.raw`
+rule EICAR_Test_File : test {
+  meta:
+    description = "Contains the EICAR antivirus test string. Harmless, but every antivirus will flag it."
+    severity = "DANGER"
+  strings:
+    $eicar = "X5O!P%@AP[4\\PZX54(P^)7CC)7}$EICAR-STANDARD-ANTIVIRUS-TEST-FILE!"
+  condition:
+    $eicar
+}
+
+rule Process_Injection_APIs : windows injection {
+  meta:
+    description = "References several Windows functions used together to inject code into other programs."
+    severity = "DANGER"
+  strings:
+    $a1 = "VirtualAllocEx"
+    $a2 = "WriteProcessMemory"
+    $a3 = "CreateRemoteThread"
+    $a4 = "NtUnmapViewOfSection"
+    $a5 = "QueueUserAPC"
+    $a6 = "SetThreadContext"
+  condition:
+    3 of them
+}
+
+rule PowerShell_Encoded_Command : script powershell {
+  meta:
+    description = "Launches PowerShell with an encoded command, a common way to hide what a script does."
+    severity = "DANGER"
+  strings:
+    $enc = /powershell(\.exe)?["']?\s+[^\r\n]{0,80}-e(nc|ncodedcommand)?\s+[A-Za-z0-9+\/=]{40,}/i
+  condition:
+    $enc
+}
+
+rule PowerShell_Download_Cradle : script powershell {
+  meta:
+    description = "Downloads and runs code from the internet using PowerShell."
+    severity = "CAUTION"
+  strings:
+    $d1 = "DownloadString" nocase wide
+    $d2 = "DownloadFile" nocase wide
+    $d3 = "Net.WebClient" nocase wide
+    $d4 = "Invoke-WebRequest" nocase wide
+    $x1 = "Invoke-Expression" nocase wide
+    $x2 = /\bIEX\s*\(/
+  condition:
+    any of ($d*) and any of ($x*)
+}
+
+rule Office_AutoExec_Macro : office macro {
+  meta:
+    description = "Contains a macro that runs automatically when the document is opened and can start other programs."
+    severity = "DANGER"
+  strings:
+    $auto1 = "AutoOpen" nocase
+    $auto2 = "Auto_Open" nocase
+    $auto3 = "Document_Open" nocase
+    $auto4 = "Workbook_Open" nocase
+    $exec1 = "WScript.Shell" nocase
+    $exec2 = "Shell(" nocase
+    $exec3 = "CreateObject" nocase
+    $exec4 = "URLDownloadToFile" nocase
+  condition:
+    any of ($auto*) and any of ($exec*)
+}
+
+rule Credential_Theft_Tool : credentials {
+  meta:
+    description = "Contains strings from well-known password-stealing tools."
+    severity = "DANGER"
+  strings:
+    $m1 = "mimikatz" nocase wide
+    $m2 = "sekurlsa::" nocase wide
+    $m3 = "lsadump::" nocase wide
+    $m4 = "gentilkiwi" nocase wide
+  condition:
+    any of them
+}
+
+rule Reverse_Shell_Command : script shell {
+  meta:
+    description = "Opens a remote command shell back to another computer."
+    severity = "DANGER"
+  strings:
+    $s1 = "/dev/tcp/"
+    $s2 = /\bnc(at)?\s+(-\w+\s+)*-e\s+\/bin\/(ba)?sh/
+    $s3 = /\bbash\s+-i\s+>&/
+    $s4 = "pty.spawn(" nocase
+  condition:
+    any of them
+}
+
+rule Ransom_Note_Text : ransomware {
+  meta:
+    description = "Reads like a ransom note demanding payment to recover files."
+    severity = "CAUTION"
+  strings:
+    $note = /your (important )?files (have been|are) encrypted/i
+    $pay1 = "bitcoin" nocase
+    $pay2 = "decryptor" nocase
+    $pay3 = ".onion" nocase
+  condition:
+    $note and any of ($pay*)
+}
+
+rule Crypto_Miner : miner {
+  meta:
+    description = "Contains cryptocurrency mining configuration that would use your computer's power for someone else."
+    severity = "DANGER"
+  strings:
+    $p1 = "stratum+tcp://" nocase
+    $p2 = "stratum+ssl://" nocase
+    $m1 = "xmrig" nocase wide
+    $m2 = "cryptonight" nocase
+  condition:
+    any of ($p*) or 2 of ($m*)
+}
+
+rule Embedded_Executable : dropper {
+  meta:
+    description = "Carries a Windows program hidden inside another file."
+    severity = "CAUTION"
+  strings:
+    $mz = { 4D 5A }
+    $dos = "This program cannot be run in DOS mode"
+  condition:
+    ($dos and not $mz at 0) or #dos > 1
+}
+
+rule Large_Base64_Blob : obfuscation {
+  meta:
+    description = "Contains a very long block of encoded data, which is sometimes used to smuggle hidden content."
+    severity = "INFO"
+  strings:
+    $b64 = /[A-Za-z0-9+\/]{4000,}={0,2}/
+  condition:
+    $b64 and filesize < 50MB
+}
+`;
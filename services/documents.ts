@@ -0,0 +1,394 @@
+import { Finding, LocalizedText } from '../types';
+import { readStreamWithLimit } from '../utils/binaryUtils';
+import { readZipDirectory, readZipEntry } from './archive';
+import { findingMessages, msg } from './i18n';
+
+/** Compressed PDF object streams are inflated up to this much in total. */
+const MAX_PDF_INFLATE_BYTES = 32 * 1024 * 1024;
+/** OOXML parts larger than this are not parsed. */
+const MAX_OOXML_PART_BYTES = 20 * 1024 * 1024;
+const EXECUTABLE_NAME = /\.(exe|scr|com|pif|bat|cmd|vbs|vbe|js|jse|wsf|hta|ps1|msi|lnk|dll|jar)$/i;
+
+const finding = (id: string, severity: Finding['severity'], title: LocalizedText, description: LocalizedText, snippet?: string): Finding => ({
+  id, severity, ...findingMessages(title, description), source: 'document', ...(snippet ? { snippet } : {})
+});
+
+const latin1 = (bytes: Uint8Array) => new TextDecoder('latin1').decode(bytes);
+
+const truncate = (text: string, length = 120) => (text.length > length ? `${text.slice(0, length)}…` : text);
+
+// ---------------------------------------------------------------------------
+// PDF
+// ---------------------------------------------------------------------------
+
+const countName = (text: string, name: string): number => {
+  return (text.match(new RegExp(`/${name}(?![A-Za-z0-9])`, 'g')) || []).length;
+};
+
+/** Expands "#xx" escapes in PDF names, e.g. /J#61vaScript → /JavaScript. */
+const decodeNames = (text: string): { text: string; obfuscated: boolean } => {
+  let obfuscated = false;
+  const decoded = text.replace(/\/[A-Za-z0-9]*#[0-9a-fA-F]{2}[A-Za-z0-9#]*/g, name => {
+    obfuscated = true;
+    return name.replace(/#([0-9a-fA-F]{2})/g, (_m, h: string) => String.fromCharCode(parseInt(h, 16)));
+  });
+  return { text: decoded, obfuscated };
+};
+
+/**
+ * Inflates FlateDecode object streams (/ObjStm), where active content is
+ * often tucked away out of sight of a plain text scan.
+ */
+const inflateObjectStreams = async (raw: string, bytes: Uint8Array): Promise<string> => {
+  const parts: string[] = [];
+  let budget = MAX_PDF_INFLATE_BYTES;
+  const streamPattern = /\/Type\s*\/ObjStm\b[^]*?>>\s*stream\r?\n/g;
+  for (const match of raw.matchAll(streamPattern)) {
+    const dict = match[0];
+    if (!/\/FlateDecode\b/.test(dict) || budget <= 0) continue;
+    const start = (match.index ?? 0) + dict.length;
+    const end = raw.indexOf('endstream', start);
+    if (end < 0) continue;
+    try {
+      const stream = new Blob([bytes.slice(start, end)]).stream().pipeThrough(new DecompressionStream('deflate'));
+      const inflated = await readStreamWithLimit(stream, budget);
+      budget -= inflated.length;
+      parts.push(latin1(inflated));
+    } catch {
+      // A corrupt stream is not itself evidence of anything; PDF readers tolerate it too.
+    }
+  }
+  return parts.join('\n');
+};
+
+/**
+ * Looks for PDF features that run code, launch programs, carry attachments,
+ * submit data or link out.
+ */
+export const analyzePdf = async (bytes: Uint8Array): Promise<Finding[]> => {
+  const raw = latin1(bytes);
+  const { text, obfuscated } = decodeNames(raw + '\n' + await inflateObjectStreams(raw, bytes));
+  const findings: Finding[] = [];
+
+  const js = countName(text, 'JavaScript') + countName(text, 'JS');
+  const autoRun = countName(text, 'OpenAction') + countName(text, 'AA');
+  if (js > 0) {
+    findings.push(autoRun > 0
+      ? finding('pdf-javascript-autorun', 'DANGER', msg('finding.pdf-javascript-autorun.title'), msg('finding.pdf-javascript-autorun.description'))
+      : finding('pdf-javascript', 'CAUTION', msg('finding.pdf-javascript.title'), msg('finding.pdf-javascript.description')));
+  }
+
+  const launchMatch = text.match(/\/Launch(?![A-Za-z0-9])[^>]{0,160}/);
+  if (launchMatch) {
+    findings.push(finding('pdf-launch', 'DANGER', msg('finding.pdf-launch.title'), msg('finding.pdf-launch.description'),
+      truncate(launchMatch[0].replace(/\s+/g, ' '))));
+  }
+
+  const embedded = countName(text, 'EmbeddedFile') + countName(text, 'EmbeddedFiles');
+  if (embedded > 0) {
+    const names = Array.from(text.matchAll(/\/Type\s*\/Filespec[^]{0,400}?\/UF?\s*\(([^)]{1,200})\)/g), m => m[1]);
+    const executable = names.filter(n => EXECUTABLE_NAME.test(n));
+    findings.push(executable.length > 0
+      ? finding('pdf-embedded-executable', 'DANGER', msg('finding.pdf-embedded-executable.title'),
+        msg('finding.pdf-embedded-executable.description', { names: executable.join(', ') }))
+      : finding('pdf-embedded-file', 'CAUTION', msg('finding.pdf-embedded-file.title'), names.length > 0
+        ? msg('finding.pdf-embedded-file.descriptionNamed', { names: names.slice(0, 5).join(', ') })
+        : msg('finding.pdf-embedded-file.description')));
+  }
+
+  if (countName(text, 'SubmitForm') > 0) {
+    findings.push(finding('pdf-submit-form', 'CAUTION', msg('finding.pdf-submit-form.title'), msg('finding.pdf-submit-form.description')));
+  }
+  if (countName(text, 'RichMedia') > 0) {
+    findings.push(finding('pdf-rich-media', 'CAUTION', msg('finding.pdf-rich-media.title'), msg('finding.pdf-rich-media.description')));
+  }
+  if (countName(text, 'XFA') > 0) {
+    findings.push(finding('pdf-xfa', 'INFO', msg('finding.pdf-xfa.title'), msg('finding.pdf-xfa.description')));
+  }
+
+  const uris = Array.from(new Set(Array.from(text.matchAll(/\/URI\s*\(([^)]{1,500})\)/g), m => m[1])));
+  if (uris.length > 0) {
+    findings.push(finding('pdf-links', 'INFO', msg('finding.pdf-links.title', { count: uris.length }),
+      msg('finding.pdf-links.description', { links: `${uris.slice(0, 5).map(u => truncate(u, 80)).join(', ')}${uris.length > 5 ? ', …' : ''}` })));
+  }
+
+  if (obfuscated && findings.some(f => f.severity !== 'INFO')) {
+    findings.push(finding('pdf-obfuscated-names', 'CAUTION', msg('finding.pdf-obfuscated-names.title'), msg('finding.pdf-obfuscated-names.description')));
+  }
+  return findings;
+};
+
+// ---------------------------------------------------------------------------
+// Office Open XML (docx, xlsx, pptx and macro-enabled variants)
+// ---------------------------------------------------------------------------
+
+const MACRO_FREE_EXTENSIONS = ['docx', 'xlsx', 'pptx'];
+const AUTO_EXEC = /\b(AutoOpen|Auto_Open|AutoExec|AutoClose|Document_Open|DocumentOpen|Workbook_Open|Workbook_Activate|Auto_Close)\b/i;
+
+/**
+ * Inspects an OOXML package for macros, remote templates, embedded OLE and
+ * ActiveX objects, Excel 4.0 macro sheets and DDE fields.
+ */
+export const analyzeOoxml = async (blob: Blob, ext: string): Promise<Finding[]> => {
+  const entries = await readZipDirectory(blob);
+  const findings: Finding[] = [];
+  const read = async (path: string) => {
+    const entry = entries.find(e => e.path === path);
+    return entry && entry.size <= MAX_OOXML_PART_BYTES ? latin1(await readZipEntry(blob, entry, MAX_OOXML_PART_BYTES)) : '';
+  };
+
+  const vba = entries.filter(e => /(^|\/)vbaProject\.bin$/i.test(e.path));
+  if (vba.length > 0) {
+    const project = latin1(await readZipEntry(blob, vba[0], MAX_OOXML_PART_BYTES));
+    const autoExec = project.match(AUTO_EXEC)?.[0];
+    const hidden = MACRO_FREE_EXTENSIONS.includes(ext);
+    findings.push(autoExec || hidden
+      ? autoExec
+        ? finding('office-macro-autoexec', 'DANGER', msg('finding.office-macro-autoexec.title'), msg('finding.office-macro-autoexec.description', { routine: autoExec }))
+        : finding('office-macro-autoexec', 'DANGER', msg('finding.office-macro-hidden.title'), msg('finding.office-macro-hidden.description', { ext }))
+      : finding('office-macro', 'CAUTION', msg('finding.office-macro.title'), msg('finding.office-macro.description')));
+  }
+
+  if (entries.some(e => /^xl\/macrosheets\//i.test(e.path))) {
+    findings.push(finding('office-xlm-macro', 'DANGER', msg('finding.office-xlm-macro.title'), msg('finding.office-xlm-macro.description')));
+  }
+
+  const rels = entries.filter(e => e.path.endsWith('.rels'));
+  for (const rel of rels) {
+    const xml = await read(rel.path);
+    for (const m of xml.matchAll(/<Relationship\b[^>]*>/g)) {
+      const tag = m[0];
+      if (!/TargetMode\s*=\s*["']External["']/i.test(tag)) continue;
+      const type = tag.match(/Type\s*=\s*["'][^"']*\/([^"'\/]+)["']/)?.[1] || '';
+      const target = tag.match(/Target\s*=\s*["']([^"']+)["']/)?.[1] || '';
+      if (/^(attachedTemplate|subDocument|frame)$/i.test(type)) {
+        findings.push(finding('office-remote-template', 'DANGER', msg('finding.office-remote-template.title'), msg('finding.office-remote-template.description', {
+          part: type === 'attachedTemplate' ? msg('finding.office-remote-template.template') : type,
+          target: truncate(target, 100)
+        }), truncate(tag)));
+      } else if (/^oleObject$/i.test(type)) {
+        findings.push(finding('office-remote-ole', 'DANGER', msg('finding.office-remote-ole.title'),
+          msg('finding.office-remote-ole.description', { target: truncate(target, 100) }), truncate(tag)));
+      }
+    }
+  }
+
+  const ole = entries.filter(e => /\/embeddings\/.+/i.test(e.path) && /\.bin$/i.test(e.path));
+  if (ole.length > 0) {
+    findings.push(finding('office-ole-object', 'CAUTION', msg('finding.office-ole-object.title'), msg('finding.office-ole-object.descriptionCounted', {
+      count: ole.length,
+      names: ole.slice(0, 3).map(e => e.path.split('/').pop()).join(', ')
+    })));
+  }
+  if (entries.some(e => /\/activeX\//i.test(e.path))) {
+    findings.push(finding('office-activex', 'CAUTION', msg('finding.office-activex.title'), msg('finding.office-activex.description')));
+  }
+
+  const bodies = entries.filter(e => /^(word\/(document|header\d*|footer\d*)\.xml|xl\/externalLinks\/.+\.xml)$/i.test(e.path));
+  for (const body of bodies) {
+    const xml = await read(body.path);
+    const dde = xml.match(/(instrText[^>]*>|instr\s*=\s*["'])\s*(DDEAUTO|DDE)\b[^<"']{0,120}/i) || xml.match(/<ddeLink\b[^>]*>/i);
+    if (dde) {
+      findings.push(finding('office-dde', 'DANGER', msg('finding.office-dde.title'), msg('finding.office-dde.description'), truncate(dde[0])));
+      break;
+    }
+  }
+
+  if (entries.some(e => e.path === 'EncryptedPackage')) {
+    findings.push(finding('office-encrypted', 'CAUTION', msg('finding.office-encrypted.title'), msg('finding.office-encrypted.description')));
+  }
+  return findings;
+};
+
+// ---------------------------------------------------------------------------
+// Legacy OLE2 compound files (.doc, .xls, .ppt)
+// ---------------------------------------------------------------------------
+
+const FREE_SECTOR = 0xffffffff;
+const END_OF_CHAIN = 0xfffffffe;
+
+export interface CompoundEntry {
+  /** Storage and stream names joined with "/". */
+  path: string;
+  /** 1 = storage, 2 = stream. */
+  type: number;
+  start: number;
+  size: number;
+}
+
+export interface CompoundFile {
+  entries: CompoundEntry[];
+  /** A stream's contents; streams below the cutoff live in the mini stream. */
+  read: (entry: CompoundEntry) => Uint8Array;
+}
+
+/**
+ * Opens a compound file: the directory up front, stream contents on demand.
+ * Chains that loop or run off the end of the file are cut short rather than
+ * trusted.
+ */
+export const openCompoundFile = (bytes: Uint8Array): CompoundFile => {
+  if (bytes.length < 512) throw new Error("Compound file header is truncated");
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const sectorShift = view.getUint16(0x1e, true);
+  const miniSectorShift = view.getUint16(0x20, true);
+  // Version 3 files use 512-byte sectors and version 4 files 4096; anything else is malformed.
+  if (sectorShift !== 9 && sectorShift !== 12) throw new Error(`Unsupported sector size 2^${sectorShift}`);
+  if (miniSectorShift !== 6) throw new Error(`Unsupported mini sector size 2^${miniSectorShift}`);
+  const sectorSize = 1 << sectorShift;
+  const miniSectorSize = 1 << miniSectorShift;
+  const miniCutoff = view.getUint32(0x38, true);
+  const sectorCount = Math.floor(bytes.length / sectorSize);
+  const sectorOffset = (sector: number) => (sector + 1) * sectorSize;
+  const inFile = (sector: number) => sector < FREE_SECTOR - 16 && sectorOffset(sector) + sectorSize <= bytes.length;
+
+  // Sector numbers of the FAT come from the header's DIFAT, then any DIFAT chain.
+  // A chain that points back into itself is malformed; repeated FAT sectors are read once.
+  const fatSectors = new Set<number>();
+  for (let i = 0; i < 109; i++) {
+    const sector = view.getUint32(0x4c + i * 4, true);
+    if (inFile(sector)) fatSectors.add(sector);
+  }
+  const difatSeen = new Set<number>();
+  for (let difat = view.getUint32(0x44, true); inFile(difat); ) {
+    if (difatSeen.has(difat)) throw new Error("DIFAT chain loops back on itself");
+    difatSeen.add(difat);
+    const base = sectorOffset(difat);
+    for (let i = 0; i < sectorSize / 4 - 1; i++) {
+      const sector = view.getUint32(base + i * 4, true);
+      if (inFile(sector)) fatSectors.add(sector);
+    }
+    difat = view.getUint32(base + sectorSize - 4, true);
+  }
+
+  // The file can't hold more sectors than its size allows, so neither can the FAT.
+  const fat: number[] = [];
+  for (const sector of fatSectors) {
+    const base = sectorOffset(sector);
+    for (let i = 0; i < sectorSize / 4 && fat.length < sectorCount; i++) fat.push(view.getUint32(base + i * 4, true));
+    if (fat.length >= sectorCount) break;
+  }
+
+  const chain = (start: number, table: number[], valid: (sector: number) => boolean): number[] => {
+    const sectors: number[] = [];
+    const seen = new Set<number>();
+    for (let sector = start; valid(sector) && sector !== END_OF_CHAIN && !seen.has(sector); sector = table[sector] ?? END_OF_CHAIN) {
+      seen.add(sector);
+      sectors.push(sector);
+    }
+    return sectors;
+  };
+  const readChain = (start: number, size: number): Uint8Array => {
+    const sectors = chain(start, fat, inFile);
+    const out = new Uint8Array(Math.min(size, sectors.length * sectorSize));
+    sectors.forEach((sector, i) => {
+      const offset = i * sectorSize;
+      if (offset < out.length) out.set(bytes.subarray(sectorOffset(sector), sectorOffset(sector) + Math.min(sectorSize, out.length - offset)), offset);
+    });
+    return out;
+  };
+
+  interface DirEntry { name: string; type: number; left: number; right: number; child: number; start: number; size: number }
+  const dir: DirEntry[] = [];
+  for (const sector of chain(view.getUint32(0x30, true), fat, inFile)) {
+    const base = sectorOffset(sector);
+    for (let i = 0; i < sectorSize / 128; i++) {
+      const at = base + i * 128;
+      const nameLength = Math.min(view.getUint16(at + 64, true), 64);
+      let name = '';
+      for (let c = 0; c + 2 < nameLength; c += 2) name += String.fromCharCode(view.getUint16(at + c, true));
+      dir.push({
+        name,
+        type: bytes[at + 66],
+        left: view.getUint32(at + 68, true),
+        right: view.getUint32(at + 72, true),
+        child: view.getUint32(at + 76, true),
+        start: view.getUint32(at + 116, true),
+        size: view.getUint32(at + 120, true)
+      });
+    }
+  }
+
+  // Walk the red-black tree of each storage to build full paths.
+  const entries: CompoundEntry[] = [];
+  const visited = new Set<number>();
+  const walk = (index: number, prefix: string) => {
+    if (index >= dir.length || visited.has(index)) return;
+    visited.add(index);
+    const entry = dir[index];
+    walk(entry.left, prefix);
+    walk(entry.right, prefix);
+    if (entry.type === 1 || entry.type === 2) {
+      const path = prefix ? `${prefix}/${entry.name}` : entry.name;
+      entries.push({ path, type: entry.type, start: entry.start, size: entry.size });
+      if (entry.type === 1) walk(entry.child, path);
+    }
+  };
+  if (dir.length > 0) walk(dir[0].child, '');
+
+  // The mini stream is the root entry's own data, allocated by the mini FAT.
+  let mini: { stream: Uint8Array; fat: number[] } | null = null;
+  const miniStream = () => {
+    if (mini) return mini;
+    const table = readChain(view.getUint32(0x3c, true), view.getUint32(0x40, true) * sectorSize);
+    const tableView = new DataView(table.buffer, table.byteOffset, table.byteLength);
+    const miniFat: number[] = [];
+    for (let i = 0; i + 4 <= table.length; i += 4) miniFat.push(tableView.getUint32(i, true));
+    mini = { stream: dir.length > 0 ? readChain(dir[0].start, dir[0].size) : new Uint8Array(0), fat: miniFat };
+    return mini;
+  };
+
+  const read = (entry: CompoundEntry): Uint8Array => {
+    if (entry.type !== 2 || entry.size === 0) return new Uint8Array(0);
+    if (entry.size >= miniCutoff) return readChain(entry.start, entry.size);
+    const { stream, fat: miniFat } = miniStream();
+    const sectors = chain(entry.start, miniFat, sector => (sector + 1) * miniSectorSize <= stream.length);
+    const out = new Uint8Array(Math.min(entry.size, sectors.length * miniSectorSize));
+    sectors.forEach((sector, i) => {
+      const offset = i * miniSectorSize;
+      if (offset < out.length) out.set(stream.subarray(sector * miniSectorSize, sector * miniSectorSize + Math.min(miniSectorSize, out.length - offset)), offset);
+    });
+    return out;
+  };
+
+  return { entries, read };
+};
+
+/**
+ * Lists every stream and storage path in a compound file. Only the directory
+ * is read; stream contents are not needed to spot VBA or embedded objects.
+ */
+export const listCompoundFileStreams = (bytes: Uint8Array): string[] => openCompoundFile(bytes).entries.map(e => e.path);
+
+/**
+ * Detects VBA projects, embedded objects, encryption and DDE in legacy
+ * Office documents.
+ */
+export const analyzeOle2 = (bytes: Uint8Array): Finding[] => {
+  const findings: Finding[] = [];
+  let streams: string[];
+  try {
+    streams = listCompoundFileStreams(bytes);
+  } catch {
+    return [finding('office-unreadable', 'CAUTION', msg('finding.office-unreadable.title'), msg('finding.office-unreadable.description'))];
+  }
+  const names = streams.map(p => p.split('/').pop()!.toUpperCase());
+
+  if (names.some(n => n === '_VBA_PROJECT' || n === 'VBA' || n === '_VBA_PROJECT_CUR' || n === 'MACROS')) {
+    const autoExec = latin1(bytes).match(AUTO_EXEC)?.[0];
+    findings.push(autoExec
+      ? finding('office-macro-autoexec', 'DANGER', msg('finding.office-macro-autoexec.title'), msg('finding.office-macro-autoexec.description', { routine: autoExec }))
+      : finding('office-macro', 'CAUTION', msg('finding.office-macro.title'), msg('finding.office-macro.description')));
+  }
+  if (names.some(n => n === '\u0001OLE10NATIVE' || n === 'OBJECTPOOL' || n === '_1_OLE10NATIVE')) {
+    findings.push(finding('office-ole-object', 'CAUTION', msg('finding.office-ole-object.title'), msg('finding.office-ole-object.description')));
+  }
+  if (names.includes('ENCRYPTEDPACKAGE')) {
+    findings.push(finding('office-encrypted', 'CAUTION', msg('finding.office-encrypted.title'), msg('finding.office-encrypted.description')));
+  }
+  const dde = latin1(bytes).match(/DDEAUTO\b[^\x00-\x1f]{0,120}/);
+  if (dde) {
+    findings.push(finding('office-dde', 'DANGER', msg('finding.office-dde.title'), msg('finding.office-dde.description'), truncate(dde[0])));
+  }
+  return findings;
+};
@@ -0,0 +1,519 @@
+import { EmailAttachment, EmailAuthResult, EmailLink, EmailSummary, Finding, LocalizedText } from '../types';
+import { ArchiveBudget, EntryAnalyzer, MAX_ARCHIVE_DEPTH, MAX_ENTRY_BYTES } from './archive';
+import { openCompoundFile } from './documents';
+import { findingMessages, listOf, literal, localize, msg } from './i18n';
+import { brandNamedIn, findUrls, inspectUrl, MAX_URLS, registrableDomain } from './urlAnalysis';
+
+/** Messages larger than this are parsed from their first bytes only. */
+export const MAX_EMAIL_BYTES = 64 * 1024 * 1024;
+/** Multipart bodies nested deeper than this are not walked. */
+const MAX_MIME_DEPTH = 20;
+const MAX_MIME_PARTS = 500;
+/** Flagged attachments beyond this are summarized in a single finding. */
+const MAX_ATTACHMENT_FINDINGS = 10;
+const MAX_LINKS_LISTED = 5;
+
+/** Sender names that belong to a brand but are sent from another of its domains. */
+const BRAND_DOMAINS: Record<string, string[]> = {
+  gmail: ['google'],
+  youtube: ['google'],
+  outlook: ['microsoft', 'office', 'live'],
+  microsoft: ['office', 'live', 'outlook'],
+  icloud: ['apple'],
+  amazon: ['amazonaws', 'amazonses'],
+  instagram: ['facebook', 'facebookmail'],
+  facebook: ['facebookmail'],
+  whatsapp: ['facebook', 'facebookmail'],
+  linkedin: ['licdn']
+};
+
+export interface EmailHeader {
+  name: string;
+  value: string;
+}
+
+/** An attachment as found in the message, before analysis. */
+export interface RawAttachment {
+  name: string;
+  contentType: string;
+  /** Null when the attachment is stored in a form that can't be extracted. */
+  data: Uint8Array | null;
+  note?: LocalizedText;
+}
+
+/** A message reduced to what the checks need, whichever format it came in. */
+export interface ParsedEmail {
+  headers: EmailHeader[];
+  text: string;
+  html: string;
+  attachments: RawAttachment[];
+}
+
+const finding = (id: string, severity: Finding['severity'], title: LocalizedText, description: LocalizedText): Finding => ({
+  id, severity, ...findingMessages(title, description), source: 'email'
+});
+
+const note = (attachment: EmailAttachment, text: LocalizedText) => {
+  attachment.note = localize(text, 'en');
+  attachment.messages = { note: text };
+};
+
+/**
+ * Byte-for-character, so indexes into the string are offsets into the bytes.
+ * TextDecoder's "latin1" is really windows-1252 and remaps 0x80–0x9F.
+ */
+const latin1 = (bytes: Uint8Array): string => {
+  let out = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) out += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return out;
+};
+
+const decodeText = (bytes: Uint8Array, charset = 'utf-8'): string => {
+  try {
+    return new TextDecoder(charset.trim().toLowerCase()).decode(bytes);
+  } catch {
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+};
+
+const fromBinaryString = (text: string): Uint8Array => {
+  const out = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) out[i] = text.charCodeAt(i) & 0xff;
+  return out;
+};
+
+const decodeBase64 = (text: string): Uint8Array => {
+  let clean = text.replace(/[^A-Za-z0-9+/]/g, '');
+  if (clean.length % 4 === 1) clean = clean.slice(0, -1);
+  try {
+    return fromBinaryString(atob(clean + '='.repeat((4 - (clean.length % 4)) % 4)));
+  } catch {
+    return new Uint8Array(0);
+  }
+};
+
+const decodeQuotedPrintable = (text: string): Uint8Array => {
+  const out = new Uint8Array(text.length);
+  let length = 0;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (c === '=') {
+      const soft = text.slice(i + 1, i + 3).match(/^\r?\n/);
+      if (soft) {
+        i += soft[0].length;
+        continue;
+      }
+      const hex = text.slice(i + 1, i + 3);
+      if (/^[0-9A-Fa-f]{2}$/.test(hex)) {
+        out[length++] = parseInt(hex, 16);
+        i += 2;
+        continue;
+      }
+    }
+    out[length++] = c.charCodeAt(0) & 0xff;
+  }
+  return out.subarray(0, length);
+};
+
+/** Decodes RFC 2047 encoded words such as =?utf-8?B?...?= in a header value. */
+const decodeWords = (value: string): string => {
+  // Raw UTF-8 in headers (RFC 6532) arrives here byte-per-character.
+  const text = /[\x80-\xff]/.test(value) ? decodeText(fromBinaryString(value)) : value;
+  return text
+    .replace(/(=\?[^?\s]+\?[BbQq]\?[^?\s]*\?=)\s+(?==\?)/g, '$1')
+    .replace(/=\?([^?\s]+)\?([BbQq])\?([^?\s]*)\?=/g, (_, charset: string, encoding: string, data: string) => {
+      const bytes = encoding.toUpperCase() === 'B'
+        ? decodeBase64(data)
+        : decodeQuotedPrintable(data.replace(/_/g, ' '));
+      return decodeText(bytes, charset.split('*')[0]);
+    });
+};
+
+const parseHeaders = (block: string): EmailHeader[] => {
+  const headers: EmailHeader[] = [];
+  for (const line of block.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/)) {
+    const colon = line.indexOf(':');
+    if (colon <= 0 || /\s/.test(line.slice(0, colon))) continue;
+    headers.push({ name: line.slice(0, colon).toLowerCase(), value: line.slice(colon + 1).trim() });
+  }
+  return headers;
+};
+
+const header = (headers: EmailHeader[], name: string): string | undefined => headers.find(h => h.name === name)?.value;
+
+/** Splits "text/plain; charset=utf-8" into its value and parameters, joining RFC 2231 continuations. */
+const parseParams = (value = ''): { value: string; params: Record<string, string> } => {
+  const params: Record<string, string> = {};
+  const continued: Record<string, string[]> = {};
+  const semicolon = value.indexOf(';');
+  const pattern = /;\s*([^=\s;]+)\s*=\s*("(?:[^"\\]|\\.)*"|[^;]*)/g;
+  for (const [, rawName, rawValue] of value.matchAll(pattern)) {
+    const name = rawName.toLowerCase();
+    let param = rawValue.trim();
+    if (param.startsWith('"')) param = param.slice(1, -1).replace(/\\(.)/g, '$1');
+    const section = name.match(/^([^*]+)\*(\d+)?(\*)?$/);
+    if (!section) {
+      params[name] = decodeWords(param);
+      continue;
+    }
+    const [, base, index] = section;
+    (continued[base] ??= [])[Number(index ?? 0)] = param;
+  }
+  for (const [base, pieces] of Object.entries(continued)) {
+    const joined = pieces.join('');
+    // RFC 2231: charset'language'percent-encoded-bytes
+    const extended = joined.match(/^([^']*)'[^']*'(.*)$/);
+    params[base] = extended
+      ? decodeText(fromBinaryString(extended[2].replace(/%([0-9A-Fa-f]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)))), extended[1] || 'utf-8')
+      : joined;
+  }
+  return { value: (semicolon >= 0 ? value.slice(0, semicolon) : value).trim().toLowerCase(), params };
+};
+
+/**
+ * Parses an RFC 822 message: headers, the text and HTML bodies, and every
+ * attachment decoded to bytes. Multipart bodies are walked to any depth
+ * within the part limits; forwarded messages come out as .eml attachments.
+ */
+export const parseEml = (bytes: Uint8Array): ParsedEmail => {
+  const raw = latin1(bytes);
+  const message: ParsedEmail = { headers: [], text: '', html: '', attachments: [] };
+  let parts = 0;
+
+  const walk = (start: number, end: number, depth: number) => {
+    if (++parts > MAX_MIME_PARTS) return;
+    const lead = raw.slice(start, start + 2).match(/^\r?\n/);
+    let headerEnd = start;
+    let bodyStart = start + (lead ? lead[0].length : 0);
+    if (!lead) {
+      const blank = /\r?\n\r?\n/g;
+      blank.lastIndex = start;
+      const match = blank.exec(raw);
+      headerEnd = match && match.index < end ? match.index : end;
+      bodyStart = match && match.index < end ? match.index + match[0].length : end;
+    }
+    const headers = parseHeaders(raw.slice(start, headerEnd));
+    if (depth === 0) message.headers = headers.map(h => ({ name: h.name, value: decodeWords(h.value) }));
+
+    const type = parseParams(header(headers, 'content-type') || 'text/plain');
+    const disposition = parseParams(header(headers, 'content-disposition'));
+    const encoding = (header(headers, 'content-transfer-encoding') || '').toLowerCase();
+
+    if (type.value.startsWith('multipart/') && type.params.boundary) {
+      if (depth >= MAX_MIME_DEPTH) return;
+      const delimiter = `--${type.params.boundary}`;
+      let at = raw.indexOf(delimiter, bodyStart);
+      while (at >= 0 && at < end && !raw.startsWith('--', at + delimiter.length)) {
+        const lineEnd = raw.indexOf('\n', at);
+        const partStart = lineEnd < 0 || lineEnd >= end ? end : lineEnd + 1;
+        const next = raw.indexOf(`\n${delimiter}`, partStart);
+        const partEnd = next < 0 || next >= end ? end : raw[next - 1] === '\r' ? next - 1 : next;
+        walk(partStart, Math.max(partStart, partEnd), depth + 1);
+        at = next < 0 || next >= end ? -1 : next + 1;
+      }
+      return;
+    }
+
+    const body = raw.slice(bodyStart, end);
+    const data = encoding === 'base64' ? decodeBase64(body)
+      : encoding === 'quoted-printable' ? decodeQuotedPrintable(body)
+      : bytes.subarray(bodyStart, end);
+    const fileName = disposition.params.filename || type.params.name;
+
+    if (type.value === 'message/rfc822') {
+      const subject = header(parseHeaders(raw.slice(bodyStart, Math.min(end, bodyStart + 64 * 1024)).split(/\r?\n\r?\n/)[0]), 'subject');
+      message.attachments.push({ name: fileName || `${subject ? decodeWords(subject).replace(/[\\/:*?"<>|]/g, '_').slice(0, 80) : 'forwarded message'}.eml`, contentType: type.value, data });
+    } else if (disposition.value === 'attachment' || fileName || !type.value.startsWith('text/')) {
+      message.attachments.push({ name: fileName || `part-${parts}`, contentType: type.value, data });
+    } else if (type.value === 'text/html') {
+      message.html += decodeText(data, type.params.charset);
+    } else {
+      message.text += (message.text ? '\n' : '') + decodeText(data, type.params.charset);
+    }
+  };
+
+  walk(0, raw.length, 0);
+  return message;
+};
+
+/**
+ * Reads an Outlook .msg: the original transport headers when Outlook kept
+ * them, otherwise headers rebuilt from the message's properties.
+ */
+export const parseMsg = (bytes: Uint8Array): ParsedEmail => {
+  const cfb = openCompoundFile(bytes);
+  const byPath = new Map(cfb.entries.map(e => [e.path.toUpperCase(), e]));
+  const prop = (storage: string, id: string): string | Uint8Array | undefined => {
+    const prefix = `${storage}__SUBSTG1.0_${id}`;
+    const unicode = byPath.get(`${prefix}001F`);
+    if (unicode) return new TextDecoder('utf-16le').decode(cfb.read(unicode)).replace(/\0+$/, '');
+    const ansi = byPath.get(`${prefix}001E`);
+    if (ansi) return decodeText(cfb.read(ansi), 'windows-1252').replace(/\0+$/, '');
+    const binary = byPath.get(`${prefix}0102`);
+    return binary ? cfb.read(binary) : undefined;
+  };
+  const text = (storage: string, id: string): string | undefined => {
+    const value = prop(storage, id);
+    return typeof value === 'string' ? value : value ? decodeText(value) : undefined;
+  };
+
+  const transport = text('', '007D');
+  let headers = transport ? parseHeaders(transport).map(h => ({ name: h.name, value: decodeWords(h.value) })) : [];
+  if (!header(headers, 'from')) {
+    const name = text('', '0C1A');
+    const address = text('', '5D01') || text('', '0C1F');
+    const rebuilt: [string, string | undefined][] = [
+      ['from', address ? (name ? `"${name}" <${address}>` : address) : name],
+      ['to', text('', '0E04')],
+      ['subject', text('', '0037')],
+      ['message-id', text('', '1035')]
+    ];
+    headers = [...rebuilt.filter((h): h is [string, string] => !!h[1]).map(([name, value]) => ({ name, value })), ...headers];
+  }
+
+  const attachments: RawAttachment[] = [];
+  const storages = cfb.entries.filter(e => e.type === 1 && /^__attach_version1\.0_#[0-9A-F]{8}$/i.test(e.path));
+  for (const entry of storages.sort((a, b) => a.path.localeCompare(b.path))) {
+    const storage = `${entry.path.toUpperCase()}/`;
+    const name = text(storage, '3707') || text(storage, '3704') || text(storage, '3001') || 'attachment';
+    const contentType = text(storage, '370E') || 'application/octet-stream';
+    const data = prop(storage, '3701');
+    attachments.push(data instanceof Uint8Array
+      ? { name, contentType, data }
+      : { name, contentType, data: null, note: msg(byPath.has(`${storage}__SUBSTG1.0_3701000D`) ? 'note.outlookItem' : 'note.noData') });
+  }
+
+  return { headers, text: text('', '1000') || '', html: text('', '1013') || '', attachments };
+};
+
+interface Mailbox {
+  name: string;
+  address: string;
+  domain: string;
+}
+
+/** The first mailbox in an address header: "Name" <user@host>, user@host (Name) or a bare address. */
+const parseMailbox = (value?: string): Mailbox | null => {
+  if (!value) return null;
+  const angle = value.match(/^\s*("(?:[^"\\]|\\.)*"|[^<"]*)\s*<([^<>]*@[^<>]*)>/);
+  const bare = value.match(/([^\s<>(),;"]+@[^\s<>(),;"]+)(?:\s*\(([^)]*)\))?/);
+  const address = (angle?.[2] ?? bare?.[1] ?? '').trim().toLowerCase();
+  if (!address) return null;
+  const name = (angle ? angle[1] : bare?.[2] ?? '').replace(/^"|"$/g, '').replace(/\\(.)/g, '$1').trim();
+  return { name, address, domain: address.slice(address.lastIndexOf('@') + 1).replace(/[>.\s]+$/, '') };
+};
+
+/**
+ * SPF, DKIM and DMARC results from the receiving server. Only headers from
+ * the topmost server count; anything further down could have been written
+ * by the sender.
+ */
+const authResults = (headers: EmailHeader[]): EmailAuthResult[] => {
+  const stamped = headers.filter(h => h.name === 'authentication-results');
+  const results: EmailAuthResult[] = [];
+  if (stamped.length > 0) {
+    const server = (value: string) => value.split(';')[0].trim().toLowerCase();
+    for (const { value } of stamped.filter(h => server(h.value) === server(stamped[0].value))) {
+      const clean = value.replace(/\([^)]*\)/g, '');
+      for (const [, method, result, rest] of clean.matchAll(/\b(spf|dkim|dmarc)\s*=\s*([a-z]+)([^;]*)/gi)) {
+        const detail = rest.match(/\b(?:header\.from|header\.d|header\.i|smtp\.mailfrom|smtp\.helo)\s*=\s*(\S+)/i)?.[1];
+        results.push({ method: method.toLowerCase() as EmailAuthResult['method'], result: result.toLowerCase(), ...(detail ? { detail } : {}) });
+      }
+    }
+  }
+  const spf = header(headers, 'received-spf');
+  if (!results.some(r => r.method === 'spf') && spf) {
+    results.push({ method: 'spf', result: spf.trim().split(/[\s(;]/)[0].toLowerCase() });
+  }
+  return results;
+};
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+const decodeEntities = (text: string) => text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (whole, name: string) => {
+  if (name[0] === '#') {
+    const code = name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+    return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : whole;
+  }
+  return ENTITIES[name.toLowerCase()] ?? whole;
+});
+
+const hostOf = (url: string): string | null => {
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * The HTML body's links with their visible text. A link whose text reads
+ * as one address but whose href goes to another domain is a mismatch.
+ * Parsed with a pattern rather than a DOM so it runs in a worker.
+ */
+const htmlLinks = (html: string): EmailLink[] => {
+  const links: EmailLink[] = [];
+  for (const [, attributes, inner] of html.matchAll(/<a\b([^>]*)>([\s\S]*?)<\/a\s*>/gi)) {
+    const quoted = attributes.match(/\bhref\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/i);
+    const href = decodeEntities((quoted?.[1] ?? quoted?.[2] ?? quoted?.[3] ?? '').trim());
+    const target = /^(https?|ftp):/i.test(href) ? hostOf(href) : null;
+    if (!target) continue;
+    const text = decodeEntities(inner.replace(/<[^>]*>/g, ' ')).replace(/\s+/g, ' ').trim();
+    const shown = text.match(/^(?:(?:https?|ftp):\/\/)?(?:www\.)?((?:[a-z0-9¡-￿-]+\.)+[a-z¡-￿]{2,})(?:[/:?#]\S*)?$/i)?.[1];
+    const shownHost = shown ? hostOf(`http://${shown}`) : null;
+    const mismatch = !!shownHost && registrableDomain(shownHost) !== registrableDomain(target);
+    links.push({ text: text.slice(0, 200), href, mismatch });
+    if (links.length >= MAX_URLS) break;
+  }
+  return links;
+};
+
+export interface EmailInspection {
+  summary: EmailSummary;
+  findings: Finding[];
+  /** Body links, for the shared link checks. */
+  urls: string[];
+  /** True when every attachment was analyzed. */
+  complete: boolean;
+}
+
+/**
+ * Checks a parsed message's sender and links, and runs each attachment back
+ * through `analyze` within the depth limit and the archive budget. Attachment
+ * verdicts become findings on the message.
+ */
+export const inspectEmail = async (
+  message: ParsedEmail,
+  format: EmailSummary['format'],
+  depth: number,
+  budget: ArchiveBudget,
+  analyze: EntryAnalyzer
+): Promise<EmailInspection> => {
+  const { headers } = message;
+  const findings: Finding[] = [];
+  const from = parseMailbox(header(headers, 'from'));
+  const replyTo = parseMailbox(header(headers, 'reply-to'));
+  const returnPath = parseMailbox(header(headers, 'return-path'));
+  const auth = authResults(headers);
+  const dmarc = auth.find(r => r.method === 'dmarc');
+
+  if (dmarc?.result === 'fail') {
+    findings.push(finding('email-dmarc-fail', 'DANGER', msg('finding.email-dmarc-fail.title'), dmarc.detail
+      ? msg('finding.email-dmarc-fail.descriptionFor', { detail: dmarc.detail })
+      : msg('finding.email-dmarc-fail.description')));
+  }
+  const failed = auth.filter(r => r.method !== 'dmarc' && /^(fail|softfail|permerror)$/.test(r.result));
+  if (failed.length > 0) {
+    const results = failed.map(r => msg(r.detail ? 'finding.email-auth-fail.resultFor' : 'finding.email-auth-fail.result', {
+      method: r.method.toUpperCase(), result: r.result, detail: r.detail ?? ''
+    }));
+    findings.push(finding('email-auth-fail', 'CAUTION', msg('finding.email-auth-fail.title'),
+      msg('finding.email-auth-fail.description', { results: listOf(results) })));
+  }
+  if (auth.length === 0) {
+    findings.push(finding('email-auth-missing', 'INFO', msg('finding.email-auth-missing.title'), msg('finding.email-auth-missing.description')));
+  }
+
+  if (from) {
+    const fromDomain = registrableDomain(from.domain);
+    if (replyTo && registrableDomain(replyTo.domain) !== fromDomain) {
+      findings.push(finding('email-reply-to-mismatch', 'CAUTION', msg('finding.email-reply-to-mismatch.title'),
+        msg('finding.email-reply-to-mismatch.description', { from: from.address, replyTo: replyTo.address })));
+    }
+    if (returnPath && returnPath.domain && registrableDomain(returnPath.domain) !== fromDomain) {
+      const unverified = dmarc !== undefined && dmarc.result !== 'pass';
+      findings.push(finding('email-return-path-mismatch', unverified ? 'CAUTION' : 'INFO', msg('finding.email-return-path-mismatch.title'),
+        msg(unverified ? 'finding.email-return-path-mismatch.descriptionUnverified' : 'finding.email-return-path-mismatch.description', {
+          returnPath: returnPath.address, domain: from.domain
+        })));
+    }
+
+    const shownAddress = from.name.match(/[^\s<>"'()]+@[^\s<>"'()]+\.[a-z]{2,}/i)?.[0].toLowerCase();
+    const brand = brandNamedIn(from.name);
+    const senderName = fromDomain.split('.')[0];
+    if (shownAddress && shownAddress !== from.address) {
+      findings.push(finding('email-display-name-spoof', 'DANGER', msg('finding.email-display-name-spoof.title'),
+        msg('finding.email-display-name-spoof.description', { name: from.name, address: from.address })));
+    } else if (brand && senderName !== brand && !(BRAND_DOMAINS[brand] ?? []).includes(senderName)) {
+      findings.push(finding('email-display-name-brand', 'CAUTION', msg('finding.email-display-name-brand.title'),
+        msg('finding.email-display-name-brand.description', { name: from.name, domain: from.domain, brand })));
+    }
+
+    const lookalike = inspectUrl(`http://${from.domain}/`)?.problems.find(p => p.kind === 'lookalike' || p.kind === 'homoglyph');
+    if (lookalike) {
+      findings.push(finding('email-sender-lookalike', 'DANGER', msg('finding.email-sender-lookalike.title'), msg(lookalike.kind === 'lookalike'
+        ? 'finding.email-sender-lookalike.description'
+        : 'finding.email-sender-lookalike.descriptionHomoglyph', { domain: from.domain, detail: lookalike.detail ?? '' })));
+    }
+  }
+
+  const links = htmlLinks(message.html);
+  const mismatched = links.filter(l => l.mismatch);
+  if (mismatched.length > 0) {
+    const listed = mismatched.map(l => msg('finding.email-link-mismatch.item', { text: l.text, host: hostOf(l.href) }));
+    findings.push(finding('email-link-mismatch', 'DANGER', msg('finding.email-link-mismatch.title'),
+      msg('finding.email-link-mismatch.description', { links: listOf(listed, MAX_LINKS_LISTED, 'semicolon') })));
+  }
+  const urls = Array.from(new Set([...links.map(l => l.href), ...findUrls(message.text)])).slice(0, MAX_URLS);
+
+  const attachments: EmailAttachment[] = [];
+  let complete = true;
+  let flagged = 0;
+  for (const raw of message.attachments) {
+    const attachment: EmailAttachment = { name: raw.name, size: raw.data?.length ?? 0, contentType: raw.contentType };
+    attachments.push(attachment);
+    if (!raw.data) {
+      if (raw.note) note(attachment, raw.note);
+      complete = false;
+      continue;
+    }
+    if (depth >= MAX_ARCHIVE_DEPTH) {
+      note(attachment, msg('note.tooDeep'));
+      complete = false;
+      continue;
+    }
+    if (raw.data.length > MAX_ENTRY_BYTES || raw.data.length > budget.remainingBytes || budget.remainingEntries <= 0) {
+      note(attachment, msg('note.limitReached'));
+      complete = false;
+      continue;
+    }
+    try {
+      budget.remainingBytes -= raw.data.length;
+      budget.remainingEntries -= 1;
+      const result = await analyze(raw.data, raw.name, depth + 1);
+      attachment.verdict = result.verdict;
+      attachment.fileType = result.fileType;
+      const top = result.findings?.find(f => f.severity === result.verdict);
+      if (top) note(attachment, top.messages?.title ?? literal(top.title));
+      else if (result.verdict !== 'SAFE') note(attachment, result.messages?.humanVerdict ?? literal(result.humanVerdict));
+      if (result.verdict === 'SAFE' || ++flagged > MAX_ATTACHMENT_FINDINGS) continue;
+      const isProgram = result.metadata?.isExecutable === true;
+      findings.push(finding(isProgram ? 'email-attachment-executable' : 'email-attachment', result.verdict,
+        msg(isProgram ? 'finding.email-attachment-executable.title' : 'finding.email-attachment.title', { name: raw.name }),
+        msg('finding.email-attachment.description', { name: raw.name, verdict: result.messages?.humanVerdict ?? literal(result.humanVerdict) })));
+    } catch (err: any) {
+      note(attachment, err?.message ? literal(err.message) : msg('note.unreadable'));
+      complete = false;
+    }
+  }
+  if (flagged > MAX_ATTACHMENT_FINDINGS) {
+    const worst = attachments.some(a => a.verdict === 'DANGER') ? 'DANGER' : 'CAUTION';
+    findings.push(finding('email-attachment', worst, msg('finding.email-attachment.more.title', { count: flagged - MAX_ATTACHMENT_FINDINGS }),
+      msg('finding.email-attachment.more.description')));
+  }
+
+  const summary: EmailSummary = {
+    format,
+    from: header(headers, 'from'),
+    replyTo: header(headers, 'reply-to'),
+    returnPath: header(headers, 'return-path'),
+    to: header(headers, 'to'),
+    subject: header(headers, 'subject'),
+    date: header(headers, 'date'),
+    messageId: header(headers, 'message-id'),
+    auth,
+    links,
+    attachments
+  };
+  return { summary, findings, urls, complete };
+};
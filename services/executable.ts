@@ -0,0 +1,413 @@
+import { ExecutableImport, ExecutableInfo, ExecutableSection, Finding, LocalizedText } from '../types';
+import { calculateEntropy, readCString } from '../utils/binaryUtils';
+import { findingMessages, listOf, MessageKey, msg } from './i18n';
+
+/** Executables are parsed from at most this many leading bytes. */
+export const MAX_EXECUTABLE_BYTES = 64 * 1024 * 1024;
+const MAX_SECTIONS = 96;
+const MAX_LIBRARIES = 256;
+const MAX_FUNCTIONS_PER_LIBRARY = 1024;
+const MAX_EXPORTS = 4096;
+const MAX_SYMBOLS = 65536;
+/** Entropy above this in a code section usually means packed or encrypted code. */
+const HIGH_ENTROPY = 7.2;
+
+const PE_MACHINES: Record<number, string> = {
+  0x014c: 'x86 (i386)',
+  0x8664: 'x86-64 (AMD64)',
+  0x01c0: 'ARM',
+  0x01c4: 'ARMv7 Thumb-2',
+  0xaa64: 'ARM64',
+  0x0200: 'Intel Itanium'
+};
+
+const PE_SUBSYSTEMS: Record<number, string> = {
+  1: 'Native',
+  2: 'Windows GUI',
+  3: 'Windows Console',
+  9: 'Windows CE',
+  10: 'EFI Application',
+  11: 'EFI Boot Driver',
+  12: 'EFI Runtime Driver',
+  14: 'Xbox',
+  16: 'Windows Boot Application'
+};
+
+const ELF_MACHINES: Record<number, string> = {
+  0x03: 'x86 (i386)',
+  0x08: 'MIPS',
+  0x14: 'PowerPC',
+  0x15: 'PowerPC 64',
+  0x28: 'ARM',
+  0x3e: 'x86-64',
+  0xb7: 'AArch64',
+  0xf3: 'RISC-V'
+};
+
+const ELF_TYPES: Record<number, string> = {
+  1: 'Relocatable object',
+  2: 'Executable',
+  3: 'Shared object',
+  4: 'Core dump'
+};
+
+/** Section names left behind by common packers and protectors. */
+const PACKER_SECTIONS: Record<string, string> = {
+  'UPX0': 'UPX', 'UPX1': 'UPX', 'UPX2': 'UPX',
+  '.aspack': 'ASPack', '.adata': 'ASPack',
+  '.MPRESS1': 'MPRESS', '.MPRESS2': 'MPRESS',
+  '.petite': 'Petite',
+  '.nsp0': 'NsPack', '.nsp1': 'NsPack',
+  '.themida': 'Themida', '.winlice': 'WinLicense',
+  '.vmp0': 'VMProtect', '.vmp1': 'VMProtect',
+  '.enigma1': 'Enigma', '.enigma2': 'Enigma',
+  'PEC2': 'PECompact', 'pec1': 'PECompact'
+};
+
+/** Imports that, together, are the textbook recipe for injecting code into another process. */
+const INJECTION_IMPORTS = ['VirtualAllocEx', 'WriteProcessMemory', 'CreateRemoteThread', 'NtCreateThreadEx', 'QueueUserAPC', 'SetThreadContext', 'NtUnmapViewOfSection'];
+
+const SUSPICIOUS_IMPORTS: Record<string, MessageKey> = {
+  VirtualAlloc: 'import.allocateExecutable',
+  VirtualAllocEx: 'import.allocateRemote',
+  VirtualProtect: 'import.makeExecutable',
+  WriteProcessMemory: 'import.writeProgram',
+  CreateRemoteThread: 'import.startRemote',
+  NtCreateThreadEx: 'import.startRemote',
+  QueueUserAPC: 'import.startRemote',
+  SetThreadContext: 'import.hijackThread',
+  NtUnmapViewOfSection: 'import.hollow',
+  SetWindowsHookExA: 'import.watchInput',
+  SetWindowsHookExW: 'import.watchInput',
+  GetAsyncKeyState: 'import.readKeys',
+  URLDownloadToFileA: 'import.download',
+  URLDownloadToFileW: 'import.download',
+  WinExec: 'import.runPrograms',
+  CheckRemoteDebuggerPresent: 'import.detectAnalysis',
+  AdjustTokenPrivileges: 'import.raisePrivileges',
+  CryptEncrypt: 'import.encrypt',
+  ptrace: 'import.controlProcesses',
+  process_vm_writev: 'import.writeProcess',
+  memfd_create: 'import.memoryOnly',
+  fexecve: 'import.memoryOnly'
+};
+
+const permissionString = (read: boolean, write: boolean, exec: boolean) =>
+  `${read ? 'R' : ''}${write ? 'W' : ''}${exec ? 'X' : ''}`;
+
+const rangeEntropy = (bytes: Uint8Array, offset: number, size: number): number | undefined => {
+  if (size <= 0 || offset + size > bytes.length) return undefined;
+  return Math.round(calculateEntropy(bytes.subarray(offset, offset + size)) * 100) / 100;
+};
+
+// ---------------------------------------------------------------------------
+// PE
+// ---------------------------------------------------------------------------
+
+interface PeSection extends ExecutableSection {
+  rawOffset: number;
+}
+
+const parsePe = (bytes: Uint8Array): ExecutableInfo | null => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (bytes.length < 0x40) return null;
+  const peOffset = view.getUint32(0x3c, true);
+  if (peOffset + 24 > bytes.length || view.getUint32(peOffset, true) !== 0x00004550) return null;
+
+  const coff = peOffset + 4;
+  const machine = view.getUint16(coff, true);
+  const sectionCount = Math.min(view.getUint16(coff + 2, true), MAX_SECTIONS);
+  const timestamp = view.getUint32(coff + 4, true);
+  const optionalSize = view.getUint16(coff + 16, true);
+  const characteristics = view.getUint16(coff + 18, true);
+  const opt = coff + 20;
+  if (opt + 2 > bytes.length) return null;
+
+  const magic = view.getUint16(opt, true);
+  const is64 = magic === 0x20b;
+  const dataDirs = opt + (is64 ? 112 : 96);
+  const dirCountOffset = opt + (is64 ? 108 : 92);
+  const dirCount = dirCountOffset + 4 <= bytes.length ? view.getUint32(dirCountOffset, true) : 0;
+  const dir = (index: number) => {
+    const at = dataDirs + index * 8;
+    if (index >= dirCount || at + 8 > bytes.length) return { rva: 0, size: 0 };
+    return { rva: view.getUint32(at, true), size: view.getUint32(at + 4, true) };
+  };
+
+  const sections: PeSection[] = [];
+  const sectionTable = opt + optionalSize;
+  for (let i = 0; i < sectionCount; i++) {
+    const at = sectionTable + i * 40;
+    if (at + 40 > bytes.length) break;
+    const flags = view.getUint32(at + 36, true);
+    const rawSize = view.getUint32(at + 16, true);
+    const rawOffset = view.getUint32(at + 20, true);
+    sections.push({
+      name: readCString(bytes, at, 8),
+      virtualSize: view.getUint32(at + 8, true),
+      virtualAddress: view.getUint32(at + 12, true),
+      rawSize,
+      rawOffset,
+      entropy: rangeEntropy(bytes, rawOffset, rawSize),
+      permissions: permissionString((flags & 0x40000000) !== 0, (flags & 0x80000000) !== 0, (flags & 0x20000000) !== 0)
+    });
+  }
+
+  const rvaToOffset = (rva: number): number => {
+    const s = sections.find(sec => rva >= sec.virtualAddress && rva < sec.virtualAddress + Math.max(sec.virtualSize, sec.rawSize));
+    if (!s) return rva < bytes.length ? rva : -1;
+    const offset = rva - s.virtualAddress + s.rawOffset;
+    return offset < bytes.length ? offset : -1;
+  };
+
+  const imports: ExecutableImport[] = [];
+  const importDir = dir(1);
+  let descriptor = importDir.rva ? rvaToOffset(importDir.rva) : -1;
+  while (descriptor >= 0 && descriptor + 20 <= bytes.length && imports.length < MAX_LIBRARIES) {
+    const originalThunk = view.getUint32(descriptor, true);
+    const nameRva = view.getUint32(descriptor + 12, true);
+    const firstThunk = view.getUint32(descriptor + 16, true);
+    if (nameRva === 0 && firstThunk === 0) break;
+    const nameOffset = rvaToOffset(nameRva);
+    const library = nameOffset >= 0 ? readCString(bytes, nameOffset) : '(unknown)';
+    const functions: string[] = [];
+    let thunk = rvaToOffset(originalThunk || firstThunk);
+    const thunkSize = is64 ? 8 : 4;
+    while (thunk >= 0 && thunk + thunkSize <= bytes.length && functions.length < MAX_FUNCTIONS_PER_LIBRARY) {
+      const value = is64 ? view.getBigUint64(thunk, true) : BigInt(view.getUint32(thunk, true));
+      if (value === 0n) break;
+      const ordinalFlag = is64 ? 1n << 63n : 1n << 31n;
+      if (value & ordinalFlag) {
+        functions.push(`#${Number(value & 0xffffn)}`);
+      } else {
+        const hintName = rvaToOffset(Number(value & 0x7fffffffn));
+        functions.push(hintName >= 0 ? readCString(bytes, hintName + 2) : '(unknown)');
+      }
+      thunk += thunkSize;
+    }
+    imports.push({ library, functions });
+    descriptor += 20;
+  }
+
+  const exports: string[] = [];
+  const exportDir = dir(0);
+  const exportOffset = exportDir.rva ? rvaToOffset(exportDir.rva) : -1;
+  if (exportOffset >= 0 && exportOffset + 40 <= bytes.length) {
+    const nameCount = Math.min(view.getUint32(exportOffset + 24, true), MAX_EXPORTS);
+    const namesOffset = rvaToOffset(view.getUint32(exportOffset + 32, true));
+    for (let i = 0; namesOffset >= 0 && i < nameCount && namesOffset + i * 4 + 4 <= bytes.length; i++) {
+      const nameOffset = rvaToOffset(view.getUint32(namesOffset + i * 4, true));
+      if (nameOffset >= 0) exports.push(readCString(bytes, nameOffset));
+    }
+  }
+
+  // The certificate table is the one data directory that holds a file offset instead of an RVA.
+  const security = dir(4);
+
+  return {
+    format: 'PE',
+    machine: PE_MACHINES[machine] || `Unknown (0x${machine.toString(16)})`,
+    bits: is64 ? 64 : 32,
+    kind: (characteristics & 0x2000) !== 0 ? 'DLL' : 'Executable',
+    subsystem: opt + 70 <= bytes.length ? PE_SUBSYSTEMS[view.getUint16(opt + 68, true)] : undefined,
+    entryPoint: opt + 20 <= bytes.length ? view.getUint32(opt + 16, true) : 0,
+    compiledAt: timestamp ? new Date(timestamp * 1000).toISOString() : undefined,
+    sections: sections.map(({ rawOffset, ...section }) => section),
+    imports,
+    exports,
+    hasSignature: security.rva > 0 && security.size > 0
+  };
+};
+
+// ---------------------------------------------------------------------------
+// ELF
+// ---------------------------------------------------------------------------
+
+const parseElf = (bytes: Uint8Array): ExecutableInfo | null => {
+  if (bytes.length < 52) return null;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const is64 = bytes[4] === 2;
+  const le = bytes[5] !== 2;
+  const u16 = (at: number) => view.getUint16(at, le);
+  const u32 = (at: number) => view.getUint32(at, le);
+  const word = (at: number) => (is64 ? Number(view.getBigUint64(at, le)) : view.getUint32(at, le));
+  const inRange = (at: number, length: number) => at >= 0 && at + length <= bytes.length;
+
+  const type = u16(16);
+  const machine = u16(18);
+  const entryPoint = word(24);
+  const phOffset = word(is64 ? 32 : 28);
+  const shOffset = word(is64 ? 40 : 32);
+  const phSize = u16(is64 ? 54 : 42);
+  const phCount = u16(is64 ? 56 : 44);
+  const shSize = u16(is64 ? 58 : 46);
+  const shCount = Math.min(u16(is64 ? 60 : 48), MAX_SECTIONS);
+  const shStrIndex = u16(is64 ? 62 : 50);
+
+  let interpreter: string | undefined;
+  for (let i = 0; i < phCount; i++) {
+    const at = phOffset + i * phSize;
+    if (!inRange(at, is64 ? 56 : 32)) break;
+    if (u32(at) === 3) {
+      const offset = word(at + (is64 ? 8 : 4));
+      if (inRange(offset, 1)) interpreter = readCString(bytes, offset);
+    }
+  }
+
+  interface RawSection { nameOffset: number; type: number; flags: number; addr: number; offset: number; size: number; link: number; entSize: number }
+  const raw: RawSection[] = [];
+  for (let i = 0; i < shCount; i++) {
+    const at = shOffset + i * shSize;
+    if (!inRange(at, is64 ? 64 : 40)) break;
+    raw.push({
+      nameOffset: u32(at),
+      type: u32(at + 4),
+      flags: word(at + 8),
+      addr: word(at + (is64 ? 16 : 12)),
+      offset: word(at + (is64 ? 24 : 16)),
+      size: word(at + (is64 ? 32 : 20)),
+      link: u32(at + (is64 ? 40 : 24)),
+      entSize: word(at + (is64 ? 56 : 36))
+    });
+  }
+
+  const strtab = raw[shStrIndex];
+  const sections: ExecutableSection[] = raw.map(s => ({
+    name: strtab && inRange(strtab.offset + s.nameOffset, 1) ? readCString(bytes, strtab.offset + s.nameOffset) : '',
+    virtualAddress: s.addr,
+    virtualSize: s.size,
+    // SHT_NOBITS (.bss) occupies no space in the file.
+    rawSize: s.type === 8 ? 0 : s.size,
+    entropy: s.type === 8 ? undefined : rangeEntropy(bytes, s.offset, s.size),
+    permissions: permissionString((s.flags & 0x2) !== 0, (s.flags & 0x1) !== 0, (s.flags & 0x4) !== 0)
+  }));
+
+  const stringAt = (table: RawSection | undefined, offset: number) =>
+    table && inRange(table.offset + offset, 1) ? readCString(bytes, table.offset + offset) : '';
+
+  const needed: string[] = [];
+  const dynamic = raw.find(s => s.type === 6);
+  if (dynamic) {
+    const entrySize = is64 ? 16 : 8;
+    for (let at = dynamic.offset; inRange(at, entrySize) && at < dynamic.offset + dynamic.size; at += entrySize) {
+      const tag = word(at);
+      if (tag === 0) break;
+      if (tag === 1 && needed.length < MAX_LIBRARIES) needed.push(stringAt(raw[dynamic.link], word(at + (is64 ? 8 : 4))));
+    }
+  }
+
+  const importedSymbols: string[] = [];
+  const exports: string[] = [];
+  const dynsym = raw.find(s => s.type === 11);
+  if (dynsym) {
+    // Elf32_Sym is 16 bytes and Elf64_Sym 24; a smaller entry size is hostile and would make the walk byte by byte.
+    const symbolSize = is64 ? 24 : 16;
+    const entrySize = dynsym.entSize || symbolSize;
+    const count = entrySize < symbolSize ? 0 : Math.min(Math.floor(dynsym.size / entrySize), MAX_SYMBOLS);
+    for (let i = 1, at = dynsym.offset + entrySize; i < count && inRange(at, symbolSize); i++, at += entrySize) {
+      const name = stringAt(raw[dynsym.link], u32(at));
+      const info = bytes[at + (is64 ? 4 : 12)];
+      const shndx = u16(at + (is64 ? 6 : 14));
+      const isFunction = (info & 0xf) === 2;
+      const isGlobal = (info >> 4) === 1 || (info >> 4) === 2;
+      if (!name) continue;
+      if (shndx === 0 && importedSymbols.length < MAX_FUNCTIONS_PER_LIBRARY) importedSymbols.push(name);
+      else if (isFunction && isGlobal && exports.length < MAX_EXPORTS) exports.push(name);
+    }
+  }
+
+  // ELF does not bind symbols to libraries, so undefined symbols are listed on their own.
+  const imports: ExecutableImport[] = needed.map(library => ({ library, functions: [] }));
+  if (importedSymbols.length > 0) imports.push({ library: '(dynamic symbols)', functions: importedSymbols });
+
+  return {
+    format: 'ELF',
+    machine: ELF_MACHINES[machine] || `Unknown (0x${machine.toString(16)})`,
+    bits: is64 ? 64 : 32,
+    kind: ELF_TYPES[type] || 'Unknown',
+    entryPoint,
+    interpreter,
+    sections,
+    imports,
+    exports
+  };
+};
+
+/**
+ * Parses PE and ELF headers, sections, imports and exports. Returns null for
+ * anything else or a header too damaged to read.
+ */
+export const parseExecutable = (bytes: Uint8Array): ExecutableInfo | null => {
+  try {
+    if (bytes[0] === 0x4d && bytes[1] === 0x5a) return parsePe(bytes);
+    if (bytes[0] === 0x7f && bytes[1] === 0x45 && bytes[2] === 0x4c && bytes[3] === 0x46) return parseElf(bytes);
+  } catch {
+    // Truncated or hostile headers make DataView throw; treat as unparseable.
+  }
+  return null;
+};
+
+/** Reported when a file has a PE or ELF signature but parseExecutable could not read its headers. */
+export const unparsedExecutableFinding = (): Finding => ({
+  id: 'exe-unparsed',
+  severity: 'INFO',
+  ...findingMessages(msg('finding.exe-unparsed.title'), msg('finding.exe-unparsed.description')),
+  source: 'executable'
+});
+
+/**
+ * Turns parsed structure into findings: injection imports, packers,
+ * high-entropy code and writable+executable sections.
+ */
+export const executableFindings = (info: ExecutableInfo): Finding[] => {
+  const findings: Finding[] = [];
+  const allFunctions = info.imports.flatMap(i => i.functions);
+  const flag = (id: string, severity: Finding['severity'], title: LocalizedText, description: LocalizedText) => {
+    findings.push({ id, severity, ...findingMessages(title, description), source: 'executable' });
+  };
+  const sectionName = (s: ExecutableSection) => s.name || msg('finding.exe.unnamedSection');
+
+  const injection = INJECTION_IMPORTS.filter(name => allFunctions.includes(name));
+  if (injection.length >= 3) {
+    flag('exe-injection-imports', 'DANGER', msg('finding.exe-injection-imports.title'),
+      msg('finding.exe-injection-imports.description', { names: injection.join(', ') }));
+  }
+
+  const suspicious = Array.from(new Set(allFunctions.filter(name => SUSPICIOUS_IMPORTS[name] && !injection.includes(name))));
+  if (suspicious.length > 0) {
+    flag('exe-suspicious-imports', 'CAUTION', msg('finding.exe-suspicious-imports.title'), msg('finding.exe-suspicious-imports.description', {
+      imports: listOf(suspicious.map(name => msg('finding.exe-suspicious-imports.item', { name, purpose: msg(SUSPICIOUS_IMPORTS[name]) })))
+    }));
+  }
+
+  const packers = Array.from(new Set(info.sections.map(s => PACKER_SECTIONS[s.name]).filter(Boolean)));
+  if (packers.length > 0) {
+    flag('exe-packed', 'CAUTION', msg('finding.exe-packed.title', { packers: packers.join(', ') }), msg('finding.exe-packed.description'));
+  }
+
+  const dense = info.sections.filter(s => s.entropy !== undefined && s.entropy > HIGH_ENTROPY && s.permissions.includes('X'));
+  if (dense.length > 0 && packers.length === 0) {
+    flag('exe-high-entropy', 'CAUTION', msg('finding.exe-high-entropy.title'), msg('finding.exe-high-entropy.description', {
+      count: dense.length,
+      sections: listOf(dense.map(s => msg('finding.exe-high-entropy.section', { name: sectionName(s), entropy: s.entropy! })))
+    }));
+  }
+
+  const writableCode = info.sections.filter(s => s.permissions.includes('W') && s.permissions.includes('X'));
+  if (writableCode.length > 0) {
+    flag('exe-wx-section', 'CAUTION', msg('finding.exe-wx-section.title'),
+      msg('finding.exe-wx-section.description', { count: writableCode.length, sections: listOf(writableCode.map(sectionName)) }));
+  }
+
+  if (info.format === 'PE' && info.imports.length > 0 && allFunctions.length < 5 && info.sections.some(s => (s.entropy ?? 0) > HIGH_ENTROPY)) {
+    flag('exe-few-imports', 'CAUTION', msg('finding.exe-few-imports.title'), msg('finding.exe-few-imports.description', { count: allFunctions.length }));
+  }
+
+  if (info.format === 'PE') {
+    flag('exe-signature', 'INFO',
+      msg(info.hasSignature ? 'finding.exe-signature.title' : 'finding.exe-unsigned.title'),
+      msg(info.hasSignature ? 'finding.exe-signature.description' : 'finding.exe-unsigned.description'));
+  }
+
+  return findings;
+};
@@ -1,44 +1,78 @@
-import { GoogleGenAI, Type, Chat } from "@google/genai";
-import { fileToBase64, getSafeMimeType } from "../utils/fileUtils";
+import { GoogleGenAI, Type } from "@google/genai";
+import { AnalysisResult } from "../types";
+import { AiSettings, AnalysisProvider, analysisPrompt, chatInstruction, ChatSession, getAiSettings, modelFor } from "./aiProvider";
+import { getApiKey } from "./keyVault";
+import { AiPayload, getAiPayload, PayloadOptions } from "./payload";
+import { parseAiResult } from "./validation";
 
-const getApiKey = () => {
-  // Check Local Storage first (User preference)
-  const stored = localStorage.getItem('omni_api_key');
-  if (stored && stored.trim() !== '') return stored.trim();
-  
-  // Check Environment Variable (Vercel injection)
-  const env = (window as any).process?.env || {};
-  const envKey = env.API_KEY || env.NEXT_PUBLIC_API_KEY || env.VITE_API_KEY;
-  if (envKey && envKey !== 'undefined' && envKey !== '') return envKey;
-  
-  return '';
+/** The proxy adds the real key server-side; the SDK just needs something non-empty to send. */
+const PROXY_PLACEHOLDER_KEY = 'proxy';
+
+const proxyBase = (settings: AiSettings): string => {
+  const proxy = settings.geminiProxyUrl.trim();
+  if (!proxy) return '';
+  try {
+    return new URL(proxy, location.href).href.replace(/\/+$/, '');
+  } catch {
+    return '';
+  }
 };
 
-export const analyzeFile = async (file: File) => {
+/** A proxy or an unlocked key is enough to call Gemini. */
+export const canUseGemini = (settings: AiSettings = getAiSettings()) => proxyBase(settings) !== '' || getApiKey() !== '';
+
+const createClient = (settings: AiSettings = getAiSettings()): GoogleGenAI => {
+  const baseUrl = proxyBase(settings);
+  if (baseUrl) return new GoogleGenAI({ apiKey: PROXY_PLACEHOLDER_KEY, httpOptions: { baseUrl } });
   const key = getApiKey();
-  if (!key) throw new Error("No API key available for deep analysis.");
+  if (!key) throw new Error("No Gemini API key is unlocked.");
+  return new GoogleGenAI({ apiKey: key });
+};
+
+/**
+ * Checks a key (or the configured proxy when `key` is omitted) by looking up
+ * the selected model, which costs no tokens. Resolves to the model's name.
+ */
+export const testGeminiConnection = async (settings: AiSettings, key?: string): Promise<string> => {
+  const ai = key ? new GoogleGenAI({ apiKey: key.trim() }) : createClient(settings);
+  const model = modelFor(settings);
+  try {
+    const info = await ai.models.get({ model });
+    return info.displayName || info.name || model;
+  } catch (err: any) {
+    const message = String(err?.message ?? err);
+    if (/API_KEY_INVALID|API key not valid|PERMISSION_DENIED/i.test(message)) throw new Error("Google rejected this key.");
+    if (/NOT_FOUND|\b404\b/.test(message)) throw new Error(`The key works, but the model "${model}" was not found.`);
+    throw new Error(`Could not reach Gemini: ${message}`);
+  }
+};
 
-  const ai = new GoogleGenAI({ apiKey: key });
-  const base64Data = await fileToBase64(file);
-  const mimeType = getSafeMimeType(file);
+/** Gemini takes most files inline; text beyond this is excerpted to leave room for the conversation. */
+const PAYLOAD_OPTIONS: PayloadOptions = { binary: true, maxTextChars: 800_000 };
 
-  const prompt = `You are a high-level security and file analyst. Analyze the provided file: "${file.name}".
-  Determine its safety and content. Provide a verdict (SAFE, CAUTION, or DANGER) and a simple human-readable explanation.
-  If it contains code, explain what the code does. If it's a document, summarize the intent.
-  Respond strictly in JSON format matching the schema provided.`;
+const filePart = (payload: AiPayload) => {
+  return payload.inline ? { inlineData: { data: payload.inline.base64, mimeType: payload.inline.mimeType } } : { text: payload.text! };
+};
+
+const analyzeFile = async (file: File, signal?: AbortSignal): Promise<AnalysisResult> => {
+  const ai = createClient();
+  const payload = await getAiPayload(file, PAYLOAD_OPTIONS);
+
+  const prompt = analysisPrompt(file.name);
 
   try {
     const response = await ai.models.generateContent({
-      model: "gemini-3-pro-preview",
+      model: modelFor(getAiSettings()),
       contents: [
         {
           parts: [
             { text: prompt },
-            { inlineData: { data: base64Data, mimeType: mimeType } }
+            filePart(payload)
           ]
         }
       ],
       config: {
+        abortSignal: signal,
         responseMimeType: "application/json",
         responseSchema: {
           type: Type.OBJECT,
@@ -67,29 +101,28 @@ export const analyzeFile = async (file: File) => {
 
     const textResult = response.text;
     if (!textResult) throw new Error("Empty response from Gemini");
-    return JSON.parse(textResult);
+    return { ...parseAiResult(textResult), aiCoverage: payload.coverage };
   } catch (error) {
     console.error("Gemini AI Analysis Error:", error);
     throw error;
   }
 };
 
-export const createChatSession = (fileData: string, mimeType: string, fileName: string): Chat => {
-  const key = getApiKey();
-  if (!key) throw new Error("API Key required for chat.");
-  
-  const ai = new GoogleGenAI({ apiKey: key });
-  return ai.chats.create({
-    model: "gemini-3-pro-preview",
+const createChatSession = async (file: File, result: AnalysisResult): Promise<ChatSession> => {
+  const ai = createClient();
+  const payload = await getAiPayload(file, PAYLOAD_OPTIONS);
+  const fileName = file.name;
+
+  const chat = ai.chats.create({
+    model: modelFor(getAiSettings()),
     config: {
-      systemInstruction: `You are the OmniAI Assistant. You are currently analyzing a file named "${fileName}" with a user. 
-      You have access to its binary or text content. Be helpful, technical but clear, and always emphasize user security.`,
+      systemInstruction: chatInstruction(fileName, result),
     },
     history: [
       {
         role: 'user',
         parts: [
-          { inlineData: { data: fileData, mimeType: mimeType } },
+          filePart(payload),
           { text: `I've uploaded "${fileName}". Let's discuss it.` }
         ],
       },
@@ -99,4 +132,19 @@ export const createChatSession = (fileData: string, mimeType: string, fileName:
       }
     ]
   });
-};
\ No newline at end of file
+  return {
+    sendMessageStream: async function* (text: string, signal?: AbortSignal) {
+      const stream = await chat.sendMessageStream({ message: text, config: { abortSignal: signal } });
+      for await (const chunk of stream) {
+        if (chunk.text) yield chunk.text;
+      }
+    }
+  };
+};
+
+export const geminiProvider: AnalysisProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  analyzeFile,
+  createChatSession
+};
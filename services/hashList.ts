@@ -0,0 +1,94 @@
+import { FileHashes } from '../types';
+import { HASH_STORE, hasIndexedDb, openDb, requestToPromise, transactionDone } from './db';
+
+export type HashListKind = 'block' | 'allow';
+
+export interface HashListEntry {
+  /** Lower-case hex MD5, SHA-1 or SHA-256. */
+  hash: string;
+  list: HashListKind;
+  /** Free text from the imported line, e.g. a malware family or file name. */
+  label?: string;
+  /** Name of the file the entry was imported from. */
+  source: string;
+  addedAt: string;
+}
+
+const HASH_TOKEN = /^([a-f0-9]{32}|[a-f0-9]{40}|[a-f0-9]{64})$/i;
+
+/**
+ * Pulls hashes out of a plain-text or CSV list. Each line contributes its
+ * first MD5/SHA-1/SHA-256 token; the rest of the line (or the first other
+ * CSV column) becomes the label.
+ * Lines without a hash (headers, comments) are skipped.
+ */
+export const parseHashList = (text: string): { hash: string; label?: string }[] => {
+  const out: { hash: string; label?: string }[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    if (/^\s*(#|\/\/)/.test(line)) continue;
+    // CSV-style lines keep spaces inside columns; plain lines ("<hash>  name") split on whitespace.
+    const delimited = /[,;\t]/.test(line);
+    const tokens = (delimited ? line.split(/[,;\t]/) : line.trim().split(/\s+/))
+      .map(t => t.trim().replace(/^["'*]+|["']+$/g, ''))
+      .filter(Boolean);
+    const hash = tokens.find(t => HASH_TOKEN.test(t));
+    if (!hash) continue;
+    const rest = tokens.filter(t => !HASH_TOKEN.test(t));
+    const label = delimited ? rest[0] : rest.join(' ');
+    out.push({ hash: hash.toLowerCase(), ...(label ? { label: label.slice(0, 120) } : {}) });
+  }
+  return out;
+};
+
+/**
+ * Adds every hash in `text` to a list. A hash already on the other list is
+ * moved, so the most recent import wins. Throws if the text has no hashes.
+ */
+export const importHashList = async (text: string, list: HashListKind, source: string): Promise<number> => {
+  const parsed = parseHashList(text);
+  if (parsed.length === 0) throw new Error("No MD5, SHA-1 or SHA-256 hashes found in this file.");
+  const db = await openDb();
+  const tx = db.transaction(HASH_STORE, 'readwrite');
+  const store = tx.objectStore(HASH_STORE);
+  const addedAt = new Date().toISOString();
+  for (const { hash, label } of parsed) {
+    const entry: HashListEntry = { hash, list, source, addedAt, ...(label ? { label } : {}) };
+    store.put(entry);
+  }
+  await transactionDone(tx);
+  return parsed.length;
+};
+
+export const countHashList = async (): Promise<Record<HashListKind, number>> => {
+  if (!hasIndexedDb()) return { block: 0, allow: 0 };
+  const db = await openDb();
+  const index = db.transaction(HASH_STORE).objectStore(HASH_STORE).index('list');
+  const [block, allow] = await Promise.all([
+    requestToPromise(index.count('block')),
+    requestToPromise(index.count('allow'))
+  ]);
+  return { block, allow };
+};
+
+export const clearHashList = async (list: HashListKind): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(HASH_STORE, 'readwrite');
+  const index = tx.objectStore(HASH_STORE).index('list');
+  const keys = await requestToPromise(index.getAllKeys(list));
+  for (const key of keys) tx.objectStore(HASH_STORE).delete(key);
+  await transactionDone(tx);
+};
+
+/**
+ * Finds the file's hashes on the local lists. A blocklist hit takes priority
+ * over an allowlist hit on a different hash. Returns null without IndexedDB.
+ */
+export const lookupHashes = async (hashes: FileHashes): Promise<HashListEntry | null> => {
+  if (!hasIndexedDb()) return null;
+  const db = await openDb();
+  const store = db.transaction(HASH_STORE).objectStore(HASH_STORE);
+  const hits = (await Promise.all(
+    [hashes.sha256, hashes.sha1, hashes.md5].map(h => requestToPromise(store.get(h) as IDBRequest<HashListEntry | undefined>))
+  )).filter((e): e is HashListEntry => !!e);
+  return hits.find(e => e.list === 'block') || hits[0] || null;
+};
@@ -0,0 +1,40 @@
+import { FileHashes } from '../types';
+import { createMd5, createSha1, createSha256 } from '../utils/digests';
+
+/** Files up to this size are read whole and hashed with Web Crypto; larger ones are streamed. */
+export const WEB_CRYPTO_MAX_BYTES = 64 * 1024 * 1024;
+
+const toHex = (buffer: ArrayBuffer): string => {
+  return Array.from(new Uint8Array(buffer), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const hashStream = async (file: Blob): Promise<FileHashes> => {
+  const md5 = createMd5();
+  const sha1 = createSha1();
+  const sha256 = createSha256();
+  const reader = file.stream().getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    md5.update(value);
+    sha1.update(value);
+    sha256.update(value);
+  }
+  return { md5: md5.digest(), sha1: sha1.digest(), sha256: sha256.digest() };
+};
+
+/**
+ * MD5, SHA-1 and SHA-256 of the whole file. Web Crypto handles SHA-1/SHA-256
+ * when it is available (secure contexts only) and the file fits in memory.
+ */
+export const hashFile = async (file: Blob): Promise<FileHashes> => {
+  if (file.size > WEB_CRYPTO_MAX_BYTES || !globalThis.crypto?.subtle) return hashStream(file);
+  const data = new Uint8Array(await file.arrayBuffer());
+  const md5 = createMd5();
+  md5.update(data);
+  const [sha1, sha256] = await Promise.all([
+    crypto.subtle.digest('SHA-1', data),
+    crypto.subtle.digest('SHA-256', data)
+  ]);
+  return { md5: md5.digest(), sha1: toHex(sha1), sha256: toHex(sha256) };
+};
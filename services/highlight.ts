@@ -0,0 +1,120 @@
+export type TokenKind = 'plain' | 'comment' | 'string' | 'keyword' | 'number' | 'tag' | 'attribute';
+
+export interface Token {
+  kind: TokenKind;
+  text: string;
+}
+
+interface Grammar {
+  /** Tried in order at each position; the first match wins. */
+  rules: [TokenKind, RegExp][];
+  keywords?: Set<string>;
+}
+
+const words = (list: string) => new Set(list.split(' '));
+
+const C_STRINGS: [TokenKind, RegExp][] = [
+  ['string', /"(?:\\.|[^"\\\n])*"?|'(?:\\.|[^'\\\n])*'?/y],
+  ['number', /\b(?:0x[\da-f]+|\d+(?:\.\d+)?(?:e[+-]?\d+)?)\b/iy]
+];
+
+const GRAMMARS: Record<string, Grammar> = {
+  javascript: {
+    rules: [['comment', /\/\/[^\n]*|\/\*[^]*?(?:\*\/|$)/y], ['string', /`(?:\\[^]|[^`\\])*`?/y], ...C_STRINGS],
+    keywords: words('async await break case catch class const continue debugger default delete do else export extends finally for from function if import in instanceof let new of return static super switch this throw try typeof var void while with yield null undefined true false eval document window')
+  },
+  python: {
+    rules: [['comment', /#[^\n]*/y], ['string', /(?:[rbuf]{0,2})(?:"""[^]*?(?:"""|$)|'''[^]*?(?:'''|$))/iy], ...C_STRINGS],
+    keywords: words('and as assert async await break class continue def del elif else except exec finally for from global if import in is lambda nonlocal not or pass print raise return try while with yield None True False')
+  },
+  shell: {
+    rules: [['comment', /#[^\n]*/y], ...C_STRINGS],
+    keywords: words('if then else elif fi case esac for while until do done function in return exit export local readonly eval exec source set unset curl wget chmod sudo base64 nc bash sh')
+  },
+  powershell: {
+    rules: [['comment', /<#[^]*?(?:#>|$)|#[^\n]*/y], ...C_STRINGS],
+    keywords: words('begin break catch class continue data do dynamicparam else elseif end exit filter finally for foreach function if in param process return switch throw trap try until while invoke-expression iex invoke-webrequest iwr new-object start-process downloadstring frombase64string')
+  },
+  batch: {
+    rules: [['comment', /(?:rem\b|::)[^\n]*/iy], ['string', /"[^"\n]*"?/y], ['number', /\b\d+\b/y]],
+    keywords: words('echo set if else goto call exit for in do not exist errorlevel start cmd powershell del copy move mkdir rmdir reg bitsadmin certutil')
+  },
+  vbscript: {
+    rules: [['comment', /(?:'|rem\b)[^\n]*/iy], ['string', /"(?:""|[^"\n])*"?/y], ['number', /\b\d+(?:\.\d+)?\b/y]],
+    keywords: words('dim set if then else elseif end sub function call createobject wscript shell run exec on error resume next for each in to next do loop while wend select case new nothing true false and or not chr execute executeglobal')
+  },
+  css: {
+    rules: [['comment', /\/\*[^]*?(?:\*\/|$)/y], ...C_STRINGS, ['keyword', /@[\w-]+/y], ['attribute', /[\w-]+(?=\s*:)/y]]
+  },
+  markup: {
+    rules: [
+      ['comment', /<!--[^]*?(?:-->|$)/y],
+      ['tag', /<\/?[\w:-]+|\/?>/y],
+      ['attribute', /[\w:-]+(?==)/y],
+      ['string', /"[^"]*"?|'[^']*'?/y]
+    ]
+  },
+  json: {
+    rules: [['attribute', /"(?:\\.|[^"\\\n])*"(?=\s*:)/y], ...C_STRINGS],
+    keywords: words('true false null')
+  },
+  ini: {
+    rules: [['comment', /[;#][^\n]*/y], ['tag', /\[[^\]\n]*\]/y], ['attribute', /^[^=\n]+(?==)/my], ['string', /"[^"\n]*"?/y]]
+  }
+};
+
+const EXTENSION_LANGUAGES: Record<string, string> = {
+  js: 'javascript', mjs: 'javascript', cjs: 'javascript', jsx: 'javascript', ts: 'javascript', tsx: 'javascript', jse: 'javascript',
+  java: 'javascript', c: 'javascript', h: 'javascript', cpp: 'javascript', cs: 'javascript', go: 'javascript', rs: 'javascript', php: 'javascript',
+  py: 'python', sh: 'shell', bash: 'shell', zsh: 'shell', command: 'shell', rb: 'shell', pl: 'shell', yml: 'shell', yaml: 'shell',
+  ps1: 'powershell', psm1: 'powershell', bat: 'batch', cmd: 'batch', vbs: 'vbscript', vbe: 'vbscript', vba: 'vbscript',
+  css: 'css', html: 'markup', htm: 'markup', xml: 'markup', svg: 'markup', xhtml: 'markup', hta: 'markup', plist: 'markup',
+  json: 'json', ini: 'ini', cfg: 'ini', conf: 'ini', reg: 'ini', toml: 'ini', inf: 'ini'
+};
+
+/** Picks a grammar from the extension, falling back to the detected type; null means plain text. */
+export const languageFor = (ext: string, detectedType?: string): string | null => {
+  if (EXTENSION_LANGUAGES[ext]) return EXTENSION_LANGUAGES[ext];
+  if (detectedType === 'html' || detectedType === 'svg' || detectedType === 'xml') return 'markup';
+  if (detectedType === 'shebang') return 'shell';
+  return null;
+};
+
+/**
+ * Splits source into coloured tokens with a small per-language grammar.
+ * It only ever labels text; nothing is parsed or evaluated.
+ */
+export const highlight = (text: string, language: string | null): Token[] => {
+  const grammar = language ? GRAMMARS[language] : undefined;
+  if (!grammar) return [{ kind: 'plain', text }];
+  const tokens: Token[] = [];
+  let plain = '';
+  const word = /[A-Za-z_$][\w$-]*/y;
+  for (let i = 0; i < text.length;) {
+    let matched: Token | null = null;
+    for (const [kind, pattern] of grammar.rules) {
+      pattern.lastIndex = i;
+      const m = pattern.exec(text);
+      if (m && m[0]) {
+        matched = { kind, text: m[0] };
+        break;
+      }
+    }
+    if (!matched && grammar.keywords) {
+      word.lastIndex = i;
+      const m = word.exec(text);
+      if (m) matched = { kind: grammar.keywords.has(m[0].toLowerCase()) ? 'keyword' : 'plain', text: m[0] };
+    }
+    if (!matched || matched.kind === 'plain') {
+      plain += matched?.text ?? text[i];
+      i += matched?.text.length ?? 1;
+      continue;
+    }
+    if (plain) tokens.push({ kind: 'plain', text: plain });
+    plain = '';
+    tokens.push(matched);
+    i += matched.text.length;
+  }
+  if (plain) tokens.push({ kind: 'plain', text: plain });
+  return tokens;
+};
@@ -0,0 +1,129 @@
+import { AnalysisResult, ChatMessage, Verdict } from '../types';
+import { hasIndexedDb, HISTORY_STORE, openDb, requestToPromise, transactionDone } from './db';
+import { hashFile } from './hashing';
+
+const HISTORY_SETTINGS_KEY = 'omni_history_settings';
+
+export interface HistoryEntry {
+  id?: number;
+  scannedAt: string;
+  fileName: string;
+  fileSize: number;
+  /** Always carries metadata.hashes, so reports and search work without the file. */
+  result: AnalysisResult;
+  messages: ChatMessage[];
+  /** The file itself, only when the user opted in to keeping files. */
+  file?: Blob;
+}
+
+export interface HistorySettings {
+  enabled: boolean;
+  keepFiles: boolean;
+  /** Oldest scans beyond this count are deleted. */
+  maxEntries: number;
+  /** Scans older than this are deleted; 0 keeps them forever. */
+  maxAgeDays: number;
+}
+
+export interface HistoryQuery {
+  /** Matches file name or any hash (prefix). */
+  text?: string;
+  verdict?: Verdict | '';
+  /** ISO dates (yyyy-mm-dd), inclusive. */
+  from?: string;
+  to?: string;
+}
+
+const DEFAULT_SETTINGS: HistorySettings = { enabled: true, keepFiles: false, maxEntries: 200, maxAgeDays: 30 };
+
+export const getHistorySettings = (): HistorySettings => {
+  try {
+    return { ...DEFAULT_SETTINGS, ...JSON.parse(localStorage.getItem(HISTORY_SETTINGS_KEY) || '{}') };
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveHistorySettings = (settings: HistorySettings) => {
+  localStorage.setItem(HISTORY_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+/**
+ * Deletes scans past the age limit, then the oldest ones past the count limit.
+ */
+export const applyRetention = async (settings: HistorySettings = getHistorySettings()): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(HISTORY_STORE, 'readwrite');
+  const store = tx.objectStore(HISTORY_STORE);
+  const index = store.index('scannedAt');
+  // Keys come back oldest first, so the expired ones are a prefix.
+  const keys = await requestToPromise(index.getAllKeys());
+  const cutoff = new Date(Date.now() - settings.maxAgeDays * 86400000).toISOString();
+  const tooOld = settings.maxAgeDays > 0 ? await requestToPromise(index.count(IDBKeyRange.upperBound(cutoff, true))) : 0;
+  const overCount = Math.max(0, keys.length - tooOld - settings.maxEntries);
+  for (const key of keys.slice(0, tooOld + overCount)) store.delete(key);
+  await transactionDone(tx);
+};
+
+/**
+ * Records a finished scan and returns its id, or null when history is off or
+ * unavailable. The file's bytes are stored only if `keepFiles` is on.
+ */
+export const saveScan = async (file: File, result: AnalysisResult, messages: ChatMessage[] = []): Promise<number | null> => {
+  const settings = getHistorySettings();
+  if (!settings.enabled || !hasIndexedDb()) return null;
+  const hashes = result.metadata.hashes ?? await hashFile(file);
+  const entry: HistoryEntry = {
+    scannedAt: new Date().toISOString(),
+    fileName: file.name,
+    fileSize: file.size,
+    result: { ...result, metadata: { ...result.metadata, hashes } },
+    messages,
+    ...(settings.keepFiles ? { file } : {})
+  };
+  const db = await openDb();
+  const id = await requestToPromise(db.transaction(HISTORY_STORE, 'readwrite').objectStore(HISTORY_STORE).add(entry)) as number;
+  await applyRetention(settings);
+  return id;
+};
+
+export const updateScanMessages = async (id: number, messages: ChatMessage[]): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(HISTORY_STORE, 'readwrite');
+  const store = tx.objectStore(HISTORY_STORE);
+  const entry = await requestToPromise(store.get(id)) as HistoryEntry | undefined;
+  if (entry) store.put({ ...entry, messages });
+  await transactionDone(tx);
+};
+
+/** All scans, newest first. */
+export const listHistory = async (): Promise<HistoryEntry[]> => {
+  if (!hasIndexedDb()) return [];
+  const db = await openDb();
+  const entries = await requestToPromise(db.transaction(HISTORY_STORE).objectStore(HISTORY_STORE).index('scannedAt').getAll()) as HistoryEntry[];
+  return entries.reverse();
+};
+
+export const deleteScan = async (id: number): Promise<void> => {
+  const db = await openDb();
+  await requestToPromise(db.transaction(HISTORY_STORE, 'readwrite').objectStore(HISTORY_STORE).delete(id));
+};
+
+export const clearHistory = async (): Promise<void> => {
+  const db = await openDb();
+  await requestToPromise(db.transaction(HISTORY_STORE, 'readwrite').objectStore(HISTORY_STORE).clear());
+};
+
+export const filterHistory = (entries: HistoryEntry[], query: HistoryQuery): HistoryEntry[] => {
+  const text = query.text?.trim().toLowerCase() || '';
+  return entries.filter(e => {
+    if (query.verdict && e.result.verdict !== query.verdict) return false;
+    const day = e.scannedAt.slice(0, 10);
+    if (query.from && day < query.from) return false;
+    if (query.to && day > query.to) return false;
+    if (!text) return true;
+    const hashes = e.result.metadata.hashes;
+    return e.fileName.toLowerCase().includes(text)
+      || (!!hashes && [hashes.md5, hashes.sha1, hashes.sha256].some(h => h.startsWith(text)));
+  });
+};
@@ -0,0 +1,120 @@
+import { AnalysisResult, Finding, LocalizedText, ResultMessages } from '../types';
+import { en, MessageKey } from './locales/en';
+import { es } from './locales/es';
+import { fr } from './locales/fr';
+import { de } from './locales/de';
+
+export type Locale = 'en' | 'es' | 'fr' | 'de';
+
+export interface LocaleInfo {
+  id: Locale;
+  /** The language's own name, shown in the picker. */
+  name: string;
+  /** English name, used when asking the AI to reply in this language. */
+  english: string;
+}
+
+export const LOCALES: LocaleInfo[] = [
+  { id: 'en', name: 'English', english: 'English' },
+  { id: 'es', name: 'Español', english: 'Spanish' },
+  { id: 'fr', name: 'Français', english: 'French' },
+  { id: 'de', name: 'Deutsch', english: 'German' }
+];
+
+const CATALOGS: Record<Locale, Record<MessageKey, string>> = { en, es, fr, de };
+
+const LOCALE_KEY = 'omni_locale';
+
+const isLocale = (value: string | null | undefined): value is Locale =>
+  !!value && value in CATALOGS;
+
+/** Keys with `.one`/`.other` plural forms, without the suffix. */
+type PluralKey = MessageKey extends infer K ? K extends `${infer Base}.other` ? Base : never : never;
+
+export type { MessageKey };
+
+/** The saved choice, else the browser's language when there's a catalog for it, else English. */
+export const getLocale = (): Locale => {
+  const saved = typeof localStorage === 'undefined' ? null : localStorage.getItem(LOCALE_KEY);
+  if (isLocale(saved)) return saved;
+  const browser = typeof navigator === 'undefined' ? '' : navigator.language.slice(0, 2).toLowerCase();
+  return isLocale(browser) ? browser : 'en';
+};
+
+export const setLocale = (locale: Locale) => localStorage.setItem(LOCALE_KEY, locale);
+
+export const localeInfo = (locale: Locale): LocaleInfo => LOCALES.find(l => l.id === locale)!;
+
+const lookup = (key: string, locale: Locale): string | undefined =>
+  (CATALOGS[locale] as Record<string, string>)[key] ?? (en as Record<string, string>)[key];
+
+/**
+ * Localizes a message. A `count` parameter picks the plural form when the
+ * key has `.one`/`.other` variants. Unknown keys come back as the key itself
+ * and placeholders without a value are left as they are.
+ */
+export const localize = (text: LocalizedText, locale: Locale = getLocale()): string => {
+  const params = text.params ?? {};
+  const count = params.count;
+  const template = (typeof count === 'number'
+    && (lookup(`${text.key}.${new Intl.PluralRules(locale).select(count)}`, locale) ?? lookup(`${text.key}.other`, locale)))
+    || lookup(text.key, locale)
+    || text.key;
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    const value = params[name];
+    if (value === undefined) return placeholder;
+    return typeof value === 'object' ? localize(value, locale) : String(value);
+  });
+};
+
+export const msg = (key: MessageKey | PluralKey, params?: LocalizedText['params']): LocalizedText =>
+  params ? { key, params } : { key };
+
+/** Text that has no catalog entry, such as a finding title or a policy's own wording. */
+export const literal = (text: string): LocalizedText => msg('literal', { text });
+
+/**
+ * A list whose items may themselves be messages, joined with commas, or with
+ * semicolons when the items contain commas. Longer lists end "and N more".
+ */
+export const listOf = (items: (string | LocalizedText)[], limit = Infinity, separator: 'comma' | 'semicolon' = 'comma'): LocalizedText => {
+  const shown = items.slice(0, limit).map(item => (typeof item === 'string' ? literal(item) : item));
+  const list = shown.slice(1).reduce((head, item) => msg(`list.${separator}`, { head, item }), shown[0] ?? literal(''));
+  return items.length > limit ? msg('list.more', { list, count: items.length - limit }) : list;
+};
+
+export const t = (key: MessageKey | PluralKey, params?: LocalizedText['params'], locale?: Locale): string =>
+  localize(msg(key, params), locale);
+
+/** `t` bound to one locale, for components that are handed it as a prop. */
+export const translator = (locale: Locale) =>
+  (key: MessageKey | PluralKey, params?: LocalizedText['params']) => t(key, params, locale);
+
+/** A finding's English title and description, with the keys kept so other locales can show it. */
+export const findingMessages = (title: LocalizedText, description: LocalizedText) => ({
+  title: localize(title, 'en'),
+  description: localize(description, 'en'),
+  messages: { title, description }
+});
+
+/** A finding's title and description in the locale; AI findings keep their own text. */
+export const findingText = (finding: Finding, locale: Locale = getLocale()) =>
+  finding.messages
+    ? { title: localize(finding.messages.title, locale), description: localize(finding.messages.description, locale) }
+    : { title: finding.title, description: finding.description };
+
+/** Text stored in English next to its keyed form, such as a note or a reason; shown in the locale when keyed. */
+export const keyedText = (text: string, message: LocalizedText | undefined, locale: Locale = getLocale()) =>
+  message ? localize(message, locale) : text;
+
+export const localizeMessages = (messages: ResultMessages, locale: Locale = getLocale()) => ({
+  humanVerdict: localize(messages.humanVerdict, locale),
+  simpleExplanation: messages.simpleExplanation.map(m => localize(m, locale)).join(' '),
+  solutions: messages.solutions.map(m => localize(m, locale))
+});
+
+/** A result's verdict, explanation and advice in the locale; AI and older results keep their own text. */
+export const resultText = (result: AnalysisResult, locale: Locale = getLocale()) =>
+  result.messages
+    ? localizeMessages(result.messages, locale)
+    : { humanVerdict: result.humanVerdict, simpleExplanation: result.simpleExplanation, solutions: result.solutions };
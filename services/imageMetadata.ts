@@ -0,0 +1,635 @@
+import { Finding, GpsPosition, ImageBlock, ImageMetadata, ImageTag, LocalizedText } from '../types';
+import { formatBytes } from '../utils/fileUtils';
+import { findingMessages, msg } from './i18n';
+import { detectSignature, SIGNATURE_HEADER_SIZE } from './signatures';
+
+/** Images are inspected from at most this many leading bytes. */
+export const MAX_IMAGE_BYTES = 64 * 1024 * 1024;
+/** Tag values are cut to this many characters; the full size is kept in `bytes`. */
+const MAX_TAG_LENGTH = 1000;
+/** Comments and text chunks above this are reported. Real ones are a line or two. */
+const LARGE_COMMENT_BYTES = 4096;
+/** Non-standard PNG chunks holding more than this in total raise the severity. */
+const LARGE_PRIVATE_CHUNK_BYTES = 64 * 1024;
+
+const EXIF_TAGS: Record<number, string> = {
+  0x010e: 'Description',
+  0x010f: 'Camera make',
+  0x0110: 'Camera model',
+  0x0131: 'Software',
+  0x0132: 'Modified',
+  0x013b: 'Artist',
+  0x8298: 'Copyright',
+  0x9003: 'Taken',
+  0xa430: 'Camera owner',
+  0xa431: 'Camera serial number',
+  0xa434: 'Lens'
+};
+const EXIF_IFD_POINTER = 0x8769;
+const GPS_IFD_POINTER = 0x8825;
+/** Bytes per component for TIFF field types 1-12. */
+const TYPE_SIZES = [0, 1, 1, 2, 4, 8, 1, 1, 2, 4, 8, 4, 8];
+const MAX_IFD_ENTRIES = 512;
+
+const XMP_FIELDS: Record<string, string> = {
+  'xmp:CreatorTool': 'Creator tool',
+  'xmp:CreateDate': 'Created',
+  'xmp:ModifyDate': 'Modified',
+  'dc:creator': 'Creator',
+  'dc:title': 'Title',
+  'dc:description': 'Description',
+  'dc:rights': 'Rights',
+  'photoshop:City': 'City',
+  'photoshop:State': 'State',
+  'photoshop:Country': 'Country',
+  'Iptc4xmpCore:Location': 'Location',
+  'tiff:Make': 'Camera make',
+  'tiff:Model': 'Camera model',
+  'aux:SerialNumber': 'Camera serial number',
+  'exifEX:BodySerialNumber': 'Camera serial number',
+  'exifEX:CameraOwnerName': 'Camera owner',
+  'exif:GPSLatitude': 'GPS latitude',
+  'exif:GPSLongitude': 'GPS longitude'
+};
+
+/** IPTC-NAA application record (2) datasets. */
+const IPTC_FIELDS: Record<number, string> = {
+  5: 'Object name',
+  25: 'Keywords',
+  55: 'Date created',
+  80: 'By-line',
+  90: 'City',
+  92: 'Sublocation',
+  95: 'Province/State',
+  101: 'Country',
+  105: 'Headline',
+  110: 'Credit',
+  116: 'Copyright',
+  118: 'Contact',
+  120: 'Caption'
+};
+
+const ascii = (bytes: Uint8Array, offset: number, length: number) => String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+const startsWith = (bytes: Uint8Array, offset: number, text: string) => ascii(bytes, offset, text.length) === text;
+
+const u32be = (bytes: Uint8Array, offset: number) =>
+  ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+
+const indexOfAscii = (bytes: Uint8Array, text: string, from = 0): number => {
+  for (let i = bytes.indexOf(text.charCodeAt(0), from); i >= 0 && i + text.length <= bytes.length; i = bytes.indexOf(text.charCodeAt(0), i + 1)) {
+    if (startsWith(bytes, i, text)) return i;
+  }
+  return -1;
+};
+
+const clip = (value: string) => (value.length > MAX_TAG_LENGTH ? `${value.slice(0, MAX_TAG_LENGTH)}…` : value);
+
+const addBlock = (blocks: ImageBlock[], type: string, bytes: number) => {
+  const block = blocks.find(b => b.type === type);
+  if (block) {
+    block.count++;
+    block.bytes += bytes;
+  } else {
+    blocks.push({ type, count: 1, bytes });
+  }
+};
+
+const PNG_MAGIC = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const HEIC_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1', 'avif', 'avis'];
+const isPng = (bytes: Uint8Array) => PNG_MAGIC.every((b, i) => bytes[i] === b);
+const isJpeg = (bytes: Uint8Array) => bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff;
+const isWebp = (bytes: Uint8Array) => startsWith(bytes, 0, 'RIFF') && startsWith(bytes, 8, 'WEBP');
+const isHeic = (bytes: Uint8Array) => startsWith(bytes, 4, 'ftyp') && HEIC_BRANDS.includes(ascii(bytes, 8, 4));
+
+/**
+ * Reads the tags we care about from a TIFF structure (the body of an EXIF
+ * block). Offsets are relative to the TIFF header; anything out of range is
+ * skipped rather than trusted.
+ */
+const parseTiff = (tiff: Uint8Array): { exif: ImageTag[]; gps?: GpsPosition } => {
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+  const little = startsWith(tiff, 0, 'II');
+  if (!little && !startsWith(tiff, 0, 'MM')) return { exif: [] };
+  const u16 = (o: number) => view.getUint16(o, little);
+  const u32 = (o: number) => view.getUint32(o, little);
+  const exif: ImageTag[] = [];
+  const gpsFields = new Map<number, number[] | string>();
+  const visited = new Set<number>();
+
+  const readValue = (entry: number): number[] | string | null => {
+    const type = u16(entry + 2);
+    const count = u32(entry + 4);
+    const size = (TYPE_SIZES[type] ?? 0) * count;
+    if (size === 0 || size > 4096) return null;
+    const offset = size <= 4 ? entry + 8 : u32(entry + 8);
+    if (offset + size > tiff.length) return null;
+    if (type === 2) return ascii(tiff, offset, count).replace(/\0+$/, '').trim();
+    const values: number[] = [];
+    for (let i = 0; i < count; i++) {
+      const at = offset + i * TYPE_SIZES[type];
+      if (type === 3) values.push(u16(at));
+      else if (type === 4) values.push(u32(at));
+      else if (type === 5) values.push(u32(at) / (u32(at + 4) || 1));
+      else if (type === 1 || type === 7) values.push(tiff[at]);
+    }
+    return values;
+  };
+
+  const walk = (offset: number, gps: boolean) => {
+    if (visited.has(offset) || offset + 2 > tiff.length) return;
+    visited.add(offset);
+    const count = Math.min(u16(offset), MAX_IFD_ENTRIES);
+    for (let i = 0; i < count; i++) {
+      const entry = offset + 2 + i * 12;
+      if (entry + 12 > tiff.length) return;
+      const tag = u16(entry);
+      const value = readValue(entry);
+      if (value === null) continue;
+      if (gps) {
+        gpsFields.set(tag, value);
+      } else if (tag === EXIF_IFD_POINTER || tag === GPS_IFD_POINTER) {
+        if (typeof value !== 'string') walk(value[0], tag === GPS_IFD_POINTER);
+      } else if (EXIF_TAGS[tag] && typeof value === 'string' && value) {
+        exif.push({ name: EXIF_TAGS[tag], value });
+      }
+    }
+  };
+
+  try {
+    walk(u32(4), false);
+  } catch (err) {
+    // A truncated block still yields whatever was read before the end.
+    console.warn("EXIF block could not be fully read:", err);
+  }
+
+  const coordinate = (valueTag: number, refTag: number, negative: string): number | undefined => {
+    const value = gpsFields.get(valueTag);
+    if (!Array.isArray(value) || value.length < 3) return undefined;
+    const degrees = value[0] + value[1] / 60 + value[2] / 3600;
+    return gpsFields.get(refTag) === negative ? -degrees : degrees;
+  };
+  const latitude = coordinate(2, 1, 'S');
+  const longitude = coordinate(4, 3, 'W');
+  const altitude = gpsFields.get(6);
+  const gps = latitude !== undefined && longitude !== undefined
+    ? { latitude, longitude, ...(Array.isArray(altitude) ? { altitude: gpsFields.get(5)?.[0] === 1 ? -altitude[0] : altitude[0] } : {}) }
+    : undefined;
+  return { exif, gps };
+};
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+/** XMP coordinates are written "DDD,MM.mmmK" or "DDD,MM,SSK". */
+const xmpCoordinate = (value: string | undefined): number | undefined => {
+  const m = value?.match(/^(\d+(?:\.\d+)?),(\d+(?:\.\d+)?)(?:,(\d+(?:\.\d+)?))?([NSEW])$/i);
+  if (!m) return undefined;
+  const degrees = Number(m[1]) + Number(m[2]) / 60 + (m[3] ? Number(m[3]) / 3600 : 0);
+  return /[SW]/i.test(m[4]) ? -degrees : degrees;
+};
+
+/**
+ * Picks known properties out of an XMP packet, written either as attributes
+ * or as elements (whose rdf:Alt/Seq wrappers are flattened to their text).
+ */
+const parseXmp = (packet: string): { tags: ImageTag[]; gps?: GpsPosition } => {
+  const tags: ImageTag[] = [];
+  for (const [key, name] of Object.entries(XMP_FIELDS)) {
+    const m = packet.match(new RegExp(`\\s${key}="([^"]*)"|<${key}>([^]*?)</${key}>`));
+    const value = (m?.[1] ?? m?.[2] ?? '')
+      .replace(/<[^>]+>/g, ' ')
+      .replace(/&(amp|lt|gt|quot|apos);/g, (_e, entity: string) => XML_ENTITIES[entity])
+      .replace(/\s+/g, ' ')
+      .trim();
+    if (value && !tags.some(t => t.name === name)) tags.push({ name, value: clip(value) });
+  }
+  const latitude = xmpCoordinate(tags.find(t => t.name === 'GPS latitude')?.value);
+  const longitude = xmpCoordinate(tags.find(t => t.name === 'GPS longitude')?.value);
+  return { tags, gps: latitude !== undefined && longitude !== undefined ? { latitude, longitude } : undefined };
+};
+
+const applyXmp = (meta: ImageMetadata, packet: string) => {
+  const { tags, gps } = parseXmp(packet);
+  meta.xmp.push(...tags.filter(t => !meta.xmp.some(x => x.name === t.name)));
+  meta.gps ??= gps;
+};
+
+const utf8 = new TextDecoder('utf-8');
+const latin1 = new TextDecoder('latin1');
+
+/** IPTC datasets inside an IPTC-NAA block; repeated ones (keywords) are joined. */
+const iptcRecords = (data: Uint8Array): ImageTag[] => {
+  const values = new Map<string, string[]>();
+  for (let at = 0; at + 5 <= data.length && data[at] === 0x1c;) {
+    const record = data[at + 1];
+    const dataset = data[at + 2];
+    const size = (data[at + 3] << 8) | data[at + 4];
+    // Extended-length datasets only carry large binary objects.
+    if (size & 0x8000) break;
+    const value = utf8.decode(data.subarray(at + 5, at + 5 + size)).trim();
+    const name = IPTC_FIELDS[dataset];
+    if (record === 2 && name && value) values.set(name, [...(values.get(name) ?? []), value]);
+    at += 5 + size;
+  }
+  return [...values].map(([name, list]) => ({ name, value: clip(list.join(', ')) }));
+};
+
+/**
+ * IPTC from a Photoshop APP13 block: a run of "8BIM" image resources, each
+ * with an id, a padded Pascal-string name and padded data. Resource 0x0404
+ * holds the IPTC-NAA record.
+ */
+const parseIptc = (data: Uint8Array): ImageTag[] => {
+  const tags: ImageTag[] = [];
+  let at = 0;
+  while (at + 12 <= data.length && startsWith(data, at, '8BIM')) {
+    const id = (data[at + 4] << 8) | data[at + 5];
+    const sizeAt = at + 6 + ((data[at + 6] + 2) & ~1);
+    if (sizeAt + 4 > data.length) break;
+    const size = u32be(data, sizeAt);
+    const start = sizeAt + 4;
+    if (id === 0x0404) tags.push(...iptcRecords(data.subarray(start, Math.min(start + size, data.length))));
+    at = start + size + (size & 1);
+  }
+  return tags;
+};
+
+const jpegMarkerName = (marker: number): string => {
+  if (marker >= 0xe0 && marker <= 0xef) return `APP${marker - 0xe0}`;
+  const named: Record<number, string> = { 0xfe: 'COM', 0xda: 'SOS', 0xdb: 'DQT', 0xc4: 'DHT', 0xdd: 'DRI' };
+  if (named[marker]) return named[marker];
+  if (marker >= 0xc0 && marker <= 0xcf) return `SOF${marker - 0xc0}`;
+  return `0x${marker.toString(16).toUpperCase()}`;
+};
+
+interface JpegSegment {
+  marker: number;
+  /** Offset of the 0xFF marker byte. */
+  start: number;
+  /** Offset just past the segment. */
+  end: number;
+}
+
+/** Marker segments up to the first scan; the entropy-coded data after it has no length field. */
+const jpegSegments = (bytes: Uint8Array): JpegSegment[] => {
+  const segments: JpegSegment[] = [];
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    const end = offset + 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3]);
+    segments.push({ marker, start: offset, end: Math.min(end, bytes.length) });
+    if (marker === 0xda) break;
+    offset = end;
+  }
+  return segments;
+};
+
+/**
+ * Follows the entropy-coded data after the first scan to the EOI marker,
+ * stepping over the tables and further scans of progressive JPEGs. Stuffed
+ * 0xFF00 bytes and restart markers belong to the data.
+ */
+const jpegEnd = (bytes: Uint8Array, from: number, blocks: ImageBlock[]): number | undefined => {
+  let i = from;
+  for (;;) {
+    i = bytes.indexOf(0xff, i);
+    if (i < 0 || i + 1 >= bytes.length) return undefined;
+    const marker = bytes[i + 1];
+    if (marker === 0xd9) return i + 2;
+    if (marker === 0xff) {
+      i++;
+    } else if (marker === 0x00 || (marker >= 0xd0 && marker <= 0xd7)) {
+      i += 2;
+    } else {
+      if (i + 4 > bytes.length) return undefined;
+      const length = 2 + ((bytes[i + 2] << 8) | bytes[i + 3]);
+      addBlock(blocks, jpegMarkerName(marker), length);
+      i += length;
+    }
+  }
+};
+
+interface PngChunk {
+  type: string;
+  start: number;
+  dataStart: number;
+  end: number;
+}
+
+/** Chunks up to and including IEND. */
+const pngChunks = (bytes: Uint8Array): PngChunk[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: PngChunk[] = [];
+  let offset = 8;
+  while (offset + 12 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = ascii(bytes, offset + 4, 4);
+    const end = offset + 12 + length;
+    if (end > bytes.length) break;
+    chunks.push({ type, start: offset, dataStart: offset + 8, end });
+    offset = end;
+    if (type === 'IEND') break;
+  }
+  return chunks;
+};
+
+/** tEXt and uncompressed iTXt keywords; compressed text is listed by keyword only. */
+const pngText = (chunk: PngChunk, bytes: Uint8Array): ImageTag | null => {
+  const data = bytes.subarray(chunk.dataStart, chunk.end - 4);
+  const nul = data.indexOf(0);
+  if (nul <= 0) return null;
+  const name = latin1.decode(data.subarray(0, nul));
+  if (chunk.type === 'tEXt') return { name, value: latin1.decode(data.subarray(nul + 1)) };
+  if (chunk.type === 'zTXt') return { name, value: '(compressed text)' };
+  // iTXt: keyword \0 compressed-flag method language \0 translated \0 text
+  if (data[nul + 1] === 1) return { name, value: '(compressed text)' };
+  let at = nul + 3;
+  for (let skip = 0; skip < 2; skip++) {
+    const next = data.indexOf(0, at);
+    if (next < 0) return null;
+    at = next + 1;
+  }
+  return { name, value: utf8.decode(data.subarray(at)) };
+};
+
+const XMP_JPEG_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+const XMP_PNG_KEYWORD = 'XML:com.adobe.xmp';
+
+const readJpeg = (bytes: Uint8Array): ImageMetadata => {
+  const meta: ImageMetadata = { format: 'JPEG', exif: [], text: [], xmp: [], iptc: [], blocks: [] };
+  const segments = jpegSegments(bytes);
+  for (const segment of segments) {
+    const data = segment.start + 4;
+    addBlock(meta.blocks, jpegMarkerName(segment.marker), segment.end - segment.start);
+    if (segment.marker === 0xe1 && startsWith(bytes, data, 'Exif\0\0') && meta.exif.length === 0) {
+      Object.assign(meta, parseTiff(bytes.subarray(data + 6, segment.end)));
+    } else if (segment.marker === 0xe1 && startsWith(bytes, data, XMP_JPEG_HEADER)) {
+      applyXmp(meta, utf8.decode(bytes.subarray(data + XMP_JPEG_HEADER.length, segment.end)));
+    } else if (segment.marker === 0xed && startsWith(bytes, data, 'Photoshop 3.0\0')) {
+      meta.iptc.push(...parseIptc(bytes.subarray(data + 14, segment.end)));
+    } else if (segment.marker === 0xfe) {
+      meta.text.push({ name: 'Comment', value: clip(latin1.decode(bytes.subarray(data, segment.end))), bytes: segment.end - data });
+    } else if (segment.marker >= 0xc0 && segment.marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(segment.marker) && data + 5 <= bytes.length) {
+      meta.height = (bytes[data + 1] << 8) | bytes[data + 2];
+      meta.width = (bytes[data + 3] << 8) | bytes[data + 4];
+    }
+  }
+  const scan = segments[segments.length - 1];
+  if (scan?.marker === 0xda) meta.endOffset = jpegEnd(bytes, scan.end, meta.blocks);
+  return meta;
+};
+
+const readPng = (bytes: Uint8Array): ImageMetadata => {
+  const meta: ImageMetadata = { format: 'PNG', exif: [], text: [], xmp: [], iptc: [], blocks: [] };
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  for (const chunk of pngChunks(bytes)) {
+    addBlock(meta.blocks, chunk.type, chunk.end - chunk.start);
+    if (chunk.type === 'IHDR' && chunk.end - chunk.dataStart >= 12) {
+      meta.width = view.getUint32(chunk.dataStart);
+      meta.height = view.getUint32(chunk.dataStart + 4);
+    } else if (chunk.type === 'eXIf') {
+      Object.assign(meta, parseTiff(bytes.subarray(chunk.dataStart, chunk.end - 4)));
+    } else if (chunk.type === 'tEXt' || chunk.type === 'iTXt' || chunk.type === 'zTXt') {
+      const tag = pngText(chunk, bytes);
+      if (tag?.name === XMP_PNG_KEYWORD) applyXmp(meta, tag.value);
+      else if (tag) meta.text.push({ name: tag.name, value: clip(tag.value), bytes: chunk.end - 4 - chunk.dataStart });
+    } else if (chunk.type === 'IEND') {
+      meta.endOffset = chunk.end;
+    }
+  }
+  return meta;
+};
+
+const readWebp = (bytes: Uint8Array): ImageMetadata => {
+  const meta: ImageMetadata = { format: 'WebP', exif: [], text: [], xmp: [], iptc: [], blocks: [] };
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const riffEnd = 8 + view.getUint32(4, true);
+  const end = Math.min(riffEnd, bytes.length);
+  for (let offset = 12; offset + 8 <= end;) {
+    const type = ascii(bytes, offset, 4);
+    const size = view.getUint32(offset + 4, true);
+    const data = offset + 8;
+    const chunkEnd = Math.min(data + size, bytes.length);
+    addBlock(meta.blocks, type.trim(), 8 + size);
+    if (type === 'VP8X' && data + 10 <= bytes.length) {
+      meta.width = 1 + (bytes[data + 4] | (bytes[data + 5] << 8) | (bytes[data + 6] << 16));
+      meta.height = 1 + (bytes[data + 7] | (bytes[data + 8] << 8) | (bytes[data + 9] << 16));
+    } else if (type === 'EXIF') {
+      const skip = startsWith(bytes, data, 'Exif\0\0') ? 6 : 0;
+      Object.assign(meta, parseTiff(bytes.subarray(data + skip, chunkEnd)));
+    } else if (type === 'XMP ') {
+      applyXmp(meta, utf8.decode(bytes.subarray(data, chunkEnd)));
+    }
+    offset = data + size + (size & 1);
+  }
+  if (riffEnd <= bytes.length) meta.endOffset = riffEnd;
+  return meta;
+};
+
+/**
+ * HEIC keeps EXIF and XMP as items inside the media data, located through
+ * the item tables. Rather than resolve those, the file is searched for the
+ * EXIF header and XMP packet, which is where the item tables would lead.
+ */
+const readHeic = (bytes: Uint8Array): ImageMetadata => {
+  const meta: ImageMetadata = { format: 'HEIC', exif: [], text: [], xmp: [], iptc: [], blocks: [] };
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 0;
+  while (offset + 8 <= bytes.length) {
+    let size = u32be(bytes, offset);
+    const type = ascii(bytes, offset + 4, 4);
+    if (!/^[\x20-\x7e]{4}$/.test(type)) break;
+    if (size === 1 && offset + 16 <= bytes.length) size = Number(view.getBigUint64(offset + 8));
+    else if (size === 0) size = bytes.length - offset;
+    if (size < 8) break;
+    addBlock(meta.blocks, type, size);
+    offset += size;
+  }
+  if (offset <= bytes.length) meta.endOffset = offset;
+
+  // Image spatial extents live in the meta box; grid images list each tile too, so keep the largest.
+  const metaEnd = Math.min(bytes.length, 1024 * 1024);
+  for (let at = indexOfAscii(bytes, 'ispe'); at >= 0 && at + 16 <= metaEnd; at = indexOfAscii(bytes, 'ispe', at + 4)) {
+    const width = u32be(bytes, at + 8);
+    const height = u32be(bytes, at + 12);
+    if (width * height > (meta.width ?? 0) * (meta.height ?? 0)) Object.assign(meta, { width, height });
+  }
+  const exif = indexOfAscii(bytes, 'Exif\0\0');
+  if (exif >= 0) Object.assign(meta, parseTiff(bytes.subarray(exif + 6, Math.min(exif + 6 + 0x10000, bytes.length))));
+  const xmpStart = indexOfAscii(bytes, '<x:xmpmeta');
+  const xmpEnd = xmpStart >= 0 ? indexOfAscii(bytes, '</x:xmpmeta>', xmpStart) : -1;
+  if (xmpEnd > 0) applyXmp(meta, utf8.decode(bytes.subarray(xmpStart, xmpEnd)));
+  return meta;
+};
+
+/**
+ * Reads dimensions, EXIF (including GPS position), XMP, IPTC, embedded text
+ * and the block structure of JPEG, PNG, WebP and HEIC images, and where the
+ * image ends. Returns null for other formats.
+ */
+export const readImageMetadata = (bytes: Uint8Array): ImageMetadata | null => {
+  if (isJpeg(bytes)) return readJpeg(bytes);
+  if (isPng(bytes)) return readPng(bytes);
+  if (isWebp(bytes)) return readWebp(bytes);
+  if (isHeic(bytes)) return readHeic(bytes);
+  return null;
+};
+
+/** PNG chunks that only describe how to draw the image; everything else is dropped. */
+const PNG_KEEP = new Set(['IHDR', 'PLTE', 'IDAT', 'IEND', 'tRNS', 'gAMA', 'cHRM', 'sRGB', 'iCCP', 'sBIT', 'bKGD', 'pHYs', 'acTL', 'fcTL', 'fdAT']);
+/** Chunks from the PNG specification and its registered extensions. */
+const PNG_STANDARD = new Set([...PNG_KEEP, 'tEXt', 'zTXt', 'iTXt', 'eXIf', 'tIME', 'sPLT', 'hIST', 'oFFs', 'pCAL', 'sCAL', 'sTER', 'dSIG', 'cICP', 'mDCV', 'cLLI', 'iDOT']);
+
+/**
+ * A copy of a JPEG or PNG with EXIF, GPS, XMP, IPTC, comments, text chunks
+ * and anything after the end marker removed, without re-encoding the pixels.
+ * Returns null for other formats.
+ */
+export const stripImageMetadata = (bytes: Uint8Array): Uint8Array | null => {
+  if (isJpeg(bytes)) {
+    const parts: Uint8Array[] = [bytes.subarray(0, 2)];
+    const segments = jpegSegments(bytes);
+    for (const segment of segments) {
+      const { marker } = segment;
+      const data = segment.start + 4;
+      // APP0 (JFIF) and APP14 (Adobe) affect colour decoding; an ICC profile only affects colour.
+      const keep = marker === 0xe0 || marker === 0xee || (marker === 0xe2 && startsWith(bytes, data, 'ICC_PROFILE'))
+        || !((marker >= 0xe1 && marker <= 0xef) || marker === 0xfe);
+      if (keep) parts.push(bytes.subarray(segment.start, segment.end));
+    }
+    const scan = segments[segments.length - 1];
+    if (scan?.marker === 0xda) parts.push(bytes.subarray(scan.end, jpegEnd(bytes, scan.end, []) ?? bytes.length));
+    return concat(parts);
+  }
+  if (isPng(bytes)) {
+    return concat([bytes.subarray(0, 8), ...pngChunks(bytes).filter(c => PNG_KEEP.has(c.type)).map(c => bytes.subarray(c.start, c.end))]);
+  }
+  return null;
+};
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+export interface ImageCheckOptions {
+  /** False when only the start of a large file was read, so its end can't be judged. */
+  complete: boolean;
+  /** Entry names when the whole file also opens as a ZIP archive. */
+  zipEntries?: string[] | null;
+}
+
+const EXECUTABLE_NAME = /\.(exe|scr|com|pif|bat|cmd|vbs|vbe|js|jse|wsf|hta|ps1|msi|lnk|dll|jar|sh|app)$/i;
+/** Code a web server or browser would run if it took the file for a page or script. */
+const SCRIPT_MARKUP = /<script[\s>]|<\?php|<\?=|<iframe[\s>]|\beval\s*\(|base64_decode\s*\(|javascript:/i;
+const PAGE_MARKUP = /<!doctype html|<html[\s>]|<body[\s>]/i;
+/** Filler some encoders and cameras leave after the end marker. */
+const isPadding = (bytes: Uint8Array) => bytes.every(b => b === 0x00 || b === 0xff || b === 0x0a || b === 0x0d || b === 0x20);
+
+const byteCount = (n: number) => (n < 1024 ? msg('finding.image.bytes', { count: n }) : formatBytes(n));
+
+const printable = (text: string) => text.replace(/[^\x20-\x7e]/g, '.');
+
+/**
+ * Privacy findings for what the metadata gives away, and security findings
+ * for data smuggled in or after the image: appended payloads, ZIP and HTML
+ * polyglots, script code, oversized comments and non-standard PNG chunks.
+ */
+export const imageFindings = (bytes: Uint8Array, meta: ImageMetadata | null, options: ImageCheckOptions): Finding[] => {
+  const findings: Finding[] = [];
+  const flag = (id: string, severity: Finding['severity'], title: LocalizedText, description: LocalizedText, extra: Partial<Finding> = {}) => {
+    findings.push({ id, severity, ...findingMessages(title, description), source: 'image', category: 'security', ...extra });
+  };
+  const format = meta?.format ?? 'image';
+
+  if (meta?.gps) {
+    const { latitude, longitude, altitude } = meta.gps;
+    flag('image-gps', 'CAUTION', msg('finding.image-gps.title'), msg('finding.image-gps.description', {
+      format,
+      position: `${latitude.toFixed(5)}, ${longitude.toFixed(5)}${altitude !== undefined ? `, ${Math.round(altitude)} m` : ''}`
+    }), { category: 'privacy' });
+  }
+  const identifying = [...new Set([...(meta?.exif ?? []), ...(meta?.xmp ?? []), ...(meta?.iptc ?? [])]
+    .map(t => t.name).filter(name => !name.startsWith('GPS')))];
+  if (identifying.length > 0) {
+    flag('image-identifying-metadata', 'INFO', msg('finding.image-identifying-metadata.title'),
+      msg('finding.image-identifying-metadata.description', { names: identifying.join(', ') }), { category: 'privacy' });
+  }
+
+  if (meta?.endOffset !== undefined && options.complete && meta.endOffset < bytes.length) {
+    const trailing = bytes.subarray(meta.endOffset);
+    if (!isPadding(trailing)) {
+      const kind = detectSignature(trailing.subarray(0, SIGNATURE_HEADER_SIZE));
+      const where = msg('finding.image.trailing', { size: byteCount(trailing.length), format, offset: meta.endOffset });
+      const snippet = printable(latin1.decode(trailing.subarray(0, 48)));
+      if (kind?.category === 'executable' || kind?.category === 'script') {
+        flag('image-appended-executable', 'DANGER', msg('finding.image-appended-executable.title'),
+          msg('finding.image-appended-executable.description', { where, type: kind.label, evidence: kind.evidence }), { snippet });
+      } else if (kind?.category === 'media' || startsWith(trailing, trailing.length - 4, 'SEFT')) {
+        flag('image-appended-camera-data', 'INFO', msg('finding.image-appended-camera-data.title'), kind
+          ? msg('finding.image-appended-camera-data.description', { where, type: kind.label })
+          : msg('finding.image-appended-camera-data.descriptionSamsung', { where }));
+      } else {
+        flag('image-appended-data', 'CAUTION', msg(kind?.category === 'archive' ? 'finding.image-appended-archive.title' : 'finding.image-appended-data.title'), kind
+          ? msg('finding.image-appended-data.descriptionTyped', { where, type: kind.label })
+          : msg('finding.image-appended-data.description', { where }), { snippet });
+      }
+    }
+  }
+
+  if (options.zipEntries && options.zipEntries.length > 0) {
+    const entries = options.zipEntries;
+    const programs = entries.filter(name => EXECUTABLE_NAME.test(name));
+    flag('image-zip-polyglot', programs.length > 0 ? 'DANGER' : 'CAUTION', programs.length > 0
+      ? msg('finding.image-zip-polyglot.titlePrograms')
+      : msg('finding.image-zip-polyglot.title'), programs.length > 0
+      ? msg('finding.image-zip-polyglot.descriptionPrograms', { count: entries.length, programs: programs.slice(0, 3).join(', ') })
+      : msg('finding.image-zip-polyglot.description', { count: entries.length }));
+  }
+
+  const text = latin1.decode(bytes);
+  const code = SCRIPT_MARKUP.exec(text);
+  const hit = code ?? PAGE_MARKUP.exec(text);
+  if (hit) {
+    const where = msg(meta?.endOffset !== undefined && hit.index >= meta.endOffset ? 'finding.image.afterEnd' : 'finding.image.inside');
+    const snippet = printable(text.slice(hit.index, hit.index + 80));
+    if (code) {
+      flag('image-embedded-code', 'DANGER', msg('finding.image-embedded-code.title'),
+        msg('finding.image-embedded-code.description', { code: code[0].trim(), where }), { snippet });
+    } else {
+      flag('image-html-polyglot', 'CAUTION', msg('finding.image-html-polyglot.title'), msg('finding.image-html-polyglot.description', { where }), { snippet });
+    }
+  }
+
+  const large = (meta?.text ?? []).filter(t => (t.bytes ?? 0) > LARGE_COMMENT_BYTES).sort((a, b) => b.bytes! - a.bytes!);
+  if (large.length > 0) {
+    const biggest = large[0];
+    const params = {
+      segment: format === 'JPEG' ? msg('finding.image-large-comment.segment') : msg('finding.image-large-comment.chunk', { name: biggest.name }),
+      size: byteCount(biggest.bytes!),
+      count: large.length - 1
+    };
+    flag('image-large-comment', 'CAUTION', msg('finding.image-large-comment.title'), large.length > 1
+      ? msg('finding.image-large-comment.descriptionOthers', params)
+      : msg('finding.image-large-comment.description', params), { snippet: printable(biggest.value.slice(0, 80)) });
+  }
+
+  if (meta?.format === 'PNG') {
+    const unknown = meta.blocks.filter(b => !PNG_STANDARD.has(b.type));
+    const total = unknown.reduce((n, b) => n + b.bytes, 0);
+    if (unknown.length > 0) {
+      flag('image-unknown-chunks', total > LARGE_PRIVATE_CHUNK_BYTES ? 'CAUTION' : 'INFO', msg('finding.image-unknown-chunks.title'),
+        msg('finding.image-unknown-chunks.description', { types: unknown.map(b => b.type).join(', '), count: unknown.length, size: byteCount(total) }));
+    }
+  }
+  return findings;
+};
@@ -0,0 +1,125 @@
+const VAULT_KEY = 'omni_key_vault';
+/** Where older versions kept the Gemini key, in plain text. */
+const LEGACY_KEY = 'omni_api_key';
+const PBKDF2_ITERATIONS = 600_000;
+const MIN_PASSPHRASE_LENGTH = 8;
+
+/** vault: decrypted from the passphrase-protected copy; session: never written to disk; legacy: plain text from an older version. */
+export type KeySource = 'vault' | 'session' | 'legacy';
+
+export interface KeyStatus {
+  source: KeySource;
+  masked: string;
+}
+
+interface VaultRecord {
+  version: 1;
+  iterations: number;
+  salt: string;
+  iv: string;
+  ciphertext: string;
+}
+
+// The usable key only ever lives here, for the lifetime of the page.
+let unlocked: { key: string; source: KeySource } | null = null;
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+const readVault = (): VaultRecord | null => {
+  try {
+    const record = JSON.parse(localStorage.getItem(VAULT_KEY) || 'null');
+    return record?.version === 1 ? record : null;
+  } catch {
+    return null;
+  }
+};
+
+const legacyKey = (): string => localStorage.getItem(LEGACY_KEY)?.trim() ?? '';
+
+/** Shows enough of a key to recognise it: "AIza••••••••x9Qk". */
+export const maskKey = (key: string): string => {
+  return key.length <= 8 ? '•'.repeat(key.length) : `${key.slice(0, 4)}${'•'.repeat(8)}${key.slice(-4)}`;
+};
+
+/** The Gemini key for this page, or '' when none is unlocked. */
+export const getApiKey = (): string => unlocked?.key ?? legacyKey();
+
+export const hasVault = (): boolean => readVault() !== null;
+
+export const getKeyStatus = (): KeyStatus | null => {
+  const key = getApiKey();
+  if (!key) return null;
+  return { source: unlocked?.source ?? 'legacy', masked: maskKey(key) };
+};
+
+/**
+ * Encrypts the key with AES-GCM under a PBKDF2-derived key and stores only
+ * the ciphertext. Replaces any earlier vault and the plain-text copy.
+ */
+export const saveKeyToVault = async (key: string, passphrase: string): Promise<void> => {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) throw new Error(`Use a passphrase of at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const aesKey = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, aesKey, new TextEncoder().encode(key.trim()));
+  const record: VaultRecord = {
+    version: 1,
+    iterations: PBKDF2_ITERATIONS,
+    salt: toBase64(salt),
+    iv: toBase64(iv),
+    ciphertext: toBase64(new Uint8Array(ciphertext))
+  };
+  localStorage.setItem(VAULT_KEY, JSON.stringify(record));
+  localStorage.removeItem(LEGACY_KEY);
+  unlocked = { key: key.trim(), source: 'vault' };
+};
+
+/**
+ * Decrypts the vault for this page. A plain-text key left by an older version
+ * is deleted once the vault opens, since the encrypted key supersedes it.
+ */
+export const unlockVault = async (passphrase: string): Promise<void> => {
+  const record = readVault();
+  if (!record) throw new Error("There is no saved key to unlock.");
+  const aesKey = await deriveKey(passphrase, fromBase64(record.salt), record.iterations);
+  let plain: ArrayBuffer;
+  try {
+    plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(record.iv) }, aesKey, fromBase64(record.ciphertext));
+  } catch {
+    // GCM authentication fails the same way for a wrong passphrase and a tampered vault.
+    throw new Error("Wrong passphrase.");
+  }
+  localStorage.removeItem(LEGACY_KEY);
+  unlocked = { key: new TextDecoder().decode(plain), source: 'vault' };
+};
+
+/** Keeps the key in memory only; it is gone on reload. Removes any stored copy. */
+export const keepKeyForSession = (key: string) => {
+  localStorage.removeItem(VAULT_KEY);
+  localStorage.removeItem(LEGACY_KEY);
+  unlocked = { key: key.trim(), source: 'session' };
+};
+
+/** Forgets the unlocked key but keeps the encrypted vault for next time. */
+export const lockKey = () => {
+  unlocked = null;
+};
+
+/** Removes the key everywhere: memory, vault and any plain-text copy. */
+export const forgetKey = () => {
+  localStorage.removeItem(VAULT_KEY);
+  localStorage.removeItem(LEGACY_KEY);
+  unlocked = null;
+};
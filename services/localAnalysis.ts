@@ -0,0 +1,51 @@
+import { AnalysisResult, AnalysisStage } from '../types';
+import { analyzeFileHardcoded } from './analyzer';
+import type { AnalyzerWorkerMessage, AnalyzerWorkerRequest } from './analyzer.worker';
+import { getActiveProfile } from './policy';
+import { getActiveRules } from './rules';
+
+export interface LocalScanOptions {
+  onProgress?: (stage: AnalysisStage) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Runs the local analyzer in a Web Worker so hashing and parsing large files
+ * never block the page. Each scan gets its own worker, terminated when the
+ * scan finishes or `signal` aborts. Falls back to the main thread where
+ * workers are unavailable.
+ */
+export const analyzeLocally = (file: File, { onProgress, signal }: LocalScanOptions = {}): Promise<AnalysisResult> => {
+  if (typeof Worker === 'undefined') return analyzeFileHardcoded(file, { onProgress, signal, policy: getActiveProfile() });
+  if (signal?.aborted) return Promise.reject(signal.reason);
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./analyzer.worker.ts', import.meta.url), { type: 'module' });
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const onAbort = () => {
+      finish();
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort);
+
+    worker.onmessage = (e: MessageEvent<AnalyzerWorkerMessage>) => {
+      const message = e.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.stage);
+        return;
+      }
+      finish();
+      if (message.type === 'result') resolve(message.result);
+      else reject(new Error(message.message));
+    };
+    worker.onerror = (e) => {
+      finish();
+      reject(new Error(e.message || "The analysis worker stopped unexpectedly"));
+    };
+    const request: AnalyzerWorkerRequest = { file, rules: getActiveRules(), policy: getActiveProfile() };
+    worker.postMessage(request);
+  });
+};
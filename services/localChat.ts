@@ -0,0 +1,221 @@
+import { AnalysisResult, Ioc, IocKind } from '../types';
+import { ChatSession } from './aiProvider';
+
+const MAX_LISTED = 15;
+
+interface Intent {
+  id: string;
+  /** Each pattern that matches the question adds one point. */
+  patterns: RegExp[];
+  answer: (result: AnalysisResult) => string;
+}
+
+const IOC_NAMES: Record<IocKind, string> = {
+  url: 'URL',
+  ip: 'IP address',
+  domain: 'Domain',
+  email: 'Email address',
+  registry: 'Registry key',
+  bitcoin: 'Bitcoin address'
+};
+
+const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? '' : 's'}`;
+
+/** Markdown bullets, cut off with a count of the rest. */
+const bullets = (items: string[]): string => {
+  const shown = items.slice(0, MAX_LISTED).map(item => `- ${item}`);
+  if (items.length > MAX_LISTED) shown.push(`- _…and ${items.length - MAX_LISTED} more_`);
+  return shown.join('\n');
+};
+
+const listIocs = (iocs: Ioc[]) => bullets(iocs.map(i => `${IOC_NAMES[i.kind]}: \`${i.value}\``));
+
+const whyVerdict = (result: AnalysisResult): string => {
+  const flagged = (result.findings ?? []).filter(f => f.severity !== 'INFO');
+  const parts = [`**${result.verdict}** — ${result.humanVerdict}`, result.simpleExplanation];
+  if (flagged.length > 0) {
+    parts.push(`What raised the verdict:\n${bullets(flagged.map(f => `**${f.title}** (${f.severity}): ${f.description}`))}`);
+  } else if (result.verdict !== 'SAFE') {
+    parts.push("No single check fired; the verdict comes from the kind of file this is.");
+  }
+  if (result.blend) parts.push(`The local scan and the AI were combined: ${result.blend.reason}`);
+  return parts.join('\n\n');
+};
+
+const network = (result: AnalysisResult): string => {
+  const iocs = (result.iocs ?? []).filter(i => i.kind === 'url' || i.kind === 'domain' || i.kind === 'ip');
+  if (iocs.length === 0) return "I found no URLs, domains or IP addresses in this file's readable strings. Addresses that are encrypted or built at runtime wouldn't show up here.";
+  return `I found ${plural(iocs.length, 'network address')} in the file's strings:\n\n${listIocs(iocs)}\n\nA listed address isn't proof the file contacts it, but unfamiliar ones are worth looking up before you open the file.`;
+};
+
+const indicators = (result: AnalysisResult): string => {
+  const iocs = result.iocs ?? [];
+  if (iocs.length === 0) return "No indicators of compromise (URLs, IPs, domains, email addresses, registry keys or bitcoin addresses) were found in this file's strings.";
+  return `${plural(iocs.length, 'indicator')} found in the file's strings:\n\n${listIocs(iocs)}\n\nThe Technical tab shows where each one sits in the file.`;
+};
+
+const signed = (result: AnalysisResult): string => {
+  const exe = result.metadata.executable;
+  if (!exe) return "Only Windows programs carry the kind of code signature I can check, and this file isn't one.";
+  if (exe.format !== 'PE') return `This is an ${exe.format} ${exe.kind.toLowerCase()}. ${exe.format} files have no built-in code signature to check.`;
+  return exe.hasSignature
+    ? "Yes, a code-signing certificate is attached. I can't verify that it's valid, so check the publisher under **Properties → Digital Signatures** in Windows before trusting it."
+    : "No. There's no code-signing certificate, so nothing vouches for who made this program.";
+};
+
+const archiveContents = (result: AnalysisResult): string => {
+  const archive = result.archive;
+  if (!archive) return "This file isn't an archive I could look inside.";
+  const files = archive.entries.filter(e => !e.path.endsWith('/'));
+  const describe = files.map(e => {
+    const status = e.verdict ? `**${e.verdict}**` : 'not checked';
+    return `\`${e.path}\` — ${status}${e.encrypted ? ', password protected' : ''}${e.note ? `: ${e.note}` : ''}`;
+  });
+  const flagged = files.filter(e => e.verdict && e.verdict !== 'SAFE').length;
+  return [
+    `This ${archive.format.toUpperCase()} archive holds ${archive.entryCount} ${archive.entryCount === 1 ? 'entry' : 'entries'} (${plural(flagged, 'flagged file')}).`,
+    bullets(describe),
+    archive.truncated ? "_Size or count limits stopped the inspection before every entry was checked._" : ''
+  ].filter(Boolean).join('\n\n');
+};
+
+const emailSender = (result: AnalysisResult): string => {
+  const email = result.email;
+  if (!email) return "This file isn't an email, so there is no sender to check.";
+  const flagged = (result.findings ?? []).filter(f => f.source === 'email' && f.severity !== 'INFO' && !f.id.startsWith('email-attachment'));
+  const parts = [`**From:** ${email.from ?? 'not stated'}${email.replyTo ? `\n**Reply-To:** ${email.replyTo}` : ''}${email.returnPath ? `\n**Return-Path:** ${email.returnPath}` : ''}`];
+  parts.push(email.auth.length > 0
+    ? `The receiving server recorded:\n${bullets(email.auth.map(r => `${r.method.toUpperCase()}: **${r.result}**${r.detail ? ` (${r.detail})` : ''}`))}`
+    : "There are no authentication results, so I can't tell whether the sender is genuine.");
+  if (flagged.length > 0) parts.push(`What looks wrong:\n${bullets(flagged.map(f => `**${f.title}**: ${f.description}`))}`);
+  if (email.attachments.length > 0) {
+    parts.push(`Attachments:\n${bullets(email.attachments.map(a => `\`${a.name}\` — ${a.verdict ? `**${a.verdict}**` : 'not checked'}${a.note ? `: ${a.note}` : ''}`))}`);
+  }
+  return parts.join('\n\n');
+};
+
+const rules = (result: AnalysisResult): string => {
+  const matches = result.ruleMatches ?? [];
+  if (matches.length === 0) return "None of the detection rules matched this file.";
+  return `${plural(matches.length, 'rule')} matched:\n\n${bullets(matches.map(m => {
+    const hits = m.strings.map(s => `${s.id}×${s.count}`).join(', ');
+    return `\`${m.rule}\` (${m.severity})${m.description ? `: ${m.description}` : ''}${hits ? ` — hits ${hits}` : ''}`;
+  }))}`;
+};
+
+const fileType = (result: AnalysisResult): string => {
+  const meta = result.metadata;
+  const lines = [`This is a **${result.fileType}**.`];
+  if (meta.signatureEvidence) lines.push(`Its header bytes identify it (${meta.signatureEvidence}).`);
+  if (meta.extensionMatchesContent === false) {
+    lines.push(`⚠️ The name ends in ${meta.declaredExtension ? `.${meta.declaredExtension}` : 'no extension'}, but the content is a ${meta.detectedType}. Files that pretend to be something else are a common trick.`);
+  }
+  if (meta.suggestedApp) lines.push(`It would normally be opened with ${meta.suggestedApp}.`);
+  return lines.join(' ');
+};
+
+const imports = (result: AnalysisResult): string => {
+  const exe = result.metadata.executable;
+  if (!exe) return "This isn't a program, so it has no imported functions or sections to look at.";
+  const flagged = (result.findings ?? []).filter(f => f.source === 'executable' && f.severity !== 'INFO');
+  return [
+    `${exe.format} ${exe.kind}, ${exe.machine}, ${exe.bits}-bit, importing from ${plural(exe.imports.length, 'library')}:`,
+    bullets(exe.imports.map(i => `\`${i.library}\` (${plural(i.functions.length, 'function')})`)),
+    flagged.length > 0 ? `Structure findings:\n${bullets(flagged.map(f => `**${f.title}**: ${f.description}`))}` : "Nothing in its imports or sections was flagged."
+  ].join('\n\n');
+};
+
+const activeContent = (result: AnalysisResult): string => {
+  const found = (result.findings ?? []).filter(f => (f.source === 'document' || f.source === 'web') && f.severity !== 'INFO');
+  if (found.length === 0) return "I found no macros, scripts, auto-run actions or hidden page tricks in this file.";
+  return `I found active content:\n\n${bullets(found.map(f => `**${f.title}**: ${f.description}${f.line ? ` (line ${f.line})` : ''}`))}`;
+};
+
+const imageMetadata = (result: AnalysisResult): string => {
+  const image = result.metadata.image;
+  if (!image) return "This isn't a JPEG, PNG, WebP or HEIC image, so there is no photo metadata to read.";
+  const tags = [...image.exif, ...image.xmp.filter(t => !t.name.startsWith('GPS')), ...image.iptc];
+  const parts = [image.gps
+    ? `**Location:** the photo records a GPS position of ${image.gps.latitude.toFixed(5)}, ${image.gps.longitude.toFixed(5)}. Anyone with the original can see where it was taken.`
+    : "**Location:** no GPS position is recorded."];
+  parts.push(tags.length > 0 ? `Other metadata:\n${bullets(tags.map(t => `${t.name}: ${t.value}`))}` : "No camera, author or date details are recorded.");
+  const hidden = (result.findings ?? []).filter(f => f.source === 'image' && f.category !== 'privacy');
+  if (hidden.length > 0) parts.push(`Structure findings:\n${bullets(hidden.map(f => `**${f.title}**: ${f.description}`))}`);
+  return parts.join('\n\n');
+};
+
+const hashes = (result: AnalysisResult): string => {
+  const h = result.metadata.hashes;
+  if (!h) return "No hashes were recorded for this scan.";
+  return `- MD5: \`${h.md5}\`\n- SHA-1: \`${h.sha1}\`\n- SHA-256: \`${h.sha256}\`\n\nSearch the SHA-256 on a reputation service to see whether others have reported this file.`;
+};
+
+const advice = (result: AnalysisResult): string => `${result.humanVerdict}\n\n${bullets(result.solutions)}`;
+
+const INTENTS: Intent[] = [
+  { id: 'why', patterns: [/\bwhy\b/, /\bflag/, /\bcaution/, /\bdanger/, /\bverdict/, /\brisk/, /\bsuspicious\b/, /\bexplain/], answer: whyVerdict },
+  { id: 'network', patterns: [/\burls?\b/, /\blinks?\b/, /\bdomains?\b/, /\bips?\b|ip address/, /\bnetwork/, /\bcontact/, /\bconnect/, /\bservers?\b/], answer: network },
+  { id: 'indicators', patterns: [/\biocs?\b/, /\bindicators?\b/, /\bemails?\b/, /\bregistry\b/, /\bbitcoin|\bwallet/], answer: indicators },
+  { id: 'signed', patterns: [/\bsign(ed|ature)?\b/, /\bcertificate/, /\bauthenticode\b/, /\bpublisher\b/], answer: signed },
+  { id: 'archive', patterns: [/\binside\b/, /\bzip\b/, /\barchive/, /\bcontain/, /\bentries\b|\bentry\b/, /\bfiles in\b/], answer: archiveContents },
+  { id: 'email', patterns: [/\bsender\b|\bwho\b.*\bsent\b/, /\bspf\b|\bdkim\b|\bdmarc\b/, /\bspoof/, /\battach/, /\breply-?to\b/, /\bgenuine\b|\blegit/], answer: emailSender },
+  { id: 'rules', patterns: [/\brules?\b/, /\bmatch/, /\byara\b/], answer: rules },
+  { id: 'type', patterns: [/\btype\b/, /\bformat\b/, /\bextension\b/, /\bdisguised?\b/, /\bwhat is (this|it)\b/, /\bmismatch/], answer: fileType },
+  { id: 'imports', patterns: [/\bimports?\b/, /\bfunctions?\b/, /\bdlls?\b|\blibrar/, /\bsections?\b/, /\bpacked\b|\bpacker/, /\bentropy\b/], answer: imports },
+  { id: 'active', patterns: [/\bmacros?\b/, /\bscripts?\b/, /\bjavascript\b/, /\bactive content\b/, /\bauto-?run\b|\bphish/], answer: activeContent },
+  { id: 'image', patterns: [/\bgps\b/, /\blocation\b|\bwhere\b.*\btaken\b/, /\bexif\b|\bxmp\b|\biptc\b/, /\bmetadata\b/, /\bcamera\b/, /\bhidden\b|\bsteg/], answer: imageMetadata },
+  { id: 'hashes', patterns: [/\bhash(es)?\b/, /\bsha-?(1|256)?\b/, /\bmd5\b/], answer: hashes },
+  { id: 'advice', patterns: [/\bshould i\b/, /\bwhat (do|can) i do\b/, /\bsafe to open\b/, /\bnext\b/, /\brecommend/, /\bopened it\b/], answer: advice }
+];
+
+const HELP = `I answer from this scan's results without any AI, so I can only cover what the scan found. Try asking:
+
+- Why is this flagged?
+- What URLs are in it?
+- Is it signed?
+- What's inside the zip?
+- Which rules matched?
+- What are its hashes?
+- What should I do with it?`;
+
+/**
+ * Picks the intent with the most matching patterns. Ties go to the one
+ * listed first, which puts "why" ahead of everything else.
+ */
+export const answerLocally = (question: string, result: AnalysisResult): string => {
+  const text = question.toLowerCase();
+  let best: Intent | null = null;
+  let bestScore = 0;
+  for (const intent of INTENTS) {
+    const score = intent.patterns.filter(p => p.test(text)).length;
+    if (score > bestScore) {
+      best = intent;
+      bestScore = score;
+    }
+  }
+  return best ? best.answer(result) : HELP;
+};
+
+/** Questions the local assistant has a real answer for, given this result. */
+export const localSuggestedQuestions = (result: AnalysisResult): string[] => {
+  const out = [result.verdict === 'SAFE' ? "Why is it considered safe?" : "Why is this flagged?"];
+  if (result.iocs?.some(i => i.kind === 'url' || i.kind === 'domain' || i.kind === 'ip')) out.push("What URLs are in it?");
+  if (result.metadata.executable?.format === 'PE') out.push("Is it signed?");
+  if (result.archive) out.push(`What's inside the ${result.archive.format.toLowerCase()}?`);
+  if (result.email) out.push("Who really sent it?");
+  if (result.metadata.image) out.push("Does it reveal where it was taken?");
+  if (result.ruleMatches?.length) out.push("Which rules matched?");
+  out.push("What should I do with it?");
+  return out.slice(0, 4);
+};
+
+/**
+ * A chat session that needs no API key: each question is matched to an
+ * intent and answered from the scan result alone, the same way every time.
+ */
+export const createLocalChatSession = (result: AnalysisResult): ChatSession => ({
+  async *sendMessageStream(text, signal) {
+    signal?.throwIfAborted();
+    yield answerLocally(text, result);
+  }
+});
@@ -0,0 +1,725 @@
+import { MessageKey } from './en';
+
+export const de: Record<MessageKey, string> = {
+  'verdict.SAFE': 'Sicher',
+  'verdict.CAUTION': 'Vorsicht',
+  'verdict.DANGER': 'Gefahr',
+  'verdict.unknown': 'Analysiert',
+  'severity.INFO': 'Info',
+  'literal': '{text}',
+
+  'analysis.default.verdict': 'Diese Datei kann offenbar gefahrlos geöffnet werden.',
+  'analysis.default.explanation': 'Ich habe das Dateiformat geprüft, und es entspricht den üblichen Mustern.',
+  'analysis.executable.verdict': 'Hohes Risiko: Ausführbare Datei erkannt.',
+  'analysis.executable.explanation': 'Dies ist ein Programm, das Code auf Ihrem Computer ausführen kann. Öffnen Sie es nur, wenn Sie der Quelle voll vertrauen.',
+  'analysis.archive.verdict': 'Die Dateien in diesem Archiv wirken sicher.',
+  'analysis.archive.explanation.one': 'Ich habe die einzige Datei in diesem Archiv geprüft, ohne sie zu entpacken, und sie war unauffällig.',
+  'analysis.archive.explanation.other': 'Ich habe alle {count} Dateien in diesem Archiv geprüft, ohne sie zu entpacken, und keine war auffällig.',
+  'analysis.archive.incomplete.verdict': 'Vorsicht: Nicht alles im Archiv konnte geprüft werden.',
+  'analysis.archive.incomplete.explanation': 'Ich habe dieses Archiv geprüft, ohne es zu entpacken, aber einige Dateien waren passwortgeschützt, zu groß oder zu tief verschachtelt.',
+  'analysis.unopenedArchive.verdict': 'Vorsicht: Komprimiertes Archiv.',
+  'analysis.unopenedArchive.explanation': 'Archive können gefährliche Dateien verbergen. Hineinzuschauen ist sicher, aber achten Sie darauf, was Sie entpacken.',
+  'analysis.email.verdict': 'Diese E-Mail wirkt echt.',
+  'analysis.email.explanation': 'Ich habe Absender, Antwortadresse, {links} und {attachments} dieser Nachricht geprüft, ohne etwas zu öffnen, und nichts war auffällig.',
+  'analysis.email.noAuth': 'Sie enthält keine Ergebnisse der Absenderauthentifizierung, daher ließ sich der Absender selbst nicht bestätigen.',
+  'analysis.email.incomplete.verdict': 'Vorsicht: Nicht alles in dieser E-Mail konnte geprüft werden.',
+  'analysis.email.incomplete.explanation': 'Ein Teil war zu groß, zu tief verschachtelt oder in einer Form gespeichert, die ich nicht öffnen kann.',
+  'analysis.link.verdict': 'Dieser Link wirkt sicher.',
+  'analysis.link.explanation': 'Ich habe die Adresse geprüft, ohne sie aufzurufen. {host} imitiert keine bekannte Website und ist weder eine reine IP-Adresse noch ein Linkverkürzer oder eine riskante Domain-Endung.',
+  'analysis.web.verdict': 'Diese Webdatei wirkt sauber.',
+  'analysis.web.explanation': 'Ich habe ihren Code gelesen und keinen der Tricks gefunden, auf die Phishing-Seiten und schädliche Skripte setzen, etwa versteckte Frames, Weiterleitungen oder verschleierten Code.',
+  'analysis.image.verdict': 'Dieses Bild wirkt sauber.',
+  'analysis.image.explanation': 'Ich habe Aufbau und Metadaten des {format}-Bildes gelesen und nichts darin oder dahinter Verstecktes gefunden.',
+  'analysis.document.verdict': 'Dieses Dokument hat keine aktiven Inhalte.',
+  'analysis.document.explanation': 'Ich habe das Innere des {kind}-Dokuments nach Makros, Skripten, automatischen Aktionen und eingebetteten Programmen durchsucht und nichts gefunden.',
+  'analysis.policy.allowed': 'Durch die Richtlinie {policy} erlaubt.',
+  'analysis.policy.restricted.DANGER': 'Hohes Risiko: Durch die Richtlinie {policy} eingeschränkt.',
+  'analysis.policy.restricted.CAUTION': 'Vorsicht: Durch die Richtlinie {policy} eingeschränkt.',
+  'analysis.policy.explanation': 'Die Richtlinie {policy} stuft Dateien wie diese als {verdict} ein.',
+  'policy.adjusted': '{description} Die Richtlinie {profile} stuft dies als {severity} statt {previous} ein.',
+  'analysis.mismatch.disguised': 'Hohes Risiko: Getarnte ausführbare Datei.',
+  'analysis.mismatch.DANGER': 'Hohes Risiko: Dateityp passt nicht.',
+  'analysis.mismatch.CAUTION': 'Vorsicht: Dateityp passt nicht.',
+  'analysis.mismatch.explanation': 'Diese Datei ist wie eine {name}-Datei benannt, ist in Wirklichkeit aber vom Typ {type}. Dateien, die sich als etwas anderes ausgeben, sind ein gängiger Trick, damit Sie sie öffnen.',
+  'analysis.mismatch.plain': 'Klartext',
+  'analysis.finding.DANGER': 'Hohes Risiko: {title}.',
+  'analysis.finding.CAUTION': 'Vorsicht: {title}.',
+  'analysis.rule.explanation': 'Diese Datei entspricht einer der Erkennungsregeln für verdächtige Inhalte.',
+  'analysis.blocklist.verdict': 'Hohes Risiko: Bekannte Schaddatei.',
+  'analysis.blocklist.explanation': 'Genau diese Datei steht auf Ihrer Sperrliste. Wie sie auch aussieht, sie wurde bereits als schädlich erkannt.',
+  'analysis.blocklist.explanationLabelled': 'Genau diese Datei steht als „{label}“ auf Ihrer Sperrliste. Wie sie auch aussieht, sie wurde bereits als schädlich erkannt.',
+  'analysis.allowlist.verdict': 'Vertrauenswürdig: Diese Datei steht auf Ihrer Zulassungsliste.',
+  'analysis.allowlist.explanation': 'Genau diese Datei steht auf Ihrer Zulassungsliste und gilt daher als sicher. Ohne die Liste wäre sie als {verdict} eingestuft worden: {previous}',
+  'analysis.allowlist.explanationLabelled': 'Genau diese Datei steht als „{label}“ auf Ihrer Zulassungsliste und gilt daher als sicher. Ohne die Liste wäre sie als {verdict} eingestuft worden: {previous}',
+  'analysis.allowlist.also': 'Sie steht außerdem auf Ihrer Zulassungsliste.',
+  'analysis.count.link.one': '{count} Link',
+  'analysis.count.link.other': '{count} Links',
+  'analysis.count.attachment.one': '{count} Anhang',
+  'analysis.count.attachment.other': '{count} Anhänge',
+
+  'advice.openWithViewer': 'Sie können diese Datei mit jedem passenden Programm öffnen.',
+  'advice.keepUpdated': 'Halten Sie Ihre Software stets aktuell.',
+  'advice.antivirus': 'Prüfen Sie diese Datei mit einem Virenscanner.',
+  'advice.notAsAdmin': 'Nicht als Administrator ausführen.',
+  'advice.checkSignature': 'Prüfen Sie nach Möglichkeit die digitale Signatur.',
+  'advice.reviewFileList': 'Sehen Sie sich vor dem Entpacken die Dateiliste unten an.',
+  'advice.extractOnlyNeeded': 'Entpacken Sie nur die Dateien, die Sie wirklich brauchen.',
+  'advice.updateZipTool': 'Stellen Sie sicher, dass Ihr Packprogramm aktuell ist.',
+  'advice.openArchiveFirst': 'Öffnen Sie das Archiv vor dem Entpacken, um den Inhalt zu sehen.',
+  'advice.confirmSender': 'Wenn die Nachricht Geld oder Passwörter verlangt oder drängt, fragen Sie auf anderem Weg beim Absender nach.',
+  'advice.typeLinks': 'Öffnen Sie Links, indem Sie die Adresse der Website selbst eingeben.',
+  'advice.expectedAttachments': 'Öffnen Sie nur Anhänge, die Sie erwartet haben.',
+  'advice.typeAddress': 'Geben Sie die Adresse der Website selbst ein, statt Links in Nachrichten zu folgen.',
+  'advice.checkAddressBar': 'Prüfen Sie die Adressleiste, bevor Sie ein Passwort eingeben.',
+  'advice.privateWindow': 'Öffnen Sie sie in einem privaten Fenster, wenn Sie den Absender nicht kennen.',
+  'advice.noPasswordsInAttachments': 'Geben Sie niemals Passwörter auf einer Seite ein, die als Anhang kam.',
+  'advice.anyImageViewer': 'Sie können dieses Bild mit jedem Bildbetrachter öffnen.',
+  'advice.keepMacrosDisabled': 'Lassen Sie Makros deaktiviert, wenn Sie Dokumente von anderen öffnen.',
+  'advice.noDoubleClick': 'Öffnen Sie diese Datei nicht per Doppelklick.',
+  'advice.askSender': 'Fragen Sie den Absender, was die Datei sein soll.',
+  'advice.stripMetadata': 'Entfernen Sie die Metadaten, bevor Sie diese Datei teilen.',
+  'advice.onlyIfTrusted': 'Öffnen Sie diese Datei nur, wenn Sie ihrer Herkunft vertrauen.',
+  'advice.doNotOpen': 'Öffnen Sie diese Datei nicht.',
+  'advice.deleteIt': 'Löschen Sie sie und leeren Sie den Papierkorb.',
+  'advice.tellSecurityTeam': 'Teilen Sie Ihrem Sicherheitsteam mit, woher sie stammt.',
+  'advice.findingsKept': 'Die Befunde unten bleiben zur Information erhalten.',
+  'advice.removeFromAllowlist': 'Entfernen Sie den Hash von Ihrer Zulassungsliste, wenn Sie dieser Datei nicht mehr vertrauen.',
+
+  'app.language': 'Sprache',
+  'app.stage.reading': 'Datei wird gelesen',
+  'app.stage.rules': 'Regeln werden geprüft',
+  'app.stage.hashing': 'Hashes werden berechnet',
+  'app.stage.parsing': 'Struktur wird analysiert',
+  'app.stage.ai': 'KI wird befragt',
+  'app.stage.starting': 'Prüfung startet',
+  'app.error.analysis': 'Bei der Analyse ist etwas schiefgelaufen. Bitte versuchen Sie es erneut.',
+  'app.error.batchItem': 'Analyse fehlgeschlagen',
+  'app.drop.title': 'Dateien oder Ordner zum Prüfen ablegen',
+  'app.drop.subtitle': 'Nichts verlässt Ihr Gerät',
+  'app.nav.pro': 'PRO-KI AKTIV',
+  'app.nav.free': 'KOSTENLOSER SIGNATURMODUS',
+  'app.nav.keyLocked': 'Ihr gespeicherter Schlüssel ist gesperrt',
+  'app.nav.unlockKey': 'SCHLÜSSEL ENTSPERREN',
+  'app.nav.history': 'Prüfverlauf',
+  'app.nav.settings': 'Einstellungen & API-Schlüssel',
+  'app.settings.title': 'KI-Konfiguration',
+  'app.settings.intro': 'OmniAnalyze funktioniert {free} mit lokalen Signaturen. Für eine tiefe Inhaltsanalyse und den KI-Chat geben Sie Ihren eigenen Gemini-API-Schlüssel oder ein selbst gehostetes Modell an.',
+  'app.settings.free': 'kostenlos',
+  'app.settings.gemini': 'Google Gemini',
+  'app.settings.selfHosted': 'Selbst gehostet',
+  'app.settings.proxyUrl': 'Gemini-Proxy-URL (optional)',
+  'app.settings.proxyHelp': 'Leer lassen, um Google mit Ihrem eigenen Schlüssel aufzurufen. Ein Proxy behält den Schlüssel auf dem Server.',
+  'app.settings.baseUrl': 'OpenAI-kompatible Basis-URL',
+  'app.settings.baseUrlHelp': 'Ollama, llama.cpp-Server, vLLM oder jeder Server mit /chat/completions.',
+  'app.settings.serverKey': 'Server-API-Schlüssel (optional)',
+  'app.settings.serverKeyPlaceholder': 'Leer lassen, wenn nicht erforderlich',
+  'app.settings.model': 'Modell',
+  'app.settings.inlineLimit': 'Vollständig senden bis (MB)',
+  'app.settings.uploadLimit': 'KI überspringen ab (MB)',
+  'app.settings.limitsHelp': 'Größere Dateien werden als Header, Zeichenketten und Stichproben statt vollständig gesendet.',
+  'app.settings.activatePro': 'Pro-Modus aktivieren',
+  'app.settings.switchFree': 'Zum kostenlosen Modus wechseln',
+  'app.idle.badge': 'Universeller Dateiprüfer',
+  'app.idle.title': 'Alles sofort',
+  'app.idle.titleAccent': 'auf Sicherheit prüfen.',
+  'app.idle.subtitle': 'Laden Sie eine beliebige Datei hoch, und ich sage Ihnen, ob sie gefährlich ist oder was darin steckt. Funktioniert mit oder ohne KI.',
+  'app.idle.choose': 'Dateien auswählen',
+  'app.idle.dropToScan': 'Zum Prüfen ablegen',
+  'app.idle.hint': 'Oder irgendwo ablegen • Mit Strg+V einfügen',
+  'app.idle.folder': 'Ganzen Ordner prüfen',
+  'app.idle.paste': 'Text oder Link einfügen',
+  'app.loading.withAi': 'Gründliche Prüfung mit KI.',
+  'app.loading.locally': 'Gründliche Prüfung auf diesem Gerät.',
+  'app.cancel': 'Abbrechen',
+  'app.error.title': 'Analyse unterbrochen',
+  'app.error.retry': 'Erneut versuchen',
+  'app.batch.again': 'Andere Dateien prüfen',
+  'app.result.backToBatch': 'Zurück zu den Stapelergebnissen',
+  'app.result.modeAi': 'Tiefe KI',
+  'app.result.modeLocal': 'Signaturprüfung',
+  'app.result.policy': 'Richtlinie {name}',
+  'app.result.policyUnchanged': 'Das Profil hat für diese Datei nichts geändert.',
+  'app.tab.overview': 'Übersicht',
+  'app.tab.preview': 'Vorschau',
+  'app.tab.technical': 'Technisch',
+  'app.result.summary': 'Zusammenfassung',
+  'app.result.recommendations': 'Empfehlungen',
+  'app.result.findings': 'Befunde',
+  'app.result.privacy': 'Datenschutz',
+  'app.result.line': 'Zeile {line}',
+  'app.result.matchedRules': 'Zutreffende Regeln',
+  'app.chat.title': 'OmniAI-Dateiassistent',
+  'app.chat.pro': 'Pro-Kontext',
+  'app.chat.local': 'Lokale Antworten • Ohne KI',
+  'app.chat.emptyLocal': 'Fragen Sie, warum diese Datei markiert wurde, welche URLs sie enthält, ob sie signiert ist oder was in einem Archiv steckt.',
+  'app.chat.emptyTooLarge': 'Diese Datei überschreitet die Größengrenze der KI, daher gibt es nichts zu besprechen.',
+  'app.chat.emptyPro': 'Fragen Sie mich alles zum Inhalt dieser Datei.',
+  'app.chat.emptyNoFile': 'Diese frühere Prüfung hat ihre Datei nicht behalten, daher gibt es nichts zu besprechen.',
+  'app.chat.thinking': 'Denkt nach...',
+  'app.chat.placeholder': 'Stellen Sie eine Frage zu dieser Datei...',
+  'app.chat.needsFile': 'Der Chat braucht die Originaldatei',
+  'app.chat.stop': 'Antwort stoppen',
+  'app.chat.noCommentary': 'Ich habe das analysiert, habe dazu aber keinen besonderen Kommentar.',
+  'app.chat.stopped': '_Gestoppt._',
+  'app.chat.cutOff': '_Die Antwort wurde abgeschnitten: Die Verbindung zur KI ist fehlgeschlagen._',
+  'app.chat.failed': 'Die KI-Sitzung ist abgelaufen oder der API-Schlüssel ist ungültig. Bitte prüfen Sie Ihre Einstellungen.',
+  'app.upsell.title': 'KI-Tiefenanalyse freischalten',
+  'app.upsell.body': 'Wechseln Sie in den Pro-Modus, um Google Gemini oder Ihr eigenes selbst gehostetes Modell für die tiefe Inhaltsprüfung, die Erkennung verdächtigen Codes und einen Chat zu nutzen, der alles zum Inhalt beantworten kann.',
+  'app.upsell.button': 'Meinen API-Schlüssel einrichten',
+  'app.footer.linkedin': 'LinkedIn-Profil',
+  'app.footer.engine': 'Datenschutzfreundliche Signatur-Engine',
+  'app.footer.tagline': 'OmniAnalyze • Entwickelt 2026 • Schutz digitaler Werte',
+
+  // Findings: file checks
+  'finding.unknownError': 'unbekannter Fehler',
+  'finding.signature-mismatch.title': 'Dateiendung passt nicht zum Inhalt',
+  'finding.signature-mismatch.executable': 'Als anderer Dateityp getarnte ausführbare Datei',
+  'finding.signature-mismatch.description': 'Der Name besagt {declared}, aber die Kopfbytes der Datei weisen sie als {type} aus ({evidence}).',
+  'finding.signature-mismatch.noExtension': 'keine Endung',
+  'finding.hash-lookup-failed.title': 'Hash-Listen konnten nicht geprüft werden',
+  'finding.hash-lookup-failed.description': 'Ihre Sperr- und Zulassungsliste konnten nicht gelesen werden, daher wurde diese Datei nicht mit ihnen abgeglichen ({error}).',
+  'finding.hash-blocklist.title': 'Bekannte schädliche Datei',
+  'finding.hash-blocklist.description': 'Der {algorithm}-Hash dieser Datei steht auf Ihrer Sperrliste (importiert aus {source}).',
+  'finding.hash-blocklist.descriptionLabelled': 'Der {algorithm}-Hash dieser Datei steht als „{label}“ auf Ihrer Sperrliste (importiert aus {source}).',
+  'finding.hash-allowlist.title': 'Auf Ihrer Zulassungsliste',
+  'finding.hash-allowlist.description': 'Der {algorithm}-Hash dieser Datei steht auf Ihrer Zulassungsliste (importiert aus {source}).',
+  'finding.hash-allowlist.descriptionLabelled': 'Der {algorithm}-Hash dieser Datei steht als „{label}“ auf Ihrer Zulassungsliste (importiert aus {source}).',
+  'finding.email-unreadable.title': 'E-Mail konnte nicht gelesen werden',
+  'finding.email-unreadable.description': 'Die Struktur der Nachricht ist beschädigt oder absichtlich fehlerhaft ({error}).',
+  'finding.document-unreadable.title': 'Dokument konnte nicht vollständig gelesen werden',
+  'finding.document-unreadable.description': 'Die interne Struktur des Dokuments ist beschädigt oder absichtlich fehlerhaft ({error}).',
+  'finding.archive-unreadable.title': 'Archiv konnte nicht gelesen werden',
+  'finding.archive-unreadable.description': 'Die Dateiliste des Archivs ist beschädigt oder absichtlich fehlerhaft ({error}).',
+
+  // Findings: documents
+  'finding.pdf-javascript-autorun.title': 'Führt beim Öffnen JavaScript aus',
+  'finding.pdf-javascript-autorun.description': 'Das PDF enthält JavaScript zusammen mit einer automatischen Aktion, sodass der Code läuft, sobald Sie es öffnen. Normale Dokumente brauchen das nicht.',
+  'finding.pdf-javascript.title': 'Enthält JavaScript',
+  'finding.pdf-javascript.description': 'Das PDF enthält JavaScript. Formulare nutzen es manchmal, es wird aber auch für Angriffe auf PDF-Reader verwendet.',
+  'finding.pdf-launch.title': 'Kann Programme auf Ihrem Computer starten',
+  'finding.pdf-launch.description': 'Eine /Launch-Aktion weist Ihren PDF-Reader an, ein anderes Programm oder einen Befehl auszuführen.',
+  'finding.pdf-embedded-executable.title': 'Enthält ein verstecktes Programm',
+  'finding.pdf-embedded-executable.description': 'Das PDF hat einen Anhang, der ein Programm ist: {names}.',
+  'finding.pdf-embedded-file.title': 'Hat Dateianhänge',
+  'finding.pdf-embedded-file.description': 'Das PDF enthält angehängte Dateien. Prüfen Sie sie, bevor Sie sie öffnen.',
+  'finding.pdf-embedded-file.descriptionNamed': 'Das PDF enthält die Anhänge: {names}. Prüfen Sie sie, bevor Sie sie öffnen.',
+  'finding.pdf-submit-form.title': 'Sendet Formulardaten ins Internet',
+  'finding.pdf-submit-form.description': 'Ein Formular in diesem PDF kann Ihre Eingaben an eine Webadresse senden.',
+  'finding.pdf-rich-media.title': 'Bettet Flash oder Multimedia ein',
+  'finding.pdf-rich-media.description': 'Multimedia-Inhalte in PDFs werden seit Langem für Angriffe auf PDF-Reader genutzt.',
+  'finding.pdf-xfa.title': 'Verwendet XFA-Formulare',
+  'finding.pdf-xfa.description': 'Das PDF verwendet dynamische XML-Formulare, die in manchen Readern Skripte unterstützen.',
+  'finding.pdf-links.title.one': 'Enthält {count} Weblink',
+  'finding.pdf-links.title.other': 'Enthält {count} Weblinks',
+  'finding.pdf-links.description': 'Ein Klick auf die Links in diesem Dokument öffnet: {links}.',
+  'finding.pdf-obfuscated-names.title': 'Getarnte PDF-Schlüsselwörter',
+  'finding.pdf-obfuscated-names.description': 'Schlüsselwörter im PDF sind mit Escape-Codes geschrieben (etwa /J#61vaScript), um an Scannern vorbeizukommen.',
+  'finding.office-macro-autoexec.title': 'Makro startet automatisch',
+  'finding.office-macro-autoexec.description': 'Das Dokument enthält VBA-Makros mit einer Autostart-Routine ({routine}), sodass der Code läuft, sobald Makros aktiviert werden.',
+  'finding.office-macro-hidden.title': 'Versteckte Makros',
+  'finding.office-macro-hidden.description': 'In einer .{ext}-Datei sind Makros versteckt, obwohl dieses Format keine enthalten sollte.',
+  'finding.office-macro.title': 'Enthält Makros',
+  'finding.office-macro.description': 'Das Dokument enthält VBA-Makros. Klicken Sie nicht auf „Inhalt aktivieren“, es sei denn, Sie haben von diesem Absender Makros erwartet.',
+  'finding.office-xlm-macro.title': 'Excel-4.0-Makros',
+  'finding.office-xlm-macro.description': 'Die Arbeitsmappe enthält alte Excel-4.0-Makroblätter, die Angreifer nutzen, weil viele Scanner sie übersehen.',
+  'finding.office-remote-template.title': 'Lädt beim Öffnen Inhalte aus dem Internet',
+  'finding.office-remote-template.description': 'Das Dokument lädt ein entferntes {part} von {target}, ein bekannter Weg, Makros nach dem Scannen der Datei einzuschleusen.',
+  'finding.office-remote-template.template': 'Vorlage',
+  'finding.office-remote-ole.title': 'Verweist auf ein entferntes Objekt',
+  'finding.office-remote-ole.description': 'Beim Öffnen des Dokuments wird ein eingebettetes Objekt von {target} geladen.',
+  'finding.office-ole-object.title': 'Eingebettete Objekte',
+  'finding.office-ole-object.description': 'Das Dokument bettet OLE-Objekte ein. Sie können Programme enthalten, die per Doppelklick starten.',
+  'finding.office-ole-object.descriptionCounted.one': 'Das Dokument bettet {count} OLE-Objekt ein ({names}). Es kann Programme enthalten, die per Doppelklick starten.',
+  'finding.office-ole-object.descriptionCounted.other': 'Das Dokument bettet {count} OLE-Objekte ein ({names}). Sie können Programme enthalten, die per Doppelklick starten.',
+  'finding.office-activex.title': 'ActiveX-Steuerelemente',
+  'finding.office-activex.description': 'Das Dokument enthält ActiveX-Steuerelemente, die unter Windows Code ausführen können.',
+  'finding.office-dde.title': 'Führt Befehle über DDE aus',
+  'finding.office-dde.description': 'Ein DDE-Feld kann Programme starten, wenn das Dokument geöffnet oder seine Verknüpfungen aktualisiert werden.',
+  'finding.office-encrypted.title': 'Passwortgeschützt',
+  'finding.office-encrypted.description': 'Das Dokument ist verschlüsselt, daher konnte sein Inhalt nicht geprüft werden.',
+  'finding.office-unreadable.title': 'Beschädigte Dokumentstruktur',
+  'finding.office-unreadable.description': 'Die interne Dateitabelle des Dokuments konnte nicht gelesen werden, was auf Manipulation hindeuten kann.',
+
+  // Findings: archives
+  'finding.archive-bomb.title': 'Wahrscheinlich eine Zip-Bombe',
+  'finding.archive-bomb.description': 'Das Archiv gibt an, sich von {packed} auf {unpacked} Bytes zu entpacken – genug, um Ihre Festplatte oder Ihren Virenscanner zu überlasten.',
+  'finding.archive-bomb.descriptionEntry': '„{path}“ entpackt sich {ratio}-fach (bis zu {size} Bytes), weit über normale Kompression hinaus.',
+  'finding.archive-bomb.descriptionOverrun': '„{path}“ entpackte sich über die Prüfgrenze hinaus weiter, obwohl es {size} Bytes angab.',
+  'finding.archive-path-traversal.title': 'Pfad-Traversal im Archiv',
+  'finding.archive-path-traversal.description': '„{path}“ würde außerhalb des Ordners landen, in den Sie entpacken, und könnte System- oder Autostart-Dateien überschreiben.',
+  'finding.archive-double-extension.title': 'Getarnter Dateiname im Archiv',
+  'finding.archive-double-extension.description': '„{name}“ nutzt eine doppelte Endung, um wie {type} auszusehen, ist aber ein Programm.',
+  'finding.archive-executable.title': 'Ausführbare Datei im Archiv: {name}',
+  'finding.archive-entry.title': 'Markierte Datei im Archiv: {name}',
+  'finding.archive-entry.description': '{path}: {verdict}',
+  'finding.archive-entry.more.title.one': '{count} weitere markierte Datei im Archiv',
+  'finding.archive-entry.more.title.other': '{count} weitere markierte Dateien im Archiv',
+  'finding.archive-entry.more.description': 'In der Dateiliste sehen Sie jeden Eintrag und sein Urteil.',
+  'finding.archive-encrypted.title': 'Passwortgeschützte Dateien',
+  'finding.archive-encrypted.description.one': '{count} Datei ist verschlüsselt und konnte nicht geprüft werden. Angreifer verschlüsseln Archive oft, um an Scannern vorbeizukommen.',
+  'finding.archive-encrypted.description.other': '{count} Dateien sind verschlüsselt und konnten nicht geprüft werden. Angreifer verschlüsseln Archive oft, um an Scannern vorbeizukommen.',
+
+  // Notes on archive entries and email attachments
+  'note.passwordProtected': 'Passwortgeschützt',
+  'note.tooDeep': 'Zu tief verschachtelt für die Prüfung',
+  'note.limitReached': 'Übersprungen: Prüfgrenze erreicht',
+  'note.expandsPastLimit': 'Entpackt sich über die Prüfgrenze von {size} MB hinaus',
+  'note.unreadable': 'Nicht lesbar',
+  'note.outlookItem': 'Eingebettetes Outlook-Element: nicht geprüft',
+  'note.noData': 'Keine Anhangsdaten',
+
+  // Findings: email
+  'finding.email-dmarc-fail.title': 'Absender hat DMARC nicht bestanden',
+  'finding.email-dmarc-fail.description': 'Der empfangende Mailserver meldete, dass diese Nachricht DMARC nicht bestanden hat. Sie stammt also sehr wahrscheinlich nicht vom angegebenen Absender.',
+  'finding.email-dmarc-fail.descriptionFor': 'Der empfangende Mailserver meldete, dass diese Nachricht DMARC für {detail} nicht bestanden hat. Sie stammt also sehr wahrscheinlich nicht vom angegebenen Absender.',
+  'finding.email-auth-fail.title': 'Absenderprüfungen fehlgeschlagen',
+  'finding.email-auth-fail.description': 'Der empfangende Mailserver meldete: {results}. Die Nachricht stammt möglicherweise nicht von dem Server, den sie angibt.',
+  'finding.email-auth-fail.result': '{method} {result}',
+  'finding.email-auth-fail.resultFor': '{method} {result} für {detail}',
+  'finding.email-auth-missing.title': 'Keine Ergebnisse der Absenderauthentifizierung',
+  'finding.email-auth-missing.description': 'Die Nachricht hat keinen Authentication-Results-Header, daher lässt sich nicht bestätigen, ob der Absender echt ist. Kopien, die aus manchen Mailprogrammen eingefügt oder gespeichert wurden, verlieren ihn.',
+  'finding.email-reply-to-mismatch.title': 'Antworten gehen an eine andere Domain',
+  'finding.email-reply-to-mismatch.description': 'Die Nachricht stammt von {from}, Antworten gehen aber an {replyTo}. Betrüger richten das so ein, damit Ihre Antwort bei ihnen landet.',
+  'finding.email-return-path-mismatch.title': 'Rückläufer gehen an eine andere Domain',
+  'finding.email-return-path-mismatch.description': 'Unzustellbarkeitsmeldungen gehen an {returnPath}, nicht an {domain}. Massenversanddienste tun das oft im Auftrag des Absenders.',
+  'finding.email-return-path-mismatch.descriptionUnverified': 'Unzustellbarkeitsmeldungen gehen an {returnPath}, nicht an {domain}. Da DMARC nicht besteht, verbindet nichts die beiden.',
+  'finding.email-display-name-spoof.title': 'Absendername zeigt eine andere Adresse',
+  'finding.email-display-name-spoof.description': 'Der Absendername lautet „{name}“, die Nachricht kam aber von {address}.',
+  'finding.email-display-name-brand.title': 'Absendername beruft sich auf eine Marke',
+  'finding.email-display-name-brand.description': 'Der Absender nennt sich „{name}“, die Nachricht kam aber von {domain}, das nicht zu {brand} gehört.',
+  'finding.email-sender-lookalike.title': 'Absenderdomain ahmt eine andere nach',
+  'finding.email-sender-lookalike.description': '{domain} ahmt {detail} nach. Ähnlich aussehende Absenderdomains dienen dazu, sich als vertrauenswürdige Person auszugeben.',
+  'finding.email-sender-lookalike.descriptionHomoglyph': '{domain} verwendet {detail}. Ähnlich aussehende Absenderdomains dienen dazu, sich als vertrauenswürdige Person auszugeben.',
+  'finding.email-link-mismatch.title': 'Links führen woandershin als angezeigt',
+  'finding.email-link-mismatch.description': '{links}. Eine Adresse anzuzeigen und auf eine andere zu verlinken, ist ein klassischer Phishing-Trick.',
+  'finding.email-link-mismatch.item': '„{text}“ führt zu {host}',
+  'finding.email-attachment-executable.title': 'Angehängtes Programm: {name}',
+  'finding.email-attachment.title': 'Markierter Anhang: {name}',
+  'finding.email-attachment.description': '{name}: {verdict}',
+  'finding.email-attachment.more.title.one': '{count} weiterer markierter Anhang',
+  'finding.email-attachment.more.title.other': '{count} weitere markierte Anhänge',
+  'finding.email-attachment.more.description': 'In der Anhangsliste sehen Sie jede Datei und ihr Urteil.',
+
+  // Lists inside findings
+  'list.comma': '{head}, {item}',
+  'list.semicolon': '{head}; {item}',
+  'list.more': '{list} und {count} weitere',
+
+  // Findings: links
+  'finding.url-lookalike.title': 'Link zu einer ähnlich aussehenden Domain',
+  'finding.url-lookalike.description.one': '{hosts} ahmt einen bekannten Namen mit vertauschten oder fremden Buchstaben nach. Ähnlich aussehende Domains dienen dem Diebstahl von Zugangsdaten.',
+  'finding.url-lookalike.description.other': '{hosts} ahmen einen bekannten Namen mit vertauschten oder fremden Buchstaben nach. Ähnlich aussehende Domains dienen dem Diebstahl von Zugangsdaten.',
+  'finding.url-homoglyph.title': 'Link verwendet irreführende Zeichen',
+  'finding.url-homoglyph.description.one': '{hosts} verwendet Zeichen aus anderen Alphabeten, die wie normale Buchstaben aussehen. Die Adresse ist daher womöglich nicht, was sie scheint.',
+  'finding.url-homoglyph.description.other': '{hosts} verwenden Zeichen aus anderen Alphabeten, die wie normale Buchstaben aussehen. Die Adresse ist daher womöglich nicht, was sie scheint.',
+  'finding.url-credentials.title': 'Link verbirgt sein wahres Ziel',
+  'finding.url-credentials.description': 'Alles vor dem „@“ in einem Link ist ein Benutzername, nicht die Website. Der Link führt zu {hosts}.',
+  'finding.url-brand-subdomain.title': 'Link stellt eine bekannte Domain vor eine andere',
+  'finding.url-brand-subdomain.description.one': '{hosts} beginnt mit einer bekannten Domain, aber welche Website es ist, entscheidet das Ende des Namens.',
+  'finding.url-brand-subdomain.description.other': '{hosts} beginnen mit einer bekannten Domain, aber welche Website es ist, entscheidet das Ende des Namens.',
+  'finding.url-ip-host.title': 'Link zu einer reinen IP-Adresse',
+  'finding.url-ip-host.description': 'Links zu {hosts} kommen ganz ohne Domainnamen aus. Seriöse Dienste verschicken so etwas fast nie.',
+  'finding.url-shortener.title': 'Gekürzter Link',
+  'finding.url-shortener.description': 'Links über {hosts} verbergen ihr wahres Ziel, bis Sie klicken.',
+  'finding.url-suspicious-tld.title': 'Link zu einer riskanten Domainendung',
+  'finding.url-suspicious-tld.description.one': '{hosts} verwendet eine Domainendung, die billig zu registrieren und beim Phishing verbreitet ist.',
+  'finding.url-suspicious-tld.description.other': '{hosts} verwenden eine Domainendung, die billig zu registrieren und beim Phishing verbreitet ist.',
+  'url.hostDetail': '{host} ({detail})',
+  'url.notUser': '{host}, nicht {user}',
+  'url.writtenAs': 'geschrieben als {host}',
+  'url.mixedAlphabets': 'gemischte Alphabete',
+  'url.imitatingLetters': 'Buchstaben, die lateinische nachahmen',
+
+  // Findings: programs
+  'finding.exe-injection-imports.title': 'Kann Code in andere Programme einschleusen',
+  'finding.exe-injection-imports.description': 'Importiert {names}, die Funktionen, mit denen Schadcode in legitimen Prozessen versteckt wird.',
+  'finding.exe-suspicious-imports.title': 'Nutzt sensible Systemfunktionen',
+  'finding.exe-suspicious-imports.description': 'Importiert {imports}.',
+  'finding.exe-suspicious-imports.item': '{name} ({purpose})',
+  'finding.exe-packed.title': 'Gepackt mit {packers}',
+  'finding.exe-packed.description': 'Der eigentliche Code des Programms ist komprimiert oder verschlüsselt und wird erst beim Ausführen entpackt, was ihn vor der Prüfung verbirgt.',
+  'finding.exe-high-entropy.title': 'Verschlüsselter oder komprimierter Code',
+  'finding.exe-high-entropy.description.one': 'Der Codeabschnitt {sections} wirkt zufällig – ein Zeichen für Packen oder Verschlüsselung.',
+  'finding.exe-high-entropy.description.other': 'Die Codeabschnitte {sections} wirken zufällig – ein Zeichen für Packen oder Verschlüsselung.',
+  'finding.exe-high-entropy.section': '{name} (Entropie {entropy})',
+  'finding.exe-wx-section.title': 'Selbstmodifizierende Codeabschnitte',
+  'finding.exe-wx-section.description.one': 'Der Abschnitt {sections} ist zugleich beschreibbar und ausführbar.',
+  'finding.exe-wx-section.description.other': 'Die Abschnitte {sections} sind zugleich beschreibbar und ausführbar.',
+  'finding.exe-few-imports.title': 'Verbirgt, welche Systemfunktionen es nutzt',
+  'finding.exe-few-imports.description.one': 'Nur {count} importierte Funktion neben Daten, die verschlüsselt wirken; die eigentlichen Importe werden wahrscheinlich zur Laufzeit aufgelöst.',
+  'finding.exe-few-imports.description.other': 'Nur {count} importierte Funktionen neben Daten, die verschlüsselt wirken; die eigentlichen Importe werden wahrscheinlich zur Laufzeit aufgelöst.',
+  'finding.exe-signature.title': 'Digital signiert',
+  'finding.exe-signature.description': 'Ein Codesignaturzertifikat ist angehängt. Prüfen Sie in den Windows-Dateieigenschaften, ob es gültig ist und vom erwarteten Herausgeber stammt.',
+  'finding.exe-unsigned.title': 'Keine digitale Signatur',
+  'finding.exe-unsigned.description': 'Es ist kein Codesignaturzertifikat angehängt, daher lässt sich der Herausgeber nicht überprüfen.',
+  'finding.exe-unparsed.title': 'Programmstruktur konnte nicht gelesen werden',
+  'finding.exe-unparsed.description': 'Die Datei beginnt wie ein Programm, aber ihre Header sind abgeschnitten oder beschädigt, daher wurden Abschnitte, Importe und Signatur nicht geprüft.',
+  'finding.exe.unnamedSection': '(ohne Namen)',
+  'import.allocateExecutable': 'ausführbaren Speicher reservieren',
+  'import.allocateRemote': 'Speicher in einem anderen Programm reservieren',
+  'import.makeExecutable': 'Speicher ausführbar machen',
+  'import.writeProgram': 'in ein anderes Programm schreiben',
+  'import.startRemote': 'Code in einem anderen Programm starten',
+  'import.hijackThread': 'den Thread eines anderen Programms kapern',
+  'import.hollow': 'ein anderes Programm aushöhlen',
+  'import.watchInput': 'Tastatur oder Maus überwachen',
+  'import.readKeys': 'Tastenanschläge mitlesen',
+  'import.download': 'Dateien herunterladen',
+  'import.runPrograms': 'andere Programme ausführen',
+  'import.detectAnalysis': 'Analysewerkzeuge erkennen',
+  'import.raisePrivileges': 'die eigenen Rechte erhöhen',
+  'import.encrypt': 'Daten verschlüsseln',
+  'import.controlProcesses': 'andere Prozesse steuern',
+  'import.writeProcess': 'in einen anderen Prozess schreiben',
+  'import.memoryOnly': 'Code nur aus dem Speicher ausführen',
+
+  // Findings: images
+  'finding.image-gps.title': 'Foto verrät, wo es aufgenommen wurde',
+  'finding.image-gps.description': 'Die {format}-Metadaten enthalten eine GPS-Position ({position}). Jeder, mit dem Sie das Original teilen, kann sehen, wo es aufgenommen wurde. Der Tab Vorschau kann für JPEG und PNG eine Kopie ohne diese Angabe herunterladen.',
+  'finding.image-identifying-metadata.title': 'Kamera, Urheber und weitere Metadaten',
+  'finding.image-identifying-metadata.description': 'Die Metadaten enthalten: {names}. Daraus lassen sich das Gerät oder die Person, die das Bild erstellt hat, und der Zeitpunkt ermitteln.',
+  'finding.image.bytes.one': '{count} Byte',
+  'finding.image.bytes.other': '{count} Bytes',
+  'finding.image.trailing': '{size} folgen auf die {format}-Endmarke bei Offset {offset}',
+  'finding.image-appended-executable.title': 'Programm hinter dem Bild versteckt',
+  'finding.image-appended-executable.description': '{where}, und ihr Header entspricht dem {type}-Format ({evidence}). Bildbetrachter ignorieren alles nach dem Bildende, deshalb werden Programme auf diese Weise eingeschmuggelt.',
+  'finding.image-appended-camera-data.title': 'Zusätzliche Kameradaten hinter dem Bild',
+  'finding.image-appended-camera-data.description': '{where}. Ihr Header entspricht dem {type}-Format, mit dem Smartphones „Bewegte Fotos“ speichern. Das ist meist harmlos, aber die Daten wandern mit dem Foto mit.',
+  'finding.image-appended-camera-data.descriptionSamsung': '{where}. Es handelt sich um einen Samsung-Kamera-Anhangsblock. Das ist meist harmlos, aber die Daten wandern mit dem Foto mit.',
+  'finding.image-appended-archive.title': 'Archiv hinter dem Bild versteckt',
+  'finding.image-appended-data.title': 'Versteckte Daten nach dem Bildende',
+  'finding.image-appended-data.description': '{where}. Sie gehören nicht zum Bild. Bildbetrachter ignorieren sie, daher können sie versteckte Dateien oder Nachrichten enthalten.',
+  'finding.image-appended-data.descriptionTyped': '{where}. Ihr Header entspricht dem {type}-Format. Bildbetrachter ignorieren sie, daher können sie versteckte Dateien oder Nachrichten enthalten.',
+  'finding.image-zip-polyglot.title': 'Bild ist zugleich ein ZIP-Archiv',
+  'finding.image-zip-polyglot.titlePrograms': 'Bild ist zugleich ein ZIP-Archiv mit Programmen',
+  'finding.image-zip-polyglot.description.one': 'Die Datei öffnet sich sowohl als Bild als auch als ZIP-Archiv mit {count} Datei. Dateien, die zwei Dinge zugleich sein sollen, werden genutzt, um Archive an Upload-Filtern vorbeizuschleusen.',
+  'finding.image-zip-polyglot.description.other': 'Die Datei öffnet sich sowohl als Bild als auch als ZIP-Archiv mit {count} Dateien. Dateien, die zwei Dinge zugleich sein sollen, werden genutzt, um Archive an Upload-Filtern vorbeizuschleusen.',
+  'finding.image-zip-polyglot.descriptionPrograms.one': 'Die Datei öffnet sich sowohl als Bild als auch als ZIP-Archiv mit {count} Datei, darunter {programs}. Dateien, die zwei Dinge zugleich sein sollen, werden genutzt, um Archive an Upload-Filtern vorbeizuschleusen.',
+  'finding.image-zip-polyglot.descriptionPrograms.other': 'Die Datei öffnet sich sowohl als Bild als auch als ZIP-Archiv mit {count} Dateien, darunter {programs}. Dateien, die zwei Dinge zugleich sein sollen, werden genutzt, um Archive an Upload-Filtern vorbeizuschleusen.',
+  'finding.image.afterEnd': 'nach dem Bildende',
+  'finding.image.inside': 'im Bild oder in seinen Metadaten',
+  'finding.image-embedded-code.title': 'Skriptcode im Bild versteckt',
+  'finding.image-embedded-code.description': '`{code}` wurde {where} gefunden. Echte Bilder enthalten nie Code; ein Server oder Browser, der die Datei für ein Skript oder eine Seite hält, führt ihn aus.',
+  'finding.image-html-polyglot.title': 'Bild lässt sich auch als Webseite lesen',
+  'finding.image-html-polyglot.description': 'HTML-Markup wurde {where} gefunden. Ein Browser, der den Inhalt untersucht, statt dem Dateityp zu vertrauen, kann es als Seite darstellen.',
+  'finding.image-large-comment.title': 'Ungewöhnlich großer Bildkommentar',
+  'finding.image-large-comment.description': 'Der {segment} enthält {size}. Kommentare umfassen meist ein, zwei Zeilen; so viel Platz dient dazu, Daten oder Code zu verstecken.',
+  'finding.image-large-comment.descriptionOthers.one': 'Der {segment} enthält {size}, und {count} weiterer ist ebenfalls zu groß. Kommentare umfassen meist ein, zwei Zeilen; so viel Platz dient dazu, Daten oder Code zu verstecken.',
+  'finding.image-large-comment.descriptionOthers.other': 'Der {segment} enthält {size}, und {count} weitere sind ebenfalls zu groß. Kommentare umfassen meist ein, zwei Zeilen; so viel Platz dient dazu, Daten oder Code zu verstecken.',
+  'finding.image-large-comment.segment': 'Kommentarsegment',
+  'finding.image-large-comment.chunk': 'Textblock „{name}“',
+  'finding.image-unknown-chunks.title': 'Nicht standardmäßige PNG-Blöcke',
+  'finding.image-unknown-chunks.description.one': 'Das Bild enthält den Block {types} ({size}), den Standardbetrachter überspringen. Bearbeitungsprogramme fügen manchmal eigene hinzu, große Blöcke können aber versteckte Daten enthalten.',
+  'finding.image-unknown-chunks.description.other': 'Das Bild enthält die Blöcke {types} ({size}), die Standardbetrachter überspringen. Bearbeitungsprogramme fügen manchmal eigene hinzu, große Blöcke können aber versteckte Daten enthalten.',
+
+  // Findings: web content
+  'finding.web-svg-script.title': 'Skript in einem Bild versteckt',
+  'finding.web-svg-script.description': 'SVG-Bilder enthalten normalerweise nur Zeichenanweisungen. Dieses enthält ein Skript, das läuft, wenn das Bild in einem Browser geöffnet wird.',
+  'finding.web-svg-handler.title': 'Bild führt Code über Ereignisse aus',
+  'finding.web-svg-handler.description': 'Ein SVG-Element hat einen Ereignishandler (etwa onload), der beim Anzeigen des Bildes JavaScript ausführt.',
+  'finding.web-svg-foreign-object.title': 'In ein Bild eingebettete Webseite',
+  'finding.web-svg-foreign-object.description': 'Das SVG bettet HTML über <foreignObject> ein, womit gefälschte Anmeldeformulare in Bilder gezeichnet werden.',
+  'finding.web-eval-decode.title': 'Führt entschlüsselten versteckten Code aus',
+  'finding.web-eval-decode.description': 'Entschlüsselt eine versteckte Zeichenkette und führt sie sofort aus – die häufigste Art, wie Schadskripte verbergen, was sie tun.',
+  'finding.web-eval.title': 'Führt zur Laufzeit erzeugten Code aus',
+  'finding.web-eval.description': 'Nutzt eval() oder new Function(), um aus Zeichenketten zusammengesetzten Code auszuführen, sodass das tatsächliche Verhalten des Skripts schwer zu erkennen ist.',
+  'finding.web-string-timer.title': 'Führt Code aus einer Zeichenkette aus',
+  'finding.web-string-timer.description': 'Übergibt setTimeout oder setInterval eine Zeichenkette mit Code, was wie eval() wirkt.',
+  'finding.web-hex-escapes.title': 'Verschleierter Text',
+  'finding.web-hex-escapes.description': 'Eine lange Folge von \\x- oder \\u-Escape-Codes verbirgt lesbaren Text vor allen, die sich die Datei ansehen.',
+  'finding.web-charcode.title': 'Aus Zeichencodes zusammengesetzter Text',
+  'finding.web-charcode.description': 'Baut eine Zeichenkette aus einer Liste numerischer Zeichencodes – ein Trick, um URLs und Code zu verstecken.',
+  'finding.web-base64-blob.title': 'Großer codierter Block',
+  'finding.web-base64-blob.description': 'Eine lange base64-codierte Zeichenkette ist in den Code eingebettet. Seiten nutzen das, um Dateien oder Skripte an Filtern vorbeizuschleusen.',
+  'finding.web-hidden-iframe.title': 'Versteckter Frame',
+  'finding.web-hidden-iframe.description': 'Lädt eine andere Seite in einem unsichtbaren Frame – eine Technik für unbemerkte Downloads und Klickbetrug.',
+  'finding.web-external-form.title': 'Sendet Formulardaten an eine andere Website',
+  'finding.web-external-form.description': 'Ein Formular sendet Ihre Eingaben an eine externe Webadresse.',
+  'finding.web-password-form.title': 'Fragt nach einem Passwort',
+  'finding.web-password-form.description': 'Eine lokale Datei, die nach einem Passwort fragt und es woandershin sendet, ist fast immer eine Phishing-Seite. Echte Websites schicken Ihnen ihr Anmeldeformular nie per E-Mail.',
+  'finding.web-password-field.title': 'Fragt nach einem Passwort',
+  'finding.web-password-field.description': 'Die Datei enthält ein Anmeldeformular. Nichts darin sendet das Passwort an eine andere Website, aber echte Websites schicken Ihnen ihre Anmeldeseite nie per E-Mail. Geben Sie ein Passwort nur ein, wenn Sie der Herkunft der Datei vertrauen.',
+  'finding.web-javascript-url.title': 'Link, der Code ausführt',
+  'finding.web-javascript-url.description': 'Ein Link oder eine Ressource verwendet eine javascript:-Adresse, die Code ausführt, statt eine Seite zu öffnen.',
+  'finding.web-meta-refresh.title': 'Automatische Weiterleitung',
+  'finding.web-meta-refresh.description': 'Die Seite leitet Sie sofort an eine andere Adresse weiter. Phishing-E-Mails nutzen das, um Sie auf eine gefälschte Website zu bringen.',
+  'finding.web-script-redirect.title': 'Leitet per Skript weiter',
+  'finding.web-script-redirect.description': 'Ein Skript leitet die Seite an eine Adresse auf einer anderen Website weiter.',
+
+  // Findings: detection rules
+  'rule.matched': 'Entspricht der Erkennungsregel {name}.',
+  'rule.evidence': '{summary} Treffer: {hits}.',
+  'rule.hit': '{id} bei {offset}',
+  'rule.hitRepeated': '{id} bei {offset} ({times}-mal)',
+
+  // How the final verdict was reached
+  'blend.hashlist': '{finding} Hash-Listen haben Vorrang vor der lokalen Analyse und der KI.',
+  'blend.both': 'Sowohl die lokale Analyse als auch die KI haben diese Datei als {local} eingestuft.',
+  'blend.localFinding': 'Die KI hat diese Datei als {ai} eingestuft, aber die lokale Analyse fand „{title}“ und stufte sie als {local} ein. Die KI kann ein durch lokale Belege gestütztes Urteil nicht herabsetzen.',
+  'blend.local': 'Die KI hat diese Datei als {ai} eingestuft, aber die lokale Analyse fand Belege und stufte sie als {local} ein. Die KI kann ein durch lokale Belege gestütztes Urteil nicht herabsetzen.',
+  'blend.ai': 'Die lokale Analyse fand nichts über {local} hinaus, aber die KI hat den Inhalt gelesen und ihn als {ai} eingestuft. Das strengere Urteil gilt.',
+  'opinions.title': 'Zwei Einschätzungen',
+  'opinions.local': 'Lokale Analyse',
+  'opinions.ai': 'KI',
+  'opinions.reason': 'Wie das endgültige Urteil zustande kam',
+  'opinions.repaired': 'KI-Antwort repariert',
+
+  // What the AI was shown
+  'coverage.headline.full': 'Die KI hat die ganze Datei gesehen.',
+  'coverage.headline.extracted': 'Die KI hat Auszüge dieser Datei gesehen.',
+  'coverage.headline.skipped': 'Die KI hat diese Datei nicht gesehen.',
+  'coverage.read': '{sent} von {total} gelesen.',
+  'coverage.reason.oversized': 'Die Datei ist {size} groß und überschreitet die in den Einstellungen festgelegte KI-Grenze von {limit} MB, daher lief nur die lokale Analyse.',
+  'coverage.reason.textBudget': 'Die Datei enthält mehr Text als das Budget des Modells von {chars} Zeichen.',
+  'coverage.reason.textOnly': 'Dieses Modell liest nur Text, daher wurde der Binärinhalt auf druckbare Zeichenketten reduziert.',
+  'coverage.reason.inlineLimit': 'Die Datei überschreitet die Grenze für die direkte Übertragung von {limit}.',
+
+  // Archive contents
+  'archive.title': 'In diesem Archiv',
+  'archive.summary.one': '{count} Eintrag • {packed} gepackt • {unpacked} entpackt',
+  'archive.summary.other': '{count} Einträge • {packed} gepackt • {unpacked} entpackt',
+  'archive.truncated': 'Einige Einträge überschritten die Prüfgrenzen',
+  'archive.column.name': 'Name',
+  'archive.column.size': 'Größe',
+  'archive.column.ratio': 'Verhältnis',
+  'archive.column.verdict': 'Urteil',
+  'archive.column.notes': 'Hinweise',
+  'archive.unchecked': 'Nicht geprüft',
+
+  // Email details
+  'email.title': 'E-Mail-Nachricht',
+  'email.from': 'Von',
+  'email.replyTo': 'Antwort an',
+  'email.returnPath': 'Rückpfad',
+  'email.to': 'An',
+  'email.subject': 'Betreff',
+  'email.date': 'Datum',
+  'email.auth': 'Absenderauthentifizierung',
+  'email.noAuth': 'Kein Authentication-Results-Header, daher konnte der Absender nicht bestätigt werden.',
+  'email.links': 'Links in der Nachricht',
+  'email.noLinkText': '(kein Text)',
+  'email.actuallyGoesTo': 'Führt tatsächlich zu {href}',
+  'email.attachments': 'Anhänge',
+  'email.unchecked': 'Nicht geprüft',
+
+  // Batch results
+  'batch.title': 'Stapelergebnisse',
+  'batch.dangerFirst': 'Gefahr zuerst',
+  'batch.failedCount': '{count} fehlgeschlagen',
+  'batch.progress': '{finished} von {total} geprüft…',
+  'batch.done.one': '{count} Datei geprüft',
+  'batch.done.other': '{count} Dateien geprüft',
+  'batch.column.name': 'Name',
+  'batch.column.size': 'Größe',
+  'batch.column.type': 'Typ',
+  'batch.column.verdict': 'Urteil',
+  'batch.column.finding': 'Wichtigster Befund',
+  'batch.failed': 'Fehlgeschlagen',
+  'batch.scanning': 'Wird geprüft',
+  'batch.queued': 'In Warteschlange',
+
+  // Scan history
+  'history.title': 'Prüfverlauf',
+  'history.search': 'Name oder Hash...',
+  'history.anyVerdict': 'Jedes Urteil',
+  'history.from': 'Von',
+  'history.to': 'Bis',
+  'history.empty': 'Noch keine Prüfungen.',
+  'history.off': 'Der Verlauf ist deaktiviert.',
+  'history.noMatch': 'Keine Prüfung entspricht Ihrer Suche.',
+  'history.messages.one': '{count} Nachricht',
+  'history.messages.other': '{count} Nachrichten',
+  'history.delete': 'Diese Prüfung löschen',
+  'history.enabled': 'Einen Verlauf meiner Prüfungen speichern',
+  'history.keepFiles': 'Auch die Dateien selbst speichern',
+  'history.keepAtMost': 'Höchstens',
+  'history.scansFor': 'Prüfungen für',
+  'history.days': 'Tage aufbewahren',
+  'history.retentionHint': 'Bei 0 Tagen bleiben Prüfungen erhalten, bis Sie sie löschen. Der Verlauf verlässt diesen Browser nie.',
+  'history.deleteAll.one': '{count} Prüfung löschen',
+  'history.deleteAll.other': 'Alle {count} Prüfungen löschen',
+  'history.cancel': 'Abbrechen',
+  'history.clear': 'Verlauf löschen',
+
+  // Settings: detection rules
+  'rules.title': 'Erkennungsregeln',
+  'rules.summary.one': '{count} integrierte Regel. Importieren Sie eigene als JSON oder YARA-ähnlichen Text.',
+  'rules.summary.other': '{count} integrierte Regeln. Importieren Sie eigene als JSON oder YARA-ähnlichen Text.',
+  'rules.summaryCustom.one': '{count} integrierte Regel + {custom} eigene. Importieren Sie eigene als JSON oder YARA-ähnlichen Text.',
+  'rules.summaryCustom.other': '{count} integrierte Regeln + {custom} eigene. Importieren Sie eigene als JSON oder YARA-ähnlichen Text.',
+  'rules.import': 'Regeln importieren',
+  'rules.remove': 'Eigene Regeln entfernen',
+  'rules.imported.one': '{count} Regel aus {file} importiert.',
+  'rules.imported.other': '{count} Regeln aus {file} importiert.',
+  'rules.unreadable': 'Dieser Regelsatz konnte nicht gelesen werden.',
+  'rules.removed': 'Eigene Regeln entfernt.',
+  'rules.invalidSaved': 'Ihre gespeicherten Regeln lassen sich nicht mehr laden, daher gelten nur die integrierten: {error}',
+
+  // Settings: hash lists
+  'hashList.title': 'Hash-Listen',
+  'hashList.intro': 'Dateien, deren MD5, SHA-1 oder SHA-256 auf der Sperrliste steht, werden immer als gefährlich markiert; Dateien auf der Zulassungsliste als sicher. Importieren Sie Klartext oder CSV.',
+  'hashList.block.import': 'Sperrliste importieren ({count})',
+  'hashList.allow.import': 'Zulassungsliste importieren ({count})',
+  'hashList.block.clear': 'Sperrliste leeren',
+  'hashList.allow.clear': 'Zulassungsliste leeren',
+  'hashList.block.added.one': '{count} Hash aus {file} zur Sperrliste hinzugefügt.',
+  'hashList.block.added.other': '{count} Hashes aus {file} zur Sperrliste hinzugefügt.',
+  'hashList.allow.added.one': '{count} Hash aus {file} zur Zulassungsliste hinzugefügt.',
+  'hashList.allow.added.other': '{count} Hashes aus {file} zur Zulassungsliste hinzugefügt.',
+  'hashList.block.cleared': 'Sperrliste geleert.',
+  'hashList.allow.cleared': 'Zulassungsliste geleert.',
+  'hashList.unreadable': 'Diese Hash-Liste konnte nicht gelesen werden.',
+
+  // Settings: policy profiles
+  'policy.title': 'Richtlinienprofil',
+  'policy.intro': 'Profile passen Urteile nach Dateityp, Größe und Befund an die Arbeitsweise Ihres Teams an. Hash-Listen haben weiterhin Vorrang.',
+  'policy.imported': '{profiles} aus {file} importiert.',
+  'policy.imported.name': '{name} (importiert)',
+  'policy.unreadable': 'Dieses Profil konnte nicht gelesen werden.',
+  'policy.removed': 'Profil entfernt.',
+  'policy.remove': '{name} entfernen',
+  'policy.import': 'Profil importieren',
+  'policy.export': '{name} exportieren',
+
+  // Settings: Gemini key
+  'apiKey.title': 'Gemini-API-Schlüssel',
+  'apiKey.proxy': 'Gemini-Anfragen laufen über {url}, das den Schlüssel auf dem Server hinzufügt. In diesem Browser wird kein Schlüssel benötigt.',
+  'apiKey.testProxy': 'Proxy testen',
+  'apiKey.test': 'Testen',
+  'apiKey.source.vault': 'Auf diesem Gerät verschlüsselt, entsperrt',
+  'apiKey.source.session': 'Nur diese Sitzung, geht beim Neuladen verloren',
+  'apiKey.source.legacy': 'Von einer früheren Version unverschlüsselt gespeichert',
+  'apiKey.encryptLegacy': 'Mit einer Passphrase verschlüsseln',
+  'apiKey.lock': 'Sperren',
+  'apiKey.replace': 'Ersetzen',
+  'apiKey.remove': 'Schlüssel von diesem Gerät entfernen',
+  'apiKey.lockedIntro': 'Ihr Schlüssel ist verschlüsselt gespeichert. Geben Sie die Passphrase ein, um ihn in dieser Sitzung zu verwenden.',
+  'apiKey.passphrase': 'Passphrase',
+  'apiKey.unlock': 'Entsperren',
+  'apiKey.unlocking': 'Wird entsperrt...',
+  'apiKey.useAnother': 'Anderen Schlüssel verwenden',
+  'apiKey.placeholder': 'API-Schlüssel eingeben...',
+  'apiKey.storage.vault': 'Verschlüsseln und speichern',
+  'apiKey.storage.session': 'Nur diese Sitzung',
+  'apiKey.newPassphrase': 'Passphrase (mind. 8 Zeichen)',
+  'apiKey.repeatPassphrase': 'Passphrase wiederholen',
+  'apiKey.vaultHint': 'Die Passphrase wird nie gespeichert. Wenn Sie sie vergessen, entfernen Sie den Schlüssel und geben Sie ihn erneut ein.',
+  'apiKey.sessionHint': 'Der Schlüssel bleibt im Arbeitsspeicher und wird beim Schließen oder Neuladen der Seite vergessen.',
+  'apiKey.save': 'Schlüssel speichern',
+  'apiKey.saving': 'Wird gespeichert...',
+  'apiKey.cancel': 'Abbrechen',
+  'apiKey.getKey': 'Kostenlosen API-Schlüssel bei Google holen →',
+  'apiKey.failed': 'Etwas ist schiefgelaufen.',
+  'apiKey.keyWorks': 'Der Schlüssel funktioniert: {model} ist verfügbar.',
+  'apiKey.proxyWorks': 'Der Proxy funktioniert: {model} ist verfügbar.',
+  'apiKey.missing': 'Geben Sie Ihren API-Schlüssel ein.',
+  'apiKey.mismatch': 'Die Passphrasen stimmen nicht überein.',
+  'apiKey.keptForSession': 'Schlüssel für diese Sitzung behalten. Auf dem Datenträger wurde nichts gespeichert.',
+  'apiKey.saved': 'Schlüssel verschlüsselt und gespeichert. Nach dem Neuladen benötigen Sie die Passphrase.',
+  'apiKey.unlocked': 'Schlüssel für diese Sitzung entsperrt.',
+  'apiKey.locked': 'Schlüssel gesperrt. Entsperren Sie ihn mit Ihrer Passphrase, um den Pro-Modus wieder zu nutzen.',
+  'apiKey.removed': 'Schlüssel von diesem Gerät entfernt.',
+
+  // Technical panel
+  'technical.details': 'Technische Details',
+  'technical.noDetails': 'Es wurden keine technischen Details erfasst.',
+  'technical.iocs': 'Kompromittierungsindikatoren',
+  'technical.noIocs': 'In den Zeichenketten dieser Datei wurden keine URLs, IPs, Domains, E-Mail-Adressen, Registrierungsschlüssel oder Bitcoin-Adressen gefunden.',
+  'technical.copyAll': 'Alle {count} kopieren',
+  'technical.copy': 'Kopieren',
+  'technical.ioc.url': 'URLs',
+  'technical.ioc.ip': 'IP-Adressen',
+  'technical.ioc.domain': 'Domains',
+  'technical.ioc.email': 'E-Mail-Adressen',
+  'technical.ioc.registry': 'Registrierungsschlüssel',
+  'technical.ioc.bitcoin': 'Bitcoin-Adressen',
+  'technical.noFile': 'Diese frühere Prüfung hat ihre Datei nicht gespeichert, daher sind Entropiediagramm, Zeichenketten und Hex-Ansicht nicht verfügbar.',
+  'technical.entropy': 'Entropie',
+  'technical.entropy.point': '{offset}: {bits} Bit/Byte',
+  'technical.entropy.hint': 'Bits pro Byte über die Datei vom Anfang bis zum Ende. Rote Abschnitte über 7,2 sind meist komprimierte oder verschlüsselte Daten; klicken Sie auf einen Balken, um ihn in Hex anzuzeigen.',
+  'technical.strings': 'Zeichenketten',
+  'technical.strings.filter': 'Zeichenketten filtern...',
+  'technical.strings.minLength': 'Min. Länge',
+  'technical.strings.count.one': '{shown} Zeichenkette',
+  'technical.strings.count.other': '{shown} Zeichenketten',
+  'technical.strings.showing': ', die ersten {limit} werden angezeigt',
+  'technical.strings.scanned': ' aus den ersten {size} MB',
+  'technical.hex': 'Hex-Ansicht',
+  'technical.hex.goto': 'Zu Offset springen (z. B. 0x400 oder 1024)',
+  'technical.hex.go': 'Los',
+
+  // Program structure
+  'executable.title': 'Programmstruktur',
+  'executable.format': 'Format',
+  'executable.machine': 'Maschine',
+  'executable.machineBits': '{machine}, {bits}-Bit',
+  'executable.subsystem': 'Subsystem',
+  'executable.entryPoint': 'Einstiegspunkt',
+  'executable.compiled': 'Kompiliert',
+  'executable.interpreter': 'Interpreter',
+  'executable.signature': 'Signatur',
+  'executable.signed': 'Authenticode vorhanden (nicht überprüft)',
+  'executable.unsigned': 'Nicht signiert',
+  'executable.sections': 'Abschnitte ({count})',
+  'executable.column.name': 'Name',
+  'executable.column.address': 'Adresse',
+  'executable.column.virtual': 'Virtuell',
+  'executable.column.onDisk': 'Auf Datenträger',
+  'executable.column.access': 'Zugriff',
+  'executable.column.entropy': 'Entropie',
+  'executable.imports.one': 'Importe ({count} Bibliothek)',
+  'executable.imports.other': 'Importe ({count} Bibliotheken)',
+  'executable.noImports': 'Keine Importe gefunden.',
+  'executable.functions.one': '{count} Funktion',
+  'executable.functions.other': '{count} Funktionen',
+  'executable.exports': 'Exporte ({count})',
+  'executable.showAll': 'Alle {count} anzeigen',
+
+  // Safe preview
+  'preview.title': 'Sichere Vorschau',
+  'preview.subtitle.image': 'Ohne Standort, Kameradaten und andere Metadaten angezeigt',
+  'preview.subtitle.markup': 'Bereinigt und in einer Sandbox dargestellt',
+  'preview.subtitle.pdf': 'Nur Text; aus dem PDF wird nichts ausgeführt oder gerendert',
+  'preview.subtitle.source': 'Schreibgeschützter Quelltext ({language})',
+  'preview.subtitle.text': 'Schreibgeschützter Text',
+  'preview.subtitle.none': 'Für diesen Dateityp nicht verfügbar',
+  'preview.tooLarge': 'Dateien über {size} MB werden nicht in der Vorschau angezeigt.',
+  'preview.failed': 'Für diese Datei konnte keine Vorschau erstellt werden.',
+  'preview.unsupported': 'Für diesen Dateityp gibt es keine sichere Vorschau. Der Tab Technik zeigt seine Zeichenketten und Rohbytes.',
+  'preview.noFile': 'Diese frühere Prüfung hat ihre Datei nicht gespeichert, daher gibt es keine Vorschau.',
+  'preview.loading': 'Vorschau wird vorbereitet...',
+  'preview.dimensions': 'Abmessungen',
+  'preview.gps': 'Dieses Bild enthält, wo es aufgenommen wurde: {position}. Jeder, dem Sie das Original schicken, kann das sehen.',
+  'preview.gpsAltitude': 'Dieses Bild enthält, wo es aufgenommen wurde: {position} in {altitude} m Höhe. Jeder, dem Sie das Original schicken, kann das sehen.',
+  'preview.noMetadata': 'Keine Kamera-, Standort- oder Textmetadaten gefunden.',
+  'preview.downloadClean': 'Ohne Metadaten herunterladen',
+  'preview.rendered': 'Dargestellt',
+  'preview.source': 'Quelltext',
+  'preview.blocked': 'Skripte, Formulare und Netzwerkzugriff sind blockiert.',
+  'preview.blockedRemoved': 'Skripte, Formulare und Netzwerkzugriff sind blockiert; {removed} entfernt.',
+  'preview.frameTitle': 'Vorschau von {name}',
+  'preview.noPdfText': 'Es konnte kein Text extrahiert werden. Die Seiten sind vielleicht eingescannte Bilder oder nutzen eine Kodierung, die dieser Betrachter nicht lesen kann.',
+  'preview.page': 'Seite {page}',
+  'preview.emptyPage': 'Kein Text auf dieser Seite.',
+  'preview.pageLimit': 'Nur die ersten {count} Seiten werden angezeigt.',
+  'preview.truncated': 'Die ersten {size} KB werden angezeigt.',
+
+  // Paste text
+  'paste.title': 'Text oder Link prüfen',
+  'paste.intro': 'Fügen Sie eine verdächtige E-Mail, ein Skript oder einen Link ein. Links werden auf ähnlich aussehende Domains, IP-Adressen, Kurzlinks und riskante Endungen geprüft, ohne sie zu öffnen.',
+  'paste.placeholder': 'https://example.com/login oder der vollständige Text einer Nachricht',
+  'paste.kind.auto': 'Automatisch erkennen',
+  'paste.kind.detected': 'Automatisch erkennen ({kind})',
+  'paste.kind.text': 'Klartext oder ein Link',
+  'paste.kind.email': 'E-Mail (mit Headern)',
+  'paste.kind.html': 'HTML',
+  'paste.kind.js': 'JavaScript',
+  'paste.kind.ps1': 'PowerShell',
+  'paste.kind.sh': 'Shell-Skript',
+  'paste.scan': 'Prüfen',
+
+  // Report export
+  'report.export': 'Bericht exportieren',
+  'report.print': 'Drucken / PDF',
+  'report.failed': 'Der Bericht konnte nicht erstellt werden.'
+};
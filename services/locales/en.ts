@@ -0,0 +1,733 @@
+/**
+ * English, the source catalog. Every other locale defines the same keys;
+ * `{name}` is replaced by a parameter, and keys ending in `.one`/`.other`
+ * are plural forms picked by the `count` parameter.
+ */
+export const en = {
+  // Verdict and severity badges
+  'verdict.SAFE': 'Safe',
+  'verdict.CAUTION': 'Caution',
+  'verdict.DANGER': 'Danger',
+  'verdict.unknown': 'Analyzed',
+  'severity.INFO': 'Info',
+  'literal': '{text}',
+
+  // Local analyzer: verdicts, explanations and advice
+  'analysis.default.verdict': 'This file looks safe to open.',
+  'analysis.default.explanation': "I've checked the file format and it matches standard patterns.",
+  'analysis.executable.verdict': 'High Risk: Executable File detected.',
+  'analysis.executable.explanation': 'This is a program that can run code on your computer. Unless you trust the source 100%, do not open it.',
+  'analysis.archive.verdict': 'The files inside this archive look safe.',
+  'analysis.archive.explanation.one': 'I looked inside the one file in this archive without extracting it, and it raised no flag.',
+  'analysis.archive.explanation.other': 'I looked inside all {count} files in this archive without extracting them, and none of them raised a flag.',
+  'analysis.archive.incomplete.verdict': 'Proceed with Caution: Not everything inside could be checked.',
+  'analysis.archive.incomplete.explanation': 'I looked inside this archive without extracting it, but some files were password protected, too large or nested too deep to check.',
+  'analysis.unopenedArchive.verdict': 'Proceed with Caution: Compressed Archive.',
+  'analysis.unopenedArchive.explanation': "Archives can hide dangerous files inside them. It's safe to look, but be careful what you extract.",
+  'analysis.email.verdict': 'This email looks legitimate.',
+  'analysis.email.explanation': 'I checked who sent this message, where replies go, its {links} and {attachments} without opening anything, and nothing raised a flag.',
+  'analysis.email.noAuth': "It carries no sender authentication results, so the sender itself couldn't be confirmed.",
+  'analysis.email.incomplete.verdict': 'Proceed with Caution: Not everything in this email could be checked.',
+  'analysis.email.incomplete.explanation': "Some of it was too large, nested too deep or stored in a form I can't open.",
+  'analysis.link.verdict': 'This link looks safe.',
+  'analysis.link.explanation': 'I checked the address without visiting it. {host} is not a lookalike of a well-known site, a bare IP address, a link shortener or on a high-risk domain ending.',
+  'analysis.web.verdict': 'This web file looks clean.',
+  'analysis.web.explanation': 'I read through its code and found none of the tricks phishing pages and malicious scripts rely on, such as hidden frames, redirects or obfuscated code.',
+  'analysis.image.verdict': 'This image looks clean.',
+  'analysis.image.explanation': "I read the {format} image's structure and metadata and found nothing hidden in it or after it.",
+  'analysis.document.verdict': 'This document has no active content.',
+  'analysis.document.explanation': "I looked through the {kind} document's internals for macros, scripts, auto-run actions and embedded programs, and found none.",
+  'analysis.policy.allowed': 'Allowed by the {policy} policy.',
+  'analysis.policy.restricted.DANGER': 'High Risk: Restricted by the {policy} policy.',
+  'analysis.policy.restricted.CAUTION': 'Proceed with Caution: Restricted by the {policy} policy.',
+  'analysis.policy.explanation': 'The {policy} policy rates files like this one {verdict}.',
+  'policy.adjusted': '{description} The {profile} policy rates this {severity} instead of {previous}.',
+  'analysis.mismatch.disguised': 'High Risk: Disguised Executable.',
+  'analysis.mismatch.DANGER': 'High Risk: File Type Mismatch.',
+  'analysis.mismatch.CAUTION': 'Caution: File Type Mismatch.',
+  'analysis.mismatch.explanation': 'This file is named like a {name} file, but inside it is really a {type}. Files that pretend to be something else are a common trick to get you to open them.',
+  'analysis.mismatch.plain': 'plain',
+  'analysis.finding.DANGER': 'High Risk: {title}.',
+  'analysis.finding.CAUTION': 'Caution: {title}.',
+  'analysis.rule.explanation': 'This file matched one of the detection rules for suspicious content.',
+  'analysis.blocklist.verdict': 'High Risk: Known malicious file.',
+  'analysis.blocklist.explanation': 'This exact file is on your blocklist. Whatever it looks like, it has already been identified as harmful.',
+  'analysis.blocklist.explanationLabelled': 'This exact file is on your blocklist as "{label}". Whatever it looks like, it has already been identified as harmful.',
+  'analysis.allowlist.verdict': 'Known good: this file is on your allowlist.',
+  'analysis.allowlist.explanation': 'This exact file is on your allowlist, so it is marked safe. Without the allowlist it would have been rated {verdict}: {previous}',
+  'analysis.allowlist.explanationLabelled': 'This exact file is on your allowlist as "{label}", so it is marked safe. Without the allowlist it would have been rated {verdict}: {previous}',
+  'analysis.allowlist.also': 'It is also on your allowlist.',
+  'analysis.count.link.one': '{count} link',
+  'analysis.count.link.other': '{count} links',
+  'analysis.count.attachment.one': '{count} attachment',
+  'analysis.count.attachment.other': '{count} attachments',
+
+  'advice.openWithViewer': 'You can open this file with any compatible viewer.',
+  'advice.keepUpdated': 'Always keep your software updated.',
+  'advice.antivirus': 'Scan this file with a dedicated Antivirus.',
+  'advice.notAsAdmin': 'Do not run as Administrator.',
+  'advice.checkSignature': 'Check the digital signature if possible.',
+  'advice.reviewFileList': 'Review the file list below before extracting.',
+  'advice.extractOnlyNeeded': 'Only extract the files you actually need.',
+  'advice.updateZipTool': 'Ensure your zip tool is up to date.',
+  'advice.openArchiveFirst': "Open the archive to see what's inside before extracting.",
+  'advice.confirmSender': 'If the message asks for money, passwords or urgency, confirm with the sender another way.',
+  'advice.typeLinks': "Open links by typing the site's address yourself.",
+  'advice.expectedAttachments': 'Only open attachments you were expecting.',
+  'advice.typeAddress': "Type the site's address yourself rather than following links in messages.",
+  'advice.checkAddressBar': 'Check the address bar before entering a password.',
+  'advice.privateWindow': "Open in a private/incognito window if you don't know the sender.",
+  'advice.noPasswordsInAttachments': 'Never type passwords into a page that arrived as an attachment.',
+  'advice.anyImageViewer': 'You can open this image with any viewer.',
+  'advice.keepMacrosDisabled': 'Keep macros disabled when opening documents from others.',
+  'advice.noDoubleClick': 'Do not open this file by double-clicking it.',
+  'advice.askSender': 'Ask the sender what the file is supposed to be.',
+  'advice.stripMetadata': 'Strip the metadata before sharing this file.',
+  'advice.onlyIfTrusted': 'Do not open this file unless you trust where it came from.',
+  'advice.doNotOpen': 'Do not open this file.',
+  'advice.deleteIt': 'Delete it and empty the trash.',
+  'advice.tellSecurityTeam': 'Tell your security team where it came from.',
+  'advice.findingsKept': 'The findings below are kept for reference.',
+  'advice.removeFromAllowlist': 'Remove the hash from your allowlist if you no longer trust this file.',
+
+  // App
+  'app.language': 'Language',
+  'app.stage.reading': 'Reading file',
+  'app.stage.rules': 'Matching rules',
+  'app.stage.hashing': 'Hashing',
+  'app.stage.parsing': 'Parsing structure',
+  'app.stage.ai': 'Asking the AI',
+  'app.stage.starting': 'Starting scan',
+  'app.error.analysis': 'Something went wrong during analysis. Please try again.',
+  'app.error.batchItem': 'Analysis failed',
+  'app.drop.title': 'Drop files or folders to scan',
+  'app.drop.subtitle': 'Nothing leaves your device',
+  'app.nav.pro': 'PRO AI ACTIVE',
+  'app.nav.free': 'FREE SIGNATURE MODE',
+  'app.nav.keyLocked': 'Your saved key is locked',
+  'app.nav.unlockKey': 'UNLOCK KEY',
+  'app.nav.history': 'Scan history',
+  'app.nav.settings': 'Settings & API Key',
+  'app.settings.title': 'AI Configuration',
+  'app.settings.intro': 'OmniAnalyze works for {free} using local signatures. For deep content analysis and AI chat, provide your own Gemini API Key or point it at a self-hosted model.',
+  'app.settings.free': 'free',
+  'app.settings.gemini': 'Google Gemini',
+  'app.settings.selfHosted': 'Self-hosted',
+  'app.settings.proxyUrl': 'Gemini Proxy URL (optional)',
+  'app.settings.proxyHelp': 'Leave empty to call Google with your own key. A proxy keeps the key on the server.',
+  'app.settings.baseUrl': 'OpenAI-compatible Base URL',
+  'app.settings.baseUrlHelp': 'Ollama, llama.cpp server, vLLM or any server exposing /chat/completions.',
+  'app.settings.serverKey': 'Server API Key (optional)',
+  'app.settings.serverKeyPlaceholder': 'Leave empty if not required',
+  'app.settings.model': 'Model',
+  'app.settings.inlineLimit': 'Send whole up to (MB)',
+  'app.settings.uploadLimit': 'Skip AI above (MB)',
+  'app.settings.limitsHelp': 'Larger files are sent as headers, strings and sampled excerpts instead of whole.',
+  'app.settings.activatePro': 'Activate Pro Mode',
+  'app.settings.switchFree': 'Switch to Free Mode',
+  'app.idle.badge': 'Universal File Inspector',
+  'app.idle.title': 'Safety check',
+  'app.idle.titleAccent': 'anything instantly.',
+  'app.idle.subtitle': "Upload any file and I'll tell you if it's dangerous or what's inside. Works with or without AI.",
+  'app.idle.choose': 'Choose Files',
+  'app.idle.dropToScan': 'Drop to Scan',
+  'app.idle.hint': 'Or drop them anywhere • Paste with Ctrl+V',
+  'app.idle.folder': 'Scan a whole folder',
+  'app.idle.paste': 'Paste text or a link',
+  'app.loading.withAi': 'Performing deep inspection with AI.',
+  'app.loading.locally': 'Performing deep inspection locally.',
+  'app.cancel': 'Cancel',
+  'app.error.title': 'Analysis Interrupted',
+  'app.error.retry': 'Try Again',
+  'app.batch.again': 'Scan other files',
+  'app.result.backToBatch': 'Back to batch results',
+  'app.result.modeAi': 'Deep AI',
+  'app.result.modeLocal': 'Signature Scan',
+  'app.result.policy': '{name} Policy',
+  'app.result.policyUnchanged': 'The profile changed nothing for this file.',
+  'app.tab.overview': 'Overview',
+  'app.tab.preview': 'Preview',
+  'app.tab.technical': 'Technical',
+  'app.result.summary': 'Analysis Summary',
+  'app.result.recommendations': 'Recommendations',
+  'app.result.findings': 'Findings',
+  'app.result.privacy': 'Privacy',
+  'app.result.line': 'Line {line}',
+  'app.result.matchedRules': 'Matched rules',
+  'app.chat.title': 'OmniAI File Assistant',
+  'app.chat.pro': 'Pro Context Insight',
+  'app.chat.local': 'Local Answers • No AI',
+  'app.chat.emptyLocal': "Ask why this file was flagged, what URLs are in it, whether it's signed or what's inside an archive.",
+  'app.chat.emptyTooLarge': 'This file is above the AI size limit, so there is nothing to chat about.',
+  'app.chat.emptyPro': 'Ask me anything about the content of this file.',
+  'app.chat.emptyNoFile': "This past scan didn't keep its file, so there is nothing to chat about.",
+  'app.chat.thinking': 'Thinking...',
+  'app.chat.placeholder': 'Ask a question about this file...',
+  'app.chat.needsFile': 'Chat needs the original file',
+  'app.chat.stop': 'Stop generating',
+  'app.chat.noCommentary': "I've analyzed that, but I have no specific commentary.",
+  'app.chat.stopped': '_Stopped._',
+  'app.chat.cutOff': '_The reply was cut off: the connection to the AI failed._',
+  'app.chat.failed': 'The AI session expired or the API key is invalid. Please check your settings.',
+  'app.upsell.title': 'Unlock AI Deep Analysis',
+  'app.upsell.body': 'Switch to Pro Mode to use Google Gemini or your own self-hosted model for deep content inspection, suspicious code detection, and a chat that can answer anything about the content itself.',
+  'app.upsell.button': 'Setup My API Key',
+  'app.footer.linkedin': 'LinkedIn Profile',
+  'app.footer.engine': 'Privacy-First Signature Engine',
+  'app.footer.tagline': 'OmniAnalyze • Built in 2026 • Safeguarding Digital Assets',
+
+  // Findings: file checks
+  'finding.unknownError': 'unknown error',
+  'finding.signature-mismatch.title': 'File extension does not match its content',
+  'finding.signature-mismatch.executable': 'Executable disguised as another file type',
+  'finding.signature-mismatch.description': "The name says {declared}, but the file's header bytes identify it as a {type} ({evidence}).",
+  'finding.signature-mismatch.noExtension': 'no extension',
+  'finding.hash-lookup-failed.title': 'Hash lists could not be checked',
+  'finding.hash-lookup-failed.description': 'Your blocklist and allowlist could not be read, so this file was not checked against them ({error}).',
+  'finding.hash-blocklist.title': 'Known malicious file',
+  'finding.hash-blocklist.description': "This file's {algorithm} hash is on your blocklist (imported from {source}).",
+  'finding.hash-blocklist.descriptionLabelled': "This file's {algorithm} hash is on your blocklist as \"{label}\" (imported from {source}).",
+  'finding.hash-allowlist.title': 'On your allowlist',
+  'finding.hash-allowlist.description': "This file's {algorithm} hash is on your allowlist (imported from {source}).",
+  'finding.hash-allowlist.descriptionLabelled': "This file's {algorithm} hash is on your allowlist as \"{label}\" (imported from {source}).",
+  'finding.email-unreadable.title': 'Email could not be read',
+  'finding.email-unreadable.description': "The message's structure is damaged or deliberately malformed ({error}).",
+  'finding.document-unreadable.title': 'Document could not be fully read',
+  'finding.document-unreadable.description': "The document's internal structure is damaged or deliberately malformed ({error}).",
+  'finding.archive-unreadable.title': 'Archive could not be read',
+  'finding.archive-unreadable.description': "The archive's file list is damaged or deliberately malformed ({error}).",
+
+  // Findings: documents
+  'finding.pdf-javascript-autorun.title': 'Runs JavaScript when opened',
+  'finding.pdf-javascript-autorun.description': "The PDF contains JavaScript together with an automatic action, so code runs as soon as you open it. Normal documents don't need this.",
+  'finding.pdf-javascript.title': 'Contains JavaScript',
+  'finding.pdf-javascript.description': 'The PDF contains JavaScript. Forms sometimes use it, but it is also used to exploit PDF readers.',
+  'finding.pdf-launch.title': 'Can start programs on your computer',
+  'finding.pdf-launch.description': 'A /Launch action asks your PDF reader to run another program or command.',
+  'finding.pdf-embedded-executable.title': 'Carries a hidden program',
+  'finding.pdf-embedded-executable.description': 'The PDF has an attached file that is a program: {names}.',
+  'finding.pdf-embedded-file.title': 'Has attached files',
+  'finding.pdf-embedded-file.description': 'The PDF carries attached files. Check them before opening.',
+  'finding.pdf-embedded-file.descriptionNamed': 'The PDF carries attachments: {names}. Check them before opening.',
+  'finding.pdf-submit-form.title': 'Sends form data over the internet',
+  'finding.pdf-submit-form.description': 'A form in this PDF can send what you type to a web address.',
+  'finding.pdf-rich-media.title': 'Embeds Flash or rich media',
+  'finding.pdf-rich-media.description': 'Rich media in PDFs has a long history of being used to attack PDF readers.',
+  'finding.pdf-xfa.title': 'Uses XFA forms',
+  'finding.pdf-xfa.description': 'The PDF uses dynamic XML forms, which support scripting in some readers.',
+  'finding.pdf-links.title.one': 'Contains {count} web link',
+  'finding.pdf-links.title.other': 'Contains {count} web links',
+  'finding.pdf-links.description': 'Clicking links in this document opens: {links}.',
+  'finding.pdf-obfuscated-names.title': 'Disguised PDF keywords',
+  'finding.pdf-obfuscated-names.description': 'Keywords in the PDF are written with escape codes (like /J#61vaScript) to slip past scanners.',
+  'finding.office-macro-autoexec.title': 'Macro runs automatically',
+  'finding.office-macro-autoexec.description': 'The document contains VBA macros with an auto-run routine ({routine}), so code runs as soon as macros are enabled.',
+  'finding.office-macro-hidden.title': 'Hidden macros',
+  'finding.office-macro-hidden.description': 'Macros are tucked inside a .{ext} file, a format that is not supposed to contain them.',
+  'finding.office-macro.title': 'Contains macros',
+  'finding.office-macro.description': "The document contains VBA macros. Don't click \"Enable Content\" unless you expected macros from this sender.",
+  'finding.office-xlm-macro.title': 'Excel 4.0 macros',
+  'finding.office-xlm-macro.description': 'The workbook contains legacy Excel 4.0 macro sheets, which attackers use because many scanners ignore them.',
+  'finding.office-remote-template.title': 'Loads content from the internet when opened',
+  'finding.office-remote-template.description': 'The document pulls a remote {part} from {target}, a known way to sneak in macros after the file was scanned.',
+  'finding.office-remote-template.template': 'template',
+  'finding.office-remote-ole.title': 'Links to a remote object',
+  'finding.office-remote-ole.description': 'An embedded object is loaded from {target} when the document opens.',
+  'finding.office-ole-object.title': 'Embedded objects',
+  'finding.office-ole-object.description': 'The document embeds OLE objects. These can contain programs that run when double-clicked.',
+  'finding.office-ole-object.descriptionCounted.one': 'The document embeds {count} OLE object ({names}). These can contain programs that run when double-clicked.',
+  'finding.office-ole-object.descriptionCounted.other': 'The document embeds {count} OLE objects ({names}). These can contain programs that run when double-clicked.',
+  'finding.office-activex.title': 'ActiveX controls',
+  'finding.office-activex.description': 'The document contains ActiveX controls, which can run code on Windows.',
+  'finding.office-dde.title': 'Runs commands through DDE',
+  'finding.office-dde.description': 'A DDE field can launch programs when the document is opened or its links are updated.',
+  'finding.office-encrypted.title': 'Password protected',
+  'finding.office-encrypted.description': 'The document is encrypted, so its contents could not be checked.',
+  'finding.office-unreadable.title': 'Damaged document structure',
+  'finding.office-unreadable.description': "The document's internal file table could not be read, which can be a sign of tampering.",
+
+  // Findings: archives
+  'finding.archive-bomb.title': 'Possible zip bomb',
+  'finding.archive-bomb.description': 'The archive claims to expand from {packed} to {unpacked} bytes, which is designed to overwhelm your disk or antivirus.',
+  'finding.archive-bomb.descriptionEntry': '"{path}" expands {ratio}x (to {size} bytes), far beyond normal compression.',
+  'finding.archive-bomb.descriptionOverrun': '"{path}" kept expanding past the inspection limit even though it claimed to be {size} bytes.',
+  'finding.archive-path-traversal.title': 'Path traversal in archive',
+  'finding.archive-path-traversal.description': '"{path}" would be written outside the folder you extract to, which can overwrite system or startup files.',
+  'finding.archive-double-extension.title': 'Disguised file name in archive',
+  'finding.archive-double-extension.description': '"{name}" uses a double extension to look like a {type} while actually being a program.',
+  'finding.archive-executable.title': 'Executable inside archive: {name}',
+  'finding.archive-entry.title': 'Flagged file inside archive: {name}',
+  'finding.archive-entry.description': '{path}: {verdict}',
+  'finding.archive-entry.more.title.one': '{count} more flagged file inside archive',
+  'finding.archive-entry.more.title.other': '{count} more flagged files inside archive',
+  'finding.archive-entry.more.description': 'See the file list for every entry and its verdict.',
+  'finding.archive-encrypted.title': 'Password-protected files',
+  'finding.archive-encrypted.description.one': '{count} file is encrypted and could not be checked. Attackers often encrypt archives to slip past scanners.',
+  'finding.archive-encrypted.description.other': '{count} files are encrypted and could not be checked. Attackers often encrypt archives to slip past scanners.',
+
+  // Notes on archive entries and email attachments
+  'note.passwordProtected': 'Password protected',
+  'note.tooDeep': 'Nested too deep to inspect',
+  'note.limitReached': 'Skipped: inspection limit reached',
+  'note.expandsPastLimit': 'Expands beyond the {size} MB inspection limit',
+  'note.unreadable': 'Could not be read',
+  'note.outlookItem': 'Embedded Outlook item: not inspected',
+  'note.noData': 'No attachment data',
+
+  // Findings: email
+  'finding.email-dmarc-fail.title': 'Sender failed DMARC',
+  'finding.email-dmarc-fail.description': 'The receiving mail server reported that this message failed DMARC, so it very likely did not come from who it claims.',
+  'finding.email-dmarc-fail.descriptionFor': 'The receiving mail server reported that this message failed DMARC for {detail}, so it very likely did not come from who it claims.',
+  'finding.email-auth-fail.title': 'Sender checks failed',
+  'finding.email-auth-fail.description': 'The receiving mail server reported {results}. The message may not come from the server it claims.',
+  'finding.email-auth-fail.result': '{method} {result}',
+  'finding.email-auth-fail.resultFor': '{method} {result} for {detail}',
+  'finding.email-auth-missing.title': 'No sender authentication results',
+  'finding.email-auth-missing.description': "The message has no Authentication-Results header, so whether the sender is genuine can't be confirmed. Copies pasted or saved from some mail apps lose it.",
+  'finding.email-reply-to-mismatch.title': 'Replies go to a different domain',
+  'finding.email-reply-to-mismatch.description': 'The message is from {from}, but replies go to {replyTo}. Scammers set this so your answer reaches them instead.',
+  'finding.email-return-path-mismatch.title': 'Bounces go to a different domain',
+  'finding.email-return-path-mismatch.description': "Delivery failures go to {returnPath}, not {domain}. Mailing services often do this on a sender's behalf.",
+  'finding.email-return-path-mismatch.descriptionUnverified': 'Delivery failures go to {returnPath}, not {domain}. With DMARC not passing, nothing ties the two together.',
+  'finding.email-display-name-spoof.title': 'Sender name shows another address',
+  'finding.email-display-name-spoof.description': "The sender's name reads \"{name}\", but the message came from {address}.",
+  'finding.email-display-name-brand.title': 'Sender name claims a brand',
+  'finding.email-display-name-brand.description': "The sender calls itself \"{name}\", but the message came from {domain}, which doesn't belong to {brand}.",
+  'finding.email-sender-lookalike.title': 'Sender domain imitates another',
+  'finding.email-sender-lookalike.description': '{domain} imitates {detail}. Lookalike sender domains exist to pass as someone you trust.',
+  'finding.email-sender-lookalike.descriptionHomoglyph': '{domain} uses {detail}. Lookalike sender domains exist to pass as someone you trust.',
+  'finding.email-link-mismatch.title': 'Links go somewhere other than they say',
+  'finding.email-link-mismatch.description': '{links}. Showing one address while linking to another is a classic phishing trick.',
+  'finding.email-link-mismatch.item': '"{text}" leads to {host}',
+  'finding.email-attachment-executable.title': 'Program attached: {name}',
+  'finding.email-attachment.title': 'Flagged attachment: {name}',
+  'finding.email-attachment.description': '{name}: {verdict}',
+  'finding.email-attachment.more.title.one': '{count} more flagged attachment',
+  'finding.email-attachment.more.title.other': '{count} more flagged attachments',
+  'finding.email-attachment.more.description': 'See the attachment list for each file and its verdict.',
+
+  // Lists inside findings
+  'list.comma': '{head}, {item}',
+  'list.semicolon': '{head}; {item}',
+  'list.more': '{list} and {count} more',
+
+  // Findings: links
+  'finding.url-lookalike.title': 'Link to a lookalike domain',
+  'finding.url-lookalike.description.one': '{hosts} imitates a well-known name with swapped or foreign letters. Lookalike domains exist to steal logins.',
+  'finding.url-lookalike.description.other': '{hosts} imitate a well-known name with swapped or foreign letters. Lookalike domains exist to steal logins.',
+  'finding.url-homoglyph.title': 'Link uses deceptive characters',
+  'finding.url-homoglyph.description.one': '{hosts} uses characters from other alphabets that look like ordinary letters, so the address may not be what it appears.',
+  'finding.url-homoglyph.description.other': '{hosts} use characters from other alphabets that look like ordinary letters, so the address may not be what it appears.',
+  'finding.url-credentials.title': 'Link hides its real destination',
+  'finding.url-credentials.description': 'Everything before "@" in a link is a user name, not the site. The link goes to {hosts}.',
+  'finding.url-brand-subdomain.title': 'Link puts a known domain in front of another',
+  'finding.url-brand-subdomain.description.one': '{hosts} starts with a familiar domain, but the site is decided by the end of the name.',
+  'finding.url-brand-subdomain.description.other': '{hosts} start with a familiar domain, but the site is decided by the end of the name.',
+  'finding.url-ip-host.title': 'Link to a bare IP address',
+  'finding.url-ip-host.description': 'Links to {hosts} skip the domain name entirely. Legitimate services almost never send these.',
+  'finding.url-shortener.title': 'Shortened link',
+  'finding.url-shortener.description': 'Links through {hosts} hide where they really lead until you click.',
+  'finding.url-suspicious-tld.title': 'Link to a high-risk domain ending',
+  'finding.url-suspicious-tld.description.one': '{hosts} uses a domain ending that is cheap to register and common in phishing.',
+  'finding.url-suspicious-tld.description.other': '{hosts} use a domain ending that is cheap to register and common in phishing.',
+  'url.hostDetail': '{host} ({detail})',
+  'url.notUser': '{host}, not {user}',
+  'url.writtenAs': 'written as {host}',
+  'url.mixedAlphabets': 'mixed alphabets',
+  'url.imitatingLetters': 'letters that imitate Latin ones',
+
+  // Findings: programs
+  'finding.exe-injection-imports.title': 'Can inject code into other programs',
+  'finding.exe-injection-imports.description': 'Imports {names}, the functions used to hide malicious code inside legitimate processes.',
+  'finding.exe-suspicious-imports.title': 'Uses sensitive system functions',
+  'finding.exe-suspicious-imports.description': 'Imports {imports}.',
+  'finding.exe-suspicious-imports.item': '{name} ({purpose})',
+  'finding.exe-packed.title': 'Packed with {packers}',
+  'finding.exe-packed.description': "The program's real code is compressed or encrypted and only unpacked when it runs, which hides it from inspection.",
+  'finding.exe-high-entropy.title': 'Encrypted or compressed code',
+  'finding.exe-high-entropy.description.one': 'Code section {sections} looks random, a sign of packing or encryption.',
+  'finding.exe-high-entropy.description.other': 'Code sections {sections} look random, a sign of packing or encryption.',
+  'finding.exe-high-entropy.section': '{name} (entropy {entropy})',
+  'finding.exe-wx-section.title': 'Self-modifying code sections',
+  'finding.exe-wx-section.description.one': 'Section {sections} can be both written and executed.',
+  'finding.exe-wx-section.description.other': 'Sections {sections} can be both written and executed.',
+  'finding.exe-few-imports.title': 'Hides which system functions it uses',
+  'finding.exe-few-imports.description.one': 'Only {count} imported function alongside encrypted-looking data; real imports are likely resolved at runtime.',
+  'finding.exe-few-imports.description.other': 'Only {count} imported functions alongside encrypted-looking data; real imports are likely resolved at runtime.',
+  'finding.exe-signature.title': 'Has a digital signature',
+  'finding.exe-signature.description': 'A code-signing certificate is attached. Check in Windows file properties that it is valid and from the expected publisher.',
+  'finding.exe-unsigned.title': 'Not digitally signed',
+  'finding.exe-unsigned.description': 'No code-signing certificate is attached, so the publisher cannot be verified.',
+  'finding.exe-unparsed.title': 'Program structure could not be read',
+  'finding.exe-unparsed.description': "The file starts like a program, but its headers are truncated or damaged, so its sections, imports and signature weren't checked.",
+  'finding.exe.unnamedSection': '(unnamed)',
+  'import.allocateExecutable': 'allocate executable memory',
+  'import.allocateRemote': 'allocate memory in another program',
+  'import.makeExecutable': 'make memory executable',
+  'import.writeProgram': 'write into another program',
+  'import.startRemote': 'start code inside another program',
+  'import.hijackThread': "hijack another program's thread",
+  'import.hollow': 'hollow out another program',
+  'import.watchInput': 'watch keyboard or mouse input',
+  'import.readKeys': 'read key presses',
+  'import.download': 'download files',
+  'import.runPrograms': 'run other programs',
+  'import.detectAnalysis': 'detect analysis tools',
+  'import.raisePrivileges': 'raise its own privileges',
+  'import.encrypt': 'encrypt data',
+  'import.controlProcesses': 'control other processes',
+  'import.writeProcess': 'write into another process',
+  'import.memoryOnly': 'run code from memory only',
+
+  // Findings: images
+  'finding.image-gps.title': 'Photo reveals where it was taken',
+  'finding.image-gps.description': 'The {format} metadata holds a GPS position ({position}). Anyone you share the original with can see where it was taken. The Preview tab can download a copy without it for JPEG and PNG.',
+  'finding.image-identifying-metadata.title': 'Camera, author and other metadata',
+  'finding.image-identifying-metadata.description': 'The metadata records: {names}. These can identify the device or person that made the image, and when.',
+  'finding.image.bytes.one': '{count} byte',
+  'finding.image.bytes.other': '{count} bytes',
+  'finding.image.trailing': '{size} follow the {format} end marker at offset {offset}',
+  'finding.image-appended-executable.title': 'Program hidden after the image',
+  'finding.image-appended-executable.description': '{where}, and their header matches the {type} format ({evidence}). Viewers ignore anything after the end of a picture, which is why programs are smuggled past filters this way.',
+  'finding.image-appended-camera-data.title': 'Extra camera data after the image',
+  'finding.image-appended-camera-data.description': '{where}. Their header matches the {type} format, which is how phones store "motion photos". This is usually harmless, but the data travels with the photo.',
+  'finding.image-appended-camera-data.descriptionSamsung': '{where}. They are a Samsung camera trailer. This is usually harmless, but the data travels with the photo.',
+  'finding.image-appended-archive.title': 'Archive hidden after the image',
+  'finding.image-appended-data.title': 'Data hidden after the end of the image',
+  'finding.image-appended-data.description': '{where}. They are not part of the picture. Viewers ignore them, so they can carry hidden files or messages.',
+  'finding.image-appended-data.descriptionTyped': '{where}. Their header matches the {type} format. Viewers ignore them, so they can carry hidden files or messages.',
+  'finding.image-zip-polyglot.title': 'Image is also a ZIP archive',
+  'finding.image-zip-polyglot.titlePrograms': 'Image is also a ZIP archive with programs inside',
+  'finding.image-zip-polyglot.description.one': 'The file opens both as a picture and as a ZIP archive of {count} file. Files built to be two things at once are used to slip archives past upload filters.',
+  'finding.image-zip-polyglot.description.other': 'The file opens both as a picture and as a ZIP archive of {count} files. Files built to be two things at once are used to slip archives past upload filters.',
+  'finding.image-zip-polyglot.descriptionPrograms.one': 'The file opens both as a picture and as a ZIP archive of {count} file, including {programs}. Files built to be two things at once are used to slip archives past upload filters.',
+  'finding.image-zip-polyglot.descriptionPrograms.other': 'The file opens both as a picture and as a ZIP archive of {count} files, including {programs}. Files built to be two things at once are used to slip archives past upload filters.',
+  'finding.image.afterEnd': 'after the end of the image',
+  'finding.image.inside': 'inside the image or its metadata',
+  'finding.image-embedded-code.title': 'Script code hidden in the image',
+  'finding.image-embedded-code.description': 'Found `{code}` {where}. Genuine images never contain code; a server or browser that mistakes the file for a script or page will run it.',
+  'finding.image-html-polyglot.title': 'Image also reads as a web page',
+  'finding.image-html-polyglot.description': 'Found HTML markup {where}. A browser that sniffs the content rather than trusting the file type may render it as a page.',
+  'finding.image-large-comment.title': 'Unusually large comment in the image',
+  'finding.image-large-comment.description': 'The {segment} holds {size}. Comments are normally a line or two; this much room is used to hide data or code.',
+  'finding.image-large-comment.descriptionOthers.one': 'The {segment} holds {size}, and {count} other is also oversized. Comments are normally a line or two; this much room is used to hide data or code.',
+  'finding.image-large-comment.descriptionOthers.other': 'The {segment} holds {size}, and {count} others are also oversized. Comments are normally a line or two; this much room is used to hide data or code.',
+  'finding.image-large-comment.segment': 'comment segment',
+  'finding.image-large-comment.chunk': '"{name}" text chunk',
+  'finding.image-unknown-chunks.title': 'Non-standard PNG chunks',
+  'finding.image-unknown-chunks.description.one': 'The image carries {types} chunk ({size}) that standard viewers skip. Editors sometimes add their own, but large ones can hold hidden data.',
+  'finding.image-unknown-chunks.description.other': 'The image carries {types} chunks ({size}) that standard viewers skip. Editors sometimes add their own, but large ones can hold hidden data.',
+
+  // Findings: web content
+  'finding.web-svg-script.title': 'Script hidden inside an image',
+  'finding.web-svg-script.description': 'SVG images normally contain only drawing instructions. This one carries a script that runs when the image is opened in a browser.',
+  'finding.web-svg-handler.title': 'Image runs code on events',
+  'finding.web-svg-handler.description': 'An SVG element has an event handler (such as onload) that runs JavaScript when the image is displayed.',
+  'finding.web-svg-foreign-object.title': 'Web page embedded in an image',
+  'finding.web-svg-foreign-object.description': 'The SVG embeds HTML through <foreignObject>, which is used to draw fake login forms inside images.',
+  'finding.web-eval-decode.title': 'Runs decoded hidden code',
+  'finding.web-eval-decode.description': 'Decodes a hidden string and executes it straight away, the most common way malicious scripts hide what they do.',
+  'finding.web-eval.title': 'Executes code built at runtime',
+  'finding.web-eval.description': "Uses eval() or new Function() to run code assembled from strings, which makes the script's real behaviour hard to see.",
+  'finding.web-string-timer.title': 'Runs code from a text string',
+  'finding.web-string-timer.description': 'Passes a string of code to setTimeout or setInterval, which works like eval().',
+  'finding.web-hex-escapes.title': 'Obfuscated text',
+  'finding.web-hex-escapes.description': 'A long run of \\x or \\u escape codes hides readable text from anyone looking at the file.',
+  'finding.web-charcode.title': 'Text assembled from character codes',
+  'finding.web-charcode.description': 'Builds a string from a list of numeric character codes, a trick used to hide URLs and code.',
+  'finding.web-base64-blob.title': 'Large encoded blob',
+  'finding.web-base64-blob.description': 'A long base64-encoded string is embedded in the code. Pages use this to smuggle files or scripts past filters.',
+  'finding.web-hidden-iframe.title': 'Hidden frame',
+  'finding.web-hidden-iframe.description': 'Loads another page inside an invisible frame, a technique used for drive-by downloads and click fraud.',
+  'finding.web-external-form.title': 'Sends form data to another site',
+  'finding.web-external-form.description': 'A form submits what you type to an external web address.',
+  'finding.web-password-form.title': 'Asks for a password',
+  'finding.web-password-form.description': 'A local file that asks for a password and sends it elsewhere is almost always a phishing page. Real sites never email you their login form.',
+  'finding.web-password-field.title': 'Asks for a password',
+  'finding.web-password-field.description': 'The file has a login form. Nothing in it sends the password to another site, but real sites never email you their login page, so only type a password if you trust where the file came from.',
+  'finding.web-javascript-url.title': 'Link that runs code',
+  'finding.web-javascript-url.description': 'A link or resource uses a javascript: address, which runs code instead of opening a page.',
+  'finding.web-meta-refresh.title': 'Automatic redirect',
+  'finding.web-meta-refresh.description': 'The page immediately sends you to another address. Phishing emails use this to bounce you to a fake site.',
+  'finding.web-script-redirect.title': 'Redirects with script',
+  'finding.web-script-redirect.description': 'A script sends the page to an address on another site.',
+
+  // Findings: detection rules
+  'rule.matched': 'Matched the detection rule {name}.',
+  'rule.evidence': '{summary} Matched {hits}.',
+  'rule.hit': '{id} at {offset}',
+  'rule.hitRepeated': '{id} at {offset} ({times}x)',
+
+  // How the final verdict was reached
+  'blend.hashlist': '{finding} Hash lists override both the local scan and the AI.',
+  'blend.both': 'The local scan and the AI both rated this file {local}.',
+  'blend.localFinding': "The AI rated this file {ai}, but the local scan found \"{title}\" and rated it {local}. The AI can't lower a verdict backed by local evidence.",
+  'blend.local': "The AI rated this file {ai}, but the local scan found evidence and rated it {local}. The AI can't lower a verdict backed by local evidence.",
+  'blend.ai': 'The local scan found nothing beyond {local}, but the AI read the content and rated it {ai}. The stricter verdict is used.',
+  'opinions.title': 'Two Opinions',
+  'opinions.local': 'Local scan',
+  'opinions.ai': 'AI',
+  'opinions.reason': 'How the final verdict was reached',
+  'opinions.repaired': 'AI reply repaired',
+
+  // What the AI was shown
+  'coverage.headline.full': 'The AI saw the whole file.',
+  'coverage.headline.extracted': 'The AI saw excerpts of this file.',
+  'coverage.headline.skipped': 'The AI did not see this file.',
+  'coverage.read': '{sent} of {total} read.',
+  'coverage.reason.oversized': 'The file is {size}, above the {limit} MB AI limit set in Settings, so only the local scan was run.',
+  'coverage.reason.textBudget': "The file holds more text than the model's {chars} character budget.",
+  'coverage.reason.textOnly': 'This model only reads text, so binary content was reduced to printable strings.',
+  'coverage.reason.inlineLimit': 'The file is larger than the {limit} inline limit.',
+
+  // Archive contents
+  'archive.title': 'Inside this Archive',
+  'archive.summary.one': '{count} entry • {packed} packed • {unpacked} unpacked',
+  'archive.summary.other': '{count} entries • {packed} packed • {unpacked} unpacked',
+  'archive.truncated': 'Some entries exceeded the inspection limits',
+  'archive.column.name': 'Name',
+  'archive.column.size': 'Size',
+  'archive.column.ratio': 'Ratio',
+  'archive.column.verdict': 'Verdict',
+  'archive.column.notes': 'Notes',
+  'archive.unchecked': 'Unchecked',
+
+  // Email details
+  'email.title': 'Email Message',
+  'email.from': 'From',
+  'email.replyTo': 'Reply-To',
+  'email.returnPath': 'Return-Path',
+  'email.to': 'To',
+  'email.subject': 'Subject',
+  'email.date': 'Date',
+  'email.auth': 'Sender authentication',
+  'email.noAuth': 'No Authentication-Results header, so the sender could not be confirmed.',
+  'email.links': 'Links in the message',
+  'email.noLinkText': '(no text)',
+  'email.actuallyGoesTo': 'Actually goes to {href}',
+  'email.attachments': 'Attachments',
+  'email.unchecked': 'Unchecked',
+
+  // Batch results
+  'batch.title': 'Batch Results',
+  'batch.dangerFirst': 'Danger first',
+  'batch.failedCount': '{count} failed',
+  'batch.progress': 'Scanned {finished} of {total}…',
+  'batch.done.one': '{count} file scanned',
+  'batch.done.other': '{count} files scanned',
+  'batch.column.name': 'Name',
+  'batch.column.size': 'Size',
+  'batch.column.type': 'Type',
+  'batch.column.verdict': 'Verdict',
+  'batch.column.finding': 'Top finding',
+  'batch.failed': 'Failed',
+  'batch.scanning': 'Scanning',
+  'batch.queued': 'Queued',
+
+  // Scan history
+  'history.title': 'Scan History',
+  'history.search': 'Name or hash...',
+  'history.anyVerdict': 'Any verdict',
+  'history.from': 'From',
+  'history.to': 'To',
+  'history.empty': 'No scans yet.',
+  'history.off': 'History is turned off.',
+  'history.noMatch': 'No scans match your search.',
+  'history.messages.one': '{count} message',
+  'history.messages.other': '{count} messages',
+  'history.delete': 'Delete this scan',
+  'history.enabled': 'Keep a history of my scans',
+  'history.keepFiles': 'Also keep the files themselves',
+  'history.keepAtMost': 'Keep at most',
+  'history.scansFor': 'scans for',
+  'history.days': 'days',
+  'history.retentionHint': '0 days keeps scans until you delete them. History never leaves this browser.',
+  'history.deleteAll.one': 'Delete {count} scan',
+  'history.deleteAll.other': 'Delete all {count} scans',
+  'history.cancel': 'Cancel',
+  'history.clear': 'Clear history',
+
+  // Settings: detection rules
+  'rules.title': 'Detection Rules',
+  'rules.summary.one': '{count} built-in rule. Import your own as JSON or YARA-style text.',
+  'rules.summary.other': '{count} built-in rules. Import your own as JSON or YARA-style text.',
+  'rules.summaryCustom.one': '{count} built-in rule + {custom} custom. Import your own as JSON or YARA-style text.',
+  'rules.summaryCustom.other': '{count} built-in rules + {custom} custom. Import your own as JSON or YARA-style text.',
+  'rules.import': 'Import Ruleset',
+  'rules.remove': 'Remove custom rules',
+  'rules.imported.one': 'Imported {count} rule from {file}.',
+  'rules.imported.other': 'Imported {count} rules from {file}.',
+  'rules.unreadable': 'Could not read this ruleset.',
+  'rules.removed': 'Custom rules removed.',
+  'rules.invalidSaved': 'Your saved rules no longer load, so only the built-in rules apply: {error}',
+
+  // Settings: hash lists
+  'hashList.title': 'Hash Lists',
+  'hashList.intro': 'Files whose MD5, SHA-1 or SHA-256 is on the blocklist are always marked dangerous; allowlisted files are marked safe. Import plain text or CSV.',
+  'hashList.block.import': 'Import Blocklist ({count})',
+  'hashList.allow.import': 'Import Allowlist ({count})',
+  'hashList.block.clear': 'Clear the blocklist',
+  'hashList.allow.clear': 'Clear the allowlist',
+  'hashList.block.added.one': 'Added {count} hash to the blocklist from {file}.',
+  'hashList.block.added.other': 'Added {count} hashes to the blocklist from {file}.',
+  'hashList.allow.added.one': 'Added {count} hash to the allowlist from {file}.',
+  'hashList.allow.added.other': 'Added {count} hashes to the allowlist from {file}.',
+  'hashList.block.cleared': 'Blocklist cleared.',
+  'hashList.allow.cleared': 'Allowlist cleared.',
+  'hashList.unreadable': 'Could not read this hash list.',
+
+  // Settings: policy profiles
+  'policy.title': 'Policy Profile',
+  'policy.intro': 'Profiles adjust verdicts by file type, size and finding for how your team works. Hash lists still override them.',
+  'policy.imported': 'Imported {profiles} from {file}.',
+  'policy.imported.name': '{name} (imported)',
+  'policy.unreadable': 'Could not read this profile.',
+  'policy.removed': 'Profile removed.',
+  'policy.remove': 'Remove {name}',
+  'policy.import': 'Import Profile',
+  'policy.export': 'Export {name}',
+
+  // Settings: Gemini key
+  'apiKey.title': 'Gemini API Key',
+  'apiKey.proxy': 'Gemini requests go through {url}, which adds the key on the server. No key is needed in this browser.',
+  'apiKey.testProxy': 'Test Proxy',
+  'apiKey.test': 'Test',
+  'apiKey.source.vault': 'Encrypted on this device, unlocked',
+  'apiKey.source.session': 'This session only, gone on reload',
+  'apiKey.source.legacy': 'Stored unencrypted by an older version',
+  'apiKey.encryptLegacy': 'Encrypt it with a passphrase',
+  'apiKey.lock': 'Lock',
+  'apiKey.replace': 'Replace',
+  'apiKey.remove': 'Remove the key from this device',
+  'apiKey.lockedIntro': 'Your key is saved encrypted. Enter its passphrase to use it this session.',
+  'apiKey.passphrase': 'Passphrase',
+  'apiKey.unlock': 'Unlock',
+  'apiKey.unlocking': 'Unlocking...',
+  'apiKey.useAnother': 'Use another key',
+  'apiKey.placeholder': 'Enter API Key...',
+  'apiKey.storage.vault': 'Encrypt & save',
+  'apiKey.storage.session': 'This session only',
+  'apiKey.newPassphrase': 'Passphrase (8+ characters)',
+  'apiKey.repeatPassphrase': 'Repeat passphrase',
+  'apiKey.vaultHint': 'The passphrase is never stored. If you forget it, remove the key and enter it again.',
+  'apiKey.sessionHint': 'The key stays in memory and is forgotten when you close or reload the page.',
+  'apiKey.save': 'Save Key',
+  'apiKey.saving': 'Saving...',
+  'apiKey.cancel': 'Cancel',
+  'apiKey.getKey': 'Get Free API Key from Google →',
+  'apiKey.failed': 'Something went wrong.',
+  'apiKey.keyWorks': 'Key works: {model} is available.',
+  'apiKey.proxyWorks': 'Proxy works: {model} is available.',
+  'apiKey.missing': 'Enter your API key.',
+  'apiKey.mismatch': "The passphrases don't match.",
+  'apiKey.keptForSession': 'Key kept for this session. Nothing was saved to disk.',
+  'apiKey.saved': "Key encrypted and saved. You'll need the passphrase after reloading.",
+  'apiKey.unlocked': 'Key unlocked for this session.',
+  'apiKey.locked': 'Key locked. Unlock it with your passphrase to use Pro Mode again.',
+  'apiKey.removed': 'Key removed from this device.',
+
+  // Technical panel
+  'technical.details': 'Technical Details',
+  'technical.noDetails': 'No technical details were recorded.',
+  'technical.iocs': 'Indicators of Compromise',
+  'technical.noIocs': "No URLs, IPs, domains, email addresses, registry keys or bitcoin addresses were found in this file's strings.",
+  'technical.copyAll': 'Copy all {count}',
+  'technical.copy': 'Copy',
+  'technical.ioc.url': 'URLs',
+  'technical.ioc.ip': 'IP addresses',
+  'technical.ioc.domain': 'Domains',
+  'technical.ioc.email': 'Email addresses',
+  'technical.ioc.registry': 'Registry keys',
+  'technical.ioc.bitcoin': 'Bitcoin addresses',
+  'technical.noFile': "This past scan didn't keep its file, so the entropy graph, strings and hex view aren't available.",
+  'technical.entropy': 'Entropy',
+  'technical.entropy.point': '{offset}: {bits} bits/byte',
+  'technical.entropy.hint': 'Bits per byte across the file, start to end. Red stretches above 7.2 are usually compressed or encrypted data; click a bar to view it in hex.',
+  'technical.strings': 'Strings',
+  'technical.strings.filter': 'Filter strings...',
+  'technical.strings.minLength': 'Min length',
+  'technical.strings.count.one': '{shown} string',
+  'technical.strings.count.other': '{shown} strings',
+  'technical.strings.showing': ', showing the first {limit}',
+  'technical.strings.scanned': ' from the first {size} MB',
+  'technical.hex': 'Hex View',
+  'technical.hex.goto': 'Go to offset (e.g. 0x400 or 1024)',
+  'technical.hex.go': 'Go',
+
+  // Program structure
+  'executable.title': 'Program Structure',
+  'executable.format': 'Format',
+  'executable.machine': 'Machine',
+  'executable.machineBits': '{machine}, {bits}-bit',
+  'executable.subsystem': 'Subsystem',
+  'executable.entryPoint': 'Entry point',
+  'executable.compiled': 'Compiled',
+  'executable.interpreter': 'Interpreter',
+  'executable.signature': 'Signature',
+  'executable.signed': 'Authenticode present (not verified)',
+  'executable.unsigned': 'Not signed',
+  'executable.sections': 'Sections ({count})',
+  'executable.column.name': 'Name',
+  'executable.column.address': 'Address',
+  'executable.column.virtual': 'Virtual',
+  'executable.column.onDisk': 'On disk',
+  'executable.column.access': 'Access',
+  'executable.column.entropy': 'Entropy',
+  'executable.imports.one': 'Imports ({count} library)',
+  'executable.imports.other': 'Imports ({count} libraries)',
+  'executable.noImports': 'No imports found.',
+  'executable.functions.one': '{count} function',
+  'executable.functions.other': '{count} functions',
+  'executable.exports': 'Exports ({count})',
+  'executable.showAll': 'Show all {count}',
+
+  // Safe preview
+  'preview.title': 'Safe Preview',
+  'preview.subtitle.image': 'Shown with location, camera and other metadata stripped',
+  'preview.subtitle.markup': 'Sanitized and rendered in a sandbox',
+  'preview.subtitle.pdf': 'Text only; nothing in the PDF is run or rendered',
+  'preview.subtitle.source': 'Read-only source ({language})',
+  'preview.subtitle.text': 'Read-only text',
+  'preview.subtitle.none': 'Not available for this file type',
+  'preview.tooLarge': 'Files over {size} MB are not previewed.',
+  'preview.failed': 'This file could not be previewed.',
+  'preview.unsupported': 'There is no safe way to preview this kind of file. The Technical tab shows its strings and raw bytes.',
+  'preview.noFile': "This past scan didn't keep its file, so there is nothing to preview.",
+  'preview.loading': 'Preparing preview...',
+  'preview.dimensions': 'Dimensions',
+  'preview.gps': 'This image records where it was taken: {position}. Anyone you send the original to can see this.',
+  'preview.gpsAltitude': 'This image records where it was taken: {position} at {altitude} m. Anyone you send the original to can see this.',
+  'preview.noMetadata': 'No camera, location or text metadata was found.',
+  'preview.downloadClean': 'Download without metadata',
+  'preview.rendered': 'Rendered',
+  'preview.source': 'Source',
+  'preview.blocked': 'Scripts, forms and network access are blocked.',
+  'preview.blockedRemoved': 'Scripts, forms and network access are blocked; removed {removed}.',
+  'preview.frameTitle': 'Preview of {name}',
+  'preview.noPdfText': "No text could be extracted. The pages may be scanned images or use an encoding this viewer doesn't read.",
+  'preview.page': 'Page {page}',
+  'preview.emptyPage': 'No text on this page.',
+  'preview.pageLimit': 'Only the first {count} pages are shown.',
+  'preview.truncated': 'Showing the first {size} KB.',
+
+  // Paste text
+  'paste.title': 'Scan Text or a Link',
+  'paste.intro': 'Paste a suspicious email, script or link. Links are checked for lookalike domains, IP addresses, shorteners and risky endings without being opened.',
+  'paste.placeholder': 'https://example.com/login or the full text of a message',
+  'paste.kind.auto': 'Detect automatically',
+  'paste.kind.detected': 'Detect automatically ({kind})',
+  'paste.kind.text': 'Plain text or a link',
+  'paste.kind.email': 'Email (with headers)',
+  'paste.kind.html': 'HTML',
+  'paste.kind.js': 'JavaScript',
+  'paste.kind.ps1': 'PowerShell',
+  'paste.kind.sh': 'Shell script',
+  'paste.scan': 'Scan',
+
+  // Report export
+  'report.export': 'Export report',
+  'report.print': 'Print / PDF',
+  'report.failed': 'Could not build the report.',
+};
+
+export type MessageKey = keyof typeof en;
@@ -0,0 +1,725 @@
+import { MessageKey } from './en';
+
+export const es: Record<MessageKey, string> = {
+  'verdict.SAFE': 'Seguro',
+  'verdict.CAUTION': 'Precaución',
+  'verdict.DANGER': 'Peligro',
+  'verdict.unknown': 'Analizado',
+  'severity.INFO': 'Info',
+  'literal': '{text}',
+
+  'analysis.default.verdict': 'Este archivo parece seguro de abrir.',
+  'analysis.default.explanation': 'He comprobado el formato del archivo y coincide con los patrones habituales.',
+  'analysis.executable.verdict': 'Riesgo alto: se ha detectado un archivo ejecutable.',
+  'analysis.executable.explanation': 'Es un programa que puede ejecutar código en tu equipo. Si no confías al 100 % en su origen, no lo abras.',
+  'analysis.archive.verdict': 'Los archivos de este comprimido parecen seguros.',
+  'analysis.archive.explanation.one': 'He revisado el único archivo de este comprimido sin extraerlo y no ha levantado ninguna alerta.',
+  'analysis.archive.explanation.other': 'He revisado los {count} archivos de este comprimido sin extraerlos y ninguno ha levantado una alerta.',
+  'analysis.archive.incomplete.verdict': 'Procede con precaución: no se ha podido comprobar todo su contenido.',
+  'analysis.archive.incomplete.explanation': 'He revisado este comprimido sin extraerlo, pero algunos archivos estaban protegidos con contraseña, eran demasiado grandes o estaban anidados demasiado hondo.',
+  'analysis.unopenedArchive.verdict': 'Procede con precaución: archivo comprimido.',
+  'analysis.unopenedArchive.explanation': 'Los comprimidos pueden esconder archivos peligrosos. Mirar dentro es seguro, pero ten cuidado con lo que extraes.',
+  'analysis.email.verdict': 'Este correo parece legítimo.',
+  'analysis.email.explanation': 'He comprobado quién envió este mensaje, adónde van las respuestas, sus {links} y sus {attachments} sin abrir nada, y nada ha levantado una alerta.',
+  'analysis.email.noAuth': 'No incluye resultados de autenticación del remitente, así que no se ha podido confirmar quién lo envió.',
+  'analysis.email.incomplete.verdict': 'Procede con precaución: no se ha podido comprobar todo este correo.',
+  'analysis.email.incomplete.explanation': 'Una parte era demasiado grande, estaba anidada demasiado hondo o está guardada en un formato que no puedo abrir.',
+  'analysis.link.verdict': 'Este enlace parece seguro.',
+  'analysis.link.explanation': 'He comprobado la dirección sin visitarla. {host} no imita a un sitio conocido, no es una dirección IP, no es un acortador de enlaces ni usa una terminación de dominio de alto riesgo.',
+  'analysis.web.verdict': 'Este archivo web parece limpio.',
+  'analysis.web.explanation': 'He leído su código y no he encontrado ninguno de los trucos de las páginas de phishing y los scripts maliciosos, como marcos ocultos, redirecciones o código ofuscado.',
+  'analysis.image.verdict': 'Esta imagen parece limpia.',
+  'analysis.image.explanation': 'He leído la estructura y los metadatos de la imagen {format} y no hay nada oculto en ella ni a continuación.',
+  'analysis.document.verdict': 'Este documento no tiene contenido activo.',
+  'analysis.document.explanation': 'He revisado el interior del documento {kind} en busca de macros, scripts, acciones automáticas y programas incrustados, y no hay ninguno.',
+  'analysis.policy.allowed': 'Permitido por la política {policy}.',
+  'analysis.policy.restricted.DANGER': 'Riesgo alto: restringido por la política {policy}.',
+  'analysis.policy.restricted.CAUTION': 'Procede con precaución: restringido por la política {policy}.',
+  'analysis.policy.explanation': 'La política {policy} califica los archivos como este con {verdict}.',
+  'policy.adjusted': '{description} La política {profile} lo califica como {severity} en lugar de {previous}.',
+  'analysis.mismatch.disguised': 'Riesgo alto: ejecutable disfrazado.',
+  'analysis.mismatch.DANGER': 'Riesgo alto: el tipo de archivo no coincide.',
+  'analysis.mismatch.CAUTION': 'Precaución: el tipo de archivo no coincide.',
+  'analysis.mismatch.explanation': 'Este archivo se llama como un archivo {name}, pero por dentro es en realidad un {type}. Los archivos que se hacen pasar por otra cosa son un truco habitual para que los abras.',
+  'analysis.mismatch.plain': 'sin extensión',
+  'analysis.finding.DANGER': 'Riesgo alto: {title}.',
+  'analysis.finding.CAUTION': 'Precaución: {title}.',
+  'analysis.rule.explanation': 'Este archivo coincide con una de las reglas de detección de contenido sospechoso.',
+  'analysis.blocklist.verdict': 'Riesgo alto: archivo malicioso conocido.',
+  'analysis.blocklist.explanation': 'Este archivo exacto está en tu lista de bloqueo. Parezca lo que parezca, ya se ha identificado como dañino.',
+  'analysis.blocklist.explanationLabelled': 'Este archivo exacto está en tu lista de bloqueo como "{label}". Parezca lo que parezca, ya se ha identificado como dañino.',
+  'analysis.allowlist.verdict': 'De confianza: este archivo está en tu lista de permitidos.',
+  'analysis.allowlist.explanation': 'Este archivo exacto está en tu lista de permitidos, así que se marca como seguro. Sin ella se habría calificado como {verdict}: {previous}',
+  'analysis.allowlist.explanationLabelled': 'Este archivo exacto está en tu lista de permitidos como "{label}", así que se marca como seguro. Sin ella se habría calificado como {verdict}: {previous}',
+  'analysis.allowlist.also': 'También está en tu lista de permitidos.',
+  'analysis.count.link.one': '{count} enlace',
+  'analysis.count.link.other': '{count} enlaces',
+  'analysis.count.attachment.one': '{count} adjunto',
+  'analysis.count.attachment.other': '{count} adjuntos',
+
+  'advice.openWithViewer': 'Puedes abrir este archivo con cualquier visor compatible.',
+  'advice.keepUpdated': 'Mantén siempre tu software actualizado.',
+  'advice.antivirus': 'Analiza este archivo con un antivirus dedicado.',
+  'advice.notAsAdmin': 'No lo ejecutes como administrador.',
+  'advice.checkSignature': 'Comprueba la firma digital si es posible.',
+  'advice.reviewFileList': 'Revisa la lista de archivos de abajo antes de extraer.',
+  'advice.extractOnlyNeeded': 'Extrae solo los archivos que de verdad necesites.',
+  'advice.updateZipTool': 'Asegúrate de que tu herramienta de compresión está actualizada.',
+  'advice.openArchiveFirst': 'Abre el comprimido para ver qué contiene antes de extraerlo.',
+  'advice.confirmSender': 'Si el mensaje pide dinero o contraseñas, o mete prisa, confírmalo con el remitente por otra vía.',
+  'advice.typeLinks': 'Abre los enlaces escribiendo tú mismo la dirección del sitio.',
+  'advice.expectedAttachments': 'Abre solo los adjuntos que esperabas.',
+  'advice.typeAddress': 'Escribe tú mismo la dirección del sitio en lugar de seguir enlaces de mensajes.',
+  'advice.checkAddressBar': 'Revisa la barra de direcciones antes de escribir una contraseña.',
+  'advice.privateWindow': 'Ábrelo en una ventana privada o de incógnito si no conoces al remitente.',
+  'advice.noPasswordsInAttachments': 'Nunca escribas contraseñas en una página que llegó como adjunto.',
+  'advice.anyImageViewer': 'Puedes abrir esta imagen con cualquier visor.',
+  'advice.keepMacrosDisabled': 'Mantén las macros desactivadas al abrir documentos de otras personas.',
+  'advice.noDoubleClick': 'No abras este archivo con doble clic.',
+  'advice.askSender': 'Pregunta al remitente qué se supone que es el archivo.',
+  'advice.stripMetadata': 'Elimina los metadatos antes de compartir este archivo.',
+  'advice.onlyIfTrusted': 'No abras este archivo salvo que confíes en su procedencia.',
+  'advice.doNotOpen': 'No abras este archivo.',
+  'advice.deleteIt': 'Elimínalo y vacía la papelera.',
+  'advice.tellSecurityTeam': 'Informa a tu equipo de seguridad de dónde procede.',
+  'advice.findingsKept': 'Los hallazgos de abajo se conservan como referencia.',
+  'advice.removeFromAllowlist': 'Quita el hash de tu lista de permitidos si ya no confías en este archivo.',
+
+  'app.language': 'Idioma',
+  'app.stage.reading': 'Leyendo el archivo',
+  'app.stage.rules': 'Aplicando reglas',
+  'app.stage.hashing': 'Calculando hashes',
+  'app.stage.parsing': 'Analizando la estructura',
+  'app.stage.ai': 'Consultando a la IA',
+  'app.stage.starting': 'Iniciando el análisis',
+  'app.error.analysis': 'Algo salió mal durante el análisis. Inténtalo de nuevo.',
+  'app.error.batchItem': 'El análisis falló',
+  'app.drop.title': 'Suelta archivos o carpetas para analizarlos',
+  'app.drop.subtitle': 'Nada sale de tu dispositivo',
+  'app.nav.pro': 'IA PRO ACTIVA',
+  'app.nav.free': 'MODO GRATUITO POR FIRMAS',
+  'app.nav.keyLocked': 'Tu clave guardada está bloqueada',
+  'app.nav.unlockKey': 'DESBLOQUEAR CLAVE',
+  'app.nav.history': 'Historial de análisis',
+  'app.nav.settings': 'Ajustes y clave de API',
+  'app.settings.title': 'Configuración de IA',
+  'app.settings.intro': 'OmniAnalyze funciona {free} con firmas locales. Para un análisis profundo del contenido y el chat con IA, indica tu propia clave de API de Gemini o un modelo autoalojado.',
+  'app.settings.free': 'gratis',
+  'app.settings.gemini': 'Google Gemini',
+  'app.settings.selfHosted': 'Autoalojado',
+  'app.settings.proxyUrl': 'URL del proxy de Gemini (opcional)',
+  'app.settings.proxyHelp': 'Déjalo vacío para llamar a Google con tu propia clave. Un proxy mantiene la clave en el servidor.',
+  'app.settings.baseUrl': 'URL base compatible con OpenAI',
+  'app.settings.baseUrlHelp': 'Ollama, el servidor de llama.cpp, vLLM o cualquier servidor que exponga /chat/completions.',
+  'app.settings.serverKey': 'Clave de API del servidor (opcional)',
+  'app.settings.serverKeyPlaceholder': 'Déjalo vacío si no hace falta',
+  'app.settings.model': 'Modelo',
+  'app.settings.inlineLimit': 'Enviar entero hasta (MB)',
+  'app.settings.uploadLimit': 'Omitir la IA por encima de (MB)',
+  'app.settings.limitsHelp': 'Los archivos más grandes se envían como cabeceras, cadenas y fragmentos de muestra en lugar de enteros.',
+  'app.settings.activatePro': 'Activar el modo Pro',
+  'app.settings.switchFree': 'Cambiar al modo gratuito',
+  'app.idle.badge': 'Inspector universal de archivos',
+  'app.idle.title': 'Comprueba la seguridad',
+  'app.idle.titleAccent': 'de cualquier cosa al instante.',
+  'app.idle.subtitle': 'Sube cualquier archivo y te diré si es peligroso o qué contiene. Funciona con o sin IA.',
+  'app.idle.choose': 'Elegir archivos',
+  'app.idle.dropToScan': 'Suelta para analizar',
+  'app.idle.hint': 'O suéltalos en cualquier sitio • Pega con Ctrl+V',
+  'app.idle.folder': 'Analizar una carpeta entera',
+  'app.idle.paste': 'Pegar texto o un enlace',
+  'app.loading.withAi': 'Realizando una inspección profunda con IA.',
+  'app.loading.locally': 'Realizando una inspección profunda en local.',
+  'app.cancel': 'Cancelar',
+  'app.error.title': 'Análisis interrumpido',
+  'app.error.retry': 'Intentar de nuevo',
+  'app.batch.again': 'Analizar otros archivos',
+  'app.result.backToBatch': 'Volver a los resultados del lote',
+  'app.result.modeAi': 'IA profunda',
+  'app.result.modeLocal': 'Análisis por firmas',
+  'app.result.policy': 'Política {name}',
+  'app.result.policyUnchanged': 'El perfil no cambió nada en este archivo.',
+  'app.tab.overview': 'Resumen',
+  'app.tab.preview': 'Vista previa',
+  'app.tab.technical': 'Técnico',
+  'app.result.summary': 'Resumen del análisis',
+  'app.result.recommendations': 'Recomendaciones',
+  'app.result.findings': 'Hallazgos',
+  'app.result.privacy': 'Privacidad',
+  'app.result.line': 'Línea {line}',
+  'app.result.matchedRules': 'Reglas coincidentes',
+  'app.chat.title': 'Asistente de archivos OmniAI',
+  'app.chat.pro': 'Contexto Pro',
+  'app.chat.local': 'Respuestas locales • Sin IA',
+  'app.chat.emptyLocal': 'Pregunta por qué se marcó este archivo, qué URL contiene, si está firmado o qué hay dentro de un comprimido.',
+  'app.chat.emptyTooLarge': 'Este archivo supera el límite de tamaño de la IA, así que no hay nada sobre lo que chatear.',
+  'app.chat.emptyPro': 'Pregúntame lo que quieras sobre el contenido de este archivo.',
+  'app.chat.emptyNoFile': 'Este análisis anterior no guardó su archivo, así que no hay nada sobre lo que chatear.',
+  'app.chat.thinking': 'Pensando...',
+  'app.chat.placeholder': 'Haz una pregunta sobre este archivo...',
+  'app.chat.needsFile': 'El chat necesita el archivo original',
+  'app.chat.stop': 'Detener la respuesta',
+  'app.chat.noCommentary': 'Lo he analizado, pero no tengo ningún comentario concreto.',
+  'app.chat.stopped': '_Detenido._',
+  'app.chat.cutOff': '_La respuesta se cortó: falló la conexión con la IA._',
+  'app.chat.failed': 'La sesión de IA ha caducado o la clave de API no es válida. Revisa tus ajustes.',
+  'app.upsell.title': 'Desbloquea el análisis profundo con IA',
+  'app.upsell.body': 'Cambia al modo Pro para usar Google Gemini o tu propio modelo autoalojado en la inspección profunda del contenido, la detección de código sospechoso y un chat que responde a cualquier pregunta sobre el contenido.',
+  'app.upsell.button': 'Configurar mi clave de API',
+  'app.footer.linkedin': 'Perfil de LinkedIn',
+  'app.footer.engine': 'Motor de firmas centrado en la privacidad',
+  'app.footer.tagline': 'OmniAnalyze • Creado en 2026 • Protegiendo activos digitales',
+
+  // Findings: file checks
+  'finding.unknownError': 'error desconocido',
+  'finding.signature-mismatch.title': 'La extensión del archivo no coincide con su contenido',
+  'finding.signature-mismatch.executable': 'Ejecutable disfrazado de otro tipo de archivo',
+  'finding.signature-mismatch.description': 'El nombre dice {declared}, pero los bytes de cabecera del archivo lo identifican como {type} ({evidence}).',
+  'finding.signature-mismatch.noExtension': 'sin extensión',
+  'finding.hash-lookup-failed.title': 'No se pudieron consultar las listas de hashes',
+  'finding.hash-lookup-failed.description': 'No se pudieron leer tu lista de bloqueo ni tu lista de permitidos, así que este archivo no se comparó con ellas ({error}).',
+  'finding.hash-blocklist.title': 'Archivo malicioso conocido',
+  'finding.hash-blocklist.description': 'El hash {algorithm} de este archivo está en tu lista de bloqueo (importado de {source}).',
+  'finding.hash-blocklist.descriptionLabelled': 'El hash {algorithm} de este archivo está en tu lista de bloqueo como "{label}" (importado de {source}).',
+  'finding.hash-allowlist.title': 'En tu lista de permitidos',
+  'finding.hash-allowlist.description': 'El hash {algorithm} de este archivo está en tu lista de permitidos (importado de {source}).',
+  'finding.hash-allowlist.descriptionLabelled': 'El hash {algorithm} de este archivo está en tu lista de permitidos como "{label}" (importado de {source}).',
+  'finding.email-unreadable.title': 'No se pudo leer el correo',
+  'finding.email-unreadable.description': 'La estructura del mensaje está dañada o malformada a propósito ({error}).',
+  'finding.document-unreadable.title': 'No se pudo leer el documento por completo',
+  'finding.document-unreadable.description': 'La estructura interna del documento está dañada o malformada a propósito ({error}).',
+  'finding.archive-unreadable.title': 'No se pudo leer el archivo comprimido',
+  'finding.archive-unreadable.description': 'La lista de archivos del comprimido está dañada o malformada a propósito ({error}).',
+
+  // Findings: documents
+  'finding.pdf-javascript-autorun.title': 'Ejecuta JavaScript al abrirse',
+  'finding.pdf-javascript-autorun.description': 'El PDF contiene JavaScript junto con una acción automática, así que el código se ejecuta en cuanto lo abres. Los documentos normales no lo necesitan.',
+  'finding.pdf-javascript.title': 'Contiene JavaScript',
+  'finding.pdf-javascript.description': 'El PDF contiene JavaScript. A veces lo usan los formularios, pero también se usa para atacar lectores de PDF.',
+  'finding.pdf-launch.title': 'Puede iniciar programas en tu equipo',
+  'finding.pdf-launch.description': 'Una acción /Launch pide a tu lector de PDF que ejecute otro programa o comando.',
+  'finding.pdf-embedded-executable.title': 'Lleva un programa oculto',
+  'finding.pdf-embedded-executable.description': 'El PDF tiene un archivo adjunto que es un programa: {names}.',
+  'finding.pdf-embedded-file.title': 'Tiene archivos adjuntos',
+  'finding.pdf-embedded-file.description': 'El PDF lleva archivos adjuntos. Revísalos antes de abrirlos.',
+  'finding.pdf-embedded-file.descriptionNamed': 'El PDF lleva adjuntos: {names}. Revísalos antes de abrirlos.',
+  'finding.pdf-submit-form.title': 'Envía datos de formulario por internet',
+  'finding.pdf-submit-form.description': 'Un formulario de este PDF puede enviar lo que escribas a una dirección web.',
+  'finding.pdf-rich-media.title': 'Incrusta Flash o contenido multimedia',
+  'finding.pdf-rich-media.description': 'El contenido multimedia en los PDF tiene un largo historial de uso para atacar lectores de PDF.',
+  'finding.pdf-xfa.title': 'Usa formularios XFA',
+  'finding.pdf-xfa.description': 'El PDF usa formularios XML dinámicos, que admiten scripts en algunos lectores.',
+  'finding.pdf-links.title.one': 'Contiene {count} enlace web',
+  'finding.pdf-links.title.other': 'Contiene {count} enlaces web',
+  'finding.pdf-links.description': 'Al hacer clic en los enlaces de este documento se abre: {links}.',
+  'finding.pdf-obfuscated-names.title': 'Palabras clave de PDF disfrazadas',
+  'finding.pdf-obfuscated-names.description': 'Las palabras clave del PDF están escritas con códigos de escape (como /J#61vaScript) para pasar desapercibidas ante los escáneres.',
+  'finding.office-macro-autoexec.title': 'La macro se ejecuta automáticamente',
+  'finding.office-macro-autoexec.description': 'El documento contiene macros VBA con una rutina de ejecución automática ({routine}), así que el código se ejecuta en cuanto se habilitan las macros.',
+  'finding.office-macro-hidden.title': 'Macros ocultas',
+  'finding.office-macro-hidden.description': 'Hay macros escondidas dentro de un archivo .{ext}, un formato que no debería contenerlas.',
+  'finding.office-macro.title': 'Contiene macros',
+  'finding.office-macro.description': 'El documento contiene macros VBA. No hagas clic en "Habilitar contenido" a menos que esperaras macros de este remitente.',
+  'finding.office-xlm-macro.title': 'Macros de Excel 4.0',
+  'finding.office-xlm-macro.description': 'El libro contiene hojas de macros heredadas de Excel 4.0, que los atacantes usan porque muchos escáneres las ignoran.',
+  'finding.office-remote-template.title': 'Carga contenido de internet al abrirse',
+  'finding.office-remote-template.description': 'El documento descarga un {part} remoto desde {target}, una forma conocida de colar macros después de que se haya analizado el archivo.',
+  'finding.office-remote-template.template': 'plantilla',
+  'finding.office-remote-ole.title': 'Enlaza a un objeto remoto',
+  'finding.office-remote-ole.description': 'Un objeto incrustado se carga desde {target} al abrir el documento.',
+  'finding.office-ole-object.title': 'Objetos incrustados',
+  'finding.office-ole-object.description': 'El documento incrusta objetos OLE. Pueden contener programas que se ejecutan al hacer doble clic.',
+  'finding.office-ole-object.descriptionCounted.one': 'El documento incrusta {count} objeto OLE ({names}). Puede contener programas que se ejecutan al hacer doble clic.',
+  'finding.office-ole-object.descriptionCounted.other': 'El documento incrusta {count} objetos OLE ({names}). Pueden contener programas que se ejecutan al hacer doble clic.',
+  'finding.office-activex.title': 'Controles ActiveX',
+  'finding.office-activex.description': 'El documento contiene controles ActiveX, que pueden ejecutar código en Windows.',
+  'finding.office-dde.title': 'Ejecuta comandos mediante DDE',
+  'finding.office-dde.description': 'Un campo DDE puede iniciar programas al abrir el documento o al actualizar sus vínculos.',
+  'finding.office-encrypted.title': 'Protegido con contraseña',
+  'finding.office-encrypted.description': 'El documento está cifrado, así que no se pudo revisar su contenido.',
+  'finding.office-unreadable.title': 'Estructura del documento dañada',
+  'finding.office-unreadable.description': 'No se pudo leer la tabla interna de archivos del documento, lo que puede ser señal de manipulación.',
+
+  // Findings: archives
+  'finding.archive-bomb.title': 'Posible bomba zip',
+  'finding.archive-bomb.description': 'El archivo comprimido dice expandirse de {packed} a {unpacked} bytes, algo pensado para saturar tu disco o tu antivirus.',
+  'finding.archive-bomb.descriptionEntry': '"{path}" se expande {ratio}x (hasta {size} bytes), mucho más allá de una compresión normal.',
+  'finding.archive-bomb.descriptionOverrun': '"{path}" siguió expandiéndose más allá del límite de inspección aunque decía ocupar {size} bytes.',
+  'finding.archive-path-traversal.title': 'Recorrido de rutas en el archivo comprimido',
+  'finding.archive-path-traversal.description': '"{path}" se escribiría fuera de la carpeta donde lo extraes, lo que puede sobrescribir archivos del sistema o de inicio.',
+  'finding.archive-double-extension.title': 'Nombre de archivo disfrazado en el comprimido',
+  'finding.archive-double-extension.description': '"{name}" usa una doble extensión para parecer un {type} cuando en realidad es un programa.',
+  'finding.archive-executable.title': 'Ejecutable dentro del archivo comprimido: {name}',
+  'finding.archive-entry.title': 'Archivo marcado dentro del comprimido: {name}',
+  'finding.archive-entry.description': '{path}: {verdict}',
+  'finding.archive-entry.more.title.one': '{count} archivo marcado más dentro del comprimido',
+  'finding.archive-entry.more.title.other': '{count} archivos marcados más dentro del comprimido',
+  'finding.archive-entry.more.description': 'Consulta la lista de archivos para ver cada entrada y su veredicto.',
+  'finding.archive-encrypted.title': 'Archivos protegidos con contraseña',
+  'finding.archive-encrypted.description.one': '{count} archivo está cifrado y no se pudo revisar. Los atacantes suelen cifrar los comprimidos para pasar desapercibidos ante los escáneres.',
+  'finding.archive-encrypted.description.other': '{count} archivos están cifrados y no se pudieron revisar. Los atacantes suelen cifrar los comprimidos para pasar desapercibidos ante los escáneres.',
+
+  // Notes on archive entries and email attachments
+  'note.passwordProtected': 'Protegido con contraseña',
+  'note.tooDeep': 'Anidado a demasiada profundidad para inspeccionarlo',
+  'note.limitReached': 'Omitido: se alcanzó el límite de inspección',
+  'note.expandsPastLimit': 'Se expande más allá del límite de inspección de {size} MB',
+  'note.unreadable': 'No se pudo leer',
+  'note.outlookItem': 'Elemento de Outlook incrustado: no inspeccionado',
+  'note.noData': 'Sin datos del adjunto',
+
+  // Findings: email
+  'finding.email-dmarc-fail.title': 'El remitente no superó DMARC',
+  'finding.email-dmarc-fail.description': 'El servidor de correo receptor informó de que este mensaje no superó DMARC, así que muy probablemente no viene de quien dice.',
+  'finding.email-dmarc-fail.descriptionFor': 'El servidor de correo receptor informó de que este mensaje no superó DMARC para {detail}, así que muy probablemente no viene de quien dice.',
+  'finding.email-auth-fail.title': 'Fallaron las comprobaciones del remitente',
+  'finding.email-auth-fail.description': 'El servidor de correo receptor informó: {results}. Puede que el mensaje no venga del servidor que dice.',
+  'finding.email-auth-fail.result': '{method} {result}',
+  'finding.email-auth-fail.resultFor': '{method} {result} para {detail}',
+  'finding.email-auth-missing.title': 'Sin resultados de autenticación del remitente',
+  'finding.email-auth-missing.description': 'El mensaje no tiene cabecera Authentication-Results, así que no se puede confirmar si el remitente es auténtico. Las copias pegadas o guardadas desde algunas aplicaciones de correo la pierden.',
+  'finding.email-reply-to-mismatch.title': 'Las respuestas van a otro dominio',
+  'finding.email-reply-to-mismatch.description': 'El mensaje es de {from}, pero las respuestas van a {replyTo}. Los estafadores lo configuran así para que tu respuesta les llegue a ellos.',
+  'finding.email-return-path-mismatch.title': 'Los rebotes van a otro dominio',
+  'finding.email-return-path-mismatch.description': 'Los fallos de entrega van a {returnPath}, no a {domain}. Los servicios de envío masivo suelen hacerlo en nombre del remitente.',
+  'finding.email-return-path-mismatch.descriptionUnverified': 'Los fallos de entrega van a {returnPath}, no a {domain}. Como DMARC no se supera, nada vincula a los dos.',
+  'finding.email-display-name-spoof.title': 'El nombre del remitente muestra otra dirección',
+  'finding.email-display-name-spoof.description': 'El nombre del remitente dice "{name}", pero el mensaje vino de {address}.',
+  'finding.email-display-name-brand.title': 'El nombre del remitente invoca una marca',
+  'finding.email-display-name-brand.description': 'El remitente se hace llamar "{name}", pero el mensaje vino de {domain}, que no pertenece a {brand}.',
+  'finding.email-sender-lookalike.title': 'El dominio del remitente imita a otro',
+  'finding.email-sender-lookalike.description': '{domain} imita a {detail}. Los dominios de remitente parecidos existen para hacerse pasar por alguien de confianza.',
+  'finding.email-sender-lookalike.descriptionHomoglyph': '{domain} usa {detail}. Los dominios de remitente parecidos existen para hacerse pasar por alguien de confianza.',
+  'finding.email-link-mismatch.title': 'Los enlaces llevan a otro sitio del que indican',
+  'finding.email-link-mismatch.description': '{links}. Mostrar una dirección mientras se enlaza a otra es un truco clásico de phishing.',
+  'finding.email-link-mismatch.item': '"{text}" lleva a {host}',
+  'finding.email-attachment-executable.title': 'Programa adjunto: {name}',
+  'finding.email-attachment.title': 'Adjunto marcado: {name}',
+  'finding.email-attachment.description': '{name}: {verdict}',
+  'finding.email-attachment.more.title.one': '{count} adjunto marcado más',
+  'finding.email-attachment.more.title.other': '{count} adjuntos marcados más',
+  'finding.email-attachment.more.description': 'Consulta la lista de adjuntos para ver cada archivo y su veredicto.',
+
+  // Lists inside findings
+  'list.comma': '{head}, {item}',
+  'list.semicolon': '{head}; {item}',
+  'list.more': '{list} y {count} más',
+
+  // Findings: links
+  'finding.url-lookalike.title': 'Enlace a un dominio parecido',
+  'finding.url-lookalike.description.one': '{hosts} imita un nombre conocido con letras cambiadas o extranjeras. Los dominios parecidos existen para robar credenciales.',
+  'finding.url-lookalike.description.other': '{hosts} imitan un nombre conocido con letras cambiadas o extranjeras. Los dominios parecidos existen para robar credenciales.',
+  'finding.url-homoglyph.title': 'El enlace usa caracteres engañosos',
+  'finding.url-homoglyph.description.one': '{hosts} usa caracteres de otros alfabetos que parecen letras normales, así que la dirección puede no ser lo que parece.',
+  'finding.url-homoglyph.description.other': '{hosts} usan caracteres de otros alfabetos que parecen letras normales, así que la dirección puede no ser lo que parece.',
+  'finding.url-credentials.title': 'El enlace oculta su destino real',
+  'finding.url-credentials.description': 'Todo lo que va antes de "@" en un enlace es un nombre de usuario, no el sitio. El enlace va a {hosts}.',
+  'finding.url-brand-subdomain.title': 'El enlace pone un dominio conocido delante de otro',
+  'finding.url-brand-subdomain.description.one': '{hosts} empieza por un dominio conocido, pero el sitio lo decide el final del nombre.',
+  'finding.url-brand-subdomain.description.other': '{hosts} empiezan por un dominio conocido, pero el sitio lo decide el final del nombre.',
+  'finding.url-ip-host.title': 'Enlace a una dirección IP sin más',
+  'finding.url-ip-host.description': 'Los enlaces a {hosts} se saltan por completo el nombre de dominio. Los servicios legítimos casi nunca los envían.',
+  'finding.url-shortener.title': 'Enlace acortado',
+  'finding.url-shortener.description': 'Los enlaces a través de {hosts} ocultan adónde llevan realmente hasta que haces clic.',
+  'finding.url-suspicious-tld.title': 'Enlace a una terminación de dominio de alto riesgo',
+  'finding.url-suspicious-tld.description.one': '{hosts} usa una terminación de dominio barata de registrar y habitual en el phishing.',
+  'finding.url-suspicious-tld.description.other': '{hosts} usan una terminación de dominio barata de registrar y habitual en el phishing.',
+  'url.hostDetail': '{host} ({detail})',
+  'url.notUser': '{host}, no {user}',
+  'url.writtenAs': 'escrito como {host}',
+  'url.mixedAlphabets': 'alfabetos mezclados',
+  'url.imitatingLetters': 'letras que imitan las latinas',
+
+  // Findings: programs
+  'finding.exe-injection-imports.title': 'Puede inyectar código en otros programas',
+  'finding.exe-injection-imports.description': 'Importa {names}, las funciones que se usan para esconder código malicioso dentro de procesos legítimos.',
+  'finding.exe-suspicious-imports.title': 'Usa funciones sensibles del sistema',
+  'finding.exe-suspicious-imports.description': 'Importa {imports}.',
+  'finding.exe-suspicious-imports.item': '{name} ({purpose})',
+  'finding.exe-packed.title': 'Empaquetado con {packers}',
+  'finding.exe-packed.description': 'El código real del programa está comprimido o cifrado y solo se desempaqueta al ejecutarse, lo que lo oculta a la inspección.',
+  'finding.exe-high-entropy.title': 'Código cifrado o comprimido',
+  'finding.exe-high-entropy.description.one': 'La sección de código {sections} parece aleatoria, una señal de empaquetado o cifrado.',
+  'finding.exe-high-entropy.description.other': 'Las secciones de código {sections} parecen aleatorias, una señal de empaquetado o cifrado.',
+  'finding.exe-high-entropy.section': '{name} (entropía {entropy})',
+  'finding.exe-wx-section.title': 'Secciones de código automodificable',
+  'finding.exe-wx-section.description.one': 'La sección {sections} se puede escribir y ejecutar a la vez.',
+  'finding.exe-wx-section.description.other': 'Las secciones {sections} se pueden escribir y ejecutar a la vez.',
+  'finding.exe-few-imports.title': 'Oculta qué funciones del sistema usa',
+  'finding.exe-few-imports.description.one': 'Solo {count} función importada junto a datos que parecen cifrados; las importaciones reales probablemente se resuelven al ejecutarse.',
+  'finding.exe-few-imports.description.other': 'Solo {count} funciones importadas junto a datos que parecen cifrados; las importaciones reales probablemente se resuelven al ejecutarse.',
+  'finding.exe-signature.title': 'Tiene firma digital',
+  'finding.exe-signature.description': 'Lleva adjunto un certificado de firma de código. Comprueba en las propiedades del archivo de Windows que es válido y del editor esperado.',
+  'finding.exe-unsigned.title': 'Sin firma digital',
+  'finding.exe-unsigned.description': 'No lleva certificado de firma de código, así que no se puede verificar el editor.',
+  'finding.exe-unparsed.title': 'No se pudo leer la estructura del programa',
+  'finding.exe-unparsed.description': 'El archivo empieza como un programa, pero sus cabeceras están truncadas o dañadas, así que no se revisaron sus secciones, importaciones ni firma.',
+  'finding.exe.unnamedSection': '(sin nombre)',
+  'import.allocateExecutable': 'reservar memoria ejecutable',
+  'import.allocateRemote': 'reservar memoria en otro programa',
+  'import.makeExecutable': 'hacer ejecutable la memoria',
+  'import.writeProgram': 'escribir en otro programa',
+  'import.startRemote': 'iniciar código dentro de otro programa',
+  'import.hijackThread': 'secuestrar un hilo de otro programa',
+  'import.hollow': 'vaciar otro programa',
+  'import.watchInput': 'vigilar el teclado o el ratón',
+  'import.readKeys': 'leer las pulsaciones de teclas',
+  'import.download': 'descargar archivos',
+  'import.runPrograms': 'ejecutar otros programas',
+  'import.detectAnalysis': 'detectar herramientas de análisis',
+  'import.raisePrivileges': 'elevar sus propios privilegios',
+  'import.encrypt': 'cifrar datos',
+  'import.controlProcesses': 'controlar otros procesos',
+  'import.writeProcess': 'escribir en otro proceso',
+  'import.memoryOnly': 'ejecutar código solo desde memoria',
+
+  // Findings: images
+  'finding.image-gps.title': 'La foto revela dónde se tomó',
+  'finding.image-gps.description': 'Los metadatos {format} guardan una posición GPS ({position}). Cualquiera con quien compartas el original puede ver dónde se tomó. La pestaña Vista previa puede descargar una copia sin ella para JPEG y PNG.',
+  'finding.image-identifying-metadata.title': 'Cámara, autor y otros metadatos',
+  'finding.image-identifying-metadata.description': 'Los metadatos registran: {names}. Pueden identificar el dispositivo o la persona que hizo la imagen, y cuándo.',
+  'finding.image.bytes.one': '{count} byte',
+  'finding.image.bytes.other': '{count} bytes',
+  'finding.image.trailing': '{size} siguen al marcador de fin de {format} en el desplazamiento {offset}',
+  'finding.image-appended-executable.title': 'Programa oculto tras la imagen',
+  'finding.image-appended-executable.description': '{where}, y su cabecera coincide con el formato {type} ({evidence}). Los visores ignoran todo lo que va después del final de una imagen, por eso se cuelan programas de esta forma.',
+  'finding.image-appended-camera-data.title': 'Datos extra de la cámara tras la imagen',
+  'finding.image-appended-camera-data.description': '{where}. Su cabecera coincide con el formato {type}, que es como los móviles guardan las "fotos en movimiento". Suele ser inofensivo, pero los datos viajan con la foto.',
+  'finding.image-appended-camera-data.descriptionSamsung': '{where}. Son un bloque final de cámara de Samsung. Suele ser inofensivo, pero los datos viajan con la foto.',
+  'finding.image-appended-archive.title': 'Archivo comprimido oculto tras la imagen',
+  'finding.image-appended-data.title': 'Datos ocultos tras el final de la imagen',
+  'finding.image-appended-data.description': '{where}. No forman parte de la imagen. Los visores los ignoran, así que pueden llevar archivos o mensajes ocultos.',
+  'finding.image-appended-data.descriptionTyped': '{where}. Su cabecera coincide con el formato {type}. Los visores los ignoran, así que pueden llevar archivos o mensajes ocultos.',
+  'finding.image-zip-polyglot.title': 'La imagen también es un archivo ZIP',
+  'finding.image-zip-polyglot.titlePrograms': 'La imagen también es un archivo ZIP con programas dentro',
+  'finding.image-zip-polyglot.description.one': 'El archivo se abre tanto como imagen como archivo ZIP de {count} archivo. Los archivos hechos para ser dos cosas a la vez se usan para colar comprimidos por los filtros de subida.',
+  'finding.image-zip-polyglot.description.other': 'El archivo se abre tanto como imagen como archivo ZIP de {count} archivos. Los archivos hechos para ser dos cosas a la vez se usan para colar comprimidos por los filtros de subida.',
+  'finding.image-zip-polyglot.descriptionPrograms.one': 'El archivo se abre tanto como imagen como archivo ZIP de {count} archivo, incluido {programs}. Los archivos hechos para ser dos cosas a la vez se usan para colar comprimidos por los filtros de subida.',
+  'finding.image-zip-polyglot.descriptionPrograms.other': 'El archivo se abre tanto como imagen como archivo ZIP de {count} archivos, incluidos {programs}. Los archivos hechos para ser dos cosas a la vez se usan para colar comprimidos por los filtros de subida.',
+  'finding.image.afterEnd': 'tras el final de la imagen',
+  'finding.image.inside': 'dentro de la imagen o de sus metadatos',
+  'finding.image-embedded-code.title': 'Código de script oculto en la imagen',
+  'finding.image-embedded-code.description': 'Se encontró `{code}` {where}. Las imágenes auténticas nunca contienen código; un servidor o navegador que confunda el archivo con un script o una página lo ejecutará.',
+  'finding.image-html-polyglot.title': 'La imagen también se lee como página web',
+  'finding.image-html-polyglot.description': 'Se encontró marcado HTML {where}. Un navegador que examine el contenido en lugar de fiarse del tipo de archivo puede mostrarlo como una página.',
+  'finding.image-large-comment.title': 'Comentario inusualmente grande en la imagen',
+  'finding.image-large-comment.description': 'El {segment} contiene {size}. Los comentarios suelen ocupar una o dos líneas; tanto espacio se usa para ocultar datos o código.',
+  'finding.image-large-comment.descriptionOthers.one': 'El {segment} contiene {size}, y {count} más también es demasiado grande. Los comentarios suelen ocupar una o dos líneas; tanto espacio se usa para ocultar datos o código.',
+  'finding.image-large-comment.descriptionOthers.other': 'El {segment} contiene {size}, y otros {count} también son demasiado grandes. Los comentarios suelen ocupar una o dos líneas; tanto espacio se usa para ocultar datos o código.',
+  'finding.image-large-comment.segment': 'segmento de comentario',
+  'finding.image-large-comment.chunk': 'bloque de texto "{name}"',
+  'finding.image-unknown-chunks.title': 'Bloques PNG no estándar',
+  'finding.image-unknown-chunks.description.one': 'La imagen lleva el bloque {types} ({size}) que los visores estándar omiten. Los editores a veces añaden los suyos, pero los grandes pueden contener datos ocultos.',
+  'finding.image-unknown-chunks.description.other': 'La imagen lleva los bloques {types} ({size}) que los visores estándar omiten. Los editores a veces añaden los suyos, pero los grandes pueden contener datos ocultos.',
+
+  // Findings: web content
+  'finding.web-svg-script.title': 'Script oculto dentro de una imagen',
+  'finding.web-svg-script.description': 'Las imágenes SVG normalmente solo contienen instrucciones de dibujo. Esta lleva un script que se ejecuta al abrir la imagen en un navegador.',
+  'finding.web-svg-handler.title': 'La imagen ejecuta código con eventos',
+  'finding.web-svg-handler.description': 'Un elemento SVG tiene un manejador de eventos (como onload) que ejecuta JavaScript al mostrarse la imagen.',
+  'finding.web-svg-foreign-object.title': 'Página web incrustada en una imagen',
+  'finding.web-svg-foreign-object.description': 'El SVG incrusta HTML mediante <foreignObject>, que se usa para dibujar formularios de inicio de sesión falsos dentro de imágenes.',
+  'finding.web-eval-decode.title': 'Ejecuta código oculto descodificado',
+  'finding.web-eval-decode.description': 'Descodifica una cadena oculta y la ejecuta de inmediato, la forma más habitual en que los scripts maliciosos esconden lo que hacen.',
+  'finding.web-eval.title': 'Ejecuta código construido en tiempo de ejecución',
+  'finding.web-eval.description': 'Usa eval() o new Function() para ejecutar código montado a partir de cadenas, lo que hace difícil ver el comportamiento real del script.',
+  'finding.web-string-timer.title': 'Ejecuta código a partir de una cadena de texto',
+  'finding.web-string-timer.description': 'Pasa una cadena de código a setTimeout o setInterval, lo que funciona como eval().',
+  'finding.web-hex-escapes.title': 'Texto ofuscado',
+  'finding.web-hex-escapes.description': 'Una larga serie de códigos de escape \\x o \\u oculta texto legible a quien mire el archivo.',
+  'finding.web-charcode.title': 'Texto montado a partir de códigos de carácter',
+  'finding.web-charcode.description': 'Construye una cadena a partir de una lista de códigos numéricos de carácter, un truco usado para ocultar URL y código.',
+  'finding.web-base64-blob.title': 'Gran bloque codificado',
+  'finding.web-base64-blob.description': 'Hay una larga cadena codificada en base64 incrustada en el código. Las páginas lo usan para colar archivos o scripts por los filtros.',
+  'finding.web-hidden-iframe.title': 'Marco oculto',
+  'finding.web-hidden-iframe.description': 'Carga otra página dentro de un marco invisible, una técnica usada para descargas no solicitadas y fraude de clics.',
+  'finding.web-external-form.title': 'Envía datos de formulario a otro sitio',
+  'finding.web-external-form.description': 'Un formulario envía lo que escribes a una dirección web externa.',
+  'finding.web-password-form.title': 'Pide una contraseña',
+  'finding.web-password-form.description': 'Un archivo local que pide una contraseña y la envía a otro sitio es casi siempre una página de phishing. Los sitios reales nunca te envían su formulario de acceso por correo.',
+  'finding.web-password-field.title': 'Pide una contraseña',
+  'finding.web-password-field.description': 'El archivo tiene un formulario de acceso. Nada en él envía la contraseña a otro sitio, pero los sitios reales nunca te envían su página de acceso por correo, así que escribe una contraseña solo si confías en el origen del archivo.',
+  'finding.web-javascript-url.title': 'Enlace que ejecuta código',
+  'finding.web-javascript-url.description': 'Un enlace o recurso usa una dirección javascript:, que ejecuta código en lugar de abrir una página.',
+  'finding.web-meta-refresh.title': 'Redirección automática',
+  'finding.web-meta-refresh.description': 'La página te envía de inmediato a otra dirección. Los correos de phishing lo usan para llevarte a un sitio falso.',
+  'finding.web-script-redirect.title': 'Redirige mediante script',
+  'finding.web-script-redirect.description': 'Un script envía la página a una dirección de otro sitio.',
+
+  // Findings: detection rules
+  'rule.matched': 'Coincide con la regla de detección {name}.',
+  'rule.evidence': '{summary} Coincidencias: {hits}.',
+  'rule.hit': '{id} en {offset}',
+  'rule.hitRepeated': '{id} en {offset} ({times} veces)',
+
+  // How the final verdict was reached
+  'blend.hashlist': '{finding} Las listas de hashes prevalecen sobre el análisis local y la IA.',
+  'blend.both': 'Tanto el análisis local como la IA calificaron este archivo como {local}.',
+  'blend.localFinding': 'La IA calificó este archivo como {ai}, pero el análisis local encontró "{title}" y lo calificó como {local}. La IA no puede rebajar un veredicto respaldado por pruebas locales.',
+  'blend.local': 'La IA calificó este archivo como {ai}, pero el análisis local encontró pruebas y lo calificó como {local}. La IA no puede rebajar un veredicto respaldado por pruebas locales.',
+  'blend.ai': 'El análisis local no encontró nada más allá de {local}, pero la IA leyó el contenido y lo calificó como {ai}. Se usa el veredicto más estricto.',
+  'opinions.title': 'Dos opiniones',
+  'opinions.local': 'Análisis local',
+  'opinions.ai': 'IA',
+  'opinions.reason': 'Cómo se llegó al veredicto final',
+  'opinions.repaired': 'Respuesta de la IA reparada',
+
+  // What the AI was shown
+  'coverage.headline.full': 'La IA vio el archivo completo.',
+  'coverage.headline.extracted': 'La IA vio fragmentos de este archivo.',
+  'coverage.headline.skipped': 'La IA no vio este archivo.',
+  'coverage.read': 'Leídos {sent} de {total}.',
+  'coverage.reason.oversized': 'El archivo ocupa {size}, por encima del límite de {limit} MB para la IA fijado en Ajustes, así que solo se hizo el análisis local.',
+  'coverage.reason.textBudget': 'El archivo contiene más texto que el presupuesto de {chars} caracteres del modelo.',
+  'coverage.reason.textOnly': 'Este modelo solo lee texto, así que el contenido binario se redujo a cadenas imprimibles.',
+  'coverage.reason.inlineLimit': 'El archivo supera el límite de envío directo de {limit}.',
+
+  // Archive contents
+  'archive.title': 'Dentro de este archivo comprimido',
+  'archive.summary.one': '{count} entrada • {packed} comprimido • {unpacked} descomprimido',
+  'archive.summary.other': '{count} entradas • {packed} comprimido • {unpacked} descomprimido',
+  'archive.truncated': 'Algunas entradas superaron los límites de inspección',
+  'archive.column.name': 'Nombre',
+  'archive.column.size': 'Tamaño',
+  'archive.column.ratio': 'Proporción',
+  'archive.column.verdict': 'Veredicto',
+  'archive.column.notes': 'Notas',
+  'archive.unchecked': 'Sin revisar',
+
+  // Email details
+  'email.title': 'Mensaje de correo',
+  'email.from': 'De',
+  'email.replyTo': 'Responder a',
+  'email.returnPath': 'Ruta de retorno',
+  'email.to': 'Para',
+  'email.subject': 'Asunto',
+  'email.date': 'Fecha',
+  'email.auth': 'Autenticación del remitente',
+  'email.noAuth': 'No hay cabecera Authentication-Results, así que no se pudo confirmar el remitente.',
+  'email.links': 'Enlaces del mensaje',
+  'email.noLinkText': '(sin texto)',
+  'email.actuallyGoesTo': 'En realidad va a {href}',
+  'email.attachments': 'Adjuntos',
+  'email.unchecked': 'Sin revisar',
+
+  // Batch results
+  'batch.title': 'Resultados del lote',
+  'batch.dangerFirst': 'Peligro primero',
+  'batch.failedCount': '{count} con error',
+  'batch.progress': 'Analizados {finished} de {total}…',
+  'batch.done.one': '{count} archivo analizado',
+  'batch.done.other': '{count} archivos analizados',
+  'batch.column.name': 'Nombre',
+  'batch.column.size': 'Tamaño',
+  'batch.column.type': 'Tipo',
+  'batch.column.verdict': 'Veredicto',
+  'batch.column.finding': 'Hallazgo principal',
+  'batch.failed': 'Error',
+  'batch.scanning': 'Analizando',
+  'batch.queued': 'En cola',
+
+  // Scan history
+  'history.title': 'Historial de análisis',
+  'history.search': 'Nombre o hash...',
+  'history.anyVerdict': 'Cualquier veredicto',
+  'history.from': 'Desde',
+  'history.to': 'Hasta',
+  'history.empty': 'Aún no hay análisis.',
+  'history.off': 'El historial está desactivado.',
+  'history.noMatch': 'Ningún análisis coincide con tu búsqueda.',
+  'history.messages.one': '{count} mensaje',
+  'history.messages.other': '{count} mensajes',
+  'history.delete': 'Eliminar este análisis',
+  'history.enabled': 'Guardar un historial de mis análisis',
+  'history.keepFiles': 'Guardar también los propios archivos',
+  'history.keepAtMost': 'Guardar como máximo',
+  'history.scansFor': 'análisis durante',
+  'history.days': 'días',
+  'history.retentionHint': 'Con 0 días los análisis se guardan hasta que los elimines. El historial nunca sale de este navegador.',
+  'history.deleteAll.one': 'Eliminar {count} análisis',
+  'history.deleteAll.other': 'Eliminar los {count} análisis',
+  'history.cancel': 'Cancelar',
+  'history.clear': 'Borrar historial',
+
+  // Settings: detection rules
+  'rules.title': 'Reglas de detección',
+  'rules.summary.one': '{count} regla integrada. Importa las tuyas como JSON o texto al estilo YARA.',
+  'rules.summary.other': '{count} reglas integradas. Importa las tuyas como JSON o texto al estilo YARA.',
+  'rules.summaryCustom.one': '{count} regla integrada + {custom} personalizadas. Importa las tuyas como JSON o texto al estilo YARA.',
+  'rules.summaryCustom.other': '{count} reglas integradas + {custom} personalizadas. Importa las tuyas como JSON o texto al estilo YARA.',
+  'rules.import': 'Importar reglas',
+  'rules.remove': 'Quitar las reglas personalizadas',
+  'rules.imported.one': 'Se importó {count} regla de {file}.',
+  'rules.imported.other': 'Se importaron {count} reglas de {file}.',
+  'rules.unreadable': 'No se pudo leer este conjunto de reglas.',
+  'rules.removed': 'Reglas personalizadas eliminadas.',
+  'rules.invalidSaved': 'Tus reglas guardadas ya no se cargan, así que solo se aplican las integradas: {error}',
+
+  // Settings: hash lists
+  'hashList.title': 'Listas de hashes',
+  'hashList.intro': 'Los archivos cuyo MD5, SHA-1 o SHA-256 está en la lista de bloqueo se marcan siempre como peligrosos; los de la lista de permitidos se marcan como seguros. Importa texto plano o CSV.',
+  'hashList.block.import': 'Importar lista de bloqueo ({count})',
+  'hashList.allow.import': 'Importar lista de permitidos ({count})',
+  'hashList.block.clear': 'Vaciar la lista de bloqueo',
+  'hashList.allow.clear': 'Vaciar la lista de permitidos',
+  'hashList.block.added.one': 'Se añadió {count} hash a la lista de bloqueo desde {file}.',
+  'hashList.block.added.other': 'Se añadieron {count} hashes a la lista de bloqueo desde {file}.',
+  'hashList.allow.added.one': 'Se añadió {count} hash a la lista de permitidos desde {file}.',
+  'hashList.allow.added.other': 'Se añadieron {count} hashes a la lista de permitidos desde {file}.',
+  'hashList.block.cleared': 'Lista de bloqueo vaciada.',
+  'hashList.allow.cleared': 'Lista de permitidos vaciada.',
+  'hashList.unreadable': 'No se pudo leer esta lista de hashes.',
+
+  // Settings: policy profiles
+  'policy.title': 'Perfil de directivas',
+  'policy.intro': 'Los perfiles ajustan los veredictos por tipo de archivo, tamaño y hallazgo según cómo trabaje tu equipo. Las listas de hashes siguen teniendo prioridad.',
+  'policy.imported': 'Se importó {profiles} de {file}.',
+  'policy.imported.name': '{name} (importado)',
+  'policy.unreadable': 'No se pudo leer este perfil.',
+  'policy.removed': 'Perfil eliminado.',
+  'policy.remove': 'Quitar {name}',
+  'policy.import': 'Importar perfil',
+  'policy.export': 'Exportar {name}',
+
+  // Settings: Gemini key
+  'apiKey.title': 'Clave de API de Gemini',
+  'apiKey.proxy': 'Las solicitudes a Gemini pasan por {url}, que añade la clave en el servidor. No hace falta ninguna clave en este navegador.',
+  'apiKey.testProxy': 'Probar el proxy',
+  'apiKey.test': 'Probar',
+  'apiKey.source.vault': 'Cifrada en este dispositivo, desbloqueada',
+  'apiKey.source.session': 'Solo esta sesión, se pierde al recargar',
+  'apiKey.source.legacy': 'Guardada sin cifrar por una versión anterior',
+  'apiKey.encryptLegacy': 'Cifrarla con una frase de contraseña',
+  'apiKey.lock': 'Bloquear',
+  'apiKey.replace': 'Sustituir',
+  'apiKey.remove': 'Quitar la clave de este dispositivo',
+  'apiKey.lockedIntro': 'Tu clave está guardada cifrada. Introduce su frase de contraseña para usarla en esta sesión.',
+  'apiKey.passphrase': 'Frase de contraseña',
+  'apiKey.unlock': 'Desbloquear',
+  'apiKey.unlocking': 'Desbloqueando...',
+  'apiKey.useAnother': 'Usar otra clave',
+  'apiKey.placeholder': 'Introduce la clave de API...',
+  'apiKey.storage.vault': 'Cifrar y guardar',
+  'apiKey.storage.session': 'Solo esta sesión',
+  'apiKey.newPassphrase': 'Frase de contraseña (8+ caracteres)',
+  'apiKey.repeatPassphrase': 'Repite la frase de contraseña',
+  'apiKey.vaultHint': 'La frase de contraseña nunca se guarda. Si la olvidas, quita la clave y vuelve a introducirla.',
+  'apiKey.sessionHint': 'La clave se queda en memoria y se olvida al cerrar o recargar la página.',
+  'apiKey.save': 'Guardar clave',
+  'apiKey.saving': 'Guardando...',
+  'apiKey.cancel': 'Cancelar',
+  'apiKey.getKey': 'Consigue una clave de API gratis de Google →',
+  'apiKey.failed': 'Algo salió mal.',
+  'apiKey.keyWorks': 'La clave funciona: {model} está disponible.',
+  'apiKey.proxyWorks': 'El proxy funciona: {model} está disponible.',
+  'apiKey.missing': 'Introduce tu clave de API.',
+  'apiKey.mismatch': 'Las frases de contraseña no coinciden.',
+  'apiKey.keptForSession': 'Clave guardada para esta sesión. No se guardó nada en el disco.',
+  'apiKey.saved': 'Clave cifrada y guardada. Necesitarás la frase de contraseña después de recargar.',
+  'apiKey.unlocked': 'Clave desbloqueada para esta sesión.',
+  'apiKey.locked': 'Clave bloqueada. Desbloquéala con tu frase de contraseña para volver a usar el modo Pro.',
+  'apiKey.removed': 'Clave eliminada de este dispositivo.',
+
+  // Technical panel
+  'technical.details': 'Detalles técnicos',
+  'technical.noDetails': 'No se registraron detalles técnicos.',
+  'technical.iocs': 'Indicadores de compromiso',
+  'technical.noIocs': 'No se encontraron URL, IP, dominios, direcciones de correo, claves de registro ni direcciones de bitcoin en las cadenas de este archivo.',
+  'technical.copyAll': 'Copiar los {count}',
+  'technical.copy': 'Copiar',
+  'technical.ioc.url': 'URL',
+  'technical.ioc.ip': 'Direcciones IP',
+  'technical.ioc.domain': 'Dominios',
+  'technical.ioc.email': 'Direcciones de correo',
+  'technical.ioc.registry': 'Claves de registro',
+  'technical.ioc.bitcoin': 'Direcciones de bitcoin',
+  'technical.noFile': 'Este análisis anterior no guardó su archivo, así que el gráfico de entropía, las cadenas y la vista hexadecimal no están disponibles.',
+  'technical.entropy': 'Entropía',
+  'technical.entropy.point': '{offset}: {bits} bits/byte',
+  'technical.entropy.hint': 'Bits por byte a lo largo del archivo, de principio a fin. Los tramos rojos por encima de 7,2 suelen ser datos comprimidos o cifrados; haz clic en una barra para verla en hexadecimal.',
+  'technical.strings': 'Cadenas',
+  'technical.strings.filter': 'Filtrar cadenas...',
+  'technical.strings.minLength': 'Longitud mín.',
+  'technical.strings.count.one': '{shown} cadena',
+  'technical.strings.count.other': '{shown} cadenas',
+  'technical.strings.showing': ', mostrando las primeras {limit}',
+  'technical.strings.scanned': ' de los primeros {size} MB',
+  'technical.hex': 'Vista hexadecimal',
+  'technical.hex.goto': 'Ir al desplazamiento (p. ej. 0x400 o 1024)',
+  'technical.hex.go': 'Ir',
+
+  // Program structure
+  'executable.title': 'Estructura del programa',
+  'executable.format': 'Formato',
+  'executable.machine': 'Máquina',
+  'executable.machineBits': '{machine}, {bits} bits',
+  'executable.subsystem': 'Subsistema',
+  'executable.entryPoint': 'Punto de entrada',
+  'executable.compiled': 'Compilado',
+  'executable.interpreter': 'Intérprete',
+  'executable.signature': 'Firma',
+  'executable.signed': 'Authenticode presente (no verificado)',
+  'executable.unsigned': 'Sin firmar',
+  'executable.sections': 'Secciones ({count})',
+  'executable.column.name': 'Nombre',
+  'executable.column.address': 'Dirección',
+  'executable.column.virtual': 'Virtual',
+  'executable.column.onDisk': 'En disco',
+  'executable.column.access': 'Acceso',
+  'executable.column.entropy': 'Entropía',
+  'executable.imports.one': 'Importaciones ({count} biblioteca)',
+  'executable.imports.other': 'Importaciones ({count} bibliotecas)',
+  'executable.noImports': 'No se encontraron importaciones.',
+  'executable.functions.one': '{count} función',
+  'executable.functions.other': '{count} funciones',
+  'executable.exports': 'Exportaciones ({count})',
+  'executable.showAll': 'Mostrar las {count}',
+
+  // Safe preview
+  'preview.title': 'Vista previa segura',
+  'preview.subtitle.image': 'Se muestra sin ubicación, datos de cámara ni otros metadatos',
+  'preview.subtitle.markup': 'Saneado y mostrado en un entorno aislado',
+  'preview.subtitle.pdf': 'Solo texto; no se ejecuta ni se representa nada del PDF',
+  'preview.subtitle.source': 'Código de solo lectura ({language})',
+  'preview.subtitle.text': 'Texto de solo lectura',
+  'preview.subtitle.none': 'No disponible para este tipo de archivo',
+  'preview.tooLarge': 'Los archivos de más de {size} MB no se previsualizan.',
+  'preview.failed': 'No se pudo previsualizar este archivo.',
+  'preview.unsupported': 'No hay forma segura de previsualizar este tipo de archivo. La pestaña Técnico muestra sus cadenas y bytes sin procesar.',
+  'preview.noFile': 'Este análisis anterior no guardó su archivo, así que no hay nada que previsualizar.',
+  'preview.loading': 'Preparando la vista previa...',
+  'preview.dimensions': 'Dimensiones',
+  'preview.gps': 'Esta imagen registra dónde se tomó: {position}. Cualquiera a quien envíes el original puede verlo.',
+  'preview.gpsAltitude': 'Esta imagen registra dónde se tomó: {position} a {altitude} m. Cualquiera a quien envíes el original puede verlo.',
+  'preview.noMetadata': 'No se encontraron metadatos de cámara, ubicación ni texto.',
+  'preview.downloadClean': 'Descargar sin metadatos',
+  'preview.rendered': 'Representado',
+  'preview.source': 'Código',
+  'preview.blocked': 'Los scripts, formularios y el acceso a la red están bloqueados.',
+  'preview.blockedRemoved': 'Los scripts, formularios y el acceso a la red están bloqueados; se eliminó {removed}.',
+  'preview.frameTitle': 'Vista previa de {name}',
+  'preview.noPdfText': 'No se pudo extraer texto. Puede que las páginas sean imágenes escaneadas o usen una codificación que este visor no lee.',
+  'preview.page': 'Página {page}',
+  'preview.emptyPage': 'No hay texto en esta página.',
+  'preview.pageLimit': 'Solo se muestran las primeras {count} páginas.',
+  'preview.truncated': 'Se muestran los primeros {size} KB.',
+
+  // Paste text
+  'paste.title': 'Analizar texto o un enlace',
+  'paste.intro': 'Pega un correo, script o enlace sospechoso. Los enlaces se revisan en busca de dominios parecidos, direcciones IP, acortadores y terminaciones de riesgo sin abrirlos.',
+  'paste.placeholder': 'https://example.com/login o el texto completo de un mensaje',
+  'paste.kind.auto': 'Detectar automáticamente',
+  'paste.kind.detected': 'Detectar automáticamente ({kind})',
+  'paste.kind.text': 'Texto plano o un enlace',
+  'paste.kind.email': 'Correo (con cabeceras)',
+  'paste.kind.html': 'HTML',
+  'paste.kind.js': 'JavaScript',
+  'paste.kind.ps1': 'PowerShell',
+  'paste.kind.sh': 'Script de shell',
+  'paste.scan': 'Analizar',
+
+  // Report export
+  'report.export': 'Exportar informe',
+  'report.print': 'Imprimir / PDF',
+  'report.failed': 'No se pudo generar el informe.'
+};
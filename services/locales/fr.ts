@@ -0,0 +1,725 @@
+import { MessageKey } from './en';
+
+export const fr: Record<MessageKey, string> = {
+  'verdict.SAFE': 'Sûr',
+  'verdict.CAUTION': 'Prudence',
+  'verdict.DANGER': 'Danger',
+  'verdict.unknown': 'Analysé',
+  'severity.INFO': 'Info',
+  'literal': '{text}',
+
+  'analysis.default.verdict': 'Ce fichier semble pouvoir être ouvert sans risque.',
+  'analysis.default.explanation': "J'ai vérifié le format du fichier et il correspond aux modèles habituels.",
+  'analysis.executable.verdict': 'Risque élevé : fichier exécutable détecté.',
+  'analysis.executable.explanation': "C'est un programme qui peut exécuter du code sur votre ordinateur. À moins de faire entièrement confiance à sa source, ne l'ouvrez pas.",
+  'analysis.archive.verdict': 'Les fichiers de cette archive semblent sûrs.',
+  'analysis.archive.explanation.one': "J'ai examiné l'unique fichier de cette archive sans l'extraire, et il n'a déclenché aucune alerte.",
+  'analysis.archive.explanation.other': "J'ai examiné les {count} fichiers de cette archive sans les extraire, et aucun n'a déclenché d'alerte.",
+  'analysis.archive.incomplete.verdict': "Prudence : tout le contenu n'a pas pu être vérifié.",
+  'analysis.archive.incomplete.explanation': "J'ai examiné cette archive sans l'extraire, mais certains fichiers étaient protégés par mot de passe, trop volumineux ou imbriqués trop profondément.",
+  'analysis.unopenedArchive.verdict': 'Prudence : archive compressée.',
+  'analysis.unopenedArchive.explanation': 'Les archives peuvent cacher des fichiers dangereux. Regarder leur contenu est sans risque, mais faites attention à ce que vous extrayez.',
+  'analysis.email.verdict': 'Cet e-mail semble légitime.',
+  'analysis.email.explanation': "J'ai vérifié l'expéditeur de ce message, la destination des réponses, ses {links} et ses {attachments} sans rien ouvrir, et rien n'a déclenché d'alerte.",
+  'analysis.email.noAuth': "Il ne contient aucun résultat d'authentification de l'expéditeur, donc l'expéditeur lui-même n'a pas pu être confirmé.",
+  'analysis.email.incomplete.verdict': "Prudence : tout le contenu de cet e-mail n'a pas pu être vérifié.",
+  'analysis.email.incomplete.explanation': "Une partie était trop volumineuse, imbriquée trop profondément ou stockée dans un format que je ne sais pas ouvrir.",
+  'analysis.link.verdict': 'Ce lien semble sûr.',
+  'analysis.link.explanation': "J'ai vérifié l'adresse sans la visiter. {host} n'imite pas un site connu et n'est ni une adresse IP brute, ni un raccourcisseur de liens, ni une extension de domaine à risque.",
+  'analysis.web.verdict': 'Ce fichier web semble propre.',
+  'analysis.web.explanation': "J'ai lu son code et n'ai trouvé aucune des astuces des pages d'hameçonnage et des scripts malveillants, comme les cadres cachés, les redirections ou le code obscurci.",
+  'analysis.image.verdict': 'Cette image semble propre.',
+  'analysis.image.explanation': "J'ai lu la structure et les métadonnées de l'image {format} et rien n'est caché dedans ni après.",
+  'analysis.document.verdict': "Ce document n'a pas de contenu actif.",
+  'analysis.document.explanation': "J'ai examiné l'intérieur du document {kind} à la recherche de macros, de scripts, d'actions automatiques et de programmes intégrés, et n'en ai trouvé aucun.",
+  'analysis.policy.allowed': 'Autorisé par la politique {policy}.',
+  'analysis.policy.restricted.DANGER': 'Risque élevé : restreint par la politique {policy}.',
+  'analysis.policy.restricted.CAUTION': 'Prudence : restreint par la politique {policy}.',
+  'analysis.policy.explanation': 'La politique {policy} classe les fichiers comme celui-ci en {verdict}.',
+  'policy.adjusted': '{description} La politique {profile} le classe {severity} au lieu de {previous}.',
+  'analysis.mismatch.disguised': 'Risque élevé : exécutable déguisé.',
+  'analysis.mismatch.DANGER': 'Risque élevé : le type de fichier ne correspond pas.',
+  'analysis.mismatch.CAUTION': 'Prudence : le type de fichier ne correspond pas.',
+  'analysis.mismatch.explanation': "Ce fichier porte le nom d'un fichier {name}, mais il s'agit en réalité d'un {type}. Les fichiers qui se font passer pour autre chose sont une ruse courante pour vous pousser à les ouvrir.",
+  'analysis.mismatch.plain': 'sans extension',
+  'analysis.finding.DANGER': 'Risque élevé : {title}.',
+  'analysis.finding.CAUTION': 'Prudence : {title}.',
+  'analysis.rule.explanation': "Ce fichier correspond à l'une des règles de détection de contenu suspect.",
+  'analysis.blocklist.verdict': 'Risque élevé : fichier malveillant connu.',
+  'analysis.blocklist.explanation': "Ce fichier exact figure sur votre liste de blocage. Quelle que soit son apparence, il a déjà été identifié comme nuisible.",
+  'analysis.blocklist.explanationLabelled': "Ce fichier exact figure sur votre liste de blocage sous le nom « {label} ». Quelle que soit son apparence, il a déjà été identifié comme nuisible.",
+  'analysis.allowlist.verdict': 'Fiable : ce fichier figure sur votre liste autorisée.',
+  'analysis.allowlist.explanation': 'Ce fichier exact figure sur votre liste autorisée, il est donc marqué comme sûr. Sans elle, il aurait été classé {verdict} : {previous}',
+  'analysis.allowlist.explanationLabelled': 'Ce fichier exact figure sur votre liste autorisée sous le nom « {label} », il est donc marqué comme sûr. Sans elle, il aurait été classé {verdict} : {previous}',
+  'analysis.allowlist.also': 'Il figure aussi sur votre liste autorisée.',
+  'analysis.count.link.one': '{count} lien',
+  'analysis.count.link.other': '{count} liens',
+  'analysis.count.attachment.one': '{count} pièce jointe',
+  'analysis.count.attachment.other': '{count} pièces jointes',
+
+  'advice.openWithViewer': "Vous pouvez ouvrir ce fichier avec n'importe quel lecteur compatible.",
+  'advice.keepUpdated': 'Gardez toujours vos logiciels à jour.',
+  'advice.antivirus': 'Analysez ce fichier avec un antivirus dédié.',
+  'advice.notAsAdmin': "Ne l'exécutez pas en tant qu'administrateur.",
+  'advice.checkSignature': 'Vérifiez la signature numérique si possible.',
+  'advice.reviewFileList': "Consultez la liste des fichiers ci-dessous avant d'extraire.",
+  'advice.extractOnlyNeeded': "N'extrayez que les fichiers dont vous avez vraiment besoin.",
+  'advice.updateZipTool': "Assurez-vous que votre outil d'archivage est à jour.",
+  'advice.openArchiveFirst': "Ouvrez l'archive pour voir son contenu avant d'extraire.",
+  'advice.confirmSender': "Si le message demande de l'argent, des mots de passe ou d'agir vite, vérifiez auprès de l'expéditeur par un autre moyen.",
+  'advice.typeLinks': "Ouvrez les liens en saisissant vous-même l'adresse du site.",
+  'advice.expectedAttachments': "N'ouvrez que les pièces jointes que vous attendiez.",
+  'advice.typeAddress': "Saisissez vous-même l'adresse du site plutôt que de suivre les liens des messages.",
+  'advice.checkAddressBar': "Vérifiez la barre d'adresse avant de saisir un mot de passe.",
+  'advice.privateWindow': "Ouvrez-le dans une fenêtre de navigation privée si vous ne connaissez pas l'expéditeur.",
+  'advice.noPasswordsInAttachments': 'Ne saisissez jamais de mot de passe dans une page reçue en pièce jointe.',
+  'advice.anyImageViewer': "Vous pouvez ouvrir cette image avec n'importe quelle visionneuse.",
+  'advice.keepMacrosDisabled': "Laissez les macros désactivées lorsque vous ouvrez des documents d'autres personnes.",
+  'advice.noDoubleClick': "N'ouvrez pas ce fichier par un double-clic.",
+  'advice.askSender': "Demandez à l'expéditeur ce que ce fichier est censé être.",
+  'advice.stripMetadata': 'Supprimez les métadonnées avant de partager ce fichier.',
+  'advice.onlyIfTrusted': "N'ouvrez pas ce fichier si vous n'avez pas confiance en sa provenance.",
+  'advice.doNotOpen': "N'ouvrez pas ce fichier.",
+  'advice.deleteIt': 'Supprimez-le et videz la corbeille.',
+  'advice.tellSecurityTeam': "Indiquez à votre équipe de sécurité d'où il provient.",
+  'advice.findingsKept': 'Les constats ci-dessous sont conservés pour référence.',
+  'advice.removeFromAllowlist': "Retirez le hash de votre liste autorisée si vous ne faites plus confiance à ce fichier.",
+
+  'app.language': 'Langue',
+  'app.stage.reading': 'Lecture du fichier',
+  'app.stage.rules': 'Application des règles',
+  'app.stage.hashing': 'Calcul des empreintes',
+  'app.stage.parsing': 'Analyse de la structure',
+  'app.stage.ai': "Interrogation de l'IA",
+  'app.stage.starting': "Démarrage de l'analyse",
+  'app.error.analysis': "Un problème est survenu pendant l'analyse. Veuillez réessayer.",
+  'app.error.batchItem': "L'analyse a échoué",
+  'app.drop.title': 'Déposez des fichiers ou des dossiers à analyser',
+  'app.drop.subtitle': 'Rien ne quitte votre appareil',
+  'app.nav.pro': 'IA PRO ACTIVE',
+  'app.nav.free': 'MODE SIGNATURES GRATUIT',
+  'app.nav.keyLocked': 'Votre clé enregistrée est verrouillée',
+  'app.nav.unlockKey': 'DÉVERROUILLER LA CLÉ',
+  'app.nav.history': 'Historique des analyses',
+  'app.nav.settings': 'Paramètres et clé API',
+  'app.settings.title': "Configuration de l'IA",
+  'app.settings.intro': "OmniAnalyze fonctionne {free} grâce aux signatures locales. Pour une analyse approfondie du contenu et le chat IA, fournissez votre propre clé API Gemini ou un modèle auto-hébergé.",
+  'app.settings.free': 'gratuitement',
+  'app.settings.gemini': 'Google Gemini',
+  'app.settings.selfHosted': 'Auto-hébergé',
+  'app.settings.proxyUrl': 'URL du proxy Gemini (facultatif)',
+  'app.settings.proxyHelp': 'Laissez vide pour appeler Google avec votre propre clé. Un proxy garde la clé sur le serveur.',
+  'app.settings.baseUrl': 'URL de base compatible OpenAI',
+  'app.settings.baseUrlHelp': 'Ollama, le serveur llama.cpp, vLLM ou tout serveur exposant /chat/completions.',
+  'app.settings.serverKey': 'Clé API du serveur (facultatif)',
+  'app.settings.serverKeyPlaceholder': "Laissez vide si elle n'est pas requise",
+  'app.settings.model': 'Modèle',
+  'app.settings.inlineLimit': "Envoyer en entier jusqu'à (Mo)",
+  'app.settings.uploadLimit': "Ignorer l'IA au-delà de (Mo)",
+  'app.settings.limitsHelp': "Les fichiers plus volumineux sont envoyés sous forme d'en-têtes, de chaînes et d'extraits échantillonnés plutôt qu'en entier.",
+  'app.settings.activatePro': 'Activer le mode Pro',
+  'app.settings.switchFree': 'Passer au mode gratuit',
+  'app.idle.badge': 'Inspecteur de fichiers universel',
+  'app.idle.title': 'Vérifiez la sécurité',
+  'app.idle.titleAccent': "de tout, à l'instant.",
+  'app.idle.subtitle': "Envoyez n'importe quel fichier et je vous dirai s'il est dangereux ou ce qu'il contient. Fonctionne avec ou sans IA.",
+  'app.idle.choose': 'Choisir des fichiers',
+  'app.idle.dropToScan': 'Déposez pour analyser',
+  'app.idle.hint': "Ou déposez-les n'importe où • Collez avec Ctrl+V",
+  'app.idle.folder': 'Analyser un dossier entier',
+  'app.idle.paste': 'Coller du texte ou un lien',
+  'app.loading.withAi': "Inspection approfondie avec l'IA.",
+  'app.loading.locally': 'Inspection approfondie en local.',
+  'app.cancel': 'Annuler',
+  'app.error.title': 'Analyse interrompue',
+  'app.error.retry': 'Réessayer',
+  'app.batch.again': "Analyser d'autres fichiers",
+  'app.result.backToBatch': 'Retour aux résultats du lot',
+  'app.result.modeAi': 'IA approfondie',
+  'app.result.modeLocal': 'Analyse par signatures',
+  'app.result.policy': 'Politique {name}',
+  'app.result.policyUnchanged': "Le profil n'a rien changé pour ce fichier.",
+  'app.tab.overview': 'Aperçu',
+  'app.tab.preview': 'Prévisualisation',
+  'app.tab.technical': 'Technique',
+  'app.result.summary': "Résumé de l'analyse",
+  'app.result.recommendations': 'Recommandations',
+  'app.result.findings': 'Constats',
+  'app.result.privacy': 'Confidentialité',
+  'app.result.line': 'Ligne {line}',
+  'app.result.matchedRules': 'Règles déclenchées',
+  'app.chat.title': 'Assistant de fichiers OmniAI',
+  'app.chat.pro': 'Contexte Pro',
+  'app.chat.local': 'Réponses locales • Sans IA',
+  'app.chat.emptyLocal': "Demandez pourquoi ce fichier a été signalé, quelles URL il contient, s'il est signé ou ce que contient une archive.",
+  'app.chat.emptyTooLarge': "Ce fichier dépasse la taille limite de l'IA, il n'y a donc rien à discuter.",
+  'app.chat.emptyPro': "Posez-moi n'importe quelle question sur le contenu de ce fichier.",
+  'app.chat.emptyNoFile': "Cette analyse passée n'a pas conservé son fichier, il n'y a donc rien à discuter.",
+  'app.chat.thinking': 'Réflexion...',
+  'app.chat.placeholder': 'Posez une question sur ce fichier...',
+  'app.chat.needsFile': "Le chat a besoin du fichier d'origine",
+  'app.chat.stop': 'Arrêter la réponse',
+  'app.chat.noCommentary': "J'ai analysé cela, mais je n'ai pas de commentaire particulier.",
+  'app.chat.stopped': '_Arrêté._',
+  'app.chat.cutOff': "_La réponse a été interrompue : la connexion à l'IA a échoué._",
+  'app.chat.failed': "La session IA a expiré ou la clé API n'est pas valide. Vérifiez vos paramètres.",
+  'app.upsell.title': "Débloquez l'analyse approfondie par IA",
+  'app.upsell.body': "Passez au mode Pro pour utiliser Google Gemini ou votre propre modèle auto-hébergé pour l'inspection approfondie du contenu, la détection de code suspect et un chat capable de répondre à tout sur le contenu lui-même.",
+  'app.upsell.button': 'Configurer ma clé API',
+  'app.footer.linkedin': 'Profil LinkedIn',
+  'app.footer.engine': 'Moteur de signatures respectueux de la vie privée',
+  'app.footer.tagline': 'OmniAnalyze • Créé en 2026 • Protéger les actifs numériques',
+
+  // Findings: file checks
+  'finding.unknownError': 'erreur inconnue',
+  'finding.signature-mismatch.title': "L'extension du fichier ne correspond pas à son contenu",
+  'finding.signature-mismatch.executable': 'Exécutable déguisé en un autre type de fichier',
+  'finding.signature-mismatch.description': "Le nom indique {declared}, mais les octets d'en-tête du fichier l'identifient comme {type} ({evidence}).",
+  'finding.signature-mismatch.noExtension': 'sans extension',
+  'finding.hash-lookup-failed.title': "Impossible de consulter les listes d'empreintes",
+  'finding.hash-lookup-failed.description': "Votre liste de blocage et votre liste d'autorisation n'ont pas pu être lues, ce fichier n'a donc pas été comparé avec elles ({error}).",
+  'finding.hash-blocklist.title': 'Fichier malveillant connu',
+  'finding.hash-blocklist.description': "L'empreinte {algorithm} de ce fichier figure dans votre liste de blocage (importée depuis {source}).",
+  'finding.hash-blocklist.descriptionLabelled': "L'empreinte {algorithm} de ce fichier figure dans votre liste de blocage sous « {label} » (importée depuis {source}).",
+  'finding.hash-allowlist.title': "Dans votre liste d'autorisation",
+  'finding.hash-allowlist.description': "L'empreinte {algorithm} de ce fichier figure dans votre liste d'autorisation (importée depuis {source}).",
+  'finding.hash-allowlist.descriptionLabelled': "L'empreinte {algorithm} de ce fichier figure dans votre liste d'autorisation sous « {label} » (importée depuis {source}).",
+  'finding.email-unreadable.title': "Impossible de lire l'e-mail",
+  'finding.email-unreadable.description': 'La structure du message est endommagée ou volontairement malformée ({error}).',
+  'finding.document-unreadable.title': 'Impossible de lire entièrement le document',
+  'finding.document-unreadable.description': 'La structure interne du document est endommagée ou volontairement malformée ({error}).',
+  'finding.archive-unreadable.title': "Impossible de lire l'archive",
+  'finding.archive-unreadable.description': "La liste des fichiers de l'archive est endommagée ou volontairement malformée ({error}).",
+
+  // Findings: documents
+  'finding.pdf-javascript-autorun.title': "Exécute du JavaScript à l'ouverture",
+  'finding.pdf-javascript-autorun.description': "Le PDF contient du JavaScript associé à une action automatique : le code s'exécute dès que vous l'ouvrez. Les documents ordinaires n'en ont pas besoin.",
+  'finding.pdf-javascript.title': 'Contient du JavaScript',
+  'finding.pdf-javascript.description': "Le PDF contient du JavaScript. Les formulaires l'utilisent parfois, mais il sert aussi à attaquer les lecteurs PDF.",
+  'finding.pdf-launch.title': 'Peut lancer des programmes sur votre ordinateur',
+  'finding.pdf-launch.description': "Une action /Launch demande à votre lecteur PDF d'exécuter un autre programme ou une commande.",
+  'finding.pdf-embedded-executable.title': 'Contient un programme caché',
+  'finding.pdf-embedded-executable.description': 'Le PDF contient une pièce jointe qui est un programme : {names}.',
+  'finding.pdf-embedded-file.title': 'Contient des pièces jointes',
+  'finding.pdf-embedded-file.description': 'Le PDF contient des fichiers joints. Vérifiez-les avant de les ouvrir.',
+  'finding.pdf-embedded-file.descriptionNamed': 'Le PDF contient les pièces jointes : {names}. Vérifiez-les avant de les ouvrir.',
+  'finding.pdf-submit-form.title': 'Envoie des données de formulaire sur Internet',
+  'finding.pdf-submit-form.description': 'Un formulaire de ce PDF peut envoyer ce que vous saisissez à une adresse web.',
+  'finding.pdf-rich-media.title': 'Intègre du Flash ou du contenu multimédia',
+  'finding.pdf-rich-media.description': 'Le contenu multimédia des PDF a longtemps servi à attaquer les lecteurs PDF.',
+  'finding.pdf-xfa.title': 'Utilise des formulaires XFA',
+  'finding.pdf-xfa.description': 'Le PDF utilise des formulaires XML dynamiques, qui acceptent des scripts dans certains lecteurs.',
+  'finding.pdf-links.title.one': 'Contient {count} lien web',
+  'finding.pdf-links.title.other': 'Contient {count} liens web',
+  'finding.pdf-links.description': 'Cliquer sur les liens de ce document ouvre : {links}.',
+  'finding.pdf-obfuscated-names.title': 'Mots-clés PDF déguisés',
+  'finding.pdf-obfuscated-names.description': "Les mots-clés du PDF sont écrits avec des codes d'échappement (comme /J#61vaScript) pour échapper aux analyseurs.",
+  'finding.office-macro-autoexec.title': "La macro s'exécute automatiquement",
+  'finding.office-macro-autoexec.description': "Le document contient des macros VBA avec une routine d'exécution automatique ({routine}) : le code s'exécute dès que les macros sont activées.",
+  'finding.office-macro-hidden.title': 'Macros cachées',
+  'finding.office-macro-hidden.description': 'Des macros sont cachées dans un fichier .{ext}, un format qui ne devrait pas en contenir.',
+  'finding.office-macro.title': 'Contient des macros',
+  'finding.office-macro.description': 'Le document contient des macros VBA. Ne cliquez pas sur « Activer le contenu » sauf si vous attendiez des macros de cet expéditeur.',
+  'finding.office-xlm-macro.title': 'Macros Excel 4.0',
+  'finding.office-xlm-macro.description': "Le classeur contient d'anciennes feuilles de macros Excel 4.0, que les attaquants utilisent parce que de nombreux analyseurs les ignorent.",
+  'finding.office-remote-template.title': "Charge du contenu depuis Internet à l'ouverture",
+  'finding.office-remote-template.description': "Le document télécharge un {part} distant depuis {target}, un moyen connu d'introduire des macros après l'analyse du fichier.",
+  'finding.office-remote-template.template': 'modèle',
+  'finding.office-remote-ole.title': 'Lien vers un objet distant',
+  'finding.office-remote-ole.description': "Un objet incorporé est chargé depuis {target} à l'ouverture du document.",
+  'finding.office-ole-object.title': 'Objets incorporés',
+  'finding.office-ole-object.description': "Le document incorpore des objets OLE. Ils peuvent contenir des programmes qui s'exécutent par double-clic.",
+  'finding.office-ole-object.descriptionCounted.one': "Le document incorpore {count} objet OLE ({names}). Il peut contenir des programmes qui s'exécutent par double-clic.",
+  'finding.office-ole-object.descriptionCounted.other': "Le document incorpore {count} objets OLE ({names}). Ils peuvent contenir des programmes qui s'exécutent par double-clic.",
+  'finding.office-activex.title': 'Contrôles ActiveX',
+  'finding.office-activex.description': 'Le document contient des contrôles ActiveX, qui peuvent exécuter du code sous Windows.',
+  'finding.office-dde.title': 'Exécute des commandes via DDE',
+  'finding.office-dde.description': "Un champ DDE peut lancer des programmes à l'ouverture du document ou à la mise à jour de ses liens.",
+  'finding.office-encrypted.title': 'Protégé par mot de passe',
+  'finding.office-encrypted.description': "Le document est chiffré, son contenu n'a donc pas pu être vérifié.",
+  'finding.office-unreadable.title': 'Structure du document endommagée',
+  'finding.office-unreadable.description': "La table interne des fichiers du document n'a pas pu être lue, ce qui peut indiquer une falsification.",
+
+  // Findings: archives
+  'finding.archive-bomb.title': 'Bombe zip probable',
+  'finding.archive-bomb.description': "L'archive prétend passer de {packed} à {unpacked} octets une fois décompressée, de quoi saturer votre disque ou votre antivirus.",
+  'finding.archive-bomb.descriptionEntry': "« {path} » se décompresse {ratio}x (jusqu'à {size} octets), bien au-delà d'une compression normale.",
+  'finding.archive-bomb.descriptionOverrun': "« {path} » a continué de se décompresser au-delà de la limite d'inspection alors qu'il annonçait {size} octets.",
+  'finding.archive-path-traversal.title': "Traversée de répertoires dans l'archive",
+  'finding.archive-path-traversal.description': "« {path} » serait écrit hors du dossier d'extraction, ce qui peut écraser des fichiers système ou de démarrage.",
+  'finding.archive-double-extension.title': "Nom de fichier déguisé dans l'archive",
+  'finding.archive-double-extension.description': "« {name} » utilise une double extension pour ressembler à un {type} alors qu'il s'agit d'un programme.",
+  'finding.archive-executable.title': "Exécutable dans l'archive : {name}",
+  'finding.archive-entry.title': "Fichier signalé dans l'archive : {name}",
+  'finding.archive-entry.description': '{path} : {verdict}',
+  'finding.archive-entry.more.title.one': "{count} autre fichier signalé dans l'archive",
+  'finding.archive-entry.more.title.other': "{count} autres fichiers signalés dans l'archive",
+  'finding.archive-entry.more.description': 'Consultez la liste des fichiers pour voir chaque entrée et son verdict.',
+  'finding.archive-encrypted.title': 'Fichiers protégés par mot de passe',
+  'finding.archive-encrypted.description.one': "{count} fichier est chiffré et n'a pas pu être vérifié. Les attaquants chiffrent souvent les archives pour échapper aux analyseurs.",
+  'finding.archive-encrypted.description.other': "{count} fichiers sont chiffrés et n'ont pas pu être vérifiés. Les attaquants chiffrent souvent les archives pour échapper aux analyseurs.",
+
+  // Notes on archive entries and email attachments
+  'note.passwordProtected': 'Protégé par mot de passe',
+  'note.tooDeep': 'Imbriqué trop profondément pour être inspecté',
+  'note.limitReached': "Ignoré : limite d'inspection atteinte",
+  'note.expandsPastLimit': "Se décompresse au-delà de la limite d'inspection de {size} Mo",
+  'note.unreadable': 'Illisible',
+  'note.outlookItem': 'Élément Outlook incorporé : non inspecté',
+  'note.noData': 'Aucune donnée de pièce jointe',
+
+  // Findings: email
+  'finding.email-dmarc-fail.title': "L'expéditeur a échoué au contrôle DMARC",
+  'finding.email-dmarc-fail.description': "Le serveur de messagerie destinataire a signalé que ce message a échoué au contrôle DMARC : il ne provient très probablement pas de l'expéditeur annoncé.",
+  'finding.email-dmarc-fail.descriptionFor': "Le serveur de messagerie destinataire a signalé que ce message a échoué au contrôle DMARC pour {detail} : il ne provient très probablement pas de l'expéditeur annoncé.",
+  'finding.email-auth-fail.title': "Échec des contrôles de l'expéditeur",
+  'finding.email-auth-fail.description': 'Le serveur de messagerie destinataire a signalé : {results}. Le message ne provient peut-être pas du serveur annoncé.',
+  'finding.email-auth-fail.result': '{method} {result}',
+  'finding.email-auth-fail.resultFor': '{method} {result} pour {detail}',
+  'finding.email-auth-missing.title': "Aucun résultat d'authentification de l'expéditeur",
+  'finding.email-auth-missing.description': "Le message n'a pas d'en-tête Authentication-Results, on ne peut donc pas confirmer que l'expéditeur est authentique. Les copies collées ou enregistrées depuis certaines messageries le perdent.",
+  'finding.email-reply-to-mismatch.title': 'Les réponses partent vers un autre domaine',
+  'finding.email-reply-to-mismatch.description': 'Le message vient de {from}, mais les réponses partent vers {replyTo}. Les escrocs procèdent ainsi pour que votre réponse leur parvienne.',
+  'finding.email-return-path-mismatch.title': 'Les retours partent vers un autre domaine',
+  'finding.email-return-path-mismatch.description': "Les échecs de remise partent vers {returnPath}, et non {domain}. Les services d'envoi en masse le font souvent pour le compte de l'expéditeur.",
+  'finding.email-return-path-mismatch.descriptionUnverified': 'Les échecs de remise partent vers {returnPath}, et non {domain}. Comme DMARC échoue, rien ne relie les deux.',
+  'finding.email-display-name-spoof.title': "Le nom de l'expéditeur affiche une autre adresse",
+  'finding.email-display-name-spoof.description': "Le nom de l'expéditeur indique « {name} », mais le message vient de {address}.",
+  'finding.email-display-name-brand.title': "Le nom de l'expéditeur invoque une marque",
+  'finding.email-display-name-brand.description': "L'expéditeur se présente comme « {name} », mais le message vient de {domain}, qui n'appartient pas à {brand}.",
+  'finding.email-sender-lookalike.title': "Le domaine de l'expéditeur en imite un autre",
+  'finding.email-sender-lookalike.description': "{domain} imite {detail}. Les domaines d'expéditeur ressemblants servent à se faire passer pour quelqu'un de confiance.",
+  'finding.email-sender-lookalike.descriptionHomoglyph': "{domain} utilise {detail}. Les domaines d'expéditeur ressemblants servent à se faire passer pour quelqu'un de confiance.",
+  'finding.email-link-mismatch.title': "Les liens mènent ailleurs que ce qu'ils affichent",
+  'finding.email-link-mismatch.description': "{links}. Afficher une adresse tout en pointant vers une autre est une ruse classique d'hameçonnage.",
+  'finding.email-link-mismatch.item': '« {text} » mène à {host}',
+  'finding.email-attachment-executable.title': 'Programme en pièce jointe : {name}',
+  'finding.email-attachment.title': 'Pièce jointe signalée : {name}',
+  'finding.email-attachment.description': '{name} : {verdict}',
+  'finding.email-attachment.more.title.one': '{count} autre pièce jointe signalée',
+  'finding.email-attachment.more.title.other': '{count} autres pièces jointes signalées',
+  'finding.email-attachment.more.description': 'Consultez la liste des pièces jointes pour voir chaque fichier et son verdict.',
+
+  // Lists inside findings
+  'list.comma': '{head}, {item}',
+  'list.semicolon': '{head} ; {item}',
+  'list.more': '{list} et {count} autres',
+
+  // Findings: links
+  'finding.url-lookalike.title': 'Lien vers un domaine ressemblant',
+  'finding.url-lookalike.description.one': '{hosts} imite un nom connu avec des lettres échangées ou étrangères. Les domaines ressemblants servent à voler des identifiants.',
+  'finding.url-lookalike.description.other': '{hosts} imitent un nom connu avec des lettres échangées ou étrangères. Les domaines ressemblants servent à voler des identifiants.',
+  'finding.url-homoglyph.title': 'Le lien utilise des caractères trompeurs',
+  'finding.url-homoglyph.description.one': "{hosts} utilise des caractères d'autres alphabets qui ressemblent à des lettres ordinaires : l'adresse n'est peut-être pas celle qu'elle paraît.",
+  'finding.url-homoglyph.description.other': "{hosts} utilisent des caractères d'autres alphabets qui ressemblent à des lettres ordinaires : l'adresse n'est peut-être pas celle qu'elle paraît.",
+  'finding.url-credentials.title': 'Le lien cache sa vraie destination',
+  'finding.url-credentials.description': "Tout ce qui précède « @ » dans un lien est un nom d'utilisateur, pas le site. Le lien mène à {hosts}.",
+  'finding.url-brand-subdomain.title': 'Le lien place un domaine connu devant un autre',
+  'finding.url-brand-subdomain.description.one': "{hosts} commence par un domaine connu, mais c'est la fin du nom qui détermine le site.",
+  'finding.url-brand-subdomain.description.other': "{hosts} commencent par un domaine connu, mais c'est la fin du nom qui détermine le site.",
+  'finding.url-ip-host.title': 'Lien vers une simple adresse IP',
+  'finding.url-ip-host.description': "Les liens vers {hosts} se passent entièrement de nom de domaine. Les services légitimes n'en envoient presque jamais.",
+  'finding.url-shortener.title': 'Lien raccourci',
+  'finding.url-shortener.description': "Les liens passant par {hosts} cachent leur vraie destination jusqu'au clic.",
+  'finding.url-suspicious-tld.title': 'Lien vers une terminaison de domaine à risque',
+  'finding.url-suspicious-tld.description.one': "{hosts} utilise une terminaison de domaine bon marché et courante dans l'hameçonnage.",
+  'finding.url-suspicious-tld.description.other': "{hosts} utilisent une terminaison de domaine bon marché et courante dans l'hameçonnage.",
+  'url.hostDetail': '{host} ({detail})',
+  'url.notUser': '{host}, et non {user}',
+  'url.writtenAs': 'écrit {host}',
+  'url.mixedAlphabets': 'alphabets mélangés',
+  'url.imitatingLetters': "lettres imitant l'alphabet latin",
+
+  // Findings: programs
+  'finding.exe-injection-imports.title': "Peut injecter du code dans d'autres programmes",
+  'finding.exe-injection-imports.description': 'Importe {names}, les fonctions utilisées pour cacher du code malveillant dans des processus légitimes.',
+  'finding.exe-suspicious-imports.title': 'Utilise des fonctions système sensibles',
+  'finding.exe-suspicious-imports.description': 'Importe {imports}.',
+  'finding.exe-suspicious-imports.item': '{name} ({purpose})',
+  'finding.exe-packed.title': 'Compressé avec {packers}',
+  'finding.exe-packed.description': "Le vrai code du programme est compressé ou chiffré et ne se décompresse qu'à l'exécution, ce qui le cache à l'inspection.",
+  'finding.exe-high-entropy.title': 'Code chiffré ou compressé',
+  'finding.exe-high-entropy.description.one': 'La section de code {sections} semble aléatoire, signe de compression ou de chiffrement.',
+  'finding.exe-high-entropy.description.other': 'Les sections de code {sections} semblent aléatoires, signe de compression ou de chiffrement.',
+  'finding.exe-high-entropy.section': '{name} (entropie {entropy})',
+  'finding.exe-wx-section.title': 'Sections de code auto-modifiant',
+  'finding.exe-wx-section.description.one': 'La section {sections} est à la fois accessible en écriture et exécutable.',
+  'finding.exe-wx-section.description.other': 'Les sections {sections} sont à la fois accessibles en écriture et exécutables.',
+  'finding.exe-few-imports.title': "Cache les fonctions système qu'il utilise",
+  'finding.exe-few-imports.description.one': "Seulement {count} fonction importée, avec des données qui semblent chiffrées ; les vraies importations sont probablement résolues à l'exécution.",
+  'finding.exe-few-imports.description.other': "Seulement {count} fonctions importées, avec des données qui semblent chiffrées ; les vraies importations sont probablement résolues à l'exécution.",
+  'finding.exe-signature.title': 'Signé numériquement',
+  'finding.exe-signature.description': "Un certificat de signature de code est joint. Vérifiez dans les propriétés du fichier sous Windows qu'il est valide et provient de l'éditeur attendu.",
+  'finding.exe-unsigned.title': 'Pas de signature numérique',
+  'finding.exe-unsigned.description': "Aucun certificat de signature de code n'est joint, l'éditeur ne peut donc pas être vérifié.",
+  'finding.exe-unparsed.title': 'Structure du programme illisible',
+  'finding.exe-unparsed.description': "Le fichier commence comme un programme, mais ses en-têtes sont tronqués ou endommagés : ses sections, ses importations et sa signature n'ont donc pas été vérifiées.",
+  'finding.exe.unnamedSection': '(sans nom)',
+  'import.allocateExecutable': 'allouer de la mémoire exécutable',
+  'import.allocateRemote': 'allouer de la mémoire dans un autre programme',
+  'import.makeExecutable': 'rendre la mémoire exécutable',
+  'import.writeProgram': 'écrire dans un autre programme',
+  'import.startRemote': 'lancer du code dans un autre programme',
+  'import.hijackThread': "détourner le thread d'un autre programme",
+  'import.hollow': 'vider un autre programme',
+  'import.watchInput': 'surveiller le clavier ou la souris',
+  'import.readKeys': 'lire les frappes au clavier',
+  'import.download': 'télécharger des fichiers',
+  'import.runPrograms': "exécuter d'autres programmes",
+  'import.detectAnalysis': "détecter les outils d'analyse",
+  'import.raisePrivileges': 'élever ses propres privilèges',
+  'import.encrypt': 'chiffrer des données',
+  'import.controlProcesses': "contrôler d'autres processus",
+  'import.writeProcess': 'écrire dans un autre processus',
+  'import.memoryOnly': 'exécuter du code uniquement depuis la mémoire',
+
+  // Findings: images
+  'finding.image-gps.title': 'La photo révèle où elle a été prise',
+  'finding.image-gps.description': "Les métadonnées {format} contiennent une position GPS ({position}). Toute personne à qui vous partagez l'original peut voir où elle a été prise. L'onglet Aperçu peut télécharger une copie sans cette position pour les JPEG et PNG.",
+  'finding.image-identifying-metadata.title': 'Appareil, auteur et autres métadonnées',
+  'finding.image-identifying-metadata.description': "Les métadonnées enregistrent : {names}. Elles peuvent identifier l'appareil ou la personne qui a créé l'image, et quand.",
+  'finding.image.bytes.one': '{count} octet',
+  'finding.image.bytes.other': '{count} octets',
+  'finding.image.trailing': '{size} suivent le marqueur de fin {format} à la position {offset}',
+  'finding.image-appended-executable.title': "Programme caché derrière l'image",
+  'finding.image-appended-executable.description': "{where}, et leur en-tête correspond au format {type} ({evidence}). Les visionneuses ignorent tout ce qui suit la fin d'une image, c'est ainsi que des programmes sont introduits.",
+  'finding.image-appended-camera-data.title': "Données d'appareil supplémentaires derrière l'image",
+  'finding.image-appended-camera-data.description': "{where}. Leur en-tête correspond au format {type}, celui des « photos animées » des téléphones. C'est généralement sans danger, mais ces données accompagnent la photo.",
+  'finding.image-appended-camera-data.descriptionSamsung': "{where}. Il s'agit d'un bloc final d'appareil photo Samsung. C'est généralement sans danger, mais ces données accompagnent la photo.",
+  'finding.image-appended-archive.title': "Archive cachée derrière l'image",
+  'finding.image-appended-data.title': "Données cachées après la fin de l'image",
+  'finding.image-appended-data.description': "{where}. Elles ne font pas partie de l'image. Les visionneuses les ignorent, elles peuvent donc transporter des fichiers ou des messages cachés.",
+  'finding.image-appended-data.descriptionTyped': '{where}. Leur en-tête correspond au format {type}. Les visionneuses les ignorent, elles peuvent donc transporter des fichiers ou des messages cachés.',
+  'finding.image-zip-polyglot.title': "L'image est aussi une archive ZIP",
+  'finding.image-zip-polyglot.titlePrograms': "L'image est aussi une archive ZIP contenant des programmes",
+  'finding.image-zip-polyglot.description.one': "Le fichier s'ouvre à la fois comme image et comme archive ZIP de {count} fichier. Les fichiers conçus pour être deux choses à la fois servent à faire passer des archives à travers les filtres d'envoi.",
+  'finding.image-zip-polyglot.description.other': "Le fichier s'ouvre à la fois comme image et comme archive ZIP de {count} fichiers. Les fichiers conçus pour être deux choses à la fois servent à faire passer des archives à travers les filtres d'envoi.",
+  'finding.image-zip-polyglot.descriptionPrograms.one': "Le fichier s'ouvre à la fois comme image et comme archive ZIP de {count} fichier, dont {programs}. Les fichiers conçus pour être deux choses à la fois servent à faire passer des archives à travers les filtres d'envoi.",
+  'finding.image-zip-polyglot.descriptionPrograms.other': "Le fichier s'ouvre à la fois comme image et comme archive ZIP de {count} fichiers, dont {programs}. Les fichiers conçus pour être deux choses à la fois servent à faire passer des archives à travers les filtres d'envoi.",
+  'finding.image.afterEnd': "après la fin de l'image",
+  'finding.image.inside': "dans l'image ou ses métadonnées",
+  'finding.image-embedded-code.title': "Code de script caché dans l'image",
+  'finding.image-embedded-code.description': "`{code}` a été trouvé {where}. Les vraies images ne contiennent jamais de code ; un serveur ou un navigateur qui prend le fichier pour un script ou une page l'exécutera.",
+  'finding.image-html-polyglot.title': "L'image se lit aussi comme une page web",
+  'finding.image-html-polyglot.description': "Du balisage HTML a été trouvé {where}. Un navigateur qui examine le contenu au lieu de se fier au type de fichier peut l'afficher comme une page.",
+  'finding.image-large-comment.title': "Commentaire d'image anormalement volumineux",
+  'finding.image-large-comment.description': "Le {segment} contient {size}. Les commentaires font d'habitude une ou deux lignes ; autant de place sert à cacher des données ou du code.",
+  'finding.image-large-comment.descriptionOthers.one': "Le {segment} contient {size}, et {count} autre est aussi trop volumineux. Les commentaires font d'habitude une ou deux lignes ; autant de place sert à cacher des données ou du code.",
+  'finding.image-large-comment.descriptionOthers.other': "Le {segment} contient {size}, et {count} autres sont aussi trop volumineux. Les commentaires font d'habitude une ou deux lignes ; autant de place sert à cacher des données ou du code.",
+  'finding.image-large-comment.segment': 'segment de commentaire',
+  'finding.image-large-comment.chunk': 'bloc de texte « {name} »',
+  'finding.image-unknown-chunks.title': 'Blocs PNG non standard',
+  'finding.image-unknown-chunks.description.one': "L'image contient le bloc {types} ({size}), que les visionneuses standard ignorent. Les éditeurs ajoutent parfois les leurs, mais les gros blocs peuvent contenir des données cachées.",
+  'finding.image-unknown-chunks.description.other': "L'image contient les blocs {types} ({size}), que les visionneuses standard ignorent. Les éditeurs ajoutent parfois les leurs, mais les gros blocs peuvent contenir des données cachées.",
+
+  // Findings: web content
+  'finding.web-svg-script.title': 'Script caché dans une image',
+  'finding.web-svg-script.description': "Les images SVG ne contiennent normalement que des instructions de dessin. Celle-ci contient un script qui s'exécute quand l'image est ouverte dans un navigateur.",
+  'finding.web-svg-handler.title': "L'image exécute du code via des événements",
+  'finding.web-svg-handler.description': "Un élément SVG possède un gestionnaire d'événements (comme onload) qui exécute du JavaScript à l'affichage de l'image.",
+  'finding.web-svg-foreign-object.title': 'Page web intégrée dans une image',
+  'finding.web-svg-foreign-object.description': 'Le SVG intègre du HTML via <foreignObject>, utilisé pour dessiner de faux formulaires de connexion dans des images.',
+  'finding.web-eval-decode.title': 'Exécute du code caché décodé',
+  'finding.web-eval-decode.description': "Décode une chaîne cachée et l'exécute aussitôt, la façon la plus courante pour les scripts malveillants de masquer ce qu'ils font.",
+  'finding.web-eval.title': "Exécute du code construit à l'exécution",
+  'finding.web-eval.description': 'Utilise eval() ou new Function() pour exécuter du code assemblé à partir de chaînes, ce qui rend le vrai comportement du script difficile à voir.',
+  'finding.web-string-timer.title': "Exécute du code à partir d'une chaîne de texte",
+  'finding.web-string-timer.description': 'Passe une chaîne de code à setTimeout ou setInterval, ce qui fonctionne comme eval().',
+  'finding.web-hex-escapes.title': 'Texte obscurci',
+  'finding.web-hex-escapes.description': "Une longue suite de codes d'échappement \\x ou \\u cache du texte lisible à quiconque regarde le fichier.",
+  'finding.web-charcode.title': 'Texte assemblé à partir de codes de caractères',
+  'finding.web-charcode.description': "Construit une chaîne à partir d'une liste de codes numériques de caractères, une ruse utilisée pour cacher des URL et du code.",
+  'finding.web-base64-blob.title': 'Gros bloc encodé',
+  'finding.web-base64-blob.description': "Une longue chaîne encodée en base64 est intégrée au code. Des pages l'utilisent pour faire passer des fichiers ou des scripts à travers les filtres.",
+  'finding.web-hidden-iframe.title': 'Cadre caché',
+  'finding.web-hidden-iframe.description': 'Charge une autre page dans un cadre invisible, une technique utilisée pour les téléchargements furtifs et la fraude au clic.',
+  'finding.web-external-form.title': 'Envoie des données de formulaire à un autre site',
+  'finding.web-external-form.description': 'Un formulaire envoie ce que vous saisissez à une adresse web externe.',
+  'finding.web-password-form.title': 'Demande un mot de passe',
+  'finding.web-password-form.description': "Un fichier local qui demande un mot de passe et l'envoie ailleurs est presque toujours une page d'hameçonnage. Les vrais sites ne vous envoient jamais leur formulaire de connexion par e-mail.",
+  'finding.web-password-field.title': 'Demande un mot de passe',
+  'finding.web-password-field.description': "Le fichier contient un formulaire de connexion. Rien n'y envoie le mot de passe à un autre site, mais les vrais sites ne vous envoient jamais leur page de connexion par e-mail : ne saisissez un mot de passe que si vous faites confiance à la provenance du fichier.",
+  'finding.web-javascript-url.title': 'Lien qui exécute du code',
+  'finding.web-javascript-url.description': "Un lien ou une ressource utilise une adresse javascript:, qui exécute du code au lieu d'ouvrir une page.",
+  'finding.web-meta-refresh.title': 'Redirection automatique',
+  'finding.web-meta-refresh.description': "La page vous envoie immédiatement vers une autre adresse. Les e-mails d'hameçonnage s'en servent pour vous mener vers un faux site.",
+  'finding.web-script-redirect.title': 'Redirige par script',
+  'finding.web-script-redirect.description': "Un script envoie la page vers une adresse d'un autre site.",
+
+  // Findings: detection rules
+  'rule.matched': 'Correspond à la règle de détection {name}.',
+  'rule.evidence': '{summary} Correspondances : {hits}.',
+  'rule.hit': '{id} à {offset}',
+  'rule.hitRepeated': '{id} à {offset} ({times} fois)',
+
+  // How the final verdict was reached
+  'blend.hashlist': "{finding} Les listes d'empreintes priment sur l'analyse locale et sur l'IA.",
+  'blend.both': "L'analyse locale et l'IA ont toutes deux classé ce fichier {local}.",
+  'blend.localFinding': "L'IA a classé ce fichier {ai}, mais l'analyse locale a trouvé « {title} » et l'a classé {local}. L'IA ne peut pas abaisser un verdict appuyé par des preuves locales.",
+  'blend.local': "L'IA a classé ce fichier {ai}, mais l'analyse locale a trouvé des preuves et l'a classé {local}. L'IA ne peut pas abaisser un verdict appuyé par des preuves locales.",
+  'blend.ai': "L'analyse locale n'a rien trouvé au-delà de {local}, mais l'IA a lu le contenu et l'a classé {ai}. Le verdict le plus strict s'applique.",
+  'opinions.title': 'Deux avis',
+  'opinions.local': 'Analyse locale',
+  'opinions.ai': 'IA',
+  'opinions.reason': 'Comment le verdict final a été établi',
+  'opinions.repaired': "Réponse de l'IA réparée",
+
+  // What the AI was shown
+  'coverage.headline.full': "L'IA a vu le fichier entier.",
+  'coverage.headline.extracted': "L'IA a vu des extraits de ce fichier.",
+  'coverage.headline.skipped': "L'IA n'a pas vu ce fichier.",
+  'coverage.read': '{sent} lus sur {total}.',
+  'coverage.reason.oversized': "Le fichier fait {size}, au-delà de la limite IA de {limit} Mo définie dans les Paramètres : seule l'analyse locale a été effectuée.",
+  'coverage.reason.textBudget': 'Le fichier contient plus de texte que le budget de {chars} caractères du modèle.',
+  'coverage.reason.textOnly': 'Ce modèle ne lit que du texte, le contenu binaire a donc été réduit à ses chaînes imprimables.',
+  'coverage.reason.inlineLimit': "Le fichier dépasse la limite d'envoi direct de {limit}.",
+
+  // Archive contents
+  'archive.title': 'Contenu de cette archive',
+  'archive.summary.one': '{count} entrée • {packed} compressé • {unpacked} décompressé',
+  'archive.summary.other': '{count} entrées • {packed} compressé • {unpacked} décompressé',
+  'archive.truncated': "Certaines entrées dépassaient les limites d'inspection",
+  'archive.column.name': 'Nom',
+  'archive.column.size': 'Taille',
+  'archive.column.ratio': 'Ratio',
+  'archive.column.verdict': 'Verdict',
+  'archive.column.notes': 'Remarques',
+  'archive.unchecked': 'Non vérifié',
+
+  // Email details
+  'email.title': 'Message e-mail',
+  'email.from': 'De',
+  'email.replyTo': 'Répondre à',
+  'email.returnPath': 'Chemin de retour',
+  'email.to': 'À',
+  'email.subject': 'Objet',
+  'email.date': 'Date',
+  'email.auth': "Authentification de l'expéditeur",
+  'email.noAuth': "Aucun en-tête Authentication-Results : l'expéditeur n'a pas pu être confirmé.",
+  'email.links': 'Liens du message',
+  'email.noLinkText': '(sans texte)',
+  'email.actuallyGoesTo': 'Mène en réalité à {href}',
+  'email.attachments': 'Pièces jointes',
+  'email.unchecked': 'Non vérifié',
+
+  // Batch results
+  'batch.title': 'Résultats du lot',
+  'batch.dangerFirst': 'Danger en premier',
+  'batch.failedCount': '{count} en échec',
+  'batch.progress': '{finished} analysés sur {total}…',
+  'batch.done.one': '{count} fichier analysé',
+  'batch.done.other': '{count} fichiers analysés',
+  'batch.column.name': 'Nom',
+  'batch.column.size': 'Taille',
+  'batch.column.type': 'Type',
+  'batch.column.verdict': 'Verdict',
+  'batch.column.finding': 'Constat principal',
+  'batch.failed': 'Échec',
+  'batch.scanning': 'Analyse en cours',
+  'batch.queued': 'En attente',
+
+  // Scan history
+  'history.title': 'Historique des analyses',
+  'history.search': 'Nom ou empreinte...',
+  'history.anyVerdict': 'Tout verdict',
+  'history.from': 'Du',
+  'history.to': 'Au',
+  'history.empty': "Aucune analyse pour l'instant.",
+  'history.off': "L'historique est désactivé.",
+  'history.noMatch': 'Aucune analyse ne correspond à votre recherche.',
+  'history.messages.one': '{count} message',
+  'history.messages.other': '{count} messages',
+  'history.delete': 'Supprimer cette analyse',
+  'history.enabled': 'Conserver un historique de mes analyses',
+  'history.keepFiles': 'Conserver aussi les fichiers eux-mêmes',
+  'history.keepAtMost': 'Conserver au plus',
+  'history.scansFor': 'analyses pendant',
+  'history.days': 'jours',
+  'history.retentionHint': "Avec 0 jour, les analyses sont conservées jusqu'à ce que vous les supprimiez. L'historique ne quitte jamais ce navigateur.",
+  'history.deleteAll.one': 'Supprimer {count} analyse',
+  'history.deleteAll.other': 'Supprimer les {count} analyses',
+  'history.cancel': 'Annuler',
+  'history.clear': "Effacer l'historique",
+
+  // Settings: detection rules
+  'rules.title': 'Règles de détection',
+  'rules.summary.one': '{count} règle intégrée. Importez les vôtres en JSON ou en texte de style YARA.',
+  'rules.summary.other': '{count} règles intégrées. Importez les vôtres en JSON ou en texte de style YARA.',
+  'rules.summaryCustom.one': '{count} règle intégrée + {custom} personnalisées. Importez les vôtres en JSON ou en texte de style YARA.',
+  'rules.summaryCustom.other': '{count} règles intégrées + {custom} personnalisées. Importez les vôtres en JSON ou en texte de style YARA.',
+  'rules.import': 'Importer des règles',
+  'rules.remove': 'Supprimer les règles personnalisées',
+  'rules.imported.one': '{count} règle importée depuis {file}.',
+  'rules.imported.other': '{count} règles importées depuis {file}.',
+  'rules.unreadable': 'Impossible de lire cet ensemble de règles.',
+  'rules.removed': 'Règles personnalisées supprimées.',
+  'rules.invalidSaved': "Vos règles enregistrées ne se chargent plus, seules les règles intégrées s'appliquent : {error}",
+
+  // Settings: hash lists
+  'hashList.title': "Listes d'empreintes",
+  'hashList.intro': "Les fichiers dont le MD5, SHA-1 ou SHA-256 figure dans la liste de blocage sont toujours signalés comme dangereux ; ceux de la liste d'autorisation sont marqués sûrs. Importez du texte brut ou du CSV.",
+  'hashList.block.import': 'Importer une liste de blocage ({count})',
+  'hashList.allow.import': "Importer une liste d'autorisation ({count})",
+  'hashList.block.clear': 'Vider la liste de blocage',
+  'hashList.allow.clear': "Vider la liste d'autorisation",
+  'hashList.block.added.one': '{count} empreinte ajoutée à la liste de blocage depuis {file}.',
+  'hashList.block.added.other': '{count} empreintes ajoutées à la liste de blocage depuis {file}.',
+  'hashList.allow.added.one': "{count} empreinte ajoutée à la liste d'autorisation depuis {file}.",
+  'hashList.allow.added.other': "{count} empreintes ajoutées à la liste d'autorisation depuis {file}.",
+  'hashList.block.cleared': 'Liste de blocage vidée.',
+  'hashList.allow.cleared': "Liste d'autorisation vidée.",
+  'hashList.unreadable': "Impossible de lire cette liste d'empreintes.",
+
+  // Settings: policy profiles
+  'policy.title': 'Profil de stratégie',
+  'policy.intro': "Les profils ajustent les verdicts par type de fichier, taille et constat selon le fonctionnement de votre équipe. Les listes d'empreintes restent prioritaires.",
+  'policy.imported': '{profiles} importé depuis {file}.',
+  'policy.imported.name': '{name} (importé)',
+  'policy.unreadable': 'Impossible de lire ce profil.',
+  'policy.removed': 'Profil supprimé.',
+  'policy.remove': 'Supprimer {name}',
+  'policy.import': 'Importer un profil',
+  'policy.export': 'Exporter {name}',
+
+  // Settings: Gemini key
+  'apiKey.title': "Clé d'API Gemini",
+  'apiKey.proxy': "Les requêtes Gemini passent par {url}, qui ajoute la clé côté serveur. Aucune clé n'est nécessaire dans ce navigateur.",
+  'apiKey.testProxy': 'Tester le proxy',
+  'apiKey.test': 'Tester',
+  'apiKey.source.vault': 'Chiffrée sur cet appareil, déverrouillée',
+  'apiKey.source.session': 'Cette session uniquement, perdue au rechargement',
+  'apiKey.source.legacy': 'Enregistrée en clair par une version précédente',
+  'apiKey.encryptLegacy': 'La chiffrer avec une phrase secrète',
+  'apiKey.lock': 'Verrouiller',
+  'apiKey.replace': 'Remplacer',
+  'apiKey.remove': 'Retirer la clé de cet appareil',
+  'apiKey.lockedIntro': "Votre clé est enregistrée chiffrée. Saisissez sa phrase secrète pour l'utiliser pendant cette session.",
+  'apiKey.passphrase': 'Phrase secrète',
+  'apiKey.unlock': 'Déverrouiller',
+  'apiKey.unlocking': 'Déverrouillage...',
+  'apiKey.useAnother': 'Utiliser une autre clé',
+  'apiKey.placeholder': "Saisissez la clé d'API...",
+  'apiKey.storage.vault': 'Chiffrer et enregistrer',
+  'apiKey.storage.session': 'Cette session uniquement',
+  'apiKey.newPassphrase': 'Phrase secrète (8 caractères ou plus)',
+  'apiKey.repeatPassphrase': 'Répétez la phrase secrète',
+  'apiKey.vaultHint': "La phrase secrète n'est jamais enregistrée. Si vous l'oubliez, retirez la clé et saisissez-la de nouveau.",
+  'apiKey.sessionHint': 'La clé reste en mémoire et est oubliée à la fermeture ou au rechargement de la page.',
+  'apiKey.save': 'Enregistrer la clé',
+  'apiKey.saving': 'Enregistrement...',
+  'apiKey.cancel': 'Annuler',
+  'apiKey.getKey': "Obtenir une clé d'API gratuite auprès de Google →",
+  'apiKey.failed': "Une erreur s'est produite.",
+  'apiKey.keyWorks': 'La clé fonctionne : {model} est disponible.',
+  'apiKey.proxyWorks': 'Le proxy fonctionne : {model} est disponible.',
+  'apiKey.missing': "Saisissez votre clé d'API.",
+  'apiKey.mismatch': 'Les phrases secrètes ne correspondent pas.',
+  'apiKey.keptForSession': "Clé conservée pour cette session. Rien n'a été enregistré sur le disque.",
+  'apiKey.saved': 'Clé chiffrée et enregistrée. Vous aurez besoin de la phrase secrète après un rechargement.',
+  'apiKey.unlocked': 'Clé déverrouillée pour cette session.',
+  'apiKey.locked': 'Clé verrouillée. Déverrouillez-la avec votre phrase secrète pour réutiliser le mode Pro.',
+  'apiKey.removed': 'Clé retirée de cet appareil.',
+
+  // Technical panel
+  'technical.details': 'Détails techniques',
+  'technical.noDetails': "Aucun détail technique n'a été enregistré.",
+  'technical.iocs': 'Indicateurs de compromission',
+  'technical.noIocs': "Aucune URL, adresse IP, domaine, adresse e-mail, clé de registre ni adresse bitcoin n'a été trouvé dans les chaînes de ce fichier.",
+  'technical.copyAll': 'Copier les {count}',
+  'technical.copy': 'Copier',
+  'technical.ioc.url': 'URL',
+  'technical.ioc.ip': 'Adresses IP',
+  'technical.ioc.domain': 'Domaines',
+  'technical.ioc.email': 'Adresses e-mail',
+  'technical.ioc.registry': 'Clés de registre',
+  'technical.ioc.bitcoin': 'Adresses bitcoin',
+  'technical.noFile': "Cette analyse antérieure n'a pas conservé son fichier : le graphique d'entropie, les chaînes et la vue hexadécimale ne sont pas disponibles.",
+  'technical.entropy': 'Entropie',
+  'technical.entropy.point': '{offset} : {bits} bits/octet',
+  'technical.entropy.hint': "Bits par octet sur l'ensemble du fichier, du début à la fin. Les zones rouges au-dessus de 7,2 sont généralement des données compressées ou chiffrées ; cliquez sur une barre pour l'afficher en hexadécimal.",
+  'technical.strings': 'Chaînes',
+  'technical.strings.filter': 'Filtrer les chaînes...',
+  'technical.strings.minLength': 'Longueur min.',
+  'technical.strings.count.one': '{shown} chaîne',
+  'technical.strings.count.other': '{shown} chaînes',
+  'technical.strings.showing': ', affichage des {limit} premières',
+  'technical.strings.scanned': ' dans les {size} premiers Mo',
+  'technical.hex': 'Vue hexadécimale',
+  'technical.hex.goto': 'Aller à la position (ex. 0x400 ou 1024)',
+  'technical.hex.go': 'Aller',
+
+  // Program structure
+  'executable.title': 'Structure du programme',
+  'executable.format': 'Format',
+  'executable.machine': 'Machine',
+  'executable.machineBits': '{machine}, {bits} bits',
+  'executable.subsystem': 'Sous-système',
+  'executable.entryPoint': "Point d'entrée",
+  'executable.compiled': 'Compilé',
+  'executable.interpreter': 'Interpréteur',
+  'executable.signature': 'Signature',
+  'executable.signed': 'Authenticode présent (non vérifié)',
+  'executable.unsigned': 'Non signé',
+  'executable.sections': 'Sections ({count})',
+  'executable.column.name': 'Nom',
+  'executable.column.address': 'Adresse',
+  'executable.column.virtual': 'Virtuelle',
+  'executable.column.onDisk': 'Sur disque',
+  'executable.column.access': 'Accès',
+  'executable.column.entropy': 'Entropie',
+  'executable.imports.one': 'Importations ({count} bibliothèque)',
+  'executable.imports.other': 'Importations ({count} bibliothèques)',
+  'executable.noImports': 'Aucune importation trouvée.',
+  'executable.functions.one': '{count} fonction',
+  'executable.functions.other': '{count} fonctions',
+  'executable.exports': 'Exportations ({count})',
+  'executable.showAll': 'Afficher les {count}',
+
+  // Safe preview
+  'preview.title': 'Aperçu sécurisé',
+  'preview.subtitle.image': "Affiché sans position, données d'appareil ni autres métadonnées",
+  'preview.subtitle.markup': 'Nettoyé et affiché dans un bac à sable',
+  'preview.subtitle.pdf': "Texte uniquement ; rien du PDF n'est exécuté ni rendu",
+  'preview.subtitle.source': 'Code en lecture seule ({language})',
+  'preview.subtitle.text': 'Texte en lecture seule',
+  'preview.subtitle.none': 'Indisponible pour ce type de fichier',
+  'preview.tooLarge': 'Les fichiers de plus de {size} Mo ne sont pas prévisualisés.',
+  'preview.failed': 'Impossible de prévisualiser ce fichier.',
+  'preview.unsupported': "Il n'existe aucun moyen sûr de prévisualiser ce type de fichier. L'onglet Technique affiche ses chaînes et ses octets bruts.",
+  'preview.noFile': "Cette analyse antérieure n'a pas conservé son fichier, il n'y a donc rien à prévisualiser.",
+  'preview.loading': "Préparation de l'aperçu...",
+  'preview.dimensions': 'Dimensions',
+  'preview.gps': "Cette image enregistre où elle a été prise : {position}. Toute personne à qui vous envoyez l'original peut le voir.",
+  'preview.gpsAltitude': "Cette image enregistre où elle a été prise : {position} à {altitude} m. Toute personne à qui vous envoyez l'original peut le voir.",
+  'preview.noMetadata': "Aucune métadonnée d'appareil, de position ou de texte trouvée.",
+  'preview.downloadClean': 'Télécharger sans métadonnées',
+  'preview.rendered': 'Rendu',
+  'preview.source': 'Source',
+  'preview.blocked': "Les scripts, les formulaires et l'accès au réseau sont bloqués.",
+  'preview.blockedRemoved': "Les scripts, les formulaires et l'accès au réseau sont bloqués ; {removed} supprimé.",
+  'preview.frameTitle': 'Aperçu de {name}',
+  'preview.noPdfText': "Aucun texte n'a pu être extrait. Les pages sont peut-être des images numérisées ou utilisent un encodage que ce lecteur ne comprend pas.",
+  'preview.page': 'Page {page}',
+  'preview.emptyPage': 'Aucun texte sur cette page.',
+  'preview.pageLimit': 'Seules les {count} premières pages sont affichées.',
+  'preview.truncated': 'Affichage des {size} premiers Ko.',
+
+  // Paste text
+  'paste.title': 'Analyser du texte ou un lien',
+  'paste.intro': 'Collez un e-mail, un script ou un lien suspect. Les liens sont vérifiés (domaines ressemblants, adresses IP, raccourcisseurs, terminaisons à risque) sans être ouverts.',
+  'paste.placeholder': "https://example.com/login ou le texte complet d'un message",
+  'paste.kind.auto': 'Détection automatique',
+  'paste.kind.detected': 'Détection automatique ({kind})',
+  'paste.kind.text': 'Texte brut ou lien',
+  'paste.kind.email': 'E-mail (avec en-têtes)',
+  'paste.kind.html': 'HTML',
+  'paste.kind.js': 'JavaScript',
+  'paste.kind.ps1': 'PowerShell',
+  'paste.kind.sh': 'Script shell',
+  'paste.scan': 'Analyser',
+
+  // Report export
+  'report.export': 'Exporter le rapport',
+  'report.print': 'Imprimer / PDF',
+  'report.failed': 'Impossible de générer le rapport.'
+};
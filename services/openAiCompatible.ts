@@ -0,0 +1,143 @@
+import { AiCoverage, AnalysisResult } from '../types';
+import { AnalysisProvider, analysisPrompt, chatInstruction, ChatSession, getAiSettings, modelFor } from './aiProvider';
+import { getAiPayload, PayloadOptions } from './payload';
+import { parseAiResult } from './validation';
+
+/** Text sent to the model is capped so it fits typical local context windows. */
+const PAYLOAD_OPTIONS: PayloadOptions = { binary: false, maxTextChars: 100_000 };
+
+/** Spelled out in the prompt because not every server supports JSON schemas. */
+const RESULT_SHAPE = `{
+  "verdict": "SAFE" | "CAUTION" | "DANGER",
+  "humanVerdict": string,
+  "summary": string,
+  "simpleExplanation": string,
+  "isDangerous": boolean,
+  "solutions": string[],
+  "technicalDetails": string,
+  "fileType": string,
+  "metadata": { "suggestedApp": string, "securityLevel": string }
+}`;
+
+type MessageContent = string | ({ type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } })[];
+
+interface Message {
+  role: 'system' | 'user' | 'assistant';
+  content: MessageContent;
+}
+
+/**
+ * Most self-hosted models only read text (some also images), so binaries
+ * arrive as their printable strings.
+ */
+const fileContent = async (file: File): Promise<{ content: MessageContent; coverage: AiCoverage }> => {
+  const payload = await getAiPayload(file, PAYLOAD_OPTIONS);
+  const content: MessageContent = payload.inline
+    ? [{ type: 'image_url', image_url: { url: `data:${payload.inline.mimeType};base64,${payload.inline.base64}` } }]
+    : payload.text!;
+  return { content, coverage: payload.coverage };
+};
+
+const request = async (messages: Message[], options: { json?: boolean; stream?: boolean }, signal?: AbortSignal): Promise<Response> => {
+  const settings = getAiSettings();
+  const baseUrl = settings.baseUrl.trim().replace(/\/+$/, '');
+  if (!baseUrl) throw new Error("No base URL configured for the OpenAI-compatible provider.");
+  const response = await fetch(`${baseUrl}/chat/completions`, {
+    method: 'POST',
+    signal,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(settings.openAiKey.trim() ? { Authorization: `Bearer ${settings.openAiKey.trim()}` } : {})
+    },
+    body: JSON.stringify({
+      model: modelFor(settings),
+      messages,
+      temperature: 0.2,
+      ...(options.json ? { response_format: { type: 'json_object' } } : {}),
+      ...(options.stream ? { stream: true } : {})
+    })
+  });
+  if (!response.ok) {
+    const detail = (await response.text().catch(() => '')).slice(0, 200);
+    throw new Error(`The AI server answered ${response.status}${detail ? `: ${detail}` : ''}`);
+  }
+  return response;
+};
+
+const complete = async (messages: Message[], json: boolean, signal?: AbortSignal): Promise<string> => {
+  const data = await (await request(messages, { json }, signal)).json();
+  const text = data?.choices?.[0]?.message?.content;
+  if (typeof text !== 'string' || !text) throw new Error("Empty response from the AI server");
+  return text;
+};
+
+/** Reads a server-sent event stream of chat completion deltas. */
+async function* streamCompletion(messages: Message[], signal?: AbortSignal): AsyncGenerator<string> {
+  const response = await request(messages, { stream: true }, signal);
+  const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      buffer += value;
+      const lines = buffer.split('\n');
+      buffer = lines.pop()!;
+      for (const line of lines) {
+        const data = line.trim();
+        if (!data.startsWith('data:')) continue;
+        const payload = data.slice(5).trim();
+        if (payload === '[DONE]') return;
+        const delta = JSON.parse(payload)?.choices?.[0]?.delta?.content;
+        if (typeof delta === 'string' && delta) yield delta;
+      }
+    }
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+}
+
+const withText = (content: MessageContent, text: string): MessageContent => {
+  return typeof content === 'string' ? `${text}\n\n${content}` : [{ type: 'text', text }, ...content];
+};
+
+const analyzeFile = async (file: File, signal?: AbortSignal): Promise<AnalysisResult> => {
+  const { content, coverage } = await fileContent(file);
+  const prompt = `${analysisPrompt(file.name)}\n\nSchema:\n${RESULT_SHAPE}`;
+  try {
+    const result = parseAiResult(await complete([{ role: 'user', content: withText(content, prompt) }], true, signal));
+    return { ...result, aiCoverage: coverage };
+  } catch (error) {
+    console.error("OpenAI-compatible Analysis Error:", error);
+    throw error;
+  }
+};
+
+const createChatSession = async (file: File, result: AnalysisResult): Promise<ChatSession> => {
+  const history: Message[] = [
+    { role: 'system', content: chatInstruction(file.name, result) },
+    { role: 'user', content: withText((await fileContent(file)).content, `I've uploaded "${file.name}". Let's discuss it.`) },
+    { role: 'assistant', content: `I have received "${file.name}". I'm ready to explain its contents or answer any technical questions you have about it. How can I help?` }
+  ];
+  return {
+    sendMessageStream: async function* (text: string, signal?: AbortSignal) {
+      let reply = '';
+      try {
+        for await (const delta of streamCompletion([...history, { role: 'user', content: text }], signal)) {
+          reply += delta;
+          yield delta;
+        }
+      } finally {
+        // A stopped reply stays in the history so follow-ups make sense.
+        if (reply) history.push({ role: 'user', content: text }, { role: 'assistant', content: reply });
+      }
+    }
+  };
+};
+
+export const openAiCompatibleProvider: AnalysisProvider = {
+  id: 'openai',
+  label: 'OpenAI-compatible (self-hosted)',
+  analyzeFile,
+  createChatSession
+};
@@ -0,0 +1,186 @@
+import { AiCoverage, LocalizedText } from '../types';
+import { fileToBase64, formatBytes, getSafeMimeType } from '../utils/fileUtils';
+import { getAiSettings } from './aiProvider';
+import { localize, msg } from './i18n';
+import { detectSignature, SIGNATURE_HEADER_SIZE } from './signatures';
+
+const MB = 1024 * 1024;
+const MIN_STRING_LENGTH = 6;
+const MIDDLE_SAMPLES = 8;
+const HEADER_HEX_BYTES = 64;
+const IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/gif'];
+
+export interface PayloadOptions {
+  /** Whether the provider accepts any file inline (Gemini) or only images (most self-hosted models). */
+  binary: boolean;
+  /** Most characters of text the model should receive. */
+  maxTextChars: number;
+}
+
+/** What a provider sends for a file: inline data, text, or excerpts as text. */
+export interface AiPayload {
+  inline?: { base64: string; mimeType: string };
+  text?: string;
+  coverage: AiCoverage;
+}
+
+interface Region {
+  start: number;
+  end: number;
+}
+
+const looksLikeText = (bytes: Uint8Array): boolean => {
+  const sample = bytes.subarray(0, 4096);
+  let control = 0;
+  for (const b of sample) {
+    if (b === 0) return false;
+    if (b < 9 || (b > 13 && b < 32)) control++;
+  }
+  return control < sample.length / 100;
+};
+
+const printableStrings = (bytes: Uint8Array, maxChars: number): string => {
+  const out: string[] = [];
+  let run = '';
+  let total = 0;
+  for (let i = 0; i < bytes.length && total < maxChars; i++) {
+    const b = bytes[i];
+    if (b >= 32 && b < 127) {
+      run += String.fromCharCode(b);
+      continue;
+    }
+    if (run.length >= MIN_STRING_LENGTH) {
+      out.push(run);
+      total += run.length + 1;
+    }
+    run = '';
+  }
+  if (run.length >= MIN_STRING_LENGTH && total < maxChars) out.push(run);
+  return out.join('\n');
+};
+
+const readRange = async (file: Blob, { start, end }: Region): Promise<Uint8Array> => {
+  return new Uint8Array(await file.slice(start, end).arrayBuffer());
+};
+
+const describeRange = ({ start, end }: Region) => `bytes ${start.toLocaleString()} – ${(end - 1).toLocaleString()}`;
+
+/**
+ * Splits a read budget into the head, evenly spaced middle samples and the
+ * tail. Headers and trailers carry most of the structure; the samples catch
+ * content that a head-and-tail view would miss.
+ */
+const sampleRegions = (size: number, budget: number): Region[] => {
+  if (size <= budget) return [{ start: 0, end: size }];
+  const head = Math.floor(budget * 0.4);
+  const tail = Math.floor(budget * 0.2);
+  const sample = Math.floor((budget - head - tail) / MIDDLE_SAMPLES);
+  const regions: Region[] = [{ start: 0, end: head }];
+  const gap = (size - head - tail) / (MIDDLE_SAMPLES + 1);
+  for (let i = 1; i <= MIDDLE_SAMPLES; i++) {
+    const start = Math.floor(head + gap * i - sample / 2);
+    regions.push({ start, end: start + sample });
+  }
+  regions.push({ start: size - tail, end: size });
+  return regions;
+};
+
+/**
+ * Returns the "skipped" coverage for files above the configured AI size cap,
+ * or null when the file may be sent.
+ */
+export const oversizedCoverage = (file: Blob): AiCoverage | null => {
+  const limit = getAiSettings().uploadLimitMb;
+  if (file.size <= limit * MB) return null;
+  const reason = msg('coverage.reason.oversized', { size: formatBytes(file.size), limit });
+  return {
+    strategy: 'skipped',
+    totalBytes: file.size,
+    sentBytes: 0,
+    portions: [],
+    reason: localize(reason, 'en'),
+    messages: { reason }
+  };
+};
+
+const extract = async (file: File, text: boolean, options: PayloadOptions, inlineLimit: number): Promise<AiPayload> => {
+  const head = await readRange(file, { start: 0, end: Math.min(file.size, SIGNATURE_HEADER_SIZE) });
+  const signature = detectSignature(head);
+  const hex = Array.from(head.subarray(0, HEADER_HEX_BYTES), b => b.toString(16).padStart(2, '0').toUpperCase()).join(' ');
+  // Binary regions shrink to their strings, so read more of them for the same text budget.
+  const ratio = text ? 1 : 4;
+  const regions = sampleRegions(file.size, options.maxTextChars * ratio);
+
+  const sections: string[] = [];
+  const portions = [`File header: type signature and the first ${HEADER_HEX_BYTES} bytes`];
+  let sentBytes = 0;
+  for (const region of regions) {
+    const bytes = await readRange(file, region);
+    const budget = Math.ceil(bytes.length / ratio);
+    const body = text ? new TextDecoder('utf-8').decode(bytes).slice(0, budget) : printableStrings(bytes, budget);
+    const label = `${describeRange(region)} ${text ? 'as text' : 'as printable strings'}`;
+    sections.push(`--- ${label} ---\n${body}`);
+    portions.push(label.charAt(0).toUpperCase() + label.slice(1));
+    sentBytes += bytes.length;
+  }
+
+  const message: LocalizedText = text
+    ? msg('coverage.reason.textBudget', { chars: options.maxTextChars.toLocaleString('en') })
+    : !options.binary
+      ? msg('coverage.reason.textOnly')
+      : msg('coverage.reason.inlineLimit', { limit: formatBytes(inlineLimit) });
+  const reason = localize(message, 'en');
+  return {
+    text: [
+      `"${file.name}" (${formatBytes(file.size)}) was not sent whole: ${reason} Below are excerpts; judge the file from them and say so when they are not enough.`,
+      `Detected type: ${signature ? `${signature.label} (${signature.evidence})` : 'unknown'}`,
+      `First ${HEADER_HEX_BYTES} bytes: ${hex}`,
+      ...sections
+    ].join('\n\n'),
+    coverage: { strategy: 'extracted', totalBytes: file.size, sentBytes, portions, reason, messages: { reason: message } }
+  };
+};
+
+const build = async (file: File, options: PayloadOptions): Promise<AiPayload> => {
+  const skipped = oversizedCoverage(file);
+  if (skipped) throw new Error(skipped.reason);
+
+  const inlineLimit = getAiSettings().inlineLimitMb * MB;
+  const mimeType = getSafeMimeType(file);
+  const text = looksLikeText(await readRange(file, { start: 0, end: 4096 }));
+  const full: AiCoverage = { strategy: 'full', totalBytes: file.size, sentBytes: file.size, portions: ['The whole file'] };
+
+  if (options.binary) {
+    if (file.size <= inlineLimit && (!text || file.size <= options.maxTextChars)) {
+      return { inline: { base64: await fileToBase64(file), mimeType }, coverage: full };
+    }
+  } else if (text && file.size <= options.maxTextChars) {
+    return { text: `Contents of "${file.name}":\n\n${await file.text()}`, coverage: full };
+  } else if (IMAGE_TYPES.includes(mimeType) && file.size <= inlineLimit) {
+    return { inline: { base64: await fileToBase64(file), mimeType }, coverage: full };
+  }
+  return extract(file, text, options, inlineLimit);
+};
+
+// Analysis and chat ask for the same file back to back; encode it once.
+const cache = new WeakMap<File, Map<string, Promise<AiPayload>>>();
+
+/**
+ * Builds (once per file, options and limits) what a provider should send
+ * for `file`. Small files go whole; large or very long text files are
+ * reduced to the header, sampled regions and extracted strings, and the
+ * returned coverage says which.
+ */
+export const getAiPayload = (file: File, options: PayloadOptions): Promise<AiPayload> => {
+  const { inlineLimitMb, uploadLimitMb } = getAiSettings();
+  const key = JSON.stringify([options.binary, options.maxTextChars, inlineLimitMb, uploadLimitMb]);
+  let forFile = cache.get(file);
+  if (!forFile) cache.set(file, (forFile = new Map()));
+  let payload = forFile.get(key);
+  if (!payload) {
+    payload = build(file, options);
+    forFile.set(key, payload);
+    payload.catch(() => forFile!.delete(key));
+  }
+  return payload;
+};
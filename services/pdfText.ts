@@ -0,0 +1,267 @@
+import { readStreamWithLimit } from '../utils/binaryUtils';
+
+export interface PdfPageText {
+  page: number;
+  text: string;
+}
+
+/** Decompressed stream data kept per document. */
+const MAX_INFLATE_BYTES = 64 * 1024 * 1024;
+export const MAX_PDF_PAGES = 200;
+
+interface PdfObject {
+  dict: string;
+  /** Raw (still compressed) stream bytes, if the object has a stream. */
+  stream?: Uint8Array;
+}
+
+const latin1 = new TextDecoder('latin1');
+const utf16be = new TextDecoder('utf-16be');
+
+const inflate = async (data: Uint8Array, limit: number): Promise<Uint8Array> => {
+  return readStreamWithLimit(new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate')), limit);
+};
+
+const ref = (dict: string, key: string): number | null => {
+  const match = dict.match(new RegExp(`/${key}\\s+(\\d+)\\s+\\d+\\s+R`));
+  return match ? +match[1] : null;
+};
+
+const refList = (dict: string, key: string): number[] => {
+  const array = dict.match(new RegExp(`/${key}\\s*\\[([^\\]]*)\\]`));
+  if (array) return Array.from(array[1].matchAll(/(\d+)\s+\d+\s+R/g), m => +m[1]);
+  const single = ref(dict, key);
+  return single === null ? [] : [single];
+};
+
+/**
+ * Indexes every "n 0 obj ... endobj" in the file, plus the objects packed
+ * inside compressed object streams, which is where modern PDFs keep their
+ * page tree.
+ */
+const readObjects = async (bytes: Uint8Array, budget: { left: number }): Promise<Map<number, PdfObject>> => {
+  const raw = latin1.decode(bytes);
+  const objects = new Map<number, PdfObject>();
+  const objectStreams: PdfObject[] = [];
+  for (const match of raw.matchAll(/(\d+)\s+\d+\s+obj\b([^]*?)(?:endobj|(?=\d+\s+\d+\s+obj\b))/g)) {
+    const body = match[2];
+    const streamAt = body.search(/stream\r?\n/);
+    const obj: PdfObject = { dict: streamAt >= 0 ? body.slice(0, streamAt) : body };
+    if (streamAt >= 0) {
+      const start = match.index! + match[0].indexOf(body) + streamAt + body.slice(streamAt).match(/^stream\r?\n/)![0].length;
+      const end = raw.indexOf('endstream', start);
+      if (end > start) obj.stream = bytes.subarray(start, end);
+    }
+    // Later revisions of an object replace earlier ones.
+    objects.set(+match[1], obj);
+    if (/\/Type\s*\/ObjStm\b/.test(obj.dict)) objectStreams.push(obj);
+  }
+
+  for (const stream of objectStreams) {
+    const data = await streamData(stream, budget);
+    if (!data) continue;
+    const text = latin1.decode(data);
+    const first = +(stream.dict.match(/\/First\s+(\d+)/)?.[1] ?? NaN);
+    if (!Number.isFinite(first)) continue;
+    const header = text.slice(0, first).trim().split(/\s+/).map(Number);
+    for (let i = 0; i + 1 < header.length; i += 2) {
+      const start = first + header[i + 1];
+      const end = i + 3 < header.length ? first + header[i + 3] : text.length;
+      if (!objects.has(header[i])) objects.set(header[i], { dict: text.slice(start, end) });
+    }
+  }
+  return objects;
+};
+
+/** A stream's decoded bytes. Only unfiltered and FlateDecode streams are supported. */
+const streamData = async (obj: PdfObject, budget: { left: number }): Promise<Uint8Array | null> => {
+  if (!obj.stream) return null;
+  const filters = obj.dict.match(/\/Filter\s*(\[[^\]]*\]|\/\w+)/)?.[1] ?? '';
+  if (!filters) return obj.stream;
+  if (filters.replace(/[[\]\s]/g, '') !== '/FlateDecode' || budget.left <= 0) return null;
+  try {
+    const data = await inflate(obj.stream, budget.left);
+    budget.left -= data.length;
+    return data;
+  } catch {
+    return null;
+  }
+};
+
+/** Pages in reading order, found by walking the page tree from /Root. */
+const pageOrder = (objects: Map<number, PdfObject>, raw: string): number[] => {
+  const root = ref(raw.slice(raw.lastIndexOf('trailer')), 'Root')
+    ?? [...objects.entries()].find(([, o]) => /\/Type\s*\/Catalog\b/.test(o.dict))?.[0];
+  const pages: number[] = [];
+  const seen = new Set<number>();
+  const walk = (id: number) => {
+    const obj = objects.get(id);
+    if (!obj || seen.has(id) || pages.length >= MAX_PDF_PAGES) return;
+    seen.add(id);
+    if (/\/Type\s*\/Pages\b/.test(obj.dict)) refList(obj.dict, 'Kids').forEach(walk);
+    else if (/\/Type\s*\/Page\b/.test(obj.dict)) pages.push(id);
+  };
+  const catalog = root !== undefined && root !== null ? objects.get(root) : undefined;
+  const tree = catalog ? ref(catalog.dict, 'Pages') : null;
+  if (tree !== null) walk(tree);
+  if (pages.length > 0) return pages;
+  // No usable page tree (damaged or cross-reference-stream-only trailer): take page objects in file order.
+  return [...objects.entries()].filter(([, o]) => /\/Type\s*\/Page\b/.test(o.dict)).map(([id]) => id).slice(0, MAX_PDF_PAGES);
+};
+
+/** Maps character codes to text using a font's /ToUnicode CMap. */
+type CMap = { bytes: number; map: Map<number, string> };
+
+const parseCMap = (text: string): CMap => {
+  const map = new Map<number, string>();
+  const unicode = (hex: string) => utf16be.decode(Uint8Array.from(hex.match(/../g) ?? [], h => parseInt(h, 16)));
+  let bytes = 1;
+  for (const block of text.matchAll(/beginbfchar([^]*?)endbfchar/g)) {
+    for (const m of block[1].matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]*)>/g)) {
+      bytes = Math.max(bytes, m[1].length / 2);
+      map.set(parseInt(m[1], 16), unicode(m[2]));
+    }
+  }
+  for (const block of text.matchAll(/beginbfrange([^]*?)endbfrange/g)) {
+    for (const m of block[1].matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(<[0-9a-fA-F]*>|\[[^\]]*\])/g)) {
+      bytes = Math.max(bytes, m[1].length / 2);
+      const low = parseInt(m[1], 16);
+      const high = Math.min(parseInt(m[2], 16), low + 0xffff);
+      if (m[3].startsWith('[')) {
+        Array.from(m[3].matchAll(/<([0-9a-fA-F]*)>/g)).forEach((d, i) => map.set(low + i, unicode(d[1])));
+      } else {
+        const start = parseInt(m[3].slice(1, -1), 16);
+        for (let code = low; code <= high; code++) map.set(code, String.fromCodePoint(start + code - low));
+      }
+    }
+  }
+  return { bytes, map };
+};
+
+/** Font resource name → CMap, for the fonts a page uses that have one. */
+const pageFonts = async (page: PdfObject, objects: Map<number, PdfObject>, budget: { left: number }): Promise<Map<string, CMap>> => {
+  const fonts = new Map<string, CMap>();
+  const resourcesRef = ref(page.dict, 'Resources');
+  const resources = resourcesRef !== null ? objects.get(resourcesRef)?.dict ?? '' : page.dict;
+  const fontRef = ref(resources, 'Font');
+  const fontDict = fontRef !== null ? objects.get(fontRef)?.dict ?? '' : resources.match(/\/Font\s*<<([^]*?)>>/)?.[1] ?? '';
+  for (const m of fontDict.matchAll(/\/([^\s/<>[\]()]+)\s+(\d+)\s+\d+\s+R/g)) {
+    const font = objects.get(+m[2]);
+    const cmapRef = font ? ref(font.dict, 'ToUnicode') : null;
+    const cmapObj = cmapRef !== null ? objects.get(cmapRef) : undefined;
+    const data = cmapObj ? await streamData(cmapObj, budget) : null;
+    if (data) fonts.set(m[1], parseCMap(latin1.decode(data)));
+  }
+  return fonts;
+};
+
+const LITERAL_ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f', '(': '(', ')': ')', '\\': '\\' };
+
+/** Raw byte values of a (literal) or <hex> string operand. */
+const stringBytes = (token: string): number[] => {
+  if (token.startsWith('<')) {
+    const hex = token.slice(1, -1).replace(/\s+/g, '');
+    return Array.from((hex.length % 2 ? `${hex}0` : hex).match(/../g) ?? [], h => parseInt(h, 16));
+  }
+  const out: number[] = [];
+  const body = token.slice(1, -1);
+  for (let i = 0; i < body.length; i++) {
+    const c = body[i];
+    if (c !== '\\') {
+      out.push(c.charCodeAt(0));
+      continue;
+    }
+    const next = body[++i];
+    const octal = body.slice(i).match(/^[0-7]{1,3}/);
+    if (octal) {
+      out.push(parseInt(octal[0], 8) & 0xff);
+      i += octal[0].length - 1;
+    } else if (next === '\r' || next === '\n') {
+      if (next === '\r' && body[i + 1] === '\n') i++;
+    } else if (next !== undefined) {
+      out.push((LITERAL_ESCAPES[next] ?? next).charCodeAt(0));
+    }
+  }
+  return out;
+};
+
+const decodeShown = (bytes: number[], cmap: CMap | undefined): string => {
+  if (!cmap) return String.fromCharCode(...bytes);
+  let out = '';
+  for (let i = 0; i + cmap.bytes <= bytes.length; i += cmap.bytes) {
+    let code = 0;
+    for (let j = 0; j < cmap.bytes; j++) code = (code << 8) | bytes[i + j];
+    out += cmap.map.get(code) ?? '';
+  }
+  return out;
+};
+
+const TOKEN = /\((?:\\[^]|[^\\()]|\((?:\\[^]|[^\\()])*\))*\)|<[0-9a-fA-F\s]*>|\[|\]|\/[^\s/<>[\]()]+|-?\d*\.?\d+|[A-Za-z'"*]+/g;
+
+/**
+ * Pulls the text out of a page's content stream by following the text
+ * operators (Tf, Tj, TJ, ', ", Td/TD/T*, ET). Positioning is approximated
+ * with line breaks; nothing is drawn.
+ */
+const contentText = (content: string, fonts: Map<string, CMap>): string => {
+  let out = '';
+  let font: CMap | undefined;
+  let operands: string[] = [];
+  let array: string[] | null = null;
+  for (const [token] of content.matchAll(TOKEN)) {
+    if (token === '[') {
+      array = [];
+      continue;
+    }
+    if (token === ']') {
+      if (array) operands.push(`[${array.length}`, ...array);
+      array = null;
+      continue;
+    }
+    if (array) {
+      // Large negative kerning inside TJ is how PDFs draw a space between words.
+      if (/^-?\d/.test(token) && +token < -200) array.push('( )');
+      else if (token.startsWith('(') || token.startsWith('<')) array.push(token);
+      continue;
+    }
+    if (/^[A-Za-z'"*]/.test(token)) {
+      const strings = operands.filter(o => o.startsWith('(') || o.startsWith('<'));
+      switch (token) {
+        case 'Tf': font = fonts.get(operands[operands.length - 2]?.slice(1) ?? ''); break;
+        case 'Tj': case 'TJ': out += strings.map(s => s === '( )' ? ' ' : decodeShown(stringBytes(s), font)).join(''); break;
+        case "'": case '"': out += `\n${strings.map(s => decodeShown(stringBytes(s), font)).join('')}`; break;
+        case 'Td': case 'TD': if (+(operands[1] ?? 0) !== 0) out += '\n'; else out += ' '; break;
+        case 'T*': out += '\n'; break;
+        case 'ET': out += '\n'; break;
+      }
+      operands = [];
+      continue;
+    }
+    operands.push(token);
+  }
+  return out.replace(/[^\S\n]+/g, ' ').replace(/ *\n[\n ]*/g, '\n').trim();
+};
+
+/**
+ * Extracts the text of each page without rendering anything: no fonts,
+ * images, scripts or links are processed. Pages beyond MAX_PDF_PAGES are
+ * left out.
+ */
+export const extractPdfText = async (bytes: Uint8Array): Promise<PdfPageText[]> => {
+  const budget = { left: MAX_INFLATE_BYTES };
+  const objects = await readObjects(bytes, budget);
+  const pages = pageOrder(objects, latin1.decode(bytes.subarray(Math.max(0, bytes.length - 4096))));
+  const out: PdfPageText[] = [];
+  for (const [index, id] of pages.entries()) {
+    const page = objects.get(id)!;
+    const fonts = await pageFonts(page, objects, budget);
+    const parts: string[] = [];
+    for (const contentId of refList(page.dict, 'Contents')) {
+      const content = objects.get(contentId);
+      const data = content ? await streamData(content, budget) : null;
+      if (data) parts.push(latin1.decode(data));
+    }
+    out.push({ page: index + 1, text: contentText(parts.join('\n'), fonts) });
+  }
+  return out;
+};
@@ -0,0 +1,301 @@
+import { AppliedPolicy, Finding, FindingSeverity, Verdict } from '../types';
+import { literal, msg } from './i18n';
+
+/**
+ * One line of a policy profile. A rule matches a file when its extension or
+ * its detected type is listed (either is enough; omit both to match any
+ * file) and its size is within bounds.
+ *
+ * With `findings`, the rule re-rates those findings on matching files.
+ * Without, it replaces the verdict the file type would start from; findings
+ * can still raise it from there.
+ */
+export interface PolicyRule {
+  /** Declared extensions without the dot, e.g. "sh". */
+  extensions?: string[];
+  /** Detected type ids ("pe", "svg") or categories ("script", "archive"). */
+  types?: string[];
+  /** Bytes, inclusive. */
+  minSize?: number;
+  maxSize?: number;
+  /** Finding ids to re-rate; a trailing "*" matches a prefix, e.g. "web-*". */
+  findings?: string[];
+  /** The starting verdict, or what each matched finding now counts as (SAFE makes it INFO). */
+  verdict: Verdict;
+  /** Shown as the explanation when this rule decides the verdict. */
+  reason?: string;
+  /** Replaces the recommendations when this rule decides the verdict. */
+  solutions?: string[];
+}
+
+export interface PolicyProfile {
+  /** Lowercase letters, digits and dashes. */
+  id: string;
+  name: string;
+  description?: string;
+  /** File rules are tried in order and the first match wins; every matching finding rule applies. */
+  rules: PolicyRule[];
+}
+
+/** What a file looks like to policy rules. */
+export interface PolicySubject {
+  extension: string;
+  /** Detected type id and its category; missing when the header wasn't recognized. */
+  type?: string;
+  category?: string;
+  size: number;
+}
+
+export interface PolicyOutcome {
+  /** The file rule that sets the starting verdict, if any. */
+  baseline: PolicyRule | null;
+  /** The input findings with matched ones re-rated; the same order and length. */
+  findings: Finding[];
+  applied: AppliedPolicy;
+}
+
+const PROFILES_KEY = 'omni_policy_profiles';
+const ACTIVE_PROFILE_KEY = 'omni_policy_profile';
+const VERDICTS: Verdict[] = ['SAFE', 'CAUTION', 'DANGER'];
+
+export const DEFAULT_PROFILE_ID = 'standard';
+
+const SCRIPT_EXTENSIONS = ['sh', 'bash', 'zsh', 'py', 'rb', 'pl', 'js', 'mjs', 'cjs', 'ts', 'ps1', 'psm1'];
+const WINDOWS_SCRIPT_EXTENSIONS = ['bat', 'cmd', 'vbs', 'vbe', 'js', 'jse', 'wsf', 'hta', 'ps1', 'lnk', 'jar'];
+
+export const BUILT_IN_PROFILES: PolicyProfile[] = [
+  {
+    id: DEFAULT_PROFILE_ID,
+    name: 'Standard',
+    description: 'The built-in verdicts, unchanged.',
+    rules: []
+  },
+  {
+    id: 'developer',
+    name: 'Developer',
+    description: 'Scripts and source files are everyday work; detection rules still flag malicious ones.',
+    rules: [
+      {
+        extensions: SCRIPT_EXTENSIONS,
+        types: ['shebang'],
+        verdict: 'SAFE',
+        reason: "Scripts are routine for developers, so this one isn't flagged for being a script. Detection rules and code checks still apply to what it does.",
+        solutions: ["Read the script before running it.", "Run scripts from outside the team in a container or VM."]
+      },
+      {
+        extensions: SCRIPT_EXTENSIONS,
+        findings: ['web-eval', 'web-string-timer'],
+        verdict: 'SAFE'
+      }
+    ]
+  },
+  {
+    id: 'finance',
+    name: 'Finance',
+    description: 'Programs and scripts are never expected; HTML and SVG attachments are treated as likely phishing.',
+    rules: [
+      {
+        extensions: Array.from(new Set([...SCRIPT_EXTENSIONS, ...WINDOWS_SCRIPT_EXTENSIONS])),
+        types: ['executable', 'script'],
+        verdict: 'DANGER',
+        reason: "Finance never needs to receive programs or scripts, so this file is blocked whatever it contains.",
+        solutions: ["Do not open or forward this file.", "Report it to your security team.", "Ask the sender for a PDF if they meant to send a document."]
+      },
+      {
+        extensions: ['html', 'htm', 'shtml', 'svg'],
+        types: ['html', 'svg'],
+        verdict: 'CAUTION',
+        reason: "HTML and SVG attachments are a common way to deliver fake invoices and login pages.",
+        solutions: ["Don't type passwords or payment details into anything this file opens.", "Confirm with the sender by phone before acting on it."]
+      },
+      {
+        findings: ['office-macro*', 'office-xlm-macro', 'office-dde', 'pdf-javascript*', 'pdf-launch'],
+        verdict: 'DANGER'
+      }
+    ]
+  },
+  {
+    id: 'strict',
+    name: 'Strict',
+    description: 'Anything that could hide content is dangerous; large files and archives need a second look.',
+    rules: [
+      {
+        minSize: 100 * 1024 * 1024,
+        verdict: 'CAUTION',
+        reason: "Files this large can't be inspected in full, so parts of it were never checked."
+      },
+      {
+        types: ['archive', 'web'],
+        verdict: 'CAUTION',
+        reason: "The Strict policy treats archives and web files as needing review before use."
+      },
+      {
+        findings: ['signature-mismatch', 'archive-*', 'image-appended-*', 'image-zip-polyglot', 'image-html-polyglot', 'web-*', 'office-*', 'pdf-*', 'document-unreadable'],
+        verdict: 'DANGER'
+      }
+    ]
+  }
+];
+
+const matchesId = (pattern: string, id: string) => {
+  return pattern.endsWith('*') ? id.startsWith(pattern.slice(0, -1)) : id === pattern;
+};
+
+const matchesFile = (rule: PolicyRule, subject: PolicySubject): boolean => {
+  if (rule.minSize !== undefined && subject.size < rule.minSize) return false;
+  if (rule.maxSize !== undefined && subject.size > rule.maxSize) return false;
+  if (!rule.extensions && !rule.types) return true;
+  return !!rule.extensions?.includes(subject.extension)
+    || !!(subject.type && rule.types?.includes(subject.type))
+    || !!(subject.category && rule.types?.includes(subject.category));
+};
+
+const describeRule = (rule: PolicyRule): string => {
+  const what = [
+    rule.extensions && rule.extensions.map(e => `.${e}`).join(', '),
+    rule.types && `type ${rule.types.join(', ')}`
+  ].filter(Boolean).join(' or ') || 'any file';
+  const size = [
+    rule.minSize !== undefined && `≥ ${rule.minSize.toLocaleString()} bytes`,
+    rule.maxSize !== undefined && `≤ ${rule.maxSize.toLocaleString()} bytes`
+  ].filter(Boolean).join(', ');
+  return `${what}${size ? ` (${size})` : ''} → ${rule.verdict}`;
+};
+
+const severityLabel = (severity: FindingSeverity) => msg(severity === 'INFO' ? 'severity.INFO' : `verdict.${severity}`);
+
+/**
+ * Applies a profile to one file's findings. Pure: the caller decides how the
+ * starting verdict and re-rated findings feed into the final one.
+ */
+export const applyPolicy = (profile: PolicyProfile, subject: PolicySubject, findings: Finding[]): PolicyOutcome => {
+  const fileRules = profile.rules.filter(r => !r.findings && matchesFile(r, subject));
+  const baseline = fileRules[0] ?? null;
+  const applied: string[] = baseline ? [`Starting verdict: ${describeRule(baseline)}`] : [];
+
+  const findingRules = profile.rules.filter(r => r.findings && matchesFile(r, subject));
+  const rated = findings.map(f => {
+    const rule = findingRules.find(r => r.findings!.some(p => matchesId(p, f.id)));
+    if (!rule) return f;
+    const severity: FindingSeverity = rule.verdict === 'SAFE' ? 'INFO' : rule.verdict;
+    if (severity === f.severity) return f;
+    applied.push(`${f.id}: ${f.severity} → ${severity}`);
+    const note = msg('policy.adjusted', {
+      description: f.messages?.description ?? literal(f.description),
+      profile: profile.name,
+      severity: severityLabel(severity),
+      previous: severityLabel(f.severity)
+    });
+    return {
+      ...f,
+      severity,
+      description: `${f.description} The ${profile.name} policy rates this ${severity} instead of ${f.severity}.`,
+      messages: { title: f.messages?.title ?? literal(f.title), description: note }
+    };
+  });
+
+  return { baseline, findings: rated, applied: { id: profile.id, name: profile.name, applied } };
+};
+
+// ---------------------------------------------------------------------------
+// Import, export and storage
+// ---------------------------------------------------------------------------
+
+const stringList = (value: any, field: string, where: string): string[] | undefined => {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value) || value.some(v => typeof v !== 'string' || !v)) throw new Error(`${where}: "${field}" must be a list of strings`);
+  return value;
+};
+
+const size = (value: any, field: string, where: string): number | undefined => {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'number' || !(value >= 0)) throw new Error(`${where}: "${field}" must be a size in bytes`);
+  return value;
+};
+
+const normalizeRule = (raw: any, where: string): PolicyRule => {
+  if (!raw || typeof raw !== 'object') throw new Error(`${where} must be an object`);
+  const verdict = String(raw.verdict ?? '').toUpperCase() as Verdict;
+  if (!VERDICTS.includes(verdict)) throw new Error(`${where}: "verdict" must be SAFE, CAUTION or DANGER`);
+  const rule: PolicyRule = {
+    extensions: stringList(raw.extensions, 'extensions', where)?.map(e => e.replace(/^\./, '').toLowerCase()),
+    types: stringList(raw.types, 'types', where),
+    minSize: size(raw.minSize, 'minSize', where),
+    maxSize: size(raw.maxSize, 'maxSize', where),
+    findings: stringList(raw.findings, 'findings', where),
+    verdict,
+    reason: raw.reason ? String(raw.reason) : undefined,
+    solutions: stringList(raw.solutions, 'solutions', where)
+  };
+  return Object.fromEntries(Object.entries(rule).filter(([, v]) => v !== undefined)) as PolicyRule;
+};
+
+const normalizeProfile = (raw: any, index: number): PolicyProfile => {
+  const id = String(raw?.id ?? '');
+  const name = String(raw?.name ?? '').trim();
+  const where = `Profile ${name ? `"${name}"` : index + 1}`;
+  if (!/^[a-z0-9-]+$/.test(id)) throw new Error(`${where}: "id" must use lowercase letters, digits and dashes`);
+  if (!name) throw new Error(`${where}: "name" is required`);
+  if (!Array.isArray(raw.rules)) throw new Error(`${where}: "rules" must be an array`);
+  return {
+    id,
+    name,
+    description: raw.description ? String(raw.description) : undefined,
+    rules: raw.rules.map((r: any, i: number) => normalizeRule(r, `${where}, rule ${i + 1}`))
+  };
+};
+
+/**
+ * Parses profiles from JSON: one profile, an array of them, or
+ * `{ "profiles": [...] }`. Throws with a readable message on the first problem.
+ */
+export const parsePolicyProfiles = (source: string): PolicyProfile[] => {
+  const parsed = JSON.parse(source);
+  const list = Array.isArray(parsed) ? parsed : Array.isArray(parsed?.profiles) ? parsed.profiles : [parsed];
+  return list.map(normalizeProfile);
+};
+
+/** A profile as a standalone JSON document that `parsePolicyProfiles` reads back. */
+export const profileToJson = (profile: PolicyProfile): string => JSON.stringify(profile, null, 2);
+
+export const getCustomProfiles = (): PolicyProfile[] => {
+  const source = typeof localStorage === 'undefined' ? null : localStorage.getItem(PROFILES_KEY);
+  if (!source) return [];
+  try {
+    return parsePolicyProfiles(source);
+  } catch (err) {
+    console.warn("Ignoring invalid policy profiles:", err);
+    return [];
+  }
+};
+
+export const getProfiles = (): PolicyProfile[] => [...BUILT_IN_PROFILES, ...getCustomProfiles()];
+
+/**
+ * Validates and stores imported profiles, replacing custom ones with the same
+ * id. Throws without saving if any profile is invalid or reuses a built-in id.
+ */
+export const importPolicyProfiles = (source: string): PolicyProfile[] => {
+  const imported = parsePolicyProfiles(source);
+  const clash = imported.find(p => BUILT_IN_PROFILES.some(b => b.id === p.id));
+  if (clash) throw new Error(`"${clash.id}" is a built-in profile; give the imported one a different id`);
+  const kept = getCustomProfiles().filter(p => !imported.some(i => i.id === p.id));
+  localStorage.setItem(PROFILES_KEY, JSON.stringify([...kept, ...imported]));
+  return imported;
+};
+
+export const deleteCustomProfile = (id: string) => {
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(getCustomProfiles().filter(p => p.id !== id)));
+  if (getActiveProfileId() === id) localStorage.removeItem(ACTIVE_PROFILE_KEY);
+};
+
+export const getActiveProfileId = (): string =>
+  (typeof localStorage === 'undefined' ? null : localStorage.getItem(ACTIVE_PROFILE_KEY)) || DEFAULT_PROFILE_ID;
+
+export const setActiveProfile = (id: string) => localStorage.setItem(ACTIVE_PROFILE_KEY, id);
+
+/** The selected profile, or Standard if it has since been deleted. */
+export const getActiveProfile = (): PolicyProfile => {
+  const id = getActiveProfileId();
+  return getProfiles().find(p => p.id === id) ?? BUILT_IN_PROFILES[0];
+};
@@ -0,0 +1,15 @@
+import { AiSettings, AnalysisProvider, getAiSettings, ProviderId } from './aiProvider';
+import { canUseGemini, geminiProvider } from './geminiService';
+import { openAiCompatibleProvider } from './openAiCompatible';
+
+export const PROVIDERS: Record<ProviderId, AnalysisProvider> = {
+  gemini: geminiProvider,
+  openai: openAiCompatibleProvider
+};
+
+export const getActiveProvider = (): AnalysisProvider => PROVIDERS[getAiSettings().provider] ?? geminiProvider;
+
+/** Gemini needs an unlocked API key or a proxy; a self-hosted server only needs its URL. */
+export const isProviderConfigured = (settings: AiSettings = getAiSettings()): boolean => {
+  return settings.provider === 'openai' ? settings.baseUrl.trim() !== '' : canUseGemini(settings);
+};
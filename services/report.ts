@@ -0,0 +1,228 @@
+import { AnalysisMode, AnalysisResult, AppliedPolicy, ChatMessage, FileHashes, Finding, FindingSeverity, Ioc, RuleMatch, Verdict } from '../types';
+import { hashFile } from './hashing';
+
+/**
+ * Bump the major version when a field is removed or changes meaning, the
+ * minor version when fields are added.
+ */
+export const REPORT_SCHEMA_VERSION = '1.2';
+const TOOL_NAME = 'OmniAnalyze';
+
+export interface AnalysisReport {
+  schema: 'omnianalyze-report';
+  schemaVersion: string;
+  generatedAt: string;
+  tool: { name: string };
+  file: {
+    name: string;
+    size: number;
+    hashes: FileHashes;
+  };
+  mode: AnalysisMode;
+  verdict: Verdict;
+  humanVerdict: string;
+  summary: string;
+  explanation: string;
+  fileType: string;
+  findings: Finding[];
+  ruleMatches: RuleMatch[];
+  /** Added in 1.1. */
+  iocs: Ioc[];
+  /** Added in 1.2; null when the scan ran without a policy profile. */
+  policy: AppliedPolicy | null;
+  recommendations: string[];
+  technicalDetails: string;
+  chat: ChatMessage[];
+}
+
+export interface ReportSource {
+  name: string;
+  size: number;
+  /** The file itself; only needed when the result carries no hashes. */
+  blob?: Blob;
+}
+
+const reportHashes = async (source: ReportSource, result: AnalysisResult): Promise<FileHashes> => {
+  if (result.metadata.hashes) return result.metadata.hashes;
+  if (!source.blob) throw new Error("The file is no longer available to hash.");
+  return hashFile(source.blob);
+};
+
+export const buildReport = async (source: ReportSource, result: AnalysisResult, chat: ChatMessage[]): Promise<AnalysisReport> => ({
+  schema: 'omnianalyze-report',
+  schemaVersion: REPORT_SCHEMA_VERSION,
+  generatedAt: new Date().toISOString(),
+  tool: { name: TOOL_NAME },
+  file: { name: source.name, size: source.size, hashes: await reportHashes(source, result) },
+  mode: result.mode ?? 'signature',
+  verdict: result.verdict,
+  humanVerdict: result.humanVerdict,
+  summary: result.summary,
+  explanation: result.simpleExplanation,
+  fileType: result.fileType,
+  findings: result.findings ?? [],
+  ruleMatches: result.ruleMatches ?? [],
+  iocs: result.iocs ?? [],
+  policy: result.policy ?? null,
+  recommendations: result.solutions,
+  technicalDetails: result.technicalDetails,
+  chat
+});
+
+export const reportToJson = (report: AnalysisReport): string => JSON.stringify(report, null, 2);
+
+// ---------------------------------------------------------------------------
+// SARIF 2.1.0
+// ---------------------------------------------------------------------------
+
+const SARIF_LEVEL: Record<FindingSeverity, 'error' | 'warning' | 'note'> = {
+  DANGER: 'error',
+  CAUTION: 'warning',
+  INFO: 'note'
+};
+
+/**
+ * One SARIF result per finding. Finding ids become rule ids, so the same
+ * check reported several times (e.g. on different lines) shares one rule.
+ */
+export const reportToSarif = (report: AnalysisReport): string => {
+  const ruleIds = Array.from(new Set(report.findings.map(f => f.id)));
+  const rules = ruleIds.map(id => {
+    const f = report.findings.find(x => x.id === id)!;
+    return {
+      id,
+      name: f.title,
+      shortDescription: { text: f.title },
+      fullDescription: { text: f.description },
+      defaultConfiguration: { level: SARIF_LEVEL[f.severity] },
+      properties: { source: f.source, ...(f.category ? { tags: [f.category] } : {}) }
+    };
+  });
+
+  const results = report.findings.map(f => ({
+    ruleId: f.id,
+    ruleIndex: ruleIds.indexOf(f.id),
+    level: SARIF_LEVEL[f.severity],
+    message: { text: `${f.title}: ${f.description}` },
+    locations: [{
+      physicalLocation: {
+        artifactLocation: { uri: report.file.name, index: 0 },
+        ...(f.line !== undefined || f.snippet
+          ? { region: { ...(f.line !== undefined ? { startLine: f.line } : {}), ...(f.snippet ? { snippet: { text: f.snippet } } : {}) } }
+          : {})
+      }
+    }]
+  }));
+
+  const sarif = {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [{
+      tool: { driver: { name: TOOL_NAME, rules } },
+      artifacts: [{
+        location: { uri: report.file.name },
+        length: report.file.size,
+        hashes: { md5: report.file.hashes.md5, 'sha-1': report.file.hashes.sha1, 'sha-256': report.file.hashes.sha256 }
+      }],
+      invocations: [{ executionSuccessful: true, endTimeUtc: report.generatedAt }],
+      results,
+      properties: {
+        reportSchemaVersion: report.schemaVersion,
+        mode: report.mode,
+        verdict: report.verdict,
+        humanVerdict: report.humanVerdict,
+        policy: report.policy,
+        explanation: report.explanation,
+        recommendations: report.recommendations,
+        chat: report.chat
+      }
+    }]
+  };
+  return JSON.stringify(sarif, null, 2);
+};
+
+// ---------------------------------------------------------------------------
+// Printable HTML
+// ---------------------------------------------------------------------------
+
+const escapeHtml = (text: string): string => {
+  return text.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+};
+
+const VERDICT_COLOR: Record<string, string> = { SAFE: '#047857', CAUTION: '#b45309', DANGER: '#b91c1c', INFO: '#64748b' };
+
+/**
+ * A standalone HTML page with inline styles and no scripts, suitable for
+ * archiving or printing to PDF.
+ */
+export const reportToHtml = (report: AnalysisReport): string => {
+  const e = escapeHtml;
+  const badge = (level: string) => `<span class="badge" style="color:${VERDICT_COLOR[level]};border-color:${VERDICT_COLOR[level]}">${level}</span>`;
+
+  const findings = report.findings.length === 0 ? '<p class="muted">No findings.</p>' : `<table>
+<thead><tr><th>Severity</th><th>Finding</th><th>Evidence</th></tr></thead>
+<tbody>${report.findings.map(f => `<tr><td>${badge(f.severity)}${f.category === 'privacy' ? '<br>Privacy' : ''}</td><td><strong>${e(f.title)}</strong><br>${e(f.description)}</td><td>${f.line !== undefined ? `Line ${f.line}<br>` : ''}${f.snippet ? `<code>${e(f.snippet)}</code>` : ''}</td></tr>`).join('\n')}</tbody>
+</table>`;
+
+  const iocs = report.iocs.length === 0 ? '' : `<h2>Indicators of compromise</h2>
+<table>
+<thead><tr><th>Kind</th><th>Value</th><th>Offset</th></tr></thead>
+<tbody>${report.iocs.map(i => `<tr><td>${i.kind}</td><td><code>${e(i.value)}</code></td><td>0x${i.offset.toString(16).toUpperCase()}</td></tr>`).join('\n')}</tbody>
+</table>`;
+
+  const chat = report.chat.length === 0 ? '' : `<h2>Chat transcript</h2>
+${report.chat.map(m => `<div class="msg"><div class="who">${m.role === 'user' ? 'You' : 'Assistant'}</div><div>${e(m.text).replace(/\n/g, '<br>')}</div></div>`).join('\n')}`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'">
+<title>${e(TOOL_NAME)} report: ${e(report.file.name)}</title>
+<style>
+body { font-family: system-ui, -apple-system, sans-serif; color: #0f172a; max-width: 860px; margin: 2rem auto; padding: 0 1rem; line-height: 1.5; }
+h1 { font-size: 1.6rem; margin-bottom: .25rem; }
+h2 { font-size: 1.1rem; margin-top: 2rem; border-bottom: 1px solid #e2e8f0; padding-bottom: .25rem; }
+table { width: 100%; border-collapse: collapse; font-size: .9rem; }
+th, td { text-align: left; vertical-align: top; padding: .4rem .6rem .4rem 0; border-bottom: 1px solid #f1f5f9; }
+th { font-size: .7rem; text-transform: uppercase; letter-spacing: .1em; color: #94a3b8; }
+code, pre { font-family: ui-monospace, monospace; font-size: .8rem; background: #f8fafc; word-break: break-all; }
+pre { padding: .75rem; white-space: pre-wrap; }
+.badge { display: inline-block; font-size: .7rem; font-weight: 700; letter-spacing: .1em; border: 1px solid; border-radius: 999px; padding: 0 .5rem; }
+.verdict { font-size: 1.2rem; font-weight: 700; }
+.muted { color: #64748b; }
+.msg { margin: .5rem 0; }
+.who { font-size: .7rem; text-transform: uppercase; letter-spacing: .1em; color: #94a3b8; }
+@media print { body { margin: 0; } h2 { break-after: avoid; } tr { break-inside: avoid; } }
+</style>
+</head>
+<body>
+<h1>${e(report.file.name)}</h1>
+<p class="muted">${e(TOOL_NAME)} report • ${e(new Date(report.generatedAt).toLocaleString())} • ${report.mode === 'ai' ? 'AI deep dive' : 'Signature scan'}${report.policy ? ` • ${e(report.policy.name)} policy` : ''}</p>
+<p>${badge(report.verdict)} <span class="verdict">${e(report.humanVerdict)}</span></p>
+<p>${e(report.explanation)}</p>
+
+<h2>File</h2>
+<table>
+<tr><th>Name</th><td>${e(report.file.name)}</td></tr>
+<tr><th>Size</th><td>${report.file.size.toLocaleString()} bytes</td></tr>
+<tr><th>Type</th><td>${e(report.fileType)}</td></tr>
+<tr><th>MD5</th><td><code>${report.file.hashes.md5}</code></td></tr>
+<tr><th>SHA-1</th><td><code>${report.file.hashes.sha1}</code></td></tr>
+<tr><th>SHA-256</th><td><code>${report.file.hashes.sha256}</code></td></tr>
+</table>
+
+<h2>Findings</h2>
+${findings}
+${iocs}
+
+<h2>Recommendations</h2>
+<ul>${report.recommendations.map(s => `<li>${e(s)}</li>`).join('')}</ul>
+
+<h2>Technical details</h2>
+<pre>${e(report.technicalDetails)}</pre>
+${chat}
+</body>
+</html>
+`;
+};
@@ -0,0 +1,555 @@
+import { Finding, FindingSeverity, RuleMatch } from '../types';
+import { DEFAULT_RULESET } from './defaultRules';
+import { findingMessages, listOf, literal, msg } from './i18n';
+
+export type RuleStringType = 'text' | 'hex' | 'regex';
+
+export interface RuleString {
+  /** Identifier including the leading "$", e.g. "$mz". */
+  id: string;
+  type: RuleStringType;
+  value: string;
+  nocase?: boolean;
+  /** Also match the UTF-16LE form of a text string. */
+  wide?: boolean;
+}
+
+export interface DetectionRule {
+  name: string;
+  description?: string;
+  severity: FindingSeverity;
+  tags?: string[];
+  strings: RuleString[];
+  condition: string;
+}
+
+/** How much of a file the rule engine scans. Larger files are matched against their head. */
+export const MAX_RULE_SCAN_BYTES = 16 * 1024 * 1024;
+const MAX_OFFSETS_PER_STRING = 256;
+const CUSTOM_RULES_KEY = 'omni_custom_rules';
+const SEVERITIES: FindingSeverity[] = ['INFO', 'CAUTION', 'DANGER'];
+
+// ---------------------------------------------------------------------------
+// Condition language: a small subset of YARA.
+//   $a, #a > 2, $a at 0, filesize < 2MB, any|all|none|N of them|($a, $b*),
+//   and / or / not, parentheses, true / false
+// ---------------------------------------------------------------------------
+
+type Comparator = '<' | '<=' | '>' | '>=' | '==' | '!=';
+
+type ConditionNode =
+  | { kind: 'bool'; value: boolean }
+  | { kind: 'and' | 'or'; left: ConditionNode; right: ConditionNode }
+  | { kind: 'not'; operand: ConditionNode }
+  | { kind: 'string'; id: string; at?: number }
+  | { kind: 'count'; id: string; op: Comparator; value: number }
+  | { kind: 'filesize'; op: Comparator; value: number }
+  | { kind: 'of'; quantifier: 'any' | 'all' | 'none' | number; patterns: string[] };
+
+interface EvalContext {
+  offsets: Map<string, number[]>;
+  fileSize: number;
+}
+
+const SIZE_UNITS: Record<string, number> = { KB: 1024, MB: 1024 * 1024, GB: 1024 * 1024 * 1024 };
+
+const TOKEN_PATTERN = /\$\w*\*?|#\w+|0x[0-9a-fA-F]+|\d+(?:KB|MB|GB)?|<=|>=|==|!=|[<>(),]|[A-Za-z_]\w*/g;
+
+const tokenize = (input: string): string[] => {
+  const leftover = input.replace(TOKEN_PATTERN, '').trim();
+  if (leftover) throw new Error(`Unexpected "${leftover[0]}" in condition "${input}"`);
+  return input.match(TOKEN_PATTERN) || [];
+};
+
+const parseNumber = (token: string | undefined): number => {
+  if (!token) throw new Error('Expected a number');
+  const unit = token.match(/(KB|MB|GB)$/)?.[1];
+  const value = token.startsWith('0x') ? parseInt(token, 16) : parseInt(token, 10);
+  if (Number.isNaN(value)) throw new Error(`Expected a number, got "${token}"`);
+  return unit ? value * SIZE_UNITS[unit] : value;
+};
+
+const parseCondition = (input: string): ConditionNode => {
+  const tokens = tokenize(input);
+  let pos = 0;
+  const peek = () => tokens[pos];
+  const next = () => tokens[pos++];
+  const expect = (token: string) => {
+    if (next() !== token) throw new Error(`Expected "${token}" in condition "${input}"`);
+  };
+  const comparator = (): Comparator => {
+    const op = next();
+    if (!['<', '<=', '>', '>=', '==', '!='].includes(op)) throw new Error(`Expected a comparison after "${tokens[pos - 2]}"`);
+    return op as Comparator;
+  };
+
+  const parseOr = (): ConditionNode => {
+    let left = parseAnd();
+    while (peek() === 'or') {
+      next();
+      left = { kind: 'or', left, right: parseAnd() };
+    }
+    return left;
+  };
+
+  const parseAnd = (): ConditionNode => {
+    let left = parseNot();
+    while (peek() === 'and') {
+      next();
+      left = { kind: 'and', left, right: parseNot() };
+    }
+    return left;
+  };
+
+  const parseNot = (): ConditionNode => {
+    if (peek() === 'not') {
+      next();
+      return { kind: 'not', operand: parseNot() };
+    }
+    return parsePrimary();
+  };
+
+  const parseSet = (): string[] => {
+    if (peek() === 'them') {
+      next();
+      return ['$*'];
+    }
+    expect('(');
+    const patterns: string[] = [];
+    for (;;) {
+      const id = next();
+      if (!id?.startsWith('$')) throw new Error(`Expected a string identifier in set, got "${id}"`);
+      patterns.push(id);
+      if (peek() !== ',') break;
+      next();
+    }
+    expect(')');
+    return patterns;
+  };
+
+  const parsePrimary = (): ConditionNode => {
+    const token = next();
+    if (token === undefined) throw new Error(`Unexpected end of condition "${input}"`);
+    if (token === '(') {
+      const inner = parseOr();
+      expect(')');
+      return inner;
+    }
+    if (token === 'true' || token === 'false') return { kind: 'bool', value: token === 'true' };
+    if (token === 'filesize') {
+      const op = comparator();
+      return { kind: 'filesize', op, value: parseNumber(next()) };
+    }
+    if (token === 'any' || token === 'all' || token === 'none' || /^\d+$/.test(token)) {
+      expect('of');
+      const quantifier = /^\d+$/.test(token) ? parseInt(token, 10) : token as 'any' | 'all' | 'none';
+      return { kind: 'of', quantifier, patterns: parseSet() };
+    }
+    if (token.startsWith('#')) {
+      const op = comparator();
+      return { kind: 'count', id: `$${token.slice(1)}`, op, value: parseNumber(next()) };
+    }
+    if (token.startsWith('$') && !token.endsWith('*')) {
+      if (peek() === 'at') {
+        next();
+        return { kind: 'string', id: token, at: parseNumber(next()) };
+      }
+      return { kind: 'string', id: token };
+    }
+    throw new Error(`Unexpected "${token}" in condition "${input}"`);
+  };
+
+  const ast = parseOr();
+  if (pos < tokens.length) throw new Error(`Unexpected "${tokens[pos]}" in condition "${input}"`);
+  return ast;
+};
+
+const compare = (a: number, op: Comparator, b: number): boolean => {
+  switch (op) {
+    case '<': return a < b;
+    case '<=': return a <= b;
+    case '>': return a > b;
+    case '>=': return a >= b;
+    case '==': return a === b;
+    case '!=': return a !== b;
+  }
+};
+
+const expandSet = (patterns: string[], ids: string[]): string[] => {
+  return ids.filter(id => patterns.some(p => p.endsWith('*') ? id.startsWith(p.slice(0, -1)) : id === p));
+};
+
+const evaluate = (node: ConditionNode, ctx: EvalContext): boolean => {
+  switch (node.kind) {
+    case 'bool': return node.value;
+    case 'and': return evaluate(node.left, ctx) && evaluate(node.right, ctx);
+    case 'or': return evaluate(node.left, ctx) || evaluate(node.right, ctx);
+    case 'not': return !evaluate(node.operand, ctx);
+    case 'string': {
+      const offsets = ctx.offsets.get(node.id) || [];
+      return node.at === undefined ? offsets.length > 0 : offsets.includes(node.at);
+    }
+    case 'count': return compare((ctx.offsets.get(node.id) || []).length, node.op, node.value);
+    case 'filesize': return compare(ctx.fileSize, node.op, node.value);
+    case 'of': {
+      const ids = expandSet(node.patterns, Array.from(ctx.offsets.keys()));
+      const hits = ids.filter(id => (ctx.offsets.get(id) || []).length > 0).length;
+      if (node.quantifier === 'any') return hits > 0;
+      if (node.quantifier === 'all') return ids.length > 0 && hits === ids.length;
+      if (node.quantifier === 'none') return hits === 0;
+      return hits >= node.quantifier;
+    }
+  }
+};
+
+/** Collects every string identifier a condition refers to, so typos surface at import time. */
+const referencedIds = (node: ConditionNode): string[] => {
+  switch (node.kind) {
+    case 'and': case 'or': return [...referencedIds(node.left), ...referencedIds(node.right)];
+    case 'not': return referencedIds(node.operand);
+    case 'string': case 'count': return [node.id];
+    case 'of': return node.patterns.filter(p => !p.endsWith('*'));
+    default: return [];
+  }
+};
+
+// ---------------------------------------------------------------------------
+// String matching
+// ---------------------------------------------------------------------------
+
+/** A byte pattern where null is a wildcard ("??"). */
+type BytePattern = (number | null)[];
+
+const textToBytes = (value: string): number[] => {
+  // Strings written with \xNN escapes are byte strings; anything else is UTF-8.
+  if (Array.from(value).every(c => c.charCodeAt(0) < 256)) return Array.from(value, c => c.charCodeAt(0));
+  return Array.from(new TextEncoder().encode(value));
+};
+
+const parseHexPattern = (value: string): BytePattern => {
+  const parts = value.replace(/[{}]/g, ' ').trim().split(/\s+/).filter(Boolean);
+  const joined = parts.length === 1 && parts[0].length > 2 ? parts[0].match(/.{1,2}/g) || [] : parts;
+  return joined.map(part => {
+    if (part === '??') return null;
+    if (!/^[0-9a-fA-F]{2}$/.test(part)) throw new Error(`Invalid hex byte "${part}"`);
+    return parseInt(part, 16);
+  });
+};
+
+const foldCase = (b: number) => (b >= 0x41 && b <= 0x5a ? b + 0x20 : b);
+
+const findPattern = (bytes: Uint8Array, pattern: BytePattern, nocase: boolean, out: number[]) => {
+  if (pattern.length === 0) return;
+  const last = bytes.length - pattern.length;
+  for (let i = 0; i <= last && out.length < MAX_OFFSETS_PER_STRING; i++) {
+    let ok = true;
+    for (let j = 0; j < pattern.length; j++) {
+      const expected = pattern[j];
+      if (expected === null) continue;
+      const actual = bytes[i + j];
+      if (nocase ? foldCase(actual) !== foldCase(expected) : actual !== expected) {
+        ok = false;
+        break;
+      }
+    }
+    if (ok) out.push(i);
+  }
+};
+
+interface CompiledRule {
+  rule: DetectionRule;
+  condition: ConditionNode;
+  matchers: { id: string; find: (bytes: Uint8Array, text: () => string) => number[] }[];
+}
+
+const compileString = (s: RuleString): CompiledRule['matchers'][number] => {
+  if (s.type === 'regex') {
+    let regex: RegExp;
+    try {
+      const flags = new Set((s.nocase ? 'i' : '').split('').filter(Boolean));
+      flags.add('g');
+      regex = new RegExp(s.value, Array.from(flags).join(''));
+    } catch (err: any) {
+      throw new Error(`Invalid regex for ${s.id}: ${err.message}`);
+    }
+    return {
+      id: s.id,
+      find: (_bytes, text) => {
+        const offsets: number[] = [];
+        regex.lastIndex = 0;
+        for (const m of text().matchAll(regex)) {
+          offsets.push(m.index ?? 0);
+          if (offsets.length >= MAX_OFFSETS_PER_STRING || m[0].length === 0) break;
+        }
+        return offsets;
+      }
+    };
+  }
+
+  const base: BytePattern = s.type === 'hex' ? parseHexPattern(s.value) : textToBytes(s.value);
+  const patterns = [base];
+  if (s.type === 'text' && s.wide) {
+    patterns.push(base.flatMap(b => [b, 0]));
+  }
+  return {
+    id: s.id,
+    find: (bytes) => {
+      const offsets: number[] = [];
+      patterns.forEach(p => findPattern(bytes, p, !!s.nocase && s.type === 'text', offsets));
+      return offsets.sort((a, b) => a - b);
+    }
+  };
+};
+
+const compiledCache = new WeakMap<DetectionRule, CompiledRule>();
+
+const compileRule = (rule: DetectionRule): CompiledRule => {
+  const cached = compiledCache.get(rule);
+  if (cached) return cached;
+  try {
+    if (!rule.name || !/^\w+$/.test(rule.name)) throw new Error('Rule name must be a single word');
+    if (!SEVERITIES.includes(rule.severity)) throw new Error(`Unknown severity "${rule.severity}"`);
+    const ids = new Set<string>();
+    for (const s of rule.strings) {
+      if (!/^\$\w+$/.test(s.id)) throw new Error(`Invalid string identifier "${s.id}"`);
+      if (ids.has(s.id)) throw new Error(`Duplicate string identifier "${s.id}"`);
+      ids.add(s.id);
+    }
+    const condition = parseCondition(rule.condition);
+    const missing = referencedIds(condition).find(id => !ids.has(id));
+    if (missing) throw new Error(`Condition uses undefined string ${missing}`);
+    const compiled = { rule, condition, matchers: rule.strings.map(compileString) };
+    compiledCache.set(rule, compiled);
+    return compiled;
+  } catch (err: any) {
+    throw new Error(`Rule "${rule.name || '(unnamed)'}": ${err.message}`);
+  }
+};
+
+// ---------------------------------------------------------------------------
+// Ruleset parsing (JSON or YARA-like text)
+// ---------------------------------------------------------------------------
+
+const unescapeString = (literal: string): string => {
+  return literal.replace(/\\(x[0-9a-fA-F]{2}|.)/g, (_m, esc: string) => {
+    if (esc[0] === 'x') return String.fromCharCode(parseInt(esc.slice(1), 16));
+    return ({ n: '\n', r: '\r', t: '\t', '0': '\0' } as Record<string, string>)[esc] ?? esc;
+  });
+};
+
+const parseStringLine = (line: string, lineNo: number): RuleString => {
+  const m = line.match(/^(\$\w+)\s*=\s*(.+)$/);
+  if (!m) throw new Error(`Line ${lineNo}: expected "$id = value"`);
+  const [, id, rest] = m;
+  let value: string;
+  let type: RuleStringType;
+  let modifiers: string;
+  if (rest.startsWith('"')) {
+    let closeIdx = 1;
+    while (closeIdx < rest.length && rest[closeIdx] !== '"') {
+      closeIdx += rest[closeIdx] === '\\' ? 2 : 1;
+    }
+    if (closeIdx >= rest.length) throw new Error(`Line ${lineNo}: unterminated string`);
+    value = unescapeString(rest.slice(1, closeIdx));
+    modifiers = rest.slice(closeIdx + 1);
+    type = 'text';
+  } else if (rest.startsWith('{')) {
+    const closeIdx = rest.indexOf('}');
+    if (closeIdx < 0) throw new Error(`Line ${lineNo}: unterminated hex string`);
+    value = rest.slice(1, closeIdx).trim();
+    modifiers = rest.slice(closeIdx + 1);
+    type = 'hex';
+  } else if (rest.startsWith('/')) {
+    const closeIdx = rest.lastIndexOf('/');
+    if (closeIdx <= 0) throw new Error(`Line ${lineNo}: unterminated regex`);
+    value = rest.slice(1, closeIdx);
+    modifiers = rest.slice(closeIdx + 1);
+    type = 'regex';
+    if (/^i/.test(modifiers)) modifiers = ' nocase' + modifiers.slice(1);
+  } else {
+    throw new Error(`Line ${lineNo}: string value must be "text", { hex } or /regex/`);
+  }
+  const flags = modifiers.trim().split(/\s+/).filter(Boolean);
+  return { id, type, value, nocase: flags.includes('nocase') || undefined, wide: flags.includes('wide') || undefined };
+};
+
+const parseMetaValue = (raw: string): string => {
+  const trimmed = raw.trim();
+  return trimmed.startsWith('"') && trimmed.endsWith('"') ? unescapeString(trimmed.slice(1, -1)) : trimmed;
+};
+
+/**
+ * Parses YARA-style rules. Supported: meta (description, severity), strings
+ * (text with nocase/wide, { hex ?? }, /regex/i) and the condition subset above.
+ * The closing brace of each rule must sit on its own line.
+ */
+const parseRuleText = (text: string): DetectionRule[] => {
+  const rules: DetectionRule[] = [];
+  let current: DetectionRule | null = null;
+  let section: 'meta' | 'strings' | 'condition' | null = null;
+  const conditionLines: string[] = [];
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const lineNo = index + 1;
+    const line = rawLine.trim();
+    if (!line || line.startsWith('//')) return;
+
+    if (!current) {
+      const header = line.match(/^rule\s+(\w+)\s*(?::\s*([\w\s]+?))?\s*\{$/);
+      if (!header) throw new Error(`Line ${lineNo}: expected "rule Name {"`);
+      current = { name: header[1], severity: 'CAUTION', tags: header[2]?.split(/\s+/).filter(Boolean), strings: [], condition: '' };
+      section = null;
+      conditionLines.length = 0;
+      return;
+    }
+
+    if (line === '}') {
+      current.condition = conditionLines.join(' ');
+      rules.push(current);
+      current = null;
+      return;
+    }
+
+    // Text after a section header on the same line, as in `strings: $a = "x"`, belongs to that section.
+    const sectionHeader = line.match(/^(meta|strings|condition):\s*(.*)$/);
+    if (sectionHeader) section = sectionHeader[1] as typeof section;
+    const body = sectionHeader ? sectionHeader[2] : line;
+    if (!body) return;
+
+    if (section === 'meta') {
+      const m = body.match(/^(\w+)\s*=\s*(.+)$/);
+      if (!m) throw new Error(`Line ${lineNo}: expected "key = value" in meta`);
+      const value = parseMetaValue(m[2]);
+      if (m[1] === 'description') current.description = value;
+      if (m[1] === 'severity') current.severity = value.toUpperCase() as FindingSeverity;
+    } else if (section === 'strings') {
+      current.strings.push(parseStringLine(body, lineNo));
+    } else if (section === 'condition') {
+      conditionLines.push(body);
+    } else {
+      throw new Error(`Line ${lineNo}: expected meta:, strings: or condition:`);
+    }
+  });
+
+  if (current) throw new Error(`Rule "${(current as DetectionRule).name}" is missing its closing "}"`);
+  return rules;
+};
+
+const normalizeJsonRule = (raw: any): DetectionRule => ({
+  name: String(raw?.name ?? ''),
+  description: raw?.description ? String(raw.description) : undefined,
+  severity: String(raw?.severity ?? 'CAUTION').toUpperCase() as FindingSeverity,
+  tags: Array.isArray(raw?.tags) ? raw.tags.map(String) : undefined,
+  strings: Array.isArray(raw?.strings) ? raw.strings.map((s: any) => ({
+    id: String(s?.id ?? ''),
+    type: (['text', 'hex', 'regex'].includes(s?.type) ? s.type : 'text') as RuleStringType,
+    value: String(s?.value ?? ''),
+    nocase: !!s?.nocase || undefined,
+    wide: !!s?.wide || undefined
+  })) : [],
+  condition: String(raw?.condition ?? 'any of them')
+});
+
+/**
+ * Parses a ruleset from JSON (an array of rules or `{ "rules": [...] }`)
+ * or YARA-style text. Throws with a readable message on the first bad rule.
+ */
+export const parseRuleset = (source: string): DetectionRule[] => {
+  const trimmed = source.trim();
+  let rules: DetectionRule[];
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    const parsed = JSON.parse(trimmed);
+    const list = Array.isArray(parsed) ? parsed : parsed?.rules;
+    if (!Array.isArray(list)) throw new Error('JSON ruleset must be an array or have a "rules" array');
+    rules = list.map(normalizeJsonRule);
+  } else {
+    rules = parseRuleText(trimmed);
+  }
+  rules.forEach(compileRule);
+  return rules;
+};
+
+/**
+ * Runs every rule against `bytes` and returns the rules whose condition holds.
+ * `fileSize` is the real size, which may exceed the scanned bytes.
+ */
+export const evaluateRules = (rules: DetectionRule[], bytes: Uint8Array, fileSize: number): RuleMatch[] => {
+  let decoded: string | null = null;
+  const text = () => (decoded ??= new TextDecoder('latin1').decode(bytes));
+
+  return rules.flatMap(rule => {
+    const compiled = compileRule(rule);
+    const offsets = new Map<string, number[]>();
+    compiled.matchers.forEach(m => offsets.set(m.id, m.find(bytes, text)));
+    if (!evaluate(compiled.condition, { offsets, fileSize })) return [];
+    return [{
+      rule: rule.name,
+      description: rule.description,
+      severity: rule.severity,
+      tags: rule.tags || [],
+      strings: Array.from(offsets.entries())
+        .filter(([, hits]) => hits.length > 0)
+        .map(([id, hits]) => ({ id, count: hits.length, firstOffset: hits[0] }))
+    }];
+  });
+};
+
+/** The rule's name and description are its author's words, so only the wording around them is translated. */
+export const ruleMatchToFinding = (match: RuleMatch): Finding => {
+  const name = match.rule.replace(/_/g, ' ');
+  const summary = match.description ? literal(match.description) : msg('rule.matched', { name });
+  const hits = match.strings.map(s => {
+    const offset = `0x${s.firstOffset.toString(16)}`;
+    return s.count > 1 ? msg('rule.hitRepeated', { id: s.id, offset, times: s.count }) : msg('rule.hit', { id: s.id, offset });
+  });
+  return {
+    id: `rule:${match.rule}`,
+    ...findingMessages(literal(name), hits.length ? msg('rule.evidence', { summary, hits: listOf(hits) }) : summary),
+    severity: match.severity,
+    source: 'rule'
+  };
+};
+
+// ---------------------------------------------------------------------------
+// Active ruleset
+// ---------------------------------------------------------------------------
+
+let bundledRules: DetectionRule[] | null = null;
+
+export const getBundledRules = (): DetectionRule[] => (bundledRules ??= parseRuleset(DEFAULT_RULESET));
+
+/** Empty outside the page (workers, Node), where only the bundled rules apply unless rules are passed in. */
+export const getCustomRulesetSource = (): string =>
+  typeof localStorage === 'undefined' ? '' : localStorage.getItem(CUSTOM_RULES_KEY) || '';
+
+/** Validates and stores a user ruleset. Throws without saving if it does not parse. */
+export const saveCustomRuleset = (source: string): DetectionRule[] => {
+  const rules = parseRuleset(source);
+  localStorage.setItem(CUSTOM_RULES_KEY, source);
+  return rules;
+};
+
+export const clearCustomRuleset = () => localStorage.removeItem(CUSTOM_RULES_KEY);
+
+/** Why the saved ruleset no longer parses, for the rules settings to show; null when it parses or there is none. */
+export const getCustomRulesetError = (): string | null => {
+  const custom = getCustomRulesetSource();
+  if (!custom) return null;
+  try {
+    parseRuleset(custom);
+    return null;
+  } catch (err: any) {
+    return err.message || String(err);
+  }
+};
+
+/** The bundled rules plus the saved ones; a saved ruleset that no longer parses is skipped (see getCustomRulesetError). */
+export const getActiveRules = (): DetectionRule[] => {
+  const custom = getCustomRulesetSource();
+  if (!custom) return getBundledRules();
+  try {
+    return [...getBundledRules(), ...parseRuleset(custom)];
+  } catch {
+    return getBundledRules();
+  }
+};
@@ -0,0 +1,81 @@
+/**
+ * CSP for preview frames: no scripts, no network, no frames, no forms.
+ * Inline styles and data: images are the only things that load.
+ */
+export const PREVIEW_CSP = "default-src 'none'; img-src data:; style-src 'unsafe-inline'; font-src data:; form-action 'none'; frame-src 'none'; base-uri 'none'";
+
+/** Elements removed outright: they run code, load other documents or navigate. */
+const BLOCKED_ELEMENTS = 'script, noscript, iframe, frame, frameset, object, embed, applet, portal, base, link, meta[http-equiv], audio, video, source, track';
+const URL_ATTRIBUTES = ['href', 'src', 'srcset', 'action', 'formaction', 'poster', 'background', 'data', 'ping', 'xlink:href', 'lowsrc', 'dynsrc'];
+
+export interface SanitizedPreview {
+  /** Markup for an iframe's srcdoc, with the CSP as its first element. */
+  html: string;
+  /** What was taken out, e.g. "3 scripts", for display next to the preview. */
+  removed: string[];
+}
+
+const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? '' : 's'}`;
+
+/**
+ * Renders untrusted HTML or SVG inert so it can be shown in a sandboxed
+ * iframe. DOMParser builds the document without running scripts or fetching
+ * anything; dangerous elements, event handlers and every non-data URL are
+ * then removed. The sandbox and CSP are the real boundary; this is the
+ * second layer, and it also stops the frame navigating away via links.
+ */
+export const sanitizeForPreview = (source: string, kind: 'html' | 'svg'): SanitizedPreview => {
+  const doc = new DOMParser().parseFromString(source, kind === 'svg' ? 'image/svg+xml' : 'text/html');
+  if (kind === 'svg' && doc.getElementsByTagName('parsererror').length > 0) {
+    return { html: `<!DOCTYPE html><html><head><meta http-equiv="Content-Security-Policy" content="${PREVIEW_CSP}"></head><body><p>This SVG is not well-formed XML and could not be previewed.</p></body></html>`, removed: [] };
+  }
+
+  const counts = new Map<string, number>();
+  const count = (what: string) => counts.set(what, (counts.get(what) ?? 0) + 1);
+
+  for (const el of Array.from(doc.querySelectorAll(BLOCKED_ELEMENTS))) {
+    count(el.localName === 'script' ? 'script' : 'embedded or linked element');
+    el.remove();
+  }
+  // SVG can run script from <foreignObject> HTML and animate attributes into javascript: URLs.
+  for (const el of Array.from(doc.querySelectorAll('foreignObject, animate, set, animateMotion, animateTransform, handler, listener'))) {
+    count('active SVG element');
+    el.remove();
+  }
+  for (const el of Array.from(doc.querySelectorAll('*'))) {
+    for (const attr of Array.from(el.attributes)) {
+      const name = attr.name.toLowerCase();
+      if (name.startsWith('on')) {
+        count('event handler');
+        el.removeAttribute(attr.name);
+      } else if (URL_ATTRIBUTES.includes(name) || name.endsWith(':href')) {
+        const value = attr.value.trim();
+        if (/^data:image\/(?!svg)/i.test(value)) continue;
+        if (value && !value.startsWith('#')) count(el.localName === 'a' ? 'link' : 'remote resource');
+        if (!value.startsWith('#')) el.removeAttribute(attr.name);
+      } else if (name === 'style' && /url\s*\(|expression\s*\(/i.test(attr.value)) {
+        count('remote resource');
+        el.removeAttribute(attr.name);
+      }
+    }
+  }
+  for (const style of Array.from(doc.querySelectorAll('style'))) {
+    if (/@import|url\s*\(/i.test(style.textContent ?? '')) {
+      count('remote resource');
+      style.textContent = (style.textContent ?? '').replace(/@import[^;]*;?/gi, '').replace(/url\s*\([^)]*\)/gi, 'none');
+    }
+  }
+
+  const meta = `<meta http-equiv="Content-Security-Policy" content="${PREVIEW_CSP}">`;
+  let html: string;
+  if (kind === 'svg') {
+    html = `<!DOCTYPE html><html><head>${meta}<style>body{margin:0;display:flex;justify-content:center}svg{max-width:100%;height:auto}</style></head><body>${new XMLSerializer().serializeToString(doc.documentElement)}</body></html>`;
+  } else {
+    doc.head.insertAdjacentHTML('afterbegin', meta);
+    html = `<!DOCTYPE html>${doc.documentElement.outerHTML}`;
+  }
+  return {
+    html,
+    removed: [...counts.entries()].map(([what, n]) => plural(n, what))
+  };
+};
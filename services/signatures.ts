@@ -0,0 +1,200 @@
+export type SignatureCategory = 'executable' | 'script' | 'archive' | 'document' | 'image' | 'media' | 'web' | 'text';
+
+export interface FileSignature {
+  id: string;
+  label: string;
+  mimeType: string;
+  category: SignatureCategory;
+  /** Extensions that legitimately carry this signature. */
+  extensions: string[];
+}
+
+export interface SignatureMatch extends FileSignature {
+  /** Human readable description of the bytes that matched, e.g. "4D 5A @ 0". */
+  evidence: string;
+}
+
+/** How many leading bytes the detector needs to see (ISO 9660 puts its marker at 0x8001). */
+export const SIGNATURE_HEADER_SIZE = 0x8008;
+
+interface MagicRule {
+  signature: FileSignature;
+  test: (bytes: Uint8Array) => number | null;
+}
+
+const ZIP_EXTENSIONS = ['zip', 'docx', 'xlsx', 'pptx', 'docm', 'xlsm', 'pptm', 'odt', 'ods', 'odp', 'jar', 'apk', 'epub', 'xpi', 'vsix', 'nupkg', 'whl', 'ipa', 'crx'];
+const OLE_EXTENSIONS = ['doc', 'xls', 'ppt', 'msi', 'msg', 'pub', 'vsd', 'dot', 'xlt', 'pot'];
+const TEXT_EXTENSIONS = ['txt', 'md', 'csv', 'tsv', 'log', 'json', 'xml', 'yml', 'yaml', 'ini', 'cfg', 'conf', 'toml', 'js', 'mjs', 'cjs', 'ts', 'tsx', 'jsx', 'css', 'py', 'rb', 'pl', 'php', 'java', 'c', 'h', 'cpp', 'cs', 'go', 'rs', 'sql', 'bat', 'cmd', 'ps1', 'vbs', 'sh', 'bash', 'zsh', 'eml', 'rtf', 'reg', 'html', 'htm', 'svg'];
+
+/** Whether `magic` appears at `offset` in `bytes`. */
+const at = (bytes: Uint8Array, offset: number, magic: number[]): boolean => {
+  if (bytes.length < offset + magic.length) return false;
+  return magic.every((b, i) => bytes[offset + i] === b);
+};
+
+const ascii = (text: string): number[] => Array.from(text, c => c.charCodeAt(0));
+
+const readUint32LE = (bytes: Uint8Array, offset: number): number =>
+  (bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16) | (bytes[offset + 3] << 24)) >>> 0;
+
+/** Finds an ASCII marker anywhere in the first `limit` bytes. */
+const indexOfAscii = (bytes: Uint8Array, marker: string, limit = bytes.length): number => {
+  const needle = ascii(marker);
+  const end = Math.min(bytes.length, limit) - needle.length;
+  for (let i = 0; i <= end; i++) {
+    if (at(bytes, i, needle)) return i;
+  }
+  return -1;
+};
+
+const simple = (offset: number, magic: number[]) => (bytes: Uint8Array) => at(bytes, offset, magic) ? offset : null;
+
+const MAGIC_RULES: MagicRule[] = [
+  {
+    signature: { id: 'pe', label: 'Windows Executable (PE)', mimeType: 'application/vnd.microsoft.portable-executable', category: 'executable', extensions: ['exe', 'dll', 'sys', 'scr', 'cpl', 'ocx', 'com', 'efi', 'drv'] },
+    test: (bytes) => {
+      if (!at(bytes, 0, ascii('MZ'))) return null;
+      // "MZ" alone is too common in text (a CSV of countries starts "MZ,Mozambique"), so require the
+      // "PE\0\0" header that e_lfanew points at; anything else falls through to the text rules.
+      if (bytes.length < 0x40) return null;
+      const peOffset = readUint32LE(bytes, 0x3c);
+      return peOffset >= 0x40 && at(bytes, peOffset, [0x50, 0x45, 0x00, 0x00]) ? 0 : null;
+    }
+  },
+  { signature: { id: 'elf', label: 'Linux Executable (ELF)', mimeType: 'application/x-elf', category: 'executable', extensions: ['elf', 'so', 'o', 'bin', 'axf', 'ko'] }, test: simple(0, [0x7f, 0x45, 0x4c, 0x46]) },
+  { signature: { id: 'macho', label: 'macOS Executable (Mach-O)', mimeType: 'application/x-mach-binary', category: 'executable', extensions: ['dylib', 'bundle', 'o', 'app'] }, test: (bytes) => (
+    at(bytes, 0, [0xfe, 0xed, 0xfa, 0xce]) || at(bytes, 0, [0xfe, 0xed, 0xfa, 0xcf]) ||
+    at(bytes, 0, [0xce, 0xfa, 0xed, 0xfe]) || at(bytes, 0, [0xcf, 0xfa, 0xed, 0xfe])
+  ) ? 0 : null },
+  {
+    // 0xCAFEBABE is shared by Mach-O universal binaries and Java class files; the second word disambiguates.
+    signature: { id: 'macho-fat', label: 'macOS Universal Binary (Mach-O)', mimeType: 'application/x-mach-binary', category: 'executable', extensions: ['dylib', 'bundle', 'app'] },
+    test: (bytes) => at(bytes, 0, [0xca, 0xfe, 0xba, 0xbe]) && bytes.length >= 8 && bytes[4] === 0 && bytes[5] === 0 && bytes[6] === 0 && bytes[7] > 0 && bytes[7] < 20 ? 0 : null
+  },
+  { signature: { id: 'java-class', label: 'Java Class File', mimeType: 'application/java-vm', category: 'executable', extensions: ['class'] }, test: simple(0, [0xca, 0xfe, 0xba, 0xbe]) },
+  { signature: { id: 'zip', label: 'ZIP Archive', mimeType: 'application/zip', category: 'archive', extensions: ZIP_EXTENSIONS }, test: (bytes) => (
+    at(bytes, 0, [0x50, 0x4b, 0x03, 0x04]) || at(bytes, 0, [0x50, 0x4b, 0x05, 0x06]) || at(bytes, 0, [0x50, 0x4b, 0x07, 0x08])
+  ) ? 0 : null },
+  { signature: { id: 'rar', label: 'RAR Archive', mimeType: 'application/vnd.rar', category: 'archive', extensions: ['rar'] }, test: simple(0, [0x52, 0x61, 0x72, 0x21, 0x1a, 0x07]) },
+  { signature: { id: '7z', label: '7-Zip Archive', mimeType: 'application/x-7z-compressed', category: 'archive', extensions: ['7z'] }, test: simple(0, [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c]) },
+  { signature: { id: 'gzip', label: 'GZIP Archive', mimeType: 'application/gzip', category: 'archive', extensions: ['gz', 'tgz'] }, test: simple(0, [0x1f, 0x8b]) },
+  { signature: { id: 'cab', label: 'Microsoft Cabinet Archive', mimeType: 'application/vnd.ms-cab-compressed', category: 'archive', extensions: ['cab'] }, test: simple(0, ascii('MSCF')) },
+  { signature: { id: 'iso', label: 'ISO Disk Image', mimeType: 'application/x-iso9660-image', category: 'archive', extensions: ['iso'] }, test: simple(0x8001, ascii('CD001')) },
+  // PDF readers accept the header anywhere in the first KB, and so do attackers.
+  { signature: { id: 'pdf', label: 'PDF Document', mimeType: 'application/pdf', category: 'document', extensions: ['pdf'] }, test: (bytes) => {
+    const idx = indexOfAscii(bytes, '%PDF-', 1024);
+    return idx >= 0 ? idx : null;
+  } },
+  { signature: { id: 'ole2', label: 'Microsoft Compound File (OLE2)', mimeType: 'application/x-ole-storage', category: 'document', extensions: OLE_EXTENSIONS }, test: simple(0, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]) },
+  { signature: { id: 'rtf', label: 'Rich Text Document', mimeType: 'application/rtf', category: 'document', extensions: ['rtf', 'doc'] }, test: simple(0, ascii('{\\rtf')) },
+  { signature: { id: 'png', label: 'PNG Image', mimeType: 'image/png', category: 'image', extensions: ['png'] }, test: simple(0, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]) },
+  { signature: { id: 'jpeg', label: 'JPEG Image', mimeType: 'image/jpeg', category: 'image', extensions: ['jpg', 'jpeg', 'jpe', 'jfif'] }, test: simple(0, [0xff, 0xd8, 0xff]) },
+  { signature: { id: 'gif', label: 'GIF Image', mimeType: 'image/gif', category: 'image', extensions: ['gif'] }, test: (bytes) => (at(bytes, 0, ascii('GIF87a')) || at(bytes, 0, ascii('GIF89a'))) ? 0 : null },
+  { signature: { id: 'webp', label: 'WebP Image', mimeType: 'image/webp', category: 'image', extensions: ['webp'] }, test: (bytes) => at(bytes, 0, ascii('RIFF')) && at(bytes, 8, ascii('WEBP')) ? 0 : null },
+  { signature: { id: 'bmp', label: 'Bitmap Image', mimeType: 'image/bmp', category: 'image', extensions: ['bmp', 'dib'] }, test: (bytes) => at(bytes, 0, ascii('BM')) && bytes.length >= 26 && [12, 40, 52, 56, 108, 124].includes(readUint32LE(bytes, 14)) ? 0 : null },
+  { signature: { id: 'ico', label: 'Icon Image', mimeType: 'image/x-icon', category: 'image', extensions: ['ico', 'cur'] }, test: simple(0, [0x00, 0x00, 0x01, 0x00]) },
+  { signature: { id: 'heic', label: 'HEIC/HEIF Image', mimeType: 'image/heic', category: 'image', extensions: ['heic', 'heif', 'avif'] }, test: (bytes) => {
+    if (!at(bytes, 4, ascii('ftyp'))) return null;
+    const brand = String.fromCharCode(...bytes.slice(8, 12));
+    return ['heic', 'heix', 'hevc', 'mif1', 'msf1', 'avif'].includes(brand) ? 4 : null;
+  } },
+  { signature: { id: 'mp4', label: 'MPEG-4 Media', mimeType: 'video/mp4', category: 'media', extensions: ['mp4', 'm4a', 'm4v', 'mov', '3gp'] }, test: simple(4, ascii('ftyp')) },
+  { signature: { id: 'mp3', label: 'MP3 Audio', mimeType: 'audio/mpeg', category: 'media', extensions: ['mp3'] }, test: simple(0, ascii('ID3')) },
+  { signature: { id: 'wasm', label: 'WebAssembly Module', mimeType: 'application/wasm', category: 'executable', extensions: ['wasm'] }, test: simple(0, [0x00, 0x61, 0x73, 0x6d]) },
+  { signature: { id: 'lnk', label: 'Windows Shortcut (LNK)', mimeType: 'application/x-ms-shortcut', category: 'executable', extensions: ['lnk'] }, test: simple(0, [0x4c, 0x00, 0x00, 0x00, 0x01, 0x14, 0x02, 0x00]) },
+];
+
+const SHEBANG_INTERPRETERS: Record<string, string[]> = {
+  sh: ['sh', 'bash', 'zsh', 'ksh', 'dash', 'command'],
+  py: ['python', 'python2', 'python3'],
+  pl: ['perl'],
+  rb: ['ruby'],
+  js: ['node', 'nodejs', 'deno', 'bun'],
+  php: ['php'],
+};
+
+/**
+ * Decodes the leading bytes as text if they look like text, otherwise returns null.
+ * NUL bytes or a high ratio of control characters mean binary.
+ */
+const sniffText = (bytes: Uint8Array): string | null => {
+  if (bytes.length === 0) return null;
+  let control = 0;
+  for (const b of bytes) {
+    if (b === 0) return null;
+    if (b < 0x09 || (b > 0x0d && b < 0x20)) control++;
+  }
+  if (control / bytes.length > 0.05) return null;
+  return new TextDecoder('utf-8', { fatal: false }).decode(bytes);
+};
+
+const detectTextual = (bytes: Uint8Array): SignatureMatch | null => {
+  const text = sniffText(bytes);
+  if (text === null) return null;
+  const head = text.replace(/^﻿/, '').trimStart();
+
+  if (head.startsWith('#!')) {
+    const line = head.split(/\r?\n/, 1)[0];
+    const parts = line.slice(2).trim().split(/\s+/);
+    // "#!/usr/bin/env python3" names the interpreter in the second word.
+    const interpreter = (parts[0]?.endsWith('/env') ? parts[1] : parts[0])?.split('/').pop() || 'unknown';
+    const family = Object.keys(SHEBANG_INTERPRETERS).find(ext => SHEBANG_INTERPRETERS[ext].some(name => interpreter.startsWith(name)));
+    const extensions = family ? [family, ...(family === 'sh' ? ['bash', 'zsh', 'command', 'run'] : [])] : [];
+    return {
+      id: 'shebang',
+      label: `Script (${interpreter})`,
+      mimeType: 'text/x-script',
+      category: 'script',
+      extensions: [...extensions, ''],
+      evidence: line.slice(0, 80),
+    };
+  }
+
+  const lower = head.slice(0, 512).toLowerCase();
+  if (lower.startsWith('<svg') || (lower.startsWith('<?xml') && lower.includes('<svg'))) {
+    return { id: 'svg', label: 'SVG Image', mimeType: 'image/svg+xml', category: 'web', extensions: ['svg', 'xml'], evidence: '<svg' };
+  }
+  if (lower.startsWith('<!doctype html') || lower.startsWith('<html') || /^<(head|body|script|iframe)[\s>]/.test(lower)) {
+    return { id: 'html', label: 'HTML Document', mimeType: 'text/html', category: 'web', extensions: ['html', 'htm', 'xhtml', 'hta', 'php'], evidence: head.slice(0, 15) };
+  }
+  if (lower.startsWith('<?xml')) {
+    return { id: 'xml', label: 'XML Document', mimeType: 'application/xml', category: 'text', extensions: TEXT_EXTENSIONS.concat(['xml', 'xsl', 'xslt', 'plist', 'config']), evidence: '<?xml' };
+  }
+  return { id: 'text', label: 'Plain Text', mimeType: 'text/plain', category: 'text', extensions: TEXT_EXTENSIONS.concat(['']), evidence: 'printable text' };
+};
+
+const hex = (bytes: Uint8Array, offset: number, length: number) =>
+  Array.from(bytes.slice(offset, offset + length), b => b.toString(16).padStart(2, '0').toUpperCase()).join(' ');
+
+/**
+ * Identifies a file from its leading bytes, independent of its name.
+ * Returns null when the content matches no known signature and is not text.
+ */
+export const detectSignature = (bytes: Uint8Array): SignatureMatch | null => {
+  for (const rule of MAGIC_RULES) {
+    const offset = rule.test(bytes);
+    if (offset !== null) {
+      return { ...rule.signature, evidence: `${hex(bytes, offset, 8)} @ ${offset}` };
+    }
+  }
+  return detectTextual(bytes);
+};
+
+/**
+ * Returns the binary signature a given extension promises, if any.
+ * Used to tell "declared PDF that is really text" from "plain .txt".
+ */
+export const expectedSignatureForExtension = (ext: string): FileSignature | null => {
+  const rule = MAGIC_RULES.find(r => r.signature.extensions.includes(ext));
+  return rule ? rule.signature : null;
+};
+
+/** Whether content of type `match` is expected under extension `ext`. */
+export const extensionMatchesSignature = (ext: string, match: SignatureMatch): boolean => {
+  if (match.extensions.includes(ext)) return true;
+  // Versioned shared objects such as libc.so.6.
+  if (match.id === 'elf' && /^\d+$/.test(ext)) return true;
+  // Text content is only a mismatch when the extension promises a binary format.
+  if (match.category === 'text') return expectedSignatureForExtension(ext) === null;
+  return false;
+};
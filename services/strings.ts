@@ -0,0 +1,165 @@
+import { Ioc, IocKind } from '../types';
+import { createSha256 } from '../utils/digests';
+
+export type StringEncoding = 'ascii' | 'utf16le';
+
+export interface ExtractedString {
+  offset: number;
+  value: string;
+  encoding: StringEncoding;
+}
+
+export interface IocSpan {
+  kind: IocKind;
+  start: number;
+  end: number;
+}
+
+export const DEFAULT_MIN_STRING_LENGTH = 4;
+/** Strings kept per extraction; enough for any real file, bounded for packed junk. */
+export const MAX_STRINGS = 100_000;
+/** IOCs kept per file. */
+export const MAX_IOCS = 500;
+
+// Country and generic TLDs that commonly show up in malware. File extensions
+// that double as TLDs (.py, .sh, .zip, .mov...) are left out on purpose.
+const TLDS = 'com|net|org|edu|gov|mil|int|info|biz|io|co|me|ru|cn|uk|de|fr|jp|br|in|it|nl|pl|es|au|ca|ch|se|no|fi|ua|kr|kp|ir|tw|hk|us|eu|su|tk|ml|ga|cf|gq|pw|xyz|top|online|site|club|app|dev|onion';
+
+const IOC_PATTERNS: [IocKind, RegExp][] = [
+  ['url', /\b(?:https?|ftp):\/\/[^\s"'<>`\\^{}|]+/gi],
+  ['email', /\b[a-z0-9._%+-]+@(?:[a-z0-9-]+\.)+[a-z]{2,24}\b/gi],
+  ['ip', /\b(?:(?:25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)\.){3}(?:25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)\b/g],
+  ['domain', new RegExp(`\\b(?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\\.)+(?:${TLDS})\\b`, 'gi')],
+  ['registry', /\b(?:HKEY_(?:LOCAL_MACHINE|CURRENT_USER|CLASSES_ROOT|USERS|CURRENT_CONFIG)|HK(?:LM|CU|CR|U|CC))\\[^\s"'<>|*?]+/gi],
+  ['bitcoin', /\b(?:[13][1-9A-HJ-NP-Za-km-z]{25,34}|bc1[02-9ac-hj-np-z]{11,71})\b/gi]
+];
+
+const BASE58 = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+const BECH32 = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+
+const sha256 = (bytes: Uint8Array): Uint8Array => {
+  const hash = createSha256();
+  hash.update(bytes);
+  return Uint8Array.from(hash.digest().match(/../g)!, h => parseInt(h, 16));
+};
+
+/** Legacy addresses carry a double SHA-256 checksum; random base58 text almost never passes it. */
+const isBase58Address = (value: string): boolean => {
+  let n = 0n;
+  for (const c of value) n = n * 58n + BigInt(BASE58.indexOf(c));
+  const bytes = new Uint8Array(25);
+  for (let i = 24; i >= 0; i--, n >>= 8n) bytes[i] = Number(n & 0xffn);
+  if (n !== 0n) return false;
+  const check = sha256(sha256(bytes.subarray(0, 21)));
+  return check.subarray(0, 4).every((b, i) => b === bytes[21 + i]);
+};
+
+/** Segwit addresses use a BCH checksum (bech32, or bech32m for taproot). */
+const isBech32Address = (value: string): boolean => {
+  const data = value.toLowerCase().slice(3);
+  const values = [3, 3, 0, 2, 3, ...Array.from(data, c => BECH32.indexOf(c))];
+  const GEN = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3];
+  let chk = 1;
+  for (const v of values) {
+    const top = chk >>> 25;
+    chk = ((chk & 0x1ffffff) << 5) ^ v;
+    for (let i = 0; i < 5; i++) if ((top >>> i) & 1) chk ^= GEN[i];
+  }
+  return chk === 1 || chk === 0x2bc830a3;
+};
+
+const accept = (kind: IocKind, value: string): boolean => {
+  if (kind === 'bitcoin') return value.toLowerCase().startsWith('bc1') ? isBech32Address(value) : isBase58Address(value);
+  if (kind === 'ip') return value !== '0.0.0.0' && !value.startsWith('127.');
+  // Mixed case is a code namespace (System.IO), not a host name.
+  if (kind === 'domain') return value === value.toLowerCase() || value === value.toUpperCase();
+  return true;
+};
+
+const clean = (kind: IocKind, value: string): string => {
+  return kind === 'url' ? value.replace(/[.,;:!?)\]]+$/, '') : value;
+};
+
+/**
+ * Every IOC in one string, longest first where they overlap, so a URL wins
+ * over the domain and IP inside it.
+ */
+export const iocSpans = (text: string): IocSpan[] => {
+  const spans: IocSpan[] = [];
+  for (const [kind, pattern] of IOC_PATTERNS) {
+    for (const match of text.matchAll(pattern)) {
+      const value = clean(kind, match[0]);
+      if (accept(kind, value)) spans.push({ kind, start: match.index!, end: match.index! + value.length });
+    }
+  }
+  spans.sort((a, b) => a.start - b.start || b.end - a.end);
+  const kept: IocSpan[] = [];
+  for (const span of spans) {
+    if (kept.length === 0 || span.start >= kept[kept.length - 1].end) kept.push(span);
+  }
+  return kept;
+};
+
+/**
+ * Collects unique IOCs from extracted strings. Unlike `iocSpans`, overlaps
+ * are all kept: the domain and IP inside a URL are indicators in their own
+ * right.
+ */
+export const findIocs = (strings: ExtractedString[]): Ioc[] => {
+  const seen = new Map<string, Ioc>();
+  for (const s of strings) {
+    for (const [kind, pattern] of IOC_PATTERNS) {
+      for (const match of s.value.matchAll(pattern)) {
+        const value = clean(kind, match[0]);
+        const key = `${kind}:${value.toLowerCase()}`;
+        if (seen.has(key) || !accept(kind, value)) continue;
+        seen.set(key, { kind, value, offset: s.offset });
+        if (seen.size >= MAX_IOCS) return [...seen.values()];
+      }
+    }
+  }
+  return [...seen.values()];
+};
+
+const isPrintable = (b: number) => (b >= 0x20 && b < 0x7f) || b === 0x09;
+
+const latin1 = new TextDecoder('latin1');
+const utf16 = new TextDecoder('utf-16le');
+
+/**
+ * ASCII and UTF-16LE strings of at least `minLength` characters, in file
+ * order. UTF-16 is how Windows binaries store most of their text, so an
+ * ASCII-only scan misses registry keys and URLs in them.
+ */
+export const extractStrings = (bytes: Uint8Array, minLength = DEFAULT_MIN_STRING_LENGTH): ExtractedString[] => {
+  const out: ExtractedString[] = [];
+
+  let start = -1;
+  for (let i = 0; i <= bytes.length; i++) {
+    if (i < bytes.length && isPrintable(bytes[i])) {
+      if (start < 0) start = i;
+      continue;
+    }
+    if (start >= 0 && i - start >= minLength) {
+      out.push({ offset: start, value: latin1.decode(bytes.subarray(start, i)), encoding: 'ascii' });
+    }
+    start = -1;
+  }
+
+  for (const align of [0, 1]) {
+    let begin = -1;
+    for (let i = align; i <= bytes.length; i += 2) {
+      if (i + 1 < bytes.length && isPrintable(bytes[i]) && bytes[i + 1] === 0) {
+        if (begin < 0) begin = i;
+        continue;
+      }
+      if (begin >= 0 && (i - begin) / 2 >= minLength) {
+        out.push({ offset: begin, value: utf16.decode(bytes.subarray(begin, i)), encoding: 'utf16le' });
+      }
+      begin = -1;
+    }
+  }
+
+  out.sort((a, b) => a.offset - b.offset);
+  return out.length > MAX_STRINGS ? out.slice(0, MAX_STRINGS) : out;
+};
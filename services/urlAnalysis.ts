@@ -0,0 +1,251 @@
+import { Finding, LocalizedText } from '../types';
+import { findingMessages, listOf, msg } from './i18n';
+
+/** Links beyond this many per file are not inspected. */
+export const MAX_URLS = 200;
+
+/** Unlike the ASCII strings scan, this keeps non-Latin letters so lookalike domains survive. */
+const URL_PATTERN = /\b(?:https?|ftp):\/\/[^\s"'<>`\\^{}|]+/giu;
+
+const SHORTENERS = [
+  'bit.ly', 'bitly.com', 'tinyurl.com', 't.co', 'goo.gl', 'ow.ly', 'is.gd', 'buff.ly', 'cutt.ly', 'rebrand.ly', 'shorturl.at',
+  'rb.gy', 't.ly', 'tiny.cc', 's.id', 'v.gd', 'bl.ink', 'short.io', 'lnkd.in', 'qrco.de', 'surl.li', 'tr.ee'
+];
+
+/** TLDs that are cheap or free to register and over-represented in phishing and malware reports. */
+const SUSPICIOUS_TLDS = [
+  'zip', 'mov', 'tk', 'ml', 'ga', 'cf', 'gq', 'top', 'xyz', 'click', 'country', 'kim', 'loan', 'work', 'men', 'date',
+  'racing', 'review', 'stream', 'download', 'gdn', 'bid', 'win', 'party', 'icu', 'cyou', 'rest', 'sbs', 'cfd', 'monster', 'buzz'
+];
+
+/** Names phishing domains most often imitate. Compared against the registrable label only. */
+const BRANDS = [
+  'google', 'gmail', 'youtube', 'microsoft', 'office', 'outlook', 'live', 'apple', 'icloud', 'amazon', 'paypal', 'facebook',
+  'instagram', 'whatsapp', 'netflix', 'linkedin', 'dropbox', 'docusign', 'adobe', 'github', 'chase', 'wellsfargo',
+  'bankofamerica', 'citibank', 'hsbc', 'barclays', 'dhl', 'fedex', 'ups', 'usps', 'coinbase', 'binance', 'steam', 'roblox'
+];
+
+/** Brands that are also everyday words, too noisy to look for in free text. */
+const COMMON_WORD_BRANDS = ['live', 'office', 'steam', 'ups', 'chase'];
+
+/** Second-level labels under which the registrable name sits one level further in, e.g. example.co.uk. */
+const SECOND_LEVEL = ['co', 'com', 'org', 'net', 'gov', 'ac', 'edu', 'ne', 'or'];
+
+/** Non-Latin letters that render like Latin ones in most fonts. */
+const CONFUSABLES: Record<string, string> = {
+  'а': 'a', 'в': 'b', 'е': 'e', 'һ': 'h', 'і': 'i', 'ј': 'j', 'к': 'k', 'ӏ': 'l', 'м': 'm', 'н': 'h', 'о': 'o', 'р': 'p',
+  'ԛ': 'q', 'с': 'c', 'ѕ': 's', 'т': 't', 'у': 'y', 'х': 'x', 'ԝ': 'w', 'ԁ': 'd', 'ь': 'b', 'ү': 'y',
+  'α': 'a', 'β': 'b', 'ε': 'e', 'η': 'n', 'ι': 'i', 'κ': 'k', 'ν': 'v', 'ο': 'o', 'ρ': 'p', 'τ': 't', 'υ': 'u', 'χ': 'x', 'ω': 'w',
+  'ո': 'n', 'ս': 'u', 'օ': 'o', 'ց': 'g', 'ɑ': 'a', 'ɡ': 'g', 'ı': 'i', 'ȷ': 'j', 'ǀ': 'l', 'ℓ': 'l'
+};
+
+/** ASCII sequences that read as another letter at a glance. */
+const ASCII_LOOKALIKES: [RegExp, string][] = [[/rn/g, 'm'], [/vv/g, 'w'], [/0/g, 'o'], [/1/g, 'l'], [/5/g, 's']];
+
+/** What one link's checks found; `host` is shown in Unicode. */
+export interface UrlInspection {
+  url: string;
+  host: string;
+  problems: UrlProblem[];
+}
+
+export type UrlProblemKind = 'lookalike' | 'homoglyph' | 'credentials' | 'brand-subdomain' | 'ip-host' | 'shortener' | 'suspicious-tld';
+
+export interface UrlProblem {
+  kind: UrlProblemKind;
+  /** e.g. the brand imitated or the TLD; shown after the host. */
+  detail?: string | LocalizedText;
+}
+
+/** Decodes one "xn--" label body (RFC 3492). Throws on malformed input. */
+const decodePunycode = (input: string): string => {
+  const base = 36;
+  const tMin = 1;
+  const tMax = 26;
+  const digit = (c: number) => (c >= 48 && c <= 57 ? c - 22 : c >= 65 && c <= 90 ? c - 65 : c >= 97 && c <= 122 ? c - 97 : base);
+  const basicEnd = input.lastIndexOf('-');
+  const output = basicEnd > 0 ? Array.from(input.slice(0, basicEnd)) : [];
+  let n = 128;
+  let i = 0;
+  let bias = 72;
+  for (let pos = basicEnd > 0 ? basicEnd + 1 : 0; pos < input.length;) {
+    const oldI = i;
+    for (let w = 1, k = base; ; k += base) {
+      if (pos >= input.length) throw new Error('Truncated punycode');
+      const d = digit(input.charCodeAt(pos++));
+      if (d >= base) throw new Error('Invalid punycode digit');
+      i += d * w;
+      const t = k <= bias ? tMin : k >= bias + tMax ? tMax : k - bias;
+      if (d < t) break;
+      w *= base - t;
+    }
+    const length = output.length + 1;
+    let delta = oldI === 0 ? Math.floor(i / 700) : (i - oldI) >> 1;
+    delta += Math.floor(delta / length);
+    let k = 0;
+    for (; delta > ((base - tMin) * tMax) >> 1; k += base) delta = Math.floor(delta / (base - tMin));
+    bias = k + Math.floor(((base - tMin + 1) * delta) / (delta + 38));
+    n += Math.floor(i / length);
+    i %= length;
+    output.splice(i++, 0, String.fromCodePoint(n));
+  }
+  return output.join('');
+};
+
+const toUnicodeLabel = (label: string): string => {
+  if (!label.startsWith('xn--')) return label;
+  try {
+    return decodePunycode(label.slice(4));
+  } catch {
+    return label;
+  }
+};
+
+/** What a label looks like to a reader: confusables and accents folded to plain Latin letters. */
+const skeleton = (label: string): string => {
+  let folded = Array.from(label.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase()).map(c => CONFUSABLES[c] ?? c).join('');
+  for (const [pattern, replacement] of ASCII_LOOKALIKES) folded = folded.replace(pattern, replacement);
+  return folded;
+};
+
+/** The alphabets a label's letters come from: Latin, its usual imitators, or "other". */
+const scriptsIn = (label: string): Set<string> => {
+  const scripts = new Set<string>();
+  for (const c of label) {
+    if (/\p{Script=Latin}/u.test(c)) scripts.add('Latin');
+    else if (/\p{Script=Cyrillic}/u.test(c)) scripts.add('Cyrillic');
+    else if (/\p{Script=Greek}/u.test(c)) scripts.add('Greek');
+    else if (/\p{Script=Armenian}/u.test(c)) scripts.add('Armenian');
+    else if (/\p{L}/u.test(c)) scripts.add('other');
+  }
+  return scripts;
+};
+
+/** Index of the label a registrar sells, e.g. "example" in www.example.co.uk. */
+const registrableIndex = (labels: string[]): number => {
+  const n = labels.length;
+  if (n >= 3 && labels[n - 1].length === 2 && SECOND_LEVEL.includes(labels[n - 2])) return n - 3;
+  return Math.max(0, n - 2);
+};
+
+/** The part of a host name its owner registered: mail.paypal.co.uk → paypal.co.uk. */
+export const registrableDomain = (host: string): string => {
+  const labels = host.toLowerCase().replace(/\.$/, '').split('.');
+  return labels.slice(registrableIndex(labels)).join('.');
+};
+
+/** The well-known brand a piece of text names, such as a sender's display name, e.g. "Pay Pal Billing" → paypal. */
+export const brandNamedIn = (text: string): string | undefined => {
+  const lower = text.toLowerCase();
+  return BRANDS.find(b => !COMMON_WORD_BRANDS.includes(b) && new RegExp(`(^|[^a-z])${b.split('').join('\\s?')}([^a-z]|$)`).test(lower));
+};
+
+/** Finds http(s) and ftp links in text, without trailing punctuation, de-duplicated. */
+export const findUrls = (text: string): string[] => {
+  const found = new Set<string>();
+  for (const match of text.matchAll(URL_PATTERN)) {
+    found.add(match[0].replace(/[.,;:!?)\]]+$/, ''));
+    if (found.size >= MAX_URLS) break;
+  }
+  return [...found];
+};
+
+/**
+ * Checks a link's address for phishing tricks without fetching it. Returns
+ * null for strings that aren't absolute http(s) or ftp URLs.
+ */
+export const inspectUrl = (raw: string): UrlInspection | null => {
+  let url: URL;
+  try {
+    url = new URL(raw.trim());
+  } catch {
+    return null;
+  }
+  if (!['http:', 'https:', 'ftp:'].includes(url.protocol) || !url.hostname) return null;
+
+  const asciiHost = url.hostname.toLowerCase().replace(/\.$/, '');
+  const problems: UrlProblem[] = [];
+
+  if (url.username || url.password) {
+    problems.push({ kind: 'credentials', detail: url.username });
+  }
+
+  if (/^\d+\.\d+\.\d+\.\d+$/.test(asciiHost) || asciiHost.startsWith('[')) {
+    // The URL parser normalizes 3232235777 and 0xC0.0xA8.1.1 to dotted form; say so when the link hid it.
+    const written = raw.trim().match(/^[a-z]+:\/\/(?:[^@/?#]*@)?([^:/?#]+)/i)?.[1] ?? asciiHost;
+    problems.push({ kind: 'ip-host', detail: written.toLowerCase() !== asciiHost ? msg('url.writtenAs', { host: written }) : undefined });
+    return { url: url.href, host: asciiHost, problems };
+  }
+
+  const asciiLabels = asciiHost.split('.');
+  const labels = asciiLabels.map(toUnicodeLabel);
+  const host = labels.join('.');
+  const tld = asciiLabels[asciiLabels.length - 1];
+  const registrable = registrableIndex(asciiLabels);
+  const name = labels[registrable];
+  const domain = asciiLabels.slice(registrable).join('.');
+
+  const folded = skeleton(name);
+  const brand = BRANDS.find(b => folded === b);
+  if (brand && name !== brand) {
+    problems.push({ kind: 'lookalike', detail: brand });
+  } else if (asciiLabels.some(l => l.startsWith('xn--'))) {
+    // Accented Latin (münchen.de) is normal; Latin mixed with Cyrillic, Greek or Armenian, or a name spelled only in lookalikes, isn't.
+    const mixed = labels.some(l => {
+      const scripts = scriptsIn(l);
+      return scripts.has('Latin') && scripts.size > 1 && !scripts.has('other');
+    });
+    const imitation = labels.some(l => /[^\x00-\x7f]/.test(l) && Array.from(l).every(c => /[a-z0-9-]/.test(c) || c in CONFUSABLES));
+    if (mixed || imitation) problems.push({ kind: 'homoglyph', detail: msg(mixed ? 'url.mixedAlphabets' : 'url.imitatingLetters') });
+  }
+
+  // paypal.com.account-check.xyz: the brand's real domain as a prefix of someone else's.
+  const spoofed = asciiLabels.slice(0, registrable).findIndex((l, i) => BRANDS.includes(l) && /^(com|net|org)$/.test(asciiLabels[i + 1] ?? ''));
+  if (spoofed >= 0) problems.push({ kind: 'brand-subdomain', detail: `${asciiLabels[spoofed]}.${asciiLabels[spoofed + 1]}` });
+
+  if (SHORTENERS.includes(domain) || SHORTENERS.includes(asciiHost)) problems.push({ kind: 'shortener' });
+  if (SUSPICIOUS_TLDS.includes(tld)) problems.push({ kind: 'suspicious-tld', detail: `.${tld}` });
+
+  return { url: url.href, host, problems };
+};
+
+const PROBLEM_SEVERITY: Record<UrlProblemKind, Finding['severity']> = {
+  lookalike: 'DANGER',
+  homoglyph: 'CAUTION',
+  credentials: 'DANGER',
+  'brand-subdomain': 'CAUTION',
+  'ip-host': 'CAUTION',
+  shortener: 'CAUTION',
+  'suspicious-tld': 'CAUTION'
+};
+
+const MAX_HOSTS_LISTED = 5;
+
+/**
+ * One finding per kind of problem, naming the hosts it was seen on, so a
+ * file with fifty shortened links doesn't bury everything else.
+ */
+export const urlFindings = (urls: string[]): Finding[] => {
+  // Keyed by the label's JSON so the same host and detail is listed once.
+  const hostsByKind = new Map<UrlProblemKind, Map<string, string | LocalizedText>>();
+  for (const raw of urls.slice(0, MAX_URLS)) {
+    const inspection = inspectUrl(raw);
+    for (const problem of inspection?.problems ?? []) {
+      const host = inspection!.host;
+      const label = problem.kind === 'credentials' ? msg('url.notUser', { host, user: problem.detail ?? '' })
+        : problem.detail ? msg('url.hostDetail', { host, detail: problem.detail })
+        : host;
+      if (!hostsByKind.has(problem.kind)) hostsByKind.set(problem.kind, new Map());
+      hostsByKind.get(problem.kind)!.set(JSON.stringify(label), label);
+    }
+  }
+  return [...hostsByKind.entries()].map(([kind, hosts]) => ({
+    id: `url-${kind}`,
+    severity: PROBLEM_SEVERITY[kind],
+    ...findingMessages(msg(`finding.url-${kind}.title`), msg(`finding.url-${kind}.description`, {
+      hosts: listOf([...hosts.values()], MAX_HOSTS_LISTED),
+      count: hosts.size
+    })),
+    source: 'url'
+  }));
+};
@@ -0,0 +1,101 @@
+import { AnalysisResult, Verdict } from '../types';
+
+const VERDICTS: Verdict[] = ['SAFE', 'CAUTION', 'DANGER'];
+
+const MAX_SHORT_TEXT = 200;
+const MAX_TEXT = 4000;
+const MAX_TECHNICAL_TEXT = 20000;
+const MAX_SOLUTIONS = 10;
+
+/** Strips control characters (other than newlines and tabs) and bidi overrides that can disguise text. */
+const clean = (text: string): string => {
+  return text.replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f\u007f\u202a-\u202e\u2066-\u2069]/g, '').trim();
+};
+
+/**
+ * Validates an AI reply against the AnalysisResult contract. Missing or
+ * invalid required fields throw; anything repairable (overlong text, wrong
+ * types in optional fields, contradictory flags) is fixed and listed in
+ * `validationNotes`. Fields outside the contract are dropped, so a reply
+ * can never inject findings, hashes or a mode.
+ */
+export const validateAnalysisResult = (raw: unknown): AnalysisResult => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) throw new Error("The AI reply was not a JSON object.");
+  const input = raw as Record<string, any>;
+  const notes: string[] = [];
+
+  const verdict = typeof input.verdict === 'string' ? input.verdict.trim().toUpperCase() as Verdict : undefined;
+  if (!verdict || !VERDICTS.includes(verdict)) throw new Error(`The AI reply has an invalid verdict: ${JSON.stringify(input.verdict)}`);
+
+  const text = (field: string, max: number, required: boolean, fallback = ''): string => {
+    const value = input[field];
+    if (typeof value !== 'string' || !clean(value)) {
+      if (required) throw new Error(`The AI reply is missing "${field}".`);
+      if (value !== undefined) notes.push(`"${field}" was not text and was replaced.`);
+      return fallback;
+    }
+    const cleaned = clean(value);
+    if (cleaned.length > max) {
+      notes.push(`"${field}" was cut to ${max} characters.`);
+      return `${cleaned.slice(0, max)}…`;
+    }
+    return cleaned;
+  };
+
+  const humanVerdict = text('humanVerdict', MAX_SHORT_TEXT, true);
+  const simpleExplanation = text('simpleExplanation', MAX_TEXT, true);
+
+  let solutions: string[] = [];
+  if (Array.isArray(input.solutions)) {
+    solutions = input.solutions.filter((s: unknown) => typeof s === 'string' && clean(s)).map((s: string) => clean(s).slice(0, MAX_SHORT_TEXT * 2));
+    if (solutions.length !== input.solutions.length) notes.push("Non-text recommendations were dropped.");
+    if (solutions.length > MAX_SOLUTIONS) {
+      solutions = solutions.slice(0, MAX_SOLUTIONS);
+      notes.push(`Only the first ${MAX_SOLUTIONS} recommendations were kept.`);
+    }
+  } else if (input.solutions !== undefined) {
+    notes.push('"solutions" was not a list and was dropped.');
+  }
+
+  if (typeof input.isDangerous === 'boolean' && input.isDangerous !== (verdict === 'DANGER')) {
+    notes.push(`"isDangerous" contradicted the ${verdict} verdict and was corrected.`);
+  }
+
+  const metadata = input.metadata && typeof input.metadata === 'object' ? input.metadata : {};
+  const metaText = (field: string, fallback: string) => {
+    return typeof metadata[field] === 'string' && clean(metadata[field]) ? clean(metadata[field]).slice(0, MAX_SHORT_TEXT) : fallback;
+  };
+
+  return {
+    verdict,
+    humanVerdict,
+    summary: text('summary', MAX_TEXT, false, humanVerdict),
+    simpleExplanation,
+    isDangerous: verdict === 'DANGER',
+    whyItsDangerous: text('whyItsDangerous', MAX_TEXT, false) || undefined,
+    solutions,
+    technicalDetails: text('technicalDetails', MAX_TECHNICAL_TEXT, false),
+    fileType: text('fileType', MAX_SHORT_TEXT, false, 'unknown'),
+    metadata: {
+      suggestedApp: metaText('suggestedApp', 'Unknown'),
+      securityLevel: metaText('securityLevel', verdict === 'SAFE' ? 'Low Risk' : 'High Risk')
+    },
+    mode: 'ai',
+    ...(notes.length > 0 ? { validationNotes: notes } : {})
+  };
+};
+
+/**
+ * Parses a provider's text reply, tolerating markdown code fences around
+ * the JSON (common with local models), then validates it.
+ */
+export const parseAiResult = (text: string): AnalysisResult => {
+  const json = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new Error("The AI reply was not valid JSON.");
+  }
+  return validateAnalysisResult(raw);
+};
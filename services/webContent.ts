@@ -0,0 +1,222 @@
+import { Finding } from '../types';
+import { findingMessages, MessageKey, msg } from './i18n';
+
+export type WebContentKind = 'html' | 'svg' | 'js';
+
+/** Web files are decoded and scanned up to this many bytes. */
+export const MAX_WEB_TEXT_BYTES = 5 * 1024 * 1024;
+/** Each detector reports at most this many occurrences. */
+const MAX_HITS_PER_CHECK = 5;
+const SNIPPET_LENGTH = 120;
+
+/** Ids with a `finding.<id>.title` and `.description` in the catalog. */
+type CheckId = MessageKey extends infer K ? K extends `finding.${infer Id extends `web-${string}`}.title` ? Id : never : never;
+
+interface Check {
+  id: CheckId;
+  severity: Finding['severity'];
+  pattern: RegExp;
+  /** Restrict the check to some kinds of file. */
+  kinds?: WebContentKind[];
+  /** Extra test on the match, e.g. to look at the surrounding tag. */
+  accept?: (match: RegExpMatchArray, text: string) => boolean;
+}
+
+const tagAt = (text: string, index: number): string => {
+  const end = text.indexOf('>', index);
+  return text.slice(index, end < 0 ? index + 500 : end + 1);
+};
+
+const isHiddenFrame = (tag: string): boolean => {
+  return /\b(width|height)\s*=\s*["']?\s*[01](px)?\s*["'\s>\/]/i.test(tag)
+    || /style\s*=\s*["'][^"']*(display\s*:\s*none|visibility\s*:\s*hidden|(width|height)\s*:\s*[01]px|opacity\s*:\s*0(\.0+)?\s*[;"'])/i.test(tag)
+    || /\shidden(\s|=|>|\/)/i.test(tag);
+};
+
+const PASSWORD_INPUT = /<input\b[^>]*\btype\s*=\s*["']?password/gi;
+const OFF_ORIGIN_ACTION = /\baction\s*=\s*["']?\s*(https?:)?\/\//i;
+const SENDS_DATA = /\b(fetch|XMLHttpRequest|sendBeacon|\$\.(post|ajax))\b/;
+
+/** The opening tag of the form that contains `index`, if any. */
+const enclosingForm = (text: string, index: number): string | null => {
+  const before = text.slice(0, index).toLowerCase();
+  const start = before.lastIndexOf('<form');
+  if (start < 0 || before.indexOf('</form', start) >= 0) return null;
+  return tagAt(text, start);
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** Whether a script reads this password field's value (by id, name, type selector or FormData). */
+const readsPassword = (input: string, text: string): boolean => {
+  const refs = Array.from(input.matchAll(/\b(?:id|name)\s*=\s*["']?([^"'\s>]+)/gi), m => escapeRegExp(m[1]));
+  refs.push(`\\[type=["']?password`);
+  return new RegExp(`(${refs.join('|')})\\b[^;\\n]{0,80}?\\.value\\b`).test(text) || /\bnew\s+FormData\s*\(/.test(text);
+};
+
+/**
+ * A login form posting back to its own site is ordinary. The password only
+ * leaves when the form's action is another site or a script sends the value.
+ */
+const sendsPassword = (input: string, index: number, text: string): boolean => {
+  const form = enclosingForm(text, index);
+  return (!!form && OFF_ORIGIN_ACTION.test(form)) || (SENDS_DATA.test(text) && readsPassword(input, text));
+};
+
+const CHECKS: Check[] = [
+  {
+    id: 'web-svg-script',
+    severity: 'DANGER',
+    pattern: /<script\b/gi,
+    kinds: ['svg']
+  },
+  {
+    id: 'web-svg-handler',
+    severity: 'DANGER',
+    pattern: /<[a-z][\w:-]*\s[^>]*?\bon[a-z]+\s*=\s*["'][^"']+/gi,
+    kinds: ['svg']
+  },
+  {
+    id: 'web-svg-foreign-object',
+    severity: 'CAUTION',
+    pattern: /<foreignObject\b/gi,
+    kinds: ['svg']
+  },
+  {
+    id: 'web-eval-decode',
+    severity: 'DANGER',
+    pattern: /\b(eval|Function|setTimeout|setInterval|document\.write(ln)?)\s*\(\s*(window\.)?(atob|unescape|decodeURIComponent|decodeURI|String\.fromCharCode|escape)\s*\(/g
+  },
+  {
+    id: 'web-eval',
+    severity: 'CAUTION',
+    pattern: /(?<![\w.$])(eval\s*\(|new\s+Function\s*\()/g
+  },
+  {
+    id: 'web-string-timer',
+    severity: 'CAUTION',
+    pattern: /\bset(Timeout|Interval)\s*\(\s*["'`][^"'`]{8,}/g
+  },
+  {
+    id: 'web-hex-escapes',
+    severity: 'CAUTION',
+    pattern: /(\\x[0-9a-fA-F]{2}|\\u[0-9a-fA-F]{4}){20,}/g
+  },
+  {
+    id: 'web-charcode',
+    severity: 'CAUTION',
+    pattern: /String\.fromCharCode\s*\(\s*\d+(\s*,\s*\d+){9,}/g
+  },
+  {
+    id: 'web-base64-blob',
+    severity: 'CAUTION',
+    pattern: /["'`][A-Za-z0-9+\/]{400,}={0,2}["'`]/g
+  },
+  {
+    id: 'web-hidden-iframe',
+    severity: 'DANGER',
+    pattern: /<iframe\b/gi,
+    accept: (match, text) => isHiddenFrame(tagAt(text, match.index!))
+  },
+  {
+    id: 'web-external-form',
+    severity: 'CAUTION',
+    pattern: /<form\b[^>]*\baction\s*=\s*["']?\s*(https?:)?\/\/[^"'\s>]+/gi
+  },
+  {
+    id: 'web-password-form',
+    severity: 'DANGER',
+    pattern: PASSWORD_INPUT,
+    accept: (match, text) => sendsPassword(tagAt(text, match.index!), match.index!, text)
+  },
+  {
+    id: 'web-password-field',
+    severity: 'CAUTION',
+    pattern: PASSWORD_INPUT,
+    accept: (match, text) => !sendsPassword(tagAt(text, match.index!), match.index!, text)
+  },
+  {
+    id: 'web-javascript-url',
+    severity: 'CAUTION',
+    pattern: /\b(href|src|action|formaction|xlink:href|data)\s*=\s*["']?\s*javascript:/gi
+  },
+  {
+    id: 'web-meta-refresh',
+    severity: 'CAUTION',
+    pattern: /<meta\b[^>]*http-equiv\s*=\s*["']?refresh[^>]*url\s*=/gi
+  },
+  {
+    id: 'web-script-redirect',
+    severity: 'CAUTION',
+    // Only the page's own location with a full address; local variables and same-site paths are ordinary navigation.
+    pattern: /\b(window|document|top)\.location(\.href\s*=(?!=)|\s*=(?!=)|\.(replace|assign)\s*\()\s*["'`](https?:)?\/\//g
+  }
+];
+
+const lineStarts = (text: string): number[] => {
+  const starts = [0];
+  for (let i = 0; i < text.length; i++) {
+    if (text.charCodeAt(i) === 10) starts.push(i + 1);
+  }
+  return starts;
+};
+
+const lineOf = (starts: number[], index: number): number => {
+  let lo = 0;
+  let hi = starts.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (starts[mid] <= index) lo = mid;
+    else hi = mid - 1;
+  }
+  return lo + 1;
+};
+
+const snippetAt = (text: string, starts: number[], line: number, index: number): string => {
+  const lineStart = starts[line - 1];
+  const lineEnd = line < starts.length ? starts[line] - 1 : text.length;
+  // Minified files put everything on one line, so centre the snippet on the match.
+  const from = Math.max(lineStart, index - 30);
+  const to = Math.min(lineEnd, from + SNIPPET_LENGTH);
+  const body = text.slice(from, to).replace(/\s+/g, ' ').trim();
+  return `${from > lineStart ? '…' : ''}${body}${to < lineEnd ? '…' : ''}`;
+};
+
+export const webContentKind = (ext: string, detectedId?: string): WebContentKind | null => {
+  if (detectedId === 'svg' || ext === 'svg') return 'svg';
+  if (['js', 'mjs', 'cjs', 'jse'].includes(ext)) return 'js';
+  if (detectedId === 'html' || ['html', 'htm', 'xhtml', 'hta', 'shtml'].includes(ext)) return 'html';
+  return null;
+};
+
+/**
+ * Statically scans HTML, SVG or JavaScript source for phishing and
+ * obfuscation tricks. Never executes or renders anything.
+ */
+export const analyzeWebContent = (text: string, kind: WebContentKind): Finding[] => {
+  const starts = lineStarts(text);
+  const findings: Finding[] = [];
+
+  for (const check of CHECKS) {
+    if (check.kinds && !check.kinds.includes(kind)) continue;
+    let hits = 0;
+    for (const match of text.matchAll(check.pattern)) {
+      if (check.accept && !check.accept(match, text)) continue;
+      const index = match.index ?? 0;
+      const line = lineOf(starts, index);
+      findings.push({
+        id: check.id,
+        severity: check.severity,
+        ...findingMessages(msg(`finding.${check.id}.title`), msg(`finding.${check.id}.description`)),
+        source: 'web',
+        line,
+        snippet: snippetAt(text, starts, line, index)
+      });
+      if (++hits >= MAX_HITS_PER_CHECK) break;
+    }
+  }
+
+  // A decode-and-eval chain is also an eval; report it once, at the stronger severity.
+  const chained = new Set(findings.filter(f => f.id === 'web-eval-decode').map(f => f.line));
+  return findings.filter(f => f.id !== 'web-eval' || !chained.has(f.line));
+};
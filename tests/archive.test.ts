@@ -0,0 +1,74 @@
+import { deflateRawSync } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+import { MAX_ENTRY_BYTES, readZipDirectory, readZipEntry } from '../services/archive';
+import { ReadLimitExceeded } from '../utils/binaryUtils';
+import { analyzeBytes } from '../services/analyzer';
+import { ascii, storedZip } from './fixtures';
+
+describe('readZipDirectory', () => {
+  it('lists entries from the central directory', async () => {
+    const zip = storedZip([{ path: 'a.txt', data: ascii('hi') }, { path: 'docs/b.txt', data: ascii('there') }]);
+    const entries = await readZipDirectory(new Blob([zip]));
+    expect(entries.map(e => [e.path, e.size])).toEqual([['a.txt', 2], ['docs/b.txt', 5]]);
+  });
+
+  it('throws when there is no end-of-directory record', async () => {
+    await expect(readZipDirectory(new Blob([ascii('PK\u0003\u0004 not really a zip')]))).rejects.toThrow(/central directory/);
+  });
+
+  it('stops at the directory size when the entry count is inflated', async () => {
+    const zip = storedZip([{ path: 'a.txt', data: ascii('hi') }]);
+    new DataView(zip.buffer).setUint16(zip.length - 22 + 10, 0xfffe, true);
+    expect(await readZipDirectory(new Blob([zip]))).toHaveLength(1);
+  });
+
+  it('rejects a directory whose records are not central headers', async () => {
+    const zip = storedZip([{ path: 'a.txt', data: ascii('hi') }]);
+    // Point the directory at the local header instead.
+    new DataView(zip.buffer).setUint32(zip.length - 22 + 16, 0, true);
+    await expect(readZipDirectory(new Blob([zip]))).rejects.toThrow(/Corrupt central directory/);
+  });
+});
+
+/** One deflated entry of zeros, larger than MAX_ENTRY_BYTES, whose directory claims 100 bytes. */
+const bomb = (): Uint8Array => {
+  const zip = storedZip([{ path: 'zeros.bin', data: deflateRawSync(new Uint8Array(MAX_ENTRY_BYTES + 1024)) }]);
+  const view = new DataView(zip.buffer);
+  const central = zip.length - 22 - (46 + 'zeros.bin'.length);
+  view.setUint16(8, 8, true);
+  view.setUint32(22, 100, true);
+  view.setUint16(central + 10, 8, true);
+  view.setUint32(central + 24, 100, true);
+  return zip;
+};
+
+describe('archive inspection', () => {
+  it('flags path traversal and programs inside', async () => {
+    const zip = storedZip([{ path: '../../evil.sh', data: ascii('#!/bin/sh\nrm -rf ~\n') }]);
+    const result = await analyzeBytes(zip, 'bundle.zip');
+    expect(result.findings?.map(f => f.id)).toContain('archive-path-traversal');
+    expect(result.verdict).not.toBe('SAFE');
+  });
+
+  it('keeps a harmless archive safe', async () => {
+    const result = await analyzeBytes(storedZip([{ path: 'notes.txt', data: ascii('hello') }]), 'notes.zip');
+    expect(result.verdict).toBe('SAFE');
+  });
+
+  it('reports an unreadable archive instead of throwing', async () => {
+    const zip = storedZip([{ path: 'a.txt', data: ascii('hi') }]);
+    new DataView(zip.buffer).setUint32(zip.length - 22 + 16, 0, true);
+    const result = await analyzeBytes(zip, 'broken.zip');
+    expect(result.findings?.map(f => f.id)).toContain('archive-unreadable');
+  });
+
+  it('flags an entry that inflates past the limit it claimed to fit in', async () => {
+    const zip = bomb();
+    const [entry] = await readZipDirectory(new Blob([zip]));
+    await expect(readZipEntry(new Blob([zip]), entry, 1024)).rejects.toBeInstanceOf(ReadLimitExceeded);
+
+    const result = await analyzeBytes(zip, 'bomb.zip');
+    expect(result.findings?.map(f => f.id)).toContain('archive-bomb');
+    expect(result.archive?.entries[0].note).toMatch(/inspection limit/);
+  });
+});
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { blendResults } from '../services/blend';
+import { analyzeBytes } from '../services/analyzer';
+import { AnalysisResult } from '../types';
+
+const aiSays = (local: AnalysisResult, fileType: string): AnalysisResult => ({ ...local, fileType, mode: 'ai', messages: undefined });
+
+describe('blendResults', () => {
+  it('keeps the detected type over the AI label', async () => {
+    const renamed = new Uint8Array(128);
+    renamed.set([0x4d, 0x5a]);
+    new DataView(renamed.buffer).setUint32(0x3c, 0x40, true);
+    renamed.set([0x50, 0x45, 0, 0], 0x40);
+    const local = await analyzeBytes(renamed, 'photo.jpg');
+    expect(blendResults(local, aiSays(local, 'JPEG image')).fileType).toBe('Windows Executable (PE)');
+  });
+
+  it('uses the AI label when no signature matched', async () => {
+    const local = await analyzeBytes(new Uint8Array([0x00, 0x9f, 0x13, 0xee, 0x02, 0x81]), 'blob');
+    expect(blendResults(local, aiSays(local, 'English prose')).fileType).toBe('English prose');
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { IncrementalHash, createMd5, createSha1, createSha256 } from '../utils/digests';
+import { ascii } from './fixtures';
+
+/** Known answers for [md5, sha1, sha256]; the 55/56/64-byte inputs sit on the padding boundaries. */
+const VECTORS: [string, string, [string, string, string]][] = [
+  ['empty', '', [
+    'd41d8cd98f00b204e9800998ecf8427e',
+    'da39a3ee5e6b4b0d3255bfef95601890afd80709',
+    'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855'
+  ]],
+  ['"abc"', 'abc', [
+    '900150983cd24fb0d6963f7d28e17f72',
+    'a9993e364706816aba3e25717850c26c9cd0d89d',
+    'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'
+  ]],
+  ['55 bytes', 'a'.repeat(55), [
+    'ef1772b6dff9a122358552954ad0df65',
+    'c1c8bbdc22796e28c0e15163d20899b65621d65a',
+    '9f4390f8d30c2dd92ec9f095b65e2b9ae9b0a925a5258e241c9f1e910f734318'
+  ]],
+  ['56 bytes', 'abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq', [
+    '8215ef0796a20bcaaae116d3876c664a',
+    '84983e441c3bd26ebaae4aa1f95129e5e54670f1',
+    '248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1'
+  ]],
+  ['64 bytes', 'a'.repeat(64), [
+    '014842d480b571495a4a0363793f7367',
+    '0098ba824b5c16427bd7a1122a5a442a25ec644d',
+    'ffe054fe7ae0cb6dc65c3af9b61d5209f439851db43d0ba5997337df154668eb'
+  ]],
+  ['1000 bytes', 'a'.repeat(1000), [
+    'cabe45dcc9ae5b66ba86600cca6b8ba8',
+    '291e9a6c66994949b57ba5e650361e98fc36b1ba',
+    '41edece42d63e8d9bf515a9ba6932e1c20cbc9f5a5d134645adb5db1b9737ea3'
+  ]]
+];
+
+const HASHERS: [string, () => IncrementalHash][] = [['MD5', createMd5], ['SHA-1', createSha1], ['SHA-256', createSha256]];
+
+const hashInChunks = (create: () => IncrementalHash, bytes: Uint8Array, chunk: number): string => {
+  const hasher = create();
+  for (let i = 0; i < bytes.length; i += chunk) hasher.update(bytes.subarray(i, i + chunk));
+  return hasher.digest();
+};
+
+describe.each(HASHERS.map(([name, create], i) => [name, create, i] as const))('%s', (_name, create, index) => {
+  it.each(VECTORS)('hashes %s', (_label, input, expected) => {
+    expect(hashInChunks(create, ascii(input), Math.max(input.length, 1))).toBe(expected[index]);
+  });
+
+  it('gives the same digest however the input is split', () => {
+    const [, input, expected] = VECTORS[VECTORS.length - 1];
+    for (const chunk of [1, 7, 63, 64, 65]) {
+      expect(hashInChunks(create, ascii(input), chunk)).toBe(expected[index]);
+    }
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeOle2, analyzePdf, listCompoundFileStreams, openCompoundFile } from '../services/documents';
+import { analyzeBytes } from '../services/analyzer';
+import { ascii, compoundFile, loopingDifatFile } from './fixtures';
+
+const filled = (length: number, value: number) => new Uint8Array(length).fill(value);
+
+describe('openCompoundFile', () => {
+  it('lists streams and reads their contents', () => {
+    const cfb = openCompoundFile(compoundFile([
+      { name: 'WordDocument', data: filled(4096, 0x41) },
+      { name: 'Macros', data: filled(5000, 0x42) }
+    ]));
+    expect(cfb.entries.map(e => e.path).sort()).toEqual(['Macros', 'WordDocument']);
+    const macros = cfb.read(cfb.entries.find(e => e.path === 'Macros')!);
+    expect(macros.length).toBe(5000);
+    expect(macros.every(b => b === 0x42)).toBe(true);
+  });
+
+  it('rejects a truncated header', () => {
+    expect(() => openCompoundFile(compoundFile([]).subarray(0, 100))).toThrow();
+  });
+
+  it('rejects sector sizes other than 512 and 4096 bytes', () => {
+    const bytes = compoundFile([]);
+    new DataView(bytes.buffer).setUint16(0x1e, 31, true);
+    expect(() => openCompoundFile(bytes)).toThrow(/sector size/);
+  });
+
+  it('rejects a DIFAT chain that loops back on itself', () => {
+    expect(() => openCompoundFile(loopingDifatFile())).toThrow(/loops/);
+  });
+
+  it('stops a stream chain that points back into itself', () => {
+    const bytes = compoundFile([{ name: 'WordDocument', data: filled(4096, 0x41) }]);
+    // Sector 2 is the stream's first sector; make it its own successor.
+    new DataView(bytes.buffer).setUint32(512 + 2 * 4, 2, true);
+    const cfb = openCompoundFile(bytes);
+    expect(cfb.read(cfb.entries[0]).length).toBe(512);
+  });
+});
+
+describe('analyzeOle2', () => {
+  it('reports macros by stream name', () => {
+    const ids = analyzeOle2(compoundFile([{ name: 'Macros', data: filled(4096, 0) }])).map(f => f.id);
+    expect(ids).toContain('office-macro');
+  });
+
+  it('reports a looping DIFAT as a damaged document', () => {
+    expect(analyzeOle2(loopingDifatFile()).map(f => f.id)).toEqual(['office-unreadable']);
+    expect(listCompoundFileStreams.bind(null, loopingDifatFile())).toThrow();
+  });
+
+  it('rates a malformed .doc as caution through the full analyzer', async () => {
+    const result = await analyzeBytes(loopingDifatFile(), 'evil.doc');
+    expect(result.verdict).toBe('CAUTION');
+    expect(result.findings?.map(f => f.id)).toContain('office-unreadable');
+  });
+});
+
+describe('analyzePdf', () => {
+  it('finds JavaScript and auto-run actions', async () => {
+    const ids = (await analyzePdf(ascii('%PDF-1.7\n1 0 obj << /OpenAction 2 0 R /JS (app.alert(1)) /S /JavaScript >> endobj\n%%EOF'))).map(f => f.id);
+    expect(ids.some(id => id.includes('javascript'))).toBe(true);
+  });
+
+  it('does not throw on a truncated or garbage body', async () => {
+    await expect(analyzePdf(ascii('%PDF-1.7\n1 0 obj << /Filter /FlateDecode /Length 999 >> stream\n\u0001\u0002'))).resolves.toBeInstanceOf(Array);
+  });
+});
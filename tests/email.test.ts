@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { parseEml, parseMsg } from '../services/email';
+import { analyzeBytes } from '../services/analyzer';
+import { findingText } from '../services/i18n';
+import { ascii, loopingDifatFile } from './fixtures';
+
+const message = (body: string, headers = '') => ascii(
+  `From: "PayPal Support" <help@paypa1-secure.example>\r\nTo: you@example.com\r\nSubject: =?utf-8?B?WW91ciBhY2NvdW50?=\r\n${headers}\r\n${body}`
+);
+
+describe('parseEml', () => {
+  it('decodes headers, bodies and attachments', () => {
+    const parsed = parseEml(message(
+      '--b\r\nContent-Type: text/plain\r\n\r\nHello\r\n--b\r\nContent-Type: application/octet-stream\r\nContent-Disposition: attachment; filename="run.exe"\r\nContent-Transfer-Encoding: base64\r\n\r\nTVo=\r\n--b--\r\n',
+      'Content-Type: multipart/mixed; boundary="b"\r\n'
+    ));
+    expect(parsed.headers.find(h => h.name.toLowerCase() === 'subject')?.value).toBe('Your account');
+    expect(parsed.text).toBe('Hello');
+    expect(parsed.attachments.map(a => [a.name, Array.from(a.data)])).toEqual([['run.exe', [0x4d, 0x5a]]]);
+  });
+
+  it('stops at the nesting limit instead of recursing without end', () => {
+    let body = 'innermost';
+    for (let i = 200; i > 0; i--) body = `--b${i}\r\nContent-Type: multipart/mixed; boundary="b${i + 1}"\r\n\r\n${body}\r\n--b${i}--\r\n`;
+    expect(() => parseEml(message(body, 'Content-Type: multipart/mixed; boundary="b1"\r\n'))).not.toThrow();
+  });
+
+  it('treats a message with no blank line as all headers', () => {
+    expect(parseEml(ascii('Subject: only headers')).headers).toHaveLength(1);
+  });
+});
+
+describe('parseMsg', () => {
+  it('rejects a malformed compound file', () => {
+    expect(() => parseMsg(loopingDifatFile())).toThrow();
+  });
+
+  it('reports an unreadable .msg through the full analyzer', async () => {
+    const result = await analyzeBytes(loopingDifatFile(), 'evil.msg');
+    expect(result.findings?.map(f => f.id)).toContain('email-unreadable');
+    expect(result.verdict).toBe('CAUTION');
+  });
+});
+
+describe('email verdicts', () => {
+  it('flags a brand display name on another domain', async () => {
+    const result = await analyzeBytes(message('Please log in.\r\n'), 'notice.eml');
+    expect(result.findings?.map(f => f.id)).toContain('email-display-name-brand');
+    expect(result.verdict).toBe('CAUTION');
+  });
+
+  it('flags a sender domain that imitates a brand', async () => {
+    const result = await analyzeBytes(ascii('From: Amazon <orders@amaz0n.com>\r\nSubject: Order\r\n\r\nHi\r\n'), 'order.eml');
+    expect(result.findings?.map(f => f.id)).toContain('email-sender-lookalike');
+    expect(result.verdict).toBe('DANGER');
+  });
+
+  it('keys finding text so it follows the reader\'s language', async () => {
+    const result = await analyzeBytes(ascii('From: Amazon <orders@amaz0n.com>\r\nSubject: Order\r\n\r\nHi\r\n'), 'order.eml');
+    const lookalike = result.findings!.find(f => f.id === 'email-sender-lookalike')!;
+    expect(findingText(lookalike, 'en')).toEqual({ title: lookalike.title, description: lookalike.description });
+    expect(findingText(lookalike, 'de').title).toBe('Absenderdomain ahmt eine andere nach');
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { parseExecutable } from '../services/executable';
+import { analyzeBytes } from '../services/analyzer';
+
+/** A DOS stub whose PE header sits at `peOffset`, with `sections` empty section headers. */
+const peFile = (peOffset: number, sections: number, length = 1024): Uint8Array => {
+  const bytes = new Uint8Array(length);
+  const view = new DataView(bytes.buffer);
+  bytes.set([0x4d, 0x5a]);
+  view.setUint32(0x3c, peOffset, true);
+  if (peOffset + 24 <= length) {
+    bytes.set([0x50, 0x45, 0, 0], peOffset);
+    view.setUint16(peOffset + 4, 0x14c, true);
+    view.setUint16(peOffset + 6, sections, true);
+    view.setUint16(peOffset + 20, 0xe0, true);
+    if (peOffset + 26 <= length) view.setUint16(peOffset + 24, 0x10b, true);
+  }
+  return bytes;
+};
+
+/** A 64-bit ELF whose .dynsym imports "puts", with the symbol table's declared entry size and byte size. */
+const elfWithSymbols = (entSize: number, symtabSize = 48): Uint8Array => {
+  const bytes = new Uint8Array(0x3c0);
+  const view = new DataView(bytes.buffer);
+  bytes.set([0x7f, 0x45, 0x4c, 0x46, 2, 1, 1]);
+  view.setUint16(16, 3, true);
+  view.setUint16(18, 0x3e, true);
+  view.setBigUint64(40, 0x300n, true);
+  view.setUint16(58, 64, true);
+  view.setUint16(60, 3, true);
+  bytes.set([0, ...Array.from('puts', c => c.charCodeAt(0)), 0], 0x100);
+  view.setUint32(0x218, 1, true);
+  bytes[0x21c] = 0x12;
+  const section = (index: number, type: number, offset: number, size: number, link: number, entrySize: number) => {
+    const at = 0x300 + index * 64;
+    view.setUint32(at + 4, type, true);
+    view.setBigUint64(at + 24, BigInt(offset), true);
+    view.setBigUint64(at + 32, BigInt(size), true);
+    view.setUint32(at + 40, link, true);
+    view.setBigUint64(at + 56, BigInt(entrySize), true);
+  };
+  section(1, 11, 0x200, symtabSize, 2, entSize);
+  section(2, 3, 0x100, 6, 0, 0);
+  return bytes;
+};
+
+describe('parseExecutable', () => {
+  it('returns null for files that are neither PE nor ELF', () => {
+    expect(parseExecutable(new TextEncoder().encode('hello'))).toBeNull();
+  });
+
+  it('returns null for a PE header offset past the end of the file', () => {
+    expect(parseExecutable(peFile(0x7ffffff0, 1))).toBeNull();
+  });
+
+  it('returns null for a bare MZ signature', () => {
+    expect(parseExecutable(new Uint8Array([0x4d, 0x5a]))).toBeNull();
+  });
+
+  it('does not throw when the section count runs past the end of the file', () => {
+    expect(() => parseExecutable(peFile(0x80, 0xffff, 512))).not.toThrow();
+  });
+
+  it('returns null for a truncated ELF header', () => {
+    expect(parseExecutable(new Uint8Array([0x7f, 0x45, 0x4c, 0x46, 2, 1]))).toBeNull();
+  });
+
+  it('reads ELF dynamic symbols', () => {
+    expect(parseExecutable(elfWithSymbols(24))?.imports).toEqual([{ library: '(dynamic symbols)', functions: ['puts'] }]);
+  });
+
+  it('ignores a symbol table whose entries are smaller than a symbol', () => {
+    expect(parseExecutable(elfWithSymbols(1, 0x7fffffff))?.imports).toEqual([]);
+    expect(parseExecutable(elfWithSymbols(8))?.imports).toEqual([]);
+  });
+});
+
+describe('unparseable executables', () => {
+  it('reports a damaged header as an INFO finding', async () => {
+    const truncated = new Uint8Array(40);
+    truncated.set([0x7f, 0x45, 0x4c, 0x46, 2, 1]);
+    const result = await analyzeBytes(truncated, 'tool');
+    expect(result.findings?.find(f => f.id === 'exe-unparsed')?.severity).toBe('INFO');
+  });
+
+  it('does not report a header it could read', async () => {
+    const result = await analyzeBytes(elfWithSymbols(24), 'tool');
+    expect(result.findings?.map(f => f.id)).not.toContain('exe-unparsed');
+  });
+});
@@ -0,0 +1,138 @@
+/** Small hand-built files for parser tests; each builder writes only the fields the parsers read. */
+
+const FREE = 0xffffffff;
+const END_OF_CHAIN = 0xfffffffe;
+const FAT_SECTOR = 0xfffffffd;
+const NO_STREAM = 0xffffffff;
+
+export const ascii = (text: string): Uint8Array => new TextEncoder().encode(text);
+
+export interface CompoundStream {
+  name: string;
+  data: Uint8Array;
+}
+
+/**
+ * A version 3 compound file (512-byte sectors) with a root storage holding
+ * the given streams. Streams must be at least 4096 bytes so they live in
+ * regular sectors rather than the mini stream.
+ */
+export const compoundFile = (streams: CompoundStream[]): Uint8Array => {
+  const sectorSize = 512;
+  const dataSectors = streams.map(s => Math.ceil(s.data.length / sectorSize));
+  const totalSectors = 2 + dataSectors.reduce((a, b) => a + b, 0);
+  const bytes = new Uint8Array((totalSectors + 1) * sectorSize);
+  const view = new DataView(bytes.buffer);
+  const at = (sector: number) => (sector + 1) * sectorSize;
+
+  bytes.set([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]);
+  view.setUint16(0x18, 0x3e, true);
+  view.setUint16(0x1a, 3, true);
+  view.setUint16(0x1c, 0xfffe, true);
+  view.setUint16(0x1e, 9, true);
+  view.setUint16(0x20, 6, true);
+  view.setUint32(0x2c, 1, true);
+  view.setUint32(0x30, 1, true);
+  view.setUint32(0x38, 4096, true);
+  view.setUint32(0x3c, END_OF_CHAIN, true);
+  view.setUint32(0x44, END_OF_CHAIN, true);
+  for (let i = 0; i < 109; i++) view.setUint32(0x4c + i * 4, i === 0 ? 0 : FREE, true);
+
+  // Sector 0 is the FAT, sector 1 the directory, then each stream in turn.
+  const fat = new Array(sectorSize / 4).fill(FREE);
+  fat[0] = FAT_SECTOR;
+  fat[1] = END_OF_CHAIN;
+  const starts: number[] = [];
+  let next = 2;
+  streams.forEach((stream, i) => {
+    starts.push(next);
+    for (let s = 0; s < dataSectors[i]; s++) fat[next + s] = s === dataSectors[i] - 1 ? END_OF_CHAIN : next + s + 1;
+    bytes.set(stream.data, at(next));
+    next += dataSectors[i];
+  });
+  fat.forEach((value, i) => view.setUint32(at(0) + i * 4, value, true));
+
+  const entry = (index: number, name: string, type: number, right: number, child: number, start: number, size: number) => {
+    const base = at(1) + index * 128;
+    for (let c = 0; c < name.length; c++) view.setUint16(base + c * 2, name.charCodeAt(c), true);
+    view.setUint16(base + 64, (name.length + 1) * 2, true);
+    bytes[base + 66] = type;
+    view.setUint32(base + 68, NO_STREAM, true);
+    view.setUint32(base + 72, right, true);
+    view.setUint32(base + 76, child, true);
+    view.setUint32(base + 116, start, true);
+    view.setUint32(base + 120, size, true);
+  };
+  entry(0, 'Root Entry', 5, NO_STREAM, streams.length > 0 ? 1 : NO_STREAM, END_OF_CHAIN, 0);
+  streams.forEach((stream, i) => entry(i + 1, stream.name, 2, i + 1 < streams.length ? i + 2 : NO_STREAM, NO_STREAM, starts[i], stream.data.length));
+  return bytes;
+};
+
+/** A version 4 header (4096-byte sectors) whose only DIFAT sector lists itself and links back to itself. */
+export const loopingDifatFile = (): Uint8Array => {
+  const bytes = new Uint8Array(8192);
+  const view = new DataView(bytes.buffer);
+  bytes.set([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]);
+  view.setUint16(0x18, 0x3e, true);
+  view.setUint16(0x1a, 4, true);
+  view.setUint16(0x1c, 0xfffe, true);
+  view.setUint16(0x1e, 12, true);
+  view.setUint16(0x20, 6, true);
+  view.setUint32(0x30, 1, true);
+  view.setUint32(0x38, 4096, true);
+  view.setUint32(0x3c, END_OF_CHAIN, true);
+  view.setUint32(0x44, 0, true);
+  view.setUint32(0x48, 1, true);
+  for (let i = 0; i < 109; i++) view.setUint32(0x4c + i * 4, FREE, true);
+  return bytes;
+};
+
+/** A ZIP with stored (uncompressed) entries. CRCs are left at zero; the analyzer doesn't check them. */
+export const storedZip = (files: { path: string; data: Uint8Array }[]): Uint8Array => {
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+  for (const file of files) {
+    const name = ascii(file.path);
+    const local = new Uint8Array(30 + name.length + file.data.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, 0x04034b50, true);
+    lv.setUint16(4, 20, true);
+    lv.setUint32(18, file.data.length, true);
+    lv.setUint32(22, file.data.length, true);
+    lv.setUint16(26, name.length, true);
+    local.set(name, 30);
+    local.set(file.data, 30 + name.length);
+
+    const central = new Uint8Array(46 + name.length);
+    const cv = new DataView(central.buffer);
+    cv.setUint32(0, 0x02014b50, true);
+    cv.setUint16(4, 20, true);
+    cv.setUint16(6, 20, true);
+    cv.setUint32(20, file.data.length, true);
+    cv.setUint32(24, file.data.length, true);
+    cv.setUint16(28, name.length, true);
+    cv.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    locals.push(local);
+    centrals.push(central);
+    offset += local.length;
+  }
+  const directorySize = centrals.reduce((sum, c) => sum + c.length, 0);
+  const eocd = new Uint8Array(22);
+  const ev = new DataView(eocd.buffer);
+  ev.setUint32(0, 0x06054b50, true);
+  ev.setUint16(8, files.length, true);
+  ev.setUint16(10, files.length, true);
+  ev.setUint32(12, directorySize, true);
+  ev.setUint32(16, offset, true);
+
+  const out = new Uint8Array(offset + directorySize + 22);
+  let pos = 0;
+  for (const part of [...locals, ...centrals, eocd]) {
+    out.set(part, pos);
+    pos += part.length;
+  }
+  return out;
+};
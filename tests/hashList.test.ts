@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { parseHashList } from '../services/hashList';
+
+const MD5 = '44d88612fea8a8f36de82e1278abb02f';
+const SHA1 = '3395856ce81f2b7382dee72602f798b642f14140';
+const SHA256 = '275a021bbfb6489e54d471899f7db9d1663fc695ec2fe2a2c4538aabf651fd0f';
+
+describe('parseHashList', () => {
+  it('reads MD5, SHA-1 and SHA-256 from plain and CSV lines', () => {
+    const text = [
+      '# exported blocklist',
+      '// another comment',
+      'sha256,family,first_seen',
+      `${SHA256.toUpperCase()},EICAR test,2024-01-01`,
+      `${MD5}  *eicar.com`,
+      `"${SHA1}";"Test file"`,
+      '',
+      'not-a-hash just text',
+      `${MD5.slice(1)} too short`,
+      `${SHA1}0 forty-one characters`
+    ].join('\r\n');
+    expect(parseHashList(text)).toEqual([
+      { hash: SHA256, label: 'EICAR test' },
+      { hash: MD5, label: 'eicar.com' },
+      { hash: SHA1, label: 'Test file' }
+    ]);
+  });
+
+  it('skips commented-out hashes and keeps lines without a label', () => {
+    expect(parseHashList(`# ${MD5}\n${SHA1}\n`)).toEqual([{ hash: SHA1 }]);
+  });
+});
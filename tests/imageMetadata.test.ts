@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { readImageMetadata, stripImageMetadata } from '../services/imageMetadata';
+import { ascii } from './fixtures';
+
+/** A little-endian TIFF block whose GPS IFD places the photo at 48°51'N 2°17'E. */
+const gpsTiff = (): Uint8Array => {
+  const tiff = new Uint8Array(128);
+  const view = new DataView(tiff.buffer);
+  tiff.set(ascii('II'));
+  view.setUint16(2, 42, true);
+  view.setUint32(4, 8, true);
+  // IFD0: a single pointer to the GPS IFD at 26.
+  view.setUint16(8, 1, true);
+  view.setUint16(10, 0x8825, true);
+  view.setUint16(12, 4, true);
+  view.setUint32(14, 1, true);
+  view.setUint32(18, 26, true);
+  const entry = (index: number, tag: number, type: number, count: number, value: number | string) => {
+    const at = 28 + index * 12;
+    view.setUint16(at, tag, true);
+    view.setUint16(at + 2, type, true);
+    view.setUint32(at + 4, count, true);
+    if (typeof value === 'string') tiff.set(ascii(value), at + 8);
+    else view.setUint32(at + 8, value, true);
+  };
+  view.setUint16(26, 4, true);
+  entry(0, 1, 2, 2, 'N');
+  entry(1, 2, 5, 3, 80);
+  entry(2, 3, 2, 2, 'E');
+  entry(3, 4, 5, 3, 104);
+  [48, 1, 51, 1, 0, 1, 2, 1, 17, 1, 0, 1].forEach((n, i) => view.setUint32(80 + i * 4, n, true));
+  return tiff;
+};
+
+const segment = (marker: number, data: Uint8Array) => new Uint8Array([0xff, marker, (data.length + 2) >> 8, (data.length + 2) & 0xff, ...data]);
+
+const join = (...parts: Uint8Array[]) => Uint8Array.from(parts.flatMap(p => Array.from(p)));
+
+/** A 1×1 JPEG with JFIF, an EXIF block carrying GPS, and a comment. */
+const photo = () => join(
+  new Uint8Array([0xff, 0xd8]),
+  segment(0xe0, join(ascii('JFIF\0'), new Uint8Array([1, 1, 0, 0, 1, 0, 1, 0, 0]))),
+  segment(0xe1, join(ascii('Exif\0\0'), gpsTiff())),
+  segment(0xfe, ascii('taken at home')),
+  segment(0xc0, new Uint8Array([8, 0, 1, 0, 1, 1, 1, 0x11, 0])),
+  segment(0xda, new Uint8Array([1, 1, 0, 0, 0x3f, 0])),
+  new Uint8Array([0x12, 0x34, 0xff, 0x00, 0x56]),
+  new Uint8Array([0xff, 0xd9])
+);
+
+describe('stripImageMetadata', () => {
+  it('reads the GPS position before stripping', () => {
+    const gps = readImageMetadata(photo())?.gps;
+    expect(gps?.latitude).toBeCloseTo(48.85, 2);
+    expect(gps?.longitude).toBeCloseTo(2.2833, 3);
+  });
+
+  it('removes the EXIF block, its GPS position and comments from a JPEG', () => {
+    const original = photo();
+    const stripped = stripImageMetadata(original)!;
+    const meta = readImageMetadata(stripped)!;
+    expect(meta.gps).toBeUndefined();
+    expect(meta.exif).toEqual([]);
+    expect(meta.text).toEqual([]);
+    expect(new TextDecoder('latin1').decode(stripped)).not.toMatch(/Exif|taken at home/);
+    expect(meta.blocks.map(b => b.type)).not.toContain('APP1');
+  });
+
+  it('keeps the pixels and colour information', () => {
+    const stripped = stripImageMetadata(photo())!;
+    const meta = readImageMetadata(stripped)!;
+    expect([meta.width, meta.height]).toEqual([1, 1]);
+    expect(meta.endOffset).toBe(stripped.length);
+    expect(new TextDecoder('latin1').decode(stripped)).toContain('JFIF');
+  });
+
+  it('drops data appended after the end of the image', () => {
+    const stripped = stripImageMetadata(join(photo(), ascii('PK\u0003\u0004payload')))!;
+    expect(stripped.subarray(-2)).toEqual(new Uint8Array([0xff, 0xd9]));
+  });
+
+  it('returns null for formats it cannot rewrite', () => {
+    expect(stripImageMetadata(ascii('GIF89a'))).toBeNull();
+  });
+});
@@ -0,0 +1,59 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { forgetKey, getApiKey, getKeyStatus, lockKey, saveKeyToVault, unlockVault } from '../services/keyVault';
+
+const LEGACY_KEY = 'omni_api_key';
+const PASSPHRASE = 'correct horse battery';
+
+/** Node has no localStorage; the vault only needs get/set/remove. */
+const memoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+    removeItem: (key: string) => void items.delete(key)
+  };
+};
+
+describe('legacy key migration', () => {
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', memoryStorage());
+    forgetKey();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('encrypts a plain-text key on save and deletes the plain copy', async () => {
+    localStorage.setItem(LEGACY_KEY, 'AIzaLegacyKey1234');
+    expect(getKeyStatus()?.source).toBe('legacy');
+
+    await saveKeyToVault(getApiKey(), PASSPHRASE);
+    expect(localStorage.getItem(LEGACY_KEY)).toBeNull();
+    expect(getKeyStatus()?.source).toBe('vault');
+
+    lockKey();
+    expect(getApiKey()).toBe('');
+    await unlockVault(PASSPHRASE);
+    expect(getApiKey()).toBe('AIzaLegacyKey1234');
+  });
+
+  it('deletes a plain-text key left beside the vault on unlock', async () => {
+    await saveKeyToVault('AIzaVaultKey5678', PASSPHRASE);
+    lockKey();
+    localStorage.setItem(LEGACY_KEY, 'AIzaLegacyKey1234');
+
+    await unlockVault(PASSPHRASE);
+    expect(localStorage.getItem(LEGACY_KEY)).toBeNull();
+    expect(getApiKey()).toBe('AIzaVaultKey5678');
+  });
+
+  it('keeps the plain-text key when the passphrase is wrong', async () => {
+    await saveKeyToVault('AIzaVaultKey5678', PASSPHRASE);
+    lockKey();
+    localStorage.setItem(LEGACY_KEY, 'AIzaLegacyKey1234');
+
+    await expect(unlockVault('not the passphrase')).rejects.toThrow('Wrong passphrase.');
+    expect(localStorage.getItem(LEGACY_KEY)).toBe('AIzaLegacyKey1234');
+  });
+});
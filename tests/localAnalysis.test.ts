@@ -0,0 +1,90 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { analyzeLocally } from '../services/localAnalysis';
+import type { AnalyzerWorkerMessage, AnalyzerWorkerRequest } from '../services/analyzer.worker';
+import { AnalysisResult, AnalysisStage } from '../types';
+
+/** Stands in for the browser Worker: records what the page does and lets the test reply. */
+class FakeWorker {
+  static instances: FakeWorker[] = [];
+  onmessage: ((e: { data: AnalyzerWorkerMessage }) => void) | null = null;
+  onerror: ((e: { message: string }) => void) | null = null;
+  requests: AnalyzerWorkerRequest[] = [];
+  terminated = false;
+
+  constructor() {
+    FakeWorker.instances.push(this);
+  }
+
+  postMessage(request: AnalyzerWorkerRequest) {
+    this.requests.push(request);
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+
+  reply(data: AnalyzerWorkerMessage) {
+    this.onmessage?.({ data });
+  }
+}
+
+const file = () => new File(['hello'], 'notes.txt');
+
+const withFakeWorker = () => {
+  FakeWorker.instances = [];
+  vi.stubGlobal('Worker', FakeWorker);
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('analyzeLocally', () => {
+  it('forwards progress and resolves with the worker result', async () => {
+    withFakeWorker();
+    const stages: AnalysisStage[] = [];
+    const scan = analyzeLocally(file(), { onProgress: stage => stages.push(stage) });
+    const [worker] = FakeWorker.instances;
+    expect(worker.requests[0].file.name).toBe('notes.txt');
+    expect(worker.requests[0].rules.length).toBeGreaterThan(0);
+
+    worker.reply({ type: 'progress', stage: 'hashing' });
+    const result = { verdict: 'SAFE' } as AnalysisResult;
+    worker.reply({ type: 'result', result });
+    await expect(scan).resolves.toBe(result);
+    expect(stages).toEqual(['hashing']);
+    expect(worker.terminated).toBe(true);
+  });
+
+  it('terminates the worker and rejects when the scan is cancelled', async () => {
+    withFakeWorker();
+    const controller = new AbortController();
+    const scan = analyzeLocally(file(), { signal: controller.signal });
+    controller.abort(new DOMException('Cancelled', 'AbortError'));
+    await expect(scan).rejects.toThrow('Cancelled');
+    expect(FakeWorker.instances[0].terminated).toBe(true);
+  });
+
+  it('does not start a worker for an already cancelled scan', async () => {
+    withFakeWorker();
+    const controller = new AbortController();
+    controller.abort();
+    await expect(analyzeLocally(file(), { signal: controller.signal })).rejects.toThrow();
+    expect(FakeWorker.instances).toHaveLength(0);
+  });
+
+  it('rejects with the error the worker reports', async () => {
+    withFakeWorker();
+    const scan = analyzeLocally(file());
+    FakeWorker.instances[0].reply({ type: 'error', message: 'Local analysis failed' });
+    await expect(scan).rejects.toThrow('Local analysis failed');
+    expect(FakeWorker.instances[0].terminated).toBe(true);
+  });
+
+  it('falls back to the main thread without workers and still honours cancel', async () => {
+    await expect(analyzeLocally(file())).resolves.toMatchObject({ verdict: 'SAFE' });
+    const controller = new AbortController();
+    controller.abort();
+    await expect(analyzeLocally(file(), { signal: controller.signal })).rejects.toThrow();
+  });
+});
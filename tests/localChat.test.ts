@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { answerLocally, createLocalChatSession, localSuggestedQuestions } from '../services/localChat';
+import { analyzeBytes } from '../services/analyzer';
+import { ascii } from './fixtures';
+
+const page = ascii('<html><body><a href="https://updates.example.net/get">Update</a><script>eval(x)</script></body></html>');
+
+describe('answerLocally', () => {
+  it('explains the verdict from the findings', async () => {
+    const result = await analyzeBytes(page, 'invoice.html');
+    const answer = answerLocally('Why is this flagged?', result);
+    expect(answer).toContain(`**${result.verdict}**`);
+    expect(answer).toContain(result.findings!.find(f => f.id === 'web-eval')!.title);
+  });
+
+  it('lists the network addresses found in the strings', async () => {
+    const result = await analyzeBytes(page, 'invoice.html');
+    expect(answerLocally('Which URLs does it contact?', result)).toContain('https://updates.example.net/get');
+  });
+
+  it('answers from the scan result when nothing was found', async () => {
+    const result = await analyzeBytes(ascii('just some notes'), 'notes.txt');
+    expect(answerLocally('any urls?', result)).toMatch(/found no URLs/);
+    expect(answerLocally('is it signed?', result)).toMatch(/isn't one/);
+  });
+
+  it('offers help for questions it has no intent for', async () => {
+    const result = await analyzeBytes(ascii('just some notes'), 'notes.txt');
+    expect(answerLocally('tell me a joke', result)).toMatch(/^I answer from this scan's results/);
+  });
+});
+
+describe('localSuggestedQuestions', () => {
+  it('only suggests questions the result can answer', async () => {
+    const flagged = localSuggestedQuestions(await analyzeBytes(page, 'invoice.html'));
+    expect(flagged[0]).toBe('Why is this flagged?');
+    expect(flagged).toContain('What URLs are in it?');
+    expect(flagged).not.toContain('Is it signed?');
+
+    const plain = localSuggestedQuestions(await analyzeBytes(ascii('just some notes'), 'notes.txt'));
+    expect(plain).toEqual(['Why is it considered safe?', 'What should I do with it?']);
+  });
+});
+
+describe('createLocalChatSession', () => {
+  it('streams one answer and honours an aborted signal', async () => {
+    const result = await analyzeBytes(page, 'invoice.html');
+    const session = createLocalChatSession(result);
+    const chunks: string[] = [];
+    for await (const chunk of session.sendMessageStream('What are its hashes?')) chunks.push(chunk);
+    expect(chunks).toEqual([answerLocally('What are its hashes?', result)]);
+
+    const controller = new AbortController();
+    controller.abort();
+    const drain = async () => {
+      for await (const _ of session.sendMessageStream('why?', controller.signal)) { /* never reached */ }
+    };
+    await expect(drain()).rejects.toThrow();
+  });
+});
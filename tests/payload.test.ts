@@ -0,0 +1,52 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getAiPayload, oversizedCoverage } from '../services/payload';
+import { fileToBase64 } from '../utils/fileUtils';
+
+/** Bytes that are neither text nor repetitive, so chunk boundaries show up if they go wrong. */
+const noise = (length: number): Uint8Array => Uint8Array.from({ length }, (_, i) => (i * 2654435761) >>> 24);
+
+const withAiSettings = (settings: object) => {
+  vi.stubGlobal('localStorage', { getItem: (key: string) => (key === 'omni_ai_settings' ? JSON.stringify(settings) : null) });
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('fileToBase64', () => {
+  it('encodes across chunk boundaries exactly like a whole-buffer encoder', async () => {
+    const bytes = noise(2 * 1024 * 1024 + 7);
+    expect(await fileToBase64(new Blob([bytes]))).toBe(Buffer.from(bytes).toString('base64'));
+  });
+});
+
+describe('getAiPayload', () => {
+  it('sends a small binary file whole', async () => {
+    const file = new File([noise(4096)], 'sample.bin');
+    const payload = await getAiPayload(file, { binary: true, maxTextChars: 100_000 });
+    expect(payload.coverage.strategy).toBe('full');
+    expect(payload.inline?.base64).toBe(Buffer.from(noise(4096)).toString('base64'));
+  });
+
+  it('sends excerpts of a text file longer than the text budget', async () => {
+    const file = new File(['line of log output\n'.repeat(5000)], 'server.log', { type: 'text/plain' });
+    const payload = await getAiPayload(file, { binary: false, maxTextChars: 2000 });
+    expect(payload.inline).toBeUndefined();
+    expect(payload.coverage.strategy).toBe('extracted');
+    expect(payload.coverage.sentBytes).toBeLessThan(file.size);
+    expect(payload.coverage.portions[0]).toMatch(/^File header/);
+    expect(payload.text).toContain('as text ---');
+  });
+
+  it('returns the same payload for the same file and options', () => {
+    const file = new File([noise(100)], 'a.bin');
+    expect(getAiPayload(file, { binary: true, maxTextChars: 10 })).toBe(getAiPayload(file, { binary: true, maxTextChars: 10 }));
+  });
+
+  it('refuses files above the upload cap', async () => {
+    withAiSettings({ uploadLimitMb: 0.001 });
+    const file = new File([noise(4096)], 'big.bin');
+    expect(oversizedCoverage(file)?.strategy).toBe('skipped');
+    await expect(getAiPayload(file, { binary: true, maxTextChars: 100 })).rejects.toThrow();
+  });
+});
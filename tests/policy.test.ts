@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { applyPolicy, PolicyProfile } from '../services/policy';
+import { findingMessages, findingText, msg } from '../services/i18n';
+import { Finding } from '../types';
+
+const profile: PolicyProfile = { id: 'strict', name: 'Strict', rules: [{ findings: ['web-*'], verdict: 'DANGER' }] };
+
+const finding: Finding = {
+  id: 'web-eval',
+  severity: 'CAUTION',
+  ...findingMessages(msg('finding.web-eval.title'), msg('finding.web-eval.description')),
+  source: 'web'
+};
+
+describe('applyPolicy', () => {
+  it('explains a re-rated finding in every language', () => {
+    const [rated] = applyPolicy(profile, { extension: 'html', size: 100 }, [finding]).findings;
+    expect(rated.severity).toBe('DANGER');
+    expect(findingText(rated, 'en').description).toBe(`${finding.description} The Strict policy rates this Danger instead of Caution.`);
+    expect(findingText(rated, 'de').description).toContain('Die Richtlinie Strict stuft dies als Gefahr statt Vorsicht ein.');
+    expect(findingText(rated, 'de').description).toContain(findingText(finding, 'de').description);
+  });
+
+  it('leaves findings the profile agrees with untouched', () => {
+    const danger = { ...finding, severity: 'DANGER' as const };
+    expect(applyPolicy(profile, { extension: 'html', size: 100 }, [danger]).findings[0]).toBe(danger);
+  });
+});
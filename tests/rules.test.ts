@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateRules, parseRuleset, ruleMatchToFinding } from '../services/rules';
+import { findingText } from '../services/i18n';
+import { ascii } from './fixtures';
+
+const matches = (source: string, bytes: Uint8Array) => evaluateRules(parseRuleset(source), bytes, bytes.length).map(m => m.rule);
+
+describe('parseRuleset', () => {
+  it('reads text on the same line as a section header', () => {
+    const [rule] = parseRuleset([
+      'rule OneLine {',
+      '  meta: description = "Says hello"',
+      '  strings: $a = "hello"',
+      '  condition: $a',
+      '}'
+    ].join('\n'));
+    expect(rule.description).toBe('Says hello');
+    expect(rule.strings).toEqual([{ id: '$a', type: 'text', value: 'hello', nocase: undefined, wide: undefined }]);
+    expect(rule.condition).toBe('$a');
+  });
+
+  it('matches hex strings with wildcards', () => {
+    const rule = 'rule Hex {\n strings:\n  $h = { 4D 5A ?? 00 }\n condition:\n  $h at 0\n}';
+    expect(matches(rule, new Uint8Array([0x4d, 0x5a, 0x90, 0x00]))).toEqual(['Hex']);
+    expect(matches(rule, new Uint8Array([0x4d, 0x5a, 0x90, 0x01]))).toEqual([]);
+    expect(matches(rule, new Uint8Array([0x00, 0x4d, 0x5a, 0x90, 0x00]))).toEqual([]);
+  });
+
+  it('honours nocase and wide', () => {
+    const rule = 'rule Mods {\n strings:\n  $a = "powershell" nocase wide\n condition:\n  $a\n}';
+    expect(matches(rule, ascii('run PowerShell now'))).toEqual(['Mods']);
+    expect(matches(rule, new Uint8Array(Array.from('POWERSHELL', c => [c.charCodeAt(0), 0]).flat()))).toEqual(['Mods']);
+    expect(matches(rule, ascii('power shell'))).toEqual([]);
+  });
+
+  it('evaluates any of, all of and N of', () => {
+    const strings = '\n strings:\n  $a = "alpha"\n  $b = "beta"\n  $c = "gamma"\n condition:\n  ';
+    const source = [
+      `rule AnyOf {${strings}any of them\n}`,
+      `rule AllOf {${strings}all of ($a, $b)\n}`,
+      `rule TwoOf {${strings}2 of them\n}`,
+      `rule ThreeOf {${strings}3 of ($a, $b, $c)\n}`
+    ].join('\n');
+    expect(matches(source, ascii('gamma'))).toEqual(['AnyOf']);
+    expect(matches(source, ascii('alpha beta'))).toEqual(['AnyOf', 'AllOf', 'TwoOf']);
+    expect(matches(source, ascii('alpha beta gamma'))).toEqual(['AnyOf', 'AllOf', 'TwoOf', 'ThreeOf']);
+  });
+
+  it('rejects malformed rules', () => {
+    expect(() => parseRuleset('rule Open {\n strings:\n  $a = "x"\n condition:\n  $a')).toThrow(/missing its closing/);
+    expect(() => parseRuleset('rule Typo {\n strings:\n  $a = "x"\n condition:\n  $b\n}')).toThrow(/undefined string \$b/);
+    expect(() => parseRuleset('rule Bad {\n strings:\n  $a = { 4D ZZ }\n condition:\n  $a\n}')).toThrow(/Invalid hex byte/);
+    expect(() => parseRuleset('rule Cond {\n strings:\n  $a = "x"\n condition:\n  $a and\n}')).toThrow(/Unexpected end/);
+    expect(() => parseRuleset('rule Loose {\n  $a = "x"\n}')).toThrow(/expected meta:, strings: or condition:/);
+    expect(() => parseRuleset('[{ "name": "two words", "strings": [], "condition": "true" }]')).toThrow(/single word/);
+  });
+});
+
+describe('ruleMatchToFinding', () => {
+  it('translates the wording around the rule name and hits', () => {
+    const source = 'rule Script_Host {\n strings:\n  $a = "wscript"\n condition:\n  $a\n}';
+    const bytes = ascii('wscript wscript');
+    const finding = ruleMatchToFinding(evaluateRules(parseRuleset(source), bytes, bytes.length)[0]);
+    expect(finding.messages).toBeDefined();
+    expect(findingText(finding, 'en')).toEqual({
+      title: 'Script Host',
+      description: 'Matched the detection rule Script Host. Matched $a at 0x0 (2x).'
+    });
+    expect(findingText(finding, 'de').title).toBe('Script Host');
+    expect(findingText(finding, 'de').description).not.toBe(findingText(finding, 'en').description);
+  });
+});
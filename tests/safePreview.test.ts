@@ -0,0 +1,52 @@
+// @vitest-environment happy-dom
+import { describe, expect, it } from 'vitest';
+import { PREVIEW_CSP, sanitizeForPreview } from '../services/safePreview';
+
+const body = (html: string) => new DOMParser().parseFromString(html, 'text/html');
+
+describe('sanitizeForPreview', () => {
+  it('removes scripts, event handlers and javascript: URLs from HTML', () => {
+    const { html, removed } = sanitizeForPreview([
+      '<html><body>',
+      '<script>steal()</script>',
+      '<img src="x" onerror="steal()">',
+      '<a href="javascript:steal()">Open</a>',
+      '<form action="javascript:steal()"><button formaction="javascript:steal()">Go</button></form>',
+      '<p>Invoice attached</p>',
+      '</body></html>'
+    ].join(''), 'html');
+
+    const doc = body(html);
+    expect(doc.querySelector('script')).toBeNull();
+    expect(html).not.toMatch(/onerror|javascript:/i);
+    expect(doc.querySelector('a')?.hasAttribute('href')).toBe(false);
+    expect(doc.querySelector('p')?.textContent).toBe('Invoice attached');
+    expect(removed).toEqual(expect.arrayContaining(['1 script', '1 event handler', '1 link']));
+  });
+
+  it('puts the CSP first in the document', () => {
+    const doc = body(sanitizeForPreview('<p>hi</p>', 'html').html);
+    expect(doc.head.firstElementChild?.getAttribute('content')).toBe(PREVIEW_CSP);
+  });
+
+  it('removes foreignObject, scripts and handlers from SVG', () => {
+    const svg = [
+      '<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" onload="steal()">',
+      '<script>steal()</script>',
+      '<foreignObject width="100" height="100"><body xmlns="http://www.w3.org/1999/xhtml"><button onclick="steal()">Pay</button></body></foreignObject>',
+      '<a xlink:href="javascript:steal()"><circle r="5"/></a>',
+      '<set attributeName="href" to="javascript:steal()"/>',
+      '</svg>'
+    ].join('');
+    const { html, removed } = sanitizeForPreview(svg, 'svg');
+    expect(html).not.toMatch(/<script|foreignObject|onload|onclick|javascript:|<set\b/i);
+    expect(html).toContain('<circle');
+    expect(removed).toEqual(expect.arrayContaining(['1 script', '2 active SVG elements', '1 event handler']));
+  });
+
+  it('refuses SVG that is not well-formed', () => {
+    const { html, removed } = sanitizeForPreview('<svg><g></svg>', 'svg');
+    expect(html).toContain('could not be previewed');
+    expect(removed).toEqual([]);
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { detectSignature } from '../services/signatures';
+import { analyzeBytes } from '../services/analyzer';
+import { ascii } from './fixtures';
+
+/** An "MZ" stub of `length` bytes whose e_lfanew is `peOffset`, with a "PE\0\0" header there when it fits. */
+const mzFile = (peOffset: number, length = 256): Uint8Array => {
+  const bytes = new Uint8Array(length);
+  bytes.set([0x4d, 0x5a]);
+  new DataView(bytes.buffer).setUint32(0x3c, peOffset, true);
+  if (peOffset + 4 <= length) bytes.set([0x50, 0x45, 0, 0], peOffset);
+  return bytes;
+};
+
+describe('detectSignature', () => {
+  it('detects a PE image through its e_lfanew header', () => {
+    expect(detectSignature(mzFile(0x80))?.id).toBe('pe');
+  });
+
+  it('does not call an MZ stub without a PE header an executable', () => {
+    expect(detectSignature(mzFile(0x1000))?.id).not.toBe('pe');
+    expect(detectSignature(mzFile(0x10))?.id).not.toBe('pe');
+  });
+
+  it('reads a CSV that starts with "MZ" as text', () => {
+    const csv = ascii('MZ,Mozambique,Maputo,33897354\nNA,Namibia,Windhoek,2604172\nNL,Netherlands,Amsterdam,17882900\n');
+    expect(detectSignature(csv)?.id).toBe('text');
+  });
+});
+
+describe('extension mismatch', () => {
+  it('keeps countries.csv safe', async () => {
+    const csv = ascii('MZ,Mozambique,Maputo,33897354\nNA,Namibia,Windhoek,2604172\nNL,Netherlands,Amsterdam,17882900\n');
+    const result = await analyzeBytes(csv, 'countries.csv');
+    expect(result.findings?.map(f => f.id)).not.toContain('signature-mismatch');
+    expect(result.verdict).toBe('SAFE');
+  });
+
+  it('still flags a real PE renamed to .csv', async () => {
+    const result = await analyzeBytes(mzFile(0x80), 'countries.csv');
+    expect(result.findings?.map(f => f.id)).toContain('signature-mismatch');
+    expect(result.verdict).toBe('DANGER');
+  });
+});
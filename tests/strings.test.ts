@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { extractStrings, findIocs, iocSpans } from '../services/strings';
+import { ascii } from './fixtures';
+
+const utf16 = (text: string) => Uint8Array.from(Array.from(text).flatMap(c => [c.charCodeAt(0), 0]));
+
+const concat = (...parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  parts.reduce((offset, p) => (out.set(p, offset), offset + p.length), 0);
+  return out;
+};
+
+describe('extractStrings', () => {
+  it('finds ASCII runs of at least the minimum length, with their offsets', () => {
+    const bytes = concat(new Uint8Array([0, 1]), ascii('abc'), new Uint8Array([0]), ascii('hello\tworld'), new Uint8Array([0xff]));
+    expect(extractStrings(bytes)).toEqual([{ offset: 6, value: 'hello\tworld', encoding: 'ascii' }]);
+    expect(extractStrings(bytes, 3).map(s => s.value)).toEqual(['abc', 'hello\tworld']);
+  });
+
+  it('finds UTF-16LE strings at either alignment', () => {
+    const bytes = concat(new Uint8Array([0xff]), utf16('SOFTWARE\\Run'), new Uint8Array([0xff, 0xff]), utf16('even'));
+    const wide = extractStrings(bytes).filter(s => s.encoding === 'utf16le');
+    expect(wide).toEqual([
+      { offset: 1, value: 'SOFTWARE\\Run', encoding: 'utf16le' },
+      { offset: 27, value: 'even', encoding: 'utf16le' }
+    ]);
+  });
+});
+
+describe('findIocs', () => {
+  const iocs = (text: string) => findIocs(extractStrings(ascii(text))).map(i => `${i.kind}:${i.value}`);
+
+  it('keeps a URL along with the host inside it', () => {
+    expect(iocs('GET http://203.0.113.9/gate.php, then')).toEqual(['url:http://203.0.113.9/gate.php', 'ip:203.0.113.9']);
+    expect(iocs('see https://cdn.example.net/x.')).toEqual(['url:https://cdn.example.net/x', 'domain:cdn.example.net']);
+  });
+
+  it('skips loopback addresses and mixed-case code namespaces', () => {
+    expect(iocs('bind 127.0.0.1 and 0.0.0.0; using System.IO')).toEqual([]);
+  });
+
+  it('reports registry keys and emails', () => {
+    expect(iocs('HKCU\\Software\\Microsoft\\Windows\\CurrentVersion\\Run')).toEqual(['registry:HKCU\\Software\\Microsoft\\Windows\\CurrentVersion\\Run']);
+    expect(iocs('mail ops@example.org now')).toContain('email:ops@example.org');
+  });
+
+  it('only accepts bitcoin addresses whose checksum holds', () => {
+    expect(iocs('pay 1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa now')).toEqual(['bitcoin:1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa']);
+    expect(iocs('pay bc1qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdq now')).toEqual(['bitcoin:bc1qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdq']);
+    expect(iocs('pay 1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNb now')).toEqual([]);
+  });
+
+  it('reports each indicator once', () => {
+    expect(iocs('evil.example.com\0evil.example.com\0EVIL.EXAMPLE.COM')).toEqual(['domain:evil.example.com']);
+  });
+});
+
+describe('iocSpans', () => {
+  it('keeps only the longest of overlapping spans', () => {
+    const text = 'go to http://evil.example.com/a now';
+    expect(iocSpans(text)).toEqual([{ kind: 'url', start: 6, end: 31 }]);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { findUrls, inspectUrl, urlFindings } from '../services/urlAnalysis';
+import { findingText } from '../services/i18n';
+
+const kinds = (url: string) => inspectUrl(url)?.problems.map(p => p.kind);
+
+describe('findUrls', () => {
+  it('finds links without trailing punctuation, once each', () => {
+    expect(findUrls('See https://example.com/a, or (http://example.org/b). Again: https://example.com/a!'))
+      .toEqual(['https://example.com/a', 'http://example.org/b']);
+  });
+
+  it('keeps non-Latin letters in host names', () => {
+    expect(findUrls('login at https://раураl.com/signin now')).toEqual(['https://раураl.com/signin']);
+  });
+});
+
+describe('inspectUrl', () => {
+  it('passes ordinary links', () => {
+    expect(kinds('https://www.paypal.com/signin')).toEqual([]);
+    expect(kinds('https://münchen.de/')).toEqual([]);
+    expect(kinds('https://docs.example.co.uk/guide')).toEqual([]);
+  });
+
+  it('rejects anything that is not an absolute web or ftp link', () => {
+    expect(inspectUrl('mailto:someone@example.com')).toBeNull();
+    expect(inspectUrl('/relative/path')).toBeNull();
+  });
+
+  it('flags lookalikes of well-known brands', () => {
+    expect(inspectUrl('https://paypa1.com/login')?.problems).toEqual([{ kind: 'lookalike', detail: 'paypal' }]);
+    expect(inspectUrl('https://rnicrosoft.com')?.problems).toEqual([{ kind: 'lookalike', detail: 'microsoft' }]);
+    expect(inspectUrl('https://xn--80aa0cbo65f.com/')?.problems[0].kind).toBe('lookalike');
+  });
+
+  it('flags mixed alphabets in a host name', () => {
+    const inspection = inspectUrl('https://exаmple.com/');
+    expect(inspection?.host).toBe('exаmple.com');
+    expect(inspection?.problems.map(p => p.kind)).toEqual(['homoglyph']);
+  });
+
+  it('flags credentials, brand subdomains, shorteners and risky TLDs', () => {
+    expect(kinds('https://www.bank.com@203.0.113.5/')).toEqual(['credentials', 'ip-host']);
+    expect(kinds('https://paypal.com.account-check.xyz/verify')).toEqual(['brand-subdomain', 'suspicious-tld']);
+    expect(kinds('https://bit.ly/3abcd')).toEqual(['shortener']);
+  });
+
+  it('names the way an IP host was disguised', () => {
+    const [problem] = inspectUrl('http://3232235777/')!.problems;
+    expect(problem.kind).toBe('ip-host');
+    expect(problem.detail).toBeDefined();
+    expect(inspectUrl('http://192.168.1.1/')!.problems[0].detail).toBeUndefined();
+  });
+});
+
+describe('urlFindings', () => {
+  it('reports each kind of problem once, listing every host', () => {
+    const findings = urlFindings(['https://bit.ly/a', 'https://bit.ly/b', 'https://tinyurl.com/c', 'https://paypa1.com/']);
+    expect(findings.map(f => [f.id, f.severity])).toEqual([['url-shortener', 'CAUTION'], ['url-lookalike', 'DANGER']]);
+    const shortener = findingText(findings[0], 'en').description;
+    expect(shortener).toContain('bit.ly');
+    expect(shortener).toContain('tinyurl.com');
+  });
+
+  it('has nothing to say about clean links', () => {
+    expect(urlFindings(['https://example.com/', 'https://github.com/'])).toEqual([]);
+  });
+});
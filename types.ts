@@ -1,6 +1,273 @@
 
+export type Verdict = 'SAFE' | 'CAUTION' | 'DANGER';
+
+export type FindingSeverity = 'INFO' | Exclude<Verdict, 'SAFE'>;
+
+export interface Finding {
+  id: string;
+  title: string;
+  severity: FindingSeverity;
+  description: string;
+  /** Where the finding came from, e.g. "signature". */
+  source: string;
+  /** 1-based line of the evidence in text files. */
+  line?: number;
+  /** The offending code, trimmed for display. */
+  snippet?: string;
+  /** Privacy findings are about what the file reveals, not what it can do. Missing means security. */
+  category?: 'security' | 'privacy';
+  /** Title and description as catalog keys; missing for rule and AI findings, which keep their own wording. */
+  messages?: { title: LocalizedText; description: LocalizedText };
+}
+
+export interface RuleMatch {
+  rule: string;
+  description?: string;
+  severity: FindingSeverity;
+  tags: string[];
+  /** Strings that hit, with how often and where they first appeared. */
+  strings: { id: string; count: number; firstOffset: number }[];
+}
+
+export interface ArchiveEntry {
+  /** Path inside the archive; nested archives are joined with "/". */
+  path: string;
+  size: number;
+  compressedSize: number;
+  /** Uncompressed size divided by compressed size. */
+  ratio: number;
+  encrypted: boolean;
+  /** Nesting level of the archive that holds this entry (0 = the uploaded file). */
+  depth: number;
+  /** Missing when the entry could not be analyzed. */
+  verdict?: Verdict;
+  fileType?: string;
+  /** Top finding, or why the entry was skipped. */
+  note?: string;
+  messages?: { note: LocalizedText };
+}
+
+export interface ArchiveSummary {
+  format: string;
+  entryCount: number;
+  totalSize: number;
+  totalCompressedSize: number;
+  entries: ArchiveEntry[];
+  /** True when size or count limits stopped inspection early. */
+  truncated: boolean;
+}
+
+/** One method from the receiving server's Authentication-Results header. */
+export interface EmailAuthResult {
+  method: 'spf' | 'dkim' | 'dmarc';
+  /** e.g. "pass", "fail", "softfail", "none". */
+  result: string;
+  /** The domain the result is for, e.g. header.from or smtp.mailfrom. */
+  detail?: string;
+}
+
+/** A link in an email body, with the text it is shown as. */
+export interface EmailLink {
+  text: string;
+  href: string;
+  /** True when the text names a different domain than the link goes to. */
+  mismatch: boolean;
+}
+
+export interface EmailAttachment {
+  name: string;
+  size: number;
+  contentType: string;
+  /** Missing when the attachment could not be analyzed. */
+  verdict?: Verdict;
+  fileType?: string;
+  /** Top finding, or why the attachment was skipped. */
+  note?: string;
+  messages?: { note: LocalizedText };
+}
+
+export interface EmailSummary {
+  format: 'eml' | 'msg';
+  from?: string;
+  replyTo?: string;
+  returnPath?: string;
+  to?: string;
+  subject?: string;
+  date?: string;
+  messageId?: string;
+  auth: EmailAuthResult[];
+  links: EmailLink[];
+  attachments: EmailAttachment[];
+}
+
+export interface ExecutableSection {
+  name: string;
+  virtualAddress: number;
+  virtualSize: number;
+  rawSize: number;
+  /** Shannon entropy in bits per byte (0-8); missing when the section lies beyond the bytes read. */
+  entropy?: number;
+  /** Any of "R", "W", "X". */
+  permissions: string;
+}
+
+export interface ExecutableImport {
+  library: string;
+  functions: string[];
+}
+
+export interface ExecutableInfo {
+  format: 'PE' | 'ELF';
+  machine: string;
+  bits: 32 | 64;
+  /** e.g. "Executable", "DLL", "Shared object". */
+  kind: string;
+  subsystem?: string;
+  entryPoint: number;
+  /** PE link time as ISO 8601; missing for ELF or a zeroed timestamp. */
+  compiledAt?: string;
+  /** ELF program interpreter, e.g. /lib64/ld-linux-x86-64.so.2. */
+  interpreter?: string;
+  sections: ExecutableSection[];
+  imports: ExecutableImport[];
+  exports: string[];
+  /** Whether a PE carries an Authenticode certificate directory. Not a validity check. */
+  hasSignature?: boolean;
+}
+
+export interface ImageTag {
+  name: string;
+  value: string;
+  /** Stored size in bytes, for comments and text chunks. */
+  bytes?: number;
+}
+
+export interface GpsPosition {
+  latitude: number;
+  longitude: number;
+  /** Metres above sea level. */
+  altitude?: number;
+}
+
+/** Segments (JPEG), chunks (PNG, WebP) or boxes (HEIC) of one type. */
+export interface ImageBlock {
+  type: string;
+  count: number;
+  bytes: number;
+}
+
+export interface ImageMetadata {
+  format: 'JPEG' | 'PNG' | 'WebP' | 'HEIC';
+  width?: number;
+  height?: number;
+  /** Camera, software, dates and owner fields from EXIF. */
+  exif: ImageTag[];
+  gps?: GpsPosition;
+  /** JPEG comments and PNG tEXt/iTXt/zTXt keywords. */
+  text: ImageTag[];
+  /** Creator, tool, date and location fields from XMP. */
+  xmp: ImageTag[];
+  /** Caption, by-line and location fields from IPTC. */
+  iptc: ImageTag[];
+  /** The file's structure in order of first appearance. */
+  blocks: ImageBlock[];
+  /** Offset just past the image's end marker; missing when it wasn't found. */
+  endOffset?: number;
+}
+
+export interface FileMetadata {
+  suggestedApp: string;
+  securityLevel: string;
+  declaredExtension?: string | null;
+  detectedType?: string;
+  detectedMimeType?: string | null;
+  signatureEvidence?: string | null;
+  extensionMatchesContent?: boolean;
+  isExecutable?: boolean;
+  executable?: ExecutableInfo;
+  image?: ImageMetadata;
+  hashes?: FileHashes;
+}
+
+export interface FileHashes {
+  md5: string;
+  sha1: string;
+  sha256: string;
+}
+
+/** One analyzer's view of a file, kept alongside the blended result. */
+export interface VerdictOpinion {
+  verdict: Verdict;
+  humanVerdict: string;
+  explanation: string;
+  /** The local opinion's wording as catalog keys. */
+  messages?: ResultMessages;
+}
+
+/** How the local and AI verdicts were combined into the final one. */
+export interface VerdictBlend {
+  local: VerdictOpinion;
+  ai: VerdictOpinion;
+  decidedBy: 'local' | 'ai' | 'both' | 'hashlist';
+  reason: string;
+  /** Problems the validator fixed or dropped in the AI reply. */
+  aiRepairs: string[];
+  messages?: { reason: LocalizedText };
+}
+
+export type IocKind = 'url' | 'ip' | 'domain' | 'email' | 'registry' | 'bitcoin';
+
+/** An indicator of compromise found in the file's strings. */
+export interface Ioc {
+  kind: IocKind;
+  value: string;
+  /** Byte offset of the first string it was found in. */
+  offset: number;
+}
+
+/** Which parts of a file the AI actually received. */
+export interface AiCoverage {
+  /** full: the whole file; extracted: headers, strings and samples; skipped: nothing was sent. */
+  strategy: 'full' | 'extracted' | 'skipped';
+  totalBytes: number;
+  sentBytes: number;
+  /** Human readable list of what was sent, e.g. "Bytes 0 – 65,535 as text". */
+  portions: string[];
+  /** Why the whole file was not sent. */
+  reason?: string;
+  messages?: { reason: LocalizedText };
+}
+
+/** The policy profile a local scan ran under. */
+export interface AppliedPolicy {
+  id: string;
+  name: string;
+  /** What the profile changed, e.g. "web-eval: CAUTION → INFO"; empty when it changed nothing. */
+  applied: string[];
+}
+
+/** A message catalog key and the values for its placeholders; nested texts are localized too. */
+export interface LocalizedText {
+  key: string;
+  params?: Record<string, string | number | LocalizedText>;
+}
+
+/** The local scan's user-facing text as catalog keys, so it can be shown in any locale. */
+export interface ResultMessages {
+  humanVerdict: LocalizedText;
+  /** Sentences of the explanation, joined with spaces. */
+  simpleExplanation: LocalizedText[];
+  solutions: LocalizedText[];
+}
+
+/** Steps of a single-file scan, reported as each one starts. */
+export type AnalysisStage = 'reading' | 'rules' | 'hashing' | 'parsing' | 'ai';
+
+/** Local signature scan or AI deep dive. */
+export type AnalysisMode = 'signature' | 'ai';
+
 export interface AnalysisResult {
-  verdict: 'SAFE' | 'CAUTION' | 'DANGER';
+  verdict: Verdict;
   humanVerdict: string;
   summary: string;
   simpleExplanation: string;
@@ -9,14 +276,48 @@ export interface AnalysisResult {
   solutions: string[];
   technicalDetails: string;
   fileType: string;
-  metadata: Record<string, any>;
+  metadata: FileMetadata;
+  findings?: Finding[];
+  ruleMatches?: RuleMatch[];
+  archive?: ArchiveSummary;
+  email?: EmailSummary;
+  iocs?: Ioc[];
+  mode?: AnalysisMode;
+  /** Set on AI results that passed validation with fixes. */
+  validationNotes?: string[];
+  /** Set when an AI result was merged with the local scan. */
+  blend?: VerdictBlend;
+  /** Set on Pro results; describes what the AI was shown. */
+  aiCoverage?: AiCoverage;
+  /** Set when the local scan ran under a policy profile. */
+  policy?: AppliedPolicy;
+  /** Set on local results; the same text as humanVerdict, simpleExplanation and solutions, but localizable. */
+  messages?: ResultMessages;
 }
 
 export enum AnalysisStatus {
   IDLE = 'IDLE',
   LOADING = 'LOADING',
   SUCCESS = 'SUCCESS',
-  ERROR = 'ERROR'
+  ERROR = 'ERROR',
+  BATCH = 'BATCH'
+}
+
+/** A file picked by the user, with its path inside a chosen or dropped folder. */
+export interface PickedFile {
+  file: File;
+  path: string;
+}
+
+export type BatchItemStatus = 'queued' | 'scanning' | 'done' | 'error';
+
+export interface BatchItem extends PickedFile {
+  id: number;
+  status: BatchItemStatus;
+  result?: AnalysisResult;
+  error?: string;
+  /** Id of the saved history entry, once recorded. */
+  historyId?: number;
 }
 
 export interface ChatMessage {
@@ -0,0 +1,86 @@
+/**
+ * Shannon entropy of a byte range in bits per byte (0 = uniform, 8 = random).
+ * Compressed or encrypted data sits close to 8.
+ */
+export const calculateEntropy = (bytes: Uint8Array): number => {
+  if (bytes.length === 0) return 0;
+  const counts = new Uint32Array(256);
+  for (let i = 0; i < bytes.length; i++) counts[bytes[i]]++;
+  let entropy = 0;
+  for (let i = 0; i < 256; i++) {
+    if (counts[i] === 0) continue;
+    const p = counts[i] / bytes.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+};
+
+export interface EntropyPoint {
+  offset: number;
+  entropy: number;
+}
+
+/**
+ * Entropy of `points` evenly spaced blocks across a file, for graphing.
+ * Each block is sampled from its start, at most `sampleBytes`, so the cost
+ * stays flat however large the file is.
+ */
+export const entropyProfile = async (file: Blob, points = 128, sampleBytes = 64 * 1024): Promise<EntropyPoint[]> => {
+  if (file.size === 0) return [];
+  const blockSize = Math.ceil(file.size / Math.min(points, file.size));
+  const out: EntropyPoint[] = [];
+  for (let offset = 0; offset < file.size; offset += blockSize) {
+    const end = Math.min(offset + Math.min(blockSize, sampleBytes), file.size);
+    out.push({ offset, entropy: calculateEntropy(new Uint8Array(await file.slice(offset, end).arrayBuffer())) });
+  }
+  return out;
+};
+
+/**
+ * Reads a NUL-terminated ASCII string, stopping at `maxLength` characters.
+ */
+export const readCString = (bytes: Uint8Array, offset: number, maxLength = 256): string => {
+  let end = offset;
+  const limit = Math.min(bytes.length, offset + maxLength);
+  while (end < limit && bytes[end] !== 0) end++;
+  return String.fromCharCode(...bytes.subarray(offset, end));
+};
+
+/** Thrown by readStreamWithLimit when a stream produces more than `limit` bytes. */
+export class ReadLimitExceeded extends Error {
+  readonly limit: number;
+
+  constructor(limit: number) {
+    super(`Expands beyond the ${Math.round(limit / 1024 / 1024)} MB inspection limit`);
+    this.name = 'ReadLimitExceeded';
+    this.limit = limit;
+  }
+}
+
+/**
+ * Reads a byte stream to the end, cancelling it and throwing
+ * ReadLimitExceeded once more than `limit` bytes arrive. Guards
+ * decompression against bombs.
+ */
+export const readStreamWithLimit = async (stream: ReadableStream<Uint8Array>, limit: number): Promise<Uint8Array> => {
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    total += value.length;
+    if (total > limit) {
+      await reader.cancel();
+      throw new ReadLimitExceeded(limit);
+    }
+  }
+  const out = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+};
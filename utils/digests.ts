@@ -0,0 +1,162 @@
+/**
+ * Incremental MD5, SHA-1 and SHA-256. Web Crypto has no MD5 and can only
+ * digest a whole buffer at once, so these cover MD5 and files too large to
+ * hold in memory.
+ */
+export interface IncrementalHash {
+  update: (bytes: Uint8Array) => void;
+  /** Hex digest. The hasher must not be updated afterwards. */
+  digest: () => string;
+}
+
+type Compress = (state: Int32Array, block: DataView) => void;
+
+const rotl = (x: number, n: number) => (x << n) | (x >>> (32 - n));
+
+/** Shared buffering and padding for 64-byte-block Merkle–Damgård hashes. */
+const createBlockHash = (initial: number[], compress: Compress, littleEndian: boolean): IncrementalHash => {
+  const state = Int32Array.from(initial);
+  const block = new Uint8Array(64);
+  const view = new DataView(block.buffer);
+  let buffered = 0;
+  let total = 0;
+
+  const update = (bytes: Uint8Array) => {
+    total += bytes.length;
+    let offset = 0;
+    while (offset < bytes.length) {
+      const take = Math.min(64 - buffered, bytes.length - offset);
+      block.set(bytes.subarray(offset, offset + take), buffered);
+      buffered += take;
+      offset += take;
+      if (buffered === 64) {
+        compress(state, view);
+        buffered = 0;
+      }
+    }
+  };
+
+  const digest = () => {
+    // The bit length is written as two 32-bit halves; byte counts above 2^53 aren't reachable.
+    const bitsLow = (total % 0x20000000) * 8;
+    const bitsHigh = Math.floor(total / 0x20000000);
+    const padding = new Uint8Array((buffered < 56 ? 56 : 120) - buffered);
+    padding[0] = 0x80;
+    update(padding);
+    view.setUint32(56, littleEndian ? bitsLow : bitsHigh, littleEndian);
+    view.setUint32(60, littleEndian ? bitsHigh : bitsLow, littleEndian);
+    compress(state, view);
+
+    const out = new DataView(new ArrayBuffer(state.length * 4));
+    state.forEach((word, i) => out.setInt32(i * 4, word, littleEndian));
+    return Array.from(new Uint8Array(out.buffer), b => b.toString(16).padStart(2, '0')).join('');
+  };
+
+  return { update, digest };
+};
+
+// ---------------------------------------------------------------------------
+// MD5 (RFC 1321)
+// ---------------------------------------------------------------------------
+
+const MD5_SHIFTS = [[7, 12, 17, 22], [5, 9, 14, 20], [4, 11, 16, 23], [6, 10, 15, 21]];
+const MD5_K = Array.from({ length: 64 }, (_, i) => Math.floor(Math.abs(Math.sin(i + 1)) * 0x100000000) | 0);
+const md5Words = new Int32Array(16);
+
+const md5Compress: Compress = (state, block) => {
+  for (let i = 0; i < 16; i++) md5Words[i] = block.getInt32(i * 4, true);
+  let [a, b, c, d] = state;
+  for (let i = 0; i < 64; i++) {
+    let f: number;
+    let g: number;
+    if (i < 16) { f = (b & c) | (~b & d); g = i; }
+    else if (i < 32) { f = (d & b) | (~d & c); g = (5 * i + 1) % 16; }
+    else if (i < 48) { f = b ^ c ^ d; g = (3 * i + 5) % 16; }
+    else { f = c ^ (b | ~d); g = (7 * i) % 16; }
+    f = (f + a + MD5_K[i] + md5Words[g]) | 0;
+    a = d;
+    d = c;
+    c = b;
+    b = (b + rotl(f, MD5_SHIFTS[i >> 4][i & 3])) | 0;
+  }
+  state[0] += a; state[1] += b; state[2] += c; state[3] += d;
+};
+
+export const createMd5 = (): IncrementalHash =>
+  createBlockHash([0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476], md5Compress, true);
+
+// ---------------------------------------------------------------------------
+// SHA-1 (FIPS 180-4)
+// ---------------------------------------------------------------------------
+
+const sha1Words = new Int32Array(80);
+
+const sha1Compress: Compress = (state, block) => {
+  const w = sha1Words;
+  for (let t = 0; t < 16; t++) w[t] = block.getInt32(t * 4, false);
+  for (let t = 16; t < 80; t++) w[t] = rotl(w[t - 3] ^ w[t - 8] ^ w[t - 14] ^ w[t - 16], 1);
+  let [a, b, c, d, e] = state;
+  for (let t = 0; t < 80; t++) {
+    let f: number;
+    let k: number;
+    if (t < 20) { f = (b & c) | (~b & d); k = 0x5a827999; }
+    else if (t < 40) { f = b ^ c ^ d; k = 0x6ed9eba1; }
+    else if (t < 60) { f = (b & c) | (b & d) | (c & d); k = 0x8f1bbcdc; }
+    else { f = b ^ c ^ d; k = 0xca62c1d6; }
+    const temp = (rotl(a, 5) + f + e + k + w[t]) | 0;
+    e = d;
+    d = c;
+    c = rotl(b, 30);
+    b = a;
+    a = temp;
+  }
+  state[0] += a; state[1] += b; state[2] += c; state[3] += d; state[4] += e;
+};
+
+export const createSha1 = (): IncrementalHash =>
+  createBlockHash([0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476, 0xc3d2e1f0], sha1Compress, false);
+
+// ---------------------------------------------------------------------------
+// SHA-256 (FIPS 180-4)
+// ---------------------------------------------------------------------------
+
+const PRIMES = (() => {
+  const primes: number[] = [];
+  for (let n = 2; primes.length < 64; n++) {
+    if (primes.every(p => n % p !== 0)) primes.push(n);
+  }
+  return primes;
+})();
+const fractionBits = (x: number) => ((x - Math.floor(x)) * 0x100000000) | 0;
+const SHA256_K = PRIMES.map(p => fractionBits(Math.cbrt(p)));
+const SHA256_INITIAL = PRIMES.slice(0, 8).map(p => fractionBits(Math.sqrt(p)));
+const sha256Words = new Int32Array(64);
+
+const rotr = (x: number, n: number) => (x >>> n) | (x << (32 - n));
+
+const sha256Compress: Compress = (state, block) => {
+  const w = sha256Words;
+  for (let t = 0; t < 16; t++) w[t] = block.getInt32(t * 4, false);
+  for (let t = 16; t < 64; t++) {
+    const s0 = rotr(w[t - 15], 7) ^ rotr(w[t - 15], 18) ^ (w[t - 15] >>> 3);
+    const s1 = rotr(w[t - 2], 17) ^ rotr(w[t - 2], 19) ^ (w[t - 2] >>> 10);
+    w[t] = (w[t - 16] + s0 + w[t - 7] + s1) | 0;
+  }
+  let [a, b, c, d, e, f, g, h] = state;
+  for (let t = 0; t < 64; t++) {
+    const t1 = (h + (rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)) + ((e & f) ^ (~e & g)) + SHA256_K[t] + w[t]) | 0;
+    const t2 = ((rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)) + ((a & b) ^ (a & c) ^ (b & c))) | 0;
+    h = g;
+    g = f;
+    f = e;
+    e = (d + t1) | 0;
+    d = c;
+    c = b;
+    b = a;
+    a = (t1 + t2) | 0;
+  }
+  state[0] += a; state[1] += b; state[2] += c; state[3] += d;
+  state[4] += e; state[5] += f; state[6] += g; state[7] += h;
+};
+
+export const createSha256 = (): IncrementalHash => createBlockHash(SHA256_INITIAL, sha256Compress, false);
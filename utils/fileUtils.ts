@@ -1,18 +1,24 @@
+import { PickedFile } from '../types';
+
+/** Read size for chunked encoding; a multiple of 3 so base64 chunks join cleanly. */
+const BASE64_CHUNK = 3 * 256 * 1024;
 
 /**
- * Converts a File object to a base64 encoded string.
+ * Converts a File (or a slice of one) to a base64 encoded string, reading it
+ * in chunks so large files never need a single data URL in memory.
  */
-export const fileToBase64 = (file: File): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.readAsDataURL(file);
-    reader.onload = () => {
-      const result = reader.result as string;
-      const base64 = result.split(',')[1];
-      resolve(base64);
-    };
-    reader.onerror = (error) => reject(error);
-  });
+export const fileToBase64 = async (file: Blob): Promise<string> => {
+  const parts: string[] = [];
+  for (let offset = 0; offset < file.size; offset += BASE64_CHUNK) {
+    const bytes = new Uint8Array(await file.slice(offset, offset + BASE64_CHUNK).arrayBuffer());
+    let binary = '';
+    // fromCharCode takes its bytes as arguments, so feed it in stack-safe pieces.
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+      binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    parts.push(btoa(binary));
+  }
+  return parts.join('');
 };
 
 /**
@@ -21,7 +27,10 @@ export const fileToBase64 = (file: File): Promise<string> => {
  */
 export const getSafeMimeType = (file: File): string => {
   const type = file.type;
-  
+
+  // Emails go as their raw source; message/rfc822 isn't an accepted input type
+  if (type === 'message/rfc822') return 'text/plain';
+
   // If the browser detected a type and it's not the generic octet-stream, use it
   if (type && type !== 'application/octet-stream') return type;
   
@@ -31,7 +40,7 @@ export const getSafeMimeType = (file: File): string => {
     case 'pdf': return 'application/pdf';
     case 'docx': return 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
     case 'html': case 'htm': return 'text/html';
-    case 'txt': case 'md': case 'json': return 'text/plain';
+    case 'txt': case 'md': case 'json': case 'eml': return 'text/plain';
     case 'js': return 'application/javascript';
     case 'ts': return 'application/x-typescript';
     case 'png': return 'image/png';
@@ -60,3 +69,78 @@ export const formatBytes = (bytes: number, decimals = 2) => {
   const i = Math.floor(Math.log(bytes) / Math.log(k));
   return `${parseFloat((bytes / Math.pow(k, i)).toFixed(dm))} ${sizes[i]}`;
 };
+
+/**
+ * Pairs each file from an <input> with its path; folder pickers fill in
+ * webkitRelativePath, plain multi-select leaves it empty.
+ */
+export const pickedFromFileList = (list: FileList | null): PickedFile[] => {
+  return Array.from(list || []).map(file => ({ file, path: file.webkitRelativePath || file.name }));
+};
+
+const readEntry = async (entry: FileSystemEntry, out: PickedFile[]): Promise<void> => {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    out.push({ file, path: entry.fullPath.replace(/^\//, '') });
+  } else if (entry.isDirectory) {
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    // readEntries returns results in pages; an empty page means the folder is exhausted.
+    for (;;) {
+      const page = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+      if (page.length === 0) break;
+      for (const child of page) await readEntry(child, out);
+    }
+  }
+};
+
+/**
+ * Collects every file from a drop, walking into dropped folders.
+ */
+export const pickedFromDataTransfer = async (data: DataTransfer): Promise<PickedFile[]> => {
+  const entries = Array.from(data.items)
+    .map(item => (item.kind === 'file' ? item.webkitGetAsEntry() : null))
+    .filter((entry): entry is FileSystemEntry => entry !== null);
+  if (entries.length === 0) return pickedFromFileList(data.files);
+  const out: PickedFile[] = [];
+  for (const entry of entries) await readEntry(entry, out);
+  return out;
+};
+
+export type PastedTextKind = 'text' | 'email' | 'html' | 'js' | 'ps1' | 'sh';
+
+const PASTED_EXTENSIONS: Record<PastedTextKind, string> = { text: 'txt', email: 'eml', html: 'html', js: 'js', ps1: 'ps1', sh: 'sh' };
+
+/**
+ * Best guess at what a pasted snippet is, so it gets a name the analyzer
+ * checks the right way. Anything unrecognized is plain text.
+ */
+export const guessTextKind = (text: string): PastedTextKind => {
+  const head = text.trimStart().slice(0, 4096);
+  if (/^(?:Received|Return-Path|Delivered-To|From|To|Subject|Message-ID|MIME-Version|Date):[ \t]/im.test(head) && /^(?:From|Subject):/im.test(head)) return 'email';
+  if (/^#!/.test(head)) return 'sh';
+  if (/^(?:<!doctype html|<html|<head|<body|<svg|<script|<iframe|<form)\b/i.test(head)) return 'html';
+  if (/\b(?:Invoke-(?:Expression|WebRequest)|IEX|New-Object\s+Net\.WebClient|-EncodedCommand|Set-ExecutionPolicy)\b|\$env:/i.test(head)) return 'ps1';
+  if (/\b(?:function\s*\w*\s*\(|document\.|window\.|eval\s*\(|(?:var|let|const)\s+\w+\s*=)/.test(head)) return 'js';
+  return 'text';
+};
+
+/**
+ * Wraps pasted text as a file so it goes through the same scan as an
+ * upload. A lone link is named as one; otherwise the kind sets the extension.
+ */
+export const fileFromText = (text: string, kind: PastedTextKind = guessTextKind(text)): File => {
+  const base = /^\S+:\/\/\S+$/.test(text.trim()) ? 'pasted-link' : 'pasted';
+  return new File([text], `${base}.${PASTED_EXTENSIONS[kind]}`, { type: 'text/plain' });
+};
+
+/**
+ * Saves generated text as a download without a round trip to any server.
+ */
+export const downloadText = (fileName: string, text: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
@@ -0,0 +1,21 @@
+import { defineConfig } from 'vite';
+
+// Builds the analyzer library and the omnianalyze CLI for Node. The React app is not included.
+export default defineConfig({
+  build: {
+    ssr: true,
+    outDir: 'dist-node',
+    emptyOutDir: true,
+    target: 'node18',
+    rollupOptions: {
+      input: {
+        index: 'lib/index.ts',
+        omnianalyze: 'cli/omnianalyze.ts'
+      },
+      output: {
+        format: 'es',
+        entryFileNames: '[name].js'
+      }
+    }
+  }
+});